@@ -19,6 +19,7 @@ import type {
 } from '@google/gemini-cli-core';
 import { GeminiEventType } from '@google/gemini-cli-core';
 import { v4 as uuidv4 } from 'uuid';
+import { promises as fsPromises } from 'node:fs';
 
 import { logger } from '../utils/logger.js';
 import type {
@@ -36,6 +37,7 @@ import { loadSettings } from '../config/settings.js';
 import { loadExtensions } from '../config/extension.js';
 import { Task } from './task.js';
 import { requestStorage } from '../http/requestStorage.js';
+import { confineWorkspace } from '../http/auth.js';
 import { pushTaskStateFailed } from '../utils/executor_utils.js';
 
 /**
@@ -45,10 +47,12 @@ import { pushTaskStateFailed } from '../utils/executor_utils.js';
 class TaskWrapper {
   task: Task;
   agentSettings: AgentSettings;
+  tenantId?: string;
 
-  constructor(task: Task, agentSettings: AgentSettings) {
+  constructor(task: Task, agentSettings: AgentSettings, tenantId?: string) {
     this.task = task;
     this.agentSettings = agentSettings;
+    this.tenantId = tenantId;
   }
 
   get id() {
@@ -59,6 +63,7 @@ class TaskWrapper {
     const persistedState: PersistedStateMetadata = {
       _agentSettings: this.agentSettings,
       _taskState: this.task.taskState,
+      ...(this.tenantId && { _tenantId: this.tenantId }),
     };
 
     const sdkTask: SDKTask = {
@@ -128,7 +133,11 @@ export class CoderAgentExecutor implements AgentExecutor {
     runtimeTask.taskState = persistedState._taskState;
     await runtimeTask.geminiClient.initialize();
 
-    const wrapper = new TaskWrapper(runtimeTask, agentSettings);
+    const wrapper = new TaskWrapper(
+      runtimeTask,
+      agentSettings,
+      persistedState._tenantId,
+    );
     this.tasks.set(sdkTask.id, wrapper);
     logger.info(`Task ${sdkTask.id} reconstructed from store.`);
     return wrapper;
@@ -140,12 +149,23 @@ export class CoderAgentExecutor implements AgentExecutor {
     agentSettingsInput?: AgentSettings,
     eventBus?: ExecutionEventBus,
   ): Promise<TaskWrapper> {
-    const agentSettings = agentSettingsInput || ({} as AgentSettings);
+    // With API keys, the task belongs to the caller's tenant and its
+    // workspace must be inside the tenant's workspace root.
+    const principal = requestStorage.getStore()?.principal;
+    let agentSettings = agentSettingsInput || ({} as AgentSettings);
+    if (principal) {
+      agentSettings = confineWorkspace(principal, agentSettingsInput);
+      await fsPromises.mkdir(agentSettings.workspacePath, { recursive: true });
+    }
     const config = await this.getConfig(agentSettings, taskId);
     const runtimeTask = await Task.create(taskId, contextId, config, eventBus);
     await runtimeTask.geminiClient.initialize();
 
-    const wrapper = new TaskWrapper(runtimeTask, agentSettings);
+    const wrapper = new TaskWrapper(
+      runtimeTask,
+      agentSettings,
+      principal?.tenantId,
+    );
     this.tasks.set(taskId, wrapper);
     logger.info(`New task ${taskId} created.`);
     return wrapper;
@@ -422,6 +442,19 @@ export class CoderAgentExecutor implements AgentExecutor {
       return;
     }
 
+    if (store?.principal && wrapper.tenantId !== store.principal.tenantId) {
+      logger.warn(
+        `[CoderAgentExecutor] Task ${taskId} belongs to another tenant. Refusing to execute it.`,
+      );
+      pushTaskStateFailed(
+        new Error(`Task ${taskId} not found.`),
+        eventBus,
+        taskId,
+        contextId,
+      );
+      return;
+    }
+
     const currentTask = wrapper.task;
 
     if (['canceled', 'failed', 'completed'].includes(currentTask.taskState)) {
@@ -5,17 +5,32 @@
  */
 
 import express from 'express';
+import { join } from 'node:path';
 
-import type { AgentCard } from '@a2a-js/sdk';
+import type { AgentCard, TaskState } from '@a2a-js/sdk';
 import type { TaskStore } from '@a2a-js/sdk/server';
 import { DefaultRequestHandler, InMemoryTaskStore } from '@a2a-js/sdk/server';
 import { A2AExpressApp } from '@a2a-js/sdk/server/express'; // Import server components
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger.js';
-import type { AgentSettings } from '../types.js';
+import {
+  getPersistedState,
+  type AgentSettings,
+  type TaskMetadata,
+} from '../types.js';
 import { GCSTaskStore, NoOpTaskStore } from '../persistence/gcs.js';
+import { FileSystemTaskStore } from '../persistence/filesystem.js';
+import { USER_SETTINGS_DIR } from '../config/settings.js';
 import { CoderAgentExecutor } from '../agent/executor.js';
 import { requestStorage } from './requestStorage.js';
+import {
+  ApiKeyRegistry,
+  WorkspaceAccessError,
+  authenticate,
+  authorizeRpc,
+  getPrincipal,
+  requireScope,
+} from './auth.js';
 
 const coderAgentCard: AgentCard = {
   name: 'Gemini SDLC Agent',
@@ -63,23 +78,89 @@ export async function createApp() {
   try {
     // loadEnvironment() is called within getConfig now
     const bucketName = process.env['GCS_BUCKET_NAME'];
+    const taskStoreKind =
+      process.env['TASK_STORE'] || (bucketName ? 'gcs' : 'memory');
     let taskStoreForExecutor: TaskStore;
     let taskStoreForHandler: TaskStore;
 
-    if (bucketName) {
-      logger.info(`Using GCSTaskStore with bucket: ${bucketName}`);
-      const gcsTaskStore = new GCSTaskStore(bucketName);
-      taskStoreForExecutor = gcsTaskStore;
-      taskStoreForHandler = new NoOpTaskStore(gcsTaskStore);
-    } else {
-      logger.info('Using InMemoryTaskStore');
-      const inMemoryTaskStore = new InMemoryTaskStore();
-      taskStoreForExecutor = inMemoryTaskStore;
-      taskStoreForHandler = inMemoryTaskStore;
+    switch (taskStoreKind) {
+      case 'gcs': {
+        if (!bucketName) {
+          throw new Error('TASK_STORE=gcs requires GCS_BUCKET_NAME to be set.');
+        }
+        logger.info(`Using GCSTaskStore with bucket: ${bucketName}`);
+        const gcsTaskStore = new GCSTaskStore(bucketName);
+        taskStoreForExecutor = gcsTaskStore;
+        taskStoreForHandler = new NoOpTaskStore(gcsTaskStore);
+        break;
+      }
+      case 'filesystem': {
+        const storeDir =
+          process.env['TASK_STORE_DIR'] || join(USER_SETTINGS_DIR, 'a2a-tasks');
+        logger.info(`Using FileSystemTaskStore in: ${storeDir}`);
+        const fileSystemTaskStore = new FileSystemTaskStore(storeDir);
+        taskStoreForExecutor = fileSystemTaskStore;
+        taskStoreForHandler = new NoOpTaskStore(fileSystemTaskStore);
+        break;
+      }
+      case 'memory': {
+        logger.info('Using InMemoryTaskStore');
+        const inMemoryTaskStore = new InMemoryTaskStore();
+        taskStoreForExecutor = inMemoryTaskStore;
+        taskStoreForHandler = inMemoryTaskStore;
+        break;
+      }
+      default:
+        throw new Error(
+          `Unknown TASK_STORE "${taskStoreKind}". Use "memory", "filesystem" or "gcs".`,
+        );
+    }
+
+    // Without an API keys file the server accepts every request, as before.
+    const apiKeysFile = process.env['CODER_AGENT_API_KEYS_FILE'];
+    const apiKeys = apiKeysFile
+      ? ApiKeyRegistry.fromFile(apiKeysFile)
+      : undefined;
+    if (!apiKeys) {
+      logger.warn(
+        'CODER_AGENT_API_KEYS_FILE is not set. The server accepts unauthenticated requests.',
+      );
     }
+    coderAgentCard.securitySchemes = apiKeys
+      ? { apiKey: { type: 'http', scheme: 'bearer' } }
+      : undefined;
+    coderAgentCard.security = apiKeys ? [{ apiKey: [] }] : undefined;
 
     const agentExecutor = new CoderAgentExecutor(taskStoreForExecutor);
 
+    // Returns the tenant of a task, or undefined for tasks that don't exist or
+    // have no tenant. Stored tasks are looked up without restoring them.
+    const getTaskTenant = async (
+      taskId: string,
+    ): Promise<string | undefined> => {
+      const wrapper = agentExecutor.getTask(taskId);
+      if (wrapper) {
+        return wrapper.tenantId;
+      }
+      if (taskStoreForExecutor instanceof FileSystemTaskStore) {
+        const entries = await taskStoreForExecutor.list();
+        return entries.find((entry) => entry.id === taskId)?.tenantId;
+      }
+      try {
+        const metadata =
+          taskStoreForExecutor instanceof GCSTaskStore
+            ? await taskStoreForExecutor.loadMetadata(taskId)
+            : (await taskStoreForExecutor.load(taskId))?.metadata;
+        return metadata && getPersistedState(metadata)?._tenantId;
+      } catch (error) {
+        logger.error(
+          `[CoreAgent] Could not look up the tenant of task ${taskId}:`,
+          error,
+        );
+        return undefined;
+      }
+    };
+
     const requestHandler = new DefaultRequestHandler(
       coderAgentCard,
       taskStoreForHandler,
@@ -90,11 +171,23 @@ export async function createApp() {
     expressApp.use((req, res, next) => {
       requestStorage.run({ req }, next);
     });
+    if (apiKeys) {
+      expressApp.use(authenticate(apiKeys));
+    }
 
     const appBuilder = new A2AExpressApp(requestHandler);
-    expressApp = appBuilder.setupRoutes(expressApp, '');
+    expressApp = appBuilder.setupRoutes(expressApp, '', [
+      authorizeRpc(getTaskTenant),
+    ]);
     expressApp.use(express.json());
 
+    // The scopes of the task endpoints. These pass everything without API keys.
+    expressApp.post('/tasks', requireScope('tasks:create'));
+    expressApp.get(
+      ['/tasks/metadata', '/tasks/:taskId/metadata'],
+      requireScope('tasks:read'),
+    );
+
     expressApp.post('/tasks', async (req, res) => {
       try {
         const taskId = uuidv4();
@@ -115,24 +208,69 @@ export async function createApp() {
           error instanceof Error
             ? error.message
             : 'Unknown error creating task';
-        res.status(500).send({ error: errorMessage });
+        res
+          .status(error instanceof WorkspaceAccessError ? 403 : 500)
+          .send({ error: errorMessage });
       }
     });
 
     expressApp.get('/tasks/metadata', async (req, res) => {
-      // This endpoint is only meaningful if the task store is in-memory.
-      if (!(taskStoreForExecutor instanceof InMemoryTaskStore)) {
+      // Listing needs a store that can enumerate tasks.
+      if (
+        !(taskStoreForExecutor instanceof InMemoryTaskStore) &&
+        !(taskStoreForExecutor instanceof FileSystemTaskStore)
+      ) {
         res.status(501).send({
           error:
-            'Listing all task metadata is only supported when using InMemoryTaskStore.',
+            'Listing all task metadata is only supported when using InMemoryTaskStore or FileSystemTaskStore.',
         });
+        return;
       }
+      const state =
+        typeof req.query['state'] === 'string'
+          ? (req.query['state'] as TaskState)
+          : undefined;
+      const contextId =
+        typeof req.query['contextId'] === 'string'
+          ? req.query['contextId']
+          : undefined;
+      // With API keys, callers only see the tasks of their own tenant.
+      const tenantId = getPrincipal()?.tenantId;
       try {
-        const wrappers = agentExecutor.getAllTasks();
-        if (wrappers && wrappers.length > 0) {
-          const tasksMetadata = await Promise.all(
-            wrappers.map((wrapper) => wrapper.task.getMetadata()),
+        let tasksMetadata: Array<Partial<TaskMetadata>>;
+        if (taskStoreForExecutor instanceof FileSystemTaskStore) {
+          // Tasks that are not loaded in this process are described by their
+          // index entry, so that listing doesn't restore every workspace.
+          const entries = await taskStoreForExecutor.list({
+            state,
+            contextId,
+            tenantId,
+          });
+          tasksMetadata = await Promise.all(
+            entries.map(
+              (entry) =>
+                agentExecutor.getTask(entry.id)?.task.getMetadata() ?? {
+                  id: entry.id,
+                  contextId: entry.contextId,
+                  taskState: entry.taskState,
+                },
+            ),
           );
+        } else {
+          const wrappers = agentExecutor
+            .getAllTasks()
+            .filter((wrapper) => !tenantId || wrapper.tenantId === tenantId);
+          tasksMetadata = (
+            await Promise.all(
+              wrappers.map((wrapper) => wrapper.task.getMetadata()),
+            )
+          ).filter(
+            (metadata) =>
+              (!state || metadata.taskState === state) &&
+              (!contextId || metadata.contextId === contextId),
+          );
+        }
+        if (tasksMetadata.length > 0) {
           res.status(200).json(tasksMetadata);
         } else {
           res.status(204).send();
@@ -149,6 +287,11 @@ export async function createApp() {
 
     expressApp.get('/tasks/:taskId/metadata', async (req, res) => {
       const taskId = req.params.taskId;
+      const principal = getPrincipal();
+      if (principal && (await getTaskTenant(taskId)) !== principal.tenantId) {
+        res.status(404).send({ error: 'Task not found' });
+        return;
+      }
       let wrapper = agentExecutor.getTask(taskId);
       if (!wrapper) {
         const sdkTask = await taskStoreForExecutor.load(taskId);
@@ -156,7 +299,7 @@ export async function createApp() {
           wrapper = await agentExecutor.reconstruct(sdkTask);
         }
       }
-      if (!wrapper) {
+      if (!wrapper || (principal && wrapper.tenantId !== principal.tenantId)) {
         res.status(404).send({ error: 'Task not found' });
         return;
       }
@@ -0,0 +1,234 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  ApiKeyRegistry,
+  WorkspaceAccessError,
+  confineWorkspace,
+  getRpcScopes,
+  getRpcTaskId,
+  type ApiKeysFile,
+  type Principal,
+} from './auth.js';
+import { CoderAgentEvent } from '../types.js';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const keysFile = (overrides: Partial<ApiKeysFile> = {}): ApiKeysFile => ({
+  tenants: { 'team-a': { workspaceRoot: 'workspaces/team-a' } },
+  keys: [{ key: 'secret', tenantId: 'team-a', scopes: ['tasks:read'] }],
+  ...overrides,
+});
+
+describe('ApiKeyRegistry', () => {
+  it('should return the principal of a known key', () => {
+    const registry = new ApiKeyRegistry(keysFile(), '/srv');
+
+    expect(registry.authenticate('secret')).toEqual({
+      tenantId: 'team-a',
+      scopes: ['tasks:read'],
+      workspaceRoot: path.resolve('/srv', 'workspaces/team-a'),
+    });
+    expect(registry.authenticate('other')).toBeUndefined();
+  });
+
+  it('should reject keys of unknown tenants', () => {
+    expect(
+      () =>
+        new ApiKeyRegistry(
+          keysFile({
+            keys: [{ key: 'secret', tenantId: 'team-b', scopes: [] }],
+          }),
+        ),
+    ).toThrow('API key 0 belongs to unknown tenant team-b.');
+  });
+
+  it('should reject unknown scopes', () => {
+    expect(
+      () =>
+        new ApiKeyRegistry(
+          keysFile({
+            keys: [
+              {
+                key: 'secret',
+                tenantId: 'team-a',
+                scopes: ['tasks:delete' as 'tasks:read'],
+              },
+            ],
+          }),
+        ),
+    ).toThrow('API key 0 has unknown scope tasks:delete.');
+  });
+
+  it('should reject tenant IDs that are not safe directory names', () => {
+    expect(
+      () =>
+        new ApiKeyRegistry(
+          keysFile({ tenants: { '../team': { workspaceRoot: '/srv' } } }),
+        ),
+    ).toThrow('Invalid tenant ID: ../team');
+  });
+
+  it('should reject duplicate keys', () => {
+    const key = { key: 'secret', tenantId: 'team-a', scopes: [] };
+    expect(() => new ApiKeyRegistry(keysFile({ keys: [key, key] }))).toThrow(
+      'API key 1 is listed more than once.',
+    );
+  });
+
+  it('should throw if the file cannot be read', () => {
+    expect(() => ApiKeyRegistry.fromFile('/does/not/exist.json')).toThrow(
+      'Could not read API keys file /does/not/exist.json',
+    );
+  });
+});
+
+describe('getRpcScopes', () => {
+  const message = (parts: unknown[]) => ({
+    method: 'message/stream',
+    params: { message: { parts } },
+  });
+  const confirmation = {
+    kind: 'data',
+    data: { callId: 'call-1', outcome: 'proceed_once' },
+  };
+
+  it('should require tasks:read to read tasks', () => {
+    expect(getRpcScopes({ method: 'tasks/get' })).toEqual(['tasks:read']);
+  });
+
+  it('should require tasks:create to send messages', () => {
+    expect(getRpcScopes(message([{ kind: 'text', text: 'Hi' }]))).toEqual([
+      'tasks:create',
+    ]);
+  });
+
+  it('should require tools:approve to confirm tool calls', () => {
+    expect(getRpcScopes(message([confirmation]))).toEqual(['tools:approve']);
+    expect(
+      getRpcScopes(message([confirmation, { kind: 'text', text: 'Also' }])),
+    ).toEqual(['tools:approve', 'tasks:create']);
+  });
+
+  it('should require tasks:create for other methods', () => {
+    expect(getRpcScopes({ method: 'tasks/cancel' })).toEqual(['tasks:create']);
+  });
+});
+
+describe('getRpcTaskId', () => {
+  it('should return the task of a message or of a task request', () => {
+    expect(getRpcTaskId({ params: { message: { taskId: 'task-1' } } })).toBe(
+      'task-1',
+    );
+    expect(getRpcTaskId({ params: { id: 'task-2' } })).toBe('task-2');
+    expect(getRpcTaskId({ params: { message: {} } })).toBeUndefined();
+  });
+});
+
+describe('confineWorkspace', () => {
+  const root = path.resolve('/srv/workspaces/team-a');
+  const principal: Principal = {
+    tenantId: 'team-a',
+    scopes: [],
+    workspaceRoot: root,
+  };
+
+  it('should default to the workspace root of the tenant', () => {
+    expect(confineWorkspace(principal, undefined)).toEqual({
+      kind: CoderAgentEvent.StateAgentSettingsEvent,
+      workspacePath: root,
+    });
+  });
+
+  it('should resolve relative paths against the workspace root', () => {
+    expect(
+      confineWorkspace(principal, {
+        kind: CoderAgentEvent.StateAgentSettingsEvent,
+        workspacePath: 'project',
+      }).workspacePath,
+    ).toBe(path.join(root, 'project'));
+  });
+
+  it('should reject paths outside the workspace root', () => {
+    expect(() =>
+      confineWorkspace(principal, {
+        kind: CoderAgentEvent.StateAgentSettingsEvent,
+        workspacePath: '../team-b',
+      }),
+    ).toThrow(WorkspaceAccessError);
+  });
+
+  describe('with symbolic links', () => {
+    let tmpDir: string;
+    let linkedPrincipal: Principal;
+
+    beforeEach(() => {
+      tmpDir = fs.realpathSync(
+        fs.mkdtempSync(path.join(os.tmpdir(), 'confine-workspace-')),
+      );
+      fs.mkdirSync(path.join(tmpDir, 'team-a'));
+      fs.mkdirSync(path.join(tmpDir, 'team-b'));
+      linkedPrincipal = {
+        ...principal,
+        workspaceRoot: path.join(tmpDir, 'team-a'),
+      };
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should reject links inside the workspace root that point outside it', () => {
+      fs.symlinkSync(
+        path.join(tmpDir, 'team-b'),
+        path.join(tmpDir, 'team-a', 'escape'),
+      );
+
+      expect(() =>
+        confineWorkspace(linkedPrincipal, {
+          kind: CoderAgentEvent.StateAgentSettingsEvent,
+          workspacePath: 'escape/project',
+        }),
+      ).toThrow(WorkspaceAccessError);
+    });
+
+    it('should reject links to missing targets outside the workspace root', () => {
+      fs.symlinkSync(
+        path.join(tmpDir, 'team-c'),
+        path.join(tmpDir, 'team-a', 'escape'),
+      );
+
+      expect(() =>
+        confineWorkspace(linkedPrincipal, {
+          kind: CoderAgentEvent.StateAgentSettingsEvent,
+          workspacePath: 'escape',
+        }),
+      ).toThrow(WorkspaceAccessError);
+    });
+
+    it('should allow links that stay inside the workspace root', () => {
+      fs.mkdirSync(path.join(tmpDir, 'team-a', 'project'));
+      fs.symlinkSync(
+        path.join(tmpDir, 'team-a', 'project'),
+        path.join(tmpDir, 'team-a', 'current'),
+      );
+
+      expect(
+        confineWorkspace(linkedPrincipal, {
+          kind: CoderAgentEvent.StateAgentSettingsEvent,
+          workspacePath: 'current',
+        }).workspacePath,
+      ).toBe(path.join(tmpDir, 'team-a', 'project'));
+    });
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type express from 'express';
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { logger } from '../utils/logger.js';
+import { CoderAgentEvent, type AgentSettings } from '../types.js';
+import { requestStorage } from './requestStorage.js';
+
+export type AuthScope = 'tasks:create' | 'tasks:read' | 'tools:approve';
+
+export const AUTH_SCOPES: readonly AuthScope[] = [
+  'tasks:create',
+  'tasks:read',
+  'tools:approve',
+];
+
+/** The tenant and permissions of an authenticated API key. */
+export interface Principal {
+  tenantId: string;
+  scopes: readonly AuthScope[];
+  /** The directory that the workspaces of the tenant's tasks must be in. */
+  workspaceRoot: string;
+}
+
+/**
+ * The format of the file that `CODER_AGENT_API_KEYS_FILE` points to. Relative
+ * workspace roots are resolved against the directory of the file.
+ */
+export interface ApiKeysFile {
+  tenants: Record<string, { workspaceRoot: string }>;
+  keys: Array<{ key: string; tenantId: string; scopes: AuthScope[] }>;
+}
+
+/** Thrown when a task asks for a workspace outside its tenant's root. */
+export class WorkspaceAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceAccessError';
+  }
+}
+
+const AGENT_CARD_PATH = '/.well-known/agent-card.json';
+
+// Tenant IDs become directory names, so they are restricted to safe characters.
+const isTenantIdValid = (tenantId: string): boolean =>
+  /^[a-zA-Z0-9_-]+$/.test(tenantId);
+
+// Keys are looked up by their hash so that lookups don't leak the key through timing.
+const hashKey = (key: string): string =>
+  createHash('sha256').update(key).digest('hex');
+
+export class ApiKeyRegistry {
+  private principals = new Map<string, Principal>();
+
+  constructor(file: ApiKeysFile, baseDir: string = process.cwd()) {
+    if (
+      !file ||
+      typeof file.tenants !== 'object' ||
+      !Array.isArray(file.keys)
+    ) {
+      throw new Error('An API keys file needs "tenants" and "keys".');
+    }
+    for (const [tenantId, tenant] of Object.entries(file.tenants)) {
+      if (!isTenantIdValid(tenantId)) {
+        throw new Error(`Invalid tenant ID: ${tenantId}`);
+      }
+      if (typeof tenant?.workspaceRoot !== 'string' || !tenant.workspaceRoot) {
+        throw new Error(`Tenant ${tenantId} needs a workspaceRoot.`);
+      }
+    }
+    file.keys.forEach((entry, i) => {
+      if (typeof entry?.key !== 'string' || !entry.key) {
+        throw new Error(`API key ${i} is empty.`);
+      }
+      const tenant = file.tenants[entry.tenantId];
+      if (!tenant) {
+        throw new Error(
+          `API key ${i} belongs to unknown tenant ${entry.tenantId}.`,
+        );
+      }
+      const unknownScope = (entry.scopes ?? []).find(
+        (scope) => !AUTH_SCOPES.includes(scope),
+      );
+      if (unknownScope) {
+        throw new Error(`API key ${i} has unknown scope ${unknownScope}.`);
+      }
+      const hash = hashKey(entry.key);
+      if (this.principals.has(hash)) {
+        throw new Error(`API key ${i} is listed more than once.`);
+      }
+      this.principals.set(hash, {
+        tenantId: entry.tenantId,
+        scopes: entry.scopes ?? [],
+        workspaceRoot: path.resolve(baseDir, tenant.workspaceRoot),
+      });
+    });
+  }
+
+  static fromFile(filePath: string): ApiKeyRegistry {
+    let file: ApiKeysFile;
+    try {
+      file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ApiKeysFile;
+    } catch (error) {
+      throw new Error(`Could not read API keys file ${filePath}: ${error}`);
+    }
+    const registry = new ApiKeyRegistry(file, path.dirname(filePath));
+    logger.info(
+      `Loaded ${registry.principals.size} API keys from ${filePath}.`,
+    );
+    return registry;
+  }
+
+  authenticate(key: string): Principal | undefined {
+    return this.principals.get(hashKey(key));
+  }
+}
+
+/** Returns the principal of the request being handled, if auth is enabled. */
+export function getPrincipal(): Principal | undefined {
+  return requestStorage.getStore()?.principal;
+}
+
+function getRequestKey(req: express.Request): string | undefined {
+  const authorization = req.header('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i);
+  if (bearer) {
+    return bearer[1].trim();
+  }
+  return req.header('x-api-key') || undefined;
+}
+
+/**
+ * Rejects requests without a known API key, except for the public agent card,
+ * and records the principal of the key for the rest of the request.
+ */
+export function authenticate(registry: ApiKeyRegistry): express.RequestHandler {
+  return (req, res, next) => {
+    if (req.method === 'GET' && req.path === AGENT_CARD_PATH) {
+      next();
+      return;
+    }
+    const key = getRequestKey(req);
+    const principal = key ? registry.authenticate(key) : undefined;
+    if (!principal) {
+      res
+        .status(401)
+        .set('WWW-Authenticate', 'Bearer')
+        .send({ error: key ? 'Invalid API key.' : 'Missing API key.' });
+      return;
+    }
+    const store = requestStorage.getStore();
+    if (store) {
+      store.principal = principal;
+    }
+    next();
+  };
+}
+
+function sendMissingScope(res: express.Response, scope: AuthScope) {
+  res
+    .status(403)
+    .send({ error: `This API key does not have the "${scope}" scope.` });
+}
+
+/** Rejects requests whose API key lacks the scope. A no-op without auth. */
+export function requireScope(scope: AuthScope): express.RequestHandler {
+  return (_req, res, next) => {
+    const principal = getPrincipal();
+    if (principal && !principal.scopes.includes(scope)) {
+      sendMissingScope(res, scope);
+      return;
+    }
+    next();
+  };
+}
+
+const READ_METHODS = new Set([
+  'tasks/get',
+  'tasks/resubscribe',
+  'tasks/pushNotificationConfig/get',
+  'tasks/pushNotificationConfig/list',
+  'agent/getAuthenticatedExtendedCard',
+]);
+
+const isToolConfirmationPart = (part: unknown): boolean => {
+  const { kind, data } = (part ?? {}) as {
+    kind?: unknown;
+    data?: Record<string, unknown>;
+  };
+  return (
+    kind === 'data' &&
+    typeof data?.['callId'] === 'string' &&
+    typeof data?.['outcome'] === 'string'
+  );
+};
+
+/** Returns the scopes an A2A JSON-RPC request needs. */
+export function getRpcScopes(body: unknown): AuthScope[] {
+  const { method, params } = (body ?? {}) as {
+    method?: unknown;
+    params?: { message?: { parts?: unknown[] } };
+  };
+  if (typeof method === 'string' && READ_METHODS.has(method)) {
+    return ['tasks:read'];
+  }
+  if (method === 'message/send' || method === 'message/stream') {
+    const parts = params?.message?.parts ?? [];
+    const confirmations = parts.filter(isToolConfirmationPart);
+    const scopes: AuthScope[] = [];
+    if (confirmations.length > 0) {
+      scopes.push('tools:approve');
+    }
+    if (confirmations.length < parts.length || parts.length === 0) {
+      scopes.push('tasks:create');
+    }
+    return scopes;
+  }
+  return ['tasks:create'];
+}
+
+/** Returns the ID of the task an A2A JSON-RPC request refers to, if any. */
+export function getRpcTaskId(body: unknown): string | undefined {
+  const params = (body as { params?: Record<string, unknown> })?.params;
+  const message = params?.['message'] as { taskId?: unknown } | undefined;
+  const taskId = message?.taskId ?? params?.['id'] ?? params?.['taskId'];
+  return typeof taskId === 'string' ? taskId : undefined;
+}
+
+/**
+ * Checks the scopes of A2A JSON-RPC requests, and hides the tasks of other
+ * tenants. `getTaskTenant` returns undefined for tasks that don't exist or
+ * have no tenant, which no API key can reach.
+ */
+export function authorizeRpc(
+  getTaskTenant: (taskId: string) => Promise<string | undefined>,
+): express.RequestHandler {
+  return async (req, res, next) => {
+    const principal = getPrincipal();
+    if (!principal || req.method !== 'POST') {
+      next();
+      return;
+    }
+    const missingScope = getRpcScopes(req.body).find(
+      (scope) => !principal.scopes.includes(scope),
+    );
+    if (missingScope) {
+      sendMissingScope(res, missingScope);
+      return;
+    }
+    const taskId = getRpcTaskId(req.body);
+    if (taskId && (await getTaskTenant(taskId)) !== principal.tenantId) {
+      res.status(404).send({ error: 'Task not found' });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Resolves the symbolic links in a path. Parts of the path that don't exist
+ * yet are appended to the real path of their nearest existing parent, and
+ * links to missing targets are followed to where the target would be.
+ */
+function realpathOfNearestExisting(filePath: string): string {
+  try {
+    return fs.realpathSync(filePath);
+  } catch (error) {
+    const parent = path.dirname(filePath);
+    if (
+      (error as NodeJS.ErrnoException).code !== 'ENOENT' ||
+      parent === filePath
+    ) {
+      throw error;
+    }
+    const realParent = realpathOfNearestExisting(parent);
+    const linkPath = path.join(realParent, path.basename(filePath));
+    let target: string;
+    try {
+      target = fs.readlinkSync(linkPath);
+    } catch {
+      return linkPath;
+    }
+    return realpathOfNearestExisting(path.resolve(realParent, target));
+  }
+}
+
+/**
+ * Resolves the workspace of a new task against the tenant's workspace root,
+ * which is also the default, and rejects paths that leave it, including
+ * through symbolic links.
+ */
+export function confineWorkspace(
+  principal: Principal,
+  agentSettings: AgentSettings | undefined,
+): AgentSettings {
+  const workspaceRoot = realpathOfNearestExisting(principal.workspaceRoot);
+  const workspacePath = realpathOfNearestExisting(
+    path.resolve(principal.workspaceRoot, agentSettings?.workspacePath ?? '.'),
+  );
+  const relative = path.relative(workspaceRoot, workspacePath);
+  if (
+    relative === '..' ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+  ) {
+    throw new WorkspaceAccessError(
+      `Workspace ${workspacePath} is outside the workspace root of tenant ${principal.tenantId}.`,
+    );
+  }
+  return {
+    ...agentSettings,
+    kind: CoderAgentEvent.StateAgentSettingsEvent,
+    workspacePath,
+  };
+}
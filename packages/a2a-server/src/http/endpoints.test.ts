@@ -147,6 +147,23 @@ describe('Agent Server Endpoints', () => {
     expect(taskMetadata).toBeDefined();
   });
 
+  it('should filter task metadata by context ID via GET /tasks/metadata', async () => {
+    const createResponse = await createTask('test-context-4');
+    const taskId = createResponse.body;
+    const response = await request(app)
+      .get('/tasks/metadata')
+      .query({ contextId: 'test-context-4' });
+    expect(response.status).toBe(200);
+    expect(response.body.map((m: TaskMetadata) => m.id)).toEqual([taskId]);
+  });
+
+  it('should return 204 when no task matches the filter', async () => {
+    const response = await request(app)
+      .get('/tasks/metadata')
+      .query({ state: 'completed' });
+    expect(response.status).toBe(204);
+  });
+
   it('should return 404 for a non-existent task', async () => {
     const response = await request(app).get('/tasks/fake-task/metadata');
     expect(response.status).toBe(404);
@@ -160,3 +177,211 @@ describe('Agent Server Endpoints', () => {
     expect(response.body.url).toBe(`http://localhost:${port}/`);
   });
 });
+
+describe('Agent Server Endpoints with API keys', () => {
+  let app: express.Express;
+  let testWorkspace: string;
+
+  const keys = {
+    adminA: 'team-a-admin-key',
+    readerA: 'team-a-reader-key',
+    adminB: 'team-b-admin-key',
+  };
+
+  const createTask = (key: string, workspacePath?: string) =>
+    request(app)
+      .post('/tasks')
+      .set('Authorization', `Bearer ${key}`)
+      .send({
+        contextId: 'auth-context',
+        agentSettings: workspacePath
+          ? { kind: 'agent-settings', workspacePath }
+          : undefined,
+      })
+      .set('Content-Type', 'application/json');
+
+  beforeAll(async () => {
+    testWorkspace = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'gemini-agent-auth-test-'),
+    );
+    const keysFile = path.join(testWorkspace, 'api-keys.json');
+    fs.writeFileSync(
+      keysFile,
+      JSON.stringify({
+        tenants: {
+          'team-a': { workspaceRoot: 'team-a' },
+          'team-b': { workspaceRoot: 'team-b' },
+        },
+        keys: [
+          {
+            key: keys.adminA,
+            tenantId: 'team-a',
+            scopes: ['tasks:create', 'tasks:read', 'tools:approve'],
+          },
+          { key: keys.readerA, tenantId: 'team-a', scopes: ['tasks:read'] },
+          {
+            key: keys.adminB,
+            tenantId: 'team-b',
+            scopes: ['tasks:create', 'tasks:read', 'tools:approve'],
+          },
+        ],
+      }),
+    );
+    vi.stubEnv('CODER_AGENT_API_KEYS_FILE', keysFile);
+    app = await createApp();
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(testWorkspace, { recursive: true, force: true });
+  });
+
+  it('should reject requests without an API key', async () => {
+    const response = await request(app).get('/tasks/metadata');
+    expect(response.status).toBe(401);
+    expect(response.headers['www-authenticate']).toBe('Bearer');
+    expect(response.body.error).toBe('Missing API key.');
+  });
+
+  it('should reject requests with an unknown API key', async () => {
+    const response = await createTask('wrong-key');
+    expect(response.status).toBe(401);
+    expect(response.body.error).toBe('Invalid API key.');
+  });
+
+  it('should serve the agent card without an API key', async () => {
+    const response = await request(app).get('/.well-known/agent-card.json');
+    expect(response.status).toBe(200);
+    expect(response.body.securitySchemes).toEqual({
+      apiKey: { type: 'http', scheme: 'bearer' },
+    });
+  });
+
+  it('should create a task with a bearer token or an X-API-Key header', async () => {
+    expect((await createTask(keys.adminA)).status).toBe(201);
+    const response = await request(app)
+      .post('/tasks')
+      .set('X-API-Key', keys.adminB)
+      .send({ contextId: 'auth-context' });
+    expect(response.status).toBe(201);
+  });
+
+  it('should reject keys without the scope of the endpoint', async () => {
+    const response = await createTask(keys.readerA);
+    expect(response.status).toBe(403);
+    expect(response.body.error).toBe(
+      'This API key does not have the "tasks:create" scope.',
+    );
+  });
+
+  it('should reject workspaces outside the workspace root of the tenant', async () => {
+    const response = await createTask(
+      keys.adminA,
+      path.join(testWorkspace, 'team-b'),
+    );
+    expect(response.status).toBe(403);
+    expect(response.body.error).toContain(
+      'is outside the workspace root of tenant team-a',
+    );
+  });
+
+  it('should create the task workspace inside the workspace root of the tenant', async () => {
+    const response = await createTask(keys.adminA, 'project');
+    expect(response.status).toBe(201);
+    expect(fs.existsSync(path.join(testWorkspace, 'team-a', 'project'))).toBe(
+      true,
+    );
+  });
+
+  it('should only list the tasks of the tenant of the key', async () => {
+    const taskA = (await createTask(keys.adminA)).body;
+    const taskB = (await createTask(keys.adminB)).body;
+
+    const response = await request(app)
+      .get('/tasks/metadata')
+      .set('Authorization', `Bearer ${keys.readerA}`);
+
+    expect(response.status).toBe(200);
+    const ids = response.body.map((m: TaskMetadata) => m.id);
+    expect(ids).toContain(taskA);
+    expect(ids).not.toContain(taskB);
+  });
+
+  it('should hide the tasks of other tenants', async () => {
+    const taskB = (await createTask(keys.adminB)).body;
+
+    const metadataResponse = await request(app)
+      .get(`/tasks/${taskB}/metadata`)
+      .set('Authorization', `Bearer ${keys.adminA}`);
+    expect(metadataResponse.status).toBe(404);
+
+    const rpcResponse = await request(app)
+      .post('/')
+      .set('Authorization', `Bearer ${keys.adminA}`)
+      .send({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tasks/get',
+        params: { id: taskB },
+      });
+    expect(rpcResponse.status).toBe(404);
+  });
+
+  it('should hide tasks that have no tenant or do not exist', async () => {
+    const taskA = (await createTask(keys.adminA)).body;
+    const ownResponse = await request(app)
+      .post('/')
+      .set('Authorization', `Bearer ${keys.adminA}`)
+      .send({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tasks/get',
+        params: { id: taskA },
+      });
+    expect(ownResponse.status).toBe(200);
+
+    const response = await request(app)
+      .post('/')
+      .set('Authorization', `Bearer ${keys.adminA}`)
+      .send({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tasks/resubscribe',
+        params: { id: 'unknown-task' },
+      });
+    expect(response.status).toBe(404);
+
+    const metadataResponse = await request(app)
+      .get('/tasks/unknown-task/metadata')
+      .set('Authorization', `Bearer ${keys.adminA}`);
+    expect(metadataResponse.status).toBe(404);
+  });
+
+  it('should check the scopes of A2A requests', async () => {
+    const response = await request(app)
+      .post('/')
+      .set('Authorization', `Bearer ${keys.readerA}`)
+      .send({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'message/send',
+        params: {
+          message: {
+            kind: 'message',
+            role: 'user',
+            messageId: 'message-1',
+            parts: [
+              {
+                kind: 'data',
+                data: { callId: 'call-1', outcome: 'proceed_once' },
+              },
+            ],
+          },
+        },
+      });
+    expect(response.status).toBe(403);
+    expect(response.body.error).toBe(
+      'This API key does not have the "tools:approve" scope.',
+    );
+  });
+});
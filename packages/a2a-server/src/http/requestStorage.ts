@@ -6,5 +6,10 @@
 
 import type express from 'express';
 import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Principal } from './auth.js';
 
-export const requestStorage = new AsyncLocalStorage<{ req: express.Request }>();
+export const requestStorage = new AsyncLocalStorage<{
+  req: express.Request;
+  /** Set by the auth middleware once the request's API key is verified. */
+  principal?: Principal;
+}>();
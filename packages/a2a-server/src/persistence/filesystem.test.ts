@@ -0,0 +1,171 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Task as SDKTask, TaskState } from '@a2a-js/sdk';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { FileSystemTaskStore } from './filesystem.js';
+import { setTargetDir } from '../config/config.js';
+import { CoderAgentEvent, METADATA_KEY } from '../types.js';
+
+vi.mock('../utils/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+vi.mock('../config/config.js', () => ({
+  setTargetDir: vi.fn(),
+}));
+
+describe('FileSystemTaskStore', () => {
+  let tmpDir: string;
+  let storeDir: string;
+  let workspaceDir: string;
+  let restoreDir: string;
+
+  const createTask = (
+    id: string,
+    state: TaskState = 'submitted',
+    contextId = 'context-1',
+  ): SDKTask => ({
+    id,
+    contextId,
+    kind: 'task',
+    status: { state },
+    metadata: {
+      [METADATA_KEY]: {
+        _agentSettings: {
+          kind: CoderAgentEvent.StateAgentSettingsEvent,
+          workspacePath: workspaceDir,
+        },
+        _taskState: state,
+      },
+    },
+  });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-store-test-'));
+    storeDir = path.join(tmpDir, 'store');
+    workspaceDir = path.join(tmpDir, 'workspace');
+    restoreDir = path.join(tmpDir, 'restore');
+    fs.mkdirSync(workspaceDir);
+    fs.writeFileSync(path.join(workspaceDir, 'hello.txt'), 'Hello!');
+    vi.spyOn(process, 'cwd').mockReturnValue(workspaceDir);
+    vi.mocked(setTargetDir).mockReturnValue(restoreDir);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should throw if no directory is given', () => {
+    expect(() => new FileSystemTaskStore('')).toThrow(
+      'A directory for the task store is required.',
+    );
+  });
+
+  it('should save a task and load it with its workspace', async () => {
+    const store = new FileSystemTaskStore(storeDir);
+    const task = createTask('task-1', 'working');
+
+    await store.save(task);
+    const loaded = await store.load('task-1');
+
+    expect(loaded).toMatchObject({
+      id: 'task-1',
+      contextId: 'context-1',
+      kind: 'task',
+      status: { state: 'working' },
+      metadata: task.metadata,
+    });
+    expect(fs.readFileSync(path.join(restoreDir, 'hello.txt'), 'utf-8')).toBe(
+      'Hello!',
+    );
+  });
+
+  it('should keep tasks across store instances', async () => {
+    await new FileSystemTaskStore(storeDir).save(createTask('task-1'));
+
+    const store = new FileSystemTaskStore(storeDir);
+
+    expect(await store.load('task-1')).toBeDefined();
+    expect((await store.list()).map((entry) => entry.id)).toEqual(['task-1']);
+  });
+
+  it('should save a task without a workspace archive if the workspace is empty', async () => {
+    fs.rmSync(path.join(workspaceDir, 'hello.txt'));
+    const store = new FileSystemTaskStore(storeDir);
+
+    await store.save(createTask('task-1'));
+
+    expect(
+      fs.existsSync(path.join(storeDir, 'tasks', 'task-1', 'workspace.tar.gz')),
+    ).toBe(false);
+    expect(await store.load('task-1')).toBeDefined();
+  });
+
+  it('should return undefined for an unknown task', async () => {
+    const store = new FileSystemTaskStore(storeDir);
+
+    expect(await store.load('unknown')).toBeUndefined();
+  });
+
+  it('should reject task IDs that could escape the store directory', async () => {
+    const store = new FileSystemTaskStore(storeDir);
+
+    await expect(store.load('../task')).rejects.toThrow(
+      'Invalid taskId: ../task',
+    );
+    await expect(store.save(createTask('../task'))).rejects.toThrow(
+      'Invalid taskId: ../task',
+    );
+  });
+
+  it('should throw if the task is missing persisted state', async () => {
+    const store = new FileSystemTaskStore(storeDir);
+
+    await expect(
+      store.save({ ...createTask('task-1'), metadata: {} }),
+    ).rejects.toThrow('Task task-1 is missing persisted state in metadata.');
+  });
+
+  it('should list tasks filtered by state and context ID', async () => {
+    const store = new FileSystemTaskStore(storeDir);
+    await Promise.all([
+      store.save(createTask('task-1', 'working', 'context-1')),
+      store.save(createTask('task-2', 'completed', 'context-1')),
+      store.save(createTask('task-3', 'working', 'context-2')),
+    ]);
+
+    const ids = async (filter?: Parameters<typeof store.list>[0]) =>
+      (await store.list(filter)).map((entry) => entry.id).sort();
+
+    expect(await ids()).toEqual(['task-1', 'task-2', 'task-3']);
+    expect(await ids({ state: 'working' })).toEqual(['task-1', 'task-3']);
+    expect(await ids({ contextId: 'context-1' })).toEqual(['task-1', 'task-2']);
+    expect(await ids({ state: 'working', contextId: 'context-2' })).toEqual([
+      'task-3',
+    ]);
+  });
+
+  it('should update the index entry when a task is saved again', async () => {
+    const store = new FileSystemTaskStore(storeDir);
+    await store.save(createTask('task-1', 'working'));
+
+    await store.save(createTask('task-1', 'completed'));
+
+    expect(await store.list()).toEqual([
+      expect.objectContaining({ id: 'task-1', taskState: 'completed' }),
+    ]);
+  });
+});
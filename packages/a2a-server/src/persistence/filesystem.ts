@@ -0,0 +1,227 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as tar from 'tar';
+import * as fse from 'fs-extra';
+import { promises as fsPromises } from 'node:fs';
+import { join } from 'node:path';
+import type { Task as SDKTask, TaskState } from '@a2a-js/sdk';
+import type { TaskStore } from '@a2a-js/sdk/server';
+import { logger } from '../utils/logger.js';
+import { setTargetDir } from '../config/config.js';
+import { getPersistedState, type PersistedTaskMetadata } from '../types.js';
+
+const INDEX_FILENAME = 'index.json';
+const METADATA_FILENAME = 'metadata.json';
+const WORKSPACE_FILENAME = 'workspace.tar.gz';
+
+/** A task as recorded in the index of a `FileSystemTaskStore`. */
+export interface TaskIndexEntry {
+  id: string;
+  contextId: string;
+  taskState: TaskState;
+  tenantId?: string;
+  /** When the task was last saved, as an ISO 8601 string. */
+  updatedAt: string;
+}
+
+export interface TaskIndexFilter {
+  state?: TaskState;
+  contextId?: string;
+  tenantId?: string;
+}
+
+interface TaskIndex {
+  tasks: Record<string, TaskIndexEntry>;
+}
+
+interface StoredTask {
+  id: string;
+  contextId: string;
+  metadata: PersistedTaskMetadata;
+}
+
+// Validate the taskId to prevent path traversal attacks by ensuring it only contains safe characters.
+const isTaskIdValid = (taskId: string): boolean => {
+  // Allow only alphanumeric characters, dashes, and underscores, and ensure it's not empty.
+  const validTaskIdRegex = /^[a-zA-Z0-9_-]+$/;
+  return validTaskIdRegex.test(taskId);
+};
+
+/**
+ * Persists tasks on the local disk, so that self-hosted servers keep them
+ * across restarts. Each task gets a directory with its metadata and a tarball
+ * of its workspace, and a JSON index of all tasks allows listing them.
+ */
+export class FileSystemTaskStore implements TaskStore {
+  private index: Promise<TaskIndex> | undefined;
+  // Serializes index updates so that concurrent saves don't lose entries.
+  private indexWrite: Promise<void> = Promise.resolve();
+
+  constructor(private rootDir: string) {
+    if (!rootDir) {
+      throw new Error('A directory for the task store is required.');
+    }
+    logger.info(`FileSystemTaskStore using directory: ${this.rootDir}`);
+  }
+
+  private getTaskDir(taskId: string): string {
+    if (!isTaskIdValid(taskId)) {
+      throw new Error(`Invalid taskId: ${taskId}`);
+    }
+    return join(this.rootDir, 'tasks', taskId);
+  }
+
+  private loadIndex(): Promise<TaskIndex> {
+    this.index ??= (async () => {
+      const indexPath = join(this.rootDir, INDEX_FILENAME);
+      if (!(await fse.pathExists(indexPath))) {
+        return { tasks: {} };
+      }
+      return (await fse.readJson(indexPath)) as TaskIndex;
+    })();
+    return this.index;
+  }
+
+  private async updateIndex(entry: TaskIndexEntry): Promise<void> {
+    const write = this.indexWrite.then(async () => {
+      const index = await this.loadIndex();
+      index.tasks[entry.id] = entry;
+      const indexPath = join(this.rootDir, INDEX_FILENAME);
+      // Write to a temporary file first so a crash never leaves a truncated index.
+      const tmpIndexPath = `${indexPath}.${process.pid}.tmp`;
+      await fse.writeJson(tmpIndexPath, index, { spaces: 2 });
+      await fse.move(tmpIndexPath, indexPath, { overwrite: true });
+    });
+    // Keep the queue going if this write fails; the caller still sees the error.
+    this.indexWrite = write.catch(() => {});
+    return write;
+  }
+
+  async save(task: SDKTask): Promise<void> {
+    const taskId = task.id;
+    const persistedState = getPersistedState(
+      task.metadata as PersistedTaskMetadata,
+    );
+
+    if (!persistedState) {
+      throw new Error(`Task ${taskId} is missing persisted state in metadata.`);
+    }
+    const workDir = process.cwd();
+    const taskDir = this.getTaskDir(taskId);
+
+    try {
+      await fse.ensureDir(taskDir);
+      const storedTask: StoredTask = {
+        id: taskId,
+        contextId: task.contextId,
+        metadata: task.metadata as PersistedTaskMetadata,
+      };
+      await fse.writeJson(join(taskDir, METADATA_FILENAME), storedTask);
+      logger.info(`Task ${taskId} metadata saved to ${taskDir}`);
+
+      const entries = (await fse.pathExists(workDir))
+        ? await fsPromises.readdir(workDir)
+        : [];
+      if (entries.length > 0) {
+        const archiveFile = join(taskDir, WORKSPACE_FILENAME);
+        const tmpArchiveFile = `${archiveFile}.tmp`;
+        try {
+          await tar.c(
+            {
+              gzip: true,
+              file: tmpArchiveFile,
+              cwd: workDir,
+              portable: true,
+            },
+            entries,
+          );
+          await fse.move(tmpArchiveFile, archiveFile, { overwrite: true });
+          logger.info(`Task ${taskId} workspace saved to ${archiveFile}`);
+        } finally {
+          await fse.remove(tmpArchiveFile);
+        }
+      } else {
+        logger.info(
+          `Workspace directory ${workDir} is empty or missing, skipping workspace save for task ${taskId}.`,
+        );
+      }
+
+      await this.updateIndex({
+        id: taskId,
+        contextId: task.contextId,
+        taskState: persistedState._taskState,
+        tenantId: persistedState._tenantId,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error(`Failed to save task ${taskId} to ${taskDir}:`, error);
+      throw error;
+    }
+  }
+
+  async load(taskId: string): Promise<SDKTask | undefined> {
+    const taskDir = this.getTaskDir(taskId);
+    const metadataPath = join(taskDir, METADATA_FILENAME);
+
+    try {
+      if (!(await fse.pathExists(metadataPath))) {
+        logger.info(`Task ${taskId} metadata not found in ${taskDir}.`);
+        return undefined;
+      }
+      const storedTask = (await fse.readJson(metadataPath)) as StoredTask;
+      const persistedState = getPersistedState(storedTask.metadata);
+      if (!persistedState) {
+        throw new Error(
+          `Loaded metadata for task ${taskId} is missing internal persisted state.`,
+        );
+      }
+
+      const workDir = setTargetDir(persistedState._agentSettings);
+      await fse.ensureDir(workDir);
+      const archiveFile = join(taskDir, WORKSPACE_FILENAME);
+      if (await fse.pathExists(archiveFile)) {
+        await tar.x({ file: archiveFile, cwd: workDir });
+        logger.info(`Task ${taskId} workspace restored to ${workDir}`);
+      } else {
+        logger.info(`Task ${taskId} workspace archive not found.`);
+      }
+
+      return {
+        id: taskId,
+        contextId: storedTask.contextId,
+        kind: 'task',
+        status: {
+          state: persistedState._taskState,
+          timestamp: new Date().toISOString(),
+        },
+        metadata: storedTask.metadata,
+        history: [],
+        artifacts: [],
+      };
+    } catch (error) {
+      logger.error(`Failed to load task ${taskId} from ${taskDir}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the saved tasks, most recently saved first, without restoring their
+   * workspaces.
+   */
+  async list(filter: TaskIndexFilter = {}): Promise<TaskIndexEntry[]> {
+    await this.indexWrite;
+    const index = await this.loadIndex();
+    return Object.values(index.tasks)
+      .filter(
+        (entry) =>
+          (!filter.state || entry.taskState === filter.state) &&
+          (!filter.contextId || entry.contextId === filter.contextId) &&
+          (!filter.tenantId || entry.tenantId === filter.tenantId),
+      )
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+}
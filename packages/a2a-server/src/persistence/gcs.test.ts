@@ -353,6 +353,29 @@ describe('GCSTaskStore', () => {
     });
   });
 
+  describe('loadMetadata', () => {
+    it('should load the metadata without restoring the workspace', async () => {
+      const metadata = {
+        [TEST_METADATA_KEY]: {
+          _agentSettings: {},
+          _taskState: 'submitted',
+          _tenantId: 'team-a',
+        },
+      };
+      mockGunzipSync.mockReturnValue(Buffer.from(JSON.stringify(metadata)));
+      mockFile.exists.mockResolvedValue([true]);
+      mockFile.download.mockResolvedValue([Buffer.from('compressed metadata')]);
+
+      const store = new GCSTaskStore(bucketName);
+
+      expect(await store.loadMetadata('task1')).toEqual(metadata);
+      expect(mockBucket.file).not.toHaveBeenCalledWith(
+        'tasks/task1/workspace.tar.gz',
+      );
+      expect(mockTar.x).not.toHaveBeenCalled();
+    });
+  });
+
   it('should throw an error if taskId contains path traversal sequences', async () => {
     const store = new GCSTaskStore('test-bucket');
     const maliciousTaskId = '../../../malicious-task';
@@ -229,24 +229,38 @@ export class GCSTaskStore implements TaskStore {
     }
   }
 
-  async load(taskId: string): Promise<SDKTask | undefined> {
+  /**
+   * Loads only the metadata of a task, without restoring its workspace, e.g.
+   * to check who owns it.
+   */
+  async loadMetadata(
+    taskId: string,
+  ): Promise<PersistedTaskMetadata | undefined> {
     await this.ensureBucketInitialized();
-    const metadataObjectPath = this.getObjectPath(taskId, 'metadata');
+    const metadataFile = this.storage
+      .bucket(this.bucketName)
+      .file(this.getObjectPath(taskId, 'metadata'));
+    const [metadataExists] = await metadataFile.exists();
+    if (!metadataExists) {
+      logger.info(`Task ${taskId} metadata not found in GCS.`);
+      return undefined;
+    }
+    const [compressedMetadata] = await metadataFile.download();
+    const loadedMetadata = JSON.parse(
+      gunzipSync(compressedMetadata).toString(),
+    ) as PersistedTaskMetadata;
+    logger.info(`Task ${taskId} metadata loaded from GCS.`);
+    return loadedMetadata;
+  }
+
+  async load(taskId: string): Promise<SDKTask | undefined> {
     const workspaceObjectPath = this.getObjectPath(taskId, 'workspace');
 
     try {
-      const metadataFile = this.storage
-        .bucket(this.bucketName)
-        .file(metadataObjectPath);
-      const [metadataExists] = await metadataFile.exists();
-      if (!metadataExists) {
-        logger.info(`Task ${taskId} metadata not found in GCS.`);
+      const loadedMetadata = await this.loadMetadata(taskId);
+      if (!loadedMetadata) {
         return undefined;
       }
-      const [compressedMetadata] = await metadataFile.download();
-      const jsonData = gunzipSync(compressedMetadata).toString();
-      const loadedMetadata = JSON.parse(jsonData);
-      logger.info(`Task ${taskId} metadata loaded from GCS.`);
 
       const persistedState = getPersistedState(loadedMetadata);
       if (!persistedState) {
@@ -281,7 +295,8 @@ export class GCSTaskStore implements TaskStore {
 
       return {
         id: taskId,
-        contextId: loadedMetadata._contextId || uuidv4(),
+        contextId:
+          (loadedMetadata['_contextId'] as string | undefined) || uuidv4(),
         kind: 'task',
         status: {
           state: persistedState._taskState,
@@ -106,6 +106,8 @@ export interface TaskMetadata {
 export interface PersistedStateMetadata {
   _agentSettings: AgentSettings;
   _taskState: TaskState;
+  /** The tenant that owns the task, when the server requires API keys. */
+  _tenantId?: string;
 }
 
 export type PersistedTaskMetadata = { [k: string]: unknown };
@@ -51,6 +51,7 @@ export function createMockConfig(
     getSessionId: vi.fn().mockReturnValue('test-session-id'),
     getUserTier: vi.fn(),
     getEnableMessageBusIntegration: vi.fn().mockReturnValue(false),
+    getPolicyAuditLog: () => undefined,
     getMessageBus: vi.fn(),
     getPolicyEngine: vi.fn(),
     ...overrides,
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { parseAgentMarkdown } from '@google/gemini-cli-core';
+import { initAgent } from './init.js';
+
+describe('agent init command', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-init-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should scaffold an agent file that parses', async () => {
+    const filePath = await initAgent({
+      name: 'Release Notes',
+      description: 'Drafts release notes: from commits.',
+      directory: tempDir,
+    });
+
+    expect(filePath).toBe(path.join(tempDir, 'release-notes.agent.md'));
+    const definition = parseAgentMarkdown(
+      await fs.readFile(filePath, 'utf-8'),
+      filePath,
+    );
+    expect(definition.name).toBe('Release Notes');
+    expect(definition.description).toBe('Drafts release notes: from commits.');
+    expect(definition.inputConfig.inputs['objective']?.required).toBe(true);
+  });
+
+  it('should not replace an existing file unless asked to', async () => {
+    const filePath = await initAgent({ name: 'helper', directory: tempDir });
+    await fs.writeFile(filePath, 'custom');
+
+    await expect(
+      initAgent({ name: 'helper', directory: tempDir }),
+    ).rejects.toThrow('Use --overwrite to replace it.');
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('custom');
+
+    await initAgent({ name: 'helper', directory: tempDir, overwrite: true });
+    expect(await fs.readFile(filePath, 'utf-8')).toContain('name: "helper"');
+  });
+});
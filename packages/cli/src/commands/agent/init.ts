@@ -0,0 +1,127 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// File for 'coco agent init' command
+import type { CommandModule } from 'yargs';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { debugLogger, Storage } from '@google/gemini-cli-core';
+import { getErrorMessage } from '../../utils/errors.js';
+import { slugify } from './utils.js';
+
+const AGENT_TEMPLATE = `---
+name: {{NAME_VALUE}}
+description: {{DESCRIPTION_VALUE}}
+tools: [read_file, ls, glob, grep]
+run:
+  max_time_minutes: 5
+  max_turns: 10
+inputs:
+  - name: objective
+    type: string
+    description: What the agent should accomplish.
+query: \${objective}
+---
+
+You are {{NAME}}. {{DESCRIPTION}}
+
+- Investigate before acting and explain your reasoning.
+- Keep the final answer focused on the objective.
+`;
+
+interface InitArgs {
+  name: string;
+  description?: string;
+  directory?: string;
+  global?: boolean;
+  overwrite?: boolean;
+}
+
+/**
+ * Writes a starter `.agent.md` file and returns its path.
+ */
+export async function initAgent(args: InitArgs): Promise<string> {
+  const name = args.name.trim();
+  if (!name) {
+    throw new Error('Agent name cannot be empty.');
+  }
+  const description =
+    args.description?.trim() || `Describe what ${name} is good at.`;
+
+  const directory = args.global
+    ? Storage.getGlobalAgentsDir()
+    : path.resolve(process.cwd(), args.directory ?? 'agents');
+  const filePath = path.join(directory, `${slugify(name)}.agent.md`);
+
+  await fs.mkdir(directory, { recursive: true });
+  try {
+    await fs.writeFile(
+      filePath,
+      AGENT_TEMPLATE
+        // Quoted so that names and descriptions stay valid YAML.
+        .replaceAll('{{NAME_VALUE}}', JSON.stringify(name))
+        .replaceAll('{{DESCRIPTION_VALUE}}', JSON.stringify(description))
+        .replaceAll('{{NAME}}', name)
+        .replaceAll('{{DESCRIPTION}}', description),
+      { encoding: 'utf-8', flag: args.overwrite ? 'w' : 'wx' },
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw new Error(
+        `Agent file already exists at ${filePath}. Use --overwrite to replace it.`,
+      );
+    }
+    throw error;
+  }
+  return filePath;
+}
+
+export const initCommand: CommandModule = {
+  command: 'init <name>',
+  describe: 'Create a starter .agent.md file',
+  builder: (yargs) =>
+    yargs
+      .positional('name', {
+        describe: 'Name of the agent',
+        type: 'string',
+        demandOption: true,
+      })
+      .option('description', {
+        describe: 'One-line summary of what the agent does',
+        type: 'string',
+      })
+      .option('directory', {
+        alias: 'd',
+        describe: 'Directory to create the agent in (defaults to ./agents)',
+        type: 'string',
+      })
+      .option('global', {
+        describe: 'Create the agent in the global agents directory',
+        type: 'boolean',
+        default: false,
+      })
+      .option('overwrite', {
+        alias: 'f',
+        describe: 'Replace the file if it already exists',
+        type: 'boolean',
+        default: false,
+      }),
+  handler: async (argv) => {
+    try {
+      const filePath = await initAgent({
+        name: argv['name'] as string,
+        description: argv['description'] as string | undefined,
+        directory: argv['directory'] as string | undefined,
+        global: argv['global'] as boolean,
+        overwrite: argv['overwrite'] as boolean,
+      });
+      debugLogger.log(`Created agent at ${filePath}`);
+    } catch (error) {
+      debugLogger.error(getErrorMessage(error));
+      process.exit(1);
+    }
+  },
+};
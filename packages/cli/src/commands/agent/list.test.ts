@@ -0,0 +1,69 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { debugLogger, type AgentRegistry } from '@google/gemini-cli-core';
+import { listAgents } from './list.js';
+import { loadAgentRegistry } from './utils.js';
+
+vi.mock('./utils.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./utils.js')>()),
+  loadAgentRegistry: vi.fn(),
+}));
+
+describe('agent list command', () => {
+  beforeEach(() => {
+    vi.spyOn(debugLogger, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should list agents with their source and shadowed definitions', async () => {
+    vi.mocked(loadAgentRegistry).mockResolvedValue({
+      getAllDefinitions: () => [
+        { name: 'reviewer', description: 'Reviews code.' },
+        { name: 'codebase_investigator', description: 'Investigates.' },
+      ],
+      getSource: (name: string) =>
+        name === 'reviewer'
+          ? { kind: 'workspace', filePath: '/ws/.gemini/agents/r.agent.md' }
+          : { kind: 'built-in' },
+      getShadowedSources: (name: string) =>
+        name === 'reviewer'
+          ? [{ kind: 'project', filePath: '/ws/agents/r.agent.md' }]
+          : [],
+    } as unknown as AgentRegistry);
+
+    await listAgents();
+
+    const output = vi
+      .mocked(debugLogger.log)
+      .mock.calls.map((call) => call[0])
+      .join('\n');
+    expect(output).toContain('codebase_investigator (built-in)');
+    expect(output).toContain(
+      'reviewer (workspace: /ws/.gemini/agents/r.agent.md)',
+    );
+    expect(output).toContain('shadows project: /ws/agents/r.agent.md');
+    expect(output.indexOf('codebase_investigator')).toBeLessThan(
+      output.indexOf('reviewer'),
+    );
+  });
+
+  it('should print the searched directories when there are no agents', async () => {
+    vi.mocked(loadAgentRegistry).mockResolvedValue({
+      getAllDefinitions: () => [],
+      getAgentDirectories: () => [{ kind: 'project', path: '/ws/agents' }],
+    } as unknown as AgentRegistry);
+
+    await listAgents();
+
+    expect(debugLogger.log).toHaveBeenCalledWith('No agents found.');
+    expect(debugLogger.log).toHaveBeenCalledWith('  project: /ws/agents');
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// File for 'coco agent list' command
+import type { CommandModule } from 'yargs';
+import { debugLogger } from '@google/gemini-cli-core';
+import { getErrorMessage } from '../../utils/errors.js';
+import { formatAgentSource, loadAgentRegistry } from './utils.js';
+
+export async function listAgents(): Promise<void> {
+  const registry = await loadAgentRegistry();
+  const definitions = registry
+    .getAllDefinitions()
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  if (definitions.length === 0) {
+    debugLogger.log('No agents found.');
+    debugLogger.log('Searched:');
+    for (const directory of registry.getAgentDirectories()) {
+      debugLogger.log(`  ${directory.kind}: ${directory.path}`);
+    }
+    return;
+  }
+
+  debugLogger.log('Available agents:\n');
+  for (const definition of definitions) {
+    const source = registry.getSource(definition.name);
+    debugLogger.log(
+      `${definition.name}${source ? ` (${formatAgentSource(source)})` : ''}`,
+    );
+    debugLogger.log(`  ${definition.description}`);
+    for (const shadowed of registry.getShadowedSources(definition.name)) {
+      debugLogger.log(`  shadows ${formatAgentSource(shadowed)}`);
+    }
+  }
+}
+
+export const listCommand: CommandModule = {
+  command: 'list',
+  describe: 'List available agents and where they are defined',
+  handler: async () => {
+    try {
+      await listAgents();
+    } catch (error) {
+      debugLogger.error(getErrorMessage(error));
+      process.exit(1);
+    }
+  },
+};
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  debugLogger,
+  type AgentRegistry,
+  type AgentSource,
+} from '@google/gemini-cli-core';
+import { removeAgent } from './remove.js';
+import { loadAgentRegistry } from './utils.js';
+
+vi.mock('./utils.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./utils.js')>()),
+  loadAgentRegistry: vi.fn(),
+}));
+
+function mockRegistry(
+  sources: Record<string, AgentSource>,
+  shadowed: AgentSource[] = [],
+) {
+  vi.mocked(loadAgentRegistry).mockResolvedValue({
+    getSource: (name: string) => sources[name],
+    getShadowedSources: () => shadowed,
+  } as unknown as AgentRegistry);
+}
+
+describe('agent rm command', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-rm-'));
+    vi.spyOn(debugLogger, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should delete the file that defines the agent', async () => {
+    const filePath = path.join(tempDir, 'helper.agent.md');
+    await fs.writeFile(filePath, '# Agent: helper\n');
+    mockRegistry({ helper: { kind: 'project', filePath } }, [
+      { kind: 'user', filePath: '/home/.gemini/agents/helper.agent.md' },
+    ]);
+
+    await removeAgent('helper');
+
+    await expect(fs.access(filePath)).rejects.toThrow();
+    expect(debugLogger.log).toHaveBeenCalledWith(
+      'The definition from user: /home/.gemini/agents/helper.agent.md is now active.',
+    );
+  });
+
+  it('should refuse to remove built-in agents', async () => {
+    mockRegistry({ codebase_investigator: { kind: 'built-in' } });
+
+    await expect(removeAgent('codebase_investigator')).rejects.toThrow(
+      'is built in and cannot be removed',
+    );
+  });
+
+  it('should fail for unknown agents', async () => {
+    mockRegistry({});
+
+    await expect(removeAgent('nope')).rejects.toThrow(
+      'Agent "nope" not found.',
+    );
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// File for 'coco agent rm' command
+import type { CommandModule } from 'yargs';
+import { promises as fs } from 'node:fs';
+import { debugLogger } from '@google/gemini-cli-core';
+import { getErrorMessage } from '../../utils/errors.js';
+import { formatAgentSource, loadAgentRegistry } from './utils.js';
+
+export async function removeAgent(name: string): Promise<void> {
+  const registry = await loadAgentRegistry();
+  const source = registry.getSource(name);
+  if (!source) {
+    throw new Error(`Agent "${name}" not found.`);
+  }
+  if (!source.filePath) {
+    throw new Error(`Agent "${name}" is built in and cannot be removed.`);
+  }
+
+  await fs.unlink(source.filePath);
+  debugLogger.log(`Agent "${name}" removed (${source.filePath}).`);
+
+  const shadowed = registry.getShadowedSources(name).at(-1);
+  if (shadowed) {
+    debugLogger.log(
+      `The definition from ${formatAgentSource(shadowed)} is now active.`,
+    );
+  }
+}
+
+export const removeCommand: CommandModule = {
+  command: 'rm <name>',
+  aliases: ['remove'],
+  describe: 'Delete the file defining an agent',
+  builder: (yargs) =>
+    yargs.positional('name', {
+      describe: 'Name of the agent',
+      type: 'string',
+      demandOption: true,
+    }),
+  handler: async (argv) => {
+    try {
+      await removeAgent(argv['name'] as string);
+    } catch (error) {
+      debugLogger.error(getErrorMessage(error));
+      process.exit(1);
+    }
+  },
+};
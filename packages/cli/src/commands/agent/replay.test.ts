@@ -0,0 +1,144 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  AgentExecutor,
+  AgentTerminateMode,
+  hashAgentDefinition,
+  listAgentRuns,
+  loadAgentRun,
+  type AgentDefinition,
+  type AgentRunTranscript,
+  type Config,
+} from '@google/gemini-cli-core';
+import { replayAgentRun } from './replay.js';
+import { loadAgentCommandConfig } from './utils.js';
+import type { LoadedSettings } from '../../config/settings.js';
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/gemini-cli-core')>()),
+  AgentExecutor: { create: vi.fn() },
+  listAgentRuns: vi.fn(),
+  loadAgentRun: vi.fn(),
+}));
+
+vi.mock('./utils.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./utils.js')>()),
+  loadAgentCommandConfig: vi.fn(),
+}));
+
+const definition = {
+  name: 'helper',
+  description: 'Helps.',
+  inputConfig: { inputs: {} },
+  modelConfig: { model: 'gemini-test-model', temp: 0, top_p: 1 },
+  runConfig: { max_time_minutes: 1 },
+  promptConfig: { systemPrompt: 'Help.' },
+} as AgentDefinition;
+
+const transcript: AgentRunTranscript = {
+  runId: 'abc12345',
+  agentName: 'helper',
+  definitionHash: hashAgentDefinition(definition),
+  parentChain: [],
+  startTime: '2025-01-01T10:00:00.000Z',
+  inputs: { goal: 'help' },
+  turns: [],
+  terminateReason: AgentTerminateMode.MAX_TURNS,
+};
+
+describe('agent replay command', () => {
+  const config = {
+    initialize: vi.fn(),
+    storage: {},
+    getAgentRegistry: () => ({
+      getDefinition: (name: string) =>
+        name === definition.name ? definition : undefined,
+    }),
+  } as unknown as Config;
+  const run = vi.fn();
+  let stdout: string;
+  let stderr: string;
+
+  beforeEach(() => {
+    stdout = '';
+    stderr = '';
+    vi.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+      stdout += chunk;
+      return true;
+    });
+    vi.spyOn(process.stderr, 'write').mockImplementation((chunk) => {
+      stderr += chunk;
+      return true;
+    });
+    vi.mocked(loadAgentCommandConfig).mockResolvedValue({
+      config,
+      settings: {} as LoadedSettings,
+    });
+    vi.mocked(AgentExecutor.create).mockResolvedValue({
+      run,
+    } as unknown as Awaited<ReturnType<typeof AgentExecutor.create>>);
+    run.mockResolvedValue({
+      result: 'Done again.',
+      terminate_reason: AgentTerminateMode.GOAL,
+    });
+    vi.mocked(listAgentRuns).mockReturnValue([
+      {
+        runId: 'def67890',
+        agentName: 'helper',
+        startTime: '2025-01-02T10:00:00.000Z',
+        turns: 0,
+        replayOf: 'abc12345',
+        filePath: '/tmp/run.json',
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should replay the run with its recorded inputs', async () => {
+    vi.mocked(loadAgentRun).mockReturnValue(transcript);
+
+    await replayAgentRun('abc12345');
+
+    expect(AgentExecutor.create).toHaveBeenCalledWith(
+      definition,
+      config,
+      expect.any(Function),
+      undefined,
+      transcript,
+    );
+    expect(run).toHaveBeenCalledWith({ goal: 'help' }, expect.any(AbortSignal));
+    expect(stdout).toBe('Done again.\n');
+    expect(stderr).toBe(
+      'Replay def67890 finished with GOAL (recorded run: MAX_TURNS).\n',
+    );
+  });
+
+  it('should note when the agent changed since the run', async () => {
+    vi.mocked(loadAgentRun).mockReturnValue({
+      ...transcript,
+      definitionHash: 'outdated',
+    });
+
+    await replayAgentRun('abc12345');
+
+    expect(stderr).toContain(
+      'Agent "helper" has changed since run abc12345; replaying with its current definition.',
+    );
+  });
+
+  it('should reject unknown runs', async () => {
+    vi.mocked(loadAgentRun).mockReturnValue(undefined);
+
+    await expect(replayAgentRun('nope')).rejects.toThrow(
+      'No agent run found with ID "nope".',
+    );
+  });
+});
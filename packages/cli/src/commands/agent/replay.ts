@@ -0,0 +1,95 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// File for 'coco agent replay' command
+import type { CommandModule } from 'yargs';
+import {
+  AgentExecutor,
+  debugLogger,
+  hashAgentDefinition,
+  listAgentRuns,
+  loadAgentRun,
+} from '@google/gemini-cli-core';
+import { getErrorMessage } from '../../utils/errors.js';
+import { reportActivity } from './run.js';
+import { loadAgentCommandConfig } from './utils.js';
+
+/**
+ * Re-runs a saved agent run with the agent's current definition, feeding it
+ * the model responses and tool results that were recorded. No model is called
+ * and no tool is executed, so the replay is deterministic.
+ */
+export async function replayAgentRun(runId: string): Promise<void> {
+  const { config } = await loadAgentCommandConfig();
+  await config.initialize();
+
+  const transcript = loadAgentRun(config.storage, runId);
+  if (!transcript) {
+    throw new Error(
+      `No agent run found with ID "${runId}". Use /agents runs to list recorded runs.`,
+    );
+  }
+  const definition = config
+    .getAgentRegistry()
+    .getDefinition(transcript.agentName);
+  if (!definition) {
+    throw new Error(
+      `Agent "${transcript.agentName}" of run ${runId} no longer exists.`,
+    );
+  }
+  if (hashAgentDefinition(definition) !== transcript.definitionHash) {
+    process.stderr.write(
+      `Agent "${definition.name}" has changed since run ${runId}; replaying with its current definition.\n`,
+    );
+  }
+
+  const abortController = new AbortController();
+  const onInterrupt = () => abortController.abort();
+  process.once('SIGINT', onInterrupt);
+  try {
+    const executor = await AgentExecutor.create(
+      definition,
+      config,
+      reportActivity,
+      undefined,
+      transcript,
+    );
+    const output = await executor.run(
+      transcript.inputs,
+      abortController.signal,
+    );
+
+    const replay = listAgentRuns(config.storage).find(
+      (run) => run.replayOf === runId,
+    );
+    process.stderr.write(
+      `Replay ${replay?.runId ?? ''} finished with ${output.terminate_reason} (recorded run: ${transcript.terminateReason ?? 'UNFINISHED'}).\n`,
+    );
+    process.stdout.write(`${output.result}\n`);
+  } finally {
+    process.off('SIGINT', onInterrupt);
+  }
+}
+
+export const replayCommand: CommandModule = {
+  command: 'replay <run-id>',
+  describe: 'Replay a recorded agent run against its current definition',
+  builder: (yargs) =>
+    yargs.positional('run-id', {
+      describe: 'ID of the run, as listed by /agents runs',
+      type: 'string',
+      demandOption: true,
+    }),
+  handler: async (argv) => {
+    try {
+      await replayAgentRun(argv['runId'] as string);
+      process.exit(0);
+    } catch (error) {
+      debugLogger.error(getErrorMessage(error));
+      process.exit(1);
+    }
+  },
+};
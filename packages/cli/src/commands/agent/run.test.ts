@@ -0,0 +1,82 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { AgentDefinition } from '@google/gemini-cli-core';
+import { parseAgentInputs } from './run.js';
+
+const definition = {
+  name: 'tester',
+  inputConfig: {
+    inputs: {
+      objective: { type: 'string', required: true, description: '' },
+      depth: { type: 'integer', required: false, description: '' },
+      verbose: { type: 'boolean', required: false, description: '' },
+      paths: { type: 'string[]', required: false, description: '' },
+      scope: { type: 'object', required: false, description: '' },
+      mode: {
+        type: 'string',
+        required: true,
+        description: '',
+        default: 'fast',
+      },
+    },
+  },
+} as unknown as AgentDefinition;
+
+describe('agent run command', () => {
+  describe('parseAgentInputs', () => {
+    it('should convert values to the declared input types', () => {
+      expect(
+        parseAgentInputs(definition, [
+          'objective=find a=b usages',
+          'depth=3',
+          'verbose=true',
+          'paths=src,docs',
+          'paths=test',
+        ]),
+      ).toEqual({
+        objective: 'find a=b usages',
+        depth: 3,
+        verbose: true,
+        paths: ['src', 'docs', 'test'],
+      });
+    });
+
+    it('should parse object inputs as JSON', () => {
+      expect(
+        parseAgentInputs(definition, ['objective=x', 'scope={"path":"src"}']),
+      ).toEqual({ objective: 'x', scope: { path: 'src' } });
+      expect(() =>
+        parseAgentInputs(definition, ['objective=x', 'scope=src']),
+      ).toThrow('Input "scope" must be a JSON object');
+    });
+
+    it('should reject missing required inputs', () => {
+      expect(() => parseAgentInputs(definition, ['depth=1'])).toThrow(
+        'Missing required input(s): objective.',
+      );
+    });
+
+    it('should reject unknown inputs', () => {
+      expect(() =>
+        parseAgentInputs(definition, ['objective=x', 'other=1']),
+      ).toThrow('Agent "tester" has no input "other".');
+    });
+
+    it('should reject malformed pairs and values', () => {
+      expect(() => parseAgentInputs(definition, ['objective'])).toThrow(
+        'Expected key=value.',
+      );
+      expect(() =>
+        parseAgentInputs(definition, ['objective=x', 'depth=1.5']),
+      ).toThrow('Input "depth" must be an integer');
+      expect(() =>
+        parseAgentInputs(definition, ['objective=x', 'verbose=yes']),
+      ).toThrow('Input "verbose" must be true or false');
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// File for 'coco agent run' command
+import type { CommandModule } from 'yargs';
+import {
+  AgentExecutor,
+  AgentTerminateMode,
+  debugLogger,
+  type AgentDefinition,
+  type AgentInputs,
+  type SubagentActivityEvent,
+} from '@google/gemini-cli-core';
+import { getErrorMessage } from '../../utils/errors.js';
+import { validateNonInteractiveAuth } from '../../validateNonInterActiveAuth.js';
+import { loadAgentCommandConfig } from './utils.js';
+
+type InputType = AgentDefinition['inputConfig']['inputs'][string]['type'];
+
+function parseScalar(name: string, raw: string, type: InputType): unknown {
+  switch (type) {
+    case 'number':
+    case 'number[]':
+    case 'integer': {
+      const value = Number(raw);
+      if (raw.trim() === '' || Number.isNaN(value)) {
+        throw new Error(`Input "${name}" must be a number, got "${raw}".`);
+      }
+      if (type === 'integer' && !Number.isInteger(value)) {
+        throw new Error(`Input "${name}" must be an integer, got "${raw}".`);
+      }
+      return value;
+    }
+    case 'boolean':
+      if (raw === 'true') return true;
+      if (raw === 'false') return false;
+      throw new Error(`Input "${name}" must be true or false, got "${raw}".`);
+    case 'object':
+      try {
+        return JSON.parse(raw);
+      } catch {
+        throw new Error(`Input "${name}" must be a JSON object, got "${raw}".`);
+      }
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Turns `key=value` pairs from the command line into the agent's inputs,
+ * converting values to the declared input types. Array inputs may be given
+ * several times or as a comma-separated list, object inputs as JSON.
+ */
+export function parseAgentInputs(
+  definition: AgentDefinition,
+  pairs: string[],
+): AgentInputs {
+  const declared = definition.inputConfig.inputs;
+  const inputs: AgentInputs = {};
+
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid input "${pair}". Expected key=value.`);
+    }
+    const name = pair.slice(0, separator).trim();
+    const raw = pair.slice(separator + 1);
+    const input = declared[name];
+    if (!input) {
+      const known = Object.keys(declared).join(', ') || 'none';
+      throw new Error(
+        `Agent "${definition.name}" has no input "${name}". Known inputs: ${known}.`,
+      );
+    }
+
+    if (input.type.endsWith('[]')) {
+      const values = raw
+        .split(',')
+        .map((value) => value.trim())
+        .filter((value) => value.length > 0)
+        .map((value) => parseScalar(name, value, input.type));
+      inputs[name] = [...((inputs[name] as unknown[]) ?? []), ...values];
+    } else {
+      inputs[name] = parseScalar(name, raw, input.type);
+    }
+  }
+
+  const missing = Object.entries(declared)
+    .filter(
+      ([name, input]) =>
+        input.required && input.default === undefined && !(name in inputs),
+    )
+    .map(([name]) => name);
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing required input(s): ${missing.join(', ')}. Pass them with --input <name>=<value>.`,
+    );
+  }
+
+  return inputs;
+}
+
+/** Reports an agent's tool calls and errors on stderr. */
+export function reportActivity(activity: SubagentActivityEvent): void {
+  const label = [...activity.parentChain, activity.agentName].join(' › ');
+  if (activity.type === 'TOOL_CALL_START') {
+    process.stderr.write(`[${label}] ${String(activity.data['name'])}\n`);
+  } else if (activity.type === 'ERROR') {
+    process.stderr.write(
+      `[${label}] error: ${String(activity.data['error'])}\n`,
+    );
+  }
+}
+
+interface RunArgs {
+  name: string;
+  input?: string[];
+}
+
+export async function runAgent(args: RunArgs): Promise<void> {
+  const { config, settings } = await loadAgentCommandConfig();
+  await config.initialize();
+
+  const definition = config.getAgentRegistry().getDefinition(args.name);
+  if (!definition) {
+    throw new Error(
+      `Agent "${args.name}" not found. Run "coco agent list" to see available agents.`,
+    );
+  }
+  const inputs = parseAgentInputs(definition, args.input ?? []);
+
+  await validateNonInteractiveAuth(
+    settings.merged.security?.auth?.selectedType,
+    settings.merged.security?.auth?.useExternal,
+    config,
+    settings,
+  );
+
+  const abortController = new AbortController();
+  const onInterrupt = () => abortController.abort();
+  process.once('SIGINT', onInterrupt);
+  try {
+    const executor = await AgentExecutor.create(
+      definition,
+      config,
+      reportActivity,
+    );
+    const output = await executor.run(inputs, abortController.signal);
+
+    if (output.terminate_reason !== AgentTerminateMode.GOAL) {
+      throw new Error(
+        `Agent "${definition.name}" stopped without completing its task (${output.terminate_reason}): ${output.result}`,
+      );
+    }
+    process.stdout.write(`${output.result}\n`);
+  } finally {
+    process.off('SIGINT', onInterrupt);
+  }
+}
+
+export const runCommand: CommandModule = {
+  command: 'run <name>',
+  describe: 'Run an agent headlessly and print its result',
+  builder: (yargs) =>
+    yargs
+      .positional('name', {
+        describe: 'Name of the agent',
+        type: 'string',
+        demandOption: true,
+      })
+      .option('input', {
+        alias: 'i',
+        describe: 'Agent input as key=value. Can be repeated.',
+        type: 'string',
+        array: true,
+      }),
+  handler: async (argv) => {
+    try {
+      await runAgent({
+        name: argv['name'] as string,
+        input: argv['input'] as string[] | undefined,
+      });
+      process.exit(0);
+    } catch (error) {
+      debugLogger.error(getErrorMessage(error));
+      process.exit(1);
+    }
+  },
+};
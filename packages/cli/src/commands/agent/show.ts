@@ -0,0 +1,98 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// File for 'coco agent show' command
+import type { CommandModule } from 'yargs';
+import { debugLogger } from '@google/gemini-cli-core';
+import { getErrorMessage } from '../../utils/errors.js';
+import { formatAgentSource, loadAgentRegistry } from './utils.js';
+
+export async function showAgent(name: string): Promise<void> {
+  const registry = await loadAgentRegistry();
+  const definition = registry.getDefinition(name);
+  if (!definition) {
+    throw new Error(
+      `Agent "${name}" not found. Run "coco agent list" to see available agents.`,
+    );
+  }
+
+  const source = registry.getSource(name);
+  debugLogger.log(`Name: ${definition.name}`);
+  debugLogger.log(`Description: ${definition.description}`);
+  if (source) {
+    debugLogger.log(`Source: ${formatAgentSource(source)}`);
+  }
+  for (const shadowed of registry.getShadowedSources(name)) {
+    debugLogger.log(`Shadows: ${formatAgentSource(shadowed)}`);
+  }
+
+  const { model, temp, top_p, thinkingBudget } = definition.modelConfig;
+  debugLogger.log(
+    `Model: ${model} (temperature ${temp}, top_p ${top_p}${
+      thinkingBudget !== undefined ? `, thinking budget ${thinkingBudget}` : ''
+    })`,
+  );
+  const { max_time_minutes, max_turns } = definition.runConfig;
+  debugLogger.log(
+    `Limits: ${max_time_minutes} minutes${
+      max_turns !== undefined ? `, ${max_turns} turns` : ''
+    }`,
+  );
+
+  const tools = (definition.toolConfig?.tools ?? []).map((tool) =>
+    typeof tool === 'string' ? tool : tool.name,
+  );
+  debugLogger.log(`Tools: ${tools.length > 0 ? tools.join(', ') : 'none'}`);
+  const mcpServers = definition.toolConfig?.mcpServers ?? [];
+  if (mcpServers.length > 0) {
+    debugLogger.log(`MCP servers: ${mcpServers.join(', ')}`);
+  }
+
+  const inputs = Object.entries(definition.inputConfig.inputs);
+  debugLogger.log('Inputs:');
+  if (inputs.length === 0) {
+    debugLogger.log('  none');
+  }
+  for (const [inputName, input] of inputs) {
+    debugLogger.log(
+      `  ${inputName} (${input.type}${input.required ? ', required' : ''}${
+        input.enum ? `, one of ${input.enum.join('|')}` : ''
+      }${
+        input.default !== undefined
+          ? `, default ${JSON.stringify(input.default)}`
+          : ''
+      })${input.description ? `: ${input.description}` : ''}`,
+    );
+  }
+  if (definition.outputConfig) {
+    debugLogger.log(
+      `Output: ${definition.outputConfig.outputName}${
+        definition.outputConfig.description
+          ? `: ${definition.outputConfig.description}`
+          : ''
+      }`,
+    );
+  }
+}
+
+export const showCommand: CommandModule = {
+  command: 'show <name>',
+  describe: 'Show the resolved definition of an agent',
+  builder: (yargs) =>
+    yargs.positional('name', {
+      describe: 'Name of the agent',
+      type: 'string',
+      demandOption: true,
+    }),
+  handler: async (argv) => {
+    try {
+      await showAgent(argv['name'] as string);
+    } catch (error) {
+      debugLogger.error(getErrorMessage(error));
+      process.exit(1);
+    }
+  },
+};
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'node:crypto';
+import {
+  AgentRegistry,
+  type AgentSource,
+  type Config,
+} from '@google/gemini-cli-core';
+import { loadSettings, type LoadedSettings } from '../../config/settings.js';
+import { ExtensionEnablementManager } from '../../config/extensions/extensionEnablement.js';
+import { loadExtensions } from '../../config/extension.js';
+import { loadCliConfig, type CliArgs } from '../../config/config.js';
+
+/**
+ * Builds the config the `agent` subcommands run against, using the settings
+ * and extensions of the current working directory.
+ */
+export async function loadAgentCommandConfig(): Promise<{
+  config: Config;
+  settings: LoadedSettings;
+}> {
+  const settings = loadSettings(process.cwd());
+  const extensions = loadExtensions(new ExtensionEnablementManager());
+
+  const cliArgs: CliArgs = {
+    query: undefined,
+    model: undefined,
+    sandbox: false,
+    debug: false,
+    prompt: undefined,
+    promptInteractive: undefined,
+    yolo: undefined,
+    approvalMode: undefined,
+    allowedMcpServerNames: undefined,
+    allowedTools: undefined,
+    experimentalAcp: undefined,
+    extensions: undefined,
+    listExtensions: undefined,
+    includeDirectories: undefined,
+    screenReader: undefined,
+    useSmartEdit: undefined,
+    useWriteTodos: undefined,
+    outputFormat: undefined,
+    recordResponses: undefined,
+    replayResponses: undefined,
+    replayMatch: undefined,
+    worktree: undefined,
+  };
+
+  const config = await loadCliConfig(
+    settings.merged,
+    extensions,
+    randomUUID(),
+    cliArgs,
+    process.cwd(),
+  );
+  return { config, settings };
+}
+
+/**
+ * Discovers the agents available to the current workspace without starting
+ * the rest of the session (tools, MCP servers, auth).
+ */
+export async function loadAgentRegistry(): Promise<AgentRegistry> {
+  const { config } = await loadAgentCommandConfig();
+  const registry = new AgentRegistry(config);
+  await registry.initialize();
+  return registry;
+}
+
+export function formatAgentSource(source: AgentSource): string {
+  return source.filePath ? `${source.kind}: ${source.filePath}` : source.kind;
+}
+
+/**
+ * Converts an agent name into the base name of its definition file.
+ */
+export function slugify(name: string): string {
+  const normalized = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  if (normalized.length > 0) {
+    return normalized;
+  }
+  return `agent-${Date.now()}`;
+}
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { debugLogger } from '@google/gemini-cli-core';
+import { validateAgentFile } from './validate.js';
+
+describe('agent validate command', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'agent-validate-'));
+    vi.spyOn(debugLogger, 'log').mockImplementation(() => {});
+    vi.spyOn(debugLogger, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should accept a valid agent file', async () => {
+    const filePath = path.join(tempDir, 'ok.agent.md');
+    await fs.writeFile(filePath, '# Agent: ok\n\n## Summary\nDoes things.\n');
+
+    await expect(validateAgentFile(filePath)).resolves.toBe(true);
+    expect(debugLogger.log).toHaveBeenCalledWith(
+      `${filePath}: agent "ok" is valid.`,
+    );
+  });
+
+  it('should report issues with their line numbers', async () => {
+    const filePath = path.join(tempDir, 'broken.agent.md');
+    await fs.writeFile(
+      filePath,
+      [
+        '# Agent: broken',
+        '',
+        '## Summary',
+        'Broken.',
+        '',
+        '## Tools',
+        '```json',
+        '["read_file",',
+        '```',
+      ].join('\n'),
+    );
+
+    await expect(validateAgentFile(filePath)).resolves.toBe(false);
+    expect(debugLogger.error).toHaveBeenCalledWith(
+      expect.stringMatching(
+        new RegExp(`^${filePath}:6: Invalid JSON in "tools" section`),
+      ),
+    );
+  });
+
+  it('should fail when the file cannot be read', async () => {
+    await expect(
+      validateAgentFile(path.join(tempDir, 'missing.agent.md')),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// File for 'coco agent validate' command
+import type { CommandModule } from 'yargs';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import {
+  AgentDefinitionError,
+  debugLogger,
+  parseAgentMarkdown,
+} from '@google/gemini-cli-core';
+import { getErrorMessage } from '../../utils/errors.js';
+
+/**
+ * Parses an agent file and reports every issue found as `file:line: message`.
+ * Returns true if the file defines a valid agent.
+ */
+export async function validateAgentFile(file: string): Promise<boolean> {
+  const filePath = path.resolve(file);
+  const content = await fs.readFile(filePath, 'utf-8');
+
+  try {
+    const definition = parseAgentMarkdown(content, filePath);
+    debugLogger.log(`${filePath}: agent "${definition.name}" is valid.`);
+    return true;
+  } catch (error) {
+    if (!(error instanceof AgentDefinitionError)) {
+      throw error;
+    }
+    for (const issue of error.issues) {
+      const location =
+        issue.line !== undefined ? `${filePath}:${issue.line}` : filePath;
+      debugLogger.error(`${location}: ${issue.message}`);
+    }
+    return false;
+  }
+}
+
+export const validateCommand: CommandModule = {
+  command: 'validate <file>',
+  describe: 'Check that an agent markdown file is valid',
+  builder: (yargs) =>
+    yargs.positional('file', {
+      describe: 'Path to the .agent.md file',
+      type: 'string',
+      demandOption: true,
+    }),
+  handler: async (argv) => {
+    try {
+      if (!(await validateAgentFile(argv['file'] as string))) {
+        process.exit(1);
+      }
+    } catch (error) {
+      debugLogger.error(getErrorMessage(error));
+      process.exit(1);
+    }
+  },
+};
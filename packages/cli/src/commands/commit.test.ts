@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import {
+  generateCommitMessage,
+  isEditorAvailable,
+  RepositoryService,
+} from '@google/gemini-cli-core';
+import { runCommit } from './commit.js';
+import { loadAgentCommandConfig } from './agent/utils.js';
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/gemini-cli-core')>()),
+  RepositoryService: vi.fn(),
+  generateCommitMessage: vi.fn(),
+  isEditorAvailable: vi.fn(),
+}));
+vi.mock('./agent/utils.js', () => ({ loadAgentCommandConfig: vi.fn() }));
+vi.mock('../validateNonInterActiveAuth.js', () => ({
+  validateNonInteractiveAuth: vi.fn(),
+}));
+
+describe('commit command', () => {
+  let repository: {
+    isRepository: ReturnType<typeof vi.fn>;
+    getStagedDiff: ReturnType<typeof vi.fn>;
+    getRecentCommitMessages: ReturnType<typeof vi.fn>;
+    commit: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = {
+      isRepository: vi.fn().mockResolvedValue(true),
+      getStagedDiff: vi.fn().mockResolvedValue('diff --git a/a.ts b/a.ts'),
+      getRecentCommitMessages: vi.fn().mockResolvedValue([]),
+      commit: vi.fn().mockResolvedValue('0123456789abcdef'),
+    };
+    vi.mocked(RepositoryService).mockImplementation(
+      () => repository as unknown as RepositoryService,
+    );
+    vi.mocked(loadAgentCommandConfig).mockResolvedValue({
+      config: { initialize: vi.fn(), getGeminiClient: vi.fn() },
+      settings: { merged: {} },
+    } as unknown as Awaited<ReturnType<typeof loadAgentCommandConfig>>);
+    vi.mocked(generateCommitMessage).mockResolvedValue('Add a');
+  });
+
+  it('should commit the generated message with --no-edit', async () => {
+    const write = vi.spyOn(process.stdout, 'write').mockReturnValue(true);
+
+    await runCommit({ edit: false });
+
+    expect(repository.commit).toHaveBeenCalledWith('Add a');
+    expect(write).toHaveBeenCalledWith('Committed 0123456: Add a\n');
+    write.mockRestore();
+  });
+
+  it('should require an editor unless --no-edit is passed', async () => {
+    vi.mocked(isEditorAvailable).mockReturnValue(false);
+
+    await expect(runCommit({ edit: true })).rejects.toThrow(
+      'pass --no-edit to commit the generated message as is',
+    );
+    expect(generateCommitMessage).not.toHaveBeenCalled();
+  });
+
+  it('should fail without staged changes', async () => {
+    repository.getStagedDiff.mockResolvedValue('');
+
+    await expect(runCommit({ edit: false })).rejects.toThrow(
+      'There are no staged changes.',
+    );
+    expect(loadAgentCommandConfig).not.toHaveBeenCalled();
+  });
+});
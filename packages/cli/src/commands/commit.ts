@@ -0,0 +1,91 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// File for 'coco commit' command
+import type { CommandModule } from 'yargs';
+import {
+  debugLogger,
+  generateCommitMessage,
+  isEditorAvailable,
+  RepositoryService,
+  type EditorType,
+} from '@google/gemini-cli-core';
+import { getErrorMessage } from '../utils/errors.js';
+import { editCommitMessage } from '../utils/commitMessageEditor.js';
+import { validateNonInteractiveAuth } from '../validateNonInterActiveAuth.js';
+import { loadAgentCommandConfig } from './agent/utils.js';
+
+interface CommitArgs {
+  edit: boolean;
+}
+
+export async function runCommit(args: CommitArgs): Promise<void> {
+  const repository = new RepositoryService(process.cwd());
+  if (!(await repository.isRepository())) {
+    throw new Error('The current directory is not in a git repository.');
+  }
+  const diff = await repository.getStagedDiff();
+  if (!diff.trim()) {
+    throw new Error(
+      'There are no staged changes. Stage them with "git add" first.',
+    );
+  }
+
+  const { config, settings } = await loadAgentCommandConfig();
+  const editor = settings.merged.general?.preferredEditor;
+  if (args.edit && !isEditorAvailable(editor)) {
+    throw new Error(
+      'No preferred editor is available to review the commit message. Choose one with /editor, or pass --no-edit to commit the generated message as is.',
+    );
+  }
+
+  await config.initialize();
+  await validateNonInteractiveAuth(
+    settings.merged.security?.auth?.selectedType,
+    settings.merged.security?.auth?.useExternal,
+    config,
+    settings,
+  );
+
+  const generated = await generateCommitMessage(
+    { diff, recentMessages: await repository.getRecentCommitMessages() },
+    config.getGeminiClient(),
+    new AbortController().signal,
+  );
+  const message = args.edit
+    ? await editCommitMessage(generated, editor as EditorType, () => {})
+    : generated;
+  if (!message) {
+    throw new Error('Aborted the commit because the commit message is empty.');
+  }
+
+  const hash = await repository.commit(message);
+  process.stdout.write(
+    `Committed ${hash.slice(0, 7)}: ${message.split('\n')[0]}\n`,
+  );
+}
+
+export const commitCommand: CommandModule = {
+  command: 'commit',
+  describe:
+    'Commit the staged changes with a generated message that follows the conventions of the repository',
+  builder: (yargs) =>
+    yargs.option('edit', {
+      describe:
+        'Review the message in your preferred editor before committing. Use --no-edit to commit it as is.',
+      type: 'boolean',
+      default: true,
+    }),
+  handler: async (argv) => {
+    try {
+      await runCommit({ edit: argv['edit'] as boolean });
+      process.exit(0);
+    } catch (error) {
+      debugLogger.error(getErrorMessage(error));
+      process.exit(1);
+    }
+  },
+};
@@ -21,9 +21,10 @@ import { loadSettings } from '../config/settings.js';
 import { ExtensionEnablementManager } from '../config/extensions/extensionEnablement.js';
 import { loadExtensions } from '../config/extension.js';
 import { loadCliConfig, type CliArgs } from '../config/config.js';
+import { slugify } from './agent/utils.js';
 
 const PROMPT_TEMPLATE = [
-  'You are an expert AI agent architect. Your job is to translate the user\'s idea into a complete Markdown specification for a specialized subagent.',
+  "You are an expert AI agent architect. Your job is to translate the user's idea into a complete Markdown specification for a specialized subagent.",
   '',
   'Agent Name: {{AGENT_NAME}}',
   'Agent Concept: {{USER_IDEA}}',
@@ -33,7 +34,7 @@ const PROMPT_TEMPLATE = [
   '# Agent: {{AGENT_NAME}}',
   '',
   '## Summary',
-  '<2-4 sentence overview describing the agent\'s purpose and strengths.>',
+  "<2-4 sentence overview describing the agent's purpose and strengths.>",
   '',
   '## Persona',
   '<Describe the tone, style, and decision-making personality of the agent.>',
@@ -95,7 +96,7 @@ const PROMPT_TEMPLATE = [
   '  "thinkingBudget": 120',
   '}',
   '```',
-  '- Adjust values to match the agent\'s needs. Leave numbers as plain JSON numbers.',
+  "- Adjust values to match the agent's needs. Leave numbers as plain JSON numbers.",
   '',
   '## Run Config',
   '```json',
@@ -216,6 +217,10 @@ async function handleGenerateAgent(args: GenerateAgentArgs): Promise<void> {
     useSmartEdit: undefined,
     useWriteTodos: undefined,
     outputFormat: undefined,
+    recordResponses: undefined,
+    replayResponses: undefined,
+    replayMatch: undefined,
+    worktree: undefined,
   };
 
   const config = await loadCliConfig(
@@ -314,17 +319,6 @@ async function fileExists(filePath: string): Promise<boolean> {
   }
 }
 
-function slugify(name: string): string {
-  const normalized = name
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '');
-  if (normalized.length > 0) {
-    return normalized;
-  }
-  return `agent-${Date.now()}`;
-}
-
 function formatMarkdown(markdown: string): string {
   const trimmed = markdown.trim();
   return trimmed.endsWith('\n') ? trimmed : `${trimmed}\n`;
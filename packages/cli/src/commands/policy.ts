@@ -0,0 +1,23 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// File for 'coco policy' command
+import type { CommandModule, Argv } from 'yargs';
+import { auditCommand } from './policy/audit.js';
+
+export const policyCommand: CommandModule = {
+  command: 'policy',
+  describe: 'Inspect tool call policies',
+  builder: (yargs: Argv) =>
+    yargs
+      .command(auditCommand)
+      .demandCommand(1, 'You need at least one command before continuing.')
+      .version(false),
+  handler: () => {
+    // yargs will automatically show help if no subcommand is provided
+    // thanks to demandCommand(1) in the builder.
+  },
+};
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  debugLogger,
+  PolicyDecision,
+  readPolicyAuditLog,
+  ToolConfirmationOutcome,
+  type PolicyAuditEntry,
+} from '@google/gemini-cli-core';
+import { showPolicyAudit } from './audit.js';
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/gemini-cli-core')>()),
+  readPolicyAuditLog: vi.fn(),
+}));
+
+const entry: PolicyAuditEntry = {
+  timestamp: '2025-06-01T10:00:00.000Z',
+  sessionId: 'session',
+  callId: 'call-1',
+  toolName: 'run_shell_command',
+  agentName: 'helper',
+  args: { command: 'git push' },
+  decision: PolicyDecision.ASK_USER,
+  rule: {
+    source: 'default: tools that modify files or run commands',
+    priority: 10,
+  },
+  approvedBy: 'user',
+  confirmation: ToolConfirmationOutcome.ProceedOnce,
+  status: 'success',
+};
+
+describe('policy audit command', () => {
+  beforeEach(() => {
+    vi.spyOn(debugLogger, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function output(): string {
+    return vi
+      .mocked(debugLogger.log)
+      .mock.calls.map((call) => call[0])
+      .join('\n');
+  }
+
+  it('should pass the filters and print the matching calls', async () => {
+    vi.mocked(readPolicyAuditLog).mockReturnValue([entry]);
+
+    await showPolicyAudit({
+      tool: 'run_shell_command',
+      decision: PolicyDecision.ASK_USER,
+      since: '2025-06-01',
+      limit: 50,
+    });
+
+    expect(readPolicyAuditLog).toHaveBeenCalledExactlyOnceWith(
+      expect.stringMatching(/policy-audit\.jsonl$/),
+      {
+        toolName: 'run_shell_command',
+        decision: PolicyDecision.ASK_USER,
+        since: new Date('2025-06-01'),
+        until: undefined,
+      },
+    );
+    expect(output()).toBe(
+      [
+        '2025-06-01T10:00:00.000Z  run_shell_command (helper): ask_user, user answered proceed_once, success',
+        '  rule: default: tools that modify files or run commands, priority 10',
+        '  args: {"command":"git push"}',
+      ].join('\n'),
+    );
+  });
+
+  it('should show how calls the user was not asked about were approved', async () => {
+    vi.mocked(readPolicyAuditLog).mockReturnValue([
+      { ...entry, confirmation: undefined, approvedBy: 'approval_mode' },
+    ]);
+
+    await showPolicyAudit({ limit: 50 });
+
+    expect(output()).toContain(
+      'run_shell_command (helper): ask_user, approved by approval_mode, success',
+    );
+  });
+
+  it('should only show the most recent calls as JSON lines', async () => {
+    vi.mocked(readPolicyAuditLog).mockReturnValue([
+      { ...entry, callId: 'old' },
+      entry,
+    ]);
+
+    await showPolicyAudit({ limit: 1, json: true });
+
+    expect(output()).toBe(JSON.stringify(entry));
+  });
+
+  it('should reject invalid dates', async () => {
+    await expect(
+      showPolicyAudit({ until: 'yesterday', limit: 50 }),
+    ).rejects.toThrow('Invalid date for --until: "yesterday".');
+  });
+});
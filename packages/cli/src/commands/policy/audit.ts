@@ -0,0 +1,129 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// File for 'coco policy audit' command
+import type { CommandModule } from 'yargs';
+import {
+  debugLogger,
+  PolicyDecision,
+  readPolicyAuditLog,
+  Storage,
+  type PolicyAuditEntry,
+} from '@google/gemini-cli-core';
+import { getErrorMessage } from '../../utils/errors.js';
+
+export interface PolicyAuditArgs {
+  tool?: string;
+  decision?: PolicyDecision;
+  since?: string;
+  until?: string;
+  limit: number;
+  json?: boolean;
+}
+
+function parseDate(value: string, option: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(
+      `Invalid date for --${option}: "${value}". Use e.g. 2025-06-01 or 2025-06-01T14:00.`,
+    );
+  }
+  return date;
+}
+
+function formatEntry(entry: PolicyAuditEntry): string {
+  const agent = entry.agentName ? ` (${entry.agentName})` : '';
+  const rule = entry.rule
+    ? `${entry.rule.source ?? 'unknown rule'}, priority ${entry.rule.priority}`
+    : 'default decision';
+  const confirmation = entry.confirmation
+    ? `, user answered ${entry.confirmation}`
+    : entry.approvedBy
+      ? `, approved by ${entry.approvedBy}`
+      : '';
+  return [
+    `${entry.timestamp}  ${entry.toolName}${agent}: ${entry.decision}${confirmation}, ${entry.status}`,
+    `  rule: ${rule}`,
+    `  args: ${JSON.stringify(entry.args)}`,
+  ].join('\n');
+}
+
+export async function showPolicyAudit(args: PolicyAuditArgs): Promise<void> {
+  const logPath = new Storage(process.cwd()).getPolicyAuditLogPath();
+  const entries = readPolicyAuditLog(logPath, {
+    toolName: args.tool,
+    decision: args.decision,
+    since: args.since ? parseDate(args.since, 'since') : undefined,
+    until: args.until ? parseDate(args.until, 'until') : undefined,
+  }).slice(-args.limit);
+
+  if (args.json) {
+    for (const entry of entries) {
+      debugLogger.log(JSON.stringify(entry));
+    }
+    return;
+  }
+
+  if (entries.length === 0) {
+    debugLogger.log(`No matching tool calls in ${logPath}.`);
+    debugLogger.log(
+      'Tool calls are only logged when security.policyAudit.enabled is set.',
+    );
+    return;
+  }
+  for (const entry of entries) {
+    debugLogger.log(formatEntry(entry));
+  }
+}
+
+export const auditCommand: CommandModule = {
+  command: 'audit',
+  describe:
+    'Show the policy decisions on past tool calls in the current project',
+  builder: (yargs) =>
+    yargs
+      .option('tool', {
+        type: 'string',
+        description: 'Only show calls of this tool.',
+      })
+      .option('decision', {
+        type: 'string',
+        choices: Object.values(PolicyDecision),
+        description: 'Only show calls with this policy decision.',
+      })
+      .option('since', {
+        type: 'string',
+        description: 'Only show calls at or after this date or time.',
+      })
+      .option('until', {
+        type: 'string',
+        description: 'Only show calls before this date or time.',
+      })
+      .option('limit', {
+        type: 'number',
+        default: 50,
+        description: 'Show at most this many of the most recent calls.',
+      })
+      .option('json', {
+        type: 'boolean',
+        description: 'Print the matching log entries as JSON lines.',
+      }),
+  handler: async (argv) => {
+    try {
+      await showPolicyAudit({
+        tool: argv['tool'] as string | undefined,
+        decision: argv['decision'] as PolicyDecision | undefined,
+        since: argv['since'] as string | undefined,
+        until: argv['until'] as string | undefined,
+        limit: argv['limit'] as number,
+        json: argv['json'] as boolean | undefined,
+      });
+    } catch (error) {
+      debugLogger.error(getErrorMessage(error));
+      process.exit(1);
+    }
+  },
+};
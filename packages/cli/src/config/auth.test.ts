@@ -7,6 +7,8 @@
 import { AuthType } from '@google/gemini-cli-core';
 import { vi } from 'vitest';
 import { validateAuthMethod } from './auth.js';
+import type { LoadedSettings } from './settings.js';
+import { loadSettings } from './settings.js';
 
 vi.mock('./settings.js', () => ({
   loadEnvironment: vi.fn(),
@@ -76,6 +78,21 @@ describe('validateAuthMethod', () => {
     });
   });
 
+  describe('USE_OPENAI_COMPATIBLE', () => {
+    it('should return null if a model is configured', () => {
+      vi.mocked(loadSettings).mockReturnValueOnce({
+        merged: { model: { openaiCompatible: { model: 'qwen3:8b' } } },
+      } as unknown as LoadedSettings);
+      expect(validateAuthMethod(AuthType.USE_OPENAI_COMPATIBLE)).toBeNull();
+    });
+
+    it('should return an error message if no model is configured', () => {
+      expect(validateAuthMethod(AuthType.USE_OPENAI_COMPATIBLE)).toContain(
+        'No model is set for the OpenAI-compatible server.',
+      );
+    });
+  });
+
   it('should return an error message for an invalid auth method', () => {
     expect(validateAuthMethod('invalid-method')).toBe(
       'Invalid auth method selected.',
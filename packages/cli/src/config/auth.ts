@@ -8,7 +8,8 @@ import { AuthType } from '@google/gemini-cli-core';
 import { loadEnvironment, loadSettings } from './settings.js';
 
 export function validateAuthMethod(authMethod: string): string | null {
-  loadEnvironment(loadSettings().merged);
+  const settings = loadSettings().merged;
+  loadEnvironment(settings);
   if (
     authMethod === AuthType.LOGIN_WITH_GOOGLE ||
     authMethod === AuthType.CLOUD_SHELL
@@ -43,5 +44,15 @@ export function validateAuthMethod(authMethod: string): string | null {
     return null;
   }
 
+  if (authMethod === AuthType.USE_OPENAI_COMPATIBLE) {
+    if (!settings.model?.openaiCompatible?.model) {
+      return (
+        'No model is set for the OpenAI-compatible server.\n' +
+        'Set model.openaiCompatible.model (and model.openaiCompatible.baseUrl if the server is not a local Ollama) in your settings.json and try again.'
+      );
+    }
+    return null;
+  }
+
   return 'Invalid auth method selected.';
 }
@@ -15,6 +15,7 @@ import {
   SHELL_TOOL_NAME,
   WRITE_FILE_TOOL_NAME,
   EDIT_TOOL_NAME,
+  type WorktreeService,
 } from '@google/gemini-cli-core';
 import { loadCliConfig, parseArguments, type CliArgs } from './config.js';
 import type { Settings } from './settings.js';
@@ -1481,6 +1482,72 @@ describe('loadCliConfig model selection with model router', () => {
 
     expect(config.getModel()).toBe('gemini-from-env');
   });
+
+  it('should pass the routing settings to the config', async () => {
+    process.argv = ['node', 'script.js'];
+    const argv = await parseArguments({} as Settings);
+    const config = await loadCliConfig(
+      {
+        model: {
+          routing: {
+            strategies: ['override', 'heuristic', 'default'],
+            aliases: { fast: 'gemini-2.5-flash-lite' },
+          },
+        },
+      },
+      [],
+      'test-session',
+      argv,
+    );
+
+    expect(config.getModelRoutingConfig()).toEqual({
+      strategies: ['override', 'heuristic', 'default'],
+      aliases: { fast: 'gemini-2.5-flash-lite' },
+    });
+  });
+
+  it('should reject unknown routing strategies', async () => {
+    process.argv = ['node', 'script.js'];
+    const argv = await parseArguments({} as Settings);
+
+    await expect(
+      loadCliConfig(
+        {
+          model: {
+            routing: {
+              strategies: ['heuristic', 'magic' as 'default'],
+            },
+          },
+        },
+        [],
+        'test-session',
+        argv,
+      ),
+    ).rejects.toThrow(
+      'Invalid model.routing.strategies: magic. Valid values are: fallback, override, heuristic, classifier, default',
+    );
+  });
+
+  it('should target the working directory of the worktree', async () => {
+    process.argv = ['node', 'script.js', '--worktree'];
+    const argv = await parseArguments({} as Settings);
+    const worktree = {
+      workingDir: '/tmp/worktrees/test-session',
+    } as WorktreeService;
+
+    expect(argv.worktree).toBe(true);
+    const config = await loadCliConfig(
+      {},
+      [],
+      'test-session',
+      argv,
+      worktree.workingDir,
+      worktree,
+    );
+
+    expect(config.getTargetDir()).toBe('/tmp/worktrees/test-session');
+    expect(config.getWorktree()).toBe(worktree);
+  });
 });
 
 describe('loadCliConfig folderTrust', () => {
@@ -1811,6 +1878,38 @@ describe('loadCliConfig tool exclusions', () => {
     expect(config.getExcludeTools()).not.toContain('write_file');
   });
 
+  it('should keep tools allowed by an agent policy for agents only in non-interactive mode', async () => {
+    process.stdin.isTTY = false;
+    process.argv = ['node', 'script.js', '-p', 'test'];
+    const argv = await parseArguments({} as Settings);
+    const settings: Settings = {
+      tools: { agentPolicies: { 'code-fixer': { allowed: ['write_file'] } } },
+    };
+    const config = await loadCliConfig(settings, [], 'test-session', argv);
+    expect(config.getExcludeTools()).not.toContain('write_file');
+    expect(config.getExcludeTools()).toContain('replace');
+    expect(config.getAgentOnlyTools()).toEqual(['write_file']);
+  });
+
+  it('should not hide tools that the main session is allowed to use', async () => {
+    process.stdin.isTTY = false;
+    process.argv = [
+      'node',
+      'script.js',
+      '-p',
+      'test',
+      '--allowed-tools',
+      'write_file',
+    ];
+    const argv = await parseArguments({} as Settings);
+    const settings: Settings = {
+      tools: { agentPolicies: { 'code-fixer': { allowed: ['write_file'] } } },
+    };
+    const config = await loadCliConfig(settings, [], 'test-session', argv);
+    expect(config.getExcludeTools()).not.toContain('write_file');
+    expect(config.getAgentOnlyTools()).toEqual([]);
+  });
+
   it('should not exclude shell tool in non-interactive mode when --allowed-tools="ShellTool" is set', async () => {
     process.stdin.isTTY = false;
     process.argv = [
@@ -2270,6 +2369,59 @@ describe('Output format', () => {
   });
 });
 
+describe('record and replay arguments', () => {
+  const originalArgv = process.argv;
+
+  afterEach(() => {
+    process.argv = originalArgv;
+  });
+
+  it('should pass the recording and playback files to the config', async () => {
+    process.argv = [
+      'node',
+      'script.js',
+      '--replay-responses',
+      '~/session.jsonl',
+      '--replay-match',
+      'sequence',
+    ];
+    const argv = await parseArguments({} as Settings);
+    const config = await loadCliConfig({}, [], 'test-session', argv);
+    expect(config.getReplayResponsesFile()).toBe(
+      path.join(os.homedir(), 'session.jsonl'),
+    );
+    expect(config.getReplayMatchMode()).toBe('sequence');
+    expect(config.getRecordResponsesFile()).toBeUndefined();
+  });
+
+  it('should not allow recording and replaying at the same time', async () => {
+    process.argv = [
+      'node',
+      'script.js',
+      '--record-responses',
+      'a.jsonl',
+      '--replay-responses',
+      'b.jsonl',
+    ];
+    const mockExit = vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit called');
+    });
+    const mockConsoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+    await expect(parseArguments({} as Settings)).rejects.toThrow(
+      'process.exit called',
+    );
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Cannot use both --record-responses and --replay-responses together',
+      ),
+    );
+    mockExit.mockRestore();
+    mockConsoleError.mockRestore();
+  });
+});
+
 describe('parseArguments with positional prompt', () => {
   const originalArgv = process.argv;
 
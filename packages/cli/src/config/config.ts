@@ -13,11 +13,17 @@ import process from 'node:process';
 import { mcpCommand } from '../commands/mcp.js';
 import { generateAgentCommand } from '../commands/generate-agent.js';
 import { agentCommand } from '../commands/agent.js';
+import { policyCommand } from '../commands/policy.js';
+import { commitCommand } from '../commands/commit.js';
 import type {
+  DocsLookupSettings,
   FileFilteringOptions,
   MCPServerConfig,
   OutputFormat,
   GeminiCLIExtension,
+  PlaybackMatchMode,
+  PolicyEngineConfig,
+  WorktreeService,
 } from '@google/gemini-cli-core';
 import { extensionsCommand } from '../commands/extensions.js';
 import {
@@ -36,6 +42,7 @@ import {
   SHELL_TOOL_NAME,
   resolveTelemetrySettings,
   FatalConfigError,
+  ROUTING_STRATEGY_NAMES,
   getPty,
   EDIT_TOOL_NAME,
   debugLogger,
@@ -49,6 +56,7 @@ import { appEvents } from '../utils/events.js';
 
 import { isWorkspaceTrusted } from './trustedFolders.js';
 import { createPolicyEngineConfig } from './policy.js';
+import { getPolicyDirectories, loadPolicyFiles } from './policyFiles.js';
 
 export interface CliArgs {
   query: string | undefined;
@@ -70,6 +78,10 @@ export interface CliArgs {
   useSmartEdit: boolean | undefined;
   useWriteTodos: boolean | undefined;
   outputFormat: string | undefined;
+  recordResponses: string | undefined;
+  replayResponses: string | undefined;
+  replayMatch: string | undefined;
+  worktree: boolean | undefined;
 }
 
 export async function parseArguments(settings: Settings): Promise<CliArgs> {
@@ -195,6 +207,30 @@ export async function parseArguments(settings: Settings): Promise<CliArgs> {
           description: 'The format of the CLI output.',
           choices: ['text', 'json', 'stream-json'],
         })
+        .option('record-responses', {
+          type: 'string',
+          nargs: 1,
+          description:
+            'Record every model request and response of the session to this JSONL file.',
+        })
+        .option('replay-responses', {
+          type: 'string',
+          nargs: 1,
+          description:
+            'Answer model requests from a file written with --record-responses instead of calling the API.',
+        })
+        .option('replay-match', {
+          type: 'string',
+          nargs: 1,
+          choices: ['hash', 'sequence'],
+          description:
+            'How --replay-responses matches requests to recorded ones: by request hash (default), or in recorded order.',
+        })
+        .option('worktree', {
+          type: 'boolean',
+          description:
+            'Work in a git worktree (or a copy, outside of git repositories) instead of the current checkout. Review and apply the changes with /worktree.',
+        })
         .deprecateOption(
           'prompt',
           'Use the positional prompt instead. This flag will be removed in a future version.',
@@ -222,12 +258,21 @@ export async function parseArguments(settings: Settings): Promise<CliArgs> {
           if (argv.yolo && argv['approvalMode']) {
             return 'Cannot use both --yolo (-y) and --approval-mode together. Use --approval-mode=yolo instead.';
           }
+          if (argv['recordResponses'] && argv['replayResponses']) {
+            return 'Cannot use both --record-responses and --replay-responses together';
+          }
+          if (argv['replayMatch'] && !argv['replayResponses']) {
+            return '--replay-match can only be used with --replay-responses';
+          }
           return true;
         }),
     )
     // Register MCP subcommands
     .command(mcpCommand)
-    .command(generateAgentCommand).command(agentCommand);
+    .command(generateAgentCommand)
+    .command(agentCommand)
+    .command(policyCommand)
+    .command(commitCommand);
 
   if (settings?.experimental?.extensionManagement ?? true) {
     yargsInstance.command(extensionsCommand);
@@ -252,6 +297,9 @@ export async function parseArguments(settings: Settings): Promise<CliArgs> {
     result._.length > 0 &&
     (result._[0] === 'mcp' ||
       result._[0] === 'extensions' ||
+      result._[0] === 'agent' ||
+      result._[0] === 'policy' ||
+      result._[0] === 'commit' ||
       result._[0] === 'generate-agent')
   ) {
     // MCP commands handle their own execution and process exit
@@ -371,6 +419,7 @@ export async function loadCliConfig(
   sessionId: string,
   argv: CliArgs,
   cwd: string = process.cwd(),
+  worktree?: WorktreeService,
 ): Promise<Config> {
   const debugMode = isDebugMode(argv);
 
@@ -485,7 +534,14 @@ export async function loadCliConfig(
     throw err;
   }
 
-  const policyEngineConfig = createPolicyEngineConfig(settings, approvalMode);
+  const policyFiles = loadPolicyFiles(getPolicyDirectories(cwd, trustedFolder));
+  for (const error of policyFiles.errors) {
+    debugLogger.warn(error);
+  }
+  const policyEngineConfig: PolicyEngineConfig = {
+    ...createPolicyEngineConfig(settings, approvalMode, policyFiles.rules),
+    rootDirectory: cwd,
+  };
 
   const allowedTools = argv.allowedTools || settings.tools?.allowed || [];
   const allowedToolsSet = new Set(allowedTools);
@@ -497,6 +553,7 @@ export async function loadCliConfig(
     (process.stdin.isTTY && !hasQuery && !argv.prompt);
   // In non-interactive mode, exclude tools that require a prompt.
   const extraExcludes: string[] = [];
+  const agentOnlyTools: string[] = [];
   if (!interactive && !argv.experimentalAcp) {
     const defaultExcludes = [
       SHELL_TOOL_NAME,
@@ -504,20 +561,20 @@ export async function loadCliConfig(
       WRITE_FILE_TOOL_NAME,
     ];
     const autoEditExcludes = [SHELL_TOOL_NAME];
-
     const toolExclusionFilter = createToolExclusionFilter(
       allowedTools,
       allowedToolsSet,
     );
 
+    let promptingTools: string[] = [];
     switch (approvalMode) {
       case ApprovalMode.DEFAULT:
         // In default non-interactive mode, all tools that require approval are excluded.
-        extraExcludes.push(...defaultExcludes.filter(toolExclusionFilter));
+        promptingTools = defaultExcludes.filter(toolExclusionFilter);
         break;
       case ApprovalMode.AUTO_EDIT:
         // In auto-edit non-interactive mode, only tools that still require a prompt are excluded.
-        extraExcludes.push(...autoEditExcludes.filter(toolExclusionFilter));
+        promptingTools = autoEditExcludes.filter(toolExclusionFilter);
         break;
       case ApprovalMode.YOLO:
         // No extra excludes for YOLO mode.
@@ -526,6 +583,19 @@ export async function loadCliConfig(
         // This should never happen due to validation earlier, but satisfies the linter
         break;
     }
+
+    // Tools allowed by an agent policy stay registered so that agent can use
+    // them, but they are hidden from the main session.
+    const agentAllowedTools = Object.values(
+      settings.tools?.agentPolicies ?? {},
+    ).flatMap((agentPolicy) => agentPolicy.allowed ?? []);
+    const agentExclusionFilter = createToolExclusionFilter(
+      agentAllowedTools,
+      new Set(agentAllowedTools),
+    );
+    for (const tool of promptingTools) {
+      (agentExclusionFilter(tool) ? extraExcludes : agentOnlyTools).push(tool);
+    }
   }
 
   const excludeTools = mergeExcludeTools(
@@ -563,6 +633,14 @@ export async function loadCliConfig(
   }
 
   const useModelRouter = settings.experimental?.useModelRouter ?? true;
+  const unknownStrategies = (settings.model?.routing?.strategies ?? []).filter(
+    (name) => !ROUTING_STRATEGY_NAMES.includes(name),
+  );
+  if (unknownStrategies.length > 0) {
+    throw new FatalConfigError(
+      `Invalid model.routing.strategies: ${unknownStrategies.join(', ')}. Valid values are: ${ROUTING_STRATEGY_NAMES.join(', ')}`,
+    );
+  }
   const defaultModel = useModelRouter
     ? DEFAULT_GEMINI_MODEL_AUTO
     : DEFAULT_GEMINI_MODEL;
@@ -595,6 +673,7 @@ export async function loadCliConfig(
     allowedTools: allowedTools.length > 0 ? allowedTools : undefined,
     policyEngineConfig,
     excludeTools,
+    agentOnlyTools,
     toolDiscoveryCommand: settings.tools?.discoveryCommand,
     toolCallCommand: settings.tools?.callCommand,
     mcpServerCommand: settings.mcp?.serverCommand,
@@ -646,14 +725,28 @@ export async function loadCliConfig(
     eventEmitter: appEvents,
     useSmartEdit: argv.useSmartEdit ?? settings.useSmartEdit,
     useWriteTodos: argv.useWriteTodos ?? settings.useWriteTodos,
+    recordAgentRuns: settings.general?.recordAgentRuns,
     output: {
       format: (argv.outputFormat ?? settings.output?.format) as OutputFormat,
     },
     useModelRouter,
+    modelRouting: settings.model?.routing,
+    budget: settings.model?.budget,
+    worktree,
     enableMessageBusIntegration:
       settings.tools?.enableMessageBusIntegration ?? false,
+    policyAudit: settings.security?.policyAudit,
     codebaseInvestigatorSettings:
       settings.experimental?.codebaseInvestigatorSettings,
+    docsLookupSettings: settings.tools?.docs as DocsLookupSettings | undefined,
+    openAICompatible: settings.model?.openaiCompatible,
+    recordResponsesFile: argv.recordResponses
+      ? resolvePath(argv.recordResponses)
+      : undefined,
+    replayResponsesFile: argv.replayResponses
+      ? resolvePath(argv.replayResponses)
+      : undefined,
+    replayMatchMode: argv.replayMatch as PlaybackMatchMode | undefined,
     retryFetchErrors: settings.general?.retryFetchErrors ?? false,
     ptyInfo: ptyInfo?.name,
   });
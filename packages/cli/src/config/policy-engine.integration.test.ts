@@ -11,6 +11,7 @@ import {
   PolicyEngine,
 } from '@google/gemini-cli-core';
 import { createPolicyEngineConfig } from './policy.js';
+import { POLICY_SCOPE_PRIORITIES } from './policyFiles.js';
 import type { Settings } from './settings.js';
 
 describe('Policy Engine Integration Tests', () => {
@@ -27,18 +28,22 @@ describe('Policy Engine Integration Tests', () => {
       const engine = new PolicyEngine(config);
 
       // Allowed tool should be allowed
-      expect(engine.check({ name: 'run_shell_command' })).toBe(
+      expect(engine.check({ name: 'run_shell_command' }).decision).toBe(
         PolicyDecision.ALLOW,
       );
 
       // Excluded tool should be denied
-      expect(engine.check({ name: 'write_file' })).toBe(PolicyDecision.DENY);
+      expect(engine.check({ name: 'write_file' }).decision).toBe(
+        PolicyDecision.DENY,
+      );
 
       // Other write tools should ask user
-      expect(engine.check({ name: 'replace' })).toBe(PolicyDecision.ASK_USER);
+      expect(engine.check({ name: 'replace' }).decision).toBe(
+        PolicyDecision.ASK_USER,
+      );
 
       // Unknown tools should use default
-      expect(engine.check({ name: 'unknown_tool' })).toBe(
+      expect(engine.check({ name: 'unknown_tool' }).decision).toBe(
         PolicyDecision.ASK_USER,
       );
     });
@@ -62,31 +67,31 @@ describe('Policy Engine Integration Tests', () => {
       const engine = new PolicyEngine(config);
 
       // Tools from allowed server should be allowed
-      expect(engine.check({ name: 'allowed-server__tool1' })).toBe(
-        PolicyDecision.ALLOW,
-      );
-      expect(engine.check({ name: 'allowed-server__another_tool' })).toBe(
+      expect(engine.check({ name: 'allowed-server__tool1' }).decision).toBe(
         PolicyDecision.ALLOW,
       );
+      expect(
+        engine.check({ name: 'allowed-server__another_tool' }).decision,
+      ).toBe(PolicyDecision.ALLOW);
 
       // Tools from trusted server should be allowed
-      expect(engine.check({ name: 'trusted-server__tool1' })).toBe(
-        PolicyDecision.ALLOW,
-      );
-      expect(engine.check({ name: 'trusted-server__special_tool' })).toBe(
+      expect(engine.check({ name: 'trusted-server__tool1' }).decision).toBe(
         PolicyDecision.ALLOW,
       );
+      expect(
+        engine.check({ name: 'trusted-server__special_tool' }).decision,
+      ).toBe(PolicyDecision.ALLOW);
 
       // Tools from blocked server should be denied
-      expect(engine.check({ name: 'blocked-server__tool1' })).toBe(
+      expect(engine.check({ name: 'blocked-server__tool1' }).decision).toBe(
         PolicyDecision.DENY,
       );
-      expect(engine.check({ name: 'blocked-server__any_tool' })).toBe(
+      expect(engine.check({ name: 'blocked-server__any_tool' }).decision).toBe(
         PolicyDecision.DENY,
       );
 
       // Tools from unknown servers should use default
-      expect(engine.check({ name: 'unknown-server__tool' })).toBe(
+      expect(engine.check({ name: 'unknown-server__tool' }).decision).toBe(
         PolicyDecision.ASK_USER,
       );
     });
@@ -105,10 +110,10 @@ describe('Policy Engine Integration Tests', () => {
       const engine = new PolicyEngine(config);
 
       // Server is allowed, but specific tool is excluded
-      expect(engine.check({ name: 'my-server__safe-tool' })).toBe(
+      expect(engine.check({ name: 'my-server__safe-tool' }).decision).toBe(
         PolicyDecision.ALLOW,
       );
-      expect(engine.check({ name: 'my-server__dangerous-tool' })).toBe(
+      expect(engine.check({ name: 'my-server__dangerous-tool' }).decision).toBe(
         PolicyDecision.DENY,
       );
     });
@@ -137,36 +142,42 @@ describe('Policy Engine Integration Tests', () => {
       const engine = new PolicyEngine(config);
 
       // Read-only tools should be allowed (autoAccept)
-      expect(engine.check({ name: 'read_file' })).toBe(PolicyDecision.ALLOW);
-      expect(engine.check({ name: 'list_directory' })).toBe(
+      expect(engine.check({ name: 'read_file' }).decision).toBe(
+        PolicyDecision.ALLOW,
+      );
+      expect(engine.check({ name: 'list_directory' }).decision).toBe(
         PolicyDecision.ALLOW,
       );
 
       // But glob is explicitly excluded, so it should be denied
-      expect(engine.check({ name: 'glob' })).toBe(PolicyDecision.DENY);
+      expect(engine.check({ name: 'glob' }).decision).toBe(PolicyDecision.DENY);
 
       // Replace should ask user (normal write tool behavior)
-      expect(engine.check({ name: 'replace' })).toBe(PolicyDecision.ASK_USER);
+      expect(engine.check({ name: 'replace' }).decision).toBe(
+        PolicyDecision.ASK_USER,
+      );
 
       // Explicitly allowed tools
-      expect(engine.check({ name: 'custom-tool' })).toBe(PolicyDecision.ALLOW);
-      expect(engine.check({ name: 'my-server__special-tool' })).toBe(
+      expect(engine.check({ name: 'custom-tool' }).decision).toBe(
+        PolicyDecision.ALLOW,
+      );
+      expect(engine.check({ name: 'my-server__special-tool' }).decision).toBe(
         PolicyDecision.ALLOW,
       );
 
       // MCP server tools
-      expect(engine.check({ name: 'allowed-server__tool' })).toBe(
+      expect(engine.check({ name: 'allowed-server__tool' }).decision).toBe(
         PolicyDecision.ALLOW,
       );
-      expect(engine.check({ name: 'trusted-server__tool' })).toBe(
+      expect(engine.check({ name: 'trusted-server__tool' }).decision).toBe(
         PolicyDecision.ALLOW,
       );
-      expect(engine.check({ name: 'blocked-server__tool' })).toBe(
+      expect(engine.check({ name: 'blocked-server__tool' }).decision).toBe(
         PolicyDecision.DENY,
       );
 
       // Write tools should ask by default
-      expect(engine.check({ name: 'write_file' })).toBe(
+      expect(engine.check({ name: 'write_file' }).decision).toBe(
         PolicyDecision.ASK_USER,
       );
     });
@@ -182,14 +193,18 @@ describe('Policy Engine Integration Tests', () => {
       const engine = new PolicyEngine(config);
 
       // Most tools should be allowed in YOLO mode
-      expect(engine.check({ name: 'run_shell_command' })).toBe(
+      expect(engine.check({ name: 'run_shell_command' }).decision).toBe(
+        PolicyDecision.ALLOW,
+      );
+      expect(engine.check({ name: 'write_file' }).decision).toBe(
+        PolicyDecision.ALLOW,
+      );
+      expect(engine.check({ name: 'unknown_tool' }).decision).toBe(
         PolicyDecision.ALLOW,
       );
-      expect(engine.check({ name: 'write_file' })).toBe(PolicyDecision.ALLOW);
-      expect(engine.check({ name: 'unknown_tool' })).toBe(PolicyDecision.ALLOW);
 
       // But explicitly excluded tools should still be denied
-      expect(engine.check({ name: 'dangerous-tool' })).toBe(
+      expect(engine.check({ name: 'dangerous-tool' }).decision).toBe(
         PolicyDecision.DENY,
       );
     });
@@ -201,13 +216,15 @@ describe('Policy Engine Integration Tests', () => {
       const engine = new PolicyEngine(config);
 
       // Edit tool should be allowed (EditTool.Name = 'replace')
-      expect(engine.check({ name: 'replace' })).toBe(PolicyDecision.ALLOW);
+      expect(engine.check({ name: 'replace' }).decision).toBe(
+        PolicyDecision.ALLOW,
+      );
 
       // Other tools should follow normal rules
-      expect(engine.check({ name: 'run_shell_command' })).toBe(
+      expect(engine.check({ name: 'run_shell_command' }).decision).toBe(
         PolicyDecision.ASK_USER,
       );
-      expect(engine.check({ name: 'write_file' })).toBe(
+      expect(engine.check({ name: 'write_file' }).decision).toBe(
         PolicyDecision.ASK_USER,
       );
     });
@@ -217,11 +234,11 @@ describe('Policy Engine Integration Tests', () => {
         tools: {
           autoAccept: true, // Priority 50
           allowed: ['specific-tool'], // Priority 100
-          exclude: ['blocked-tool'], // Priority 200
+          exclude: ['blocked-tool'], // Priority 400
         },
         mcp: {
           allowed: ['mcp-server'], // Priority 85
-          excluded: ['blocked-server'], // Priority 195
+          excluded: ['blocked-server'], // Priority 400
         },
         mcpServers: {
           'trusted-server': {
@@ -240,12 +257,12 @@ describe('Policy Engine Integration Tests', () => {
 
       // Find rules and verify their priorities
       const blockedToolRule = rules.find((r) => r.toolName === 'blocked-tool');
-      expect(blockedToolRule?.priority).toBe(200);
+      expect(blockedToolRule?.priority).toBe(400);
 
       const blockedServerRule = rules.find(
         (r) => r.toolName === 'blocked-server__*',
       );
-      expect(blockedServerRule?.priority).toBe(195);
+      expect(blockedServerRule?.priority).toBe(400);
 
       const specificToolRule = rules.find(
         (r) => r.toolName === 'specific-tool',
@@ -264,20 +281,24 @@ describe('Policy Engine Integration Tests', () => {
       expect(readOnlyToolRule?.priority).toBe(50);
 
       // Verify the engine applies these priorities correctly
-      expect(engine.check({ name: 'blocked-tool' })).toBe(PolicyDecision.DENY);
-      expect(engine.check({ name: 'blocked-server__any' })).toBe(
+      expect(engine.check({ name: 'blocked-tool' }).decision).toBe(
+        PolicyDecision.DENY,
+      );
+      expect(engine.check({ name: 'blocked-server__any' }).decision).toBe(
         PolicyDecision.DENY,
       );
-      expect(engine.check({ name: 'specific-tool' })).toBe(
+      expect(engine.check({ name: 'specific-tool' }).decision).toBe(
         PolicyDecision.ALLOW,
       );
-      expect(engine.check({ name: 'trusted-server__any' })).toBe(
+      expect(engine.check({ name: 'trusted-server__any' }).decision).toBe(
         PolicyDecision.ALLOW,
       );
-      expect(engine.check({ name: 'mcp-server__any' })).toBe(
+      expect(engine.check({ name: 'mcp-server__any' }).decision).toBe(
+        PolicyDecision.ALLOW,
+      );
+      expect(engine.check({ name: 'glob' }).decision).toBe(
         PolicyDecision.ALLOW,
       );
-      expect(engine.check({ name: 'glob' })).toBe(PolicyDecision.ALLOW);
     });
 
     it('should handle edge case: MCP server with both trust and exclusion', () => {
@@ -290,15 +311,15 @@ describe('Policy Engine Integration Tests', () => {
           },
         },
         mcp: {
-          excluded: ['conflicted-server'], // Priority 195 - DENY
+          excluded: ['conflicted-server'], // Priority 400 - DENY
         },
       };
 
       const config = createPolicyEngineConfig(settings, ApprovalMode.DEFAULT);
       const engine = new PolicyEngine(config);
 
-      // Exclusion (195) should win over trust (90)
-      expect(engine.check({ name: 'conflicted-server__tool' })).toBe(
+      // Exclusion (400) should win over trust (90)
+      expect(engine.check({ name: 'conflicted-server__tool' }).decision).toBe(
         PolicyDecision.DENY,
       );
     });
@@ -306,7 +327,7 @@ describe('Policy Engine Integration Tests', () => {
     it('should handle edge case: specific tool allowed but server excluded', () => {
       const settings: Settings = {
         mcp: {
-          excluded: ['my-server'], // Priority 195 - DENY
+          excluded: ['my-server'], // Priority 400 - DENY
         },
         tools: {
           allowed: ['my-server__special-tool'], // Priority 100 - ALLOW
@@ -316,16 +337,62 @@ describe('Policy Engine Integration Tests', () => {
       const config = createPolicyEngineConfig(settings, ApprovalMode.DEFAULT);
       const engine = new PolicyEngine(config);
 
-      // Server exclusion (195) wins over specific tool allow (100)
+      // Server exclusion (400) wins over specific tool allow (100)
       // This might be counterintuitive but follows the priority system
-      expect(engine.check({ name: 'my-server__special-tool' })).toBe(
+      expect(engine.check({ name: 'my-server__special-tool' }).decision).toBe(
+        PolicyDecision.DENY,
+      );
+      expect(engine.check({ name: 'my-server__other-tool' }).decision).toBe(
         PolicyDecision.DENY,
       );
-      expect(engine.check({ name: 'my-server__other-tool' })).toBe(
+    });
+
+    it('should not let workspace policy files re-allow excluded tools', () => {
+      const settings: Settings = {
+        tools: { exclude: ['run_shell_command'] },
+        mcp: { excluded: ['blocked-server'] },
+      };
+      const workspaceRule = (toolName: string) => ({
+        toolName,
+        decision: PolicyDecision.ALLOW,
+        priority: POLICY_SCOPE_PRIORITIES.workspace + 99,
+        scope: 'workspace' as const,
+      });
+
+      const config = createPolicyEngineConfig(settings, ApprovalMode.DEFAULT, [
+        workspaceRule('run_shell_command'),
+        workspaceRule('blocked-server__tool'),
+      ]);
+      const engine = new PolicyEngine(config);
+
+      expect(engine.check({ name: 'run_shell_command' }).decision).toBe(
+        PolicyDecision.DENY,
+      );
+      expect(engine.check({ name: 'blocked-server__tool' }).decision).toBe(
         PolicyDecision.DENY,
       );
     });
 
+    it('should let user policy files override excluded tools', () => {
+      const settings: Settings = {
+        tools: { exclude: ['run_shell_command'] },
+      };
+
+      const config = createPolicyEngineConfig(settings, ApprovalMode.DEFAULT, [
+        {
+          toolName: 'run_shell_command',
+          decision: PolicyDecision.ALLOW,
+          priority: POLICY_SCOPE_PRIORITIES.user,
+          scope: 'user',
+        },
+      ]);
+      const engine = new PolicyEngine(config);
+
+      expect(engine.check({ name: 'run_shell_command' }).decision).toBe(
+        PolicyDecision.ALLOW,
+      );
+    });
+
     it('should verify non-interactive mode transformation', () => {
       const settings: Settings = {};
 
@@ -335,8 +402,10 @@ describe('Policy Engine Integration Tests', () => {
       const engine = new PolicyEngine(engineConfig);
 
       // ASK_USER should become DENY in non-interactive mode
-      expect(engine.check({ name: 'unknown_tool' })).toBe(PolicyDecision.DENY);
-      expect(engine.check({ name: 'run_shell_command' })).toBe(
+      expect(engine.check({ name: 'unknown_tool' }).decision).toBe(
+        PolicyDecision.DENY,
+      );
+      expect(engine.check({ name: 'run_shell_command' }).decision).toBe(
         PolicyDecision.DENY,
       );
     });
@@ -348,13 +417,17 @@ describe('Policy Engine Integration Tests', () => {
       const engine = new PolicyEngine(config);
 
       // Should have default rules for write tools
-      expect(engine.check({ name: 'write_file' })).toBe(
+      expect(engine.check({ name: 'write_file' }).decision).toBe(
+        PolicyDecision.ASK_USER,
+      );
+      expect(engine.check({ name: 'replace' }).decision).toBe(
         PolicyDecision.ASK_USER,
       );
-      expect(engine.check({ name: 'replace' })).toBe(PolicyDecision.ASK_USER);
 
       // Unknown tools should use default
-      expect(engine.check({ name: 'unknown' })).toBe(PolicyDecision.ASK_USER);
+      expect(engine.check({ name: 'unknown' }).decision).toBe(
+        PolicyDecision.ASK_USER,
+      );
     });
 
     it('should verify rules are created with correct priorities', () => {
@@ -375,10 +448,10 @@ describe('Policy Engine Integration Tests', () => {
 
       // Verify each rule has the expected priority
       const tool3Rule = rules.find((r) => r.toolName === 'tool3');
-      expect(tool3Rule?.priority).toBe(200); // Excluded tools
+      expect(tool3Rule?.priority).toBe(400); // Excluded tools
 
       const server2Rule = rules.find((r) => r.toolName === 'server2__*');
-      expect(server2Rule?.priority).toBe(195); // Excluded servers
+      expect(server2Rule?.priority).toBe(400); // Excluded servers
 
       const tool1Rule = rules.find((r) => r.toolName === 'tool1');
       expect(tool1Rule?.priority).toBe(100); // Allowed tools
@@ -5,12 +5,15 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { createPolicyEngineConfig } from './policy.js';
+import { createPolicyEngineConfig, createPolicyUpdater } from './policy.js';
 import type { Settings } from './settings.js';
 import {
   ApprovalMode,
   PolicyDecision,
   WEB_FETCH_TOOL_NAME,
+  PolicyEngine,
+  MessageBus,
+  MessageBusType,
 } from '@google/gemini-cli-core';
 
 describe('createPolicyEngineConfig', () => {
@@ -27,60 +30,91 @@ describe('createPolicyEngineConfig', () => {
         toolName: 'glob',
         decision: PolicyDecision.ALLOW,
         priority: 50,
+        source: 'default: read-only tools',
       },
       {
         toolName: 'google_web_search',
         decision: PolicyDecision.ALLOW,
         priority: 50,
+        source: 'default: read-only tools',
       },
       {
         toolName: 'list_directory',
         decision: PolicyDecision.ALLOW,
         priority: 50,
+        source: 'default: read-only tools',
       },
       {
         toolName: 'read_file',
         decision: PolicyDecision.ALLOW,
         priority: 50,
+        source: 'default: read-only tools',
       },
       {
         toolName: 'read_many_files',
         decision: PolicyDecision.ALLOW,
         priority: 50,
+        source: 'default: read-only tools',
       },
       {
         toolName: 'replace',
         decision: PolicyDecision.ASK_USER,
         priority: 10,
+        source: 'default: tools that modify files or run commands',
       },
       {
         toolName: 'run_shell_command',
         decision: PolicyDecision.ASK_USER,
         priority: 10,
+        source: 'default: tools that modify files or run commands',
       },
       {
         toolName: 'save_memory',
         decision: PolicyDecision.ASK_USER,
         priority: 10,
+        source: 'default: tools that modify files or run commands',
       },
       {
         toolName: 'search_file_content',
         decision: PolicyDecision.ALLOW,
         priority: 50,
+        source: 'default: read-only tools',
       },
       {
         toolName: 'web_fetch',
         decision: PolicyDecision.ASK_USER,
         priority: 10,
+        source: 'default: tools that modify files or run commands',
       },
       {
         toolName: 'write_file',
         decision: PolicyDecision.ASK_USER,
         priority: 10,
+        source: 'default: tools that modify files or run commands',
       },
     ]);
   });
 
+  it('should record the setting each rule comes from', () => {
+    const settings: Settings = {
+      tools: { allowed: ['ls'], exclude: ['web_fetch'] },
+      mcpServers: { github: { command: 'gh-mcp', trust: true } },
+    };
+    const config = createPolicyEngineConfig(settings, ApprovalMode.AUTO_EDIT);
+
+    const sources = new Set(config.rules?.map((rule) => rule.source));
+    expect(sources).toEqual(
+      new Set([
+        'settings: tools.allowed',
+        'settings: tools.exclude',
+        'settings: mcpServers.github.trust',
+        'default: read-only tools',
+        'default: tools that modify files or run commands',
+        'approval mode: auto_edit',
+      ]),
+    );
+  });
+
   it('should allow tools in tools.allowed', () => {
     const settings: Settings = {
       tools: { allowed: ['run_shell_command'] },
@@ -106,7 +140,35 @@ describe('createPolicyEngineConfig', () => {
         r.decision === PolicyDecision.DENY,
     );
     expect(rule).toBeDefined();
-    expect(rule?.priority).toBe(200);
+    expect(rule?.priority).toBe(400);
+  });
+
+  it('should scope tools.agentPolicies rules to their agent', () => {
+    const settings: Settings = {
+      tools: {
+        agentPolicies: {
+          'code-fixer': {
+            allowed: ['write_file'],
+            exclude: ['run_shell_command'],
+          },
+        },
+      },
+    };
+    const config = createPolicyEngineConfig(settings, ApprovalMode.DEFAULT);
+    const engine = new PolicyEngine(config);
+
+    expect(engine.check({ name: 'write_file' }, 'code-fixer').decision).toBe(
+      PolicyDecision.ALLOW,
+    );
+    expect(engine.check({ name: 'write_file' }).decision).toBe(
+      PolicyDecision.ASK_USER,
+    );
+    expect(
+      engine.check({ name: 'run_shell_command' }, 'code-fixer').decision,
+    ).toBe(PolicyDecision.DENY);
+    expect(engine.check({ name: 'run_shell_command' }).decision).toBe(
+      PolicyDecision.ASK_USER,
+    );
   });
 
   it('should allow tools from allowed MCP servers', () => {
@@ -132,7 +194,7 @@ describe('createPolicyEngineConfig', () => {
         r.toolName === 'my-server__*' && r.decision === PolicyDecision.DENY,
     );
     expect(rule).toBeDefined();
-    expect(rule?.priority).toBe(195);
+    expect(rule?.priority).toBe(400);
   });
 
   it('should allow tools from trusted MCP servers', () => {
@@ -210,7 +272,7 @@ describe('createPolicyEngineConfig', () => {
         r.decision === PolicyDecision.DENY,
     );
     expect(excludedRule).toBeDefined();
-    expect(excludedRule?.priority).toBe(195);
+    expect(excludedRule?.priority).toBe(400);
   });
 
   it('should allow all tools in YOLO mode', () => {
@@ -270,11 +332,11 @@ describe('createPolicyEngineConfig', () => {
     );
 
     expect(serverDenyRule).toBeDefined();
-    expect(serverDenyRule?.priority).toBe(195);
+    expect(serverDenyRule?.priority).toBe(400);
     expect(toolAllowRule).toBeDefined();
     expect(toolAllowRule?.priority).toBe(100);
 
-    // Tool allow (100) has lower priority than server deny (195),
+    // Tool allow (100) has lower priority than server deny (400),
     // so server deny wins - this might be counterintuitive
   });
 
@@ -312,11 +374,11 @@ describe('createPolicyEngineConfig', () => {
       tools: {
         autoAccept: true, // Priority 50 for read-only tools
         allowed: ['my-server__tool1', 'other-tool'], // Priority 100
-        exclude: ['my-server__tool2', 'glob'], // Priority 200
+        exclude: ['my-server__tool2', 'glob'], // Priority 400
       },
       mcp: {
         allowed: ['allowed-server'], // Priority 85
-        excluded: ['excluded-server'], // Priority 195
+        excluded: ['excluded-server'], // Priority 400
       },
       mcpServers: {
         'trusted-server': {
@@ -337,7 +399,7 @@ describe('createPolicyEngineConfig', () => {
     );
     expect(globDenyRule).toBeDefined();
     expect(globAllowRule).toBeDefined();
-    expect(globDenyRule!.priority).toBe(200);
+    expect(globDenyRule!.priority).toBe(400);
     expect(globAllowRule!.priority).toBe(50);
 
     // Verify all priority levels are correct
@@ -351,7 +413,7 @@ describe('createPolicyEngineConfig', () => {
 
     // Check that the highest priority items are the excludes
     const highestPriorityExcludes = priorities?.filter(
-      (p) => p.priority === 200,
+      (p) => p.priority === 400,
     );
     expect(
       highestPriorityExcludes?.every((p) => p.decision === PolicyDecision.DENY),
@@ -423,7 +485,7 @@ describe('createPolicyEngineConfig', () => {
         r.toolName === 'dangerous-tool' && r.decision === PolicyDecision.DENY,
     );
     expect(excludeRule).toBeDefined();
-    expect(excludeRule?.priority).toBe(200);
+    expect(excludeRule?.priority).toBe(400);
   });
 
   it('should handle combination of trusted server and excluded server for same name', () => {
@@ -436,7 +498,7 @@ describe('createPolicyEngineConfig', () => {
         },
       },
       mcp: {
-        excluded: ['conflicted-server'], // Priority 195
+        excluded: ['conflicted-server'], // Priority 400
       },
     };
     const config = createPolicyEngineConfig(settings, ApprovalMode.DEFAULT);
@@ -456,9 +518,9 @@ describe('createPolicyEngineConfig', () => {
     expect(trustRule).toBeDefined();
     expect(trustRule?.priority).toBe(90);
     expect(excludeRule).toBeDefined();
-    expect(excludeRule?.priority).toBe(195);
+    expect(excludeRule?.priority).toBe(400);
 
-    // Exclude (195) should win over trust (90) when evaluated
+    // Exclude (400) should win over trust (90) when evaluated
   });
 
   it('should handle all approval modes correctly', () => {
@@ -498,3 +560,60 @@ describe('createPolicyEngineConfig', () => {
     expect(editRule?.priority).toBe(15);
   });
 });
+
+describe('createPolicyUpdater', () => {
+  function setup(limits?: Parameters<typeof createPolicyUpdater>[2]) {
+    const policyEngine = new PolicyEngine();
+    const messageBus = new MessageBus(policyEngine);
+    createPolicyUpdater(policyEngine, messageBus, limits);
+    return { policyEngine, messageBus };
+  }
+
+  it('should grant calls to the tool for the session by default', () => {
+    const { policyEngine, messageBus } = setup();
+
+    messageBus.publish({
+      type: MessageBusType.UPDATE_POLICY,
+      toolName: WEB_FETCH_TOOL_NAME,
+    });
+
+    expect(policyEngine.getGrants()).toEqual([
+      expect.objectContaining({
+        toolName: WEB_FETCH_TOOL_NAME,
+        decision: PolicyDecision.ALLOW,
+        priority: 199,
+        grant: expect.objectContaining({ scope: 'session' }),
+      }),
+    ]);
+    expect(policyEngine.check({ name: WEB_FETCH_TOOL_NAME }).decision).toBe(
+      PolicyDecision.ALLOW,
+    );
+  });
+
+  it('should apply the configured limits', () => {
+    const { policyEngine, messageBus } = setup({
+      maxUses: 1,
+      scope: 'agent-run',
+    });
+
+    messageBus.publish({
+      type: MessageBusType.UPDATE_POLICY,
+      toolName: WEB_FETCH_TOOL_NAME,
+      agentName: 'researcher',
+      agentRunId: 'researcher-run1',
+    });
+    messageBus.publish({
+      type: MessageBusType.UPDATE_POLICY,
+      toolName: WEB_FETCH_TOOL_NAME,
+    });
+
+    expect(policyEngine.getGrants().map((rule) => rule.grant)).toEqual([
+      expect.objectContaining({
+        usesLeft: 1,
+        scope: 'agent-run',
+        agentRunId: 'researcher-run1',
+      }),
+      expect.objectContaining({ usesLeft: 1, scope: 'prompt' }),
+    ]);
+  });
+});
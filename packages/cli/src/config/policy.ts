@@ -7,6 +7,7 @@
 import {
   type PolicyEngineConfig,
   PolicyDecision,
+  type PolicyGrantLimits,
   type PolicyRule,
   ApprovalMode,
   // Read-only tools
@@ -57,8 +58,9 @@ const WRITE_TOOLS = new Set([
 export function createPolicyEngineConfig(
   settings: Settings,
   approvalMode: ApprovalMode,
+  policyFileRules: PolicyRule[] = [],
 ): PolicyEngineConfig {
-  const rules: PolicyRule[] = [];
+  const rules: PolicyRule[] = [...policyFileRules];
 
   // Priority system for policy rules:
   // - Higher priority numbers win over lower priority numbers
@@ -71,10 +73,14 @@ export function createPolicyEngineConfig(
   //   50: Auto-accept read-only tools
   //   85: MCP servers allowed list
   //   90: MCP servers with trust=true
-  //   100: Explicitly allowed individual tools
-  //   195: Explicitly excluded MCP servers
+  //   100: Explicitly allowed individual tools (globally or for one agent)
   //   199: Tools that the user has selected as "Always Allow" in the interactive UI.
-  //   200: Explicitly excluded individual tools (highest priority)
+  //   300-399: Rules from workspace policy files (.gemini/policies/*.toml)
+  //   400: Explicitly excluded MCP servers and individual tools (globally or
+  //        for one agent). These sit above workspace policy files so that a
+  //        trusted repository cannot re-allow tools the user excluded.
+  //   500-599: Rules from user policy files (~/.gemini/policies/*.toml)
+  //   600-699: Rules from system policy files
 
   // MCP servers that are explicitly allowed in settings.mcp.allowed
   // Priority: 85 (lower than trusted servers)
@@ -84,6 +90,7 @@ export function createPolicyEngineConfig(
         toolName: `${serverName}__*`,
         decision: PolicyDecision.ALLOW,
         priority: 85,
+        source: 'settings: mcp.allowed',
       });
     }
   }
@@ -101,6 +108,7 @@ export function createPolicyEngineConfig(
           toolName: `${serverName}__*`,
           decision: PolicyDecision.ALLOW,
           priority: 90,
+          source: `settings: mcpServers.${serverName}.trust`,
         });
       }
     }
@@ -114,30 +122,60 @@ export function createPolicyEngineConfig(
         toolName: tool,
         decision: PolicyDecision.ALLOW,
         priority: 100,
+        source: 'settings: tools.allowed',
       });
     }
   }
 
   // Tools that are explicitly excluded in the settings.
-  // Priority: 200
+  // Priority: 400
   if (settings.tools?.exclude) {
     for (const tool of settings.tools.exclude) {
       rules.push({
         toolName: tool,
         decision: PolicyDecision.DENY,
-        priority: 200,
+        priority: 400,
+        source: 'settings: tools.exclude',
       });
     }
   }
 
+  // Tools allowed or excluded for individual agents. These only match calls
+  // made by that agent and share the priorities of the global lists.
+  if (settings.tools?.agentPolicies) {
+    for (const [agentName, agentPolicy] of Object.entries(
+      settings.tools.agentPolicies,
+    )) {
+      for (const tool of agentPolicy.allowed ?? []) {
+        rules.push({
+          toolName: tool,
+          agentName,
+          decision: PolicyDecision.ALLOW,
+          priority: 100,
+          source: `settings: tools.agentPolicies.${agentName}.allowed`,
+        });
+      }
+      for (const tool of agentPolicy.exclude ?? []) {
+        rules.push({
+          toolName: tool,
+          agentName,
+          decision: PolicyDecision.DENY,
+          priority: 400,
+          source: `settings: tools.agentPolicies.${agentName}.exclude`,
+        });
+      }
+    }
+  }
+
   // MCP servers that are explicitly excluded in settings.mcp.excluded
-  // Priority: 195 (high priority to block servers)
+  // Priority: 400 (high priority to block servers)
   if (settings.mcp?.excluded) {
     for (const serverName of settings.mcp.excluded) {
       rules.push({
         toolName: `${serverName}__*`,
         decision: PolicyDecision.DENY,
-        priority: 195,
+        priority: 400,
+        source: 'settings: mcp.excluded',
       });
     }
   }
@@ -149,6 +187,7 @@ export function createPolicyEngineConfig(
       toolName: tool,
       decision: PolicyDecision.ALLOW,
       priority: 50,
+      source: 'default: read-only tools',
     });
   }
 
@@ -160,6 +199,7 @@ export function createPolicyEngineConfig(
         toolName: tool,
         decision: PolicyDecision.ASK_USER,
         priority: 10,
+        source: 'default: tools that modify files or run commands',
       });
     }
   }
@@ -168,12 +208,14 @@ export function createPolicyEngineConfig(
     rules.push({
       decision: PolicyDecision.ALLOW,
       priority: 0, // Lowest priority - catches everything not explicitly configured
+      source: 'approval mode: yolo',
     });
   } else if (approvalMode === ApprovalMode.AUTO_EDIT) {
     rules.push({
       toolName: EDIT_TOOL_NAME,
       decision: PolicyDecision.ALLOW,
       priority: 15, // Higher than write tools (10) to override ASK_USER
+      source: 'approval mode: auto_edit',
     });
   }
 
@@ -186,17 +228,30 @@ export function createPolicyEngineConfig(
 export function createPolicyUpdater(
   policyEngine: PolicyEngine,
   messageBus: MessageBus,
+  grantLimits: PolicyGrantLimits = {},
 ) {
   messageBus.subscribe(
     MessageBusType.UPDATE_POLICY,
     (message: UpdatePolicy) => {
-      const toolName = message.toolName;
+      const { toolName, agentName, agentRunId } = message;
 
-      policyEngine.addRule({
-        toolName,
-        decision: PolicyDecision.ALLOW,
-        priority: 199, // High priority, but lower than explicit DENY (200)
-      });
+      policyEngine.addGrant(
+        {
+          toolName,
+          agentName,
+          decision: PolicyDecision.ALLOW,
+          priority: 199, // High priority, but lower than explicit DENY (400)
+          source: '"Always allow" confirmation',
+        },
+        {
+          ...grantLimits,
+          // Only subagent runs end on their own; main session grants last
+          // for the prompt instead.
+          ...(grantLimits.scope === 'agent-run' &&
+            !agentRunId && { scope: 'prompt' }),
+        },
+        agentRunId,
+      );
     },
   );
 }
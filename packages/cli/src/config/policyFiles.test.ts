@@ -0,0 +1,175 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { PolicyDecision, PolicyEngine } from '@google/gemini-cli-core';
+import {
+  getPolicyDirectories,
+  loadPolicyFiles,
+  type PolicyDirectory,
+} from './policyFiles.js';
+
+describe('loadPolicyFiles', () => {
+  let tempDir: string;
+  let directories: PolicyDirectory[];
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-files-test-'));
+    directories = (['system', 'user', 'workspace'] as const).map((scope) => {
+      const dir = path.join(tempDir, scope);
+      fs.mkdirSync(dir);
+      return { scope, path: dir };
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writePolicy(scope: number, name: string, content: string): string {
+    const filePath = path.join(directories[scope].path, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  it('should convert rules and offset their priority by scope', () => {
+    const filePath = writePolicy(
+      2,
+      'project.toml',
+      `
+[[rule]]
+description = "Edit sources"
+toolName = ["replace", "write_file"]
+pathGlob = "src/**"
+decision = "allow"
+priority = 5
+
+[[rule]]
+toolName = "run_shell_command"
+commandPrefix = "git status"
+commandRoot = ["git"]
+decision = "ask_user"
+`,
+    );
+    writePolicy(
+      0,
+      'machine.toml',
+      '[[rule]]\nmcpServer = "db"\ndecision = "deny"',
+    );
+    writePolicy(1, 'notes.txt', 'ignored');
+
+    const { rules, errors } = loadPolicyFiles(directories);
+
+    expect(errors).toEqual([]);
+    expect(rules).toEqual([
+      expect.objectContaining({
+        conditions: { mcpServers: ['db'] },
+        decision: PolicyDecision.DENY,
+        priority: 600,
+        scope: 'system',
+      }),
+      {
+        toolName: 'replace',
+        conditions: { pathGlobs: ['src/**'] },
+        decision: PolicyDecision.ALLOW,
+        priority: 305,
+        scope: 'workspace',
+        source: `${filePath} (rule 1)`,
+        description: 'Edit sources',
+      },
+      expect.objectContaining({ toolName: 'write_file', priority: 305 }),
+      expect.objectContaining({
+        toolName: 'run_shell_command',
+        conditions: { commandPrefixes: ['git status'], commandRoots: ['git'] },
+        decision: PolicyDecision.ASK_USER,
+        priority: 300,
+        source: `${filePath} (rule 2)`,
+      }),
+    ]);
+  });
+
+  it('should skip invalid files and report them', () => {
+    const badToml = writePolicy(1, 'a.toml', '[[rule]\n');
+    const badRule = writePolicy(
+      1,
+      'b.toml',
+      '[[rule]]\ntoolName = "ls"\ndecision = "maybe"\npriority = 150',
+    );
+    const badPattern = writePolicy(
+      1,
+      'c.toml',
+      '[[rule]]\nargsPattern = "("\ndecision = "deny"',
+    );
+    writePolicy(1, 'd.toml', '[[rule]]\ntoolName = "ls"\ndecision = "allow"');
+
+    const { rules, errors } = loadPolicyFiles(directories);
+
+    expect(rules).toHaveLength(1);
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toContain(`Invalid policy file ${badToml}:`);
+    expect(errors[1]).toContain(`Invalid policy file ${badRule}: rule.0.`);
+    expect(errors[2]).toContain(`Invalid policy file ${badPattern}: rule 1:`);
+  });
+
+  it('should let system rules win over user and workspace rules', () => {
+    writePolicy(
+      2,
+      'workspace.toml',
+      '[[rule]]\ntoolName = "run_shell_command"\ncommandRoot = "curl"\ndecision = "allow"\npriority = 99',
+    );
+    writePolicy(
+      0,
+      'system.toml',
+      '[[rule]]\ntoolName = "run_shell_command"\ncommandRoot = "curl"\ndecision = "deny"',
+    );
+
+    const engine = new PolicyEngine({
+      rules: loadPolicyFiles(directories).rules,
+    });
+
+    expect(
+      engine.check({
+        name: 'run_shell_command',
+        args: { command: 'curl example.com' },
+      }).decision,
+    ).toBe(PolicyDecision.DENY);
+  });
+});
+
+describe('getPolicyDirectories', () => {
+  beforeEach(() => {
+    vi.stubEnv(
+      'GEMINI_CLI_SYSTEM_SETTINGS_PATH',
+      '/etc/gemini-cli/settings.json',
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should only include the workspace in trusted folders', () => {
+    const workspace = path.resolve('/work/project');
+
+    expect(getPolicyDirectories(workspace, true)).toEqual([
+      { scope: 'system', path: path.join('/etc/gemini-cli', 'policies') },
+      {
+        scope: 'user',
+        path: path.join(os.homedir(), '.gemini', 'policies'),
+      },
+      {
+        scope: 'workspace',
+        path: path.join(workspace, '.gemini', 'policies'),
+      },
+    ]);
+    expect(
+      getPolicyDirectories(workspace, false).map(({ scope }) => scope),
+    ).toEqual(['system', 'user']);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import toml from '@iarna/toml';
+import { z } from 'zod';
+import {
+  PolicyDecision,
+  Storage,
+  type PolicyConditions,
+  type PolicyRule,
+  type PolicyScope,
+} from '@google/gemini-cli-core';
+import { getSystemSettingsPath } from './settings.js';
+
+/**
+ * The priority a rule from a policy file of each scope starts from. The
+ * `priority` of the rule (0-99) is added to it. System rules win over user
+ * rules, which win over workspace rules. User and system rules also win over
+ * all rules derived from settings, but workspace rules stay below the tools and
+ * MCP servers excluded in settings (400), so a repository cannot re-allow them.
+ */
+export const POLICY_SCOPE_PRIORITIES: Record<PolicyScope, number> = {
+  workspace: 300,
+  user: 500,
+  system: 600,
+};
+
+export interface PolicyDirectory {
+  scope: PolicyScope;
+  path: string;
+}
+
+export interface LoadedPolicyFiles {
+  rules: PolicyRule[];
+  /** Files that could not be loaded, with the reason. */
+  errors: string[];
+}
+
+const stringOrList = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) => (Array.isArray(value) ? value : [value]));
+
+const PolicyFileRuleSchema = z
+  .object({
+    toolName: stringOrList.optional(),
+    agentName: z.string().optional(),
+    decision: z.enum(['allow', 'deny', 'ask_user']),
+    priority: z.number().int().min(0).max(99).default(0),
+    pathGlob: stringOrList.optional(),
+    commandPrefix: stringOrList.optional(),
+    commandRoot: stringOrList.optional(),
+    urlHost: stringOrList.optional(),
+    mcpServer: stringOrList.optional(),
+    argsPattern: z.string().optional(),
+    description: z.string().optional(),
+  })
+  .strict();
+
+const PolicyFileSchema = z
+  .object({
+    rule: z.array(PolicyFileRuleSchema).default([]),
+  })
+  .strict();
+
+type PolicyFileRule = z.infer<typeof PolicyFileRuleSchema>;
+
+const DECISIONS: Record<PolicyFileRule['decision'], PolicyDecision> = {
+  allow: PolicyDecision.ALLOW,
+  deny: PolicyDecision.DENY,
+  ask_user: PolicyDecision.ASK_USER,
+};
+
+/**
+ * Returns the directories policy files are read from. Workspace policies are
+ * only read in trusted folders.
+ */
+export function getPolicyDirectories(
+  workspaceDir: string,
+  isTrustedFolder: boolean,
+): PolicyDirectory[] {
+  const directories: PolicyDirectory[] = [
+    {
+      scope: 'system',
+      path: path.join(path.dirname(getSystemSettingsPath()), 'policies'),
+    },
+    {
+      scope: 'user',
+      path: Storage.getUserPoliciesDir(),
+    },
+  ];
+  if (isTrustedFolder) {
+    directories.push({
+      scope: 'workspace',
+      path: new Storage(workspaceDir).getProjectPoliciesDir(),
+    });
+  }
+  return directories;
+}
+
+/**
+ * Converts a rule of a policy file into engine rules, one per tool it names.
+ */
+function toPolicyRules(
+  fileRule: PolicyFileRule,
+  scope: PolicyScope,
+  source: string,
+): PolicyRule[] {
+  const conditions: PolicyConditions = {
+    ...(fileRule.pathGlob && { pathGlobs: fileRule.pathGlob }),
+    ...(fileRule.commandPrefix && { commandPrefixes: fileRule.commandPrefix }),
+    ...(fileRule.commandRoot && { commandRoots: fileRule.commandRoot }),
+    ...(fileRule.urlHost && { urlHosts: fileRule.urlHost }),
+    ...(fileRule.mcpServer && { mcpServers: fileRule.mcpServer }),
+  };
+  const argsPattern = fileRule.argsPattern
+    ? new RegExp(fileRule.argsPattern)
+    : undefined;
+  const toolNames: Array<string | undefined> = fileRule.toolName ?? [undefined];
+  return toolNames.map((toolName) => ({
+    ...(toolName && { toolName }),
+    ...(fileRule.agentName && { agentName: fileRule.agentName }),
+    ...(argsPattern && { argsPattern }),
+    ...(Object.keys(conditions).length > 0 && { conditions }),
+    decision: DECISIONS[fileRule.decision],
+    priority: POLICY_SCOPE_PRIORITIES[scope] + fileRule.priority,
+    scope,
+    source,
+    ...(fileRule.description && { description: fileRule.description }),
+  }));
+}
+
+function loadPolicyFile(filePath: string, scope: PolicyScope): PolicyRule[] {
+  const parsed = PolicyFileSchema.safeParse(
+    toml.parse(fs.readFileSync(filePath, 'utf-8')),
+  );
+  if (!parsed.success) {
+    throw new Error(
+      parsed.error.issues
+        .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+        .join('; '),
+    );
+  }
+  return parsed.data.rule.flatMap((fileRule, index) => {
+    try {
+      return toPolicyRules(fileRule, scope, `${filePath} (rule ${index + 1})`);
+    } catch (error) {
+      throw new Error(
+        `rule ${index + 1}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  });
+}
+
+/**
+ * Reads the `*.toml` policy files in the given directories. A file that cannot
+ * be read or is invalid is skipped as a whole and reported in `errors`.
+ */
+export function loadPolicyFiles(
+  directories: PolicyDirectory[],
+): LoadedPolicyFiles {
+  const result: LoadedPolicyFiles = { rules: [], errors: [] };
+  for (const directory of directories) {
+    let files: string[];
+    try {
+      files = fs
+        .readdirSync(directory.path)
+        .filter((file) => file.endsWith('.toml'))
+        .sort();
+    } catch {
+      // No policies in this scope.
+      continue;
+    }
+    for (const file of files) {
+      const filePath = path.join(directory.path, file);
+      try {
+        result.rules.push(...loadPolicyFile(filePath, directory.scope));
+      } catch (error) {
+        result.errors.push(
+          `Invalid policy file ${filePath}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    }
+  }
+  return result;
+}
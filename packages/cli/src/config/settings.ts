@@ -185,6 +185,14 @@ export interface SessionRetentionSettings {
   minRetention?: string;
 }
 
+export interface AgentToolPolicySettings {
+  /** Tools the agent may call without asking for confirmation */
+  allowed?: string[];
+
+  /** Tools the agent is never allowed to call */
+  exclude?: string[];
+}
+
 export interface SettingsError {
   message: string;
   path: string;
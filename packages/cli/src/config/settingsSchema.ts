@@ -15,6 +15,8 @@ import type {
   TelemetrySettings,
   AuthType,
   ChatCompressionSettings,
+  ModelRoutingConfig,
+  BudgetConfig,
 } from '@google/gemini-cli-core';
 import {
   DEFAULT_TRUNCATE_TOOL_OUTPUT_LINES,
@@ -22,7 +24,10 @@ import {
   DEFAULT_GEMINI_MODEL,
 } from '@google/gemini-cli-core';
 import type { CustomTheme } from '../ui/themes/theme.js';
-import type { SessionRetentionSettings } from './settings.js';
+import type {
+  AgentToolPolicySettings,
+  SessionRetentionSettings,
+} from './settings.js';
 import { DEFAULT_MIN_RETENTION } from '../utils/sessionCleanup.js';
 
 export type SettingsType =
@@ -203,6 +208,16 @@ const SETTINGS_SCHEMA = {
         description: 'Enable debug logging of keystrokes to the console.',
         showInDialog: true,
       },
+      recordAgentRuns: {
+        type: 'boolean',
+        label: 'Record Subagent Runs',
+        category: 'General',
+        requiresRestart: true,
+        default: true,
+        description:
+          'Save a transcript of every subagent run for /agents runs and replays. Transcripts include tool results such as file contents, and are cleaned up with the session retention settings.',
+        showInDialog: true,
+      },
       sessionRetention: {
         type: 'object',
         label: 'Session Retention',
@@ -587,6 +602,26 @@ const SETTINGS_SCHEMA = {
         description: 'Chat compression settings.',
         showInDialog: false,
       },
+      routing: {
+        type: 'object',
+        label: 'Model Routing',
+        category: 'Model',
+        requiresRestart: true,
+        default: undefined as ModelRoutingConfig | undefined,
+        description:
+          'The chain of routing strategies, the thresholds of the heuristic strategy, and model aliases. Used when experimental.useModelRouter is enabled.',
+        showInDialog: false,
+      },
+      budget: {
+        type: 'object',
+        label: 'Budget',
+        category: 'Model',
+        requiresRestart: true,
+        default: undefined as BudgetConfig | undefined,
+        description:
+          'Token and cost limits for the session and for each prompt, and the price of each model used to estimate the cost.',
+        showInDialog: false,
+      },
       skipNextSpeakerCheck: {
         type: 'boolean',
         label: 'Skip Next Speaker Check',
@@ -596,6 +631,38 @@ const SETTINGS_SCHEMA = {
         description: 'Skip the next speaker check.',
         showInDialog: true,
       },
+      openaiCompatible: {
+        type: 'object',
+        label: 'OpenAI-Compatible Server',
+        category: 'Model',
+        requiresRestart: true,
+        default: {},
+        description:
+          'The server used with the openai-compatible auth type, such as Ollama, vLLM or llama.cpp.',
+        showInDialog: false,
+        properties: {
+          baseUrl: {
+            type: 'string',
+            label: 'OpenAI-Compatible Base URL',
+            category: 'Model',
+            requiresRestart: true,
+            default: 'http://localhost:11434/v1',
+            description:
+              'Base URL of the chat completions API. Defaults to a local Ollama server.',
+            showInDialog: false,
+          },
+          model: {
+            type: 'string',
+            label: 'OpenAI-Compatible Model',
+            category: 'Model',
+            requiresRestart: true,
+            default: undefined as string | undefined,
+            description:
+              'The model served by the OpenAI-compatible server, e.g. "qwen3:8b". Used in place of every Gemini model.',
+            showInDialog: false,
+          },
+        },
+      },
     },
   },
 
@@ -803,6 +870,81 @@ const SETTINGS_SCHEMA = {
         showInDialog: false,
         mergeStrategy: MergeStrategy.UNION,
       },
+      agentPolicies: {
+        type: 'object',
+        label: 'Agent Tool Policies',
+        category: 'Tools',
+        requiresRestart: true,
+        default: {} as Record<string, AgentToolPolicySettings>,
+        description:
+          'Per-agent tool policies, keyed by agent name. Tools in `allowed` run without confirmation and tools in `exclude` are denied when invoked by that agent.',
+        showInDialog: false,
+        mergeStrategy: MergeStrategy.SHALLOW_MERGE,
+      },
+      docs: {
+        type: 'object',
+        label: 'Documentation Lookup',
+        category: 'Tools',
+        requiresRestart: true,
+        default: {},
+        description: 'Settings for the lookup_docs tool.',
+        showInDialog: false,
+        properties: {
+          enabled: {
+            type: 'boolean',
+            label: 'Enable Documentation Lookup',
+            category: 'Tools',
+            requiresRestart: true,
+            default: false,
+            description: 'Enable the lookup_docs tool.',
+            showInDialog: true,
+          },
+          provider: {
+            type: 'enum',
+            label: 'Documentation Provider',
+            category: 'Tools',
+            requiresRestart: true,
+            default: 'context7',
+            description:
+              'Where lookup_docs searches: the Context7 service, a local directory of docs, or the READMEs and type declarations in node_modules.',
+            showInDialog: true,
+            options: [
+              { value: 'context7', label: 'Context7' },
+              { value: 'local', label: 'Local Directory' },
+              { value: 'node_modules', label: 'node_modules' },
+            ],
+          },
+          context7ApiKey: {
+            type: 'string',
+            label: 'Context7 API Key',
+            category: 'Tools',
+            requiresRestart: true,
+            default: undefined as string | undefined,
+            description:
+              'API key for the Context7 provider. Falls back to the CONTEXT7_API_KEY environment variable.',
+            showInDialog: false,
+          },
+          context7BaseUrl: {
+            type: 'string',
+            label: 'Context7 Base URL',
+            category: 'Tools',
+            requiresRestart: true,
+            default: undefined as string | undefined,
+            description: 'Base URL of the Context7 API.',
+            showInDialog: false,
+          },
+          localDirectory: {
+            type: 'string',
+            label: 'Local Docs Directory',
+            category: 'Tools',
+            requiresRestart: true,
+            default: undefined as string | undefined,
+            description:
+              'Directory of Markdown or text docs searched by the local provider, relative to the project root.',
+            showInDialog: false,
+          },
+        },
+      },
       discoveryCommand: {
         type: 'string',
         label: 'Tool Discovery Command',
@@ -966,6 +1108,85 @@ const SETTINGS_SCHEMA = {
           },
         },
       },
+      policyAudit: {
+        type: 'object',
+        label: 'Policy Audit',
+        category: 'Security',
+        requiresRestart: true,
+        default: {},
+        description: 'Settings for the policy decision audit log.',
+        showInDialog: false,
+        properties: {
+          enabled: {
+            type: 'boolean',
+            label: 'Policy Audit Log',
+            category: 'Security',
+            requiresRestart: true,
+            default: false,
+            description:
+              'Log the policy decision on every tool call, and the answer of the user if they were asked. Query the log with `coco policy audit`.',
+            showInDialog: true,
+          },
+          redactArgs: {
+            type: 'array',
+            label: 'Redacted Arguments',
+            category: 'Security',
+            requiresRestart: true,
+            default: [] as string[],
+            description:
+              'Tool arguments whose values are not written to the audit log, e.g. "command". Use "*" to redact all arguments.',
+            showInDialog: false,
+            mergeStrategy: MergeStrategy.UNION,
+          },
+        },
+      },
+      alwaysAllowGrants: {
+        type: 'object',
+        label: 'Always Allow Grants',
+        category: 'Security',
+        requiresRestart: true,
+        default: {},
+        description:
+          'Limits for the permissions granted by answering "always allow" to a tool confirmation. Manage active grants with `/permissions grants`.',
+        showInDialog: false,
+        properties: {
+          expiresAfterMinutes: {
+            type: 'number',
+            label: 'Grant Expiry (Minutes)',
+            category: 'Security',
+            requiresRestart: true,
+            default: undefined as number | undefined,
+            description:
+              'Minutes after which an "always allow" grant expires. Unset means no expiry.',
+            showInDialog: true,
+          },
+          maxUses: {
+            type: 'number',
+            label: 'Grant Max Uses',
+            category: 'Security',
+            requiresRestart: true,
+            default: undefined as number | undefined,
+            description:
+              'How many tool calls an "always allow" grant allows. Unset means no limit.',
+            showInDialog: true,
+          },
+          scope: {
+            type: 'enum',
+            label: 'Grant Scope',
+            category: 'Security',
+            requiresRestart: true,
+            default: 'session',
+            description:
+              'How long an "always allow" grant lasts at most: the session, the current prompt, or the current subagent run. Grants from the main session with the agent run scope last for the current prompt.',
+            showInDialog: true,
+            options: [
+              { value: 'session', label: 'Session' },
+              { value: 'prompt', label: 'Prompt' },
+              { value: 'agent-run', label: 'Agent Run' },
+            ],
+          },
+        },
+      },
       auth: {
         type: 'object',
         label: 'Authentication',
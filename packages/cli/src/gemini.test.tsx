@@ -339,6 +339,10 @@ describe('gemini.tsx main function kitty protocol', () => {
       useSmartEdit: undefined,
       useWriteTodos: undefined,
       outputFormat: undefined,
+      recordResponses: undefined,
+      replayResponses: undefined,
+      replayMatch: undefined,
+      worktree: undefined,
     });
 
     await main();
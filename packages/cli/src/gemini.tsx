@@ -49,7 +49,11 @@ import {
 import { validateAuthMethod } from './config/auth.js';
 import { setMaxSizedBoxDebugging } from './ui/components/shared/MaxSizedBox.js';
 import { runZedIntegration } from './zed-integration/zedIntegration.js';
-import { cleanupExpiredSessions } from './utils/sessionCleanup.js';
+import {
+  cleanupExpiredAgentRuns,
+  cleanupExpiredSessions,
+} from './utils/sessionCleanup.js';
+import { startWorktreeSession } from './utils/worktreeSession.js';
 import { validateNonInteractiveAuth } from './validateNonInterActiveAuth.js';
 import { detectAndEnableKittyProtocol } from './ui/utils/kittyProtocolDetector.js';
 import { checkForUpdates } from './ui/utils/updateCheck.js';
@@ -364,19 +368,29 @@ export async function main() {
       argv.extensions,
     );
     const extensions = loadExtensions(extensionEnablementManager);
+    const worktree = argv.worktree
+      ? await startWorktreeSession(process.cwd(), sessionId)
+      : undefined;
     const config = await loadCliConfig(
       settings.merged,
       extensions,
       sessionId,
       argv,
+      worktree?.workingDir,
+      worktree,
     );
 
     const policyEngine = config.getPolicyEngine();
     const messageBus = config.getMessageBus();
-    createPolicyUpdater(policyEngine, messageBus);
+    createPolicyUpdater(
+      policyEngine,
+      messageBus,
+      settings.merged.security?.alwaysAllowGrants,
+    );
 
-    // Cleanup sessions after config initialization
+    // Cleanup sessions and subagent runs after config initialization
     await cleanupExpiredSessions(config, settings.merged);
+    await cleanupExpiredAgentRuns(config, settings.merged);
 
     if (config.getListExtensions()) {
       debugLogger.log('Installed extensions:');
@@ -190,6 +190,9 @@ describe('runNonInteractive', () => {
       [{ text: 'Test input' }],
       expect.any(AbortSignal),
       'prompt-id-1',
+      undefined,
+      false,
+      'user',
     );
     expect(processStdoutSpy).toHaveBeenCalledWith('Hello');
     expect(processStdoutSpy).toHaveBeenCalledWith(' World');
@@ -260,6 +263,9 @@ describe('runNonInteractive', () => {
       [{ text: 'Tool response' }],
       expect.any(AbortSignal),
       'prompt-id-2',
+      undefined,
+      false,
+      'user',
     );
     expect(processStdoutSpy).toHaveBeenCalledWith('Final answer');
     expect(processStdoutSpy).toHaveBeenCalledWith('\n');
@@ -344,6 +350,9 @@ describe('runNonInteractive', () => {
       ],
       expect.any(AbortSignal),
       'prompt-id-3',
+      undefined,
+      false,
+      'user',
     );
     expect(processStdoutSpy).toHaveBeenCalledWith('Sorry, let me try again.');
   });
@@ -437,6 +446,31 @@ describe('runNonInteractive', () => {
     ).rejects.toThrow('process.exit(53) called');
   });
 
+  it('should exit when a budget is used up', async () => {
+    mockGeminiClient.sendMessageStream.mockReturnValue(
+      createStreamFromEvents([
+        {
+          type: GeminiEventType.BudgetExceeded,
+          value: {
+            scope: 'session',
+            limit: 'maxCostUsd',
+            used: 5.2,
+            max: 5,
+          },
+        },
+      ]),
+    );
+
+    await expect(
+      runNonInteractive(
+        mockConfig,
+        mockSettings,
+        'Expensive task',
+        'prompt-id-budget',
+      ),
+    ).rejects.toThrow('process.exit(55) called');
+  });
+
   it('should preprocess @include commands before sending to the model', async () => {
     // 1. Mock the imported atCommandProcessor
     const { handleAtCommand } = await import(
@@ -479,6 +513,9 @@ describe('runNonInteractive', () => {
       processedParts,
       expect.any(AbortSignal),
       'prompt-id-7',
+      undefined,
+      false,
+      'user',
     );
 
     // 6. Assert the final output is correct
@@ -516,6 +553,12 @@ describe('runNonInteractive', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     };
     vi.mocked(uiTelemetryService.getMetrics).mockReturnValue(mockMetrics);
 
@@ -530,6 +573,9 @@ describe('runNonInteractive', () => {
       [{ text: 'Test input' }],
       expect.any(AbortSignal),
       'prompt-id-1',
+      undefined,
+      false,
+      'user',
     );
     expect(processStdoutSpy).toHaveBeenCalledWith(
       JSON.stringify({ response: 'Hello World', stats: mockMetrics }, null, 2),
@@ -624,6 +670,12 @@ describe('runNonInteractive', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     };
     vi.mocked(uiTelemetryService.getMetrics).mockReturnValue(mockMetrics);
 
@@ -678,6 +730,12 @@ describe('runNonInteractive', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     };
     vi.mocked(uiTelemetryService.getMetrics).mockReturnValue(mockMetrics);
 
@@ -692,6 +750,9 @@ describe('runNonInteractive', () => {
       [{ text: 'Empty response test' }],
       expect.any(AbortSignal),
       'prompt-id-empty',
+      undefined,
+      false,
+      'user',
     );
 
     // This should output JSON with empty response but include stats
@@ -824,6 +885,9 @@ describe('runNonInteractive', () => {
       [{ text: 'Prompt from command' }],
       expect.any(AbortSignal),
       'prompt-id-slash',
+      undefined,
+      false,
+      'slash-command',
     );
 
     expect(processStdoutSpy).toHaveBeenCalledWith('Response from command');
@@ -879,6 +943,9 @@ describe('runNonInteractive', () => {
       [{ text: '/unknowncommand' }],
       expect.any(AbortSignal),
       'prompt-id-unknown',
+      undefined,
+      false,
+      'user',
     );
 
     expect(processStdoutSpy).toHaveBeenCalledWith('Response to unknown');
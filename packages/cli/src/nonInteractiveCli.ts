@@ -8,6 +8,7 @@ import type {
   Config,
   ToolCallRequestInfo,
   CompletedToolCall,
+  RoutingRequestSource,
 } from '@google/gemini-cli-core';
 import { isSlashCommand } from './ui/utils/commandUtils.js';
 import type { LoadedSettings } from './config/settings.js';
@@ -24,6 +25,7 @@ import {
   JsonStreamEventType,
   uiTelemetryService,
   debugLogger,
+  formatBudgetWarning,
 } from '@google/gemini-cli-core';
 
 import type { Content, Part } from '@google/genai';
@@ -36,6 +38,7 @@ import {
   handleToolError,
   handleCancellationError,
   handleMaxTurnsExceededError,
+  handleBudgetExceededError,
 } from './utils/errors.js';
 
 export async function runNonInteractive(
@@ -81,6 +84,7 @@ export async function runNonInteractive(
       const abortController = new AbortController();
 
       let query: Part[] | undefined;
+      let source: RoutingRequestSource = 'user';
 
       if (isSlashCommand(input)) {
         const slashCommandResult = await handleSlashCommand(
@@ -94,6 +98,7 @@ export async function runNonInteractive(
         // handling.
         if (slashCommandResult) {
           query = slashCommandResult as Part[];
+          source = 'slash-command';
         }
       }
 
@@ -144,6 +149,9 @@ export async function runNonInteractive(
           currentMessages[0]?.parts || [],
           abortController.signal,
           prompt_id,
+          undefined,
+          false,
+          source,
         );
 
         let responseText = '';
@@ -195,6 +203,20 @@ export async function runNonInteractive(
                 message: 'Maximum session turns exceeded',
               });
             }
+          } else if (event.type === GeminiEventType.BudgetWarning) {
+            const message = formatBudgetWarning(event.value);
+            if (streamFormatter) {
+              streamFormatter.emitEvent({
+                type: JsonStreamEventType.ERROR,
+                timestamp: new Date().toISOString(),
+                severity: 'warning',
+                message,
+              });
+            } else {
+              debugLogger.warn(message);
+            }
+          } else if (event.type === GeminiEventType.BudgetExceeded) {
+            handleBudgetExceededError(config, event.value);
           }
         }
 
@@ -60,7 +60,17 @@ import { restoreCommand } from '../ui/commands/restoreCommand.js';
 vi.mock('../ui/commands/authCommand.js', () => ({ authCommand: {} }));
 vi.mock('../ui/commands/bugCommand.js', () => ({ bugCommand: {} }));
 vi.mock('../ui/commands/chatCommand.js', () => ({ chatCommand: {} }));
+vi.mock('../ui/commands/checkpointCommand.js', () => ({
+  checkpointCommand: () => null,
+}));
+vi.mock('../ui/commands/checkpointsCommand.js', () => ({
+  checkpointsCommand: () => null,
+}));
+vi.mock('../ui/commands/worktreeCommand.js', () => ({
+  worktreeCommand: () => null,
+}));
 vi.mock('../ui/commands/clearCommand.js', () => ({ clearCommand: {} }));
+vi.mock('../ui/commands/commitCommand.js', () => ({ commitCommand: {} }));
 vi.mock('../ui/commands/compressCommand.js', () => ({ compressCommand: {} }));
 vi.mock('../ui/commands/corgiCommand.js', () => ({ corgiCommand: {} }));
 vi.mock('../ui/commands/docsCommand.js', () => ({ docsCommand: {} }));
@@ -158,12 +168,12 @@ describe('BuiltinCommandLoader', () => {
     expect(permissionsCmd).toBeDefined();
   });
 
-  it('should exclude permissions command when folder trust is disabled', async () => {
+  it('should include permissions command for the grants when folder trust is disabled', async () => {
     (mockConfig.getFolderTrust as Mock).mockReturnValue(false);
     const loader = new BuiltinCommandLoader(mockConfig);
     const commands = await loader.loadCommands(new AbortController().signal);
     const permissionsCmd = commands.find((c) => c.name === 'permissions');
-    expect(permissionsCmd).toBeUndefined();
+    expect(permissionsCmd).toBeDefined();
   });
 
   it('should include modelCommand when getUseModelRouter is true', async () => {
@@ -9,10 +9,15 @@ import type { ICommandLoader } from './types.js';
 import type { SlashCommand } from '../ui/commands/types.js';
 import type { Config } from '@google/gemini-cli-core';
 import { aboutCommand } from '../ui/commands/aboutCommand.js';
+import { agentsCommand } from '../ui/commands/agentsCommand.js';
 import { authCommand } from '../ui/commands/authCommand.js';
+import { budgetCommand } from '../ui/commands/budgetCommand.js';
 import { bugCommand } from '../ui/commands/bugCommand.js';
 import { chatCommand } from '../ui/commands/chatCommand.js';
+import { checkpointCommand } from '../ui/commands/checkpointCommand.js';
+import { checkpointsCommand } from '../ui/commands/checkpointsCommand.js';
 import { clearCommand } from '../ui/commands/clearCommand.js';
+import { commitCommand } from '../ui/commands/commitCommand.js';
 import { compressCommand } from '../ui/commands/compressCommand.js';
 import { copyCommand } from '../ui/commands/copyCommand.js';
 import { corgiCommand } from '../ui/commands/corgiCommand.js';
@@ -23,10 +28,13 @@ import { extensionsCommand } from '../ui/commands/extensionsCommand.js';
 import { helpCommand } from '../ui/commands/helpCommand.js';
 import { ideCommand } from '../ui/commands/ideCommand.js';
 import { initCommand } from '../ui/commands/initCommand.js';
+import { jobsCommand } from '../ui/commands/jobsCommand.js';
 import { mcpCommand } from '../ui/commands/mcpCommand.js';
 import { memoryCommand } from '../ui/commands/memoryCommand.js';
 import { modelCommand } from '../ui/commands/modelCommand.js';
 import { permissionsCommand } from '../ui/commands/permissionsCommand.js';
+import { policiesCommand } from '../ui/commands/policiesCommand.js';
+import { prDescriptionCommand } from '../ui/commands/prDescriptionCommand.js';
 import { privacyCommand } from '../ui/commands/privacyCommand.js';
 import { profileCommand } from '../ui/commands/profileCommand.js';
 import { quitCommand } from '../ui/commands/quitCommand.js';
@@ -36,6 +44,7 @@ import { themeCommand } from '../ui/commands/themeCommand.js';
 import { toolsCommand } from '../ui/commands/toolsCommand.js';
 import { settingsCommand } from '../ui/commands/settingsCommand.js';
 import { vimCommand } from '../ui/commands/vimCommand.js';
+import { worktreeCommand } from '../ui/commands/worktreeCommand.js';
 import { setupGithubCommand } from '../ui/commands/setupGithubCommand.js';
 import { terminalSetupCommand } from '../ui/commands/terminalSetupCommand.js';
 
@@ -56,10 +65,15 @@ export class BuiltinCommandLoader implements ICommandLoader {
   async loadCommands(_signal: AbortSignal): Promise<SlashCommand[]> {
     const allDefinitions: Array<SlashCommand | null> = [
       aboutCommand,
+      agentsCommand,
       authCommand,
+      budgetCommand,
       bugCommand,
       chatCommand,
+      checkpointCommand(this.config),
+      checkpointsCommand(this.config),
       clearCommand,
+      commitCommand,
       compressCommand,
       copyCommand,
       corgiCommand,
@@ -70,10 +84,13 @@ export class BuiltinCommandLoader implements ICommandLoader {
       helpCommand,
       await ideCommand(),
       initCommand,
+      jobsCommand,
       mcpCommand,
       memoryCommand,
       ...(this.config?.getUseModelRouter() ? [modelCommand] : []),
-      ...(this.config?.getFolderTrust() ? [permissionsCommand] : []),
+      permissionsCommand,
+      policiesCommand,
+      prDescriptionCommand,
       privacyCommand,
       ...(isDevelopment ? [profileCommand] : []),
       quitCommand,
@@ -83,6 +100,7 @@ export class BuiltinCommandLoader implements ICommandLoader {
       toolsCommand,
       settingsCommand,
       vimCommand,
+      worktreeCommand(this.config),
       setupGithubCommand,
       terminalSetupCommand,
     ];
@@ -48,6 +48,7 @@ export const createMockCommandContext = (
     ui: {
       addItem: vi.fn(),
       clear: vi.fn(),
+      refreshStatic: vi.fn(),
       setDebugMessage: vi.fn(),
       pendingItem: null,
       setPendingItem: vi.fn(),
@@ -16,13 +16,16 @@ import { ConfigContext } from '../ui/contexts/ConfigContext.js';
 import { calculateMainAreaWidth } from '../ui/utils/ui-sizing.js';
 import { VimModeProvider } from '../ui/contexts/VimModeContext.js';
 
-import { type Config } from '@google/gemini-cli-core';
+import { PolicyEngine, type Config } from '@google/gemini-cli-core';
+
+const mockPolicyEngine = new PolicyEngine();
 
 const mockConfig = {
   getModel: () => 'gemini-pro',
   getTargetDir: () =>
     '/Users/test/project/foo/bar/and/some/more/directories/to/make/it/long',
   getDebugMode: () => false,
+  getPolicyEngine: () => mockPolicyEngine,
 };
 
 const configProxy = new Proxy(mockConfig, {
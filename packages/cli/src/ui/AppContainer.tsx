@@ -91,6 +91,7 @@ import { useSessionStats } from './contexts/SessionContext.js';
 import { useOverflowState } from './contexts/OverflowContext.js';
 import { useGitBranchName } from './hooks/useGitBranchName.js';
 import { useExtensionUpdates } from './hooks/useExtensionUpdates.js';
+import { useSubagentToolConfirmation } from './hooks/useSubagentToolConfirmation.js';
 import { ShellFocusContext } from './contexts/ShellFocusContext.js';
 import { ExtensionEnablementManager } from '../config/extensions/extensionEnablement.js';
 
@@ -1085,12 +1086,15 @@ Logging in with Google... Please restart Gemini CLI to continue.
     [filteredConsoleMessages],
   );
 
+  const subagentConfirmationRequest = useSubagentToolConfirmation(config);
+
   const nightly = props.version.includes('nightly');
 
   const dialogsVisible =
     shouldShowIdePrompt ||
     isFolderTrustDialogOpen ||
     !!shellConfirmationRequest ||
+    !!subagentConfirmationRequest ||
     !!confirmationRequest ||
     confirmUpdateExtensionRequests.length > 0 ||
     !!loopDetectionConfirmationRequest ||
@@ -1133,6 +1137,7 @@ Logging in with Google... Please restart Gemini CLI to continue.
       pendingSlashCommandHistoryItems,
       commandContext,
       shellConfirmationRequest,
+      subagentConfirmationRequest,
       confirmationRequest,
       confirmUpdateExtensionRequests,
       loopDetectionConfirmationRequest,
@@ -1214,6 +1219,7 @@ Logging in with Google... Please restart Gemini CLI to continue.
       pendingSlashCommandHistoryItems,
       commandContext,
       shellConfirmationRequest,
+      subagentConfirmationRequest,
       confirmationRequest,
       confirmUpdateExtensionRequests,
       loopDetectionConfirmationRequest,
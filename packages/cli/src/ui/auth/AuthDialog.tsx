@@ -62,6 +62,11 @@ export function AuthDialog({
       value: AuthType.USE_VERTEX_AI,
       key: AuthType.USE_VERTEX_AI,
     },
+    {
+      label: 'OpenAI-compatible server (Ollama, vLLM, llama.cpp)',
+      value: AuthType.USE_OPENAI_COMPATIBLE,
+      key: AuthType.USE_OPENAI_COMPATIBLE,
+    },
   ];
 
   if (settings.merged.security?.auth?.enforcedType) {
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  AgentTerminateMode,
+  listAgentRunFiles,
+  listAgentRuns,
+  loadAgentRun,
+  type AgentRunSummary,
+} from '@google/gemini-cli-core';
+import { agentsCommand } from './agentsCommand.js';
+import type { CommandContext, SlashCommand } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/gemini-cli-core')>()),
+  listAgentRunFiles: vi.fn(),
+  listAgentRuns: vi.fn(),
+  loadAgentRun: vi.fn(),
+}));
+
+const run: AgentRunSummary = {
+  runId: 'abc12345',
+  agentName: 'helper',
+  startTime: '2025-01-01T10:00:00.000Z',
+  turns: 3,
+  terminateReason: AgentTerminateMode.MAX_TURNS,
+  filePath: '/tmp/run-abc12345.json',
+};
+
+const runFile = (runId: string) => ({
+  runId,
+  startTime: new Date('2025-01-01T10:00:00.000Z'),
+  filePath: `/tmp/run-2025-01-01T10-00-${runId}.json`,
+});
+
+describe('agentsCommand', () => {
+  let context: CommandContext;
+  const runsCommand = agentsCommand.subCommands?.find(
+    (command) => command.name === 'runs',
+  ) as SlashCommand;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    context = createMockCommandContext({
+      services: { config: { storage: {} } },
+    });
+  });
+
+  describe('runs', () => {
+    it('should list recorded runs', async () => {
+      vi.mocked(listAgentRunFiles).mockReturnValue([
+        runFile('abc12345'),
+        runFile('def67890'),
+      ]);
+      vi.mocked(listAgentRuns).mockReturnValue([run]);
+
+      const result = await runsCommand.action!(context, '');
+
+      expect(listAgentRuns).toHaveBeenCalledWith({}, 20);
+      expect(result).toMatchObject({ type: 'message', messageType: 'info' });
+      const content = (result as { content: string }).content;
+      expect(content).toContain('Recent subagent runs (1 of 2):');
+      expect(content).toContain('abc12345  helper  MAX_TURNS, 3 turn(s)');
+    });
+
+    it('should say when no runs have been recorded', async () => {
+      vi.mocked(listAgentRunFiles).mockReturnValue([]);
+
+      expect(await runsCommand.action!(context, '')).toEqual({
+        type: 'message',
+        messageType: 'info',
+        content: 'No subagent runs have been recorded for this project yet.',
+      });
+    });
+
+    it('should open a run turn by turn', async () => {
+      vi.mocked(loadAgentRun).mockReturnValue({
+        runId: 'abc12345',
+        agentName: 'helper',
+        definitionHash: 'hash',
+        parentChain: ['planner'],
+        startTime: '2025-01-01T10:00:00.000Z',
+        inputs: { goal: 'find it' },
+        turns: [
+          {
+            promptId: 'p#0',
+            request: [{ text: 'Get Started!' }],
+            response: [
+              { text: 'Looking around', thought: true },
+              { functionCall: { name: 'ls', args: { path: '.' } } },
+            ],
+            toolCalls: [
+              {
+                callId: 'c1',
+                name: 'ls',
+                args: { path: '.' },
+                result: [
+                  {
+                    functionResponse: {
+                      name: 'ls',
+                      response: { output: 'a.txt' },
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+        terminateReason: AgentTerminateMode.MAX_TURNS,
+        result: 'Agent execution was terminated before completion.',
+      });
+
+      const result = await runsCommand.action!(context, 'abc12345');
+      const content = (result as { content: string }).content;
+
+      expect(loadAgentRun).toHaveBeenCalledWith({}, 'abc12345');
+      expect(content).toContain(
+        'Run abc12345 of helper: MAX_TURNS after 1 turn(s)',
+      );
+      expect(content).toContain('Called by: planner');
+      expect(content).toContain('Inputs: {"goal":"find it"}');
+      expect(content).toContain('  Thought: Looking around');
+      expect(content).toContain('  Call ls {"path":"."}');
+      expect(content).toContain('  Result of ls: {"output":"a.txt"}');
+    });
+
+    it('should report unknown runs', async () => {
+      vi.mocked(loadAgentRun).mockReturnValue(undefined);
+
+      expect(await runsCommand.action!(context, 'nope')).toEqual({
+        type: 'message',
+        messageType: 'error',
+        content: "No subagent run found with ID 'nope'.",
+      });
+    });
+
+    it('should complete run IDs without reading the runs', async () => {
+      vi.mocked(listAgentRunFiles).mockReturnValue([
+        runFile('abc12345'),
+        runFile('def67890'),
+      ]);
+
+      expect(await runsCommand.completion!(context, 'ab')).toEqual([
+        'abc12345',
+      ]);
+      expect(listAgentRuns).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Part } from '@google/genai';
+import {
+  listAgentRunFiles,
+  listAgentRuns,
+  loadAgentRun,
+  type AgentRunSummary,
+  type AgentRunTranscript,
+} from '@google/gemini-cli-core';
+import {
+  type CommandContext,
+  type MessageActionReturn,
+  type SlashCommand,
+  CommandKind,
+} from './types.js';
+
+const MAX_LISTED_RUNS = 20;
+const MAX_PREVIEW_LENGTH = 200;
+
+function preview(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > MAX_PREVIEW_LENGTH
+    ? `${singleLine.slice(0, MAX_PREVIEW_LENGTH)}...`
+    : singleLine;
+}
+
+function formatRunSummary(run: AgentRunSummary): string {
+  const outcome = run.terminateReason ?? 'UNFINISHED';
+  const replay = run.replayOf ? ` (replay of ${run.replayOf})` : '';
+  return `  ${run.runId}  ${run.agentName}  ${outcome}, ${run.turns} turn(s)  ${new Date(run.startTime).toLocaleString()}${replay}`;
+}
+
+function formatPart(part: Part): string | undefined {
+  if (part.functionResponse) {
+    return JSON.stringify(part.functionResponse.response);
+  }
+  return part.text;
+}
+
+/** Renders a saved run turn by turn. */
+function formatAgentRun(transcript: AgentRunTranscript): string {
+  const lines = [
+    `Run ${transcript.runId} of ${transcript.agentName}: ${transcript.terminateReason ?? 'UNFINISHED'} after ${transcript.turns.length} turn(s)`,
+    `Started: ${new Date(transcript.startTime).toLocaleString()}`,
+    `Definition hash: ${transcript.definitionHash}`,
+  ];
+  if (transcript.parentChain.length > 0) {
+    lines.push(`Called by: ${transcript.parentChain.join(' › ')}`);
+  }
+  if (transcript.replayOf) {
+    lines.push(`Replay of: ${transcript.replayOf}`);
+  }
+  lines.push(`Inputs: ${JSON.stringify(transcript.inputs)}`);
+
+  for (const [index, turn] of transcript.turns.entries()) {
+    lines.push('', `Turn ${index + 1}`);
+    for (const part of turn.response) {
+      if (part.functionCall) {
+        lines.push(
+          `  Call ${part.functionCall.name} ${JSON.stringify(part.functionCall.args ?? {})}`,
+        );
+      } else if (part.text) {
+        lines.push(
+          `  ${part.thought ? 'Thought' : 'Model'}: ${preview(part.text)}`,
+        );
+      }
+    }
+    for (const toolCall of turn.toolCalls) {
+      const result = toolCall.result
+        .map(formatPart)
+        .filter((text) => text !== undefined)
+        .join(' ');
+      lines.push(`  Result of ${toolCall.name}: ${preview(result)}`);
+    }
+  }
+
+  if (transcript.result !== undefined) {
+    lines.push('', `Result: ${transcript.result}`);
+  }
+  return lines.join('\n');
+}
+
+const runsCommand: SlashCommand = {
+  name: 'runs',
+  description:
+    'List recent subagent runs, or open one. Usage: /agents runs [run-id]',
+  kind: CommandKind.BUILT_IN,
+  action: async (
+    context: CommandContext,
+    args: string,
+  ): Promise<MessageActionReturn> => {
+    const config = context.services.config;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Configuration not available.',
+      };
+    }
+
+    const runId = args.trim();
+    if (runId) {
+      const transcript = loadAgentRun(config.storage, runId);
+      if (!transcript) {
+        return {
+          type: 'message',
+          messageType: 'error',
+          content: `No subagent run found with ID '${runId}'.`,
+        };
+      }
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: formatAgentRun(transcript),
+      };
+    }
+
+    const total = listAgentRunFiles(config.storage).length;
+    if (total === 0) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: 'No subagent runs have been recorded for this project yet.',
+      };
+    }
+    const shown = listAgentRuns(config.storage, MAX_LISTED_RUNS);
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: [
+        `Recent subagent runs (${shown.length} of ${total}):`,
+        ...shown.map(formatRunSummary),
+        '',
+        'Open a run with /agents runs <run-id>.',
+      ].join('\n'),
+    };
+  },
+  completion: async (context, partialArg) => {
+    const storage = context.services.config?.storage;
+    if (!storage) {
+      return [];
+    }
+    return listAgentRunFiles(storage)
+      .map((run) => run.runId)
+      .filter((runId) => runId.startsWith(partialArg));
+  },
+};
+
+export const agentsCommand: SlashCommand = {
+  name: 'agents',
+  description: 'Inspect subagents and their past runs',
+  kind: CommandKind.BUILT_IN,
+  subCommands: [runsCommand],
+};
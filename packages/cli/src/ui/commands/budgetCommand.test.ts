@@ -0,0 +1,125 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  BudgetService,
+  uiTelemetryService,
+  type BudgetConfig,
+  type Config,
+} from '@google/gemini-cli-core';
+import { budgetCommand } from './budgetCommand.js';
+import type { CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+describe('budgetCommand', () => {
+  let budget: BudgetConfig;
+  let context: CommandContext;
+
+  beforeEach(() => {
+    const metrics = uiTelemetryService.getMetrics();
+    vi.spyOn(uiTelemetryService, 'getMetrics').mockReturnValue({
+      ...metrics,
+      models: {
+        'gemini-2.5-pro': {
+          api: { totalRequests: 2, totalErrors: 0, totalLatencyMs: 500 },
+          tokens: {
+            prompt: 900_000,
+            candidates: 20_000,
+            total: 920_000,
+            cached: 0,
+            thoughts: 0,
+            tool: 0,
+          },
+        },
+      },
+    });
+    budget = {};
+    const config = { getBudgetConfig: () => budget };
+    const budgetService = new BudgetService(config as unknown as Config);
+    context = createMockCommandContext({
+      services: {
+        config: {
+          ...config,
+          getBudgetService: () => budgetService,
+        },
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should show the usage and the budgets', () => {
+    budget = {
+      session: { maxInputTokens: 1_000_000 },
+      prices: {
+        'gemini-2.5-pro': {
+          inputPerMillionTokens: 1,
+          outputPerMillionTokens: 10,
+        },
+      },
+    };
+
+    const result = budgetCommand.action!(context, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: [
+        'Usage:',
+        '  session: 900,000 input tokens, 20,000 output tokens, $1.10',
+        '  prompt: 900,000 input tokens, 20,000 output tokens, $1.10',
+        '',
+        'Budgets:',
+        '  session input token budget (900,000 / 1,000,000)',
+      ].join('\n'),
+    });
+  });
+
+  it('should say when no budgets or prices are configured', () => {
+    const result = budgetCommand.action!(context, '');
+
+    const content = (result as { content: string }).content;
+    expect(content).toContain(
+      'No budgets are configured. Set them in model.budget.',
+    );
+    expect(content).toContain(
+      'Costs are $0 until model prices are set in model.budget.prices.',
+    );
+  });
+
+  it('should override the budgets that are used up', () => {
+    budget = { session: { maxOutputTokens: 10_000 } };
+    const overrideCommand = budgetCommand.subCommands?.find(
+      (command) => command.name === 'override',
+    );
+
+    expect(overrideCommand!.action!(context, '')).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content:
+        'Continuing past:\n  session output token budget (20,000 / 10,000)',
+    });
+    expect(
+      context.services.config!.getBudgetService().getExceeded(),
+    ).toBeUndefined();
+  });
+
+  it('should say when no budget is used up', () => {
+    budget = { session: { maxOutputTokens: 100_000 } };
+    const overrideCommand = budgetCommand.subCommands?.find(
+      (command) => command.name === 'override',
+    );
+
+    expect(overrideCommand!.action!(context, '')).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'No budget is used up.',
+    });
+  });
+});
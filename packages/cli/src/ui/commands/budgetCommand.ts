@@ -0,0 +1,98 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { BudgetScope, BudgetUsage } from '@google/gemini-cli-core';
+import { formatBudgetStatus } from '@google/gemini-cli-core';
+import {
+  type CommandContext,
+  type MessageActionReturn,
+  type SlashCommand,
+  CommandKind,
+} from './types.js';
+
+function formatUsage(scope: BudgetScope, usage: BudgetUsage): string {
+  return `  ${scope}: ${usage.inputTokens.toLocaleString()} input tokens, ${usage.outputTokens.toLocaleString()} output tokens, $${usage.costUsd.toFixed(2)}`;
+}
+
+const overrideCommand: SlashCommand = {
+  name: 'override',
+  description: 'Continue past the budgets that are used up',
+  kind: CommandKind.BUILT_IN,
+  action: (context: CommandContext): MessageActionReturn => {
+    const config = context.services.config;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Configuration not available.',
+      };
+    }
+    const overridden = config.getBudgetService().overrideExceeded();
+    if (overridden.length === 0) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: 'No budget is used up.',
+      };
+    }
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: [
+        'Continuing past:',
+        ...overridden.map((status) => `  ${formatBudgetStatus(status)}`),
+      ].join('\n'),
+    };
+  },
+};
+
+export const budgetCommand: SlashCommand = {
+  name: 'budget',
+  description:
+    'Show the token and cost budgets of the session. Usage: /budget [override]',
+  kind: CommandKind.BUILT_IN,
+  subCommands: [overrideCommand],
+  action: (context: CommandContext): MessageActionReturn => {
+    const config = context.services.config;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Configuration not available.',
+      };
+    }
+    const budgetService = config.getBudgetService();
+    const statuses = budgetService.getStatuses();
+    const lines = [
+      'Usage:',
+      formatUsage('session', budgetService.getUsage('session')),
+      formatUsage('prompt', budgetService.getUsage('prompt')),
+      '',
+    ];
+    if (statuses.length === 0) {
+      lines.push('No budgets are configured. Set them in model.budget.');
+    } else {
+      lines.push(
+        'Budgets:',
+        ...statuses.map((status) => {
+          const state = status.used >= status.max ? ' - used up' : '';
+          return `  ${formatBudgetStatus(status)}${state}`;
+        }),
+      );
+    }
+    if (!config.getBudgetConfig().prices) {
+      lines.push(
+        '',
+        'Costs are $0 until model prices are set in model.budget.prices.',
+      );
+    }
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: lines.join('\n'),
+    };
+  },
+};
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { checkpointCommand } from './checkpointCommand.js';
+import type { CommandContext, SlashCommand } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import type { Config, GitService } from '@google/gemini-cli-core';
+
+describe('checkpointCommand', () => {
+  let mockConfig: Config;
+  let mockGitService: GitService;
+  let context: CommandContext;
+  let saveCommand: SlashCommand;
+
+  beforeEach(() => {
+    mockConfig = {
+      getCheckpointingEnabled: vi.fn().mockReturnValue(true),
+    } as unknown as Config;
+    mockGitService = {
+      createFileSnapshot: vi.fn().mockResolvedValue('abc1234'),
+    } as unknown as GitService;
+    context = createMockCommandContext({
+      services: { config: mockConfig, git: mockGitService },
+    });
+    saveCommand = checkpointCommand(mockConfig)!.subCommands![0];
+  });
+
+  it('should return null if checkpointing is not enabled', () => {
+    vi.mocked(mockConfig.getCheckpointingEnabled).mockReturnValue(false);
+
+    expect(checkpointCommand(mockConfig)).toBeNull();
+  });
+
+  it('should save a named checkpoint', async () => {
+    const result = await saveCommand.action!(context, ' before refactor ');
+
+    expect(mockGitService.createFileSnapshot).toHaveBeenCalledWith(
+      'Checkpoint: before refactor',
+      { allowEmpty: true },
+    );
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'Saved checkpoint abc1234 "before refactor".',
+    });
+  });
+
+  it('should require a label', async () => {
+    expect(await saveCommand.action!(context, '')).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'Missing label. Usage: /checkpoint save <label>',
+    });
+    expect(mockGitService.createFileSnapshot).not.toHaveBeenCalled();
+  });
+});
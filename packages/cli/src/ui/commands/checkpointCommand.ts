@@ -0,0 +1,73 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  type MessageActionReturn,
+  type SlashCommand,
+  CommandKind,
+} from './types.js';
+import type { Config } from '@google/gemini-cli-core';
+import {
+  getErrorMessage,
+  NAMED_CHECKPOINT_PREFIX,
+} from '@google/gemini-cli-core';
+
+const saveCommand: SlashCommand = {
+  name: 'save',
+  description:
+    'Save the current state of the project. Usage: /checkpoint save <label>',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const gitService = context.services.git;
+    if (!gitService) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Checkpoints are not available. Make sure Git is installed.',
+      };
+    }
+    const label = args.trim();
+    if (!label) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Missing label. Usage: /checkpoint save <label>',
+      };
+    }
+    try {
+      const commitHash = await gitService.createFileSnapshot(
+        `${NAMED_CHECKPOINT_PREFIX}${label}`,
+        { allowEmpty: true },
+      );
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: `Saved checkpoint ${commitHash.slice(0, 7)} "${label}".`,
+      };
+    } catch (err) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: getErrorMessage(err),
+      };
+    }
+  },
+};
+
+export const checkpointCommand = (
+  config: Config | null,
+): SlashCommand | null => {
+  if (!config?.getCheckpointingEnabled()) {
+    return null;
+  }
+
+  return {
+    name: 'checkpoint',
+    description: 'Save a named checkpoint. Usage: /checkpoint save <label>',
+    kind: CommandKind.BUILT_IN,
+    subCommands: [saveCommand],
+  };
+};
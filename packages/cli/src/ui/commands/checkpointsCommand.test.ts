@@ -0,0 +1,193 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { checkpointsCommand } from './checkpointsCommand.js';
+import type { CommandContext, SlashCommand } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import type { Config, GitService } from '@google/gemini-cli-core';
+
+describe('checkpointsCommand', () => {
+  let testRootDir: string;
+  let checkpointsDir: string;
+  let mockConfig: Config;
+  let mockGitService: GitService;
+  let context: CommandContext;
+  let command: SlashCommand;
+
+  const subCommand = (name: string) =>
+    command.subCommands!.find((subCommand) => subCommand.name === name)!;
+
+  beforeEach(async () => {
+    testRootDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'checkpoints-command-test-'),
+    );
+    checkpointsDir = path.join(testRootDir, 'checkpoints');
+    await fs.mkdir(checkpointsDir);
+
+    mockConfig = {
+      getCheckpointingEnabled: vi.fn().mockReturnValue(true),
+      getProjectRoot: () => '/project',
+      storage: {
+        getProjectTempCheckpointsDir: () => checkpointsDir,
+      },
+    } as unknown as Config;
+    mockGitService = {
+      listSnapshots: vi.fn().mockResolvedValue([
+        {
+          commitHash: 'bbbbbbb222',
+          date: new Date('2025-01-02T10:00:00Z'),
+          message: 'Snapshot for replace',
+        },
+        {
+          commitHash: 'aaaaaaa111',
+          date: new Date('2025-01-01T10:00:00Z'),
+          message: 'Checkpoint: before refactor',
+        },
+      ]),
+      getSnapshotDiff: vi.fn().mockResolvedValue([
+        {
+          filePath: 'src/a.ts',
+          header: ['diff --git a/src/a.ts b/src/a.ts'],
+          hunks: [
+            ['@@ -1 +1 @@', '-old', '+new'],
+            ['@@ -9 +9,2 @@', ' keep', '+added'],
+          ],
+        },
+      ]),
+      restoreFilesFromSnapshot: vi.fn().mockResolvedValue(undefined),
+      restoreHunksFromSnapshot: vi.fn().mockResolvedValue(undefined),
+    } as unknown as GitService;
+    context = createMockCommandContext({
+      services: { config: mockConfig, git: mockGitService },
+    });
+    command = checkpointsCommand(mockConfig)!;
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(testRootDir, { recursive: true, force: true });
+  });
+
+  it('should return null if checkpointing is not enabled', () => {
+    vi.mocked(mockConfig.getCheckpointingEnabled).mockReturnValue(false);
+
+    expect(checkpointsCommand(mockConfig)).toBeNull();
+  });
+
+  it('should list the checkpoints with their tool calls and labels', async () => {
+    await fs.writeFile(
+      path.join(checkpointsDir, 'replace.json'),
+      JSON.stringify({
+        toolCall: { name: 'replace', args: {} },
+        commitHash: 'bbbbbbb',
+        filePath: '/project/src/a.ts',
+      }),
+    );
+
+    const result = await command.action!(context, '');
+
+    const content = (result as { content: string }).content;
+    expect(content).toContain('Checkpoints, newest first:');
+    expect(content).toMatch(/bbbbbbb .* replace src\/a\.ts\n/);
+    expect(content).toMatch(/aaaaaaa .* "before refactor"\n/);
+  });
+
+  it('should summarize the changed files of a checkpoint', async () => {
+    const result = await subCommand('diff').action!(context, 'aaa');
+
+    expect(mockGitService.getSnapshotDiff).toHaveBeenCalledWith(
+      'aaaaaaa111',
+      undefined,
+    );
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: [
+        'Files changed since checkpoint aaaaaaa:',
+        '  src/a.ts (+2 -1)',
+        '',
+        'Show the hunks of a file with /checkpoints diff aaaaaaa <file>.',
+      ].join('\n'),
+    });
+  });
+
+  it('should show the numbered hunks of a file', async () => {
+    const result = await subCommand('diff').action!(context, 'aaa src/a.ts');
+
+    const content = (result as { content: string }).content;
+    expect(content).toContain(
+      [
+        'Changes to src/a.ts since checkpoint aaaaaaa:',
+        '',
+        'Hunk 1:',
+        '@@ -1 +1 @@',
+        '-old',
+        '+new',
+        '',
+        'Hunk 2:',
+      ].join('\n'),
+    );
+  });
+
+  it('should report unknown checkpoint ids', async () => {
+    expect(await subCommand('diff').action!(context, 'ccc')).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'No checkpoint found for ccc. Run /checkpoints to list them.',
+    });
+  });
+
+  it('should restore a whole file', async () => {
+    const result = await subCommand('restore').action!(context, 'bbb src/a.ts');
+
+    expect(mockGitService.restoreFilesFromSnapshot).toHaveBeenCalledWith(
+      'bbbbbbb222',
+      ['src/a.ts'],
+    );
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'Restored src/a.ts from checkpoint bbbbbbb.',
+    });
+  });
+
+  it('should restore the selected hunks of a file', async () => {
+    const result = await subCommand('restore').action!(
+      context,
+      'bbb src/a.ts 1,2',
+    );
+
+    expect(mockGitService.restoreHunksFromSnapshot).toHaveBeenCalledWith(
+      'bbbbbbb222',
+      'src/a.ts',
+      [0, 1],
+    );
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'Restored hunks 1, 2 of src/a.ts from checkpoint bbbbbbb.',
+    });
+  });
+
+  it('should reject invalid hunk numbers', async () => {
+    const result = await subCommand('restore').action!(
+      context,
+      'bbb src/a.ts first',
+    );
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content:
+        'Invalid hunk numbers: first. Use the numbers shown by /checkpoints diff.',
+    });
+    expect(mockGitService.restoreHunksFromSnapshot).not.toHaveBeenCalled();
+  });
+});
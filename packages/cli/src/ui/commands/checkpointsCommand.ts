@@ -0,0 +1,270 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import {
+  type CommandContext,
+  type MessageActionReturn,
+  type SlashCommand,
+  CommandKind,
+} from './types.js';
+import type { Config, GitService, Snapshot } from '@google/gemini-cli-core';
+import {
+  getErrorMessage,
+  NAMED_CHECKPOINT_PREFIX,
+} from '@google/gemini-cli-core';
+import { readToolCallCheckpoints } from '../utils/checkpointUtils.js';
+
+const SHORT_HASH_LENGTH = 7;
+
+const NO_GIT_MESSAGE: MessageActionReturn = {
+  type: 'message',
+  messageType: 'error',
+  content: 'Checkpoints are not available. Make sure Git is installed.',
+};
+
+function error(content: string): MessageActionReturn {
+  return { type: 'message', messageType: 'error', content };
+}
+
+/** Finds the snapshot whose hash starts with the given id. */
+async function findSnapshot(
+  gitService: GitService,
+  id: string,
+): Promise<Snapshot | string> {
+  const matches = (await gitService.listSnapshots()).filter((snapshot) =>
+    snapshot.commitHash.startsWith(id),
+  );
+  if (matches.length === 0) {
+    return `No checkpoint found for ${id}. Run /checkpoints to list them.`;
+  }
+  if (matches.length > 1) {
+    return `${id} matches more than one checkpoint. Use a longer id.`;
+  }
+  return matches[0];
+}
+
+/** Describes what a snapshot was taken for: a tool call or a label. */
+function describeSnapshot(
+  snapshot: Snapshot,
+  toolCalls: Map<string, string>,
+): string {
+  if (snapshot.message.startsWith(NAMED_CHECKPOINT_PREFIX)) {
+    return `"${snapshot.message.slice(NAMED_CHECKPOINT_PREFIX.length)}"`;
+  }
+  // Tool call records may hold abbreviated hashes.
+  for (const [commitHash, toolCall] of toolCalls) {
+    if (snapshot.commitHash.startsWith(commitHash)) {
+      return toolCall;
+    }
+  }
+  return snapshot.message;
+}
+
+async function listAction(
+  context: CommandContext,
+): Promise<MessageActionReturn> {
+  const { config, git: gitService } = context.services;
+  if (!gitService || !config) {
+    return NO_GIT_MESSAGE;
+  }
+  try {
+    const snapshots = await gitService.listSnapshots();
+    if (snapshots.length === 0) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content:
+          'No checkpoints yet. They are created before files are edited, or with /checkpoint save <label>.',
+      };
+    }
+
+    const toolCalls = new Map<string, string>();
+    const checkpoints = await readToolCallCheckpoints(
+      config.storage.getProjectTempCheckpointsDir(),
+    );
+    for (const checkpoint of checkpoints.values()) {
+      if (checkpoint.commitHash && !toolCalls.has(checkpoint.commitHash)) {
+        const file = checkpoint.filePath
+          ? ` ${path.relative(config.getProjectRoot(), checkpoint.filePath)}`
+          : '';
+        toolCalls.set(
+          checkpoint.commitHash,
+          `${checkpoint.toolCall.name}${file}`,
+        );
+      }
+    }
+
+    const lines = snapshots.map(
+      (snapshot) =>
+        `  ${snapshot.commitHash.slice(0, SHORT_HASH_LENGTH)}  ${snapshot.date.toLocaleString()}  ${describeSnapshot(snapshot, toolCalls)}`,
+    );
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: [
+        'Checkpoints, newest first:',
+        ...lines,
+        '',
+        'Preview the changes since one with /checkpoints diff <id> [file], and undo them with /checkpoints restore <id> <file> [hunks].',
+      ].join('\n'),
+    };
+  } catch (err) {
+    return error(`Could not list the checkpoints: ${getErrorMessage(err)}`);
+  }
+}
+
+const diffCommand: SlashCommand = {
+  name: 'diff',
+  description:
+    'Show the changes since a checkpoint. Usage: /checkpoints diff <id> [file]',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const gitService = context.services.git;
+    if (!gitService) {
+      return NO_GIT_MESSAGE;
+    }
+    const [id, filePath] = args.trim().split(/\s+/).filter(Boolean);
+    if (!id) {
+      return error(
+        'Missing checkpoint id. Usage: /checkpoints diff <id> [file]',
+      );
+    }
+    try {
+      const snapshot = await findSnapshot(gitService, id);
+      if (typeof snapshot === 'string') {
+        return error(snapshot);
+      }
+      const shortHash = snapshot.commitHash.slice(0, SHORT_HASH_LENGTH);
+      const diffs = await gitService.getSnapshotDiff(
+        snapshot.commitHash,
+        filePath,
+      );
+      if (diffs.length === 0) {
+        return {
+          type: 'message',
+          messageType: 'info',
+          content: filePath
+            ? `${filePath} has not changed since checkpoint ${shortHash}.`
+            : `Nothing has changed since checkpoint ${shortHash}.`,
+        };
+      }
+
+      if (!filePath) {
+        const lines = diffs.map((diff) => {
+          const hunkLines = diff.hunks.flat();
+          const added = hunkLines.filter((line) => line.startsWith('+'));
+          const removed = hunkLines.filter((line) => line.startsWith('-'));
+          return `  ${diff.filePath} (+${added.length} -${removed.length})`;
+        });
+        return {
+          type: 'message',
+          messageType: 'info',
+          content: [
+            `Files changed since checkpoint ${shortHash}:`,
+            ...lines,
+            '',
+            `Show the hunks of a file with /checkpoints diff ${shortHash} <file>.`,
+          ].join('\n'),
+        };
+      }
+
+      const lines = diffs.flatMap((diff) => [
+        `Changes to ${diff.filePath} since checkpoint ${shortHash}:`,
+        ...diff.hunks.flatMap((hunk, index) => [
+          '',
+          `Hunk ${index + 1}:`,
+          ...hunk,
+        ]),
+      ]);
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: [
+          ...lines,
+          '',
+          `Undo hunks with /checkpoints restore ${shortHash} ${filePath} <hunk numbers>, or the whole file by leaving them out.`,
+        ].join('\n'),
+      };
+    } catch (err) {
+      return error(`Could not show the changes: ${getErrorMessage(err)}`);
+    }
+  },
+};
+
+const restoreFilesCommand: SlashCommand = {
+  name: 'restore',
+  description:
+    'Restore a file, or some of its hunks, from a checkpoint. Usage: /checkpoints restore <id> <file> [hunks]',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const gitService = context.services.git;
+    if (!gitService) {
+      return NO_GIT_MESSAGE;
+    }
+    const [id, filePath, ...hunkArgs] = args
+      .trim()
+      .split(/[\s,]+/)
+      .filter(Boolean);
+    if (!id || !filePath) {
+      return error(
+        'Missing checkpoint id or file. Usage: /checkpoints restore <id> <file> [hunks]',
+      );
+    }
+    const hunks = hunkArgs.map(Number);
+    if (hunks.some((hunk) => !Number.isInteger(hunk) || hunk < 1)) {
+      return error(
+        `Invalid hunk numbers: ${hunkArgs.join(', ')}. Use the numbers shown by /checkpoints diff.`,
+      );
+    }
+    try {
+      const snapshot = await findSnapshot(gitService, id);
+      if (typeof snapshot === 'string') {
+        return error(snapshot);
+      }
+      const shortHash = snapshot.commitHash.slice(0, SHORT_HASH_LENGTH);
+      if (hunks.length === 0) {
+        await gitService.restoreFilesFromSnapshot(snapshot.commitHash, [
+          filePath,
+        ]);
+        return {
+          type: 'message',
+          messageType: 'info',
+          content: `Restored ${filePath} from checkpoint ${shortHash}.`,
+        };
+      }
+      await gitService.restoreHunksFromSnapshot(
+        snapshot.commitHash,
+        filePath,
+        hunks.map((hunk) => hunk - 1),
+      );
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: `Restored hunk${hunks.length > 1 ? 's' : ''} ${hunks.join(', ')} of ${filePath} from checkpoint ${shortHash}.`,
+      };
+    } catch (err) {
+      return error(`Could not restore ${filePath}: ${getErrorMessage(err)}`);
+    }
+  },
+};
+
+export const checkpointsCommand = (
+  config: Config | null,
+): SlashCommand | null => {
+  if (!config?.getCheckpointingEnabled()) {
+    return null;
+  }
+
+  return {
+    name: 'checkpoints',
+    description:
+      'Browse the checkpoints, preview their changes and restore files or hunks. Usage: /checkpoints [diff|restore]',
+    kind: CommandKind.BUILT_IN,
+    subCommands: [diffCommand, restoreFilesCommand],
+    action: listAction,
+  };
+};
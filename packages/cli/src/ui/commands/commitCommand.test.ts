@@ -0,0 +1,142 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import {
+  generateCommitMessage,
+  isEditorAvailable,
+  RepositoryService,
+  type Config,
+} from '@google/gemini-cli-core';
+import { commitCommand } from './commitCommand.js';
+import type { CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import { editCommitMessage } from '../../utils/commitMessageEditor.js';
+import type { LoadedSettings } from '../../config/settings.js';
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/gemini-cli-core')>()),
+  RepositoryService: vi.fn(),
+  generateCommitMessage: vi.fn(),
+  isEditorAvailable: vi.fn(),
+}));
+vi.mock('../../utils/commitMessageEditor.js', () => ({
+  editCommitMessage: vi.fn(),
+}));
+
+describe('commitCommand', () => {
+  let repository: {
+    isRepository: ReturnType<typeof vi.fn>;
+    getStagedDiff: ReturnType<typeof vi.fn>;
+    getRecentCommitMessages: ReturnType<typeof vi.fn>;
+    commit: ReturnType<typeof vi.fn>;
+  };
+  let context: CommandContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = {
+      isRepository: vi.fn().mockResolvedValue(true),
+      getStagedDiff: vi.fn().mockResolvedValue('diff --git a/a.ts b/a.ts'),
+      getRecentCommitMessages: vi.fn().mockResolvedValue(['fix: a bug']),
+      commit: vi.fn().mockResolvedValue('0123456789abcdef'),
+    };
+    vi.mocked(RepositoryService).mockImplementation(
+      () => repository as unknown as RepositoryService,
+    );
+    vi.mocked(isEditorAvailable).mockReturnValue(true);
+    vi.mocked(generateCommitMessage).mockResolvedValue('feat: add a');
+    vi.mocked(editCommitMessage).mockResolvedValue('feat: add a\n\nBody.');
+    context = createMockCommandContext({
+      services: {
+        config: {
+          getTargetDir: () => '/project',
+          getGeminiClient: () => ({}),
+        } as unknown as Config,
+        settings: {
+          merged: { general: { preferredEditor: 'vim' } },
+        } as LoadedSettings,
+      },
+    });
+  });
+
+  it('should commit the message the user edited', async () => {
+    const result = await commitCommand.action!(context, '');
+
+    expect(RepositoryService).toHaveBeenCalledWith('/project');
+    expect(generateCommitMessage).toHaveBeenCalledWith(
+      {
+        diff: 'diff --git a/a.ts b/a.ts',
+        recentMessages: ['fix: a bug'],
+      },
+      {},
+      expect.any(AbortSignal),
+    );
+    expect(editCommitMessage).toHaveBeenCalledWith(
+      'feat: add a',
+      'vim',
+      context.ui.refreshStatic,
+    );
+    expect(repository.commit).toHaveBeenCalledWith('feat: add a\n\nBody.');
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'Committed 0123456: feat: add a',
+    });
+  });
+
+  it('should not commit when the user cleared the message', async () => {
+    vi.mocked(editCommitMessage).mockResolvedValue('');
+
+    const result = await commitCommand.action!(context, '');
+
+    expect(repository.commit).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'Aborted the commit because the commit message is empty.',
+    });
+  });
+
+  it('should return an error without staged changes', async () => {
+    repository.getStagedDiff.mockResolvedValue('');
+
+    const result = await commitCommand.action!(context, '');
+
+    expect(generateCommitMessage).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'There are no staged changes. Stage them with "git add" first.',
+    });
+  });
+
+  it('should return an error without an available editor', async () => {
+    vi.mocked(isEditorAvailable).mockReturnValue(false);
+
+    const result = await commitCommand.action!(context, '');
+
+    expect(generateCommitMessage).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content:
+        'No preferred editor is available to review the commit message. Choose one with /editor.',
+    });
+  });
+
+  it('should report a failed commit', async () => {
+    repository.commit.mockRejectedValue(new Error('hook failed'));
+
+    const result = await commitCommand.action!(context, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'Could not commit: hook failed',
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  generateCommitMessage,
+  getErrorMessage,
+  isEditorAvailable,
+  RepositoryService,
+  type EditorType,
+} from '@google/gemini-cli-core';
+import { MessageType } from '../types.js';
+import { editCommitMessage } from '../../utils/commitMessageEditor.js';
+import {
+  type MessageActionReturn,
+  type SlashCommand,
+  CommandKind,
+} from './types.js';
+
+function error(content: string): MessageActionReturn {
+  return { type: 'message', messageType: 'error', content };
+}
+
+export const commitCommand: SlashCommand = {
+  name: 'commit',
+  description:
+    'Commit the staged changes with a generated message that you review in your editor',
+  kind: CommandKind.BUILT_IN,
+  action: async (context): Promise<MessageActionReturn> => {
+    const { config, settings } = context.services;
+    if (!config) {
+      return error('Config not loaded.');
+    }
+
+    const repository = new RepositoryService(config.getTargetDir());
+    try {
+      if (!(await repository.isRepository())) {
+        return error('The project is not in a git repository.');
+      }
+      const diff = await repository.getStagedDiff();
+      if (!diff.trim()) {
+        return error(
+          'There are no staged changes. Stage them with "git add" first.',
+        );
+      }
+      const editor = settings.merged.general?.preferredEditor;
+      if (!isEditorAvailable(editor)) {
+        return error(
+          'No preferred editor is available to review the commit message. Choose one with /editor.',
+        );
+      }
+
+      context.ui.addItem(
+        {
+          type: MessageType.INFO,
+          text: 'Writing a commit message for the staged changes...',
+        },
+        Date.now(),
+      );
+      const generated = await generateCommitMessage(
+        { diff, recentMessages: await repository.getRecentCommitMessages() },
+        config.getGeminiClient(),
+        new AbortController().signal,
+      );
+      const message = await editCommitMessage(
+        generated,
+        editor as EditorType,
+        context.ui.refreshStatic,
+      );
+      if (!message) {
+        return {
+          type: 'message',
+          messageType: 'info',
+          content: 'Aborted the commit because the commit message is empty.',
+        };
+      }
+
+      const hash = await repository.commit(message);
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: `Committed ${hash.slice(0, 7)}: ${message.split('\n')[0]}`,
+      };
+    } catch (err) {
+      return error(`Could not commit: ${getErrorMessage(err)}`);
+    }
+  },
+};
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import {
+  ShellExecutionService,
+  type BackgroundShellJob,
+} from '@google/gemini-cli-core';
+import { jobsCommand } from './jobsCommand.js';
+import type { CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/gemini-cli-core')>()),
+  ShellExecutionService: {
+    getBackgroundJob: vi.fn(),
+    getBackgroundJobs: vi.fn(),
+  },
+}));
+
+function createJob(
+  overrides: Partial<Record<string, unknown>> = {},
+): BackgroundShellJob {
+  return {
+    id: 1,
+    command: 'npm run dev',
+    pid: 4242,
+    status: 'running',
+    startTime: new Date(Date.now() - 65_000),
+    getExitCode: () => null,
+    getExitSignal: () => null,
+    peekOutput: () => 'Listening on 3000',
+    getScreenText: () => 'starting\nListening on 3000',
+    kill: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  } as unknown as BackgroundShellJob;
+}
+
+describe('jobsCommand', () => {
+  let context: CommandContext;
+
+  const subCommand = (name: string) =>
+    jobsCommand.subCommands!.find((command) => command.name === name)!;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    context = createMockCommandContext();
+  });
+
+  it('should say when no jobs were started', async () => {
+    vi.mocked(ShellExecutionService.getBackgroundJobs).mockReturnValue([]);
+
+    expect(await jobsCommand.action!(context, '')).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'No background jobs were started in this session.',
+    });
+  });
+
+  it('should list the jobs with their status and last output', async () => {
+    vi.mocked(ShellExecutionService.getBackgroundJobs).mockReturnValue([
+      createJob(),
+      createJob({
+        id: 2,
+        command: 'tsc --watch',
+        status: 'exited',
+        getExitCode: () => 2,
+        peekOutput: () => '',
+      }),
+    ]);
+
+    expect(await jobsCommand.action!(context, '')).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: [
+        'Background jobs (1 running):',
+        '  [1] npm run dev',
+        '      running for 1m 5s, PID 4242',
+        '      > Listening on 3000',
+        '  [2] tsc --watch',
+        '      exited with code 2, PID 4242',
+        '',
+        'Show the output of a job with /jobs output <id>, or stop it with /jobs kill <id>.',
+      ].join('\n'),
+    });
+  });
+
+  it('should show the output of a job', async () => {
+    vi.mocked(ShellExecutionService.getBackgroundJob).mockReturnValue(
+      createJob(),
+    );
+
+    const result = await subCommand('output').action!(context, '1');
+
+    expect(ShellExecutionService.getBackgroundJob).toHaveBeenCalledWith(1);
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: expect.stringContaining('starting\nListening on 3000'),
+    });
+  });
+
+  it('should kill a running job', async () => {
+    const job = createJob();
+    vi.mocked(ShellExecutionService.getBackgroundJob).mockReturnValue(job);
+
+    const result = await subCommand('kill').action!(context, '1');
+
+    expect(job.kill).toHaveBeenCalledOnce();
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'Killed job 1: npm run dev',
+    });
+  });
+
+  it('should return an error for an unknown job', async () => {
+    vi.mocked(ShellExecutionService.getBackgroundJob).mockReturnValue(
+      undefined,
+    );
+
+    expect(await subCommand('kill').action!(context, '7')).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'There is no background job 7. List the jobs with /jobs.',
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  getErrorMessage,
+  ShellExecutionService,
+  type BackgroundShellJob,
+} from '@google/gemini-cli-core';
+import { formatDuration } from '../utils/formatters.js';
+import {
+  type MessageActionReturn,
+  type SlashCommand,
+  CommandKind,
+} from './types.js';
+
+// How much of a job's output `/jobs output` shows.
+const MAX_OUTPUT_LINES = 40;
+
+function error(content: string): MessageActionReturn {
+  return { type: 'message', messageType: 'error', content };
+}
+
+function describeStatus(job: BackgroundShellJob): string {
+  if (job.status === 'running') {
+    return `running for ${formatDuration(Date.now() - job.startTime.getTime())}`;
+  }
+  const signal = job.getExitSignal();
+  return signal !== null
+    ? `killed by signal ${signal}`
+    : `exited with code ${job.getExitCode() ?? '(none)'}`;
+}
+
+function findJob(args: string): BackgroundShellJob | MessageActionReturn {
+  const id = Number(args.trim());
+  const job = Number.isInteger(id)
+    ? ShellExecutionService.getBackgroundJob(id)
+    : undefined;
+  if (!job) {
+    return error(
+      args.trim()
+        ? `There is no background job ${args.trim()}. List the jobs with /jobs.`
+        : 'Missing the job ID. List the jobs with /jobs.',
+    );
+  }
+  return job;
+}
+
+const completeJobIds = async (_context: unknown, partialArg: string) =>
+  ShellExecutionService.getBackgroundJobs()
+    .map((job) => String(job.id))
+    .filter((id) => id.startsWith(partialArg));
+
+const outputCommand: SlashCommand = {
+  name: 'output',
+  description:
+    'Show the latest output of a background job. Usage: /jobs output <id>',
+  kind: CommandKind.BUILT_IN,
+  completion: completeJobIds,
+  action: async (_context, args): Promise<MessageActionReturn> => {
+    const job = findJob(args);
+    if ('type' in job) {
+      return job;
+    }
+    const output = job.getScreenText().split('\n').slice(-MAX_OUTPUT_LINES);
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: [
+        `Job ${job.id} (${describeStatus(job)}): ${job.command}`,
+        ...(output.join('').trim() ? output : ['(no output)']),
+      ].join('\n'),
+    };
+  },
+};
+
+const killCommand: SlashCommand = {
+  name: 'kill',
+  description: 'Kill a background job. Usage: /jobs kill <id>',
+  kind: CommandKind.BUILT_IN,
+  completion: completeJobIds,
+  action: async (_context, args): Promise<MessageActionReturn> => {
+    const job = findJob(args);
+    if ('type' in job) {
+      return job;
+    }
+    if (job.status !== 'running') {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: `Job ${job.id} already ${describeStatus(job)}.`,
+      };
+    }
+    try {
+      await job.kill();
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: `Killed job ${job.id}: ${job.command}`,
+      };
+    } catch (err) {
+      return error(`Could not kill job ${job.id}: ${getErrorMessage(err)}`);
+    }
+  },
+};
+
+export const jobsCommand: SlashCommand = {
+  name: 'jobs',
+  description:
+    'List the background jobs started by shell commands. Usage: /jobs [output|kill] <id>',
+  kind: CommandKind.BUILT_IN,
+  subCommands: [outputCommand, killCommand],
+  action: async (): Promise<MessageActionReturn> => {
+    const jobs = ShellExecutionService.getBackgroundJobs();
+    if (jobs.length === 0) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: 'No background jobs were started in this session.',
+      };
+    }
+    const running = jobs.filter((job) => job.status === 'running');
+    const lines = [
+      `Background jobs (${running.length} running):`,
+      ...jobs.flatMap((job) => {
+        const lastLine = job.peekOutput(1);
+        return [
+          `  [${job.id}] ${job.command}`,
+          `      ${describeStatus(job)}${job.pid ? `, PID ${job.pid}` : ''}`,
+          ...(lastLine ? [`      > ${lastLine}`] : []),
+        ];
+      }),
+      '',
+      'Show the output of a job with /jobs output <id>, or stop it with /jobs kill <id>.',
+    ];
+    return { type: 'message', messageType: 'info', content: lines.join('\n') };
+  },
+};
@@ -5,6 +5,7 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
+import { PolicyDecision, PolicyEngine } from '@google/gemini-cli-core';
 import { permissionsCommand } from './permissionsCommand.js';
 import { type CommandContext, CommandKind } from './types.js';
 import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
@@ -18,7 +19,9 @@ describe('permissionsCommand', () => {
 
   it('should have the correct name and description', () => {
     expect(permissionsCommand.name).toBe('permissions');
-    expect(permissionsCommand.description).toBe('Manage folder trust settings');
+    expect(permissionsCommand.description).toBe(
+      'Manage folder trust settings and "always allow" grants',
+    );
   });
 
   it('should be a built-in command', () => {
@@ -32,4 +35,102 @@ describe('permissionsCommand', () => {
       dialog: 'permissions',
     });
   });
+
+  describe('grants', () => {
+    let policyEngine: PolicyEngine;
+
+    const grantsCommand = permissionsCommand.subCommands!.find(
+      (command) => command.name === 'grants',
+    )!;
+    const revokeCommand = grantsCommand.subCommands!.find(
+      (command) => command.name === 'revoke',
+    )!;
+
+    beforeEach(() => {
+      policyEngine = new PolicyEngine();
+      mockContext = createMockCommandContext({
+        services: {
+          config: {
+            getPolicyEngine: () => policyEngine,
+            getFolderTrust: () => false,
+          },
+        },
+      });
+    });
+
+    it('should say when there are no grants', () => {
+      expect(grantsCommand.action!(mockContext, '')).toEqual({
+        type: 'message',
+        messageType: 'info',
+        content:
+          'No active grants. Answering "always allow" to a tool confirmation grants calls to that tool.',
+      });
+    });
+
+    it('should list the grants with their limits', () => {
+      policyEngine.addGrant(
+        { toolName: 'web_fetch', decision: PolicyDecision.ALLOW },
+        { maxUses: 2 },
+      );
+      policyEngine.addGrant(
+        {
+          toolName: 'write_file',
+          agentName: 'code-fixer',
+          decision: PolicyDecision.ALLOW,
+        },
+        { scope: 'agent-run' },
+      );
+
+      expect(grantsCommand.action!(mockContext, '')).toEqual({
+        type: 'message',
+        messageType: 'info',
+        content: [
+          'Active grants (2):',
+          '  1. web_fetch, 2 uses left, for the session',
+          '  2. write_file (agent: code-fixer), until the agent run ends',
+          'Revoke one with /permissions grants revoke <number>.',
+        ].join('\n'),
+      });
+    });
+
+    it('should list the grants when folder trust is disabled', () => {
+      expect(permissionsCommand.action!(mockContext, '')).toEqual(
+        expect.objectContaining({ type: 'message' }),
+      );
+    });
+
+    it('should revoke a grant by its number', () => {
+      policyEngine.addGrant({
+        toolName: 'web_fetch',
+        decision: PolicyDecision.ALLOW,
+      });
+
+      expect(revokeCommand.action!(mockContext, '1')).toEqual({
+        type: 'message',
+        messageType: 'info',
+        content: 'Revoked the grant for web_fetch, for the session.',
+      });
+      expect(policyEngine.getGrants()).toHaveLength(0);
+    });
+
+    it('should revoke all grants', () => {
+      policyEngine.addGrant({ toolName: 'a', decision: PolicyDecision.ALLOW });
+      policyEngine.addGrant({ toolName: 'b', decision: PolicyDecision.ALLOW });
+
+      expect(revokeCommand.action!(mockContext, 'all')).toEqual(
+        expect.objectContaining({ content: 'Revoked 2 grants.' }),
+      );
+      expect(policyEngine.getGrants()).toHaveLength(0);
+    });
+
+    it('should reject unknown grant numbers', () => {
+      policyEngine.addGrant({ toolName: 'a', decision: PolicyDecision.ALLOW });
+
+      expect(revokeCommand.action!(mockContext, '3')).toEqual({
+        type: 'message',
+        messageType: 'error',
+        content: 'Usage: /permissions grants revoke <1-1|all>',
+      });
+    });
+  });
 });
@@ -4,15 +4,142 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { OpenDialogActionReturn, SlashCommand } from './types.js';
+import type {
+  PolicyGrant,
+  PolicyGrantScope,
+  PolicyRule,
+} from '@google/gemini-cli-core';
+import type {
+  CommandContext,
+  MessageActionReturn,
+  OpenDialogActionReturn,
+  SlashCommand,
+} from './types.js';
 import { CommandKind } from './types.js';
 
+const SCOPE_LABELS: Record<PolicyGrantScope, string> = {
+  session: 'for the session',
+  prompt: 'until the next prompt',
+  'agent-run': 'until the agent run ends',
+};
+
+/** Describes a grant, e.g. `web_fetch (agent: researcher), 2 uses left, for the session`. */
+function formatGrant(rule: PolicyRule, grant: PolicyGrant): string {
+  const agent = rule.agentName ? ` (agent: ${rule.agentName})` : '';
+  const limits = [
+    ...(grant.usesLeft !== undefined
+      ? [`${grant.usesLeft} ${grant.usesLeft === 1 ? 'use' : 'uses'} left`]
+      : []),
+    ...(grant.expiresAt !== undefined
+      ? [`expires at ${new Date(grant.expiresAt).toLocaleTimeString()}`]
+      : []),
+    SCOPE_LABELS[grant.scope],
+  ];
+  return `${rule.toolName ?? 'any tool'}${agent}, ${limits.join(', ')}`;
+}
+
+const revokeCommand: SlashCommand = {
+  name: 'revoke',
+  description:
+    'Revoke an "always allow" grant by its number in /permissions grants. Usage: /permissions grants revoke <number|all>',
+  kind: CommandKind.BUILT_IN,
+  action: (context: CommandContext, args: string): MessageActionReturn => {
+    const config = context.services.config;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Configuration not available.',
+      };
+    }
+    const policyEngine = config.getPolicyEngine();
+    const grants = policyEngine.getGrants();
+    const target = args.trim();
+
+    if (target === 'all') {
+      grants.forEach((rule) => policyEngine.revokeGrant(rule.grant!.id));
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: `Revoked ${grants.length} ${grants.length === 1 ? 'grant' : 'grants'}.`,
+      };
+    }
+
+    const rule = /^\d+$/.test(target) ? grants[Number(target) - 1] : undefined;
+    if (!rule) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content:
+          grants.length === 0
+            ? 'There are no active grants to revoke.'
+            : `Usage: /permissions grants revoke <1-${grants.length}|all>`,
+      };
+    }
+    policyEngine.revokeGrant(rule.grant!.id);
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Revoked the grant for ${formatGrant(rule, rule.grant!)}.`,
+    };
+  },
+};
+
+function listGrants(context: CommandContext): MessageActionReturn {
+  const config = context.services.config;
+  if (!config) {
+    return {
+      type: 'message',
+      messageType: 'error',
+      content: 'Configuration not available.',
+    };
+  }
+  const grants = config.getPolicyEngine().getGrants();
+  if (grants.length === 0) {
+    return {
+      type: 'message',
+      messageType: 'info',
+      content:
+        'No active grants. Answering "always allow" to a tool confirmation grants calls to that tool.',
+    };
+  }
+  return {
+    type: 'message',
+    messageType: 'info',
+    content: [
+      `Active grants (${grants.length}):`,
+      ...grants.map(
+        (rule, index) => `  ${index + 1}. ${formatGrant(rule, rule.grant!)}`,
+      ),
+      'Revoke one with /permissions grants revoke <number>.',
+    ].join('\n'),
+  };
+}
+
+const grantsCommand: SlashCommand = {
+  name: 'grants',
+  description:
+    'List the active "always allow" grants. Usage: /permissions grants [revoke <number|all>]',
+  kind: CommandKind.BUILT_IN,
+  subCommands: [revokeCommand],
+  action: (context: CommandContext): MessageActionReturn => listGrants(context),
+};
+
 export const permissionsCommand: SlashCommand = {
   name: 'permissions',
-  description: 'Manage folder trust settings',
+  description: 'Manage folder trust settings and "always allow" grants',
   kind: CommandKind.BUILT_IN,
-  action: (): OpenDialogActionReturn => ({
-    type: 'dialog',
-    dialog: 'permissions',
-  }),
+  subCommands: [grantsCommand],
+  action: (
+    context: CommandContext,
+  ): OpenDialogActionReturn | MessageActionReturn => {
+    if (context.services.config?.getFolderTrust() === false) {
+      // Without folder trust there is nothing but the grants to manage.
+      return listGrants(context);
+    }
+    return {
+      type: 'dialog',
+      dialog: 'permissions',
+    };
+  },
 };
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import {
+  initializeShellParsers,
+  PolicyDecision,
+  PolicyEngine,
+} from '@google/gemini-cli-core';
+import { policiesCommand } from './policiesCommand.js';
+import type { CommandContext, SlashCommand } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+describe('policiesCommand', () => {
+  let engine: PolicyEngine;
+  let context: CommandContext;
+
+  beforeAll(async () => {
+    await initializeShellParsers();
+  });
+
+  beforeEach(() => {
+    engine = new PolicyEngine({
+      rootDirectory: '/work/project',
+      rules: [
+        {
+          toolName: 'run_shell_command',
+          conditions: { commandPrefixes: ['git status'] },
+          decision: PolicyDecision.ALLOW,
+          priority: 300,
+          scope: 'workspace',
+          source: '/work/project/.gemini/policies/git.toml (rule 1)',
+          description: 'Read-only git',
+        },
+        { toolName: 'ls', decision: PolicyDecision.ALLOW, priority: 50 },
+      ],
+    });
+    context = createMockCommandContext({
+      services: {
+        config: {
+          getPolicyEngine: () => engine,
+          getEnableMessageBusIntegration: () => true,
+        },
+      },
+    });
+  });
+
+  it('should show the rule that decided each recent call', async () => {
+    engine.check({
+      name: 'run_shell_command',
+      args: { command: 'git status' },
+    });
+    engine.check({ name: 'write_file' }, 'code-fixer');
+
+    const result = await policiesCommand.action!(context, '');
+
+    expect(result).toMatchObject({ type: 'message', messageType: 'info' });
+    const content = (result as { content: string }).content;
+    expect(content).toContain('Recent policy decisions (2), oldest first:');
+    expect(content).toContain(
+      'run_shell_command: allow\n      allow run_shell_command (commands: git status), priority 300, from /work/project/.gemini/policies/git.toml (rule 1) - Read-only git',
+    );
+    expect(content).toContain(
+      'write_file by code-fixer: ask_user\n      no rule matched, the default decision applied',
+    );
+  });
+
+  it('should say when no calls have been checked', async () => {
+    const result = await policiesCommand.action!(context, '');
+
+    expect((result as { content: string }).content).toBe(
+      'No tool calls have been checked against the policies yet. List the rules with /policies rules.',
+    );
+  });
+
+  it('should list the rules in effect', async () => {
+    const rulesCommand = policiesCommand.subCommands?.find(
+      (command) => command.name === 'rules',
+    ) as SlashCommand;
+
+    const result = await rulesCommand.action!(context, '');
+
+    expect((result as { content: string }).content).toBe(
+      [
+        'Policy rules (2):',
+        '  allow run_shell_command (commands: git status), priority 300, from /work/project/.gemini/policies/git.toml (rule 1) - Read-only git',
+        '  allow ls, priority 50, from settings',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  PolicyCheckRecord,
+  PolicyConditions,
+  PolicyRule,
+} from '@google/gemini-cli-core';
+import {
+  type CommandContext,
+  type MessageActionReturn,
+  type SlashCommand,
+  CommandKind,
+} from './types.js';
+
+const CONDITION_LABELS: Record<keyof PolicyConditions, string> = {
+  pathGlobs: 'paths',
+  commandPrefixes: 'commands',
+  commandRoots: 'programs',
+  urlHosts: 'hosts',
+  mcpServers: 'MCP servers',
+};
+
+/** Describes what a rule matches, e.g. `run_shell_command (commands: git status)`. */
+function formatMatch(rule: PolicyRule): string {
+  const filters = [
+    ...(Object.keys(CONDITION_LABELS) as Array<keyof PolicyConditions>)
+      .filter((key) => rule.conditions?.[key])
+      .map(
+        (key) =>
+          `${CONDITION_LABELS[key]}: ${rule.conditions![key]!.join(', ')}`,
+      ),
+    ...(rule.argsPattern ? [`args: /${rule.argsPattern.source}/`] : []),
+    ...(rule.agentName ? [`agent: ${rule.agentName}`] : []),
+  ];
+  const tool = rule.toolName ?? 'any tool';
+  return filters.length > 0 ? `${tool} (${filters.join('; ')})` : tool;
+}
+
+function formatRule(rule: PolicyRule): string {
+  const origin = rule.source ?? 'settings';
+  const description = rule.description ? ` - ${rule.description}` : '';
+  return `${rule.decision} ${formatMatch(rule)}, priority ${rule.priority ?? 0}, from ${origin}${description}`;
+}
+
+function formatCheck(check: PolicyCheckRecord): string {
+  const time = new Date(check.timestamp).toLocaleTimeString();
+  const agent = check.agentName ? ` by ${check.agentName}` : '';
+  const decidedBy = check.rule
+    ? formatRule(check.rule)
+    : 'no rule matched, the default decision applied';
+  return `  ${time}  ${check.toolName}${agent}: ${check.decision}\n      ${decidedBy}`;
+}
+
+const rulesCommand: SlashCommand = {
+  name: 'rules',
+  description: 'List the policy rules in effect, highest priority first',
+  kind: CommandKind.BUILT_IN,
+  action: async (context: CommandContext): Promise<MessageActionReturn> => {
+    const config = context.services.config;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Configuration not available.',
+      };
+    }
+    const rules = config.getPolicyEngine().getRules();
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: [
+        `Policy rules (${rules.length}):`,
+        ...rules.map((rule) => `  ${formatRule(rule)}`),
+      ].join('\n'),
+    };
+  },
+};
+
+export const policiesCommand: SlashCommand = {
+  name: 'policies',
+  description:
+    'Show which policy rule decided each recent tool call. Usage: /policies [rules]',
+  kind: CommandKind.BUILT_IN,
+  subCommands: [rulesCommand],
+  action: async (context: CommandContext): Promise<MessageActionReturn> => {
+    const config = context.services.config;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Configuration not available.',
+      };
+    }
+    const checks = config.getPolicyEngine().getRecentChecks();
+    if (checks.length === 0) {
+      const hint = config.getEnableMessageBusIntegration()
+        ? 'List the rules with /policies rules.'
+        : 'Policies decide tool calls only when tools.enableMessageBusIntegration is enabled.';
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: `No tool calls have been checked against the policies yet. ${hint}`,
+      };
+    }
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: [
+        `Recent policy decisions (${checks.length}), oldest first:`,
+        ...checks.map(formatCheck),
+      ].join('\n'),
+    };
+  },
+};
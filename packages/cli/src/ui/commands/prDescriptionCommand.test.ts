@@ -0,0 +1,107 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import {
+  generatePullRequestDescription,
+  RepositoryService,
+  type Config,
+} from '@google/gemini-cli-core';
+import { prDescriptionCommand } from './prDescriptionCommand.js';
+import type { CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/gemini-cli-core')>()),
+  RepositoryService: vi.fn(),
+  generatePullRequestDescription: vi.fn(),
+}));
+
+describe('prDescriptionCommand', () => {
+  let repository: {
+    isRepository: ReturnType<typeof vi.fn>;
+    getDefaultBranch: ReturnType<typeof vi.fn>;
+    getBranchDiff: ReturnType<typeof vi.fn>;
+    getBranchCommitMessages: ReturnType<typeof vi.fn>;
+    findPullRequestTemplate: ReturnType<typeof vi.fn>;
+  };
+  let context: CommandContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    repository = {
+      isRepository: vi.fn().mockResolvedValue(true),
+      getDefaultBranch: vi.fn().mockResolvedValue('main'),
+      getBranchDiff: vi.fn().mockResolvedValue('diff --git a/a.ts b/a.ts'),
+      getBranchCommitMessages: vi.fn().mockResolvedValue(['Add a']),
+      findPullRequestTemplate: vi.fn().mockResolvedValue({
+        path: '.github/pull_request_template.md',
+        content: '## Summary',
+      }),
+    };
+    vi.mocked(RepositoryService).mockImplementation(
+      () => repository as unknown as RepositoryService,
+    );
+    vi.mocked(generatePullRequestDescription).mockResolvedValue(
+      '## Summary\nAdds a.',
+    );
+    context = createMockCommandContext({
+      services: {
+        config: {
+          getTargetDir: () => '/project',
+          getGeminiClient: () => ({}),
+        } as unknown as Config,
+      },
+    });
+  });
+
+  it('should describe the branch with the template of the repository', async () => {
+    const result = await prDescriptionCommand.action!(context, '');
+
+    expect(repository.getBranchDiff).toHaveBeenCalledWith('main');
+    expect(generatePullRequestDescription).toHaveBeenCalledWith(
+      {
+        diff: 'diff --git a/a.ts b/a.ts',
+        commitMessages: ['Add a'],
+        template: '## Summary',
+      },
+      {},
+      expect.any(AbortSignal),
+    );
+    expect(context.ui.addItem).toHaveBeenCalledWith(
+      {
+        type: 'info',
+        text: 'Describing the changes since main with the template in .github/pull_request_template.md...',
+      },
+      expect.any(Number),
+    );
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: '## Summary\nAdds a.',
+    });
+  });
+
+  it('should compare against the given base branch', async () => {
+    await prDescriptionCommand.action!(context, 'develop');
+
+    expect(repository.getDefaultBranch).not.toHaveBeenCalled();
+    expect(repository.getBranchDiff).toHaveBeenCalledWith('develop');
+  });
+
+  it('should return an error when the branch has no changes', async () => {
+    repository.getBranchDiff.mockResolvedValue('');
+
+    const result = await prDescriptionCommand.action!(context, '');
+
+    expect(generatePullRequestDescription).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: 'The current branch has no changes compared to main.',
+    });
+  });
+});
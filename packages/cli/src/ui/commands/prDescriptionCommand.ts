@@ -0,0 +1,70 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  generatePullRequestDescription,
+  getErrorMessage,
+  RepositoryService,
+} from '@google/gemini-cli-core';
+import { MessageType } from '../types.js';
+import {
+  type MessageActionReturn,
+  type SlashCommand,
+  CommandKind,
+} from './types.js';
+
+function error(content: string): MessageActionReturn {
+  return { type: 'message', messageType: 'error', content };
+}
+
+export const prDescriptionCommand: SlashCommand = {
+  name: 'pr-description',
+  description:
+    'Write a pull request description for the current branch. Usage: /pr-description [base-branch]',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const { config } = context.services;
+    if (!config) {
+      return error('Config not loaded.');
+    }
+
+    const repository = new RepositoryService(config.getTargetDir());
+    try {
+      if (!(await repository.isRepository())) {
+        return error('The project is not in a git repository.');
+      }
+      const base = args.trim() || (await repository.getDefaultBranch());
+      const [diff, commitMessages, template] = await Promise.all([
+        repository.getBranchDiff(base),
+        repository.getBranchCommitMessages(base),
+        repository.findPullRequestTemplate(),
+      ]);
+      if (!diff.trim()) {
+        return error(`The current branch has no changes compared to ${base}.`);
+      }
+
+      context.ui.addItem(
+        {
+          type: MessageType.INFO,
+          text: template
+            ? `Describing the changes since ${base} with the template in ${template.path}...`
+            : `Describing the changes since ${base}...`,
+        },
+        Date.now(),
+      );
+      const description = await generatePullRequestDescription(
+        { diff, commitMessages, template: template?.content },
+        config.getGeminiClient(),
+        new AbortController().signal,
+      );
+      return { type: 'message', messageType: 'info', content: description };
+    } catch (err) {
+      return error(
+        `Could not write the pull request description: ${getErrorMessage(err)}`,
+      );
+    }
+  },
+};
@@ -39,10 +39,12 @@ describe('restoreCommand', () => {
     mockSetHistory = vi.fn().mockResolvedValue(undefined);
     mockGitService = {
       restoreProjectFromSnapshot: vi.fn().mockResolvedValue(undefined),
+      getSnapshotRestoreChanges: vi.fn().mockResolvedValue([]),
     } as unknown as GitService;
 
     mockConfig = {
       getCheckpointingEnabled: vi.fn().mockReturnValue(true),
+      getProjectRoot: vi.fn().mockReturnValue(testRootDir),
       storage: {
         getProjectTempCheckpointsDir: vi.fn().mockReturnValue(checkpointsDir),
         getProjectTempDir: vi.fn().mockReturnValue(geminiTempDir),
@@ -187,6 +189,49 @@ describe('restoreCommand', () => {
       );
     });
 
+    it('should ask before changing files, including files written by tool calls', async () => {
+      // new-file.ts was written by the tool call, then edited by the user.
+      vi.mocked(mockGitService.getSnapshotRestoreChanges).mockResolvedValue([
+        { filePath: 'notes.txt', action: 'delete' },
+        { filePath: 'README.md', action: 'overwrite' },
+        { filePath: 'new-file.ts', action: 'delete' },
+      ]);
+      await fs.writeFile(
+        path.join(checkpointsDir, 'my-checkpoint.json'),
+        JSON.stringify({
+          commitHash: 'abcdef123',
+          toolCall: { name: 'write_file', args: {} },
+          filePath: path.join(testRootDir, 'new-file.ts'),
+        }),
+      );
+      const command = restoreCommand(mockConfig);
+
+      expect(await command?.action?.(mockContext, 'my-checkpoint')).toEqual({
+        type: 'confirm_action',
+        prompt: expect.objectContaining({
+          props: expect.objectContaining({
+            children:
+              'Restoring will change these files, which were created or changed after the checkpoint:\n  delete notes.txt\n  overwrite README.md\n  delete new-file.ts\nDo you want to continue?',
+          }),
+        }),
+        originalInvocation: { raw: '/restore my-checkpoint' },
+      });
+      expect(mockGitService.getSnapshotRestoreChanges).toHaveBeenCalledWith(
+        'abcdef123',
+      );
+      expect(mockGitService.restoreProjectFromSnapshot).not.toHaveBeenCalled();
+
+      mockContext.overwriteConfirmed = true;
+      expect(await command?.action?.(mockContext, 'my-checkpoint')).toEqual({
+        type: 'tool',
+        toolName: 'write_file',
+        toolArgs: {},
+      });
+      expect(mockGitService.restoreProjectFromSnapshot).toHaveBeenCalledWith(
+        'abcdef123',
+      );
+    });
+
     it('should restore even if only toolCall is present', async () => {
       const toolCallData = {
         toolCall: { name: 'run_shell_command', args: 'ls' },
@@ -6,6 +6,8 @@
 
 import * as fs from 'node:fs/promises';
 import path from 'node:path';
+import React from 'react';
+import { Text } from 'ink';
 import {
   type CommandContext,
   type SlashCommand,
@@ -76,6 +78,27 @@ async function restoreAction(
     const data = await fs.readFile(filePath, 'utf-8');
     const toolCallData = JSON.parse(data);
 
+    if (toolCallData.commitHash && gitService && !context.overwriteConfirmed) {
+      // Files written by tool calls may have been edited by the user since,
+      // so every file the restore would delete or overwrite is confirmed.
+      const changes = await gitService.getSnapshotRestoreChanges(
+        toolCallData.commitHash,
+      );
+      if (changes.length > 0) {
+        return {
+          type: 'confirm_action',
+          prompt: React.createElement(
+            Text,
+            null,
+            `Restoring will change these files, which were created or changed after the checkpoint:\n${changes.map((change) => `  ${change.action} ${change.filePath}`).join('\n')}\nDo you want to continue?`,
+          ),
+          originalInvocation: {
+            raw: context.invocation?.raw || `/restore ${args}`,
+          },
+        };
+      }
+    }
+
     if (toolCallData.history) {
       if (!loadHistory) {
         // This should not happen
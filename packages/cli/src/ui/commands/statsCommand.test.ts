@@ -75,4 +75,20 @@ describe('statsCommand', () => {
       expect.any(Number),
     );
   });
+
+  it('should display routing stats when using the "routing" subcommand', () => {
+    const routingSubCommand = statsCommand.subCommands?.find(
+      (sc) => sc.name === 'routing',
+    );
+    if (!routingSubCommand?.action) throw new Error('Subcommand has no action');
+
+    routingSubCommand.action(mockContext, '');
+
+    expect(mockContext.ui.addItem).toHaveBeenCalledWith(
+      {
+        type: MessageType.ROUTING_STATS,
+      },
+      expect.any(Number),
+    );
+  });
 });
@@ -16,7 +16,7 @@ import {
 export const statsCommand: SlashCommand = {
   name: 'stats',
   altNames: ['usage'],
-  description: 'Check session stats. Usage: /stats [model|tools]',
+  description: 'Check session stats. Usage: /stats [model|tools|routing]',
   kind: CommandKind.BUILT_IN,
   action: (context: CommandContext) => {
     const now = new Date();
@@ -67,5 +67,18 @@ export const statsCommand: SlashCommand = {
         );
       },
     },
+    {
+      name: 'routing',
+      description: 'Show model routing decisions and their latency',
+      kind: CommandKind.BUILT_IN,
+      action: (context: CommandContext) => {
+        context.ui.addItem(
+          {
+            type: MessageType.ROUTING_STATS,
+          },
+          Date.now(),
+        );
+      },
+    },
   ],
 };
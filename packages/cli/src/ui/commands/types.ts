@@ -45,6 +45,10 @@ export interface CommandContext {
     addItem: UseHistoryManagerReturn['addItem'];
     /** Clears all history items and the console screen. */
     clear: () => void;
+    /**
+     * Redraws the history, e.g. after an external editor used the terminal.
+     */
+    refreshStatic: () => void;
     /**
      * Sets the transient debug message displayed in the application footer in debug mode.
      */
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { worktreeCommand } from './worktreeCommand.js';
+import type { CommandContext, SlashCommand } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import type { Config, WorktreeService } from '@google/gemini-cli-core';
+
+describe('worktreeCommand', () => {
+  let worktree: WorktreeService;
+  let mockConfig: Config;
+  let context: CommandContext;
+  let command: SlashCommand;
+
+  const subCommand = (name: string) =>
+    command.subCommands!.find((subCommand) => subCommand.name === name)!;
+
+  beforeEach(() => {
+    worktree = {
+      projectRoot: '/project',
+      worktreeRoot: '/tmp/worktrees/session-1',
+      workingDir: '/tmp/worktrees/session-1',
+      kind: 'git-worktree',
+      isDiscarded: vi.fn().mockReturnValue(false),
+      getChangedFiles: vi.fn().mockResolvedValue([
+        {
+          filePath: 'src/a.ts',
+          header: ['diff --git a/src/a.ts b/src/a.ts'],
+          hunks: [['@@ -1 +1 @@', '-old', '+new']],
+        },
+      ]),
+      hasUnappliedChanges: vi.fn().mockResolvedValue(true),
+      apply: vi.fn(),
+      discard: vi.fn().mockResolvedValue(undefined),
+    } as unknown as WorktreeService;
+    mockConfig = { getWorktree: () => worktree } as unknown as Config;
+    context = createMockCommandContext({ services: { config: mockConfig } });
+    command = worktreeCommand(mockConfig)!;
+  });
+
+  it('should return null if the session does not use a worktree', () => {
+    expect(
+      worktreeCommand({ getWorktree: () => undefined } as unknown as Config),
+    ).toBeNull();
+  });
+
+  it('should describe the worktree', async () => {
+    const result = await command.action!(context, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: [
+        'This session works in /tmp/worktrees/session-1, a git worktree of /project.',
+        '1 file has changed there.',
+        '',
+        'Review the changes with /worktree diff, then /worktree apply or /worktree discard them.',
+      ].join('\n'),
+    });
+  });
+
+  it('should summarize the changed files', async () => {
+    const result = await subCommand('diff').action!(context, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: [
+        'Files changed in the worktree:',
+        '  src/a.ts (+1 -1)',
+        '',
+        'Show the changes to a file with /worktree diff <file>.',
+      ].join('\n'),
+    });
+  });
+
+  it('should show the diff of a file', async () => {
+    const result = await subCommand('diff').action!(context, 'src/a.ts');
+
+    expect(worktree.getChangedFiles).toHaveBeenCalledWith('src/a.ts');
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'diff --git a/src/a.ts b/src/a.ts\n@@ -1 +1 @@\n-old\n+new',
+    });
+  });
+
+  it('should report the files that conflict when applying', async () => {
+    vi.mocked(worktree.apply).mockResolvedValue({
+      appliedFiles: ['b.ts'],
+      conflictedFiles: ['src/a.ts'],
+    });
+
+    const result = await subCommand('apply').action!(context, '');
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content: [
+        'Applied 1 file to /project.',
+        'These files have changes that conflict with the project. The hunks that did not apply were saved next to them in <file>.rej:',
+        '  src/a.ts',
+      ].join('\n'),
+    });
+  });
+
+  it('should ask before discarding unapplied changes', async () => {
+    const result = await subCommand('discard').action!(context, '');
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        type: 'confirm_action',
+        originalInvocation: { raw: '/worktree discard' },
+      }),
+    );
+    expect(worktree.discard).not.toHaveBeenCalled();
+
+    context.overwriteConfirmed = true;
+    expect(await subCommand('discard').action!(context, '')).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content:
+        'Discarded the worktree. Start a new session to keep working on the project.',
+    });
+    expect(worktree.discard).toHaveBeenCalled();
+  });
+
+  it('should refuse to work on a discarded worktree', async () => {
+    vi.mocked(worktree.isDiscarded).mockReturnValue(true);
+
+    expect(await subCommand('apply').action!(context, '')).toEqual({
+      type: 'message',
+      messageType: 'error',
+      content:
+        'The worktree of this session was discarded. Start a new session to keep working.',
+    });
+    expect(worktree.apply).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Text } from 'ink';
+import {
+  type CommandContext,
+  type MessageActionReturn,
+  type SlashCommand,
+  type SlashCommandActionReturn,
+  CommandKind,
+} from './types.js';
+import type { Config, WorktreeService } from '@google/gemini-cli-core';
+import { getErrorMessage } from '@google/gemini-cli-core';
+
+function getWorktree(
+  context: CommandContext,
+): WorktreeService | MessageActionReturn {
+  const worktree = context.services.config?.getWorktree();
+  if (!worktree) {
+    return {
+      type: 'message',
+      messageType: 'error',
+      content:
+        'This session does not use a worktree. Start it with --worktree.',
+    };
+  }
+  if (worktree.isDiscarded()) {
+    return {
+      type: 'message',
+      messageType: 'error',
+      content:
+        'The worktree of this session was discarded. Start a new session to keep working.',
+    };
+  }
+  return worktree;
+}
+
+function error(content: string): MessageActionReturn {
+  return { type: 'message', messageType: 'error', content };
+}
+
+const diffCommand: SlashCommand = {
+  name: 'diff',
+  description:
+    'Show the changes made in the worktree. Usage: /worktree diff [file]',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const worktree = getWorktree(context);
+    if ('type' in worktree) {
+      return worktree;
+    }
+    const filePath = args.trim() || undefined;
+    try {
+      const files = await worktree.getChangedFiles(filePath);
+      if (files.length === 0) {
+        return {
+          type: 'message',
+          messageType: 'info',
+          content: filePath
+            ? `${filePath} has not changed in the worktree.`
+            : 'Nothing has changed in the worktree.',
+        };
+      }
+      if (!filePath) {
+        return {
+          type: 'message',
+          messageType: 'info',
+          content: [
+            'Files changed in the worktree:',
+            ...files.map((file) => {
+              const lines = file.hunks.flat();
+              const added = lines.filter((line) => line.startsWith('+'));
+              const removed = lines.filter((line) => line.startsWith('-'));
+              return `  ${file.filePath} (+${added.length} -${removed.length})`;
+            }),
+            '',
+            'Show the changes to a file with /worktree diff <file>.',
+          ].join('\n'),
+        };
+      }
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: files
+          .flatMap((file) => [...file.header, ...file.hunks.flat()])
+          .join('\n'),
+      };
+    } catch (err) {
+      return error(`Could not show the changes: ${getErrorMessage(err)}`);
+    }
+  },
+};
+
+const applyCommand: SlashCommand = {
+  name: 'apply',
+  description: 'Apply the changes made in the worktree to the project',
+  kind: CommandKind.BUILT_IN,
+  action: async (context): Promise<MessageActionReturn> => {
+    const worktree = getWorktree(context);
+    if ('type' in worktree) {
+      return worktree;
+    }
+    try {
+      const { appliedFiles, conflictedFiles } = await worktree.apply();
+      if (appliedFiles.length === 0 && conflictedFiles.length === 0) {
+        return {
+          type: 'message',
+          messageType: 'info',
+          content: 'Nothing has changed in the worktree.',
+        };
+      }
+      const lines = [
+        `Applied ${appliedFiles.length} file${appliedFiles.length === 1 ? '' : 's'} to ${worktree.projectRoot}.`,
+      ];
+      if (conflictedFiles.length > 0) {
+        lines.push(
+          'These files have changes that conflict with the project. The hunks that did not apply were saved next to them in <file>.rej:',
+          ...conflictedFiles.map((file) => `  ${file}`),
+        );
+      }
+      return {
+        type: 'message',
+        messageType: conflictedFiles.length > 0 ? 'error' : 'info',
+        content: lines.join('\n'),
+      };
+    } catch (err) {
+      return error(getErrorMessage(err));
+    }
+  },
+};
+
+const discardCommand: SlashCommand = {
+  name: 'discard',
+  description: 'Delete the worktree and the changes made in it',
+  kind: CommandKind.BUILT_IN,
+  action: async (context): Promise<SlashCommandActionReturn> => {
+    const worktree = getWorktree(context);
+    if ('type' in worktree) {
+      return worktree;
+    }
+    try {
+      if (
+        !context.overwriteConfirmed &&
+        (await worktree.hasUnappliedChanges())
+      ) {
+        return {
+          type: 'confirm_action',
+          prompt: React.createElement(
+            Text,
+            null,
+            'The worktree has changes that were not applied to the project. Do you want to discard them?',
+          ),
+          originalInvocation: {
+            raw: context.invocation?.raw || '/worktree discard',
+          },
+        };
+      }
+      await worktree.discard();
+      return {
+        type: 'message',
+        messageType: 'info',
+        content:
+          'Discarded the worktree. Start a new session to keep working on the project.',
+      };
+    } catch (err) {
+      return error(`Could not discard the worktree: ${getErrorMessage(err)}`);
+    }
+  },
+};
+
+export const worktreeCommand = (config: Config | null): SlashCommand | null => {
+  if (!config?.getWorktree()) {
+    return null;
+  }
+
+  return {
+    name: 'worktree',
+    description:
+      'Review the worktree this session works in. Usage: /worktree [diff|apply|discard]',
+    kind: CommandKind.BUILT_IN,
+    subCommands: [diffCommand, applyCommand, discardCommand],
+    action: async (context): Promise<MessageActionReturn> => {
+      const worktree = getWorktree(context);
+      if ('type' in worktree) {
+        return worktree;
+      }
+      try {
+        const files = await worktree.getChangedFiles();
+        const source =
+          worktree.kind === 'git-worktree'
+            ? `a git worktree of ${worktree.projectRoot}`
+            : `a copy of ${worktree.projectRoot}`;
+        return {
+          type: 'message',
+          messageType: 'info',
+          content: [
+            `This session works in ${worktree.workingDir}, ${source}.`,
+            `${files.length} file${files.length === 1 ? ' has' : 's have'} changed there.`,
+            '',
+            'Review the changes with /worktree diff, then /worktree apply or /worktree discard them.',
+          ].join('\n'),
+        };
+      } catch (err) {
+        return error(getErrorMessage(err));
+      }
+    },
+  };
+};
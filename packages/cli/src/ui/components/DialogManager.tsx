@@ -9,6 +9,7 @@ import { IdeIntegrationNudge } from '../IdeIntegrationNudge.js';
 import { LoopDetectionConfirmation } from './LoopDetectionConfirmation.js';
 import { FolderTrustDialog } from './FolderTrustDialog.js';
 import { ShellConfirmationDialog } from './ShellConfirmationDialog.js';
+import { SubagentToolConfirmationDialog } from './SubagentToolConfirmationDialog.js';
 import { ConsentPrompt } from './ConsentPrompt.js';
 import { ThemeDialog } from './ThemeDialog.js';
 import { SettingsDialog } from './SettingsDialog.js';
@@ -79,6 +80,18 @@ export const DialogManager = ({
       <ShellConfirmationDialog request={uiState.shellConfirmationRequest} />
     );
   }
+  if (uiState.subagentConfirmationRequest) {
+    return (
+      <SubagentToolConfirmationDialog
+        request={uiState.subagentConfirmationRequest}
+        config={config}
+        availableTerminalHeight={
+          constrainHeight ? terminalHeight - staticExtraHeight : undefined
+        }
+        terminalWidth={mainAreaWidth}
+      />
+    );
+  }
   if (uiState.loopDetectionConfirmationRequest) {
     return (
       <LoopDetectionConfirmation
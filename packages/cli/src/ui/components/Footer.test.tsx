@@ -57,6 +57,12 @@ const mockSessionStats: SessionStatsState = {
       totalLinesAdded: 0,
       totalLinesRemoved: 0,
     },
+    routing: {
+      totalDecisions: 0,
+      totalFailures: 0,
+      totalLatencyMs: 0,
+      bySource: {},
+    },
   },
 };
 
@@ -15,6 +15,7 @@ import { MemoryUsageDisplay } from './MemoryUsageDisplay.js';
 import { ContextUsageDisplay } from './ContextUsageDisplay.js';
 import { DebugProfiler } from './DebugProfiler.js';
 import { isDevelopment } from '../../utils/installationInfo.js';
+import { usePolicyGrants } from '../hooks/usePolicyGrants.js';
 
 import { useUIState } from '../contexts/UIStateContext.js';
 import { useConfig } from '../contexts/ConfigContext.js';
@@ -26,6 +27,7 @@ export const Footer: React.FC = () => {
   const config = useConfig();
   const settings = useSettings();
   const { vimEnabled, vimMode } = useVimMode();
+  const grantCount = usePolicyGrants(config).length;
 
   const {
     model,
@@ -168,6 +170,14 @@ export const Footer: React.FC = () => {
                 </Text>
               </Box>
             )}
+            {grantCount > 0 && (
+              <Box paddingLeft={1} flexDirection="row">
+                <Text color={theme.ui.comment}>| </Text>
+                <Text color={theme.status.warning}>
+                  {grantCount} {grantCount === 1 ? 'grant' : 'grants'}
+                </Text>
+              </Box>
+            )}
             {!showErrorDetails && errorCount > 0 && (
               <Box paddingLeft={1} flexDirection="row">
                 <Text color={theme.ui.comment}>| </Text>
@@ -73,6 +73,12 @@ describe('<ModelStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     });
 
     expect(lastFrame()).toContain(
@@ -113,6 +119,12 @@ describe('<ModelStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     });
 
     const output = lastFrame();
@@ -165,6 +177,12 @@ describe('<ModelStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     });
 
     const output = lastFrame();
@@ -217,6 +235,12 @@ describe('<ModelStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     });
 
     const output = lastFrame();
@@ -261,6 +285,12 @@ describe('<ModelStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     });
 
     expect(lastFrame()).toMatchSnapshot();
@@ -298,6 +328,12 @@ describe('<ModelStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     });
 
     const output = lastFrame();
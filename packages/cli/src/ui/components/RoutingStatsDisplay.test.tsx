@@ -0,0 +1,103 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { render } from 'ink-testing-library';
+import { describe, it, expect, vi } from 'vitest';
+import { RoutingStatsDisplay } from './RoutingStatsDisplay.js';
+import * as SessionContext from '../contexts/SessionContext.js';
+import type { SessionMetrics } from '../contexts/SessionContext.js';
+import { ToolCallDecision } from '@google/gemini-cli-core';
+
+vi.mock('../contexts/SessionContext.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof SessionContext>();
+  return {
+    ...actual,
+    useSessionStats: vi.fn(),
+  };
+});
+
+const useSessionStatsMock = vi.mocked(SessionContext.useSessionStats);
+
+const renderWithRouting = (routing: SessionMetrics['routing']) => {
+  useSessionStatsMock.mockReturnValue({
+    stats: {
+      sessionId: 'test-session-id',
+      sessionStartTime: new Date(),
+      metrics: {
+        models: {},
+        tools: {
+          totalCalls: 0,
+          totalSuccess: 0,
+          totalFail: 0,
+          totalDurationMs: 0,
+          totalDecisions: {
+            accept: 0,
+            reject: 0,
+            modify: 0,
+            [ToolCallDecision.AUTO_ACCEPT]: 0,
+          },
+          byName: {},
+        },
+        files: {
+          totalLinesAdded: 0,
+          totalLinesRemoved: 0,
+        },
+        routing,
+      },
+      lastPromptTokenCount: 0,
+      promptCount: 5,
+    },
+
+    getPromptCount: () => 5,
+    startNewPrompt: vi.fn(),
+  });
+
+  return render(<RoutingStatsDisplay />);
+};
+
+describe('<RoutingStatsDisplay />', () => {
+  it('should render a message when no routing decisions were made', () => {
+    const { lastFrame } = renderWithRouting({
+      totalDecisions: 0,
+      totalFailures: 0,
+      totalLatencyMs: 0,
+      bySource: {},
+    });
+
+    expect(lastFrame()).toContain(
+      'No routing decisions have been made in this session.',
+    );
+  });
+
+  it('should display the decisions and latency of each strategy', () => {
+    const { lastFrame } = renderWithRouting({
+      totalDecisions: 3,
+      totalFailures: 1,
+      totalLatencyMs: 900,
+      bySource: {
+        heuristic: {
+          count: 2,
+          totalLatencyMs: 0,
+          models: { 'gemini-2.5-pro': 1, 'gemini-2.5-flash': 1 },
+        },
+        Classifier: {
+          count: 1,
+          totalLatencyMs: 900,
+          models: { 'gemini-2.5-flash': 1 },
+        },
+      },
+    });
+    const output = lastFrame();
+
+    expect(output).toContain('Routing Stats For Nerds');
+    expect(output).toContain('heuristic');
+    expect(output).toContain('Classifier');
+    expect(output).toContain('900ms');
+    expect(output).toContain('gemini-2.5-pro (1), gemini-2.5-flash (1)');
+    expect(output).toContain('300ms');
+    expect(output).toContain('Failed:');
+  });
+});
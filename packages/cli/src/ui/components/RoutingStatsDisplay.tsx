@@ -0,0 +1,157 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import { Box, Text } from 'ink';
+import { theme } from '../semantic-colors.js';
+import { formatDuration } from '../utils/formatters.js';
+import { useSessionStats } from '../contexts/SessionContext.js';
+import type { RoutingSourceStats } from '@google/gemini-cli-core';
+
+const SOURCE_COL_WIDTH = 28;
+const DECISIONS_COL_WIDTH = 11;
+const AVG_LATENCY_COL_WIDTH = 13;
+
+const formatModels = (models: Record<string, number>): string =>
+  Object.entries(models)
+    .sort(([, a], [, b]) => b - a)
+    .map(([model, count]) => `${model} (${count})`)
+    .join(', ');
+
+const StatRow: React.FC<{
+  source: string;
+  stats: RoutingSourceStats;
+}> = ({ source, stats }) => {
+  const avgLatency = stats.count > 0 ? stats.totalLatencyMs / stats.count : 0;
+
+  return (
+    <Box flexDirection="column">
+      <Box>
+        <Box width={SOURCE_COL_WIDTH}>
+          <Text color={theme.text.link}>{source}</Text>
+        </Box>
+        <Box width={DECISIONS_COL_WIDTH} justifyContent="flex-end">
+          <Text color={theme.text.primary}>{stats.count}</Text>
+        </Box>
+        <Box width={AVG_LATENCY_COL_WIDTH} justifyContent="flex-end">
+          <Text color={theme.text.primary}>{formatDuration(avgLatency)}</Text>
+        </Box>
+      </Box>
+      <Text color={theme.text.secondary}> » {formatModels(stats.models)}</Text>
+    </Box>
+  );
+};
+
+export const RoutingStatsDisplay: React.FC = () => {
+  const { stats } = useSessionStats();
+  const { routing } = stats.metrics;
+
+  if (routing.totalDecisions === 0) {
+    return (
+      <Box
+        borderStyle="round"
+        borderColor={theme.border.default}
+        paddingY={1}
+        paddingX={2}
+      >
+        <Text color={theme.text.primary}>
+          No routing decisions have been made in this session.
+        </Text>
+      </Box>
+    );
+  }
+
+  const avgLatency = routing.totalLatencyMs / routing.totalDecisions;
+
+  return (
+    <Box
+      borderStyle="round"
+      borderColor={theme.border.default}
+      flexDirection="column"
+      paddingY={1}
+      paddingX={2}
+      width={70}
+    >
+      <Text bold color={theme.text.accent}>
+        Routing Stats For Nerds
+      </Text>
+      <Box height={1} />
+
+      {/* Header */}
+      <Box>
+        <Box width={SOURCE_COL_WIDTH}>
+          <Text bold color={theme.text.primary}>
+            Strategy
+          </Text>
+        </Box>
+        <Box width={DECISIONS_COL_WIDTH} justifyContent="flex-end">
+          <Text bold color={theme.text.primary}>
+            Decisions
+          </Text>
+        </Box>
+        <Box width={AVG_LATENCY_COL_WIDTH} justifyContent="flex-end">
+          <Text bold color={theme.text.primary}>
+            Avg Latency
+          </Text>
+        </Box>
+      </Box>
+
+      {/* Divider */}
+      <Box
+        borderStyle="single"
+        borderBottom={true}
+        borderTop={false}
+        borderLeft={false}
+        borderRight={false}
+        borderColor={theme.border.default}
+        width="100%"
+      />
+
+      {Object.entries(routing.bySource).map(([source, sourceStats]) => (
+        <StatRow key={source} source={source} stats={sourceStats} />
+      ))}
+
+      {/* Divider */}
+      <Box
+        borderStyle="single"
+        borderBottom={true}
+        borderTop={false}
+        borderLeft={false}
+        borderRight={false}
+        borderColor={theme.border.default}
+        width="100%"
+      />
+
+      <Box>
+        <Box width={SOURCE_COL_WIDTH}>
+          <Text color={theme.text.primary}>Total</Text>
+        </Box>
+        <Box width={DECISIONS_COL_WIDTH} justifyContent="flex-end">
+          <Text color={theme.text.primary}>{routing.totalDecisions}</Text>
+        </Box>
+        <Box width={AVG_LATENCY_COL_WIDTH} justifyContent="flex-end">
+          <Text color={theme.text.primary}>{formatDuration(avgLatency)}</Text>
+        </Box>
+      </Box>
+      <Box>
+        <Box width={SOURCE_COL_WIDTH + DECISIONS_COL_WIDTH}>
+          <Text color={theme.text.primary}> » Failed:</Text>
+        </Box>
+        <Box width={AVG_LATENCY_COL_WIDTH} justifyContent="flex-end">
+          <Text
+            color={
+              routing.totalFailures > 0
+                ? theme.status.error
+                : theme.text.primary
+            }
+          >
+            {routing.totalFailures}
+          </Text>
+        </Box>
+      </Box>
+    </Box>
+  );
+};
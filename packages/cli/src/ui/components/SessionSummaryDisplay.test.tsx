@@ -71,6 +71,12 @@ describe('<SessionSummaryDisplay />', () => {
         totalLinesAdded: 42,
         totalLinesRemoved: 15,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     };
 
     const { lastFrame } = renderWithMockedStats(metrics);
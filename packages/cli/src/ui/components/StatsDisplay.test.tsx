@@ -61,6 +61,12 @@ const createTestMetrics = (
     totalLinesAdded: 0,
     totalLinesRemoved: 0,
   },
+  routing: {
+    totalDecisions: 0,
+    totalFailures: 0,
+    totalLatencyMs: 0,
+    bySource: {},
+  },
   ...overrides,
 });
 
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { renderWithProviders } from '../../test-utils/render.js';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  makeFakeConfig,
+  ToolConfirmationOutcome,
+} from '@google/gemini-cli-core';
+import { SubagentToolConfirmationDialog } from './SubagentToolConfirmationDialog.js';
+
+describe('SubagentToolConfirmationDialog', () => {
+  const config = makeFakeConfig();
+
+  const createRequest = (onConfirm = vi.fn()) => ({
+    agentName: 'code-fixer',
+    confirmationDetails: {
+      type: 'exec' as const,
+      title: 'Confirm Shell Command',
+      command: 'npm test',
+      rootCommand: 'npm',
+      onConfirm: vi.fn(),
+    },
+    onConfirm,
+  });
+
+  it('prefixes the confirmation with the agent name', () => {
+    const { lastFrame } = renderWithProviders(
+      <SubagentToolConfirmationDialog
+        request={createRequest()}
+        config={config}
+        terminalWidth={80}
+      />,
+    );
+
+    const frame = lastFrame()!;
+    expect(frame).toContain('[code-fixer] Confirm Shell Command');
+    expect(frame).toContain('npm test');
+  });
+
+  it('sends the answer to the agent instead of the tool', async () => {
+    const request = createRequest();
+    const { stdin } = renderWithProviders(
+      <SubagentToolConfirmationDialog
+        request={request}
+        config={config}
+        terminalWidth={80}
+      />,
+    );
+
+    stdin.write('\u001B');
+    await vi.waitFor(() =>
+      expect(request.onConfirm).toHaveBeenCalledWith(
+        ToolConfirmationOutcome.Cancel,
+      ),
+    );
+    expect(request.confirmationDetails.onConfirm).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  Config,
+  ToolCallConfirmationDetails,
+  ToolConfirmationOutcome,
+} from '@google/gemini-cli-core';
+import { Box, Text } from 'ink';
+import type React from 'react';
+import { theme } from '../semantic-colors.js';
+import { ToolConfirmationMessage } from './messages/ToolConfirmationMessage.js';
+
+export interface SubagentConfirmationRequest {
+  agentName: string;
+  confirmationDetails: ToolCallConfirmationDetails;
+  onConfirm: (outcome: ToolConfirmationOutcome) => void;
+}
+
+export interface SubagentToolConfirmationDialogProps {
+  request: SubagentConfirmationRequest;
+  config: Config;
+  availableTerminalHeight?: number;
+  terminalWidth: number;
+}
+
+export const SubagentToolConfirmationDialog: React.FC<
+  SubagentToolConfirmationDialogProps
+> = ({ request, config, availableTerminalHeight, terminalWidth }) => {
+  const { agentName, confirmationDetails, onConfirm } = request;
+
+  return (
+    <Box flexDirection="column" width="100%">
+      <Box marginLeft={1}>
+        <Text bold color={theme.status.warning}>
+          [{agentName}]{' '}
+        </Text>
+        <Text bold color={theme.text.primary}>
+          {confirmationDetails.title}
+        </Text>
+      </Box>
+      <ToolConfirmationMessage
+        // Answers go back to the agent instead of the main tool scheduler.
+        confirmationDetails={{
+          ...confirmationDetails,
+          onConfirm: async (outcome: ToolConfirmationOutcome) =>
+            onConfirm(outcome),
+        }}
+        config={config}
+        availableTerminalHeight={availableTerminalHeight}
+        terminalWidth={terminalWidth}
+      />
+    </Box>
+  );
+};
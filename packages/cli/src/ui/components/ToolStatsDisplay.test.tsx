@@ -60,6 +60,12 @@ describe('<ToolStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     });
 
     expect(lastFrame()).toContain(
@@ -101,6 +107,12 @@ describe('<ToolStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     });
 
     const output = lastFrame();
@@ -153,6 +165,12 @@ describe('<ToolStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     });
 
     const output = lastFrame();
@@ -194,6 +212,12 @@ describe('<ToolStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     });
 
     expect(lastFrame()).toMatchSnapshot();
@@ -232,6 +256,12 @@ describe('<ToolStatsDisplay />', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     });
 
     const output = lastFrame();
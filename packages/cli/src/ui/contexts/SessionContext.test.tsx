@@ -105,6 +105,12 @@ describe('SessionStatsContext', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     };
 
     act(() => {
@@ -165,6 +171,12 @@ describe('SessionStatsContext', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     };
 
     act(() => {
@@ -160,6 +160,10 @@ export const useSlashCommandProcessor = (
         historyItemContent = {
           type: 'tool_stats',
         };
+      } else if (message.type === MessageType.ROUTING_STATS) {
+        historyItemContent = {
+          type: 'routing_stats',
+        };
       } else if (message.type === MessageType.QUIT) {
         historyItemContent = {
           type: 'quit',
@@ -195,6 +199,7 @@ export const useSlashCommandProcessor = (
           console.clear();
           refreshStatic();
         },
+        refreshStatic,
         loadHistory,
         setDebugMessage: actions.setDebugMessage,
         pendingItem,
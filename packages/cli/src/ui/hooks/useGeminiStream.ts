@@ -16,6 +16,8 @@ import type {
   ThoughtSummary,
   ToolCallRequestInfo,
   GeminiErrorEventValue,
+  RoutingRequestSource,
+  BudgetStatus,
 } from '@google/gemini-cli-core';
 import {
   GeminiEventType as ServerGeminiEventType,
@@ -35,6 +37,8 @@ import {
   promptIdContext,
   WRITE_FILE_TOOL_NAME,
   tokenLimit,
+  formatBudgetStatus,
+  formatBudgetWarning,
 } from '@google/gemini-cli-core';
 import { type Part, type PartListUnion, FinishReason } from '@google/genai';
 import type {
@@ -314,6 +318,7 @@ export const useGeminiStream = (
     ): Promise<{
       queryToSend: PartListUnion | null;
       shouldProceed: boolean;
+      source?: RoutingRequestSource;
     }> => {
       if (turnCancelledRef.current) {
         return { queryToSend: null, shouldProceed: false };
@@ -355,6 +360,7 @@ export const useGeminiStream = (
                 return {
                   queryToSend: localQueryToSendToGemini,
                   shouldProceed: true,
+                  source: 'slash-command',
                 };
               }
               case 'handled': {
@@ -643,6 +649,35 @@ export const useGeminiStream = (
     [addItem, config],
   );
 
+  const handleBudgetWarningEvent = useCallback(
+    (status: BudgetStatus) =>
+      addItem(
+        {
+          type: MessageType.WARNING,
+          text: formatBudgetWarning(status),
+        },
+        Date.now(),
+      ),
+    [addItem],
+  );
+
+  const handleBudgetExceededEvent = useCallback(
+    (status: BudgetStatus) =>
+      addItem(
+        {
+          type: MessageType.ERROR,
+          text:
+            `Stopped: reached the ${formatBudgetStatus(status)}. ` +
+            (status.scope === 'session'
+              ? 'Run `/budget override` to continue past it'
+              : 'Send a new prompt to continue') +
+            ', or raise the limit in model.budget in your settings.json file.',
+        },
+        Date.now(),
+      ),
+    [addItem],
+  );
+
   const handleContextWindowWillOverflowEvent = useCallback(
     (estimatedRequestTokenCount: number, remainingTokenCount: number) => {
       onCancelSubmit();
@@ -709,6 +744,12 @@ export const useGeminiStream = (
           case ServerGeminiEventType.MaxSessionTurns:
             handleMaxSessionTurnsEvent();
             break;
+          case ServerGeminiEventType.BudgetWarning:
+            handleBudgetWarningEvent(event.value);
+            break;
+          case ServerGeminiEventType.BudgetExceeded:
+            handleBudgetExceededEvent(event.value);
+            break;
           case ServerGeminiEventType.ContextWindowWillOverflow:
             handleContextWindowWillOverflowEvent(
               event.value.estimatedRequestTokenCount,
@@ -753,6 +794,8 @@ export const useGeminiStream = (
       handleChatCompressionEvent,
       handleFinishedEvent,
       handleMaxSessionTurnsEvent,
+      handleBudgetWarningEvent,
+      handleBudgetExceededEvent,
       handleContextWindowWillOverflowEvent,
       handleCitationEvent,
     ],
@@ -787,7 +830,11 @@ export const useGeminiStream = (
         prompt_id = config.getSessionId() + '########' + getPromptCount();
       }
       return promptIdContext.run(prompt_id, async () => {
-        const { queryToSend, shouldProceed } = await prepareQueryForGemini(
+        const {
+          queryToSend,
+          shouldProceed,
+          source = 'user',
+        } = await prepareQueryForGemini(
           query,
           userMessageTimestamp,
           abortSignal,
@@ -828,6 +875,9 @@ export const useGeminiStream = (
             queryToSend,
             abortSignal,
             prompt_id,
+            undefined,
+            false,
+            source,
           );
           const processingStatus = await processGeminiStreamEvents(
             stream,
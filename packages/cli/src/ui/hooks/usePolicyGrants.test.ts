@@ -0,0 +1,65 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** @vitest-environment jsdom */
+
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  makeFakeConfig,
+  PolicyDecision,
+  type Config,
+} from '@google/gemini-cli-core';
+import { usePolicyGrants } from './usePolicyGrants.js';
+
+describe('usePolicyGrants', () => {
+  let config: Config;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    config = makeFakeConfig();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('updates when grants are added and revoked', () => {
+    const policyEngine = config.getPolicyEngine();
+    const { result } = renderHook(() => usePolicyGrants(config));
+    expect(result.current).toEqual([]);
+
+    let grantId = '';
+    act(() => {
+      grantId = policyEngine.addGrant({
+        toolName: 'web_fetch',
+        decision: PolicyDecision.ALLOW,
+      }).id;
+    });
+    expect(result.current.map((rule) => rule.toolName)).toEqual(['web_fetch']);
+
+    act(() => {
+      policyEngine.revokeGrant(grantId);
+    });
+    expect(result.current).toEqual([]);
+  });
+
+  it('drops grants when they expire', () => {
+    config
+      .getPolicyEngine()
+      .addGrant(
+        { toolName: 'web_fetch', decision: PolicyDecision.ALLOW },
+        { expiresAfterMinutes: 1 },
+      );
+    const { result } = renderHook(() => usePolicyGrants(config));
+    expect(result.current).toHaveLength(1);
+
+    act(() => {
+      vi.advanceTimersByTime(60 * 1000);
+    });
+    expect(result.current).toEqual([]);
+  });
+});
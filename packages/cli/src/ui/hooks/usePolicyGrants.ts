@@ -0,0 +1,45 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import type { Config, PolicyRule } from '@google/gemini-cli-core';
+
+/**
+ * Returns the "always allow" grants that are currently active, updating when
+ * a grant is added, used or revoked, and when the next one expires.
+ */
+export function usePolicyGrants(config: Config): readonly PolicyRule[] {
+  const policyEngine = config.getPolicyEngine();
+  const [grants, setGrants] = useState(() => policyEngine.getGrants());
+
+  useEffect(() => {
+    let expiryTimer: NodeJS.Timeout | undefined;
+    const update = () => {
+      clearTimeout(expiryTimer);
+      const active = policyEngine.getGrants();
+      setGrants(active);
+
+      const expiries = active
+        .map((rule) => rule.grant?.expiresAt)
+        .filter((expiresAt) => expiresAt !== undefined);
+      if (expiries.length > 0) {
+        expiryTimer = setTimeout(
+          update,
+          Math.max(0, Math.min(...expiries) - Date.now()),
+        );
+      }
+    };
+
+    update();
+    const unsubscribe = policyEngine.onGrantsChanged(update);
+    return () => {
+      unsubscribe();
+      clearTimeout(expiryTimer);
+    };
+  }, [policyEngine]);
+
+  return grants;
+}
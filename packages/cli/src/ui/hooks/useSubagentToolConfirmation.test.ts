@@ -0,0 +1,121 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** @vitest-environment jsdom */
+
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  makeFakeConfig,
+  MessageBusType,
+  ToolConfirmationOutcome,
+  type Config,
+  type SubagentToolConfirmationRequest,
+} from '@google/gemini-cli-core';
+import { useSubagentToolConfirmation } from './useSubagentToolConfirmation.js';
+
+const createRequest = (
+  correlationId: string,
+  agentName = 'code-fixer',
+): SubagentToolConfirmationRequest => ({
+  type: MessageBusType.SUBAGENT_TOOL_CONFIRMATION_REQUEST,
+  agentName,
+  toolCall: { name: 'write_file', args: {} },
+  confirmationDetails: {
+    type: 'info',
+    title: 'Confirm: write_file',
+    prompt: 'a.txt',
+    onConfirm: async () => {},
+  },
+  correlationId,
+});
+
+describe('useSubagentToolConfirmation', () => {
+  let config: Config;
+
+  beforeEach(() => {
+    config = makeFakeConfig();
+  });
+
+  it('returns null when no subagent is waiting for approval', () => {
+    const { result } = renderHook(() => useSubagentToolConfirmation(config));
+    expect(result.current).toBeNull();
+  });
+
+  it('surfaces requests one at a time and publishes the answer', () => {
+    const responseHandler = vi.fn();
+    const messageBus = config.getMessageBus();
+    messageBus.subscribe(
+      MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+      responseHandler,
+    );
+    const { result } = renderHook(() => useSubagentToolConfirmation(config));
+
+    act(() => {
+      messageBus.publish(createRequest('first', 'code-fixer'));
+      messageBus.publish(createRequest('second', 'researcher'));
+    });
+    expect(result.current?.agentName).toBe('code-fixer');
+
+    act(() => {
+      result.current?.onConfirm(ToolConfirmationOutcome.ProceedOnce);
+    });
+    expect(responseHandler).toHaveBeenCalledWith({
+      type: MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+      correlationId: 'first',
+      outcome: ToolConfirmationOutcome.ProceedOnce,
+    });
+    expect(result.current?.agentName).toBe('researcher');
+
+    act(() => {
+      result.current?.onConfirm(ToolConfirmationOutcome.Cancel);
+    });
+    expect(result.current).toBeNull();
+  });
+
+  it('drops requests that were answered elsewhere', () => {
+    const messageBus = config.getMessageBus();
+    const { result } = renderHook(() => useSubagentToolConfirmation(config));
+
+    act(() => {
+      messageBus.publish(createRequest('first', 'code-fixer'));
+      messageBus.publish(createRequest('second', 'researcher'));
+    });
+    act(() => {
+      // The waiting agent was cancelled.
+      messageBus.publish({
+        type: MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+        correlationId: 'first',
+        outcome: ToolConfirmationOutcome.Cancel,
+      });
+    });
+
+    expect(result.current?.agentName).toBe('researcher');
+  });
+
+  it('stops listening when unmounted', () => {
+    const messageBus = config.getMessageBus();
+    const { unmount } = renderHook(() => useSubagentToolConfirmation(config));
+    expect(
+      messageBus.listenerCount(
+        MessageBusType.SUBAGENT_TOOL_CONFIRMATION_REQUEST,
+      ),
+    ).toBe(1);
+
+    unmount();
+
+    expect(
+      messageBus.listenerCount(
+        MessageBusType.SUBAGENT_TOOL_CONFIRMATION_REQUEST,
+      ),
+    ).toBe(0);
+    expect(
+      messageBus.listenerCount(
+        MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+      ),
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  MessageBusType,
+  type Config,
+  type SubagentToolConfirmationRequest,
+  type SubagentToolConfirmationResponse,
+  type ToolConfirmationOutcome,
+} from '@google/gemini-cli-core';
+import type { SubagentConfirmationRequest } from '../components/SubagentToolConfirmationDialog.js';
+
+/**
+ * Listens on the message bus for tool calls made by subagents that need the
+ * user's approval. Requests are queued and surfaced one at a time; answering
+ * the current one publishes the outcome back to the waiting agent. Requests
+ * that get a response elsewhere, e.g. because the agent was cancelled or
+ * timed out, are dropped from the queue.
+ */
+export function useSubagentToolConfirmation(
+  config: Config,
+): SubagentConfirmationRequest | null {
+  const [queue, setQueue] = useState<SubagentToolConfirmationRequest[]>([]);
+
+  useEffect(() => {
+    const messageBus = config.getMessageBus();
+    const handleRequest = (request: SubagentToolConfirmationRequest) => {
+      setQueue((prev) => [...prev, request]);
+    };
+    const handleResponse = (response: SubagentToolConfirmationResponse) => {
+      setQueue((prev) =>
+        prev.filter(
+          (request) => request.correlationId !== response.correlationId,
+        ),
+      );
+    };
+
+    messageBus.subscribe(
+      MessageBusType.SUBAGENT_TOOL_CONFIRMATION_REQUEST,
+      handleRequest,
+    );
+    messageBus.subscribe(
+      MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+      handleResponse,
+    );
+    return () => {
+      messageBus.unsubscribe(
+        MessageBusType.SUBAGENT_TOOL_CONFIRMATION_REQUEST,
+        handleRequest,
+      );
+      messageBus.unsubscribe(
+        MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+        handleResponse,
+      );
+    };
+  }, [config]);
+
+  const respond = useCallback(
+    (correlationId: string, outcome: ToolConfirmationOutcome) => {
+      setQueue((prev) =>
+        prev.filter((request) => request.correlationId !== correlationId),
+      );
+      config.getMessageBus().publish({
+        type: MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+        correlationId,
+        outcome,
+      });
+    },
+    [config],
+  );
+
+  const current = queue[0];
+  if (!current) {
+    return null;
+  }
+  return {
+    agentName: current.agentName,
+    confirmationDetails: current.confirmationDetails,
+    onConfirm: (outcome) => respond(current.correlationId, outcome),
+  };
+}
@@ -70,6 +70,7 @@ const mockConfig = {
   getGeminiClient: () => null, // No client needed for these tests
   getShellExecutionConfig: () => ({ terminalWidth: 80, terminalHeight: 24 }),
   getEnableMessageBusIntegration: () => false,
+  getPolicyAuditLog: () => undefined,
   getMessageBus: () => null,
   getPolicyEngine: () => null,
 } as unknown as Config;
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Box, Newline, Text } from 'ink';
+import { theme } from '../semantic-colors.js';
+import { useKeypress } from '../hooks/useKeypress.js';
+
+interface OpenAICompatiblePrivacyNoticeProps {
+  baseUrl?: string;
+  onExit: () => void;
+}
+
+export const OpenAICompatiblePrivacyNotice = ({
+  baseUrl,
+  onExit,
+}: OpenAICompatiblePrivacyNoticeProps) => {
+  useKeypress(
+    (key) => {
+      if (key.name === 'escape') {
+        onExit();
+      }
+    },
+    { isActive: true },
+  );
+
+  return (
+    <Box flexDirection="column" marginBottom={1}>
+      <Text bold color={theme.text.accent}>
+        OpenAI-Compatible Server Notice
+      </Text>
+      <Newline />
+      <Text color={theme.text.primary}>
+        Your prompts, files and tool output are sent to the server at{' '}
+        <Text color={theme.text.link}>{baseUrl ?? 'the configured URL'}</Text>.
+        Google does not receive them. How the data is stored and used is up to
+        whoever runs that server.
+      </Text>
+      <Newline />
+      <Text color={theme.text.secondary}>Press Esc to exit.</Text>
+    </Box>
+  );
+};
@@ -9,6 +9,7 @@ import { type Config, AuthType } from '@google/gemini-cli-core';
 import { GeminiPrivacyNotice } from './GeminiPrivacyNotice.js';
 import { CloudPaidPrivacyNotice } from './CloudPaidPrivacyNotice.js';
 import { CloudFreePrivacyNotice } from './CloudFreePrivacyNotice.js';
+import { OpenAICompatiblePrivacyNotice } from './OpenAICompatiblePrivacyNotice.js';
 
 interface PrivacyNoticeProps {
   onExit: () => void;
@@ -22,13 +23,21 @@ const PrivacyNoticeText = ({
   config: Config;
   onExit: () => void;
 }) => {
-  const authType = config.getContentGeneratorConfig()?.authType;
+  const generatorConfig = config.getContentGeneratorConfig();
+  const authType = generatorConfig?.authType;
 
   switch (authType) {
     case AuthType.USE_GEMINI:
       return <GeminiPrivacyNotice onExit={onExit} />;
     case AuthType.USE_VERTEX_AI:
       return <CloudPaidPrivacyNotice onExit={onExit} />;
+    case AuthType.USE_OPENAI_COMPATIBLE:
+      return (
+        <OpenAICompatiblePrivacyNotice
+          baseUrl={generatorConfig?.baseUrl}
+          onExit={onExit}
+        />
+      );
     case AuthType.LOGIN_WITH_GOOGLE:
     default:
       return <CloudFreePrivacyNotice config={config} onExit={onExit} />;
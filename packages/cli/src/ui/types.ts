@@ -141,6 +141,10 @@ export type HistoryItemToolStats = HistoryItemBase & {
   type: 'tool_stats';
 };
 
+export type HistoryItemRoutingStats = HistoryItemBase & {
+  type: 'routing_stats';
+};
+
 export type HistoryItemQuit = HistoryItemBase & {
   type: 'quit';
   duration: string;
@@ -239,6 +243,7 @@ export type HistoryItemWithoutId =
   | HistoryItemStats
   | HistoryItemModelStats
   | HistoryItemToolStats
+  | HistoryItemRoutingStats
   | HistoryItemQuit
   | HistoryItemCompression
   | HistoryItemExtensionsList
@@ -259,6 +264,7 @@ export enum MessageType {
   STATS = 'stats',
   MODEL_STATS = 'model_stats',
   TOOL_STATS = 'tool_stats',
+  ROUTING_STATS = 'routing_stats',
   QUIT = 'quit',
   GEMINI = 'gemini',
   COMPRESSION = 'compression',
@@ -308,6 +314,11 @@ export type Message =
       timestamp: Date;
       content?: string;
     }
+  | {
+      type: MessageType.ROUTING_STATS;
+      timestamp: Date;
+      content?: string;
+    }
   | {
       type: MessageType.QUIT;
       timestamp: Date;
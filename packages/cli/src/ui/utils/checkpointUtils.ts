@@ -0,0 +1,44 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs/promises';
+import path from 'node:path';
+import type { Content } from '@google/genai';
+import type { HistoryItem } from '../types.js';
+
+/** The record written to the checkpoints directory before an edit runs. */
+export interface ToolCallCheckpoint {
+  history?: HistoryItem[];
+  clientHistory?: Content[];
+  toolCall: { name: string; args: Record<string, unknown> };
+  commitHash?: string;
+  filePath?: string;
+}
+
+/**
+ * Reads the tool call checkpoints, keyed by their file name without the
+ * `.json` extension. Unreadable files are skipped.
+ */
+export async function readToolCallCheckpoints(
+  checkpointDir: string,
+): Promise<Map<string, ToolCallCheckpoint>> {
+  const checkpoints = new Map<string, ToolCallCheckpoint>();
+  let files: string[];
+  try {
+    files = await fs.readdir(checkpointDir);
+  } catch (_err) {
+    return checkpoints;
+  }
+  for (const file of files.filter((file) => file.endsWith('.json'))) {
+    try {
+      const data = await fs.readFile(path.join(checkpointDir, file), 'utf-8');
+      checkpoints.set(file.slice(0, -'.json'.length), JSON.parse(data));
+    } catch (_err) {
+      // Ignore records that are being written or were corrupted.
+    }
+  }
+  return checkpoints;
+}
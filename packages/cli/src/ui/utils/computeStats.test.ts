@@ -128,6 +128,12 @@ describe('computeSessionStats', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     };
 
     const result = computeSessionStats(metrics);
@@ -176,6 +182,12 @@ describe('computeSessionStats', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     };
 
     const result = computeSessionStats(metrics);
@@ -214,6 +226,12 @@ describe('computeSessionStats', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     };
 
     const result = computeSessionStats(metrics);
@@ -236,6 +254,12 @@ describe('computeSessionStats', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     };
 
     const result = computeSessionStats(metrics);
@@ -259,6 +283,12 @@ describe('computeSessionStats', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     };
 
     const result = computeSessionStats(metrics);
@@ -285,6 +315,12 @@ describe('computeSessionStats', () => {
         totalLinesAdded: 42,
         totalLinesRemoved: 18,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     };
 
     const result = computeSessionStats(metrics);
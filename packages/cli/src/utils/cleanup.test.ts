@@ -7,6 +7,18 @@
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import type { registerCleanup, runExitCleanup } from './cleanup.js';
 
+const mockKillAllBackgroundJobs = vi.hoisted(() => vi.fn());
+vi.mock('@google/gemini-cli-core', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('@google/gemini-cli-core')>();
+  return {
+    ...actual,
+    ShellExecutionService: {
+      killAllBackgroundJobs: mockKillAllBackgroundJobs,
+    },
+  };
+});
+
 describe('cleanup', () => {
   let register: typeof registerCleanup;
   let runExit: typeof runExitCleanup;
@@ -62,4 +74,10 @@ describe('cleanup', () => {
     expect(errorFn).toHaveBeenCalledTimes(1);
     expect(successFn).toHaveBeenCalledTimes(1);
   });
+
+  it('should kill the background jobs', async () => {
+    await runExit();
+
+    expect(mockKillAllBackgroundJobs).toHaveBeenCalled();
+  });
 });
@@ -6,7 +6,7 @@
 
 import { promises as fs } from 'node:fs';
 import { join } from 'node:path';
-import { Storage } from '@google/gemini-cli-core';
+import { ShellExecutionService, Storage } from '@google/gemini-cli-core';
 
 const cleanupFunctions: Array<(() => void) | (() => Promise<void>)> = [];
 
@@ -23,6 +23,16 @@ export async function runExitCleanup() {
     }
   }
   cleanupFunctions.length = 0; // Clear the array
+  await cleanupBackgroundJobs();
+}
+
+/** Kills the background jobs started by `run_shell_command`. */
+export async function cleanupBackgroundJobs() {
+  try {
+    await ShellExecutionService.killAllBackgroundJobs();
+  } catch {
+    // Ignore errors if a job already exited.
+  }
 }
 
 export async function cleanupCheckpoints() {
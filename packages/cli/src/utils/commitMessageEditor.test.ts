@@ -0,0 +1,55 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect } from 'vitest';
+import * as fs from 'node:fs/promises';
+import { openFileInEditor } from '@google/gemini-cli-core';
+import {
+  editCommitMessage,
+  stripCommitMessageComments,
+} from './commitMessageEditor.js';
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/gemini-cli-core')>()),
+  openFileInEditor: vi.fn(),
+}));
+
+describe('commitMessageEditor', () => {
+  describe('stripCommitMessageComments', () => {
+    it('should remove comment lines and surrounding blank lines', () => {
+      expect(
+        stripCommitMessageComments('Subject\r\n\r\nBody\n\n# Comment\n'),
+      ).toBe('Subject\n\nBody');
+    });
+  });
+
+  describe('editCommitMessage', () => {
+    it('should return the message the user saved', async () => {
+      let editedPath = '';
+      vi.mocked(openFileInEditor).mockImplementation(
+        async (filePath, _editor, onEditorClose) => {
+          editedPath = filePath;
+          expect(await fs.readFile(filePath, 'utf-8')).toContain(
+            'Generated subject\n\n# Edit the generated commit message',
+          );
+          await fs.writeFile(filePath, 'Edited subject\n# Comment\n');
+          onEditorClose();
+        },
+      );
+      const onEditorClose = vi.fn();
+
+      const message = await editCommitMessage(
+        'Generated subject',
+        'vim',
+        onEditorClose,
+      );
+
+      expect(message).toBe('Edited subject');
+      expect(onEditorClose).toHaveBeenCalledTimes(1);
+      await expect(fs.stat(editedPath)).rejects.toThrow();
+    });
+  });
+});
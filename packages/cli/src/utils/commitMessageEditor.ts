@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { EditorType } from '@google/gemini-cli-core';
+import { openFileInEditor } from '@google/gemini-cli-core';
+
+const INSTRUCTIONS = [
+  '',
+  '# Edit the generated commit message, then save and close the file.',
+  "# Lines starting with '#' are ignored, and an empty message aborts the commit.",
+];
+
+/** Removes comment lines and surrounding blank lines, like `git commit`. */
+export function stripCommitMessageComments(message: string): string {
+  return message
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .filter((line) => !line.startsWith('#'))
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Lets the user edit a commit message in their editor.
+ *
+ * @returns The edited message without comments, or an empty string when the
+ * user cleared it.
+ */
+export async function editCommitMessage(
+  message: string,
+  editor: EditorType,
+  onEditorClose: () => void,
+): Promise<string> {
+  const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'gemini-commit-'));
+  const filePath = path.join(tmpDir, 'COMMIT_EDITMSG');
+  try {
+    await fs.writeFile(filePath, [message, ...INSTRUCTIONS].join('\n'));
+    await openFileInEditor(filePath, editor, onEditorClose);
+    return stripCommitMessageComments(await fs.readFile(filePath, 'utf-8'));
+  } finally {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  }
+}
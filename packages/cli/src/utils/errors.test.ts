@@ -13,6 +13,7 @@ import {
   handleToolError,
   handleCancellationError,
   handleMaxTurnsExceededError,
+  handleBudgetExceededError,
 } from './errors.js';
 
 // Mock the core modules
@@ -473,4 +474,25 @@ describe('errors', () => {
       });
     });
   });
+
+  describe('handleBudgetExceededError', () => {
+    it('should log the reached budget and exit with 55', () => {
+      (mockConfig.getOutputFormat as ReturnType<typeof vi.fn>).mockReturnValue(
+        OutputFormat.TEXT,
+      );
+
+      expect(() => {
+        handleBudgetExceededError(mockConfig, {
+          scope: 'prompt',
+          limit: 'maxOutputTokens',
+          used: 50000,
+          max: 50000,
+        });
+      }).toThrow('process.exit called with code: 55');
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Reached the prompt output token budget (50,000 / 50,000). Raise the limit in model.budget in settings.json.',
+      );
+    });
+  });
 });
@@ -4,7 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { Config } from '@google/gemini-cli-core';
+import type { BudgetStatus, Config } from '@google/gemini-cli-core';
 import {
   OutputFormat,
   JsonFormatter,
@@ -13,9 +13,11 @@ import {
   uiTelemetryService,
   parseAndFormatApiError,
   FatalTurnLimitedError,
+  FatalBudgetExceededError,
   FatalCancellationError,
   FatalToolExecutionError,
   isFatalToolError,
+  formatBudgetStatus,
 } from '@google/gemini-cli-core';
 
 export function getErrorMessage(error: unknown): string {
@@ -232,3 +234,43 @@ export function handleMaxTurnsExceededError(config: Config): never {
     process.exit(maxTurnsError.exitCode);
   }
 }
+
+/**
+ * Handles a reached session or prompt budget consistently.
+ */
+export function handleBudgetExceededError(
+  config: Config,
+  status: BudgetStatus,
+): never {
+  const budgetError = new FatalBudgetExceededError(
+    `Reached the ${formatBudgetStatus(status)}. Raise the limit in model.budget in settings.json.`,
+  );
+
+  if (config.getOutputFormat() === OutputFormat.STREAM_JSON) {
+    const streamFormatter = new StreamJsonFormatter();
+    const metrics = uiTelemetryService.getMetrics();
+    streamFormatter.emitEvent({
+      type: JsonStreamEventType.RESULT,
+      timestamp: new Date().toISOString(),
+      status: 'error',
+      error: {
+        type: 'FatalBudgetExceededError',
+        message: budgetError.message,
+      },
+      stats: streamFormatter.convertToStreamStats(metrics, 0),
+    });
+    process.exit(budgetError.exitCode);
+  } else if (config.getOutputFormat() === OutputFormat.JSON) {
+    const formatter = new JsonFormatter();
+    const formattedError = formatter.formatError(
+      budgetError,
+      budgetError.exitCode,
+    );
+
+    console.error(formattedError);
+    process.exit(budgetError.exitCode);
+  } else {
+    console.error(budgetError.message);
+    process.exit(budgetError.exitCode);
+  }
+}
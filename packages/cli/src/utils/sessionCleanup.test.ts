@@ -7,9 +7,16 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import { SESSION_FILE_PREFIX, type Config } from '@google/gemini-cli-core';
+import {
+  SESSION_FILE_PREFIX,
+  listAgentRunFiles,
+  type Config,
+} from '@google/gemini-cli-core';
 import type { Settings } from '../config/settings.js';
-import { cleanupExpiredSessions } from './sessionCleanup.js';
+import {
+  cleanupExpiredAgentRuns,
+  cleanupExpiredSessions,
+} from './sessionCleanup.js';
 import { type SessionInfo, getAllSessionFiles } from './sessionUtils.js';
 
 // Mock the fs module
@@ -17,9 +24,14 @@ vi.mock('fs/promises');
 vi.mock('./sessionUtils.js', () => ({
   getAllSessionFiles: vi.fn(),
 }));
+vi.mock('@google/gemini-cli-core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/gemini-cli-core')>()),
+  listAgentRunFiles: vi.fn(),
+}));
 
 const mockFs = vi.mocked(fs);
 const mockGetAllSessionFiles = vi.mocked(getAllSessionFiles);
+const mockListAgentRunFiles = vi.mocked(listAgentRunFiles);
 
 // Create mock config
 function createMockConfig(overrides: Partial<Config> = {}): Config {
@@ -388,6 +400,57 @@ describe('Session Cleanup', () => {
     });
   });
 
+  describe('cleanupExpiredAgentRuns', () => {
+    const daysAgo = (days: number) =>
+      new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+    beforeEach(() => {
+      mockListAgentRunFiles.mockReturnValue([
+        { runId: 'new', startTime: daysAgo(1), filePath: '/runs/new.json' },
+        { runId: 'mid', startTime: daysAgo(10), filePath: '/runs/mid.json' },
+        { runId: 'old', startTime: daysAgo(40), filePath: '/runs/old.json' },
+      ]);
+      mockFs.unlink.mockResolvedValue(undefined);
+    });
+
+    it('should do nothing when session retention is disabled', async () => {
+      const result = await cleanupExpiredAgentRuns(createMockConfig(), {});
+
+      expect(result.disabled).toBe(true);
+      expect(mockFs.unlink).not.toHaveBeenCalled();
+    });
+
+    it('should delete runs older than maxAge', async () => {
+      const settings: Settings = {
+        general: { sessionRetention: { enabled: true, maxAge: '30d' } },
+      };
+
+      const result = await cleanupExpiredAgentRuns(
+        createMockConfig(),
+        settings,
+      );
+
+      expect(mockFs.unlink).toHaveBeenCalledTimes(1);
+      expect(mockFs.unlink).toHaveBeenCalledWith('/runs/old.json');
+      expect(result).toMatchObject({ scanned: 3, deleted: 1, skipped: 2 });
+    });
+
+    it('should keep only the most recent maxCount runs', async () => {
+      const settings: Settings = {
+        general: { sessionRetention: { enabled: true, maxCount: 1 } },
+      };
+
+      const result = await cleanupExpiredAgentRuns(
+        createMockConfig(),
+        settings,
+      );
+
+      expect(mockFs.unlink).toHaveBeenCalledWith('/runs/mid.json');
+      expect(mockFs.unlink).toHaveBeenCalledWith('/runs/old.json');
+      expect(result).toMatchObject({ scanned: 3, deleted: 2, skipped: 1 });
+    });
+  });
+
   describe('Specific cleanup scenarios', () => {
     it('should delete sessions that exceed the cutoff date', async () => {
       const config = createMockConfig();
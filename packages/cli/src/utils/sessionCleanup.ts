@@ -6,7 +6,11 @@
 
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
-import { debugLogger, type Config } from '@google/gemini-cli-core';
+import {
+  debugLogger,
+  listAgentRunFiles,
+  type Config,
+} from '@google/gemini-cli-core';
 import type { Settings, SessionRetentionSettings } from '../config/settings.js';
 import { getAllSessionFiles, type SessionFileEntry } from './sessionUtils.js';
 
@@ -140,6 +144,81 @@ export async function cleanupExpiredSessions(
   return result;
 }
 
+/**
+ * Deletes saved subagent runs using the same retention policy as sessions.
+ * Runs during CLI startup, like {@link cleanupExpiredSessions}.
+ */
+export async function cleanupExpiredAgentRuns(
+  config: Config,
+  settings: Settings,
+): Promise<CleanupResult> {
+  const result: CleanupResult = {
+    disabled: false,
+    scanned: 0,
+    deleted: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  const retentionConfig = settings.general?.sessionRetention;
+  if (
+    !retentionConfig?.enabled ||
+    validateRetentionConfig(config, retentionConfig)
+  ) {
+    // Invalid settings are already reported by the session cleanup.
+    return { ...result, disabled: true };
+  }
+
+  try {
+    const cutoffDate = retentionConfig.maxAge
+      ? new Date(Date.now() - parseRetentionPeriod(retentionConfig.maxAge))
+      : null;
+    // Runs are listed most recent first.
+    const runs = listAgentRunFiles(config.storage);
+    result.scanned = runs.length;
+
+    for (const [index, run] of runs.entries()) {
+      const isExpired =
+        (cutoffDate !== null && run.startTime < cutoffDate) ||
+        (retentionConfig.maxCount !== undefined &&
+          index >= retentionConfig.maxCount);
+      if (!isExpired) {
+        continue;
+      }
+      try {
+        await fs.unlink(run.filePath);
+        result.deleted++;
+      } catch (error) {
+        if (
+          !(
+            error instanceof Error &&
+            'code' in error &&
+            error.code === 'ENOENT'
+          )
+        ) {
+          debugLogger.warn(
+            `Failed to delete subagent run ${run.runId}: ${error}`,
+          );
+          result.failed++;
+        }
+      }
+    }
+
+    result.skipped = result.scanned - result.deleted - result.failed;
+    if (config.getDebugMode() && result.deleted > 0) {
+      debugLogger.debug(
+        `Subagent run cleanup: deleted ${result.deleted}, skipped ${result.skipped}, failed ${result.failed}`,
+      );
+    }
+  } catch (error) {
+    // Don't let cleanup failures break startup
+    debugLogger.warn(`Subagent run cleanup failed: ${error}`);
+    result.failed++;
+  }
+
+  return result;
+}
+
 /**
  * Identifies sessions that should be deleted (corrupted or expired based on retention policy)
  */
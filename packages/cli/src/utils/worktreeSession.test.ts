@@ -0,0 +1,70 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  debugLogger,
+  FatalConfigError,
+  WorktreeService,
+} from '@google/gemini-cli-core';
+import { startWorktreeSession } from './worktreeSession.js';
+import { registerCleanup, runExitCleanup } from './cleanup.js';
+
+vi.mock('./cleanup.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./cleanup.js')>();
+  return { ...actual, registerCleanup: vi.fn(actual.registerCleanup) };
+});
+
+describe('startWorktreeSession', () => {
+  let worktree: WorktreeService;
+
+  beforeEach(() => {
+    worktree = {
+      worktreeRoot: '/tmp/worktrees/session-1',
+      hasUnappliedChanges: vi.fn().mockResolvedValue(false),
+    } as unknown as WorktreeService;
+    vi.spyOn(WorktreeService, 'create').mockResolvedValue(worktree);
+    vi.spyOn(debugLogger, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await runExitCleanup();
+    vi.restoreAllMocks();
+  });
+
+  it('should create the worktree for the session', async () => {
+    expect(await startWorktreeSession('/project', 'session-1')).toBe(worktree);
+    expect(WorktreeService.create).toHaveBeenCalledWith(
+      '/project',
+      expect.anything(),
+      'session-1',
+    );
+    expect(registerCleanup).toHaveBeenCalled();
+  });
+
+  it('should fail the start up when the worktree cannot be created', async () => {
+    vi.mocked(WorktreeService.create).mockRejectedValue(
+      new Error('Failed to create the worktree for the session: no HEAD'),
+    );
+
+    await expect(startWorktreeSession('/project', 'session-1')).rejects.toThrow(
+      new FatalConfigError(
+        'Failed to create the worktree for the session: no HEAD',
+      ),
+    );
+  });
+
+  it('should warn on exit about unapplied changes', async () => {
+    vi.mocked(worktree.hasUnappliedChanges).mockResolvedValue(true);
+    await startWorktreeSession('/project', 'session-1');
+
+    await runExitCleanup();
+
+    expect(debugLogger.warn).toHaveBeenCalledWith(
+      'The worktree at /tmp/worktrees/session-1 has changes that were not applied to /project. They are kept there until you delete it.',
+    );
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  debugLogger,
+  FatalConfigError,
+  getErrorMessage,
+  Storage,
+  WorktreeService,
+} from '@google/gemini-cli-core';
+import { registerCleanup } from './cleanup.js';
+
+/**
+ * Creates the isolated tree for a `--worktree` session, and reminds the user
+ * on exit when it holds changes that were neither applied nor discarded.
+ */
+export async function startWorktreeSession(
+  projectRoot: string,
+  sessionId: string,
+): Promise<WorktreeService> {
+  let worktree: WorktreeService;
+  try {
+    worktree = await WorktreeService.create(
+      projectRoot,
+      new Storage(projectRoot),
+      sessionId,
+    );
+  } catch (error) {
+    throw new FatalConfigError(getErrorMessage(error));
+  }
+
+  registerCleanup(async () => {
+    if (await worktree.hasUnappliedChanges()) {
+      debugLogger.warn(
+        `The worktree at ${worktree.worktreeRoot} has changes that were not applied to ${projectRoot}. They are kept there until you delete it.`,
+      );
+    }
+  });
+  return worktree;
+}
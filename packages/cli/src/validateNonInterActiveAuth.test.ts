@@ -133,6 +133,21 @@ describe('validateNonInterActiveAuth', () => {
     expect(refreshAuthMock).toHaveBeenCalledWith(AuthType.LOGIN_WITH_GOOGLE);
   });
 
+  it('does not require credentials when playing back a recording', async () => {
+    const nonInteractiveConfig = createLocalMockConfig({
+      refreshAuth: refreshAuthMock,
+      getReplayResponsesFile: () => '/tmp/session.jsonl',
+    });
+    await validateNonInteractiveAuth(
+      undefined,
+      undefined,
+      nonInteractiveConfig,
+      mockSettings,
+    );
+    expect(refreshAuthMock).toHaveBeenCalledWith(AuthType.USE_GEMINI);
+    expect(processExitSpy).not.toHaveBeenCalled();
+  });
+
   it('uses USE_GEMINI if GEMINI_API_KEY is set', async () => {
     process.env['GEMINI_API_KEY'] = 'fake-key';
     const nonInteractiveConfig = createLocalMockConfig({
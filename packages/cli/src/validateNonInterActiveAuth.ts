@@ -33,6 +33,14 @@ export async function validateNonInteractiveAuth(
   try {
     const effectiveAuthType = configuredAuthType || getAuthTypeFromEnv();
 
+    // A played back session makes no API calls, so it needs no credentials.
+    if (nonInteractiveConfig.getReplayResponsesFile()) {
+      await nonInteractiveConfig.refreshAuth(
+        effectiveAuthType ?? AuthType.USE_GEMINI,
+      );
+      return nonInteractiveConfig;
+    }
+
     const enforcedType = settings.merged.security?.auth?.enforcedType;
     if (enforcedType && effectiveAuthType !== enforcedType) {
       const message = effectiveAuthType
@@ -42,6 +42,14 @@ export class AgentSideConnection implements Client {
           const validatedParams = schema.loadSessionRequestSchema.parse(params);
           return agent.loadSession(validatedParams);
         }
+        case schema.AGENT_METHODS.session_set_mode: {
+          if (!agent.setSessionMode) {
+            throw RequestError.methodNotFound();
+          }
+          const validatedParams =
+            schema.setSessionModeRequestSchema.parse(params);
+          return agent.setSessionMode(validatedParams);
+        }
         case schema.AGENT_METHODS.authenticate: {
           const validatedParams =
             schema.authenticateRequestSchema.parse(params);
@@ -360,6 +368,9 @@ export interface Agent {
   loadSession?(
     params: schema.LoadSessionRequest,
   ): Promise<schema.LoadSessionResponse>;
+  setSessionMode?(
+    params: schema.SetSessionModeRequest,
+  ): Promise<schema.SetSessionModeResponse>;
   authenticate(params: schema.AuthenticateRequest): Promise<void>;
   prompt(params: schema.PromptRequest): Promise<schema.PromptResponse>;
   cancel(params: schema.CancelNotification): Promise<void>;
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { CompressionStatus, type Config } from '@google/gemini-cli-core';
+import { CommandService } from '../services/CommandService.js';
+import { CommandKind, type SlashCommand } from '../ui/commands/types.js';
+import { MessageType } from '../ui/types.js';
+import {
+  historyItemToText,
+  loadAcpCommands,
+  toAvailableCommands,
+} from './acpCommands.js';
+
+vi.mock('../services/CommandService.js', () => ({
+  CommandService: { create: vi.fn() },
+}));
+vi.mock('../services/BuiltinCommandLoader.js');
+vi.mock('../services/FileCommandLoader.js');
+vi.mock('../services/McpPromptLoader.js');
+
+const command = (
+  name: string,
+  kind: CommandKind,
+  extra: Partial<SlashCommand> = {},
+): SlashCommand => ({
+  name,
+  description: `The ${name} command`,
+  kind,
+  action: vi.fn(),
+  ...extra,
+});
+
+describe('loadAcpCommands', () => {
+  it('should keep custom commands, MCP prompts and UI-free built-ins', async () => {
+    vi.mocked(CommandService.create).mockResolvedValue({
+      getCommands: () => [
+        command('compress', CommandKind.BUILT_IN),
+        command('theme', CommandKind.BUILT_IN),
+        command('memory', CommandKind.BUILT_IN),
+        command('deploy', CommandKind.FILE),
+        command('secret', CommandKind.FILE, { hidden: true }),
+        command('summarize', CommandKind.MCP_PROMPT),
+      ],
+    } as unknown as CommandService);
+
+    const commands = await loadAcpCommands(
+      {} as Config,
+      new AbortController().signal,
+    );
+
+    expect(commands.map((c) => c.name)).toEqual([
+      'compress',
+      'memory',
+      'deploy',
+      'summarize',
+    ]);
+  });
+});
+
+describe('toAvailableCommands', () => {
+  it('should describe the input that each command takes', () => {
+    const available = toAvailableCommands([
+      command('compress', CommandKind.BUILT_IN),
+      command('chat', CommandKind.BUILT_IN, {
+        action: undefined,
+        subCommands: [
+          command('save', CommandKind.BUILT_IN),
+          command('list', CommandKind.BUILT_IN),
+        ],
+      }),
+      command('deploy', CommandKind.FILE),
+    ]);
+
+    expect(available).toEqual([
+      { name: 'compress', description: 'The compress command', input: null },
+      {
+        name: 'chat',
+        description: 'The chat command',
+        input: { hint: 'save | list' },
+      },
+      {
+        name: 'deploy',
+        description: 'The deploy command',
+        input: { hint: 'arguments' },
+      },
+    ]);
+  });
+});
+
+describe('historyItemToText', () => {
+  it('should return the text of info, warning and error items', () => {
+    expect(historyItemToText({ type: MessageType.ERROR, text: 'Oops' })).toBe(
+      'Oops',
+    );
+  });
+
+  it('should describe compression results', () => {
+    expect(
+      historyItemToText({
+        type: MessageType.COMPRESSION,
+        compression: {
+          isPending: false,
+          originalTokenCount: 1000,
+          newTokenCount: 200,
+          compressionStatus: CompressionStatus.COMPRESSED,
+        },
+      }),
+    ).toBe('Chat history compressed from 1000 to 200 tokens.');
+  });
+
+  it('should list saved chats', () => {
+    expect(
+      historyItemToText({
+        type: MessageType.CHAT_LIST,
+        chats: [{ name: 'fix-bug', mtime: '2025-01-01T00:00:00.000Z' }],
+      }),
+    ).toBe(
+      'List of saved conversations:\n  - fix-bug (2025-01-01T00:00:00.000Z)',
+    );
+  });
+
+  it('should skip items that only the terminal UI can show', () => {
+    expect(
+      historyItemToText({ type: MessageType.HELP, timestamp: new Date() }),
+    ).toBeUndefined();
+  });
+});
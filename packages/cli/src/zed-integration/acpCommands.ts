@@ -0,0 +1,112 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CompressionStatus, type Config } from '@google/gemini-cli-core';
+import { BuiltinCommandLoader } from '../services/BuiltinCommandLoader.js';
+import { CommandService } from '../services/CommandService.js';
+import { FileCommandLoader } from '../services/FileCommandLoader.js';
+import { McpPromptLoader } from '../services/McpPromptLoader.js';
+import { CommandKind, type SlashCommand } from '../ui/commands/types.js';
+import { MessageType, type HistoryItemWithoutId } from '../ui/types.js';
+import type * as acp from './acp.js';
+
+/**
+ * Built-in commands that work without the terminal UI. The others open
+ * dialogs or change the terminal, so they are not offered to ACP clients.
+ */
+const ACP_BUILTIN_COMMANDS = new Set(['chat', 'compress', 'init', 'memory']);
+
+/**
+ * Loads the slash commands an ACP client can run: the built-in commands that
+ * work without the terminal UI, MCP prompts and custom TOML commands.
+ */
+export async function loadAcpCommands(
+  config: Config,
+  signal: AbortSignal,
+): Promise<SlashCommand[]> {
+  const commandService = await CommandService.create(
+    [
+      new BuiltinCommandLoader(config),
+      new McpPromptLoader(config),
+      new FileCommandLoader(config),
+    ],
+    signal,
+  );
+  return commandService
+    .getCommands()
+    .filter(
+      (command) =>
+        !command.hidden &&
+        (command.kind !== CommandKind.BUILT_IN ||
+          ACP_BUILTIN_COMMANDS.has(command.name)),
+    );
+}
+
+export function toAvailableCommands(
+  commands: readonly SlashCommand[],
+): acp.AvailableCommand[] {
+  return commands.map((command) => ({
+    name: command.name,
+    description: command.description,
+    input: getInputHint(command),
+  }));
+}
+
+function getInputHint(command: SlashCommand): acp.AvailableCommand['input'] {
+  if (command.subCommands?.length) {
+    return {
+      hint: command.subCommands
+        .filter((subCommand) => !subCommand.hidden)
+        .map((subCommand) => subCommand.name)
+        .join(' | '),
+    };
+  }
+  // Custom commands and MCP prompts take free-form arguments.
+  return command.kind === CommandKind.BUILT_IN ? null : { hint: 'arguments' };
+}
+
+/**
+ * Renders a history item that a command adds as plain text, or returns
+ * undefined for items that only make sense in the terminal UI.
+ */
+export function historyItemToText(
+  item: HistoryItemWithoutId,
+): string | undefined {
+  switch (item.type) {
+    case MessageType.INFO:
+    case MessageType.WARNING:
+    case MessageType.ERROR:
+      return item.text;
+    case MessageType.COMPRESSION: {
+      const {
+        isPending,
+        originalTokenCount,
+        newTokenCount,
+        compressionStatus,
+      } = item.compression;
+      if (isPending) {
+        return undefined;
+      }
+      switch (compressionStatus) {
+        case CompressionStatus.COMPRESSED:
+          return `Chat history compressed from ${originalTokenCount ?? 0} to ${newTokenCount ?? 0} tokens.`;
+        case CompressionStatus.NOOP:
+          return 'Nothing to compress.';
+        default:
+          return 'Chat history could not be compressed.';
+      }
+    }
+    case MessageType.CHAT_LIST:
+      return item.chats.length === 0
+        ? 'No saved conversation checkpoints found.'
+        : [
+            'List of saved conversations:',
+            ...item.chats.map((chat) => `  - ${chat.name} (${chat.mtime})`),
+          ].join('\n');
+    default:
+      return undefined;
+  }
+}
@@ -13,6 +13,7 @@ export const AGENT_METHODS = {
   session_load: 'session/load',
   session_new: 'session/new',
   session_prompt: 'session/prompt',
+  session_set_mode: 'session/set_mode',
 };
 
 export const CLIENT_METHODS = {
@@ -58,6 +59,18 @@ export type NewSessionResponse = z.infer<typeof newSessionResponseSchema>;
 
 export type LoadSessionResponse = z.infer<typeof loadSessionResponseSchema>;
 
+export type SessionMode = z.infer<typeof sessionModeSchema>;
+
+export type SessionModeState = z.infer<typeof sessionModeStateSchema>;
+
+export type SetSessionModeRequest = z.infer<typeof setSessionModeRequestSchema>;
+
+export type SetSessionModeResponse = z.infer<
+  typeof setSessionModeResponseSchema
+>;
+
+export type AvailableCommand = z.infer<typeof availableCommandSchema>;
+
 export type StopReason = z.infer<typeof stopReasonSchema>;
 
 export type PromptResponse = z.infer<typeof promptResponseSchema>;
@@ -181,6 +194,34 @@ export const toolCallStatusSchema = z.union([
   z.literal('failed'),
 ]);
 
+export const sessionModeSchema = z.object({
+  description: z.string().optional().nullable(),
+  id: z.string(),
+  name: z.string(),
+});
+
+export const sessionModeStateSchema = z.object({
+  availableModes: z.array(sessionModeSchema),
+  currentModeId: z.string(),
+});
+
+export const setSessionModeRequestSchema = z.object({
+  modeId: z.string(),
+  sessionId: z.string(),
+});
+
+export const setSessionModeResponseSchema = z.null();
+
+export const availableCommandInputSchema = z.object({
+  hint: z.string(),
+});
+
+export const availableCommandSchema = z.object({
+  description: z.string(),
+  input: availableCommandInputSchema.optional().nullable(),
+  name: z.string(),
+});
+
 export const writeTextFileResponseSchema = z.null();
 
 export const readTextFileResponseSchema = z.object({
@@ -208,10 +249,13 @@ export const authenticateRequestSchema = z.object({
 export const authenticateResponseSchema = z.null();
 
 export const newSessionResponseSchema = z.object({
+  modes: sessionModeStateSchema.optional().nullable(),
   sessionId: z.string(),
 });
 
-export const loadSessionResponseSchema = z.null();
+export const loadSessionResponseSchema = z.object({
+  modes: sessionModeStateSchema.optional().nullable(),
+});
 
 export const stopReasonSchema = z.union([
   z.literal('end_turn'),
@@ -423,6 +467,14 @@ export const sessionUpdateSchema = z.union([
     entries: z.array(planEntrySchema),
     sessionUpdate: z.literal('plan'),
   }),
+  z.object({
+    availableCommands: z.array(availableCommandSchema),
+    sessionUpdate: z.literal('available_commands_update'),
+  }),
+  z.object({
+    currentModeId: z.string(),
+    sessionUpdate: z.literal('current_mode_update'),
+  }),
 ]);
 
 export const agentResponseSchema = z.union([
@@ -430,6 +482,7 @@ export const agentResponseSchema = z.union([
   authenticateResponseSchema,
   newSessionResponseSchema,
   loadSessionResponseSchema,
+  setSessionModeResponseSchema,
   promptResponseSchema,
 ]);
 
@@ -460,6 +513,7 @@ export const agentRequestSchema = z.union([
   authenticateRequestSchema,
   newSessionRequestSchema,
   loadSessionRequestSchema,
+  setSessionModeRequestSchema,
   promptRequestSchema,
 ]);
 
@@ -0,0 +1,649 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  TransformStream,
+  type ReadableStream,
+  type WritableStreamDefaultWriter,
+} from 'node:stream/web';
+import {
+  AuthType,
+  ApprovalMode,
+  Kind,
+  StreamEventType,
+  TodoStore,
+  WriteTodosTool,
+  type AnyDeclarativeTool,
+  type Config,
+  type ConversationRecord,
+} from '@google/gemini-cli-core';
+import * as acp from './acp.js';
+import { GeminiAgent } from './zedIntegration.js';
+import { loadAcpCommands } from './acpCommands.js';
+import { loadCliConfig, type CliArgs } from '../config/config.js';
+import type { LoadedSettings } from '../config/settings.js';
+import { CommandKind, type SlashCommand } from '../ui/commands/types.js';
+import { MessageType } from '../ui/types.js';
+
+vi.mock('../config/config.js', () => ({
+  loadCliConfig: vi.fn(),
+}));
+
+vi.mock('./acpCommands.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./acpCommands.js')>()),
+  loadAcpCommands: vi.fn(),
+}));
+
+vi.mock('@google/gemini-cli-core', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@google/gemini-cli-core')>()),
+  logToolCall: vi.fn(),
+}));
+
+type JsonRpcMessage = {
+  id?: number;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+
+/**
+ * Stands in for an editor: talks to the agent over in-memory streams with the
+ * same newline-delimited JSON-RPC messages an ACP client would send.
+ */
+class TestAcpClient {
+  readonly updates: acp.SessionUpdate[] = [];
+  private readonly writer: WritableStreamDefaultWriter<Uint8Array>;
+  private readonly pending = new Map<
+    number,
+    { resolve: (result: unknown) => void; reject: (error: unknown) => void }
+  >();
+  private nextId = 0;
+
+  constructor(createAgent: (client: acp.Client) => acp.Agent) {
+    const toAgent = new TransformStream<Uint8Array, Uint8Array>();
+    const fromAgent = new TransformStream<Uint8Array, Uint8Array>();
+    new acp.AgentSideConnection(
+      createAgent,
+      fromAgent.writable,
+      toAgent.readable,
+    );
+    this.writer = toAgent.writable.getWriter();
+    void this.receive(fromAgent.readable);
+  }
+
+  request(method: string, params: unknown): Promise<unknown> {
+    const id = this.nextId++;
+    const response = new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+    });
+    void this.send({ id, method, params });
+    return response;
+  }
+
+  private async send(message: JsonRpcMessage): Promise<void> {
+    await this.writer.write(
+      new TextEncoder().encode(
+        JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n',
+      ),
+    );
+  }
+
+  private async receive(readable: ReadableStream<Uint8Array>): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const chunk of readable) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines.filter((l) => l.trim())) {
+        this.handle(JSON.parse(line) as JsonRpcMessage);
+      }
+    }
+  }
+
+  private handle(message: JsonRpcMessage): void {
+    if (message.method === acp.CLIENT_METHODS.session_update) {
+      this.updates.push((message.params as acp.SessionNotification).update);
+    } else if (message.method !== undefined && message.id !== undefined) {
+      void this.send({
+        id: message.id,
+        result: { outcome: { outcome: 'selected', optionId: 'proceed_once' } },
+      });
+    } else if (message.id !== undefined) {
+      const pending = this.pending.get(message.id);
+      this.pending.delete(message.id);
+      if (message.error) {
+        pending?.reject(message.error);
+      } else {
+        pending?.resolve(message.result);
+      }
+    }
+  }
+}
+
+describe('GeminiAgent', () => {
+  let tempDir: string;
+  let todoStore: TodoStore;
+  let mockResumeChat: ReturnType<typeof vi.fn>;
+  let mockSendMessageStream: ReturnType<typeof vi.fn>;
+  let mockRecordToolCalls: ReturnType<typeof vi.fn>;
+  let approvalMode: ApprovalMode;
+  let tools: Record<string, AnyDeclarativeTool>;
+  let client: TestAcpClient;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'zed-integration-'));
+    todoStore = new TodoStore();
+    mockSendMessageStream = vi.fn();
+    mockRecordToolCalls = vi.fn();
+    mockResumeChat = vi.fn();
+    const chat = {
+      sendMessageStream: mockSendMessageStream,
+      getChatRecordingService: () => ({ recordToolCalls: mockRecordToolCalls }),
+    };
+    approvalMode = ApprovalMode.DEFAULT;
+
+    const config = {
+      initialize: vi.fn(),
+      refreshAuth: vi.fn(),
+      storage: { getProjectTempDir: () => tempDir },
+      getGeminiClient: () => ({
+        resetChat: vi.fn(),
+        resumeChat: mockResumeChat,
+        getChat: () => chat,
+      }),
+      getSessionId: () => 'test-session-id',
+      isTrustedFolder: () => true,
+      isYoloModeDisabled: () => false,
+      getApprovalMode: () => approvalMode,
+      setApprovalMode: (mode: ApprovalMode) => {
+        approvalMode = mode;
+      },
+      getTodoStore: () => todoStore,
+      getModel: () => 'gemini-2.5-pro',
+      isInFallbackMode: () => false,
+      getFileSystemService: vi.fn(),
+      setFileSystemService: vi.fn(),
+    } as unknown as Config;
+    tools = { [WriteTodosTool.Name]: new WriteTodosTool(config) };
+    Object.assign(config, {
+      getToolRegistry: () => ({ getTool: (name: string) => tools[name] }),
+    });
+    vi.mocked(loadCliConfig).mockResolvedValue(config);
+    vi.mocked(loadAcpCommands).mockResolvedValue([]);
+
+    const settings = {
+      merged: {
+        mcpServers: {},
+        security: { auth: { selectedType: AuthType.USE_GEMINI } },
+      },
+    } as unknown as LoadedSettings;
+    client = new TestAcpClient(
+      (acpClient) =>
+        new GeminiAgent(config, settings, [], {} as CliArgs, acpClient),
+    );
+    await client.request(acp.AGENT_METHODS.initialize, {
+      protocolVersion: acp.PROTOCOL_VERSION,
+      clientCapabilities: {
+        fs: { readTextFile: false, writeTextFile: false },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+    vi.clearAllMocks();
+  });
+
+  async function recordSession(conversation: ConversationRecord) {
+    const chatsDir = path.join(tempDir, 'chats');
+    await fs.mkdir(chatsDir, { recursive: true });
+    const filePath = path.join(
+      chatsDir,
+      `session-2025-01-01T00-00-${conversation.sessionId.slice(0, 8)}.json`,
+    );
+    await fs.writeFile(filePath, JSON.stringify(conversation));
+    return filePath;
+  }
+
+  it('should advertise session loading', async () => {
+    const response = (await client.request(acp.AGENT_METHODS.initialize, {
+      protocolVersion: acp.PROTOCOL_VERSION,
+      clientCapabilities: {
+        fs: { readTextFile: false, writeTextFile: false },
+      },
+    })) as acp.InitializeResponse;
+
+    expect(response.agentCapabilities.loadSession).toBe(true);
+  });
+
+  it('should resume a recorded session and replay it to the client', async () => {
+    const todos = [
+      { description: 'Read the code', status: 'completed' },
+      { description: 'Fix the bug', status: 'in_progress' },
+      { description: 'Drop the idea', status: 'cancelled' },
+    ];
+    const conversation: ConversationRecord = {
+      sessionId: 'abcdef12-3456-7890',
+      projectHash: 'hash',
+      startTime: '2025-01-01T00:00:00.000Z',
+      lastUpdated: '2025-01-01T00:00:00.000Z',
+      messages: [
+        { id: '1', timestamp: '', type: 'user', content: 'Fix the bug' },
+        {
+          id: '2',
+          timestamp: '',
+          type: 'gemini',
+          content: 'On it.',
+          thoughts: [
+            { subject: 'Planning', description: 'Make a list.', timestamp: '' },
+          ],
+          toolCalls: [
+            {
+              id: 'call-1',
+              name: WriteTodosTool.Name,
+              args: { todos },
+              result: [
+                {
+                  functionResponse: {
+                    id: 'call-1',
+                    name: WriteTodosTool.Name,
+                    response: { output: 'Updated.' },
+                  },
+                },
+              ],
+              status: 'success',
+              timestamp: '',
+            },
+          ],
+        },
+      ],
+    };
+    const filePath = await recordSession(conversation);
+
+    const response = await client.request(acp.AGENT_METHODS.session_load, {
+      sessionId: conversation.sessionId,
+      cwd: tempDir,
+      mcpServers: [],
+    });
+
+    expect(response).toEqual({
+      modes: expect.objectContaining({ currentModeId: ApprovalMode.DEFAULT }),
+    });
+    expect(loadCliConfig).toHaveBeenCalledWith(
+      expect.anything(),
+      [],
+      conversation.sessionId,
+      expect.anything(),
+      tempDir,
+    );
+    const [history, resumedSessionData] = mockResumeChat.mock.calls[0];
+    expect(history).toEqual([
+      { role: 'user', parts: [{ text: 'Fix the bug' }] },
+      expect.objectContaining({ role: 'model' }),
+      expect.objectContaining({ role: 'user' }),
+    ]);
+    expect(resumedSessionData).toEqual({ conversation, filePath });
+    expect(
+      client.updates.filter(
+        (update) => update.sessionUpdate !== 'available_commands_update',
+      ),
+    ).toEqual([
+      {
+        sessionUpdate: 'user_message_chunk',
+        content: { type: 'text', text: 'Fix the bug' },
+      },
+      {
+        sessionUpdate: 'agent_thought_chunk',
+        content: { type: 'text', text: '**Planning** Make a list.' },
+      },
+      {
+        sessionUpdate: 'agent_message_chunk',
+        content: { type: 'text', text: 'On it.' },
+      },
+      {
+        sessionUpdate: 'tool_call',
+        toolCallId: 'call-1',
+        status: 'completed',
+        title: 'Set 3 todo(s)',
+        content: [],
+        kind: 'other',
+      },
+      {
+        sessionUpdate: 'plan',
+        entries: [
+          { content: 'Read the code', priority: 'medium', status: 'completed' },
+          { content: 'Fix the bug', priority: 'medium', status: 'in_progress' },
+        ],
+      },
+    ]);
+    expect(todoStore.getTodos()).toEqual(todos);
+  });
+
+  it('should reject loading a session that was not recorded', async () => {
+    await expect(
+      client.request(acp.AGENT_METHODS.session_load, {
+        sessionId: 'unknown-session',
+        cwd: tempDir,
+        mcpServers: [],
+      }),
+    ).rejects.toMatchObject({ code: -32602 });
+    expect(mockResumeChat).not.toHaveBeenCalled();
+  });
+
+  it('should send plan updates and record tool calls when todos change', async () => {
+    const todos = [{ description: 'Write a test', status: 'pending' }];
+    async function* stream(chunk: object) {
+      yield { type: StreamEventType.CHUNK, value: chunk };
+    }
+    mockSendMessageStream
+      .mockResolvedValueOnce(
+        stream({
+          functionCalls: [
+            { id: 'call-1', name: WriteTodosTool.Name, args: { todos } },
+          ],
+        }),
+      )
+      .mockResolvedValueOnce(
+        stream({ candidates: [{ content: { parts: [{ text: 'Done.' }] } }] }),
+      );
+    const { sessionId } = (await client.request(acp.AGENT_METHODS.session_new, {
+      cwd: tempDir,
+      mcpServers: [],
+    })) as acp.NewSessionResponse;
+
+    const response = await client.request(acp.AGENT_METHODS.session_prompt, {
+      sessionId,
+      prompt: [{ type: 'text', text: 'Plan it' }],
+    });
+
+    expect(response).toEqual({ stopReason: 'end_turn' });
+    expect(client.updates).toContainEqual({
+      sessionUpdate: 'plan',
+      entries: [
+        { content: 'Write a test', priority: 'medium', status: 'pending' },
+      ],
+    });
+    expect(mockRecordToolCalls).toHaveBeenCalledWith('gemini-2.5-pro', [
+      expect.objectContaining({
+        id: 'call-1',
+        name: WriteTodosTool.Name,
+        args: { todos },
+        status: 'success',
+      }),
+    ]);
+  });
+
+  async function newSession(): Promise<acp.NewSessionResponse> {
+    return (await client.request(acp.AGENT_METHODS.session_new, {
+      cwd: tempDir,
+      mcpServers: [],
+    })) as acp.NewSessionResponse;
+  }
+
+  async function* stream(chunk: object) {
+    yield { type: StreamEventType.CHUNK, value: chunk };
+  }
+
+  describe('slash commands', () => {
+    const commands: SlashCommand[] = [
+      {
+        name: 'greet',
+        description: 'Say hello',
+        kind: CommandKind.FILE,
+        action: async (_context, args) => ({
+          type: 'message',
+          messageType: 'info',
+          content: `Hello ${args}`,
+        }),
+      },
+      {
+        name: 'review',
+        description: 'Review the code',
+        kind: CommandKind.FILE,
+        action: async () => ({
+          type: 'submit_prompt',
+          content: [{ text: 'Review the staged changes' }],
+        }),
+      },
+      {
+        name: 'compress',
+        description: 'Compress the context',
+        kind: CommandKind.BUILT_IN,
+        action: async (context) => {
+          context.ui.addItem(
+            { type: MessageType.INFO, text: 'Compressed.' },
+            Date.now(),
+          );
+        },
+      },
+    ];
+
+    beforeEach(() => {
+      vi.mocked(loadAcpCommands).mockResolvedValue(commands);
+    });
+
+    it('should advertise the available commands after creating a session', async () => {
+      await newSession();
+
+      await vi.waitFor(() =>
+        expect(client.updates).toContainEqual({
+          sessionUpdate: 'available_commands_update',
+          availableCommands: [
+            {
+              name: 'greet',
+              description: 'Say hello',
+              input: { hint: 'arguments' },
+            },
+            {
+              name: 'review',
+              description: 'Review the code',
+              input: { hint: 'arguments' },
+            },
+            {
+              name: 'compress',
+              description: 'Compress the context',
+              input: null,
+            },
+          ],
+        }),
+      );
+    });
+
+    it('should run a command and send its message', async () => {
+      const { sessionId } = await newSession();
+
+      const response = await client.request(acp.AGENT_METHODS.session_prompt, {
+        sessionId,
+        prompt: [{ type: 'text', text: '/greet world' }],
+      });
+
+      expect(response).toEqual({ stopReason: 'end_turn' });
+      expect(client.updates).toContainEqual({
+        sessionUpdate: 'agent_message_chunk',
+        content: { type: 'text', text: 'Hello world\n\n' },
+      });
+      expect(mockSendMessageStream).not.toHaveBeenCalled();
+    });
+
+    it('should send the messages a command adds to the history', async () => {
+      const { sessionId } = await newSession();
+
+      await client.request(acp.AGENT_METHODS.session_prompt, {
+        sessionId,
+        prompt: [{ type: 'text', text: '/compress' }],
+      });
+
+      expect(client.updates).toContainEqual({
+        sessionUpdate: 'agent_message_chunk',
+        content: { type: 'text', text: 'Compressed.\n\n' },
+      });
+    });
+
+    it('should send the prompt a command submits to the model', async () => {
+      mockSendMessageStream.mockResolvedValueOnce(
+        stream({ candidates: [{ content: { parts: [{ text: 'LGTM' }] } }] }),
+      );
+      const { sessionId } = await newSession();
+
+      await client.request(acp.AGENT_METHODS.session_prompt, {
+        sessionId,
+        prompt: [{ type: 'text', text: '/review' }],
+      });
+
+      expect(mockSendMessageStream).toHaveBeenCalledWith(
+        'gemini-2.5-pro',
+        expect.objectContaining({
+          message: [{ text: 'Review the staged changes' }],
+        }),
+        expect.any(String),
+      );
+    });
+  });
+
+  describe('session modes', () => {
+    let shouldConfirmExecute: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      shouldConfirmExecute = vi.fn().mockResolvedValue({
+        type: 'info',
+        title: 'Fetch',
+        prompt: 'Fetch it?',
+        onConfirm: vi.fn(),
+      });
+      tools['fetch_it'] = {
+        name: 'fetch_it',
+        kind: Kind.Fetch,
+        build: () => ({
+          shouldConfirmExecute,
+          execute: vi
+            .fn()
+            .mockResolvedValue({ llmContent: 'ok', returnDisplay: 'ok' }),
+          getDescription: () => 'Fetch it',
+          toolLocations: () => [],
+        }),
+      } as unknown as AnyDeclarativeTool;
+      mockSendMessageStream.mockImplementation(async () =>
+        mockSendMessageStream.mock.calls.length === 1
+          ? stream({
+              functionCalls: [{ id: 'call-1', name: 'fetch_it', args: {} }],
+            })
+          : stream({
+              candidates: [{ content: { parts: [{ text: 'Done' }] } }],
+            }),
+      );
+    });
+
+    it('should offer the approval modes', async () => {
+      const { modes } = await newSession();
+
+      expect(modes).toEqual({
+        currentModeId: ApprovalMode.DEFAULT,
+        availableModes: [
+          expect.objectContaining({ id: ApprovalMode.DEFAULT }),
+          expect.objectContaining({ id: ApprovalMode.AUTO_EDIT }),
+          expect.objectContaining({ id: ApprovalMode.YOLO }),
+        ],
+      });
+    });
+
+    it('should run tools without asking after switching to YOLO mode', async () => {
+      const { sessionId } = await newSession();
+
+      await client.request(acp.AGENT_METHODS.session_set_mode, {
+        sessionId,
+        modeId: ApprovalMode.YOLO,
+      });
+      await client.request(acp.AGENT_METHODS.session_prompt, {
+        sessionId,
+        prompt: [{ type: 'text', text: 'Fetch it' }],
+      });
+
+      expect(approvalMode).toBe(ApprovalMode.YOLO);
+      expect(shouldConfirmExecute).toHaveBeenCalled();
+      expect(client.updates).toContainEqual(
+        expect.objectContaining({
+          sessionUpdate: 'tool_call',
+          toolCallId: 'call-1',
+          status: 'in_progress',
+        }),
+      );
+    });
+
+    it('should still apply policies that deny a call in YOLO mode', async () => {
+      shouldConfirmExecute.mockRejectedValue(
+        new Error('Tool execution for "fetch_it" denied by policy.'),
+      );
+      const { sessionId } = await newSession();
+
+      await client.request(acp.AGENT_METHODS.session_set_mode, {
+        sessionId,
+        modeId: ApprovalMode.YOLO,
+      });
+      await client.request(acp.AGENT_METHODS.session_prompt, {
+        sessionId,
+        prompt: [{ type: 'text', text: 'Fetch it' }],
+      });
+
+      expect(client.updates).not.toContainEqual(
+        expect.objectContaining({
+          toolCallId: 'call-1',
+          status: 'in_progress',
+        }),
+      );
+      expect(client.updates).toContainEqual(
+        expect.objectContaining({
+          sessionUpdate: 'tool_call_update',
+          toolCallId: 'call-1',
+          status: 'failed',
+        }),
+      );
+      expect(mockSendMessageStream).toHaveBeenLastCalledWith(
+        'gemini-2.5-pro',
+        expect.objectContaining({
+          message: [
+            {
+              functionResponse: expect.objectContaining({
+                response: {
+                  error: 'Tool execution for "fetch_it" denied by policy.',
+                },
+              }),
+            },
+          ],
+        }),
+        expect.any(String),
+      );
+    });
+
+    it('should ask for permission in the default mode', async () => {
+      const { sessionId } = await newSession();
+
+      await client.request(acp.AGENT_METHODS.session_prompt, {
+        sessionId,
+        prompt: [{ type: 'text', text: 'Fetch it' }],
+      });
+
+      expect(shouldConfirmExecute).toHaveBeenCalled();
+    });
+
+    it('should reject unknown modes', async () => {
+      const { sessionId } = await newSession();
+
+      await expect(
+        client.request(acp.AGENT_METHODS.session_set_mode, {
+          sessionId,
+          modeId: 'reckless',
+        }),
+      ).rejects.toMatchObject({ code: -32602 });
+      expect(approvalMode).toBe(ApprovalMode.DEFAULT);
+    });
+  });
+});
@@ -8,7 +8,11 @@ import type { WritableStream, ReadableStream } from 'node:stream/web';
 
 import type {
   Config,
+  ConversationRecord,
   GeminiChat,
+  ResumedSessionData,
+  Todo,
+  ToolCallRecord,
   ToolResult,
   ToolCallConfirmationDetails,
   GeminiCLIExtension,
@@ -31,11 +35,18 @@ import {
   DEFAULT_GEMINI_MODEL_AUTO,
   DEFAULT_GEMINI_FLASH_MODEL,
   debugLogger,
+  ApprovalMode,
+  Logger,
+  uiTelemetryService,
+  conversationToHistory,
+  partListUnionToString,
+  WRITE_TODOS_TOOL_NAME,
 } from '@google/gemini-cli-core';
 import * as acp from './acp.js';
 import { AcpFileSystemService } from './fileSystemService.js';
 import { Readable, Writable } from 'node:stream';
 import type { Content, Part, FunctionCall } from '@google/genai';
+import { createUserContent } from '@google/genai';
 import type { LoadedSettings } from '../config/settings.js';
 import { SettingScope } from '../config/settings.js';
 import * as fs from 'node:fs/promises';
@@ -45,6 +56,17 @@ import { z } from 'zod';
 import { randomUUID } from 'node:crypto';
 import type { CliArgs } from '../config/config.js';
 import { loadCliConfig } from '../config/config.js';
+import { getSessionFiles } from '../utils/sessionUtils.js';
+import { parseSlashCommand } from '../utils/commands.js';
+import type { CommandContext, SlashCommand } from '../ui/commands/types.js';
+import { createNonInteractiveUI } from '../ui/noninteractive/nonInteractiveUi.js';
+import type { SessionStatsState } from '../ui/contexts/SessionContext.js';
+import type { HistoryItemWithoutId } from '../ui/types.js';
+import {
+  historyItemToText,
+  loadAcpCommands,
+  toAvailableCommands,
+} from './acpCommands.js';
 
 /**
  * Resolves the model to use based on the current configuration.
@@ -82,7 +104,7 @@ export async function runZedIntegration(
   );
 }
 
-class GeminiAgent {
+export class GeminiAgent {
   private sessions: Map<string, Session> = new Map();
   private clientCapabilities: acp.ClientCapabilities | undefined;
 
@@ -121,7 +143,7 @@ class GeminiAgent {
       protocolVersion: acp.PROTOCOL_VERSION,
       authMethods,
       agentCapabilities: {
-        loadSession: false,
+        loadSession: true,
         promptCapabilities: {
           image: true,
           audio: true,
@@ -149,7 +171,90 @@ class GeminiAgent {
   }: acp.NewSessionRequest): Promise<acp.NewSessionResponse> {
     const sessionId = randomUUID();
     const config = await this.newSessionConfig(sessionId, cwd, mcpServers);
+    await this.prepareSessionConfig(sessionId, config);
+
+    await config.getGeminiClient().resetChat();
+    const session = await this.createSession(sessionId, config);
+    // Sent once the client has the response that introduces the session.
+    setTimeout(() => void session.sendAvailableCommands(), 0);
+
+    return {
+      sessionId,
+      modes: getSessionModes(config),
+    };
+  }
+
+  /**
+   * Resumes a session that was recorded by the chat recording service. The
+   * chat continues from the recorded history, and the conversation is replayed
+   * to the client as session updates before the request completes.
+   */
+  async loadSession({
+    sessionId,
+    cwd,
+    mcpServers,
+  }: acp.LoadSessionRequest): Promise<acp.LoadSessionResponse> {
+    const config = await this.newSessionConfig(sessionId, cwd, mcpServers);
+    const resumedSessionData = await findRecordedSession(config, sessionId);
+    if (!resumedSessionData) {
+      throw acp.RequestError.invalidParams(
+        `No recorded session found for ${sessionId}.`,
+      );
+    }
+    await this.prepareSessionConfig(sessionId, config);
+
+    await config
+      .getGeminiClient()
+      .resumeChat(
+        conversationToHistory(resumedSessionData.conversation),
+        resumedSessionData,
+      );
+    const session = await this.createSession(sessionId, config);
+    await session.replayHistory(resumedSessionData.conversation);
+    setTimeout(() => void session.sendAvailableCommands(), 0);
+
+    return { modes: getSessionModes(config) };
+  }
+
+  async setSessionMode({
+    sessionId,
+    modeId,
+  }: acp.SetSessionModeRequest): Promise<acp.SetSessionModeResponse> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    await session.setMode(modeId);
+    return null;
+  }
+
+  private async createSession(
+    sessionId: string,
+    config: Config,
+  ): Promise<Session> {
+    const commands = await loadAcpCommands(
+      config,
+      new AbortController().signal,
+    );
+    const session = new Session(
+      sessionId,
+      config,
+      this.settings,
+      commands,
+      this.client,
+    );
+    this.sessions.set(sessionId, session);
+    return session;
+  }
 
+  /**
+   * Authenticates the config of a new or loaded session and routes its file
+   * access through the client when the client supports it.
+   */
+  private async prepareSessionConfig(
+    sessionId: string,
+    config: Config,
+  ): Promise<void> {
     let isAuthenticated = false;
     if (this.settings.merged.security?.auth?.selectedType) {
       try {
@@ -175,15 +280,6 @@ class GeminiAgent {
       );
       config.setFileSystemService(acpFileSystemService);
     }
-
-    const geminiClient = config.getGeminiClient();
-    const chat = await geminiClient.startChat();
-    const session = new Session(sessionId, chat, config, this.client);
-    this.sessions.set(sessionId, session);
-
-    return {
-      sessionId,
-    };
   }
 
   async newSessionConfig(
@@ -232,16 +328,91 @@ class GeminiAgent {
   }
 }
 
+/**
+ * Finds the recording of a session in the project's chats directory. If the
+ * session was resumed before, the most recent recording is used.
+ */
+async function findRecordedSession(
+  config: Config,
+  sessionId: string,
+): Promise<ResumedSessionData | undefined> {
+  const chatsDir = path.join(config.storage.getProjectTempDir(), 'chats');
+  const sessionInfo = (await getSessionFiles(chatsDir))
+    .filter((info) => info.id === sessionId)
+    .at(-1);
+  if (!sessionInfo) {
+    return undefined;
+  }
+  const filePath = path.join(chatsDir, sessionInfo.fileName);
+  const conversation: ConversationRecord = JSON.parse(
+    await fs.readFile(filePath, 'utf8'),
+  );
+  return { conversation, filePath };
+}
+
+/**
+ * Describes the approval modes as ACP session modes. Only the modes that the
+ * folder's trust level allows are offered.
+ */
+function getSessionModes(config: Config): acp.SessionModeState {
+  const availableModes: acp.SessionMode[] = [
+    {
+      id: ApprovalMode.DEFAULT,
+      name: 'Default',
+      description: 'Ask before editing files or running commands',
+    },
+  ];
+  if (config.isTrustedFolder()) {
+    availableModes.push({
+      id: ApprovalMode.AUTO_EDIT,
+      name: 'Auto Edit',
+      description: 'Edit files without asking',
+    });
+    if (!config.isYoloModeDisabled()) {
+      availableModes.push({
+        id: ApprovalMode.YOLO,
+        name: 'YOLO',
+        description: 'Run all tools without asking',
+      });
+    }
+  }
+  return { currentModeId: config.getApprovalMode(), availableModes };
+}
+
 class Session {
   private pendingPrompt: AbortController | null = null;
 
   constructor(
     private readonly id: string,
-    private readonly chat: GeminiChat,
     private readonly config: Config,
+    private readonly settings: LoadedSettings,
+    private readonly commands: readonly SlashCommand[],
     private readonly client: acp.Client,
   ) {}
 
+  // Commands such as /compress replace the client's chat, so it is looked up
+  // on every use.
+  private get chat(): GeminiChat {
+    return this.config.getGeminiClient().getChat();
+  }
+
+  async sendAvailableCommands(): Promise<void> {
+    await this.sendUpdate({
+      sessionUpdate: 'available_commands_update',
+      availableCommands: toAvailableCommands(this.commands),
+    });
+  }
+
+  async setMode(modeId: string): Promise<void> {
+    const mode = getSessionModes(this.config).availableModes.find(
+      (availableMode) => availableMode.id === modeId,
+    );
+    if (!mode) {
+      throw acp.RequestError.invalidParams(`Unknown session mode: ${modeId}`);
+    }
+    this.config.setApprovalMode(mode.id as ApprovalMode);
+  }
+
   async cancelPendingPrompt(): Promise<void> {
     if (!this.pendingPrompt) {
       throw new Error('Not currently generating');
@@ -259,7 +430,19 @@ class Session {
     const promptId = Math.random().toString(16).slice(2);
     const chat = this.chat;
 
-    const parts = await this.#resolvePrompt(params.prompt, pendingSend.signal);
+    const commandParts = await this.runSlashCommand(
+      params.prompt,
+      pendingSend.signal,
+      promptId,
+    );
+    if (commandParts === null) {
+      return {
+        stopReason: pendingSend.signal.aborted ? 'cancelled' : 'end_turn',
+      };
+    }
+    const parts =
+      commandParts ??
+      (await this.#resolvePrompt(params.prompt, pendingSend.signal));
 
     let nextMessage: Content | null = { role: 'user', parts };
 
@@ -344,6 +527,202 @@ class Session {
     return { stopReason: 'end_turn' };
   }
 
+  /**
+   * Runs the prompt as a slash command if it starts with the name of one.
+   *
+   * @returns The prompt that the command submits to the model, `null` if the
+   *   command was handled, or `undefined` if the prompt is not a command.
+   */
+  private async runSlashCommand(
+    prompt: acp.ContentBlock[],
+    abortSignal: AbortSignal,
+    promptId: string,
+  ): Promise<Part[] | null | undefined> {
+    const [first] = prompt;
+    if (first?.type !== 'text' || !first.text.trim().startsWith('/')) {
+      return undefined;
+    }
+    const rawQuery = prompt
+      .map((block) => (block.type === 'text' ? block.text : ''))
+      .join('')
+      .trim();
+    const { commandToExecute, args } = parseSlashCommand(
+      rawQuery,
+      this.commands,
+    );
+    if (!commandToExecute) {
+      return undefined;
+    }
+    if (!commandToExecute.action) {
+      await this.sendCommandOutput(
+        `Use /${commandToExecute.name} with one of: ${(
+          commandToExecute.subCommands ?? []
+        )
+          .map((subCommand) => subCommand.name)
+          .join(', ')}.`,
+      );
+      return null;
+    }
+
+    const sessionStats: SessionStatsState = {
+      sessionId: this.config.getSessionId(),
+      sessionStartTime: new Date(),
+      metrics: uiTelemetryService.getMetrics(),
+      lastPromptTokenCount: 0,
+      promptCount: 1,
+    };
+    const context: CommandContext = {
+      services: {
+        config: this.config,
+        settings: this.settings,
+        git: undefined,
+        logger: new Logger(this.config.getSessionId(), this.config.storage),
+      },
+      ui: {
+        ...createNonInteractiveUI(),
+        addItem: (item) => {
+          const text = historyItemToText(item as HistoryItemWithoutId);
+          if (text) {
+            void this.sendCommandOutput(text);
+          }
+          return 0;
+        },
+      },
+      session: {
+        stats: sessionStats,
+        sessionShellAllowlist: new Set(),
+      },
+      invocation: {
+        raw: rawQuery,
+        name: commandToExecute.name,
+        args,
+      },
+    };
+
+    const result = await commandToExecute.action(context, args);
+    switch (result?.type) {
+      case undefined:
+        return null;
+      case 'message':
+        await this.sendCommandOutput(result.content);
+        return null;
+      case 'submit_prompt':
+        return createUserContent(result.content).parts ?? [];
+      case 'tool':
+        await this.runTool(abortSignal, promptId, {
+          id: `${result.toolName}-${Date.now()}`,
+          name: result.toolName,
+          args: result.toolArgs,
+        });
+        return null;
+      case 'load_history':
+        this.config.getGeminiClient().setHistory(result.clientHistory);
+        this.config.getGeminiClient().stripThoughtsFromHistory();
+        await this.sendCommandOutput('Restored the saved conversation.');
+        return null;
+      default:
+        await this.sendCommandOutput(
+          `/${commandToExecute.name} needs the terminal UI and is not available in this editor.`,
+        );
+        return null;
+    }
+  }
+
+  private async sendCommandOutput(text: string): Promise<void> {
+    await this.sendUpdate({
+      sessionUpdate: 'agent_message_chunk',
+      content: { type: 'text', text: `${text}\n\n` },
+    });
+  }
+
+  /**
+   * Sends a recorded conversation to the client as session updates and
+   * restores the todo list of the session.
+   */
+  async replayHistory(conversation: ConversationRecord): Promise<void> {
+    let todos: Todo[] | undefined;
+
+    for (const message of conversation.messages) {
+      if (message.type === 'user') {
+        const text = partListUnionToString(message.content);
+        if (text) {
+          await this.sendUpdate({
+            sessionUpdate: 'user_message_chunk',
+            content: { type: 'text', text },
+          });
+        }
+        continue;
+      }
+
+      for (const thought of message.thoughts ?? []) {
+        await this.sendUpdate({
+          sessionUpdate: 'agent_thought_chunk',
+          content: {
+            type: 'text',
+            text: thought.subject
+              ? `**${thought.subject}** ${thought.description}`
+              : thought.description,
+          },
+        });
+      }
+
+      const text = partListUnionToString(message.content);
+      if (text) {
+        await this.sendUpdate({
+          sessionUpdate: 'agent_message_chunk',
+          content: { type: 'text', text },
+        });
+      }
+
+      for (const toolCall of message.toolCalls ?? []) {
+        await this.replayToolCall(toolCall);
+        if (toolCall.name === WRITE_TODOS_TOOL_NAME) {
+          todos = (toolCall.args['todos'] as Todo[] | undefined) ?? [];
+          await this.sendPlan(todos);
+        }
+      }
+    }
+
+    if (todos) {
+      this.config.getTodoStore().setTodos(todos);
+    }
+  }
+
+  private async replayToolCall(toolCall: ToolCallRecord): Promise<void> {
+    const tool = this.config.getToolRegistry().getTool(toolCall.name);
+    let title = toolCall.displayName || toolCall.name;
+    try {
+      if (tool) {
+        title = tool.build(toolCall.args).getDescription();
+      }
+    } catch {
+      // The arguments may no longer be valid, e.g. when a file was deleted.
+    }
+
+    await this.sendUpdate({
+      sessionUpdate: 'tool_call',
+      toolCallId: toolCall.id,
+      status: toolCall.status === 'success' ? 'completed' : 'failed',
+      title,
+      content: toolCall.resultDisplay
+        ? [
+            {
+              type: 'content',
+              content: { type: 'text', text: toolCall.resultDisplay },
+            },
+          ]
+        : [],
+      kind: tool?.kind ?? 'other',
+    });
+  }
+
+  private async sendPlan(todos: Todo[]): Promise<void> {
+    await this.sendUpdate({
+      sessionUpdate: 'plan',
+      entries: toPlanEntries(todos),
+    });
+  }
+
   private async sendUpdate(update: acp.SessionUpdate): Promise<void> {
     const params: acp.SessionNotification = {
       sessionId: this.id,
@@ -363,7 +742,10 @@ class Session {
 
     const startTime = Date.now();
 
-    const errorResponse = (error: Error) => {
+    const errorResponse = (
+      error: Error,
+      status: 'error' | 'cancelled' = 'error',
+    ) => {
       const durationMs = Date.now() - startTime;
       logToolCall(
         this.config,
@@ -381,7 +763,7 @@ class Session {
         ),
       );
 
-      return [
+      const responseParts: Part[] = [
         {
           functionResponse: {
             id: callId,
@@ -390,6 +772,16 @@ class Session {
           },
         },
       ];
+      this.recordToolCall({
+        id: callId,
+        name: fc.name ?? '',
+        args,
+        result: responseParts,
+        status,
+        timestamp: new Date().toISOString(),
+        resultDisplay: error.message,
+      });
+      return responseParts;
     };
 
     if (!fc.name) {
@@ -408,8 +800,14 @@ class Session {
     try {
       const invocation = tool.build(args);
 
-      const confirmationDetails =
+      // The tool is asked even in YOLO mode, where policies that deny the
+      // call still apply; only the permission request is skipped.
+      const requestedConfirmation =
         await invocation.shouldConfirmExecute(abortSignal);
+      const confirmationDetails =
+        this.config.getApprovalMode() === ApprovalMode.YOLO
+          ? false
+          : requestedConfirmation;
 
       if (confirmationDetails) {
         const content: acp.ToolCallContent[] = [];
@@ -444,12 +842,21 @@ class Session {
                 .nativeEnum(ToolConfirmationOutcome)
                 .parse(output.outcome.optionId);
 
+        const approvalMode = this.config.getApprovalMode();
         await confirmationDetails.onConfirm(outcome);
+        // "Allow All Edits" switches the session to auto-edit mode.
+        if (this.config.getApprovalMode() !== approvalMode) {
+          await this.sendUpdate({
+            sessionUpdate: 'current_mode_update',
+            currentModeId: this.config.getApprovalMode(),
+          });
+        }
 
         switch (outcome) {
           case ToolConfirmationOutcome.Cancel:
             return errorResponse(
               new Error(`Tool "${fc.name}" was canceled by the user.`),
+              'cancelled',
             );
           case ToolConfirmationOutcome.ProceedOnce:
           case ToolConfirmationOutcome.ProceedAlways:
@@ -483,6 +890,12 @@ class Session {
         status: 'completed',
         content: content ? [content] : [],
       });
+      if (
+        typeof toolResult.returnDisplay === 'object' &&
+        'todos' in toolResult.returnDisplay
+      ) {
+        await this.sendPlan(toolResult.returnDisplay.todos);
+      }
 
       const durationMs = Date.now() - startTime;
       logToolCall(
@@ -500,7 +913,24 @@ class Session {
         ),
       );
 
-      return convertToFunctionResponse(fc.name, callId, toolResult.llmContent);
+      const responseParts = convertToFunctionResponse(
+        fc.name,
+        callId,
+        toolResult.llmContent,
+      );
+      this.recordToolCall({
+        id: callId,
+        name: fc.name,
+        args,
+        result: responseParts,
+        status: 'success',
+        timestamp: new Date().toISOString(),
+        resultDisplay:
+          typeof toolResult.returnDisplay === 'string'
+            ? toolResult.returnDisplay
+            : undefined,
+      });
+      return responseParts;
     } catch (e) {
       const error = e instanceof Error ? e : new Error(String(e));
 
@@ -517,6 +947,16 @@ class Session {
     }
   }
 
+  /** Records a tool call so that loading the session can replay it. */
+  private recordToolCall(toolCall: ToolCallRecord): void {
+    this.chat
+      .getChatRecordingService()
+      .recordToolCalls(
+        resolveModel(this.config.getModel(), this.config.isInFallbackMode()),
+        [toolCall],
+      );
+  }
+
   async #resolvePrompt(
     message: acp.ContentBlock[],
     abortSignal: AbortSignal,
@@ -888,6 +1328,20 @@ function toToolCallContent(toolResult: ToolResult): acp.ToolCallContent | null {
   }
 }
 
+/**
+ * Converts a todo list to the entries of an ACP plan. Cancelled todos are left
+ * out because a plan has no status for them.
+ */
+function toPlanEntries(todos: Todo[]): acp.PlanEntry[] {
+  return todos
+    .filter((todo) => todo.status !== 'cancelled')
+    .map((todo) => ({
+      content: todo.description,
+      priority: 'medium',
+      status: todo.status as acp.PlanEntry['status'],
+    }));
+}
+
 const basicPermissionOptions = [
   {
     optionId: ToolConfirmationOutcome.ProceedOnce,
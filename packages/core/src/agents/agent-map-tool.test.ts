@@ -0,0 +1,266 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AgentMapTool } from './agent-map-tool.js';
+import { AgentExecutor } from './executor.js';
+import type { AgentRegistry } from './registry.js';
+import type { AgentDefinition, AgentInputs, OutputObject } from './types.js';
+import { AgentTerminateMode } from './types.js';
+import { makeFakeConfig } from '../test-utils/config.js';
+import type { Config } from '../config/config.js';
+import { type z } from 'zod';
+
+vi.mock('./executor.js');
+
+const MockAgentExecutor = vi.mocked(AgentExecutor);
+
+const testDefinition: AgentDefinition<z.ZodUnknown> = {
+  name: 'MockAgent',
+  description: 'A mock agent.',
+  inputConfig: {
+    inputs: {
+      task: { type: 'string', required: true, description: 'task' },
+    },
+  },
+  modelConfig: { model: 'test', temp: 0, top_p: 1 },
+  runConfig: { max_time_minutes: 1 },
+  promptConfig: { systemPrompt: 'test' },
+};
+
+/** Makes `AgentExecutor.create` return executors whose run uses `run`. */
+function mockRuns(
+  run: (inputs: AgentInputs, signal: AbortSignal) => Promise<OutputObject>,
+) {
+  MockAgentExecutor.create.mockImplementation(
+    async () => ({ run }) as unknown as AgentExecutor<z.ZodTypeAny>,
+  );
+}
+
+describe('AgentMapTool', () => {
+  let mockConfig: Config;
+  let signal: AbortSignal;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockConfig = makeFakeConfig();
+    vi.spyOn(mockConfig, 'getAgentRegistry').mockReturnValue({
+      getDefinition: (name: string) =>
+        name === testDefinition.name ? testDefinition : undefined,
+      getAllDefinitions: () => [testDefinition],
+    } as unknown as AgentRegistry);
+    signal = new AbortController().signal;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('validation', () => {
+    it('should reject unknown agents and list the available ones', () => {
+      const tool = new AgentMapTool(mockConfig);
+      expect(() =>
+        tool.build({ agent: 'Nope', items: [{ task: 'a' }] }),
+      ).toThrow("Unknown subagent 'Nope'. Available subagents: MockAgent.");
+    });
+
+    it('should reject an empty item list', () => {
+      const tool = new AgentMapTool(mockConfig);
+      expect(() => tool.build({ agent: 'MockAgent', items: [] })).toThrow(
+        /items/,
+      );
+    });
+
+    it('should reject items that do not match the agent inputs', () => {
+      const tool = new AgentMapTool(mockConfig);
+      expect(() =>
+        tool.build({ agent: 'MockAgent', items: [{ task: 'a' }, {}] }),
+      ).toThrow(/Invalid inputs for item 1/);
+    });
+
+    it('should reject agents that are already in the delegation chain', () => {
+      const tool = new AgentMapTool(mockConfig, undefined, () => ({
+        parentChain: ['MockAgent'],
+      }));
+      expect(() =>
+        tool.build({ agent: 'MockAgent', items: [{ task: 'a' }] }),
+      ).toThrow(/already running in this delegation chain/);
+    });
+  });
+
+  describe('execute', () => {
+    it('should run every item and return the results in input order', async () => {
+      mockRuns(async (inputs) => ({
+        result: `done ${inputs['task']}`,
+        terminate_reason: AgentTerminateMode.GOAL,
+      }));
+      const tool = new AgentMapTool(mockConfig);
+      const invocation = tool.build({
+        agent: 'MockAgent',
+        items: [{ task: 'a' }, { task: 'b' }, { task: 'c' }],
+      });
+
+      const result = await invocation.execute(signal);
+      const content = JSON.parse(result.llmContent as string);
+
+      expect(content.agent).toBe('MockAgent');
+      expect(content.summary).toEqual({ GOAL: [0, 1, 2] });
+      expect(content.results.map((r: OutputObject) => r.result)).toEqual([
+        'done a',
+        'done b',
+        'done c',
+      ]);
+      expect(result.returnDisplay).toContain(
+        'Subagent MockAgent ran on 3 item(s) (GOAL: 3)',
+      );
+    });
+
+    it('should not run more items at once than the concurrency limit', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      mockRuns(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return { result: 'ok', terminate_reason: AgentTerminateMode.GOAL };
+      });
+      const tool = new AgentMapTool(mockConfig);
+      const invocation = tool.build({
+        agent: 'MockAgent',
+        items: Array.from({ length: 6 }, (_, i) => ({ task: `t${i}` })),
+        concurrency: 2,
+      });
+
+      await invocation.execute(signal);
+
+      expect(MockAgentExecutor.create).toHaveBeenCalledTimes(6);
+      expect(maxRunning).toBe(2);
+    });
+
+    it('should report items that timed out, ran out of turns or failed', async () => {
+      mockRuns(async (inputs) => {
+        switch (inputs['task']) {
+          case 'slow':
+            return {
+              result: 'Agent timed out.',
+              terminate_reason: AgentTerminateMode.TIMEOUT,
+            };
+          case 'long':
+            return {
+              result: 'Agent reached max turns.',
+              terminate_reason: AgentTerminateMode.MAX_TURNS,
+            };
+          case 'broken':
+            throw new Error('Model exploded');
+          default:
+            return { result: 'ok', terminate_reason: AgentTerminateMode.GOAL };
+        }
+      });
+      const tool = new AgentMapTool(mockConfig);
+      const invocation = tool.build({
+        agent: 'MockAgent',
+        items: [
+          { task: 'fine' },
+          { task: 'slow' },
+          { task: 'long' },
+          { task: 'broken' },
+        ],
+      });
+
+      const result = await invocation.execute(signal);
+      const content = JSON.parse(result.llmContent as string);
+
+      expect(content.summary).toEqual({
+        GOAL: [0],
+        TIMEOUT: [1],
+        MAX_TURNS: [2],
+        ERROR: [3],
+      });
+      expect(content.results[3].result).toBe('Model exploded');
+    });
+
+    it('should share one deadline and token budget between all runs', async () => {
+      mockRuns(async () => ({
+        result: 'ok',
+        terminate_reason: AgentTerminateMode.GOAL,
+      }));
+      vi.useFakeTimers();
+      vi.setSystemTime(1_000_000);
+      const tool = new AgentMapTool(mockConfig);
+      const invocation = tool.build({
+        agent: 'MockAgent',
+        items: [{ task: 'a' }, { task: 'b' }],
+        max_time_minutes: 2,
+        max_tokens: 500,
+      });
+
+      await invocation.execute(signal);
+
+      const [first, second] = MockAgentExecutor.create.mock.calls;
+      expect(first[3]).toEqual({
+        parentChain: [],
+        deadline: 1_000_000 + 2 * 60 * 1000,
+        onActivity: undefined,
+        tokenBudget: { maxTokens: 500, usedTokens: 0 },
+      });
+      expect(second[3]).toBe(first[3]);
+    });
+
+    it('should skip items once the shared token budget is used up', async () => {
+      mockRuns(async () => ({
+        result: 'ok',
+        terminate_reason: AgentTerminateMode.GOAL,
+      }));
+      MockAgentExecutor.create.mockImplementationOnce(
+        async (_definition, _config, _onActivity, delegation) =>
+          ({
+            run: async () => {
+              delegation!.tokenBudget!.usedTokens = 1000;
+              return {
+                result: 'ok',
+                terminate_reason: AgentTerminateMode.GOAL,
+              };
+            },
+          }) as unknown as AgentExecutor<z.ZodTypeAny>,
+      );
+      const tool = new AgentMapTool(mockConfig);
+      const invocation = tool.build({
+        agent: 'MockAgent',
+        items: [{ task: 'a' }, { task: 'b' }, { task: 'c' }],
+        concurrency: 1,
+        max_tokens: 1000,
+      });
+
+      const result = await invocation.execute(signal);
+      const content = JSON.parse(result.llmContent as string);
+
+      expect(MockAgentExecutor.create).toHaveBeenCalledOnce();
+      expect(content.summary).toEqual({ GOAL: [0], BUDGET: [1, 2] });
+    });
+
+    it('should not start items after the parent deadline has passed', async () => {
+      mockRuns(async () => ({
+        result: 'ok',
+        terminate_reason: AgentTerminateMode.GOAL,
+      }));
+      const tool = new AgentMapTool(mockConfig, undefined, () => ({
+        parentChain: ['Parent'],
+        deadline: Date.now() - 1,
+      }));
+      const invocation = tool.build({
+        agent: 'MockAgent',
+        items: [{ task: 'a' }, { task: 'b' }],
+      });
+
+      const result = await invocation.execute(signal);
+      const content = JSON.parse(result.llmContent as string);
+
+      expect(MockAgentExecutor.create).not.toHaveBeenCalled();
+      expect(content.summary).toEqual({ TIMEOUT: [0, 1] });
+    });
+  });
+});
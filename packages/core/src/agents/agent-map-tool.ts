@@ -0,0 +1,330 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Kind,
+  type ToolInvocation,
+  type ToolResult,
+} from '../tools/tools.js';
+import { AGENT_MAP_TOOL_NAME } from '../tools/tool-names.js';
+import type { Config } from '../config/config.js';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { AgentExecutor } from './executor.js';
+import { convertInputConfigToJsonSchema } from './schema-utils.js';
+import {
+  AgentTerminateMode,
+  type AgentDefinition,
+  type AgentDelegationContext,
+  type AgentInputs,
+  type AgentTokenBudget,
+  type OutputObject,
+} from './types.js';
+
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 8;
+const MAX_ITEMS = 50;
+
+export interface AgentMapParams {
+  /** Name of the agent to run for every item. */
+  agent: string;
+  /** The inputs of each run. */
+  items: AgentInputs[];
+  /** How many runs may be in progress at once. */
+  concurrency?: number;
+  /** Time budget shared by all runs. Defaults to the agent's own limit. */
+  max_time_minutes?: number;
+  /** Token budget shared by all runs. */
+  max_tokens?: number;
+}
+
+/**
+ * The outcome of one item of a map, as returned to the model.
+ */
+export interface AgentMapItemResult extends OutputObject {
+  index: number;
+}
+
+const DESCRIPTION = `Runs the same subagent on several independent inputs in parallel and returns all of their results together.
+
+Use this instead of calling a subagent repeatedly when the work splits into independent items, e.g. investigating each of several packages. Each item is a complete set of inputs for the agent. All runs share one time budget and, optionally, one token budget. The result lists every item with its termination reason so that items that timed out, ran out of turns or failed can be retried or reported.`;
+
+/**
+ * Runs an agent over a list of inputs with bounded concurrency.
+ */
+class AgentMapInvocation extends BaseToolInvocation<
+  AgentMapParams,
+  ToolResult
+> {
+  constructor(
+    params: AgentMapParams,
+    private readonly definition: AgentDefinition,
+    private readonly config: Config,
+    private readonly delegation: AgentDelegationContext | undefined,
+    messageBus?: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+  }
+
+  getDescription(): string {
+    return `Running subagent '${this.definition.name}' on ${this.params.items.length} item(s)`;
+  }
+
+  async execute(
+    signal: AbortSignal,
+    updateOutput?: (output: string) => void,
+  ): Promise<ToolResult> {
+    const { items } = this.params;
+    const concurrency = Math.min(
+      this.params.concurrency ?? DEFAULT_CONCURRENCY,
+      items.length,
+    );
+    const maxTimeMinutes =
+      this.params.max_time_minutes ??
+      this.definition.runConfig.max_time_minutes;
+    const deadline = Math.min(
+      Date.now() + maxTimeMinutes * 60 * 1000,
+      this.delegation?.deadline ?? Infinity,
+    );
+    const tokenBudget: AgentTokenBudget | undefined =
+      this.params.max_tokens !== undefined
+        ? { maxTokens: this.params.max_tokens, usedTokens: 0 }
+        : this.delegation?.tokenBudget;
+    const delegation: AgentDelegationContext = {
+      parentChain: this.delegation?.parentChain ?? [],
+      deadline,
+      onActivity: this.delegation?.onActivity,
+      tokenBudget,
+    };
+
+    const results: AgentMapItemResult[] = [];
+    let nextIndex = 0;
+    const runNext = async (): Promise<void> => {
+      while (nextIndex < items.length) {
+        const index = nextIndex++;
+        const output = await this.runItem(index, delegation, signal);
+        results.push({ index, ...output });
+        updateOutput?.(
+          `Finished ${results.length}/${items.length} (item ${index}: ${output.terminate_reason})\n`,
+        );
+      }
+    };
+
+    updateOutput?.(
+      `Running '${this.definition.name}' on ${items.length} item(s), ${concurrency} at a time...\n`,
+    );
+    await Promise.all(Array.from({ length: concurrency }, runNext));
+    results.sort((a, b) => a.index - b.index);
+
+    const summary = summarize(results);
+    return {
+      llmContent: JSON.stringify(
+        { agent: this.definition.name, summary, results },
+        null,
+        2,
+      ),
+      returnDisplay: formatDisplay(this.definition.name, results, summary),
+    };
+  }
+
+  private async runItem(
+    index: number,
+    delegation: AgentDelegationContext,
+    signal: AbortSignal,
+  ): Promise<OutputObject> {
+    if (signal.aborted) {
+      return {
+        result: 'Not started: the map was cancelled.',
+        terminate_reason: AgentTerminateMode.ABORTED,
+      };
+    }
+    if (
+      delegation.deadline !== undefined &&
+      Date.now() >= delegation.deadline
+    ) {
+      return {
+        result: 'Not started: the shared time budget was used up.',
+        terminate_reason: AgentTerminateMode.TIMEOUT,
+      };
+    }
+    const { tokenBudget } = delegation;
+    if (tokenBudget && tokenBudget.usedTokens >= tokenBudget.maxTokens) {
+      return {
+        result: 'Not started: the shared token budget was used up.',
+        terminate_reason: AgentTerminateMode.BUDGET,
+      };
+    }
+
+    try {
+      const executor = await AgentExecutor.create(
+        this.definition,
+        this.config,
+        delegation.onActivity,
+        delegation,
+      );
+      return await executor.run(this.params.items[index], signal);
+    } catch (error) {
+      return {
+        result: error instanceof Error ? error.message : String(error),
+        terminate_reason: AgentTerminateMode.ERROR,
+      };
+    }
+  }
+}
+
+type AgentMapSummary = Partial<Record<AgentTerminateMode, number[]>>;
+
+/** Groups item indices by how their run ended. */
+function summarize(results: AgentMapItemResult[]): AgentMapSummary {
+  const summary: AgentMapSummary = {};
+  for (const { index, terminate_reason } of results) {
+    (summary[terminate_reason] ??= []).push(index);
+  }
+  return summary;
+}
+
+function formatDisplay(
+  agentName: string,
+  results: AgentMapItemResult[],
+  summary: AgentMapSummary,
+): string {
+  const counts = Object.entries(summary)
+    .map(([reason, indices]) => `${reason}: ${indices.length}`)
+    .join(', ');
+  const lines = [
+    `Subagent ${agentName} ran on ${results.length} item(s) (${counts})`,
+  ];
+  for (const result of results) {
+    lines.push('', `Item ${result.index} (${result.terminate_reason}):`);
+    lines.push(result.result);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Exposes parallel "map" runs of registered agents as a tool.
+ */
+export class AgentMapTool extends BaseDeclarativeTool<
+  AgentMapParams,
+  ToolResult
+> {
+  static readonly Name = AGENT_MAP_TOOL_NAME;
+
+  /**
+   * @param config The runtime configuration; agents are looked up in its
+   * agent registry.
+   * @param messageBus Optional message bus for policy enforcement.
+   * @param getDelegationContext Provides the calling agents when the tool is
+   * exposed to another agent rather than to the main session.
+   */
+  constructor(
+    private readonly config: Config,
+    messageBus?: MessageBus,
+    private readonly getDelegationContext?: () => AgentDelegationContext,
+  ) {
+    super(
+      AgentMapTool.Name,
+      'Map Subagent',
+      DESCRIPTION,
+      Kind.Think,
+      {
+        type: 'object',
+        properties: {
+          agent: {
+            type: 'string',
+            description: 'The name of the subagent to run.',
+          },
+          items: {
+            type: 'array',
+            description:
+              'One object per run, holding the inputs the subagent expects.',
+            items: { type: 'object' },
+            minItems: 1,
+            maxItems: MAX_ITEMS,
+          },
+          concurrency: {
+            type: 'integer',
+            description: `How many runs may be in progress at once (default ${DEFAULT_CONCURRENCY}, at most ${MAX_CONCURRENCY}).`,
+            minimum: 1,
+            maximum: MAX_CONCURRENCY,
+          },
+          max_time_minutes: {
+            type: 'number',
+            description:
+              "Time budget for all runs together. Defaults to the subagent's own time limit.",
+            exclusiveMinimum: 0,
+          },
+          max_tokens: {
+            type: 'integer',
+            description:
+              'Token budget for all runs together. Runs stop once it is used up.',
+            minimum: 1,
+          },
+        },
+        required: ['agent', 'items'],
+      },
+      /* isOutputMarkdown */ true,
+      /* canUpdateOutput */ true,
+      messageBus,
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: AgentMapParams,
+  ): string | null {
+    const definition = this.config
+      .getAgentRegistry()
+      .getDefinition(params.agent);
+    if (!definition) {
+      const available = this.config
+        .getAgentRegistry()
+        .getAllDefinitions()
+        .map((agent) => agent.name);
+      return `Unknown subagent '${params.agent}'. Available subagents: ${available.join(', ') || 'none'}.`;
+    }
+    if (this.getDelegationContext?.().parentChain.includes(params.agent)) {
+      return `Subagent '${params.agent}' is already running in this delegation chain and cannot be mapped.`;
+    }
+
+    const inputSchema = convertInputConfigToJsonSchema(definition.inputConfig);
+    for (const [index, item] of params.items.entries()) {
+      const error = SchemaValidator.validate(inputSchema, item);
+      if (error) {
+        return `Invalid inputs for item ${index}: ${error}`;
+      }
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: AgentMapParams,
+    messageBus?: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<AgentMapParams, ToolResult> {
+    const definition = this.config
+      .getAgentRegistry()
+      .getDefinition(params.agent);
+    if (!definition) {
+      // validateToolParamValues runs first, so this only happens if the
+      // registry changed in between.
+      throw new Error(`Unknown subagent '${params.agent}'.`);
+    }
+    return new AgentMapInvocation(
+      params,
+      definition,
+      this.config,
+      this.getDelegationContext?.(),
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
@@ -4,12 +4,41 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { AgentExecutor, type ActivityCallback } from './executor.js';
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+  type Mock,
+} from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  AgentExecutor,
+  MAX_AGENT_DELEGATION_DEPTH,
+  type ActivityCallback,
+} from './executor.js';
+import type { AgentRegistry } from './registry.js';
+import { SubagentToolWrapper } from './subagent-tool-wrapper.js';
+import { AgentMapTool } from './agent-map-tool.js';
+import {
+  hashAgentDefinition,
+  listAgentRuns,
+  loadAgentRun,
+} from './run-transcript.js';
+import { ReplayContentGenerator } from './replay-content-generator.js';
+import type { SubagentInvocation } from './invocation.js';
 import { makeFakeConfig } from '../test-utils/config.js';
 import { ToolRegistry } from '../tools/tool-registry.js';
 import { LSTool } from '../tools/ls.js';
-import { LS_TOOL_NAME, READ_FILE_TOOL_NAME } from '../tools/tool-names.js';
+import {
+  AGENT_MAP_TOOL_NAME,
+  LS_TOOL_NAME,
+  READ_FILE_TOOL_NAME,
+} from '../tools/tool-names.js';
 import {
   GeminiChat,
   StreamEventType,
@@ -35,11 +64,42 @@ import type {
   OutputConfig,
 } from './types.js';
 import { AgentTerminateMode } from './types.js';
-import type { AnyDeclarativeTool, AnyToolInvocation } from '../tools/tools.js';
-
-const { mockSendMessageStream, mockExecuteToolCall } = vi.hoisted(() => ({
+import type {
+  AnyDeclarativeTool,
+  AnyToolInvocation,
+  Todo,
+} from '../tools/tools.js';
+import { ToolConfirmationOutcome } from '../tools/tools.js';
+import type {
+  ToolCallRequestInfo,
+  ToolCallResponseInfo,
+} from '../core/turn.js';
+import type {
+  ConfirmHandler,
+  WaitingToolCall,
+} from '../core/coreToolScheduler.js';
+import {
+  MessageBusType,
+  type SubagentToolConfirmationRequest,
+  type SubagentToolConfirmationResponse,
+  type UpdatePolicy,
+} from '../confirmation-bus/types.js';
+import { PolicyDecision } from '../policy/types.js';
+import { DiscoveredMCPTool } from '../tools/mcp-tool.js';
+import { getMCPServerStatus, MCPServerStatus } from '../tools/mcp-client.js';
+import { ApprovalMode, MCPServerConfig } from '../config/config.js';
+import type { CallableTool } from '@google/genai';
+
+const {
+  mockSendMessageStream,
+  mockExecuteToolCall,
+  mockConnectToMcpServer,
+  mockDiscoverTools,
+} = vi.hoisted(() => ({
   mockSendMessageStream: vi.fn(),
   mockExecuteToolCall: vi.fn(),
+  mockConnectToMcpServer: vi.fn(),
+  mockDiscoverTools: vi.fn(),
 }));
 
 vi.mock('../core/geminiChat.js', async (importOriginal) => {
@@ -56,6 +116,16 @@ vi.mock('../core/nonInteractiveToolExecutor.js', () => ({
   executeToolCall: mockExecuteToolCall,
 }));
 
+vi.mock('../tools/mcp-client.js', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('../tools/mcp-client.js')>();
+  return {
+    ...actual,
+    connectToMcpServer: mockConnectToMcpServer,
+    discoverTools: mockDiscoverTools,
+  };
+});
+
 vi.mock('../utils/environmentContext.js');
 
 vi.mock('../telemetry/loggers.js', () => ({
@@ -84,7 +154,7 @@ const mockedLogAgentFinish = vi.mocked(logAgentFinish);
 
 // Constants for testing
 const TASK_COMPLETE_TOOL_NAME = 'complete_task';
-const MOCK_TOOL_NOT_ALLOWED = new MockTool({ name: 'write_file_interactive' });
+const MOCK_INTERACTIVE_TOOL = new MockTool({ name: 'write_file_interactive' });
 
 /**
  * Helper to create a mock API response chunk.
@@ -141,6 +211,7 @@ const getMockMessageParams = (callIndex: number) => {
 
 let mockConfig: Config;
 let parentToolRegistry: ToolRegistry;
+let runsDir: string;
 
 /**
  * Type-safe helper to create agent definitions for tests.
@@ -200,12 +271,16 @@ describe('AgentExecutor', () => {
     vi.useFakeTimers();
 
     mockConfig = makeFakeConfig();
+    runsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-runs-'));
+    vi.spyOn(mockConfig.storage, 'getProjectTempAgentRunsDir').mockReturnValue(
+      runsDir,
+    );
     parentToolRegistry = new ToolRegistry(mockConfig);
     parentToolRegistry.registerTool(new LSTool(mockConfig));
     parentToolRegistry.registerTool(
       new MockTool({ name: READ_FILE_TOOL_NAME }),
     );
-    parentToolRegistry.registerTool(MOCK_TOOL_NOT_ALLOWED);
+    parentToolRegistry.registerTool(MOCK_INTERACTIVE_TOOL);
 
     vi.spyOn(mockConfig, 'getToolRegistry').mockResolvedValue(
       parentToolRegistry,
@@ -223,6 +298,7 @@ describe('AgentExecutor', () => {
 
   afterEach(() => {
     vi.useRealTimers();
+    fs.rmSync(runsDir, { recursive: true, force: true });
   });
 
   describe('create (Initialization and Validation)', () => {
@@ -236,11 +312,18 @@ describe('AgentExecutor', () => {
       expect(executor).toBeInstanceOf(AgentExecutor);
     });
 
-    it('SECURITY: should throw if a tool is not on the non-interactive allowlist', async () => {
-      const definition = createTestDefinition([MOCK_TOOL_NOT_ALLOWED.name]);
-      await expect(
-        AgentExecutor.create(definition, mockConfig, onActivity),
-      ).rejects.toThrow(/not on the allow-list for non-interactive execution/);
+    it('should create successfully with tools that require confirmation', async () => {
+      const definition = createTestDefinition([MOCK_INTERACTIVE_TOOL.name]);
+      const executor = await AgentExecutor.create(
+        definition,
+        mockConfig,
+        onActivity,
+      );
+
+      const agentRegistry = executor['toolRegistry'] as ToolRegistry;
+      expect(agentRegistry.getTool(MOCK_INTERACTIVE_TOOL.name)).toBe(
+        MOCK_INTERACTIVE_TOOL,
+      );
     });
 
     it('should create an isolated ToolRegistry for the agent', async () => {
@@ -261,7 +344,204 @@ describe('AgentExecutor', () => {
         expect.arrayContaining([LS_TOOL_NAME, READ_FILE_TOOL_NAME]),
       );
       expect(agentRegistry.getAllToolNames()).toHaveLength(2);
-      expect(agentRegistry.getTool(MOCK_TOOL_NOT_ALLOWED.name)).toBeUndefined();
+      expect(agentRegistry.getTool(MOCK_INTERACTIVE_TOOL.name)).toBeUndefined();
+    });
+
+    describe('MCP servers', () => {
+      const createMcpTool = (serverName: string, trust = true) =>
+        new DiscoveredMCPTool(
+          {} as CallableTool,
+          serverName,
+          'list_issues',
+          'Lists issues.',
+          { type: 'object', properties: {} },
+          trust,
+        );
+
+      const createMcpDefinition = (mcpServers: string[]) => {
+        const definition = createTestDefinition([LS_TOOL_NAME]);
+        definition.toolConfig = { tools: [LS_TOOL_NAME], mcpServers };
+        return definition;
+      };
+
+      const createServerConfig = (trust: boolean) =>
+        new MCPServerConfig(
+          'github-mcp',
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          trust,
+        );
+
+      let mockClient: { close: Mock };
+
+      beforeEach(() => {
+        vi.spyOn(mockConfig, 'getMcpServers').mockReturnValue({
+          github: createServerConfig(true),
+        });
+        mockClient = { close: vi.fn().mockResolvedValue(undefined) };
+        mockConnectToMcpServer.mockResolvedValue(mockClient);
+        mockDiscoverTools.mockResolvedValue([]);
+      });
+
+      it('should register only the tools of a running MCP server', async () => {
+        parentToolRegistry.registerTool(createMcpTool('github'));
+        parentToolRegistry.registerTool(createMcpTool('jira'));
+
+        const executor = await AgentExecutor.create(
+          createMcpDefinition(['github']),
+          mockConfig,
+        );
+
+        const agentRegistry = executor['toolRegistry'] as ToolRegistry;
+        expect(agentRegistry.getToolsByServer('github')).toHaveLength(1);
+        expect(agentRegistry.getToolsByServer('jira')).toHaveLength(0);
+        expect(mockConnectToMcpServer).not.toHaveBeenCalled();
+      });
+
+      it('should start a configured MCP server on demand', async () => {
+        mockDiscoverTools.mockResolvedValue([createMcpTool('github')]);
+
+        const executor = await AgentExecutor.create(
+          createMcpDefinition(['github']),
+          mockConfig,
+        );
+
+        expect(mockConnectToMcpServer).toHaveBeenCalledOnce();
+        const agentRegistry = executor['toolRegistry'] as ToolRegistry;
+        expect(parentToolRegistry.getToolsByServer('github')).toHaveLength(0);
+        expect(agentRegistry.getToolsByServer('github')).toHaveLength(1);
+        expect(getMCPServerStatus('github')).toBe(MCPServerStatus.DISCONNECTED);
+      });
+
+      it('should stop MCP servers it started when the run ends', async () => {
+        mockDiscoverTools.mockResolvedValue([createMcpTool('github')]);
+        const executor = await AgentExecutor.create(
+          createMcpDefinition(['github']),
+          mockConfig,
+        );
+        mockModelResponse([
+          {
+            name: TASK_COMPLETE_TOOL_NAME,
+            args: { finalResult: 'done' },
+            id: 'call1',
+          },
+        ]);
+
+        await executor.run({ goal: 'Triage' }, signal);
+
+        expect(mockClient.close).toHaveBeenCalledOnce();
+      });
+
+      it('should stop the MCP server when it exposes no tools', async () => {
+        await expect(
+          AgentExecutor.create(createMcpDefinition(['github']), mockConfig),
+        ).rejects.toThrow(/could not be started or exposes no tools/);
+
+        expect(mockClient.close).toHaveBeenCalledOnce();
+      });
+
+      it('should throw when an MCP server is not configured', async () => {
+        await expect(
+          AgentExecutor.create(createMcpDefinition(['unknown']), mockConfig),
+        ).rejects.toThrow(
+          'Agent "TestAgent" references unknown MCP server "unknown". Configured servers: github.',
+        );
+      });
+
+      it('should throw when an MCP server exposes no tools', async () => {
+        await expect(
+          AgentExecutor.create(createMcpDefinition(['github']), mockConfig),
+        ).rejects.toThrow(/could not be started or exposes no tools/);
+      });
+
+      it('should use MCP servers that are not marked as trusted', async () => {
+        vi.spyOn(mockConfig, 'getMcpServers').mockReturnValue({
+          github: createServerConfig(false),
+        });
+        mockDiscoverTools.mockResolvedValue([createMcpTool('github', false)]);
+
+        const executor = await AgentExecutor.create(
+          createMcpDefinition(['github']),
+          mockConfig,
+        );
+
+        const agentRegistry = executor['toolRegistry'] as ToolRegistry;
+        expect(agentRegistry.getToolsByServer('github')).toHaveLength(1);
+      });
+
+      it('should not start an MCP server in an untrusted folder', async () => {
+        vi.spyOn(mockConfig, 'isTrustedFolder').mockReturnValue(false);
+
+        await expect(
+          AgentExecutor.create(createMcpDefinition(['github']), mockConfig),
+        ).rejects.toThrow(
+          'Agent "TestAgent" cannot start MCP server "github" in an untrusted folder.',
+        );
+        expect(mockConnectToMcpServer).not.toHaveBeenCalled();
+      });
+
+      it('should send MCP tool schemas to the model and execute them with the agent registry', async () => {
+        parentToolRegistry.registerTool(createMcpTool('github'));
+        const executor = await AgentExecutor.create(
+          createMcpDefinition(['github']),
+          mockConfig,
+        );
+
+        mockModelResponse([{ name: 'list_issues', args: {}, id: 'mcp1' }]);
+        mockExecuteToolCall.mockResolvedValueOnce({
+          status: 'success',
+          request: {
+            callId: 'mcp1',
+            name: 'list_issues',
+            args: {},
+            isClientInitiated: true,
+            prompt_id: 'test-prompt',
+          },
+          tool: {} as AnyDeclarativeTool,
+          invocation: {} as AnyToolInvocation,
+          response: {
+            callId: 'mcp1',
+            resultDisplay: 'ok',
+            responseParts: [],
+            error: undefined,
+            errorType: undefined,
+            contentLength: undefined,
+          },
+        });
+        mockModelResponse([
+          {
+            name: TASK_COMPLETE_TOOL_NAME,
+            args: { finalResult: 'done' },
+            id: 'call2',
+          },
+        ]);
+
+        await executor.run({ goal: 'Triage' }, signal);
+
+        const sentTools = (
+          getMockMessageParams(0).config?.tools?.[0] as {
+            functionDeclarations: Array<{ name: string }>;
+          }
+        ).functionDeclarations;
+        expect(sentTools).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({ name: 'list_issues' }),
+          ]),
+        );
+        expect(mockExecuteToolCall).toHaveBeenCalledWith(
+          mockConfig,
+          expect.objectContaining({ name: 'list_issues' }),
+          signal,
+          executor['toolRegistry'],
+          expect.any(Function),
+        );
+      });
     });
 
     it('should use parentPromptId from context to create agentId', async () => {
@@ -281,6 +561,121 @@ describe('AgentExecutor', () => {
     });
   });
 
+  describe('create (Agent Delegation)', () => {
+    const helperDefinition: AgentDefinition = {
+      ...createTestDefinition(),
+      name: 'Helper',
+      description: 'Helps.',
+    };
+
+    const getNestedDelegation = (executor: AgentExecutor<z.ZodTypeAny>) => {
+      const tool = (executor['toolRegistry'] as ToolRegistry).getTool('Helper');
+      expect(tool).toBeInstanceOf(SubagentToolWrapper);
+      const invocation = tool!.build({
+        goal: 'help',
+      }) as SubagentInvocation<z.ZodTypeAny>;
+      return invocation['delegation'];
+    };
+
+    beforeEach(() => {
+      vi.spyOn(mockConfig, 'getAgentRegistry').mockReturnValue({
+        getDefinition: (name: string) =>
+          name === 'Helper' ? helperDefinition : undefined,
+      } as unknown as AgentRegistry);
+    });
+
+    it('should expose agents named in the tool list as nested agents', async () => {
+      const definition = createTestDefinition([LS_TOOL_NAME, 'Helper']);
+      const executor = await AgentExecutor.create(
+        definition,
+        mockConfig,
+        onActivity,
+      );
+
+      expect(getNestedDelegation(executor)).toEqual({
+        parentChain: ['TestAgent'],
+        deadline: undefined,
+        onActivity,
+      });
+    });
+
+    it('should extend the parent chain of a nested agent', async () => {
+      const definition = createTestDefinition(['Helper']);
+      const executor = await AgentExecutor.create(
+        definition,
+        mockConfig,
+        onActivity,
+        { parentChain: ['Planner'] },
+      );
+
+      expect(getNestedDelegation(executor)?.parentChain).toEqual([
+        'Planner',
+        'TestAgent',
+      ]);
+    });
+
+    it('should not delegate beyond the depth limit', async () => {
+      const parentChain = Array.from(
+        { length: MAX_AGENT_DELEGATION_DEPTH - 1 },
+        (_, i) => `Agent${i}`,
+      );
+      const executor = await AgentExecutor.create(
+        createTestDefinition(['Helper']),
+        mockConfig,
+        onActivity,
+        { parentChain },
+      );
+
+      expect(
+        (executor['toolRegistry'] as ToolRegistry).getTool('Helper'),
+      ).toBeUndefined();
+    });
+
+    it('should not delegate to an agent already in the chain', async () => {
+      const executor = await AgentExecutor.create(
+        createTestDefinition(['Helper']),
+        mockConfig,
+        onActivity,
+        { parentChain: ['Helper'] },
+      );
+
+      expect(
+        (executor['toolRegistry'] as ToolRegistry).getTool('Helper'),
+      ).toBeUndefined();
+    });
+
+    it('should give agents that list map_agent the map tool', async () => {
+      const executor = await AgentExecutor.create(
+        createTestDefinition([AGENT_MAP_TOOL_NAME]),
+        mockConfig,
+        onActivity,
+      );
+
+      expect(
+        (executor['toolRegistry'] as ToolRegistry).getTool(AGENT_MAP_TOOL_NAME),
+      ).toBeInstanceOf(AgentMapTool);
+    });
+
+    it('should pass its time budget on to nested agents', async () => {
+      const parentDeadline = Date.now() + 60 * 1000;
+      const definition = createTestDefinition(['Helper']);
+      const executor = await AgentExecutor.create(
+        definition,
+        mockConfig,
+        onActivity,
+        { parentChain: ['Planner'], deadline: parentDeadline },
+      );
+      mockModelResponse([
+        { name: TASK_COMPLETE_TOOL_NAME, args: { finalResult: 'done' } },
+      ]);
+
+      await executor.run({ goal: 'Delegate' }, signal);
+
+      // The caller's deadline is earlier than this agent's own 5 minutes.
+      expect(getNestedDelegation(executor)?.deadline).toBe(parentDeadline);
+    });
+  });
+
   describe('run (Execution Loop and Logic)', () => {
     it('should log AgentFinish with error if run throws', async () => {
       const definition = createTestDefinition();
@@ -296,7 +691,7 @@ describe('AgentExecutor', () => {
 
       // Run without inputs to trigger validation error
       await expect(executor.run({}, signal)).rejects.toThrow(
-        /Missing required input parameters/,
+        /Invalid agent inputs: params must have required property 'goal'/,
       );
 
       expect(mockedLogAgentStart).toHaveBeenCalledTimes(1);
@@ -309,6 +704,88 @@ describe('AgentExecutor', () => {
       );
     });
 
+    it('should keep the todo list of the run apart from the session', async () => {
+      const sessionTodos: Todo[] = [
+        { description: 'Main task', status: 'in_progress' },
+      ];
+      mockConfig.getTodoStore().setTodos(sessionTodos);
+      const executor = await AgentExecutor.create(
+        createTestDefinition(),
+        mockConfig,
+      );
+      let agentTodos: Todo[] | undefined;
+      mockModelResponse([
+        { name: LS_TOOL_NAME, args: { path: '.' }, id: 'call1' },
+      ]);
+      mockExecuteToolCall.mockImplementationOnce(
+        async (_ctx, reqInfo: ToolCallRequestInfo) => {
+          mockConfig.getTodoStore().setPlan('Find files', ['List files']);
+          agentTodos = mockConfig.getTodoStore().getTodos();
+          return {
+            status: 'success',
+            request: reqInfo,
+            tool: {} as AnyDeclarativeTool,
+            invocation: {} as AnyToolInvocation,
+            response: {
+              callId: reqInfo.callId,
+              resultDisplay: 'file1.txt',
+              responseParts: [],
+              error: undefined,
+              errorType: undefined,
+              contentLength: undefined,
+            },
+          };
+        },
+      );
+      mockModelResponse([
+        {
+          name: TASK_COMPLETE_TOOL_NAME,
+          args: { finalResult: 'done' },
+          id: 'call2',
+        },
+      ]);
+
+      await executor.run({ goal: 'Find files' }, signal);
+
+      expect(agentTodos).toEqual([
+        { description: 'List files', status: 'pending' },
+      ]);
+      expect(mockConfig.getTodoStore().getTodos()).toEqual(sessionTodos);
+      expect(mockConfig.getTodoStore().getPlan()).toBeUndefined();
+    });
+
+    it('should only revoke the grants made in its own run when it ends', async () => {
+      const policyEngine = mockConfig.getPolicyEngine();
+      const allowLs = {
+        toolName: LS_TOOL_NAME,
+        agentName: 'TestAgent',
+        decision: PolicyDecision.ALLOW,
+      };
+      const executor = await AgentExecutor.create(
+        createTestDefinition(),
+        mockConfig,
+      );
+      mockModelResponse([
+        {
+          name: TASK_COMPLETE_TOOL_NAME,
+          args: { finalResult: 'done' },
+          id: 'call1',
+        },
+      ]);
+      policyEngine.addGrant(allowLs, { scope: 'agent-run' }, 'TestAgent-other');
+      policyEngine.addGrant(
+        allowLs,
+        { scope: 'agent-run' },
+        executor['agentId'],
+      );
+
+      await executor.run({ goal: 'Finish' }, signal);
+
+      expect(policyEngine.getGrants().map((rule) => rule.grant)).toEqual([
+        expect.objectContaining({ agentRunId: 'TestAgent-other' }),
+      ]);
+    });
+
     it('should execute successfully when model calls complete_task with output (Happy Path with Output)', async () => {
       const definition = createTestDefinition();
       const executor = await AgentExecutor.create(
@@ -865,62 +1342,667 @@ describe('AgentExecutor', () => {
     });
   });
 
-  describe('run (Termination Conditions)', () => {
-    const mockWorkResponse = (id: string) => {
-      mockModelResponse([{ name: LS_TOOL_NAME, args: { path: '.' }, id }]);
-      mockExecuteToolCall.mockResolvedValueOnce({
-        status: 'success',
-        request: {
-          callId: id,
-          name: LS_TOOL_NAME,
-          args: { path: '.' },
-          isClientInitiated: false,
-          prompt_id: 'test-prompt',
+  describe('run (Tool Confirmations)', () => {
+    let confirmationOutcome: ToolConfirmationOutcome | undefined;
+
+    /**
+     * Makes the mocked executeToolCall request approval through the
+     * executor's confirmation handler, like the scheduler does for tools
+     * that require confirmation.
+     */
+    const mockToolCallRequiringApproval = () => {
+      mockExecuteToolCall.mockImplementationOnce(
+        async (
+          _ctx,
+          reqInfo: ToolCallRequestInfo,
+          _signal,
+          _registry,
+          onConfirm: ConfirmHandler,
+        ) => {
+          confirmationOutcome = await onConfirm({
+            status: 'awaiting_approval',
+            request: reqInfo,
+            tool: MOCK_INTERACTIVE_TOOL,
+            invocation: {} as AnyToolInvocation,
+            confirmationDetails: {
+              type: 'info',
+              title: `Confirm: ${reqInfo.name}`,
+              prompt: 'Write the file',
+              onConfirm: async () => {},
+            },
+          } as WaitingToolCall);
+          return {
+            status: 'success',
+            request: reqInfo,
+            tool: MOCK_INTERACTIVE_TOOL,
+            invocation: {} as AnyToolInvocation,
+            response: {
+              callId: reqInfo.callId,
+              resultDisplay: 'ok',
+              responseParts: [],
+              error: undefined,
+              errorType: undefined,
+              contentLength: undefined,
+            } as ToolCallResponseInfo,
+          };
         },
-        tool: {} as AnyDeclarativeTool,
-        invocation: {} as AnyToolInvocation,
-        response: {
-          callId: id,
-          resultDisplay: 'ok',
-          responseParts: [
-            { functionResponse: { name: LS_TOOL_NAME, response: {}, id } },
-          ],
-          error: undefined,
-          errorType: undefined,
-          contentLength: undefined,
+      );
+    };
+
+    const runAgentCallingInteractiveTool = async () => {
+      const executor = await AgentExecutor.create(
+        createTestDefinition([MOCK_INTERACTIVE_TOOL.name]),
+        mockConfig,
+      );
+      mockModelResponse([
+        { name: MOCK_INTERACTIVE_TOOL.name, args: {}, id: 'write1' },
+      ]);
+      mockToolCallRequiringApproval();
+      mockModelResponse([
+        {
+          name: TASK_COMPLETE_TOOL_NAME,
+          args: { finalResult: 'done' },
+          id: 'call2',
         },
-      });
+      ]);
+      await executor.run({ goal: 'Write' }, signal);
     };
 
-    it('should terminate when max_turns is reached', async () => {
-      const MAX = 2;
-      const definition = createTestDefinition([LS_TOOL_NAME], {
-        max_turns: MAX,
+    beforeEach(() => {
+      confirmationOutcome = undefined;
+    });
+
+    it('should approve calls allowed by a policy for the agent', async () => {
+      mockConfig.getPolicyEngine().addRule({
+        toolName: MOCK_INTERACTIVE_TOOL.name,
+        agentName: 'TestAgent',
+        decision: PolicyDecision.ALLOW,
       });
-      const executor = await AgentExecutor.create(definition, mockConfig);
 
-      mockWorkResponse('t1');
-      mockWorkResponse('t2');
+      await runAgentCallingInteractiveTool();
 
-      const output = await executor.run({ goal: 'Turns test' }, signal);
+      expect(confirmationOutcome).toBe(ToolConfirmationOutcome.ProceedOnce);
+    });
 
-      expect(output.terminate_reason).toBe(AgentTerminateMode.MAX_TURNS);
-      expect(mockSendMessageStream).toHaveBeenCalledTimes(MAX);
+    it('should cancel calls when nobody can confirm them', async () => {
+      await runAgentCallingInteractiveTool();
+
+      expect(confirmationOutcome).toBe(ToolConfirmationOutcome.Cancel);
     });
 
-    it('should terminate if timeout is reached', async () => {
-      const definition = createTestDefinition([LS_TOOL_NAME], {
-        max_time_minutes: 1,
-      });
-      const executor = await AgentExecutor.create(definition, mockConfig);
+    it('should ask the user with the agent name and honor their answer', async () => {
+      const messageBus = mockConfig.getMessageBus();
+      const requests: SubagentToolConfirmationRequest[] = [];
+      messageBus.subscribe(
+        MessageBusType.SUBAGENT_TOOL_CONFIRMATION_REQUEST,
+        (request: SubagentToolConfirmationRequest) => {
+          requests.push(request);
+          messageBus.publish({
+            type: MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+            correlationId: request.correlationId,
+            outcome: ToolConfirmationOutcome.ProceedOnce,
+          });
+        },
+      );
 
-      mockModelResponse([
-        { name: LS_TOOL_NAME, args: { path: '.' }, id: 't1' },
-      ]);
+      await runAgentCallingInteractiveTool();
 
-      // Long running tool
-      mockExecuteToolCall.mockImplementationOnce(async (_ctx, reqInfo) => {
-        await vi.advanceTimersByTimeAsync(61 * 1000);
+      expect(requests).toHaveLength(1);
+      expect(requests[0]).toMatchObject({
+        agentName: 'TestAgent',
+        toolCall: { name: MOCK_INTERACTIVE_TOOL.name },
+      });
+      expect(confirmationOutcome).toBe(ToolConfirmationOutcome.ProceedOnce);
+    });
+
+    it('should withdraw the request when the run is aborted', async () => {
+      const messageBus = mockConfig.getMessageBus();
+      const responses: SubagentToolConfirmationResponse[] = [];
+      messageBus.subscribe(
+        MessageBusType.SUBAGENT_TOOL_CONFIRMATION_REQUEST,
+        () => abortController.abort(),
+      );
+      messageBus.subscribe(
+        MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+        (response: SubagentToolConfirmationResponse) =>
+          responses.push(response),
+      );
+
+      await runAgentCallingInteractiveTool();
+
+      expect(confirmationOutcome).toBe(ToolConfirmationOutcome.Cancel);
+      expect(responses).toEqual([
+        expect.objectContaining({ outcome: ToolConfirmationOutcome.Cancel }),
+      ]);
+    });
+
+    it('should withdraw the request when the run times out', async () => {
+      vi.useFakeTimers();
+      try {
+        const messageBus = mockConfig.getMessageBus();
+        const responses: SubagentToolConfirmationResponse[] = [];
+        messageBus.subscribe(
+          MessageBusType.SUBAGENT_TOOL_CONFIRMATION_REQUEST,
+          () => {},
+        );
+        messageBus.subscribe(
+          MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+          (response: SubagentToolConfirmationResponse) =>
+            responses.push(response),
+        );
+
+        const run = runAgentCallingInteractiveTool();
+        await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+        await run;
+
+        expect(confirmationOutcome).toBe(ToolConfirmationOutcome.Cancel);
+        expect(responses).toEqual([
+          expect.objectContaining({
+            outcome: ToolConfirmationOutcome.Cancel,
+          }),
+        ]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should scope "always allow" answers to the agent', async () => {
+      const messageBus = mockConfig.getMessageBus();
+      const policyUpdates: UpdatePolicy[] = [];
+      messageBus.subscribe(
+        MessageBusType.UPDATE_POLICY,
+        (message: UpdatePolicy) => policyUpdates.push(message),
+      );
+      messageBus.subscribe(
+        MessageBusType.SUBAGENT_TOOL_CONFIRMATION_REQUEST,
+        (request: SubagentToolConfirmationRequest) => {
+          messageBus.publish({
+            type: MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+            correlationId: request.correlationId,
+            outcome: ToolConfirmationOutcome.ProceedAlways,
+          });
+        },
+      );
+
+      await runAgentCallingInteractiveTool();
+
+      expect(policyUpdates).toEqual([
+        {
+          type: MessageBusType.UPDATE_POLICY,
+          toolName: MOCK_INTERACTIVE_TOOL.name,
+          agentName: 'TestAgent',
+          agentRunId: expect.stringMatching(/^TestAgent-/),
+        },
+      ]);
+      expect(confirmationOutcome).toBe(ToolConfirmationOutcome.ProceedOnce);
+    });
+
+    const runAgentCallingReadOnlyTool = async () => {
+      const executor = await AgentExecutor.create(
+        createTestDefinition([LS_TOOL_NAME]),
+        mockConfig,
+        onActivity,
+      );
+      mockModelResponse([
+        { name: LS_TOOL_NAME, args: { path: '.' }, id: 'ls1' },
+      ]);
+      mockModelResponse([
+        {
+          name: TASK_COMPLETE_TOOL_NAME,
+          args: { finalResult: 'done' },
+          id: 'call2',
+        },
+      ]);
+      await executor.run({ goal: 'List' }, signal);
+    };
+
+    const expectDeniedReadOnlyCall = () => {
+      expect(mockExecuteToolCall).not.toHaveBeenCalled();
+      expect(getMockMessageParams(1).message).toEqual([
+        {
+          functionResponse: {
+            name: LS_TOOL_NAME,
+            id: 'ls1',
+            response: { error: expect.stringContaining('denied by policy') },
+          },
+        },
+      ]);
+      expect(activities).toContainEqual(
+        expect.objectContaining({
+          type: 'ERROR',
+          data: expect.objectContaining({ context: 'tool_call_denied' }),
+        }),
+      );
+    };
+
+    it('should deny read-only calls denied by a policy for the agent', async () => {
+      mockConfig.getPolicyEngine().addRule({
+        toolName: LS_TOOL_NAME,
+        agentName: 'TestAgent',
+        decision: PolicyDecision.DENY,
+      });
+
+      await runAgentCallingReadOnlyTool();
+
+      expectDeniedReadOnlyCall();
+    });
+
+    it('should deny calls denied by a policy for the agent in YOLO mode', async () => {
+      vi.spyOn(mockConfig, 'getApprovalMode').mockReturnValue(
+        ApprovalMode.YOLO,
+      );
+      const policyEngine = mockConfig.getPolicyEngine();
+      policyEngine.addRule({ decision: PolicyDecision.ALLOW, priority: 0 });
+      policyEngine.addRule({
+        toolName: LS_TOOL_NAME,
+        agentName: 'TestAgent',
+        decision: PolicyDecision.DENY,
+        priority: 200,
+      });
+
+      await runAgentCallingReadOnlyTool();
+
+      expectDeniedReadOnlyCall();
+    });
+
+    it('should ask the user about read-only calls when a policy for the agent says so', async () => {
+      mockConfig.getPolicyEngine().addRule({
+        toolName: LS_TOOL_NAME,
+        agentName: 'TestAgent',
+        decision: PolicyDecision.ASK_USER,
+      });
+      const messageBus = mockConfig.getMessageBus();
+      const requests: SubagentToolConfirmationRequest[] = [];
+      messageBus.subscribe(
+        MessageBusType.SUBAGENT_TOOL_CONFIRMATION_REQUEST,
+        (request: SubagentToolConfirmationRequest) => {
+          requests.push(request);
+          messageBus.publish({
+            type: MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+            correlationId: request.correlationId,
+            outcome: ToolConfirmationOutcome.Cancel,
+          });
+        },
+      );
+
+      await runAgentCallingReadOnlyTool();
+
+      expect(requests).toEqual([
+        expect.objectContaining({
+          agentName: 'TestAgent',
+          toolCall: { name: LS_TOOL_NAME, args: { path: '.' } },
+        }),
+      ]);
+      expect(mockExecuteToolCall).not.toHaveBeenCalled();
+      expect(getMockMessageParams(1).message).toEqual([
+        {
+          functionResponse: {
+            name: LS_TOOL_NAME,
+            id: 'ls1',
+            response: {
+              error: expect.stringContaining('cancelled by the user'),
+            },
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('run (Inputs)', () => {
+    const getFirstMessage = () => getMockMessageParams(0).message ?? [];
+
+    const mockCompletion = () =>
+      mockModelResponse([
+        {
+          name: TASK_COMPLETE_TOOL_NAME,
+          args: { finalResult: 'done' },
+          id: 'call1',
+        },
+      ]);
+
+    it('should apply defaults and validate inputs against their schema', async () => {
+      const definition = createTestDefinition();
+      definition.inputConfig.inputs['mode'] = {
+        type: 'string',
+        description: 'How thorough to be.',
+        required: true,
+        enum: ['fast', 'thorough'],
+        default: 'fast',
+      };
+      definition.promptConfig.query = 'Goal: ${goal} (${mode})';
+      const executor = await AgentExecutor.create(definition, mockConfig);
+      mockCompletion();
+
+      await executor.run({ goal: 'Explore' }, signal);
+
+      expect(getFirstMessage()[0]).toEqual({ text: 'Goal: Explore (fast)' });
+      await expect(
+        executor.run({ goal: 'Explore', mode: 'sloppy' }, signal),
+      ).rejects.toThrow(/Invalid agent inputs: .*allowed values/);
+    });
+
+    it('should validate object inputs against their JSON schema', async () => {
+      const definition = createTestDefinition();
+      definition.inputConfig.inputs['location'] = {
+        type: 'object',
+        description: 'Where to look.',
+        required: true,
+        schema: {
+          properties: {
+            path: { type: 'string' },
+            lineRange: {
+              type: 'array',
+              items: { type: 'integer' },
+              minItems: 2,
+              maxItems: 2,
+            },
+          },
+          required: ['path'],
+        },
+      };
+      const executor = await AgentExecutor.create(definition, mockConfig);
+
+      await expect(
+        executor.run(
+          { goal: 'Explore', location: { lineRange: [1, 2] } },
+          signal,
+        ),
+      ).rejects.toThrow(/must have required property 'path'/);
+    });
+
+    it('should attach the contents of file inputs to the first message', async () => {
+      const filePath = path.join(runsDir, 'notes.txt');
+      fs.writeFileSync(filePath, 'Remember the milk.');
+      const definition = createTestDefinition();
+      definition.inputConfig.inputs['notes'] = {
+        type: 'file',
+        description: 'Notes to read.',
+        required: true,
+      };
+      const executor = await AgentExecutor.create(definition, mockConfig);
+      mockCompletion();
+
+      await executor.run({ goal: 'Read', notes: filePath }, signal);
+
+      expect(getFirstMessage().slice(1)).toEqual([
+        { text: `Contents of ${filePath} (input 'notes'):` },
+        { text: 'Remember the milk.' },
+      ]);
+    });
+
+    it('should reject file inputs outside the workspace', async () => {
+      vi.spyOn(mockConfig, 'getWorkspaceContext').mockReturnValue({
+        isPathWithinWorkspace: () => false,
+      } as unknown as ReturnType<Config['getWorkspaceContext']>);
+      const definition = createTestDefinition();
+      definition.inputConfig.inputs['notes'] = {
+        type: 'file',
+        description: 'Notes to read.',
+        required: true,
+      };
+      const executor = await AgentExecutor.create(definition, mockConfig);
+
+      await expect(
+        executor.run({ goal: 'Read', notes: '/etc/passwd' }, signal),
+      ).rejects.toThrow(
+        "Input 'notes' must name a file within the workspace: /etc/passwd",
+      );
+      expect(mockSendMessageStream).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('run (Transcripts and Replay)', () => {
+    const lsResult: Part = {
+      functionResponse: {
+        name: LS_TOOL_NAME,
+        response: { result: 'file1.txt' },
+        id: 'call1',
+      },
+    };
+
+    const mockRecordedRun = () => {
+      mockModelResponse(
+        [{ name: LS_TOOL_NAME, args: { path: '.' }, id: 'call1' }],
+        'Listing',
+      );
+      mockExecuteToolCall.mockResolvedValueOnce({
+        status: 'success',
+        request: {
+          callId: 'call1',
+          name: LS_TOOL_NAME,
+          args: { path: '.' },
+          isClientInitiated: false,
+          prompt_id: 'test-prompt',
+        },
+        tool: {} as AnyDeclarativeTool,
+        invocation: {} as AnyToolInvocation,
+        response: {
+          callId: 'call1',
+          resultDisplay: 'file1.txt',
+          responseParts: [lsResult],
+          error: undefined,
+          errorType: undefined,
+          contentLength: undefined,
+        },
+      });
+      mockModelResponse([
+        {
+          name: TASK_COMPLETE_TOOL_NAME,
+          args: { finalResult: 'Found file1.txt' },
+          id: 'call2',
+        },
+      ]);
+    };
+
+    it('should save a transcript of every run', async () => {
+      const definition = createTestDefinition();
+      const executor = await AgentExecutor.create(
+        definition,
+        mockConfig,
+        onActivity,
+        { parentChain: ['Planner'] },
+      );
+      mockRecordedRun();
+
+      await executor.run({ goal: 'Find files' }, signal);
+
+      const [run] = listAgentRuns(mockConfig.storage);
+      expect(run).toMatchObject({
+        agentName: 'TestAgent',
+        turns: 2,
+        terminateReason: AgentTerminateMode.GOAL,
+      });
+      const transcript = loadAgentRun(mockConfig.storage, run.runId)!;
+      expect(transcript.definitionHash).toBe(hashAgentDefinition(definition));
+      expect(transcript.parentChain).toEqual(['Planner']);
+      expect(transcript.inputs).toEqual({ goal: 'Find files' });
+      expect(transcript.result).toBe('Found file1.txt');
+      expect(transcript.turns[0].response).toEqual([
+        expect.objectContaining({ thought: true }),
+      ]);
+      expect(transcript.turns[0].toolCalls).toEqual([
+        {
+          callId: 'call1',
+          name: LS_TOOL_NAME,
+          args: { path: '.' },
+          result: [lsResult],
+        },
+      ]);
+      expect(transcript.turns[1].request).toEqual([lsResult]);
+    });
+
+    it('should save the transcript when the run throws', async () => {
+      const executor = await AgentExecutor.create(
+        createTestDefinition(),
+        mockConfig,
+      );
+
+      await expect(executor.run({}, signal)).rejects.toThrow();
+
+      expect(listAgentRuns(mockConfig.storage)).toEqual([
+        expect.objectContaining({
+          turns: 0,
+          terminateReason: AgentTerminateMode.ERROR,
+        }),
+      ]);
+    });
+
+    it('should not save transcripts when recording is turned off', async () => {
+      vi.spyOn(mockConfig, 'getRecordAgentRuns').mockReturnValue(false);
+      const executor = await AgentExecutor.create(
+        createTestDefinition(),
+        mockConfig,
+      );
+      mockRecordedRun();
+
+      await executor.run({ goal: 'Find files' }, signal);
+
+      expect(listAgentRuns(mockConfig.storage)).toEqual([]);
+    });
+
+    it('should replay recorded tool results instead of running tools', async () => {
+      const definition = createTestDefinition();
+      const recording = await AgentExecutor.create(definition, mockConfig);
+      mockRecordedRun();
+      await recording.run({ goal: 'Find files' }, signal);
+      const [recorded] = listAgentRuns(mockConfig.storage);
+      const transcript = loadAgentRun(mockConfig.storage, recorded.runId)!;
+      mockExecuteToolCall.mockClear();
+      mockSendMessageStream.mockClear();
+      MockedGeminiChat.mockClear();
+
+      const replay = await AgentExecutor.create(
+        definition,
+        mockConfig,
+        undefined,
+        undefined,
+        transcript,
+      );
+      // The chat is mocked, so feed it the recorded responses directly.
+      mockModelResponse([
+        { name: LS_TOOL_NAME, args: { path: '.' }, id: 'call1' },
+      ]);
+      mockModelResponse([
+        {
+          name: TASK_COMPLETE_TOOL_NAME,
+          args: { finalResult: 'Found file1.txt' },
+          id: 'call2',
+        },
+      ]);
+      const output = await replay.run({ goal: 'Find files' }, signal);
+
+      expect(output.terminate_reason).toBe(AgentTerminateMode.GOAL);
+      expect(MockedGeminiChat.mock.calls[0][3]).toBeInstanceOf(
+        ReplayContentGenerator,
+      );
+      expect(mockExecuteToolCall).not.toHaveBeenCalled();
+      expect(getMockMessageParams(1).message).toEqual([lsResult]);
+      const replayed = listAgentRuns(mockConfig.storage).find(
+        (run) => run.replayOf === recorded.runId,
+      );
+      expect(replayed).toBeDefined();
+    });
+
+    it('should report tool calls missing from the replayed run', async () => {
+      const transcript = {
+        runId: 'abc12345',
+        agentName: 'TestAgent',
+        definitionHash: 'hash',
+        parentChain: [],
+        startTime: new Date().toISOString(),
+        inputs: { goal: 'x' },
+        turns: [],
+      };
+      const replay = await AgentExecutor.create(
+        createTestDefinition(),
+        mockConfig,
+        onActivity,
+        undefined,
+        transcript,
+      );
+      mockModelResponse([
+        { name: LS_TOOL_NAME, args: { path: '.' }, id: 'call1' },
+      ]);
+      mockModelResponse([
+        {
+          name: TASK_COMPLETE_TOOL_NAME,
+          args: { finalResult: 'done' },
+          id: 'call2',
+        },
+      ]);
+
+      await replay.run({ goal: 'x' }, signal);
+
+      expect(getMockMessageParams(1).message).toEqual([
+        {
+          functionResponse: {
+            name: LS_TOOL_NAME,
+            id: 'call1',
+            response: {
+              error: `No recorded result for '${LS_TOOL_NAME}' in turn 1 of run abc12345.`,
+            },
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('run (Termination Conditions)', () => {
+    const mockWorkResponse = (id: string) => {
+      mockModelResponse([{ name: LS_TOOL_NAME, args: { path: '.' }, id }]);
+      mockExecuteToolCall.mockResolvedValueOnce({
+        status: 'success',
+        request: {
+          callId: id,
+          name: LS_TOOL_NAME,
+          args: { path: '.' },
+          isClientInitiated: false,
+          prompt_id: 'test-prompt',
+        },
+        tool: {} as AnyDeclarativeTool,
+        invocation: {} as AnyToolInvocation,
+        response: {
+          callId: id,
+          resultDisplay: 'ok',
+          responseParts: [
+            { functionResponse: { name: LS_TOOL_NAME, response: {}, id } },
+          ],
+          error: undefined,
+          errorType: undefined,
+          contentLength: undefined,
+        },
+      });
+    };
+
+    it('should terminate when max_turns is reached', async () => {
+      const MAX = 2;
+      const definition = createTestDefinition([LS_TOOL_NAME], {
+        max_turns: MAX,
+      });
+      const executor = await AgentExecutor.create(definition, mockConfig);
+
+      mockWorkResponse('t1');
+      mockWorkResponse('t2');
+
+      const output = await executor.run({ goal: 'Turns test' }, signal);
+
+      expect(output.terminate_reason).toBe(AgentTerminateMode.MAX_TURNS);
+      expect(mockSendMessageStream).toHaveBeenCalledTimes(MAX);
+    });
+
+    it('should terminate if timeout is reached', async () => {
+      const definition = createTestDefinition([LS_TOOL_NAME], {
+        max_time_minutes: 1,
+      });
+      const executor = await AgentExecutor.create(definition, mockConfig);
+
+      mockModelResponse([
+        { name: LS_TOOL_NAME, args: { path: '.' }, id: 't1' },
+      ]);
+
+      // Long running tool
+      mockExecuteToolCall.mockImplementationOnce(async (_ctx, reqInfo) => {
+        await vi.advanceTimersByTimeAsync(61 * 1000);
         return {
           status: 'success',
           request: reqInfo,
@@ -943,6 +2025,153 @@ describe('AgentExecutor', () => {
       expect(mockSendMessageStream).toHaveBeenCalledTimes(1);
     });
 
+    it("should terminate when the caller's deadline has passed", async () => {
+      const executor = await AgentExecutor.create(
+        createTestDefinition(),
+        mockConfig,
+        onActivity,
+        { parentChain: ['Planner'], deadline: Date.now() - 1 },
+      );
+
+      const output = await executor.run({ goal: 'Late' }, signal);
+
+      expect(output.terminate_reason).toBe(AgentTerminateMode.TIMEOUT);
+      expect(mockSendMessageStream).not.toHaveBeenCalled();
+    });
+
+    it('should terminate when the shared token budget is used up', async () => {
+      const tokenBudget = { maxTokens: 100, usedTokens: 0 };
+      const executor = await AgentExecutor.create(
+        createTestDefinition(),
+        mockConfig,
+        onActivity,
+        { parentChain: ['Planner'], tokenBudget },
+      );
+      mockSendMessageStream.mockImplementationOnce(async () =>
+        (async function* () {
+          yield {
+            type: StreamEventType.CHUNK,
+            value: {
+              ...createMockResponseChunk(
+                [],
+                [{ name: LS_TOOL_NAME, args: { path: '.' }, id: 't1' }],
+              ),
+              usageMetadata: { totalTokenCount: 150 },
+            },
+          } as StreamEvent;
+        })(),
+      );
+      mockExecuteToolCall.mockResolvedValueOnce({
+        status: 'success',
+        request: {
+          callId: 't1',
+          name: LS_TOOL_NAME,
+          args: { path: '.' },
+          isClientInitiated: false,
+          prompt_id: 'test-prompt',
+        },
+        tool: {} as AnyDeclarativeTool,
+        invocation: {} as AnyToolInvocation,
+        response: {
+          callId: 't1',
+          resultDisplay: 'ok',
+          responseParts: [],
+          error: undefined,
+          errorType: undefined,
+          contentLength: undefined,
+        },
+      });
+
+      const output = await executor.run({ goal: 'Budget' }, signal);
+
+      expect(output.terminate_reason).toBe(AgentTerminateMode.BUDGET);
+      expect(tokenBudget.usedTokens).toBe(150);
+      expect(mockSendMessageStream).toHaveBeenCalledOnce();
+    });
+
+    it('should terminate when the run uses up its max_tokens', async () => {
+      const executor = await AgentExecutor.create(
+        createTestDefinition([LS_TOOL_NAME], { max_tokens: 100 }),
+        mockConfig,
+        onActivity,
+      );
+      mockSendMessageStream.mockImplementationOnce(async () =>
+        (async function* () {
+          yield {
+            type: StreamEventType.CHUNK,
+            value: {
+              ...createMockResponseChunk(
+                [],
+                [{ name: LS_TOOL_NAME, args: { path: '.' }, id: 't1' }],
+              ),
+              usageMetadata: { totalTokenCount: 120 },
+            },
+          } as StreamEvent;
+        })(),
+      );
+      mockExecuteToolCall.mockResolvedValueOnce({
+        status: 'success',
+        request: {
+          callId: 't1',
+          name: LS_TOOL_NAME,
+          args: { path: '.' },
+          isClientInitiated: false,
+          prompt_id: 'test-prompt',
+        },
+        tool: {} as AnyDeclarativeTool,
+        invocation: {} as AnyToolInvocation,
+        response: {
+          callId: 't1',
+          resultDisplay: 'ok',
+          responseParts: [],
+          error: undefined,
+          errorType: undefined,
+          contentLength: undefined,
+        },
+      });
+
+      const output = await executor.run({ goal: 'Budget' }, signal);
+
+      expect(output.terminate_reason).toBe(AgentTerminateMode.BUDGET);
+      expect(mockSendMessageStream).toHaveBeenCalledOnce();
+    });
+
+    it('should terminate when a session budget is used up', async () => {
+      vi.spyOn(mockConfig.getBudgetService(), 'getExceeded').mockReturnValue({
+        scope: 'session',
+        limit: 'maxCostUsd',
+        used: 5,
+        max: 5,
+      });
+      const executor = await AgentExecutor.create(
+        createTestDefinition(),
+        mockConfig,
+        onActivity,
+      );
+
+      const output = await executor.run({ goal: 'Budget' }, signal);
+
+      expect(output.terminate_reason).toBe(AgentTerminateMode.BUDGET);
+      expect(mockSendMessageStream).not.toHaveBeenCalled();
+    });
+
+    it('should include the parent chain in activity events', async () => {
+      const executor = await AgentExecutor.create(
+        createTestDefinition(),
+        mockConfig,
+        onActivity,
+        { parentChain: ['Planner'] },
+      );
+      mockModelResponse([], 'Nothing to do');
+
+      await executor.run({ goal: 'Chain' }, signal);
+
+      expect(activities.length).toBeGreaterThan(0);
+      for (const activity of activities) {
+        expect(activity.parentChain).toEqual(['Planner']);
+      }
+    });
+
     it('should terminate when AbortSignal is triggered', async () => {
       const definition = createTestDefinition();
       const executor = await AgentExecutor.create(definition, mockConfig);
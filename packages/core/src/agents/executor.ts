@@ -18,38 +18,70 @@ import type {
 } from '@google/genai';
 import { executeToolCall } from '../core/nonInteractiveToolExecutor.js';
 import { ToolRegistry } from '../tools/tool-registry.js';
+import { AGENT_MAP_TOOL_NAME } from '../tools/tool-names.js';
+import { DiscoveredMCPTool } from '../tools/mcp-tool.js';
+import { connectToMcpServer, discoverTools } from '../tools/mcp-client.js';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import type { ToolCallRequestInfo } from '../core/turn.js';
-import { getDirectoryContextString } from '../utils/environmentContext.js';
+import type { WaitingToolCall } from '../core/coreToolScheduler.js';
+import { PolicyDecision } from '../policy/types.js';
+import {
+  ToolConfirmationOutcome,
+  type AnyDeclarativeTool,
+} from '../tools/tools.js';
 import {
-  GLOB_TOOL_NAME,
-  GREP_TOOL_NAME,
-  LS_TOOL_NAME,
-  MEMORY_TOOL_NAME,
-  READ_FILE_TOOL_NAME,
-  READ_MANY_FILES_TOOL_NAME,
-  WEB_SEARCH_TOOL_NAME,
-} from '../tools/tool-names.js';
+  MessageBusType,
+  type SubagentToolConfirmationResponse,
+} from '../confirmation-bus/types.js';
+import { getDirectoryContextString } from '../utils/environmentContext.js';
 import { promptIdContext } from '../utils/promptIdContext.js';
+import { TodoStore, todoStoreContext } from '../services/todoStore.js';
 import { logAgentStart, logAgentFinish } from '../telemetry/loggers.js';
 import { AgentStartEvent, AgentFinishEvent } from '../telemetry/types.js';
 import type {
   AgentDefinition,
+  AgentDelegationContext,
   AgentInputs,
   OutputObject,
   SubagentActivityEvent,
 } from './types.js';
+import { SubagentToolWrapper } from './subagent-tool-wrapper.js';
+import { AgentMapTool } from './agent-map-tool.js';
+import {
+  AgentRunRecorder,
+  type AgentRunToolCall,
+  type AgentRunTranscript,
+  hashAgentDefinition,
+} from './run-transcript.js';
+import { ReplayContentGenerator } from './replay-content-generator.js';
 import { AgentTerminateMode } from './types.js';
 import { templateString } from './utils.js';
+import { resolveAgentInputs } from './schema-utils.js';
 import { parseThought } from '../utils/thoughtUtils.js';
 import { type z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import { debugLogger } from '../utils/debugLogger.js';
+import { processSingleFileContent } from '../utils/fileUtils.js';
+import { randomUUID } from 'node:crypto';
+import path from 'node:path';
 
 /** A callback function to report on agent activity. */
 export type ActivityCallback = (activity: SubagentActivityEvent) => void;
 
+/** A tool call waiting for the user to approve it. */
+type PendingConfirmation = Pick<
+  WaitingToolCall,
+  'request' | 'confirmationDetails'
+> & { tool?: AnyDeclarativeTool };
+
 const TASK_COMPLETE_TOOL_NAME = 'complete_task';
 
+/**
+ * The longest chain of agents delegating to each other, counting the agent
+ * invoked from the main session. Agents at this depth cannot delegate further.
+ */
+export const MAX_AGENT_DELEGATION_DEPTH = 3;
+
 /**
  * Executes an agent loop based on an {@link AgentDefinition}.
  *
@@ -63,30 +95,109 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
   private readonly toolRegistry: ToolRegistry;
   private readonly runtimeContext: Config;
   private readonly onActivity?: ActivityCallback;
+  private readonly delegation?: AgentDelegationContext;
+  private readonly replay?: AgentRunTranscript;
+  /** Epoch milliseconds at which the current run times out. */
+  private deadline?: number;
+  /** Tokens used by the model calls of the current run. */
+  private usedTokens = 0;
+  private recorder?: AgentRunRecorder;
+  /** Recorded tool calls that have already been replayed. */
+  private readonly replayedToolCalls = new Set<AgentRunToolCall>();
+  /** MCP servers started for this agent, which are stopped when it finishes. */
+  private readonly mcpClients: Client[] = [];
 
   /**
-   * Creates and validates a new `AgentExecutor` instance.
+   * Creates a new `AgentExecutor` instance.
+   *
+   * Tools that require confirmation are allowed; their calls are approved
+   * through the message bus and policy engine when the agent runs.
    *
-   * This method ensures that all tools specified in the agent's definition are
-   * safe for non-interactive use before creating the executor.
+   * Tool names that refer to other registered agents expose those agents as
+   * tools, up to {@link MAX_AGENT_DELEGATION_DEPTH} levels deep.
    *
    * @param definition The definition object for the agent.
    * @param runtimeContext The global runtime configuration.
    * @param onActivity An optional callback to receive activity events.
+   * @param delegation The calling agents, when invoked by another agent.
+   * @param replay A saved run to replay. The model's responses and the tool
+   * results are taken from it instead of calling the model and the tools.
    * @returns A promise that resolves to a new `AgentExecutor` instance.
    */
   static async create<TOutput extends z.ZodTypeAny>(
     definition: AgentDefinition<TOutput>,
     runtimeContext: Config,
     onActivity?: ActivityCallback,
+    delegation?: AgentDelegationContext,
+    replay?: AgentRunTranscript,
   ): Promise<AgentExecutor<TOutput>> {
     // Create an isolated tool registry for this agent instance.
     const agentToolRegistry = new ToolRegistry(runtimeContext);
     const parentToolRegistry = await runtimeContext.getToolRegistry();
+    const agentRegistry = runtimeContext.getAgentRegistry();
+    const parentChain = [...(delegation?.parentChain ?? []), definition.name];
+
+    // Get the parent prompt ID from context
+    const parentPromptId = promptIdContext.getStore();
+
+    const executor = new AgentExecutor(
+      definition,
+      runtimeContext,
+      agentToolRegistry,
+      parentPromptId,
+      onActivity,
+      delegation,
+      replay,
+    );
 
     if (definition.toolConfig) {
       for (const toolRef of definition.toolConfig.tools) {
-        if (typeof toolRef === 'string') {
+        if (toolRef === AGENT_MAP_TOOL_NAME && agentRegistry) {
+          if (parentChain.length >= MAX_AGENT_DELEGATION_DEPTH) {
+            debugLogger.warn(
+              `[AgentExecutor] Agent '${definition.name}' cannot use '${AGENT_MAP_TOOL_NAME}': delegation is limited to ${MAX_AGENT_DELEGATION_DEPTH} levels.`,
+            );
+          } else {
+            agentToolRegistry.registerTool(
+              new AgentMapTool(
+                runtimeContext,
+                runtimeContext.getEnableMessageBusIntegration()
+                  ? runtimeContext.getMessageBus()
+                  : undefined,
+                () => executor.getNestedDelegationContext(),
+              ),
+            );
+          }
+          continue;
+        }
+        const nestedAgent =
+          typeof toolRef === 'string'
+            ? agentRegistry?.getDefinition(toolRef)
+            : undefined;
+        if (nestedAgent) {
+          if (parentChain.includes(nestedAgent.name)) {
+            debugLogger.warn(
+              `[AgentExecutor] Agent '${definition.name}' cannot delegate to '${nestedAgent.name}': ${[...parentChain, nestedAgent.name].join(' -> ')} is circular.`,
+            );
+            continue;
+          }
+          if (parentChain.length >= MAX_AGENT_DELEGATION_DEPTH) {
+            debugLogger.warn(
+              `[AgentExecutor] Agent '${definition.name}' cannot delegate to '${nestedAgent.name}': delegation is limited to ${MAX_AGENT_DELEGATION_DEPTH} levels.`,
+            );
+            continue;
+          }
+          agentToolRegistry.registerTool(
+            new SubagentToolWrapper(
+              nestedAgent,
+              runtimeContext,
+              runtimeContext.getEnableMessageBusIntegration()
+                ? runtimeContext.getMessageBus()
+                : undefined,
+              () => executor.getNestedDelegationContext(),
+            ),
+          );
+        } else if (typeof toolRef === 'string') {
           // If the tool is referenced by name, retrieve it from the parent
           // registry and register it with the agent's isolated registry.
           const toolFromParent = parentToolRegistry.getTool(toolRef);
@@ -104,20 +215,132 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
         // registered; their schemas are passed directly to the model later.
       }
 
-      // Validate that all registered tools are safe for non-interactive
-      // execution.
-      await AgentExecutor.validateTools(agentToolRegistry, definition.name);
+      if (definition.toolConfig.mcpServers) {
+        try {
+          await AgentExecutor.registerMcpServerTools(
+            definition.toolConfig.mcpServers,
+            runtimeContext,
+            parentToolRegistry,
+            agentToolRegistry,
+            definition.name,
+            executor.mcpClients,
+          );
+        } catch (error) {
+          await executor.disconnectMcpServers();
+          throw error;
+        }
+      }
     }
 
-    // Get the parent prompt ID from context
-    const parentPromptId = promptIdContext.getStore();
+    return executor;
+  }
 
-    return new AgentExecutor(
-      definition,
-      runtimeContext,
-      agentToolRegistry,
-      parentPromptId,
-      onActivity,
+  /** The context handed to agents this agent delegates to. */
+  private getNestedDelegationContext(): AgentDelegationContext {
+    return {
+      parentChain: [
+        ...(this.delegation?.parentChain ?? []),
+        this.definition.name,
+      ],
+      deadline: this.deadline,
+      onActivity: this.onActivity,
+      tokenBudget: this.delegation?.tokenBudget,
+    };
+  }
+
+  /**
+   * Registers the tools of each referenced MCP server with the agent's
+   * isolated registry.
+   *
+   * Servers already running in the session are reused; any other configured
+   * server is started on demand, discovering directly into the agent's
+   * registry so its tools stay invisible to the main session. The clients of
+   * started servers are added to `startedClients` so that the caller can
+   * disconnect them; they are not tracked in the session's MCP server status.
+   *
+   * @throws An error if a server is not configured, has to be started in an
+   * untrusted folder, or exposes no tools.
+   */
+  private static async registerMcpServerTools(
+    serverNames: string[],
+    runtimeContext: Config,
+    parentToolRegistry: ToolRegistry,
+    agentToolRegistry: ToolRegistry,
+    agentName: string,
+    startedClients: Client[],
+  ): Promise<void> {
+    const configuredServers = runtimeContext.getMcpServers() ?? {};
+
+    for (const serverName of serverNames) {
+      const serverConfig = configuredServers[serverName];
+      if (!serverConfig) {
+        const available = Object.keys(configuredServers);
+        throw new Error(
+          `Agent "${agentName}" references unknown MCP server "${serverName}". ` +
+            (available.length > 0
+              ? `Configured servers: ${available.join(', ')}.`
+              : 'No MCP servers are configured.'),
+        );
+      }
+
+      const runningTools = parentToolRegistry.getToolsByServer(serverName);
+      if (runningTools.length > 0) {
+        for (const tool of runningTools) {
+          agentToolRegistry.registerTool(tool);
+        }
+        continue;
+      }
+
+      if (!runtimeContext.isTrustedFolder()) {
+        throw new Error(
+          `Agent "${agentName}" cannot start MCP server "${serverName}" in an untrusted folder.`,
+        );
+      }
+
+      let tools: DiscoveredMCPTool[] = [];
+      try {
+        const client = await connectToMcpServer(
+          serverName,
+          serverConfig,
+          runtimeContext.getDebugMode(),
+          runtimeContext.getWorkspaceContext(),
+        );
+        startedClients.push(client);
+        tools = await discoverTools(
+          serverName,
+          serverConfig,
+          client,
+          runtimeContext,
+        );
+      } catch (error) {
+        debugLogger.warn(
+          `[AgentExecutor] Could not start MCP server "${serverName}":`,
+          error,
+        );
+      }
+      if (tools.length === 0) {
+        throw new Error(
+          `MCP server "${serverName}" required by agent "${agentName}" could not be started or exposes no tools.`,
+        );
+      }
+      for (const tool of tools) {
+        agentToolRegistry.registerTool(tool);
+      }
+    }
+  }
+
+  /** Stops the MCP servers that were started for this agent. */
+  private async disconnectMcpServers(): Promise<void> {
+    const clients = this.mcpClients.splice(0);
+    await Promise.all(
+      clients.map((client) =>
+        client.close().catch((error) => {
+          debugLogger.warn(
+            `[AgentExecutor] Failed to disconnect an MCP server of agent '${this.definition.name}':`,
+            error,
+          );
+        }),
+      ),
     );
   }
 
@@ -133,11 +356,15 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
     toolRegistry: ToolRegistry,
     parentPromptId: string | undefined,
     onActivity?: ActivityCallback,
+    delegation?: AgentDelegationContext,
+    replay?: AgentRunTranscript,
   ) {
     this.definition = definition;
     this.runtimeContext = runtimeContext;
     this.toolRegistry = toolRegistry;
     this.onActivity = onActivity;
+    this.delegation = delegation;
+    this.replay = replay;
 
     const randomIdPart = Math.random().toString(36).slice(2, 8);
     // parentPromptId will be undefined if this agent is invoked directly
@@ -149,15 +376,46 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
   /**
    * Runs the agent.
    *
+   * Unless recording is turned off, every run is saved as an
+   * {@link AgentRunTranscript} in the project temp directory. MCP servers started for the agent are stopped when the run
+   * ends, so an executor runs once.
+   *
    * @param inputs The validated input parameters for this invocation.
    * @param signal An `AbortSignal` for cancellation.
    * @returns A promise that resolves to the agent's final output.
    */
   async run(inputs: AgentInputs, signal: AbortSignal): Promise<OutputObject> {
+    // Plans and todos of the run are kept apart from the session's.
+    return todoStoreContext.run(new TodoStore(), () =>
+      this.runAgent(inputs, signal),
+    );
+  }
+
+  private async runAgent(
+    inputs: AgentInputs,
+    signal: AbortSignal,
+  ): Promise<OutputObject> {
     const startTime = Date.now();
     let turnCounter = 0;
     let terminateReason: AgentTerminateMode = AgentTerminateMode.ERROR;
     let finalResult: string | null = null;
+    // A nested agent must also finish within its caller's time budget.
+    this.deadline = Math.min(
+      startTime + this.definition.runConfig.max_time_minutes * 60 * 1000,
+      this.delegation?.deadline ?? Infinity,
+    );
+    this.usedTokens = 0;
+
+    this.recorder = this.runtimeContext.getRecordAgentRuns()
+      ? new AgentRunRecorder(
+          this.runtimeContext.storage,
+          this.definition.name,
+          hashAgentDefinition(this.definition),
+          inputs,
+          this.delegation?.parentChain ?? [],
+          this.replay?.runId,
+        )
+      : undefined;
 
     logAgentStart(
       this.runtimeContext,
@@ -165,6 +423,8 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
     );
 
     try {
+      inputs = resolveAgentInputs(this.definition.inputConfig, inputs);
+      const attachments = await this.readFileInputs(inputs);
       const chat = await this.createChatObject(inputs);
       const tools = this.prepareToolsList();
 
@@ -172,21 +432,14 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
         ? templateString(this.definition.promptConfig.query, inputs)
         : 'Get Started!';
 
-      // *** NEW PLANNING STEP ***
-      // The first message will be a tool call to sequential_thinking to generate a plan.
-      const planningToolCall: FunctionCall = {
-        name: 'sequential_thinking',
-        args: { query: query },
-      };
       let currentMessage: Content = {
         role: 'user',
-        parts: [{ functionCall: planningToolCall }],
+        parts: [{ text: query }, ...attachments],
       };
-      // *** END OF NEW PLANNING STEP ***
 
       while (true) {
         // Check for termination conditions like max turns or timeout.
-        const reason = this.checkTermination(startTime, turnCounter);
+        const reason = this.checkTermination(turnCounter);
         if (reason) {
           terminateReason = reason;
           break;
@@ -196,7 +449,8 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
           break;
         }
 
-        const promptId = `${this.agentId}#${turnCounter++}`;
+        const turn = turnCounter++;
+        const promptId = `${this.agentId}#${turn}`;
 
         const { functionCalls } = await promptIdContext.run(
           promptId,
@@ -221,7 +475,12 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
         }
 
         const { nextMessage, submittedOutput, taskCompleted } =
-          await this.processFunctionCalls(functionCalls, signal, promptId);
+          await this.processFunctionCalls(
+            functionCalls,
+            signal,
+            promptId,
+            turn,
+          );
 
         if (taskCompleted) {
           finalResult = submittedOutput ?? 'Task completed successfully.';
@@ -245,9 +504,18 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
         terminate_reason: terminateReason,
       };
     } catch (error) {
+      finalResult = String(error);
       this.emitActivity('ERROR', { error: String(error) });
       throw error; // Re-throw the error for the parent context to handle.
     } finally {
+      await this.disconnectMcpServers();
+      this.runtimeContext
+        .getPolicyEngine()
+        .revokeGrants('agent-run', this.agentId);
+      this.recorder?.finish({
+        result: finalResult ?? undefined,
+        terminate_reason: terminateReason,
+      });
       logAgentFinish(
         this.runtimeContext,
         new AgentFinishEvent(
@@ -261,6 +529,51 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
     }
   }
 
+  /**
+   * Reads the files named by the agent's `file` inputs so that their contents
+   * can be attached to the first message.
+   *
+   * @throws An error if a file lies outside the workspace or cannot be read.
+   */
+  private async readFileInputs(inputs: AgentInputs): Promise<Part[]> {
+    const attachments: Part[] = [];
+    for (const [name, definition] of Object.entries(
+      this.definition.inputConfig.inputs,
+    )) {
+      const value = inputs[name];
+      if (definition.type !== 'file' || typeof value !== 'string') {
+        continue;
+      }
+
+      const filePath = path.resolve(this.runtimeContext.getTargetDir(), value);
+      if (
+        !this.runtimeContext
+          .getWorkspaceContext()
+          .isPathWithinWorkspace(filePath)
+      ) {
+        throw new Error(
+          `Input '${name}' must name a file within the workspace: ${value}`,
+        );
+      }
+      const result = await processSingleFileContent(
+        filePath,
+        this.runtimeContext.getTargetDir(),
+        this.runtimeContext.getFileSystemService(),
+      );
+      if (result.error) {
+        throw new Error(`Could not read input '${name}': ${result.error}`);
+      }
+
+      attachments.push({ text: `Contents of ${value} (input '${name}'):` });
+      attachments.push(
+        typeof result.llmContent === 'string'
+          ? { text: result.llmContent }
+          : result.llmContent,
+      );
+    }
+    return attachments;
+  }
+
   /**
    * Calls the generative model with the current context and tools.
    *
@@ -281,6 +594,7 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
       },
     };
 
+    this.recorder?.startTurn(promptId, messageParams.message);
     const responseStream = await chat.sendMessageStream(
       this.definition.modelConfig.model,
       messageParams,
@@ -289,13 +603,17 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
 
     const functionCalls: FunctionCall[] = [];
     let textResponse = '';
+    let totalTokens = 0;
 
     for await (const resp of responseStream) {
       if (signal.aborted) break;
 
       if (resp.type === StreamEventType.CHUNK) {
         const chunk = resp.value;
+        // Usage is cumulative over the response; keep the latest figure.
+        totalTokens = chunk.usageMetadata?.totalTokenCount ?? totalTokens;
         const parts = chunk.candidates?.[0]?.content?.parts;
+        this.recorder?.recordResponse(parts ?? []);
 
         // Extract and emit any subject "thought" content from the model.
         const { subject } = parseThought(
@@ -323,6 +641,11 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
       }
     }
 
+    this.usedTokens += totalTokens;
+    if (this.delegation?.tokenBudget) {
+      this.delegation.tokenBudget.usedTokens += totalTokens;
+    }
+
     return { functionCalls, textResponse };
   }
 
@@ -364,6 +687,7 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
         this.runtimeContext,
         generationConfig,
         startHistory,
+        this.replay ? new ReplayContentGenerator(this.replay) : undefined,
       );
     } catch (error) {
       await reportError(
@@ -386,6 +710,7 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
     functionCalls: FunctionCall[],
     signal: AbortSignal,
     promptId: string,
+    turn: number,
   ): Promise<{
     nextMessage: Content;
     submittedOutput: string | null;
@@ -544,14 +869,90 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
         args,
         isClientInitiated: true,
         prompt_id: promptId,
+        agentName: this.definition.name,
       };
 
+      if (this.replay) {
+        const result = this.takeRecordedToolResult(turn, requestInfo);
+        this.emitActivity('TOOL_CALL_END', {
+          name: functionCall.name,
+          output: 'Replayed recorded result.',
+        });
+        toolExecutionPromises.push(Promise.resolve(result));
+        continue;
+      }
+
+      // The rules for this agent are checked for every call. The tool's own
+      // confirmation can't be relied on for this: it is skipped for read-only
+      // tools, in YOLO mode and for allowed tools, and doesn't know the agent.
+      const { decision, rule } = this.runtimeContext
+        .getPolicyEngine()
+        .check({ name: requestInfo.name, args }, this.definition.name);
+
+      if (rule && decision === PolicyDecision.DENY) {
+        const error = `Tool call '${functionCall.name}' was denied by policy for this agent.`;
+
+        syncResponseParts.push({
+          functionResponse: {
+            name: functionCall.name as string,
+            id: callId,
+            response: { error },
+          },
+        });
+
+        this.emitActivity('ERROR', {
+          context: 'tool_call_denied',
+          name: functionCall.name,
+          callId,
+          error,
+        });
+
+        continue;
+      }
+
       // Create a promise for the tool execution
       const executionPromise = (async () => {
+        if (rule && decision === PolicyDecision.ASK_USER) {
+          const outcome = await this.confirmToolCall(
+            this.policyConfirmationFor(requestInfo),
+            signal,
+          );
+          if (outcome === ToolConfirmationOutcome.Cancel) {
+            const error = `Tool call '${functionCall.name}' was cancelled by the user.`;
+            this.emitActivity('ERROR', {
+              context: 'tool_call',
+              name: functionCall.name,
+              error,
+            });
+            const responseParts: Part[] = [
+              {
+                functionResponse: {
+                  name: requestInfo.name,
+                  id: callId,
+                  response: { error },
+                },
+              },
+            ];
+            this.recorder?.recordToolCall({
+              callId,
+              name: requestInfo.name,
+              args,
+              result: responseParts,
+            });
+            return responseParts;
+          }
+        }
+
+        // Once the policy for this agent has allowed the call, or the user
+        // has confirmed it, the tool's own confirmation is answered directly.
         const { response: toolResponse } = await executeToolCall(
           this.runtimeContext,
           requestInfo,
           signal,
+          this.toolRegistry,
+          rule
+            ? async () => ToolConfirmationOutcome.ProceedOnce
+            : (toolCall) => this.confirmToolCall(toolCall, signal),
         );
 
         if (toolResponse.error) {
@@ -567,6 +968,12 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
           });
         }
 
+        this.recorder?.recordToolCall({
+          callId,
+          name: requestInfo.name,
+          args,
+          result: toolResponse.responseParts,
+        });
         return toolResponse.responseParts;
       })();
 
@@ -576,6 +983,18 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
     // Wait for all tool executions to complete
     const asyncResults = await Promise.all(toolExecutionPromises);
 
+    // Calls handled here, such as completion, are recorded by their response.
+    for (const part of syncResponseParts) {
+      if (part.functionResponse) {
+        this.recorder?.recordToolCall({
+          callId: part.functionResponse.id ?? '',
+          name: part.functionResponse.name ?? '',
+          args: {},
+          result: [part],
+        });
+      }
+    }
+
     // Combine all response parts
     const toolResponseParts: Part[] = [...syncResponseParts];
     for (const result of asyncResults) {
@@ -602,6 +1021,45 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
     };
   }
 
+  /**
+   * Finds the result a tool call got in the replayed run.
+   *
+   * Calls are matched within the same turn, preferring a call with identical
+   * arguments and otherwise taking the first unused call of the same tool.
+   */
+  private takeRecordedToolResult(
+    turn: number,
+    request: ToolCallRequestInfo,
+  ): Part[] {
+    const candidates = (this.replay?.turns[turn]?.toolCalls ?? []).filter(
+      (call) => call.name === request.name && !this.replayedToolCalls.has(call),
+    );
+    const args = JSON.stringify(request.args);
+    const recorded =
+      candidates.find((call) => JSON.stringify(call.args) === args) ??
+      candidates[0];
+    if (!recorded) {
+      const error = `No recorded result for '${request.name}' in turn ${turn + 1} of run ${this.replay?.runId}.`;
+      this.emitActivity('ERROR', {
+        context: 'tool_call',
+        name: request.name,
+        error,
+      });
+      return [
+        {
+          functionResponse: {
+            name: request.name,
+            id: request.callId,
+            response: { error },
+          },
+        },
+      ];
+    }
+    this.replayedToolCalls.add(recorded);
+    this.recorder?.recordToolCall({ ...recorded, callId: request.callId });
+    return recorded.result;
+  }
+
   /**
    * Prepares the list of tool function declarations to be sent to the model.
    */
@@ -626,6 +1084,13 @@ export class AgentExecutor<TOutput extends z.ZodTypeAny> {
       toolsList.push(
         ...this.toolRegistry.getFunctionDeclarationsFiltered(toolNamesToLoad),
       );
+
+      // Add schemas from the tools of each referenced MCP server.
+      for (const serverName of toolConfig.mcpServers ?? []) {
+        for (const tool of this.toolRegistry.getToolsByServer(serverName)) {
+          toolsList.push(tool.schema);
+        }
+      }
     }
 
     // Always inject complete_task.
@@ -711,34 +1176,129 @@ Important Rules:
   }
 
   /**
-   * Validates that all tools in a registry are safe for non-interactive use.
+   * Builds the confirmation shown when a policy for this agent asks about a
+   * call, including for tools that never ask for confirmation themselves.
+   */
+  private policyConfirmationFor(
+    request: ToolCallRequestInfo,
+  ): PendingConfirmation {
+    const tool = this.toolRegistry.getTool(request.name);
+    let prompt = JSON.stringify(request.args);
+    try {
+      prompt = tool?.build(request.args).getDescription() ?? prompt;
+    } catch {
+      // Invalid arguments are reported when the tool is executed.
+    }
+    return {
+      request,
+      tool,
+      confirmationDetails: {
+        type: 'info',
+        title: `Confirm ${tool?.displayName ?? request.name}`,
+        prompt,
+        onConfirm: async () => {},
+      },
+    };
+  }
+
+  /**
+   * Requests approval for a tool call that requires confirmation.
    *
-   * @throws An error if a tool is not on the allow-list for non-interactive execution.
+   * The request is published on the message bus, where the policy engine
+   * decides using the rules for this agent and defers to the user when the
+   * decision is ASK_USER. "Always allow" answers are recorded as policies
+   * scoped to this agent instead of applying to the whole session.
+   *
+   * If the run is aborted or reaches its deadline first, a `Cancel` response
+   * is published for the request so that the UI drops its pending dialog.
    */
-  private static async validateTools(
-    toolRegistry: ToolRegistry,
-    agentName: string,
-  ): Promise<void> {
-    // Tools that are non-interactive. This is temporary until we have tool
-    // confirmations for subagents.
-    const allowlist = new Set([
-      LS_TOOL_NAME,
-      READ_FILE_TOOL_NAME,
-      GREP_TOOL_NAME,
-      GLOB_TOOL_NAME,
-      READ_MANY_FILES_TOOL_NAME,
-      MEMORY_TOOL_NAME,
-      WEB_SEARCH_TOOL_NAME,
-    ]);
-    for (const tool of toolRegistry.getAllTools()) {
-      if (!allowlist.has(tool.name)) {
-        throw new Error(
-          `Tool "${tool.name}" is not on the allow-list for non-interactive ` +
-            `execution in agent "${agentName}". Only tools that do not require user ` +
-            `confirmation can be used in subagents.`,
+  private confirmToolCall(
+    toolCall: PendingConfirmation,
+    signal: AbortSignal,
+  ): Promise<ToolConfirmationOutcome> {
+    const messageBus = this.runtimeContext.getMessageBus();
+    const agentName = this.definition.name;
+    const correlationId = randomUUID();
+
+    return new Promise<ToolConfirmationOutcome>((resolve) => {
+      if (signal.aborted) {
+        resolve(ToolConfirmationOutcome.Cancel);
+        return;
+      }
+
+      let deadlineTimer: NodeJS.Timeout | undefined;
+
+      const cleanup = () => {
+        clearTimeout(deadlineTimer);
+        signal.removeEventListener('abort', abortHandler);
+        messageBus.unsubscribe(
+          MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+          responseHandler,
+        );
+      };
+
+      const abortHandler = () => {
+        cleanup();
+        messageBus.publish({
+          type: MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+          correlationId,
+          outcome: ToolConfirmationOutcome.Cancel,
+        });
+        resolve(ToolConfirmationOutcome.Cancel);
+      };
+
+      const responseHandler = (response: SubagentToolConfirmationResponse) => {
+        if (response.correlationId !== correlationId) {
+          return;
+        }
+        cleanup();
+
+        switch (response.outcome) {
+          case ToolConfirmationOutcome.ProceedAlways:
+          case ToolConfirmationOutcome.ProceedAlwaysTool:
+          case ToolConfirmationOutcome.ProceedAlwaysServer:
+            messageBus.publish({
+              type: MessageBusType.UPDATE_POLICY,
+              toolName:
+                response.outcome ===
+                  ToolConfirmationOutcome.ProceedAlwaysServer &&
+                toolCall.tool instanceof DiscoveredMCPTool
+                  ? `${toolCall.tool.serverName}__*`
+                  : toolCall.request.name,
+              agentName,
+              agentRunId: this.agentId,
+            });
+            resolve(ToolConfirmationOutcome.ProceedOnce);
+            break;
+          case ToolConfirmationOutcome.ModifyWithEditor:
+            // Subagents cannot open an editor mid-run.
+            resolve(ToolConfirmationOutcome.Cancel);
+            break;
+          default:
+            resolve(response.outcome);
+        }
+      };
+
+      signal.addEventListener('abort', abortHandler);
+      if (this.deadline !== undefined && Number.isFinite(this.deadline)) {
+        deadlineTimer = setTimeout(
+          abortHandler,
+          Math.max(0, this.deadline - Date.now()),
         );
       }
-    }
+      messageBus.subscribe(
+        MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+        responseHandler,
+      );
+
+      messageBus.publish({
+        type: MessageBusType.SUBAGENT_TOOL_CONFIRMATION_REQUEST,
+        agentName,
+        toolCall: { name: toolCall.request.name, args: toolCall.request.args },
+        confirmationDetails: toolCall.confirmationDetails,
+        correlationId,
+      });
+    });
   }
 
   /**
@@ -746,21 +1306,31 @@ Important Rules:
    *
    * @returns The reason for termination, or `null` if execution can continue.
    */
-  private checkTermination(
-    startTime: number,
-    turnCounter: number,
-  ): AgentTerminateMode | null {
+  private checkTermination(turnCounter: number): AgentTerminateMode | null {
     const { runConfig } = this.definition;
 
     if (runConfig.max_turns && turnCounter >= runConfig.max_turns) {
       return AgentTerminateMode.MAX_TURNS;
     }
 
-    const elapsedMinutes = (Date.now() - startTime) / (1000 * 60);
-    if (elapsedMinutes >= runConfig.max_time_minutes) {
+    if (this.deadline !== undefined && Date.now() >= this.deadline) {
       return AgentTerminateMode.TIMEOUT;
     }
 
+    if (runConfig.max_tokens && this.usedTokens >= runConfig.max_tokens) {
+      return AgentTerminateMode.BUDGET;
+    }
+
+    const tokenBudget = this.delegation?.tokenBudget;
+    if (tokenBudget && tokenBudget.usedTokens >= tokenBudget.maxTokens) {
+      return AgentTerminateMode.BUDGET;
+    }
+
+    // Subagents count towards the budgets of the session and prompt.
+    if (this.runtimeContext.getBudgetService().getExceeded()) {
+      return AgentTerminateMode.BUDGET;
+    }
+
     return null;
   }
 
@@ -773,6 +1343,7 @@ Important Rules:
       const event: SubagentActivityEvent = {
         isSubagentActivityEvent: true,
         agentName: this.definition.name,
+        parentChain: this.delegation?.parentChain ?? [],
         type,
         data,
       };
@@ -155,6 +155,7 @@ describe('SubagentInvocation', () => {
         testDefinition,
         mockConfig,
         expect.any(Function),
+        undefined,
       );
       expect(updateOutput).toHaveBeenCalledWith('Subagent starting...\n');
 
@@ -179,12 +180,14 @@ describe('SubagentInvocation', () => {
           onActivity({
             isSubagentActivityEvent: true,
             agentName: 'MockAgent',
+            parentChain: [],
             type: 'THOUGHT_CHUNK',
             data: { text: 'Analyzing...' },
           } as SubagentActivityEvent);
           onActivity({
             isSubagentActivityEvent: true,
             agentName: 'MockAgent',
+            parentChain: [],
             type: 'THOUGHT_CHUNK',
             data: { text: ' Still thinking.' },
           } as SubagentActivityEvent);
@@ -208,12 +211,14 @@ describe('SubagentInvocation', () => {
           onActivity({
             isSubagentActivityEvent: true,
             agentName: 'MockAgent',
+            parentChain: [],
             type: 'TOOL_CALL_START',
             data: { name: 'ls' },
           } as SubagentActivityEvent);
           onActivity({
             isSubagentActivityEvent: true,
             agentName: 'MockAgent',
+            parentChain: [],
             type: 'ERROR',
             data: { error: 'Failed' },
           } as SubagentActivityEvent);
@@ -236,6 +241,7 @@ describe('SubagentInvocation', () => {
           onActivity({
             isSubagentActivityEvent: true,
             agentName: 'testAgent',
+            parentChain: [],
             type: 'THOUGHT_CHUNK',
             data: { text: 'Thinking silently.' },
           } as SubagentActivityEvent);
@@ -249,6 +255,47 @@ describe('SubagentInvocation', () => {
       expect(result.returnDisplay).toContain('Result:\nDone');
     });
 
+    it('should pass the delegation context and forward nested activity', async () => {
+      const forwarded: SubagentActivityEvent[] = [];
+      const delegation = {
+        parentChain: ['planner'],
+        deadline: 1234,
+        onActivity: (activity: SubagentActivityEvent) =>
+          forwarded.push(activity),
+      };
+      const nestedInvocation = new SubagentInvocation<z.ZodUnknown>(
+        { task: 'Investigate' },
+        testDefinition,
+        mockConfig,
+        undefined,
+        delegation,
+      );
+      const nestedThought: SubagentActivityEvent = {
+        isSubagentActivityEvent: true,
+        agentName: 'investigator',
+        parentChain: ['planner', 'MockAgent'],
+        type: 'THOUGHT_CHUNK',
+        data: { text: 'Reading files.' },
+      };
+      mockExecutorInstance.run.mockImplementation(async () => {
+        MockAgentExecutor.create.mock.calls[0][2]?.(nestedThought);
+        return { result: 'Done', terminate_reason: AgentTerminateMode.GOAL };
+      });
+
+      await nestedInvocation.execute(signal, updateOutput);
+
+      expect(MockAgentExecutor.create).toHaveBeenCalledWith(
+        testDefinition,
+        mockConfig,
+        expect.any(Function),
+        delegation,
+      );
+      expect(forwarded).toEqual([nestedThought]);
+      expect(updateOutput).toHaveBeenCalledWith(
+        '🤖💭 [MockAgent › investigator] Reading files.',
+      );
+    });
+
     it('should handle executor run failure', async () => {
       const error = new Error('Model failed during execution.');
       mockExecutorInstance.run.mockRejectedValue(error);
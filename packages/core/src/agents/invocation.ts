@@ -11,6 +11,7 @@ import { BaseToolInvocation, type ToolResult } from '../tools/tools.js';
 import { ToolErrorType } from '../tools/tool-error.js';
 import type {
   AgentDefinition,
+  AgentDelegationContext,
   AgentInputs,
   SubagentActivityEvent,
 } from './types.js';
@@ -38,12 +39,14 @@ export class SubagentInvocation<
    * @param definition The definition object that configures the agent.
    * @param config The global runtime configuration.
    * @param messageBus Optional message bus for policy enforcement.
+   * @param delegation The calling agents, when invoked by another agent.
    */
   constructor(
     params: AgentInputs,
     private readonly definition: AgentDefinition<TOutput>,
     private readonly config: Config,
     messageBus?: MessageBus,
+    private readonly delegation?: AgentDelegationContext,
   ) {
     super(params, messageBus);
   }
@@ -64,6 +67,17 @@ export class SubagentInvocation<
     return description.slice(0, DESCRIPTION_MAX_LENGTH);
   }
 
+  /**
+   * Returns the delegation path from this agent to the agent that emitted
+   * the activity, e.g. `planner › investigator`, or undefined for this
+   * agent's own activity.
+   */
+  private getNestedPath(activity: SubagentActivityEvent): string | undefined {
+    const depth = this.delegation?.parentChain.length ?? 0;
+    const path = [...activity.parentChain.slice(depth), activity.agentName];
+    return path.length > 1 ? path.join(' › ') : undefined;
+  }
+
   /**
    * Executes the subagent.
    *
@@ -82,15 +96,22 @@ export class SubagentInvocation<
       }
 
       // Create an activity callback to bridge the executor's events to the
-      // tool's streaming output.
+      // tool's streaming output. Activity of nested agents is labelled with
+      // the delegation path below this agent.
       const onActivity = (activity: SubagentActivityEvent): void => {
+        this.delegation?.onActivity?.(activity);
         if (!updateOutput) return;
 
         if (
           activity.type === 'THOUGHT_CHUNK' &&
           typeof activity.data['text'] === 'string'
         ) {
-          updateOutput(`🤖💭 ${activity.data['text']}`);
+          const path = this.getNestedPath(activity);
+          updateOutput(
+            path
+              ? `🤖💭 [${path}] ${activity.data['text']}`
+              : `🤖💭 ${activity.data['text']}`,
+          );
         }
       };
 
@@ -98,6 +119,7 @@ export class SubagentInvocation<
         this.definition,
         this.config,
         onActivity,
+        this.delegation,
       );
 
       const output = await executor.run(this.params, signal);
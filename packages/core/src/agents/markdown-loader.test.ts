@@ -9,8 +9,10 @@ import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import { tmpdir } from 'node:os';
 import {
+  AgentDefinitionError,
   parseAgentMarkdown,
   loadAgentsFromDirectory,
+  loadAgentFilesFromDirectory,
 } from './markdown-loader.js';
 
 const SAMPLE_MARKDOWN = `# Agent: Code Cartographer
@@ -95,7 +97,8 @@ Direct, methodical, and relentlessly curious about hidden dependencies.
 \`\`\`json
 {
   "max_time_minutes": 7,
-  "max_turns": 14
+  "max_turns": 14,
+  "max_tokens": 200000
 }
 \`\`\`
 
@@ -119,6 +122,7 @@ describe('markdown agent loader', () => {
     expect(definition.modelConfig.model).toBe('gemini-2.5-pro-exp');
     expect(definition.runConfig.max_time_minutes).toBe(7);
     expect(definition.runConfig.max_turns).toBe(14);
+    expect(definition.runConfig.max_tokens).toBe(200000);
     expect(definition.toolConfig?.tools).toEqual([
       'read_file',
       'ls',
@@ -126,6 +130,7 @@ describe('markdown agent loader', () => {
       'grep',
       'web_fetch',
     ]);
+    expect(definition.toolConfig?.mcpServers).toEqual(['github']);
     expect(definition.inputConfig.inputs['objective']).toMatchObject({
       type: 'string',
       required: true,
@@ -136,6 +141,394 @@ describe('markdown agent loader', () => {
     });
   });
 
+  it('builds a tool config from an MCP section alone', () => {
+    const markdown = `# Agent: Issue Triager
+
+## Summary
+Triages GitHub issues.
+
+## MCP
+\`\`\`json
+["github"]
+\`\`\`
+`;
+    const definition = parseAgentMarkdown(markdown, 'test-agent');
+
+    expect(definition.toolConfig).toEqual({
+      tools: [],
+      mcpServers: ['github'],
+    });
+  });
+
+  it('does not split sections at prompt subheadings or headings in code blocks', () => {
+    const markdown = `# Agent: Reviewer
+
+## Summary
+Reviews changes.
+
+## System Prompt
+You review code.
+
+## Checklist
+- Tests pass.
+
+\`\`\`markdown
+## Findings
+\`\`\`
+
+## Run Config
+\`\`\`json
+{ "max_turns": 3 }
+\`\`\`
+`;
+    const definition = parseAgentMarkdown(markdown, 'test-agent');
+
+    expect(definition.promptConfig.systemPrompt).toBe(
+      'You review code.\n\n## Checklist\n- Tests pass.',
+    );
+    expect(definition.runConfig.max_turns).toBe(3);
+  });
+
+  it('reports structured errors with the line of the failing section', () => {
+    const markdown = `# Agent: Broken
+
+## Summary
+Has a broken tools section.
+
+## Tools
+\`\`\`json
+["read_file",
+\`\`\`
+`;
+
+    let thrown: unknown;
+    try {
+      parseAgentMarkdown(markdown, 'broken.agent.md');
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(AgentDefinitionError);
+    const definitionError = thrown as AgentDefinitionError;
+    expect(definitionError.source).toBe('broken.agent.md');
+    expect(definitionError.issues).toEqual([
+      {
+        message: expect.stringContaining('Invalid JSON in "tools" section'),
+        line: 6,
+      },
+    ]);
+  });
+
+  it('reports a missing agent header', () => {
+    expect(() => parseAgentMarkdown('## Summary\nNo header.', 'x')).toThrow(
+      AgentDefinitionError,
+    );
+  });
+
+  it('reports unknown sections and keys with their lines', () => {
+    const markdown = `# Agent: Typos
+
+## Summary
+Has typos.
+
+## Run Configs
+\`\`\`json
+{ "max_turns": 3 }
+\`\`\`
+
+## Model
+\`\`\`json
+{
+  "model": "gemini-2.5-pro",
+  "temprature": 0.3
+}
+\`\`\`
+
+## Inputs
+\`\`\`json
+[{ "name": "when", "type": "date" }]
+\`\`\`
+`;
+
+    let thrown: unknown;
+    try {
+      parseAgentMarkdown(markdown, 'typos.agent.md');
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(AgentDefinitionError);
+    expect((thrown as AgentDefinitionError).issues).toEqual([
+      {
+        message: expect.stringContaining('Unknown section "Run Configs"'),
+        line: 6,
+      },
+      {
+        message: expect.stringContaining('Unknown key "temprature" in model'),
+        line: 15,
+      },
+      {
+        message: expect.stringContaining(
+          'Unsupported type "date" for input "when"',
+        ),
+        line: 21,
+      },
+    ]);
+    expect((thrown as AgentDefinitionError).message).toContain(
+      'typos.agent.md:6: Unknown section "Run Configs"',
+    );
+  });
+
+  describe('front matter', () => {
+    const FRONT_MATTER_MARKDOWN = `---
+name: Code Cartographer
+description: Maps and interprets complex source trees.
+tools: [read_file, grep, read_file]
+mcp:
+  - github
+model:
+  model: gemini-2.5-pro-exp
+  temperature: 0.1
+run:
+  max_time_minutes: 7
+  max_turns: 14
+inputs:
+  - name: objective
+    type: string
+    description: Goal describing the investigation focus.
+  - name: hints
+    type: string[]
+    required: false
+output:
+  name: report
+  type: json
+  schema:
+    type: object
+    properties:
+      Summary: { type: string }
+    required: [Summary]
+query: Investigate \${objective}.
+---
+
+You are Code Cartographer.
+
+## Approach
+Build an architecture map before suggesting changes.
+`;
+
+    it('parses the front matter and uses the body as the system prompt', () => {
+      const definition = parseAgentMarkdown(FRONT_MATTER_MARKDOWN, 'fm');
+
+      expect(definition.name).toBe('Code Cartographer');
+      expect(definition.description).toBe(
+        'Maps and interprets complex source trees.',
+      );
+      expect(definition.promptConfig.systemPrompt).toContain(
+        'You are Code Cartographer.\n\n## Approach',
+      );
+      expect(definition.promptConfig.query).toBe('Investigate ${objective}.');
+      expect(definition.toolConfig).toEqual({
+        tools: ['read_file', 'grep'],
+        mcpServers: ['github'],
+      });
+      expect(definition.modelConfig).toMatchObject({
+        model: 'gemini-2.5-pro-exp',
+        temp: 0.1,
+      });
+      expect(definition.runConfig).toEqual({
+        max_time_minutes: 7,
+        max_turns: 14,
+      });
+      expect(definition.inputConfig.inputs).toEqual({
+        objective: {
+          type: 'string',
+          required: true,
+          description: 'Goal describing the investigation focus.',
+        },
+        hints: { type: 'string[]', required: false, description: '' },
+      });
+      expect(definition.outputConfig?.outputName).toBe('report');
+      expect(
+        definition.outputConfig?.schema.safeParse({ Summary: 'ok' }).success,
+      ).toBe(true);
+    });
+
+    it('accepts a model name as shorthand', () => {
+      const definition = parseAgentMarkdown(
+        '---\nname: quick\nmodel: gemini-2.5-flash\n---\nBe quick.\n',
+      );
+
+      expect(definition.modelConfig.model).toBe('gemini-2.5-flash');
+      expect(definition.promptConfig.systemPrompt).toBe('Be quick.');
+    });
+
+    it('reports unknown and invalid keys with their lines', () => {
+      const markdown = `---
+name: typos
+descripton: Misspelled.
+run:
+  max_time_minutes: 0
+  max_turn: 3
+tools: read_file
+---
+Prompt.
+`;
+
+      let thrown: unknown;
+      try {
+        parseAgentMarkdown(markdown, 'typos.agent.md');
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(AgentDefinitionError);
+      expect((thrown as AgentDefinitionError).issues).toEqual([
+        {
+          message: expect.stringContaining(
+            'Unknown key "descripton" in front matter',
+          ),
+          line: 3,
+        },
+        {
+          message: '"run.max_time_minutes" must be greater than 0.',
+          line: 5,
+        },
+        {
+          message: expect.stringContaining('Unknown key "max_turn" in run'),
+          line: 6,
+        },
+        {
+          message: '"tools" must be a list of strings.',
+          line: 7,
+        },
+      ]);
+    });
+
+    it('parses object, file, enum and default inputs', () => {
+      const definition = parseAgentMarkdown(
+        `---
+name: typed
+inputs:
+  - name: location
+    type: object
+    schema:
+      properties:
+        path: { type: string }
+      required: [path]
+  - name: notes
+    type: file
+    required: false
+  - name: depth
+    type: string
+    enum: [shallow, deep]
+    default: shallow
+  - name: attempts
+    type: integer
+    default: 2
+---
+Look around.
+`,
+      );
+
+      expect(definition.inputConfig.inputs).toEqual({
+        location: {
+          type: 'object',
+          required: true,
+          description: '',
+          schema: {
+            properties: { path: { type: 'string' } },
+            required: ['path'],
+          },
+        },
+        notes: { type: 'file', required: false, description: '' },
+        depth: {
+          type: 'string',
+          required: true,
+          description: '',
+          enum: ['shallow', 'deep'],
+          default: 'shallow',
+        },
+        attempts: {
+          type: 'integer',
+          required: true,
+          description: '',
+          default: 2,
+        },
+      });
+    });
+
+    it('reports invalid enums, schemas and defaults', () => {
+      const markdown = `---
+name: typed
+inputs:
+  - name: depth
+    type: string
+    enum: shallow
+  - name: location
+    type: object
+    schema: { type: nonsense }
+  - name: attempts
+    type: integer
+    default: many
+---
+Look around.
+`;
+
+      let thrown: unknown;
+      try {
+        parseAgentMarkdown(markdown, 'typed.agent.md');
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(AgentDefinitionError);
+      expect((thrown as AgentDefinitionError).issues).toEqual([
+        {
+          message:
+            '"inputs[0].enum" must be a non-empty list of strings, numbers or booleans.',
+          line: 6,
+        },
+        {
+          message: expect.stringContaining(
+            '"inputs[1].schema" is not a valid JSON schema',
+          ),
+          line: 9,
+        },
+        {
+          message:
+            'Default of input "attempts" does not match its type: params/attempts must be integer',
+          line: 12,
+        },
+      ]);
+    });
+
+    it('reports a missing name', () => {
+      expect(() =>
+        parseAgentMarkdown('---\ndescription: Nameless.\n---\n', 'x'),
+      ).toThrow('x:1: Missing required key "name".');
+    });
+
+    it('reports YAML syntax errors', () => {
+      let thrown: unknown;
+      try {
+        parseAgentMarkdown('---\nname: broken\ntools: [a, b\n---\n', 'x');
+      } catch (error) {
+        thrown = error;
+      }
+
+      expect(thrown).toBeInstanceOf(AgentDefinitionError);
+      expect((thrown as AgentDefinitionError).issues[0]).toMatchObject({
+        message: expect.stringContaining('Invalid YAML front matter'),
+      });
+    });
+
+    it('reports front matter that is not closed', () => {
+      expect(() => parseAgentMarkdown('---\nname: open\n', 'x')).toThrow(
+        'x:1: Front matter is not closed with "---".',
+      );
+    });
+  });
+
   describe('loadAgentsFromDirectory', () => {
     let tempDir: string;
 
@@ -157,5 +550,15 @@ describe('markdown agent loader', () => {
       expect(definitions).toHaveLength(1);
       expect(definitions[0].name).toBe('Code Cartographer');
     });
+
+    it('keeps track of the file each agent was loaded from', async () => {
+      const files = await loadAgentFilesFromDirectory(tempDir);
+      expect(files).toEqual([
+        {
+          filePath: path.join(tempDir, 'code-cartographer.agent.md'),
+          definition: expect.objectContaining({ name: 'Code Cartographer' }),
+        },
+      ]);
+    });
   });
 });
@@ -11,19 +11,43 @@ import {
   DEFAULT_GEMINI_MODEL,
   DEFAULT_THINKING_MODE,
 } from '../config/models.js';
+import {
+  isMap,
+  isNode,
+  isScalar,
+  isSeq,
+  LineCounter,
+  parseDocument,
+  type Document,
+} from 'yaml';
 import { debugLogger } from '../utils/debugLogger.js';
-import type { AgentDefinition, OutputConfig } from './types.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { convertInputConfigToJsonSchema } from './schema-utils.js';
+import type { AgentDefinition, AgentInputType, OutputConfig } from './types.js';
 
 const SECTION_HEADING_REGEX = /^##\s+(.+?)\s*$/gm;
+const CODE_FENCE_REGEX = /^\s*(```|~~~)/gm;
 const AGENT_NAME_REGEX = /^#\s*Agent:\s*(.+)$/im;
 const JSON_BLOCK_REGEX = /```json\s*([\s\S]*?)```/i;
+const FRONT_MATTER_DELIMITER = '---';
 
 const DEFAULT_MAX_TIME_MINUTES = 5;
 const DEFAULT_MAX_TURNS = 10;
 const DEFAULT_TEMPERATURE = 0.2;
 const DEFAULT_TOP_P = 0.9;
 
-type NormalizedSections = Map<string, string>;
+interface Section {
+  content: string;
+  /** The untrimmed section text following the heading. */
+  body: string;
+  /** Offset of `body` in the markdown. */
+  start: number;
+  /** 1-based line of the section heading. */
+  line: number;
+}
+
+type NormalizedSections = Map<string, Section>;
 
 interface ParsedAgentConfig {
   name: string;
@@ -43,9 +67,12 @@ interface ParsedAgentConfig {
 
 interface AgentInputSpec {
   name: string;
-  type: string;
+  type: AgentInputType;
   required: boolean;
   description: string;
+  default?: unknown;
+  enum?: Array<string | number | boolean>;
+  schema?: Record<string, unknown>;
 }
 
 interface AgentOutputSpec {
@@ -65,17 +92,114 @@ interface AgentModelSpec {
 interface AgentRunConfigSpec {
   max_time_minutes?: number;
   max_turns?: number;
+  max_tokens?: number;
 }
 
-const ALLOWED_INPUT_TYPES = new Set([
+const ALLOWED_INPUT_TYPES = new Set<string>([
   'string',
   'number',
   'boolean',
   'integer',
   'string[]',
   'number[]',
+  'object',
+  'file',
 ]);
 
+const SECTION_TITLES = [
+  'Summary',
+  'Persona',
+  'Role',
+  'Guidelines',
+  'Inputs',
+  'Output',
+  'Tools',
+  'MCP',
+  'Model',
+  'Run Config',
+  'Query',
+  'System Prompt',
+];
+
+/** Sections whose text is a prompt, which may use headings of its own. */
+const PROMPT_SECTIONS = new Set(['system prompt', 'query']);
+
+/** Heading-based sections holding JSON, keyed by their front matter key. */
+const JSON_SECTIONS = {
+  inputs: 'inputs',
+  output: 'output',
+  tools: 'tools',
+  mcp: 'mcp',
+  model: 'model',
+  run: 'run config',
+} as const;
+
+type JsonSectionField = keyof typeof JSON_SECTIONS;
+
+const FRONT_MATTER_KEYS = [
+  'name',
+  'description',
+  'tools',
+  'mcp',
+  'model',
+  'run',
+  'inputs',
+  'output',
+  'query',
+];
+const INPUT_KEYS = [
+  'name',
+  'type',
+  'required',
+  'description',
+  'default',
+  'enum',
+  'schema',
+];
+const OUTPUT_KEYS = ['name', 'type', 'description', 'schema'];
+const MODEL_KEYS = ['model', 'temperature', 'top_p', 'thinkingBudget'];
+const RUN_KEYS = ['max_time_minutes', 'max_turns', 'max_tokens'];
+
+/**
+ * A problem found while parsing an agent definition file.
+ */
+export interface AgentDefinitionIssue {
+  message: string;
+  /** 1-based line in the source file the issue refers to, when known. */
+  line?: number;
+}
+
+/**
+ * Thrown when an agent definition file cannot be turned into an
+ * {@link AgentDefinition}. Carries the individual issues so callers can
+ * report them in a structured way.
+ */
+export class AgentDefinitionError extends Error {
+  constructor(
+    readonly source: string,
+    readonly issues: AgentDefinitionIssue[],
+  ) {
+    super(
+      issues
+        .map((issue) =>
+          issue.line !== undefined
+            ? `${source}:${issue.line}: ${issue.message}`
+            : `${source}: ${issue.message}`,
+        )
+        .join('\n'),
+    );
+    this.name = 'AgentDefinitionError';
+  }
+}
+
+/**
+ * An agent definition together with the file it was loaded from.
+ */
+export interface AgentFile {
+  filePath: string;
+  definition: AgentDefinition;
+}
+
 /**
  * Loads all markdown-defined agents from a directory.
  * @param directory Directory containing agent markdown files.
@@ -83,14 +207,26 @@ const ALLOWED_INPUT_TYPES = new Set([
 export async function loadAgentsFromDirectory(
   directory: string,
 ): Promise<AgentDefinition[]> {
-  const definitions: AgentDefinition[] = [];
+  const files = await loadAgentFilesFromDirectory(directory);
+  return files.map((file) => file.definition);
+}
+
+/**
+ * Loads all markdown-defined agents from a directory, keeping track of the
+ * file each one was defined in. Files that fail to parse are skipped.
+ * @param directory Directory containing agent markdown files.
+ */
+export async function loadAgentFilesFromDirectory(
+  directory: string,
+): Promise<AgentFile[]> {
+  const files: AgentFile[] = [];
   try {
     const dirEntries = await fs.readdir(directory, { withFileTypes: true });
     for (const entry of dirEntries) {
       if (!entry.isFile()) {
         continue;
       }
-      if (!entry.name.toLowerCase().endsWith('.agent.md')) {
+      if (!isAgentFileName(entry.name)) {
         continue;
       }
 
@@ -98,7 +234,7 @@ export async function loadAgentsFromDirectory(
       try {
         const content = await fs.readFile(fullPath, 'utf-8');
         const definition = parseAgentMarkdown(content, fullPath);
-        definitions.push(definition);
+        files.push({ filePath: fullPath, definition });
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         debugLogger.warn(
@@ -121,111 +257,346 @@ export async function loadAgentsFromDirectory(
     return [];
   }
 
-  return definitions;
+  return files;
+}
+
+/**
+ * Returns true if the file name uses the agent definition extension.
+ */
+export function isAgentFileName(fileName: string): boolean {
+  return fileName.toLowerCase().endsWith('.agent.md');
 }
 
 /**
  * Parses markdown content defining an agent and returns an AgentDefinition.
+ *
+ * Two formats are accepted:
+ * - YAML front matter (`name`, `description`, `tools`, `mcp`, `model`,
+ *   `run`, `inputs`, `output`, `query`) followed by the system prompt as the
+ *   Markdown body.
+ * - A `# Agent: <name>` header followed by `##` sections, with JSON code
+ *   blocks for the structured sections.
+ *
+ * Unknown keys and sections are rejected so that typos do not silently drop
+ * settings.
  * @param markdown Markdown content describing the agent.
  * @param source Optional identifier for error messages.
+ * @throws {AgentDefinitionError} listing every problem found.
  */
 export function parseAgentMarkdown(
   markdown: string,
   source: string = 'agent markdown',
 ): AgentDefinition {
-  const sections = extractSections(markdown);
-  const name = extractAgentName(markdown, source);
-  const config = buildConfigFromSections(name, sections, source);
+  const issues: AgentDefinitionIssue[] = [];
+  const config = hasFrontMatter(markdown)
+    ? parseFrontMatterAgent(markdown, issues)
+    : parseHeadingAgent(markdown, issues);
+  if (!config || issues.length > 0) {
+    throw new AgentDefinitionError(
+      source,
+      issues.sort((a, b) => (a.line ?? 0) - (b.line ?? 0)),
+    );
+  }
   return buildAgentDefinition(config, source);
 }
 
-function extractAgentName(markdown: string, source: string): string {
-  const match = markdown.match(AGENT_NAME_REGEX);
-  if (!match) {
-    throw new Error(`Missing "# Agent: <name>" header in ${source}.`);
-  }
-  const name = match[1].trim();
-  if (!name) {
-    throw new Error(`Agent name is empty in ${source}.`);
-  }
-  return name;
+/** Returns the 1-based line of the value at a path, when known. */
+type LineLocator = (path: SpecPath) => number | undefined;
+
+type SpecPath = ReadonlyArray<string | number>;
+
+interface SpecContext {
+  issues: AgentDefinitionIssue[];
+  lineOf: LineLocator;
 }
 
-function extractSections(markdown: string): NormalizedSections {
-  const sections: NormalizedSections = new Map();
-  const matches = [...markdown.matchAll(SECTION_HEADING_REGEX)];
+function hasFrontMatter(markdown: string): boolean {
+  return markdown.split('\n', 1)[0].trim() === FRONT_MATTER_DELIMITER;
+}
 
-  for (let i = 0; i < matches.length; i++) {
-    const match = matches[i];
-    const heading = match[1].trim().toLowerCase();
-    const start = match.index! + match[0].length;
-    const end =
-      i + 1 < matches.length ? matches[i + 1].index! : markdown.length;
+function parseFrontMatterAgent(
+  markdown: string,
+  issues: AgentDefinitionIssue[],
+): ParsedAgentConfig | undefined {
+  const lines = markdown.split('\n');
+  const end = lines.findIndex(
+    (line, index) => index > 0 && line.trim() === FRONT_MATTER_DELIMITER,
+  );
+  if (end === -1) {
+    issues.push({
+      message: `Front matter is not closed with "${FRONT_MATTER_DELIMITER}".`,
+      line: 1,
+    });
+    return undefined;
+  }
+
+  // The YAML starts on the second line of the file.
+  const lineOffset = 1;
+  const lineCounter = new LineCounter();
+  const document = parseDocument(lines.slice(1, end).join('\n'), {
+    lineCounter,
+  });
+  if (document.errors.length > 0) {
+    for (const error of document.errors) {
+      issues.push({
+        message: `Invalid YAML front matter: ${error.message.split('\n')[0]}`,
+        line: error.linePos ? error.linePos[0].line + lineOffset : undefined,
+      });
+    }
+    return undefined;
+  }
 
-    const content = markdown.slice(start, end).trim();
-    sections.set(heading, content);
+  const ctx: SpecContext = {
+    issues,
+    lineOf: yamlLineLocator(document, lineCounter, lineOffset),
+  };
+  const data: unknown = document.toJS() ?? {};
+  if (!isPlainObject(data)) {
+    issues.push({
+      message: 'Front matter must be a mapping of keys to values.',
+      line: 1 + lineOffset,
+    });
+    return undefined;
   }
-  return sections;
+  checkKeys(ctx, [], data, FRONT_MATTER_KEYS, 'front matter');
+
+  const name = readString(ctx, ['name'], data['name']);
+  if (!name) {
+    issues.push({ message: 'Missing required key "name".', line: 1 });
+  }
+
+  const config: ParsedAgentConfig = {
+    name: name ?? '',
+    summary: readString(ctx, ['description'], data['description']),
+    tools: readStringList(ctx, ['tools'], data['tools']),
+    mcpServers: readStringList(ctx, ['mcp'], data['mcp']),
+    model: readModel(ctx, ['model'], data['model']),
+    runConfig: readRunConfig(ctx, ['run'], data['run']),
+    inputs: readInputs(ctx, ['inputs'], data['inputs']),
+    output: readOutput(ctx, ['output'], data['output']),
+    query: readString(ctx, ['query'], data['query']),
+    systemPrompt:
+      lines
+        .slice(end + 1)
+        .join('\n')
+        .trim() || undefined,
+  };
+  return name ? config : undefined;
 }
 
-function buildConfigFromSections(
-  name: string,
-  sections: NormalizedSections,
-  source: string,
-): ParsedAgentConfig {
+function yamlLineLocator(
+  document: Document,
+  lineCounter: LineCounter,
+  lineOffset: number,
+): LineLocator {
+  return (path) => {
+    const parent =
+      path.length > 1
+        ? document.getIn(path.slice(0, -1), true)
+        : document.contents;
+    const last = path[path.length - 1];
+    let node: unknown = parent;
+    if (isMap(parent)) {
+      // Point at the key rather than the value, which may be on a later line.
+      node =
+        parent.items.find(
+          (pair) => isScalar(pair.key) && pair.key.value === last,
+        )?.key ?? parent;
+    } else if (isSeq(parent) && typeof last === 'number') {
+      node = parent.items[last] ?? parent;
+    }
+    if (!isNode(node) || !node.range) {
+      return undefined;
+    }
+    return lineCounter.linePos(node.range[0]).line + lineOffset;
+  };
+}
+
+function parseHeadingAgent(
+  markdown: string,
+  issues: AgentDefinitionIssue[],
+): ParsedAgentConfig | undefined {
+  const name = extractAgentName(markdown, issues);
+  const sections = extractSections(markdown, issues);
+  const ctx: SpecContext = {
+    issues,
+    lineOf: (path) => sectionLineOf(markdown, sections, path),
+  };
+
   const getText = (key: string): string | undefined => {
     const section = sections.get(key);
     if (!section) return undefined;
-    return section.replace(/```[\s\S]*?```/g, '').trim() || undefined;
+    return section.content.replace(/```[\s\S]*?```/g, '').trim() || undefined;
   };
 
-  const parseJsonSection = <T>(key: string): T | undefined => {
+  const parseJsonSection = (field: JsonSectionField): unknown => {
+    const key = JSON_SECTIONS[field];
     const section = sections.get(key);
     if (!section) return undefined;
-    const match = section.match(JSON_BLOCK_REGEX);
+    const match = section.content.match(JSON_BLOCK_REGEX);
     if (!match) {
-      throw new Error(
-        `Expected a JSON code block in "${key}" section of ${source}.`,
-      );
+      issues.push({
+        message: `Expected a JSON code block in "${key}" section.`,
+        line: section.line,
+      });
+      return undefined;
     }
     try {
-      return JSON.parse(match[1]) as T;
+      return JSON.parse(match[1]);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      throw new Error(
-        `Invalid JSON in "${key}" section of ${source}: ${message}`,
-      );
+      issues.push({
+        message: `Invalid JSON in "${key}" section: ${message}`,
+        line: section.line,
+      });
+      return undefined;
     }
   };
 
-  const guidelines = extractGuidelines(sections.get('guidelines'));
-
-  const inputs = parseInputs(parseJsonSection<AgentInputSpec[]>('inputs'));
-  const output = parseOutput(parseJsonSection<AgentOutputSpec>('output'));
-  const tools = parseStringArray(parseJsonSection<string[]>('tools'));
-  const mcpServers = parseStringArray(parseJsonSection<string[]>('mcp'));
-  const model = parseModel(parseJsonSection<AgentModelSpec>('model'));
-  const runConfig = parseRunConfig(
-    parseJsonSection<AgentRunConfigSpec>('run config'),
-  );
+  const guidelines = extractGuidelines(sections.get('guidelines')?.content);
 
   const config: ParsedAgentConfig = {
-    name,
+    name: name ?? '',
     summary: getText('summary') ?? getText('role'),
     persona: getText('persona'),
     role: getText('role'),
     guidelines,
-    inputs,
-    output,
-    tools,
-    mcpServers,
-    model,
-    runConfig,
+    inputs: readInputs(ctx, ['inputs'], parseJsonSection('inputs')),
+    output: readOutput(ctx, ['output'], parseJsonSection('output')),
+    tools: readStringList(ctx, ['tools'], parseJsonSection('tools')),
+    mcpServers: readStringList(ctx, ['mcp'], parseJsonSection('mcp')),
+    model: readModel(ctx, ['model'], parseJsonSection('model')),
+    runConfig: readRunConfig(ctx, ['run'], parseJsonSection('run')),
     query: getText('query'),
     systemPrompt: getText('system prompt'),
   };
 
-  return config;
+  return name ? config : undefined;
+}
+
+function extractAgentName(
+  markdown: string,
+  issues: AgentDefinitionIssue[],
+): string | undefined {
+  const match = markdown.match(AGENT_NAME_REGEX);
+  if (!match) {
+    issues.push({
+      message:
+        'Missing "# Agent: <name>" header or "---" front matter with a name.',
+      line: 1,
+    });
+    return undefined;
+  }
+  const name = match[1].trim();
+  if (!name) {
+    issues.push({
+      message: 'Agent name is empty.',
+      line: lineAt(markdown, match.index!),
+    });
+    return undefined;
+  }
+  return name;
+}
+
+/** Returns the offset ranges of the fenced code blocks in the markdown. */
+function findCodeFences(markdown: string): Array<[number, number]> {
+  const fences: Array<[number, number]> = [];
+  let open: { index: number; marker: string } | undefined;
+  for (const match of markdown.matchAll(CODE_FENCE_REGEX)) {
+    if (!open) {
+      open = { index: match.index!, marker: match[1] };
+    } else if (match[1] === open.marker) {
+      fences.push([open.index, match.index!]);
+      open = undefined;
+    }
+  }
+  if (open) {
+    fences.push([open.index, markdown.length]);
+  }
+  return fences;
+}
+
+/**
+ * Splits the markdown at its `## ` section headings. Headings inside code
+ * fences are not section boundaries, and neither are unknown headings in a
+ * prompt section, which belong to the prompt.
+ */
+function extractSections(
+  markdown: string,
+  issues: AgentDefinitionIssue[],
+): NormalizedSections {
+  const sections: NormalizedSections = new Map();
+  const fences = findCodeFences(markdown);
+  const boundaries: Array<{ match: RegExpExecArray; known: boolean }> = [];
+  let current: string | undefined;
+
+  for (const match of markdown.matchAll(SECTION_HEADING_REGEX)) {
+    const index = match.index!;
+    if (fences.some(([start, end]) => index > start && index < end)) {
+      continue;
+    }
+    const heading = match[1].trim().toLowerCase();
+    const known = SECTION_TITLES.some(
+      (title) => title.toLowerCase() === heading,
+    );
+    if (!known && current && PROMPT_SECTIONS.has(current)) {
+      continue;
+    }
+    boundaries.push({ match, known });
+    current = known ? heading : undefined;
+  }
+
+  for (let i = 0; i < boundaries.length; i++) {
+    const { match, known } = boundaries[i];
+    const title = match[1].trim();
+    const heading = title.toLowerCase();
+    const line = lineAt(markdown, match.index!);
+    const start = match.index! + match[0].length;
+    const end =
+      i + 1 < boundaries.length
+        ? boundaries[i + 1].match.index!
+        : markdown.length;
+
+    if (!known) {
+      issues.push({
+        message: `Unknown section "${title}". Expected one of: ${SECTION_TITLES.join(', ')}.`,
+        line,
+      });
+      continue;
+    }
+    if (sections.has(heading)) {
+      issues.push({ message: `Duplicate section "${title}".`, line });
+      continue;
+    }
+
+    const body = markdown.slice(start, end);
+    sections.set(heading, { content: body.trim(), body, start, line });
+  }
+  return sections;
+}
+
+/**
+ * Locates a value inside the JSON block of a heading-based section by
+ * searching for the innermost property name of the path.
+ */
+function sectionLineOf(
+  markdown: string,
+  sections: NormalizedSections,
+  path: SpecPath,
+): number | undefined {
+  const section = sections.get(JSON_SECTIONS[path[0] as JsonSectionField]);
+  if (!section) return undefined;
+  const property = path
+    .slice(1)
+    .reverse()
+    .find((part): part is string => typeof part === 'string');
+  if (property === undefined) return section.line;
+  const index = section.body.indexOf(JSON.stringify(property));
+  return index === -1 ? section.line : lineAt(markdown, section.start + index);
+}
+
+function lineAt(text: string, index: number): number {
+  return text.slice(0, index).split('\n').length;
 }
 
 function extractGuidelines(section?: string): string[] | undefined {
@@ -249,83 +620,316 @@ function extractGuidelines(section?: string): string[] | undefined {
   return undefined;
 }
 
-function parseInputs(inputs?: AgentInputSpec[]): AgentInputSpec[] | undefined {
-  if (!inputs || inputs.length === 0) {
+function describePath(path: SpecPath): string {
+  return path
+    .map((part, index) =>
+      typeof part === 'number' ? `[${part}]` : index === 0 ? part : `.${part}`,
+    )
+    .join('');
+}
+
+function report(ctx: SpecContext, path: SpecPath, message: string): void {
+  ctx.issues.push({ message, line: ctx.lineOf(path) });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkKeys(
+  ctx: SpecContext,
+  path: SpecPath,
+  value: Record<string, unknown>,
+  allowed: readonly string[],
+  label: string = describePath(path),
+): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      report(
+        ctx,
+        [...path, key],
+        `Unknown key "${key}" in ${label}. Expected one of: ${allowed.join(', ')}.`,
+      );
+    }
+  }
+}
+
+function readObject(
+  ctx: SpecContext,
+  path: SpecPath,
+  value: unknown,
+  allowed: readonly string[],
+): Record<string, unknown> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isPlainObject(value)) {
+    report(ctx, path, `"${describePath(path)}" must be an object.`);
     return undefined;
   }
-  const sanitized = inputs
-    .map((input) => ({
-      name: input.name?.trim(),
-      type: input.type?.trim()?.toLowerCase(),
-      required: input.required ?? true,
-      description: input.description?.trim() ?? '',
-    }))
-    .filter((input) => !!input.name && !!input.type);
-
-  const valid = sanitized.filter((input) =>
-    ALLOWED_INPUT_TYPES.has(input.type as string),
-  );
+  checkKeys(ctx, path, value, allowed);
+  return value;
+}
 
-  if (valid.length === 0) {
+function readString(
+  ctx: SpecContext,
+  path: SpecPath,
+  value: unknown,
+): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    report(ctx, path, `"${describePath(path)}" must be a string.`);
     return undefined;
   }
-  return valid as AgentInputSpec[];
+  return value.trim() || undefined;
 }
 
-function parseOutput(output?: AgentOutputSpec): AgentOutputSpec | undefined {
-  if (!output) return undefined;
-  const name = output.name?.trim() || 'result';
-  const type =
-    output.type?.toLowerCase() === 'json'
-      ? ('json' as const)
-      : ('text' as const);
-  const description = output.description?.trim() || '';
-  return {
-    name,
-    type,
-    description,
-    schema: output.schema,
-  };
+function readNumber(
+  ctx: SpecContext,
+  path: SpecPath,
+  value: unknown,
+  options: { positive?: boolean } = {},
+): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    report(ctx, path, `"${describePath(path)}" must be a number.`);
+    return undefined;
+  }
+  if (options.positive && value <= 0) {
+    report(ctx, path, `"${describePath(path)}" must be greater than 0.`);
+    return undefined;
+  }
+  return value;
 }
 
-function parseStringArray(values?: string[]): string[] | undefined {
-  if (!Array.isArray(values)) return undefined;
-  const sanitized = values
-    .map((value) => value?.toString().trim())
-    .filter((value) => !!value);
+function readBoolean(
+  ctx: SpecContext,
+  path: SpecPath,
+  value: unknown,
+): boolean | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') {
+    report(ctx, path, `"${describePath(path)}" must be true or false.`);
+    return undefined;
+  }
+  return value;
+}
+
+function readStringList(
+  ctx: SpecContext,
+  path: SpecPath,
+  value: unknown,
+): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    report(ctx, path, `"${describePath(path)}" must be a list of strings.`);
+    return undefined;
+  }
+  const sanitized = value
+    .map((item, index) => readString(ctx, [...path, index], item))
+    .filter((item): item is string => !!item);
   if (sanitized.length === 0) return undefined;
   return Array.from(new Set(sanitized));
 }
 
-function parseModel(model?: AgentModelSpec): AgentModelSpec | undefined {
-  if (!model) return undefined;
-  const parsed: AgentModelSpec = {
-    model: model.model?.trim(),
-  };
-  if (typeof model.temperature === 'number') {
-    parsed.temperature = model.temperature;
+function readInputs(
+  ctx: SpecContext,
+  path: SpecPath,
+  value: unknown,
+): AgentInputSpec[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) {
+    report(ctx, path, `"${describePath(path)}" must be a list of inputs.`);
+    return undefined;
+  }
+
+  const inputs: AgentInputSpec[] = [];
+  value.forEach((item, index) => {
+    const inputPath = [...path, index];
+    const input = readObject(ctx, inputPath, item, INPUT_KEYS);
+    if (!input) return;
+
+    const name = readString(ctx, [...inputPath, 'name'], input['name']);
+    const type = readString(
+      ctx,
+      [...inputPath, 'type'],
+      input['type'],
+    )?.toLowerCase();
+    if (!name) {
+      report(ctx, inputPath, `"${describePath(inputPath)}" needs a name.`);
+    } else if (inputs.some((existing) => existing.name === name)) {
+      report(ctx, inputPath, `Duplicate input "${name}".`);
+    }
+    if (!type) {
+      report(ctx, inputPath, `"${describePath(inputPath)}" needs a type.`);
+    } else if (!ALLOWED_INPUT_TYPES.has(type)) {
+      report(
+        ctx,
+        [...inputPath, 'type'],
+        `Unsupported type "${type}" for input "${name ?? index}". Expected one of: ${[...ALLOWED_INPUT_TYPES].join(', ')}.`,
+      );
+    }
+    if (!name || !type || !ALLOWED_INPUT_TYPES.has(type)) return;
+
+    const spec: AgentInputSpec = {
+      name,
+      type: type as AgentInputType,
+      required:
+        readBoolean(ctx, [...inputPath, 'required'], input['required']) ?? true,
+      description:
+        readString(ctx, [...inputPath, 'description'], input['description']) ??
+        '',
+      enum: readEnum(ctx, [...inputPath, 'enum'], input['enum']),
+      schema: readJsonSchema(ctx, [...inputPath, 'schema'], input['schema']),
+    };
+    if (input['default'] !== undefined && input['default'] !== null) {
+      spec.default = input['default'];
+      const error = SchemaValidator.validate(
+        convertInputConfigToJsonSchema({ inputs: { [name]: spec } }),
+        { [name]: spec.default },
+      );
+      if (error) {
+        report(
+          ctx,
+          [...inputPath, 'default'],
+          `Default of input "${name}" does not match its type: ${error}`,
+        );
+        return;
+      }
+    }
+    inputs.push(spec);
+  });
+
+  return inputs.length > 0 ? inputs : undefined;
+}
+
+function readEnum(
+  ctx: SpecContext,
+  path: SpecPath,
+  value: unknown,
+): Array<string | number | boolean> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    !value.every((item) =>
+      ['string', 'number', 'boolean'].includes(typeof item),
+    )
+  ) {
+    report(
+      ctx,
+      path,
+      `"${describePath(path)}" must be a non-empty list of strings, numbers or booleans.`,
+    );
+    return undefined;
   }
-  if (typeof model.top_p === 'number') {
-    parsed.top_p = model.top_p;
+  return value;
+}
+
+function readJsonSchema(
+  ctx: SpecContext,
+  path: SpecPath,
+  value: unknown,
+): Record<string, unknown> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isPlainObject(value)) {
+    report(ctx, path, `"${describePath(path)}" must be a JSON schema object.`);
+    return undefined;
   }
-  if (typeof model.thinkingBudget === 'number') {
-    parsed.thinkingBudget = model.thinkingBudget;
+  try {
+    SchemaValidator.validate({ type: 'object', properties: { value } }, {});
+  } catch (error) {
+    report(
+      ctx,
+      path,
+      `"${describePath(path)}" is not a valid JSON schema: ${getErrorMessage(error)}`,
+    );
+    return undefined;
   }
-  return parsed;
+  return value;
 }
 
-function parseRunConfig(
-  run?: AgentRunConfigSpec,
-): AgentRunConfigSpec | undefined {
-  if (!run) return undefined;
-  const parsed: AgentRunConfigSpec = {};
-  if (typeof run.max_time_minutes === 'number') {
-    parsed.max_time_minutes = run.max_time_minutes;
+function readOutput(
+  ctx: SpecContext,
+  path: SpecPath,
+  value: unknown,
+): AgentOutputSpec | undefined {
+  const output = readObject(ctx, path, value, OUTPUT_KEYS);
+  if (!output) return undefined;
+
+  const type =
+    readString(ctx, [...path, 'type'], output['type'])?.toLowerCase() ?? 'text';
+  if (type !== 'text' && type !== 'json') {
+    report(
+      ctx,
+      [...path, 'type'],
+      `"${describePath([...path, 'type'])}" must be "text" or "json".`,
+    );
+  }
+  const schema = output['schema'];
+  if (schema !== undefined && !isPlainObject(schema)) {
+    report(
+      ctx,
+      [...path, 'schema'],
+      `"${describePath([...path, 'schema'])}" must be a JSON schema object.`,
+    );
   }
-  if (typeof run.max_turns === 'number') {
-    parsed.max_turns = run.max_turns;
+
+  return {
+    name: readString(ctx, [...path, 'name'], output['name']) || 'result',
+    type: type === 'json' ? 'json' : 'text',
+    description:
+      readString(ctx, [...path, 'description'], output['description']) ?? '',
+    schema,
+  };
+}
+
+function readModel(
+  ctx: SpecContext,
+  path: SpecPath,
+  value: unknown,
+): AgentModelSpec | undefined {
+  // `model: gemini-2.5-pro` is shorthand for `model: { model: ... }`.
+  if (typeof value === 'string') {
+    return { model: readString(ctx, path, value) };
   }
-  return parsed;
+  const model = readObject(ctx, path, value, MODEL_KEYS);
+  if (!model) return undefined;
+  return {
+    model: readString(ctx, [...path, 'model'], model['model']),
+    temperature: readNumber(
+      ctx,
+      [...path, 'temperature'],
+      model['temperature'],
+    ),
+    top_p: readNumber(ctx, [...path, 'top_p'], model['top_p']),
+    thinkingBudget: readNumber(
+      ctx,
+      [...path, 'thinkingBudget'],
+      model['thinkingBudget'],
+    ),
+  };
+}
+
+function readRunConfig(
+  ctx: SpecContext,
+  path: SpecPath,
+  value: unknown,
+): AgentRunConfigSpec | undefined {
+  const run = readObject(ctx, path, value, RUN_KEYS);
+  if (!run) return undefined;
+  return {
+    max_time_minutes: readNumber(
+      ctx,
+      [...path, 'max_time_minutes'],
+      run['max_time_minutes'],
+      { positive: true },
+    ),
+    max_turns: readNumber(ctx, [...path, 'max_turns'], run['max_turns'], {
+      positive: true,
+    }),
+    max_tokens: readNumber(ctx, [...path, 'max_tokens'], run['max_tokens'], {
+      positive: true,
+    }),
+  };
 }
 
 function buildAgentDefinition(
@@ -339,7 +943,7 @@ function buildAgentDefinition(
     typeof outputConfig extends OutputConfig<infer S> ? S : z.ZodUnknown;
   const modelConfig = buildModelConfig(config.model);
   const runConfig = buildRunConfig(config.runConfig);
-  const toolConfig = buildToolConfig(config.tools);
+  const toolConfig = buildToolConfig(config.tools, config.mcpServers);
 
   const systemPrompt = buildSystemPrompt(config);
   const finalPrompt = appendToolingContext(
@@ -384,41 +988,16 @@ function buildInputConfig(
             type: 'string',
             required: true,
             description: 'Detailed description of the task to accomplish.',
-          },
+          } satisfies AgentInputSpec,
         ];
 
   const inputConfig = Object.fromEntries(
-    effectiveInputs.map((input) => [
-      input.name,
-      {
-        description: input.description,
-        type: mapInputType(input.type),
-        required: input.required,
-      },
-    ]),
+    effectiveInputs.map(({ name, ...input }) => [name, input]),
   );
 
   return { inputs: inputConfig };
 }
 
-function mapInputType(
-  type: string,
-): AgentDefinition['inputConfig']['inputs'][string]['type'] {
-  switch (type) {
-    case 'number':
-    case 'integer':
-      return 'number';
-    case 'boolean':
-      return 'boolean';
-    case 'string[]':
-      return 'string[]';
-    case 'number[]':
-      return 'number[]';
-    default:
-      return 'string';
-  }
-}
-
 function buildOutputConfig(
   output?: AgentOutputSpec,
 ): OutputConfig<z.ZodTypeAny> | undefined {
@@ -475,17 +1054,25 @@ function buildRunConfig(
   return {
     max_time_minutes: maxTime,
     max_turns: maxTurns,
+    ...(runConfig?.max_tokens !== undefined && {
+      max_tokens: runConfig.max_tokens,
+    }),
   };
 }
 
 function buildToolConfig(
   tools?: string[],
+  mcpServers?: string[],
 ): AgentDefinition['toolConfig'] | undefined {
-  if (!tools || tools.length === 0) {
+  if (
+    (!tools || tools.length === 0) &&
+    (!mcpServers || mcpServers.length === 0)
+  ) {
     return undefined;
   }
   return {
-    tools,
+    tools: tools ?? [],
+    mcpServers,
   };
 }
 
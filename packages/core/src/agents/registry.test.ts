@@ -5,6 +5,9 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { tmpdir } from 'node:os';
 import { AgentRegistry } from './registry.js';
 import { makeFakeConfig } from '../test-utils/config.js';
 import type { AgentDefinition } from './types.js';
@@ -202,4 +205,125 @@ describe('AgentRegistry', () => {
       );
     });
   });
+
+  describe('sources', () => {
+    let workspaceDir: string;
+
+    const writeAgent = async (dir: string, description: string) => {
+      await fs.mkdir(dir, { recursive: true });
+      const filePath = path.join(dir, 'reviewer.agent.md');
+      await fs.writeFile(
+        filePath,
+        `# Agent: Reviewer\n\n## Summary\n${description}\n`,
+      );
+      return filePath;
+    };
+
+    beforeEach(async () => {
+      workspaceDir = await fs.mkdtemp(path.join(tmpdir(), 'agent-registry-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(workspaceDir, { recursive: true, force: true });
+    });
+
+    it('should record built-in agents registered without a source', () => {
+      registry.testRegisterAgent(MOCK_AGENT_V1);
+      expect(registry.getSource('MockAgent')).toEqual({ kind: 'built-in' });
+      expect(registry.getShadowedSources('MockAgent')).toEqual([]);
+    });
+
+    it('should record the file an agent was loaded from and what it shadows', async () => {
+      const projectFile = await writeAgent(
+        path.join(workspaceDir, 'agents'),
+        'Project reviewer.',
+      );
+      const workspaceFile = await writeAgent(
+        path.join(workspaceDir, '.gemini', 'agents'),
+        'Workspace reviewer.',
+      );
+      const workspaceRegistry = new AgentRegistry(
+        makeFakeConfig({ targetDir: workspaceDir }),
+      );
+
+      await workspaceRegistry.initialize();
+
+      expect(workspaceRegistry.getDefinition('Reviewer')?.description).toBe(
+        'Workspace reviewer.',
+      );
+      expect(workspaceRegistry.getSource('Reviewer')).toEqual({
+        kind: 'workspace',
+        filePath: workspaceFile,
+      });
+      expect(workspaceRegistry.getShadowedSources('Reviewer')).toEqual([
+        { kind: 'project', filePath: projectFile },
+      ]);
+    });
+
+    it('should list agent directories in load order', () => {
+      const workspaceRegistry = new AgentRegistry(
+        makeFakeConfig({ targetDir: workspaceDir }),
+      );
+
+      expect(
+        workspaceRegistry
+          .getAgentDirectories()
+          .map((directory) => directory.kind),
+      ).toEqual(['project', 'workspace', 'user']);
+      expect(workspaceRegistry.getAgentDirectories()[0].path).toBe(
+        path.join(workspaceDir, 'agents'),
+      );
+    });
+  });
+
+  describe('delegation cycles', () => {
+    let workspaceDir: string;
+
+    const writeAgent = async (name: string, tools: string[]) => {
+      const dir = path.join(workspaceDir, 'agents');
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(
+        path.join(dir, `${name}.agent.md`),
+        `---\nname: ${name}\ndescription: ${name}\ntools: [${tools.join(', ')}]\n---\n`,
+      );
+    };
+
+    beforeEach(async () => {
+      workspaceDir = await fs.mkdtemp(path.join(tmpdir(), 'agent-cycles-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(workspaceDir, { recursive: true, force: true });
+    });
+
+    it('should skip agents that delegate to each other in a cycle', async () => {
+      await writeAgent('planner', ['reviewer', 'ls']);
+      await writeAgent('reviewer', ['planner']);
+      await writeAgent('looper', ['looper']);
+      await writeAgent('lead', ['planner', 'helper']);
+      await writeAgent('helper', ['ls']);
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const workspaceRegistry = new AgentRegistry(
+        makeFakeConfig({ targetDir: workspaceDir }),
+      );
+
+      await workspaceRegistry.initialize();
+
+      expect(
+        workspaceRegistry
+          .getAllDefinitions()
+          .map((definition) => definition.name)
+          .sort(),
+      ).toEqual(['helper', 'lead']);
+      expect(workspaceRegistry.getSource('planner')).toBeUndefined();
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining(
+          'circular delegation: planner -> reviewer -> planner',
+        ),
+      );
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('circular delegation: looper -> looper'),
+      );
+    });
+  });
 });
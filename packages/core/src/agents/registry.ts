@@ -10,10 +10,34 @@ import type { AgentDefinition } from './types.js';
 import { CodebaseInvestigatorAgent } from './codebase-investigator.js';
 import { type z } from 'zod';
 import { debugLogger } from '../utils/debugLogger.js';
-import { loadAgentsFromDirectory } from './markdown-loader.js';
+import { loadAgentFilesFromDirectory } from './markdown-loader.js';
 import { Storage } from '../config/storage.js';
 import { GEMINI_DIR } from '../utils/paths.js';
 
+/**
+ * Where an agent definition was loaded from.
+ *
+ * - `built-in`: shipped with the CLI.
+ * - `project`: the workspace `agents/` directory.
+ * - `workspace`: the workspace `.gemini/agents` directory.
+ * - `user`: the global agents directory in the user's home.
+ */
+export type AgentSourceKind = 'built-in' | 'project' | 'workspace' | 'user';
+
+export interface AgentSource {
+  kind: AgentSourceKind;
+  /** The definition file, for agents loaded from disk. */
+  filePath?: string;
+}
+
+/**
+ * A directory that custom agents are loaded from.
+ */
+export interface AgentDirectory {
+  kind: Exclude<AgentSourceKind, 'built-in'>;
+  path: string;
+}
+
 /**
  * Manages the discovery, loading, validation, and registration of
  * AgentDefinitions.
@@ -21,6 +45,8 @@ import { GEMINI_DIR } from '../utils/paths.js';
 export class AgentRegistry {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private readonly agents = new Map<string, AgentDefinition<any>>();
+  private readonly sources = new Map<string, AgentSource>();
+  private readonly shadowedSources = new Map<string, AgentSource[]>();
 
   constructor(private readonly config: Config) {}
 
@@ -30,6 +56,7 @@ export class AgentRegistry {
   async initialize(): Promise<void> {
     this.loadBuiltInAgents();
     await this.loadCustomAgents();
+    this.removeCircularDelegations();
 
     if (this.config.getDebugMode()) {
       debugLogger.log(
@@ -69,26 +96,87 @@ export class AgentRegistry {
   }
 
   private async loadCustomAgents(): Promise<void> {
-    const candidateDirs = this.getCandidateAgentDirectories();
+    for (const directory of this.getAgentDirectories()) {
+      const files = await loadAgentFilesFromDirectory(directory.path);
+      for (const file of files) {
+        this.registerAgent(file.definition, {
+          kind: directory.kind,
+          filePath: file.filePath,
+        });
+      }
+    }
+  }
+
+  /**
+   * Agents can delegate to other agents by listing them as tools. Agents
+   * that take part in a delegation cycle are unregistered, since running
+   * them could recurse until the depth limit on every call.
+   */
+  private removeCircularDelegations(): void {
+    const delegatesOf = (name: string): string[] =>
+      (this.agents.get(name)?.toolConfig?.tools ?? []).filter(
+        (tool): tool is string =>
+          typeof tool === 'string' && this.agents.has(tool),
+      );
 
-    for (const directory of candidateDirs) {
-      const definitions = await loadAgentsFromDirectory(directory);
-      for (const definition of definitions) {
-        this.registerAgent(definition);
+    const done = new Set<string>();
+    const circular = new Set<string>();
+    const visit = (name: string, path: string[]): void => {
+      const cycleStart = path.indexOf(name);
+      if (cycleStart !== -1) {
+        const cycle = [...path.slice(cycleStart), name];
+        debugLogger.warn(
+          `[AgentRegistry] Skipping agents with circular delegation: ${cycle.join(' -> ')}`,
+        );
+        cycle.forEach((agent) => circular.add(agent));
+        return;
+      }
+      if (done.has(name)) {
+        return;
       }
+      for (const delegate of delegatesOf(name)) {
+        visit(delegate, [...path, name]);
+      }
+      done.add(name);
+    };
+
+    for (const name of this.agents.keys()) {
+      visit(name, []);
+    }
+    for (const name of circular) {
+      this.agents.delete(name);
+      this.sources.delete(name);
+      this.shadowedSources.delete(name);
     }
   }
 
-  private getCandidateAgentDirectories(): string[] {
+  /**
+   * Returns the directories custom agents are loaded from, in load order.
+   * Agents from later directories override agents with the same name from
+   * earlier ones.
+   */
+  getAgentDirectories(): AgentDirectory[] {
     const workspaceRoot = this.config.getTargetDir();
 
-    const projectAgentsDir = path.join(workspaceRoot, 'agents');
-    const hiddenAgentsDir = path.join(workspaceRoot, GEMINI_DIR, 'agents');
-    const globalAgentsDir = Storage.getGlobalAgentsDir();
-
-    return Array.from(
-      new Set([projectAgentsDir, hiddenAgentsDir, globalAgentsDir]),
-    );
+    const directories: AgentDirectory[] = [
+      { kind: 'project', path: path.join(workspaceRoot, 'agents') },
+      {
+        kind: 'workspace',
+        path: path.join(workspaceRoot, GEMINI_DIR, 'agents'),
+      },
+      { kind: 'user', path: Storage.getGlobalAgentsDir() },
+    ];
+
+    // The workspace may be the home directory, in which case the workspace
+    // and user directories are the same.
+    const seen = new Set<string>();
+    return directories.filter((directory) => {
+      if (seen.has(directory.path)) {
+        return false;
+      }
+      seen.add(directory.path);
+      return true;
+    });
   }
 
   /**
@@ -98,6 +186,7 @@ export class AgentRegistry {
    */
   protected registerAgent<TOutput extends z.ZodTypeAny>(
     definition: AgentDefinition<TOutput>,
+    source: AgentSource = { kind: 'built-in' },
   ): void {
     // Basic validation
     if (!definition.name || !definition.description) {
@@ -107,11 +196,21 @@ export class AgentRegistry {
       return;
     }
 
-    if (this.agents.has(definition.name) && this.config.getDebugMode()) {
-      debugLogger.log(`[AgentRegistry] Overriding agent '${definition.name}'`);
+    const previousSource = this.sources.get(definition.name);
+    if (previousSource) {
+      if (this.config.getDebugMode()) {
+        debugLogger.log(
+          `[AgentRegistry] Overriding agent '${definition.name}'`,
+        );
+      }
+      this.shadowedSources.set(definition.name, [
+        ...(this.shadowedSources.get(definition.name) ?? []),
+        previousSource,
+      ]);
     }
 
     this.agents.set(definition.name, definition);
+    this.sources.set(definition.name, source);
   }
 
   /**
@@ -121,6 +220,21 @@ export class AgentRegistry {
     return this.agents.get(name);
   }
 
+  /**
+   * Retrieves where the active definition of an agent was loaded from.
+   */
+  getSource(name: string): AgentSource | undefined {
+    return this.sources.get(name);
+  }
+
+  /**
+   * Returns the sources of definitions that were overridden by the active
+   * definition of an agent, in load order.
+   */
+  getShadowedSources(name: string): AgentSource[] {
+    return this.shadowedSources.get(name) ?? [];
+  }
+
   /**
    * Returns all active agent definitions.
    */
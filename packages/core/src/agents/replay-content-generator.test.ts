@@ -0,0 +1,66 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FinishReason } from '@google/genai';
+import { ReplayContentGenerator } from './replay-content-generator.js';
+import type { AgentRunTranscript } from './run-transcript.js';
+
+const transcript: AgentRunTranscript = {
+  runId: 'abc12345',
+  agentName: 'TestAgent',
+  definitionHash: 'hash',
+  parentChain: [],
+  startTime: '2025-01-01T10:00:00.000Z',
+  inputs: {},
+  turns: [
+    {
+      promptId: 'p#0',
+      request: [{ text: 'Get Started!' }],
+      response: [
+        { text: 'Listing files', thought: true },
+        { functionCall: { name: 'ls', args: { path: '.' }, id: 'c1' } },
+      ],
+      toolCalls: [],
+    },
+    {
+      promptId: 'p#1',
+      request: [],
+      response: [{ text: 'Done' }],
+      toolCalls: [],
+    },
+  ],
+};
+
+const request = { model: 'gemini-test-model', contents: [] };
+
+describe('ReplayContentGenerator', () => {
+  it('should return the recorded responses in order', async () => {
+    const generator = new ReplayContentGenerator(transcript);
+
+    const first = await generator.generateContent(request, 'p#0');
+    const stream = await generator.generateContentStream(request, 'p#1');
+    const chunks = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(first.candidates?.[0].finishReason).toBe(FinishReason.STOP);
+    expect(first.functionCalls).toEqual([
+      { name: 'ls', args: { path: '.' }, id: 'c1' },
+    ]);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].text).toBe('Done');
+  });
+
+  it('should fail once the recorded turns are used up', async () => {
+    const generator = new ReplayContentGenerator({ ...transcript, turns: [] });
+
+    await expect(generator.generateContent(request, 'p#0')).rejects.toThrow(
+      'Run abc12345 has no recorded model response for turn 1.',
+    );
+  });
+});
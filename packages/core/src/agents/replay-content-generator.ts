@@ -0,0 +1,70 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  FinishReason,
+  GenerateContentResponse,
+  type CountTokensResponse,
+  type EmbedContentResponse,
+  type GenerateContentParameters,
+} from '@google/genai';
+import type { ContentGenerator } from '../core/contentGenerator.js';
+import type { AgentRunTranscript } from './run-transcript.js';
+
+/**
+ * A content generator that answers each request with the model response
+ * recorded for the same turn of a saved agent run.
+ *
+ * Together with the recorded tool results this makes an agent run fully
+ * deterministic, so the effect of changes to an agent's prompts can be
+ * inspected without calling the model or touching the workspace.
+ */
+export class ReplayContentGenerator implements ContentGenerator {
+  private nextTurn = 0;
+
+  constructor(private readonly transcript: AgentRunTranscript) {}
+
+  async generateContent(
+    _request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    const turn = this.transcript.turns[this.nextTurn];
+    if (!turn) {
+      throw new Error(
+        `Run ${this.transcript.runId} has no recorded model response for turn ${this.nextTurn + 1}.`,
+      );
+    }
+    this.nextTurn++;
+
+    const response = new GenerateContentResponse();
+    response.candidates = [
+      {
+        index: 0,
+        content: { role: 'model', parts: turn.response },
+        finishReason: FinishReason.STOP,
+      },
+    ];
+    return response;
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+    userPromptId: string,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const response = await this.generateContent(request, userPromptId);
+    return (async function* () {
+      yield response;
+    })();
+  }
+
+  async countTokens(): Promise<CountTokensResponse> {
+    return { totalTokens: 0 };
+  }
+
+  async embedContent(): Promise<EmbedContentResponse> {
+    throw new Error('Replayed runs do not support embeddings.');
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { z } from 'zod';
+import { Storage } from '../config/storage.js';
+import {
+  AgentRunRecorder,
+  hashAgentDefinition,
+  listAgentRunFiles,
+  listAgentRuns,
+  loadAgentRun,
+} from './run-transcript.js';
+import { AgentTerminateMode, type AgentDefinition } from './types.js';
+
+const definition: AgentDefinition = {
+  name: 'TestAgent',
+  description: 'An agent for testing.',
+  inputConfig: {
+    inputs: { goal: { type: 'string', required: true, description: 'goal' } },
+  },
+  modelConfig: { model: 'gemini-test-model', temp: 0, top_p: 1 },
+  runConfig: { max_time_minutes: 5 },
+  promptConfig: { systemPrompt: 'Achieve the goal: ${goal}.' },
+  toolConfig: { tools: ['ls'] },
+};
+
+describe('run transcripts', () => {
+  let runsDir: string;
+  let storage: Storage;
+
+  beforeEach(() => {
+    runsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agent-runs-'));
+    storage = new Storage(runsDir);
+    vi.spyOn(storage, 'getProjectTempAgentRunsDir').mockReturnValue(runsDir);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(runsDir, { recursive: true, force: true });
+  });
+
+  const recordRun = (agentName: string, time: string, replayOf?: string) => {
+    vi.useFakeTimers({ now: new Date(time) });
+    const recorder = new AgentRunRecorder(
+      storage,
+      agentName,
+      'hash',
+      { goal: 'test' },
+      [],
+      replayOf,
+    );
+    recorder.startTurn('p#0', [{ text: 'Get Started!' }]);
+    recorder.recordResponse([{ text: 'Working on it' }]);
+    recorder.recordToolCall({
+      callId: 'c1',
+      name: 'ls',
+      args: { path: '.' },
+      result: [{ text: 'file1.txt' }],
+    });
+    recorder.finish({
+      result: 'done',
+      terminate_reason: AgentTerminateMode.GOAL,
+    });
+    vi.useRealTimers();
+    return recorder;
+  };
+
+  it('should save runs and list them most recent first', () => {
+    recordRun('First', '2025-01-01T10:00:00Z');
+    const second = recordRun('Second', '2025-01-02T10:00:00Z');
+
+    const runs = listAgentRuns(storage);
+
+    expect(runs.map((run) => run.agentName)).toEqual(['Second', 'First']);
+    expect(runs[0]).toMatchObject({
+      turns: 1,
+      terminateReason: AgentTerminateMode.GOAL,
+      filePath: second.filePath,
+    });
+  });
+
+  it('should skip files that are not valid transcripts', () => {
+    recordRun('Valid', '2025-01-01T10:00:00Z');
+    fs.writeFileSync(
+      path.join(runsDir, 'run-2025-01-01T09-00-deadbeef.json'),
+      '{',
+    );
+    fs.writeFileSync(path.join(runsDir, 'run-broken.json'), '{');
+    fs.writeFileSync(path.join(runsDir, 'notes.txt'), 'ignored');
+
+    expect(listAgentRuns(storage).map((run) => run.agentName)).toEqual([
+      'Valid',
+    ]);
+  });
+
+  it('should find runs by their file names and read only the most recent', () => {
+    const first = recordRun('First', '2025-01-01T10:00:00Z');
+    const second = recordRun('Second', '2025-01-02T10:30:00Z');
+
+    expect(listAgentRunFiles(storage)).toEqual([
+      {
+        runId: path.basename(second.filePath, '.json').split('-').pop(),
+        startTime: new Date('2025-01-02T10:30:00Z'),
+        filePath: second.filePath,
+      },
+      expect.objectContaining({ filePath: first.filePath }),
+    ]);
+    expect(listAgentRuns(storage, 1).map((run) => run.agentName)).toEqual([
+      'Second',
+    ]);
+  });
+
+  it('should return no runs when nothing has been recorded', () => {
+    fs.rmSync(runsDir, { recursive: true });
+
+    expect(listAgentRuns(storage)).toEqual([]);
+  });
+
+  it('should load a run by its ID', () => {
+    recordRun('Agent', '2025-01-01T10:00:00Z', 'original');
+    const [run] = listAgentRuns(storage);
+
+    const transcript = loadAgentRun(storage, run.runId);
+
+    expect(transcript).toMatchObject({
+      agentName: 'Agent',
+      inputs: { goal: 'test' },
+      replayOf: 'original',
+      result: 'done',
+      turns: [
+        {
+          promptId: 'p#0',
+          request: [{ text: 'Get Started!' }],
+          response: [{ text: 'Working on it' }],
+          toolCalls: [{ callId: 'c1', name: 'ls' }],
+        },
+      ],
+    });
+    expect(loadAgentRun(storage, 'missing')).toBeUndefined();
+  });
+
+  describe('hashAgentDefinition', () => {
+    it('should be stable for the same definition', () => {
+      expect(hashAgentDefinition(definition)).toBe(
+        hashAgentDefinition({ ...definition }),
+      );
+    });
+
+    it('should change when the prompt or output schema changes', () => {
+      const hash = hashAgentDefinition(definition);
+
+      expect(
+        hashAgentDefinition({
+          ...definition,
+          promptConfig: { systemPrompt: 'Something else.' },
+        }),
+      ).not.toBe(hash);
+      expect(
+        hashAgentDefinition({
+          ...definition,
+          outputConfig: {
+            outputName: 'result',
+            description: 'The result.',
+            schema: z.string(),
+          },
+        }),
+      ).not.toBe(hash);
+    });
+  });
+});
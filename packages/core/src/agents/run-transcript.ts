@@ -0,0 +1,275 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash, randomUUID } from 'node:crypto';
+import type { FunctionDeclaration, Part } from '@google/genai';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { Storage } from '../config/storage.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import type {
+  AgentDefinition,
+  AgentInputs,
+  AgentTerminateMode,
+  OutputObject,
+} from './types.js';
+import { type z } from 'zod';
+
+export const AGENT_RUN_FILE_PREFIX = 'run-';
+
+// run-<start time to the minute, with dashes for colons>-<run ID>.json
+const AGENT_RUN_FILE_REGEX =
+  /^run-(\d{4}-\d{2}-\d{2}T\d{2}-\d{2})-([0-9a-f]+)\.json$/;
+
+/**
+ * A tool call made by an agent and the parts that were sent back as its
+ * result.
+ */
+export interface AgentRunToolCall {
+  callId: string;
+  name: string;
+  args: Record<string, unknown>;
+  result: Part[];
+}
+
+/**
+ * One round trip between an agent and its model.
+ */
+export interface AgentRunTurn {
+  promptId: string;
+  /** The message sent to the model. */
+  request: Part[];
+  /** Every part the model responded with, including thoughts and calls. */
+  response: Part[];
+  toolCalls: AgentRunToolCall[];
+}
+
+/**
+ * Everything recorded about a single `AgentExecutor.run`.
+ */
+export interface AgentRunTranscript {
+  runId: string;
+  agentName: string;
+  /** Hash of the agent definition the run used; see {@link hashAgentDefinition}. */
+  definitionHash: string;
+  parentChain: string[];
+  startTime: string;
+  endTime?: string;
+  inputs: AgentInputs;
+  turns: AgentRunTurn[];
+  terminateReason?: AgentTerminateMode;
+  result?: string;
+  /** The run this one replayed, if it was a replay. */
+  replayOf?: string;
+}
+
+/**
+ * A saved run as listed by {@link listAgentRuns}.
+ */
+export interface AgentRunSummary {
+  runId: string;
+  agentName: string;
+  startTime: string;
+  turns: number;
+  terminateReason?: AgentTerminateMode;
+  replayOf?: string;
+  filePath: string;
+}
+
+/**
+ * A saved run as found by {@link listAgentRunFiles}, without reading it.
+ */
+export interface AgentRunFile {
+  runId: string;
+  /** When the run started, to the minute. */
+  startTime: Date;
+  filePath: string;
+}
+
+/**
+ * Computes a short, stable hash of everything in an agent definition that
+ * influences a run, so transcripts can tell whether the agent changed since.
+ */
+export function hashAgentDefinition<TOutput extends z.ZodTypeAny>(
+  definition: AgentDefinition<TOutput>,
+): string {
+  const { outputConfig, toolConfig } = definition;
+  const normalized = {
+    name: definition.name,
+    promptConfig: definition.promptConfig,
+    modelConfig: definition.modelConfig,
+    runConfig: definition.runConfig,
+    inputConfig: definition.inputConfig,
+    tools: toolConfig?.tools.map((tool) =>
+      typeof tool === 'string' ? tool : (tool as FunctionDeclaration).name,
+    ),
+    mcpServers: toolConfig?.mcpServers,
+    output: outputConfig && {
+      outputName: outputConfig.outputName,
+      description: outputConfig.description,
+      schema: zodToJsonSchema(outputConfig.schema),
+    },
+  };
+  return createHash('sha256')
+    .update(JSON.stringify(normalized))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Records a single agent run and saves it to the project temp directory once
+ * the run ends.
+ *
+ * Runs are stored as JSON files in ~/.gemini/tmp/<project_hash>/agent-runs/
+ */
+export class AgentRunRecorder {
+  readonly filePath: string;
+  private readonly transcript: AgentRunTranscript;
+
+  constructor(
+    storage: Storage,
+    agentName: string,
+    definitionHash: string,
+    inputs: AgentInputs,
+    parentChain: string[],
+    replayOf?: string,
+  ) {
+    const runId = randomUUID().slice(0, 8);
+    const timestamp = new Date().toISOString().slice(0, 16).replace(/:/g, '-');
+    this.filePath = path.join(
+      storage.getProjectTempAgentRunsDir(),
+      `${AGENT_RUN_FILE_PREFIX}${timestamp}-${runId}.json`,
+    );
+    this.transcript = {
+      runId,
+      agentName,
+      definitionHash,
+      parentChain,
+      startTime: new Date().toISOString(),
+      inputs,
+      turns: [],
+      replayOf,
+    };
+  }
+
+  /** Starts a new turn with the message about to be sent to the model. */
+  startTurn(promptId: string, request: Part[]): void {
+    this.transcript.turns.push({
+      promptId,
+      request,
+      response: [],
+      toolCalls: [],
+    });
+  }
+
+  /** Appends parts streamed back by the model to the current turn. */
+  recordResponse(parts: Part[]): void {
+    this.transcript.turns.at(-1)?.response.push(...parts);
+  }
+
+  /** Records the result of a tool call made during the current turn. */
+  recordToolCall(toolCall: AgentRunToolCall): void {
+    this.transcript.turns.at(-1)?.toolCalls.push(toolCall);
+  }
+
+  /**
+   * Records how the run ended and writes the transcript to disk.
+   *
+   * Failing to save is logged rather than thrown so that it never changes the
+   * outcome of the run itself.
+   */
+  finish(output: Partial<OutputObject>): void {
+    this.transcript.endTime = new Date().toISOString();
+    this.transcript.terminateReason = output.terminate_reason;
+    this.transcript.result = output.result;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, JSON.stringify(this.transcript, null, 2));
+    } catch (error) {
+      debugLogger.warn(
+        `[AgentRunRecorder] Could not save run of agent '${this.transcript.agentName}': ${error}`,
+      );
+    }
+  }
+}
+
+/**
+ * Lists the saved agent runs of a project, most recent first, using only
+ * their file names.
+ */
+export function listAgentRunFiles(storage: Storage): AgentRunFile[] {
+  const runsDir = storage.getProjectTempAgentRunsDir();
+  let files: string[];
+  try {
+    files = fs.readdirSync(runsDir);
+  } catch {
+    return [];
+  }
+
+  const runs: AgentRunFile[] = [];
+  for (const file of files) {
+    const match = file.match(AGENT_RUN_FILE_REGEX);
+    if (!match) {
+      continue;
+    }
+    const [date, time] = match[1].split('T');
+    runs.push({
+      runId: match[2],
+      startTime: new Date(`${date}T${time.replace('-', ':')}Z`),
+      filePath: path.join(runsDir, file),
+    });
+  }
+  return runs.sort((a, b) => b.filePath.localeCompare(a.filePath));
+}
+
+/**
+ * Reads the summaries of the most recent saved agent runs of a project, most
+ * recent first. Files that cannot be read are skipped.
+ *
+ * @param limit How many of the most recent runs to read.
+ */
+export function listAgentRuns(
+  storage: Storage,
+  limit = Infinity,
+): AgentRunSummary[] {
+  const runs: AgentRunSummary[] = [];
+  for (const { filePath } of listAgentRunFiles(storage).slice(0, limit)) {
+    try {
+      const transcript = JSON.parse(
+        fs.readFileSync(filePath, 'utf8'),
+      ) as AgentRunTranscript;
+      runs.push({
+        runId: transcript.runId,
+        agentName: transcript.agentName,
+        startTime: transcript.startTime,
+        turns: transcript.turns.length,
+        terminateReason: transcript.terminateReason,
+        replayOf: transcript.replayOf,
+        filePath,
+      });
+    } catch (error) {
+      debugLogger.warn(`[AgentRunRecorder] Skipping ${filePath}: ${error}`);
+    }
+  }
+  return runs.sort((a, b) => b.startTime.localeCompare(a.startTime));
+}
+
+/**
+ * Loads a saved agent run by its run ID.
+ *
+ * @returns The transcript, or `undefined` if no run has that ID.
+ */
+export function loadAgentRun(
+  storage: Storage,
+  runId: string,
+): AgentRunTranscript | undefined {
+  const run = listAgentRunFiles(storage).find((r) => r.runId === runId);
+  if (!run) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(run.filePath, 'utf8'));
+}
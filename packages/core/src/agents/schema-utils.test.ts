@@ -5,7 +5,10 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { convertInputConfigToJsonSchema } from './schema-utils.js';
+import {
+  convertInputConfigToJsonSchema,
+  resolveAgentInputs,
+} from './schema-utils.js';
 import type { InputConfig } from './types.js';
 
 const PRIMITIVE_TYPES_CONFIG: InputConfig = {
@@ -69,6 +72,32 @@ const EMPTY_CONFIG: InputConfig = {
   inputs: {},
 };
 
+const STRUCTURED_CONFIG: InputConfig = {
+  inputs: {
+    location: {
+      type: 'object',
+      description: 'Where to look',
+      required: true,
+      schema: {
+        properties: { path: { type: 'string' } },
+        required: ['path'],
+      },
+    },
+    notes: {
+      type: 'file',
+      description: 'A file to read',
+      required: false,
+    },
+    depth: {
+      type: 'string',
+      description: 'How deep to go',
+      required: true,
+      enum: ['shallow', 'deep'],
+      default: 'shallow',
+    },
+  },
+};
+
 const UNSUPPORTED_TYPE_CONFIG: InputConfig = {
   inputs: {
     invalid_param: {
@@ -153,6 +182,32 @@ describe('convertInputConfigToJsonSchema', () => {
     });
   });
 
+  describe('structured inputs', () => {
+    it('should map object and file inputs and merge their refinements', () => {
+      const result = convertInputConfigToJsonSchema(STRUCTURED_CONFIG);
+
+      expect(result).toEqual({
+        type: 'object',
+        properties: {
+          location: {
+            type: 'object',
+            description: 'Where to look',
+            properties: { path: { type: 'string' } },
+            required: ['path'],
+          },
+          notes: { type: 'string', description: 'A file to read' },
+          depth: {
+            type: 'string',
+            description: 'How deep to go',
+            enum: ['shallow', 'deep'],
+            default: 'shallow',
+          },
+        },
+        required: ['location'],
+      });
+    });
+  });
+
   describe('error handling', () => {
     it('should throw an informative error for an unsupported input type', () => {
       const action = () =>
@@ -163,3 +218,48 @@ describe('convertInputConfigToJsonSchema', () => {
     });
   });
 });
+
+describe('resolveAgentInputs', () => {
+  it('should apply defaults to omitted inputs without sharing them', () => {
+    const config: InputConfig = {
+      inputs: {
+        tags: {
+          type: 'string[]',
+          description: 'Tags',
+          required: true,
+          default: ['a'],
+        },
+      },
+    };
+
+    const resolved = resolveAgentInputs(config, {});
+    (resolved['tags'] as string[]).push('b');
+
+    expect(resolveAgentInputs(config, {})).toEqual({ tags: ['a'] });
+  });
+
+  it('should keep inputs that were given', () => {
+    expect(
+      resolveAgentInputs(STRUCTURED_CONFIG, {
+        location: { path: 'src' },
+        depth: 'deep',
+      }),
+    ).toEqual({ location: { path: 'src' }, depth: 'deep' });
+  });
+
+  it('should throw when the inputs do not match the schema', () => {
+    expect(() =>
+      resolveAgentInputs(STRUCTURED_CONFIG, { location: {}, depth: 'deep' }),
+    ).toThrow(
+      "Invalid agent inputs: params/location must have required property 'path'",
+    );
+    expect(() =>
+      resolveAgentInputs(STRUCTURED_CONFIG, {
+        location: { path: 'src' },
+        depth: 'bottomless',
+      }),
+    ).toThrow(
+      /Invalid agent inputs: params\/depth must be equal to one of the allowed values/,
+    );
+  });
+});
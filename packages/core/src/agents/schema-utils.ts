@@ -4,7 +4,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { InputConfig } from './types.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import type { AgentInputs, InputConfig } from './types.js';
 
 /**
  * Defines the structure for a JSON Schema object, used for tool function
@@ -18,11 +19,16 @@ interface JsonSchemaObject {
 
 /**
  * Defines the structure for a property within a {@link JsonSchemaObject}.
+ *
+ * Inputs may refine their schema with any further JSON Schema keyword.
  */
 interface JsonSchemaProperty {
-  type: 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
   description: string;
   items?: { type: 'string' | 'number' };
+  enum?: Array<string | number | boolean>;
+  default?: unknown;
+  [keyword: string]: unknown;
 }
 
 /**
@@ -32,6 +38,8 @@ interface JsonSchemaProperty {
  * This utility ensures that the configuration for a subagent's inputs is
  * correctly translated into the format expected by the generative model.
  *
+ * Inputs that have a default value are never required.
+ *
  * @param inputConfig The internal `InputConfig` to convert.
  * @returns A JSON Schema object representing the inputs.
  * @throws An `Error` if an unsupported input type is encountered, ensuring
@@ -53,9 +61,14 @@ export function convertInputConfigToJsonSchema(
       case 'number':
       case 'integer':
       case 'boolean':
+      case 'object':
         schemaProperty.type = definition.type;
         break;
 
+      case 'file':
+        schemaProperty.type = 'string';
+        break;
+
       case 'string[]':
         schemaProperty.type = 'array';
         schemaProperty.items = { type: 'string' };
@@ -70,14 +83,25 @@ export function convertInputConfigToJsonSchema(
         const exhaustiveCheck: never = definition.type;
         throw new Error(
           `Unsupported input type '${exhaustiveCheck}' for parameter '${name}'. ` +
-            'Supported types: string, number, integer, boolean, string[], number[]',
+            'Supported types: string, number, integer, boolean, string[], number[], object, file',
         );
       }
     }
 
-    properties[name] = schemaProperty as JsonSchemaProperty;
+    if (definition.enum) {
+      schemaProperty.enum = definition.enum;
+    }
+    if (definition.default !== undefined) {
+      schemaProperty.default = definition.default;
+    }
+
+    properties[name] = {
+      ...schemaProperty,
+      ...definition.schema,
+      description: definition.description,
+    } as JsonSchemaProperty;
 
-    if (definition.required) {
+    if (definition.required && definition.default === undefined) {
       required.push(name);
     }
   }
@@ -88,3 +112,33 @@ export function convertInputConfigToJsonSchema(
     required: required.length > 0 ? required : undefined,
   };
 }
+
+/**
+ * Fills in the defaults of omitted inputs and validates the result against
+ * the JSON Schema of the agent's inputs.
+ *
+ * @param inputConfig The agent's input configuration.
+ * @param inputs The inputs the agent was invoked with.
+ * @returns The inputs with defaults applied.
+ * @throws An `Error` describing the problem if the inputs are invalid.
+ */
+export function resolveAgentInputs(
+  inputConfig: InputConfig,
+  inputs: AgentInputs,
+): AgentInputs {
+  const resolved: AgentInputs = { ...inputs };
+  for (const [name, definition] of Object.entries(inputConfig.inputs)) {
+    if (resolved[name] === undefined && definition.default !== undefined) {
+      resolved[name] = structuredClone(definition.default);
+    }
+  }
+
+  const error = SchemaValidator.validate(
+    convertInputConfigToJsonSchema(inputConfig),
+    resolved,
+  );
+  if (error) {
+    throw new Error(`Invalid agent inputs: ${error}`);
+  }
+  return resolved;
+}
@@ -121,6 +121,7 @@ describe('SubagentToolWrapper', () => {
         mockDefinition,
         mockConfig,
         undefined,
+        undefined,
       );
     });
 
@@ -140,6 +141,7 @@ describe('SubagentToolWrapper', () => {
         mockDefinition,
         mockConfig,
         mockMessageBus,
+        undefined,
       );
     });
 
@@ -11,7 +11,11 @@ import {
   type ToolResult,
 } from '../tools/tools.js';
 import type { Config } from '../config/config.js';
-import type { AgentDefinition, AgentInputs } from './types.js';
+import type {
+  AgentDefinition,
+  AgentDelegationContext,
+  AgentInputs,
+} from './types.js';
 import { convertInputConfigToJsonSchema } from './schema-utils.js';
 import { SubagentInvocation } from './invocation.js';
 import type { MessageBus } from '../confirmation-bus/message-bus.js';
@@ -33,11 +37,14 @@ export class SubagentToolWrapper extends BaseDeclarativeTool<
    * @param definition The `AgentDefinition` of the subagent to wrap.
    * @param config The runtime configuration, passed down to the subagent.
    * @param messageBus Optional message bus for policy enforcement.
+   * @param getDelegationContext Provides the calling agents when the subagent
+   * is exposed to another agent rather than to the main session.
    */
   constructor(
     private readonly definition: AgentDefinition,
     private readonly config: Config,
     messageBus?: MessageBus,
+    private readonly getDelegationContext?: () => AgentDelegationContext,
   ) {
     // Dynamically generate the JSON schema required for the tool definition.
     const parameterSchema = convertInputConfigToJsonSchema(
@@ -73,6 +80,7 @@ export class SubagentToolWrapper extends BaseDeclarativeTool<
       this.definition,
       this.config,
       this.messageBus,
+      this.getDelegationContext?.(),
     );
   }
 }
@@ -21,6 +21,7 @@ export enum AgentTerminateMode {
   GOAL = 'GOAL',
   MAX_TURNS = 'MAX_TURNS',
   ABORTED = 'ABORTED',
+  BUDGET = 'BUDGET',
 }
 
 /**
@@ -43,10 +44,42 @@ export type AgentInputs = Record<string, unknown>;
 export interface SubagentActivityEvent {
   isSubagentActivityEvent: true;
   agentName: string;
+  /**
+   * The agents that delegated to `agentName`, outermost first. Empty for an
+   * agent invoked directly from the main session.
+   */
+  parentChain: string[];
   type: 'TOOL_CALL_START' | 'TOOL_CALL_END' | 'THOUGHT_CHUNK' | 'ERROR';
   data: Record<string, unknown>;
 }
 
+/**
+ * Describes where an agent sits when it is invoked by another agent.
+ */
+export interface AgentDelegationContext {
+  /** The agents that delegated to this one, outermost first. */
+  parentChain: string[];
+  /**
+   * Epoch milliseconds by which the calling agents must finish. A nested
+   * agent never runs past its caller's time budget.
+   */
+  deadline?: number;
+  /** Receives the activity of the nested agent, forwarded to the caller. */
+  onActivity?: (activity: SubagentActivityEvent) => void;
+  /** Token budget shared with the calling agents and their other delegates. */
+  tokenBudget?: AgentTokenBudget;
+}
+
+/**
+ * A number of tokens shared by several agent runs. Every run adds the tokens
+ * of its model calls to `usedTokens` and stops with
+ * {@link AgentTerminateMode.BUDGET} once `maxTokens` is reached.
+ */
+export interface AgentTokenBudget {
+  maxTokens: number;
+  usedTokens: number;
+}
+
 /**
  * The definition for an agent.
  * @template TOutput The specific Zod schema for the agent's final output object.
@@ -99,6 +132,46 @@ export interface PromptConfig {
  */
 export interface ToolConfig {
   tools: Array<string | FunctionDeclaration | AnyDeclarativeTool>;
+  /**
+   * Names of MCP servers (keys of the configured `mcpServers`) whose tools
+   * are exposed to the agent. Servers that are not already running in the
+   * session are started on demand when the agent is created.
+   */
+  mcpServers?: string[];
+}
+
+/**
+ * The kinds of value an agent input can take.
+ *
+ * `file` inputs are paths to files in the workspace; the agent receives the
+ * contents of the file alongside its first message.
+ */
+export type AgentInputType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'integer'
+  | 'string[]'
+  | 'number[]'
+  | 'object'
+  | 'file';
+
+/**
+ * Describes a single input (parameter) of an agent.
+ */
+export interface AgentInputDefinition {
+  description: string;
+  type: AgentInputType;
+  required: boolean;
+  /** The value used when the input is omitted. */
+  default?: unknown;
+  /** The only values the input may take. */
+  enum?: Array<string | number | boolean>;
+  /**
+   * Additional JSON Schema keywords for the input, such as `properties` for an
+   * `object` input or `minimum` for a number.
+   */
+  schema?: Record<string, unknown>;
 }
 
 /**
@@ -109,20 +182,7 @@ export interface InputConfig {
    * Defines the parameters the agent accepts.
    * This is vital for generating the tool wrapper schema.
    */
-  inputs: Record<
-    string,
-    {
-      description: string;
-      type:
-        | 'string'
-        | 'number'
-        | 'boolean'
-        | 'integer'
-        | 'string[]'
-        | 'number[]';
-      required: boolean;
-    }
-  >;
+  inputs: Record<string, AgentInputDefinition>;
 }
 
 /**
@@ -165,4 +225,9 @@ export interface RunConfig {
   max_time_minutes: number;
   /** The maximum number of conversational turns. */
   max_turns?: number;
+  /**
+   * The maximum number of tokens the run may use across its model calls.
+   * The run stops with {@link AgentTerminateMode.BUDGET} once it is reached.
+   */
+  max_tokens?: number;
 }
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { OAuth2Client } from 'google-auth-library';
+import { getCodeAssistServer } from './codeAssist.js';
+import { CodeAssistServer } from './server.js';
+import { LoggingContentGenerator } from '../core/loggingContentGenerator.js';
+import { RecordingContentGenerator } from '../core/recordingContentGenerator.js';
+import type { ContentGenerator } from '../core/contentGenerator.js';
+import type { Config } from '../config/config.js';
+
+describe('getCodeAssistServer', () => {
+  let tempDir: string;
+  let server: CodeAssistServer;
+
+  const configWith = (generator: ContentGenerator) =>
+    ({ getContentGenerator: () => generator }) as unknown as Config;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'code-assist-'));
+    server = new CodeAssistServer(new OAuth2Client(), 'test-project');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should find the server behind the logging and recording generators', () => {
+    const config = configWith(server);
+    const recorder = new RecordingContentGenerator(
+      server,
+      path.join(tempDir, 'session.jsonl'),
+    );
+    const generator = new LoggingContentGenerator(recorder, config);
+
+    expect(getCodeAssistServer(configWith(generator))).toBe(server);
+  });
+
+  it('should return undefined for other content generators', () => {
+    const generator = new LoggingContentGenerator(
+      {} as ContentGenerator,
+      configWith(server),
+    );
+
+    expect(getCodeAssistServer(configWith(generator))).toBeUndefined();
+  });
+});
@@ -11,7 +11,6 @@ import { setupUser } from './setup.js';
 import type { HttpOptions } from './server.js';
 import { CodeAssistServer } from './server.js';
 import type { Config } from '../config/config.js';
-import { LoggingContentGenerator } from '../core/loggingContentGenerator.js';
 
 export async function createCodeAssistContentGenerator(
   httpOptions: HttpOptions,
@@ -42,8 +41,8 @@ export function getCodeAssistServer(
 ): CodeAssistServer | undefined {
   let server = config.getContentGenerator();
 
-  // Unwrap LoggingContentGenerator if present
-  if (server instanceof LoggingContentGenerator) {
+  // Unwrap decorators such as the logging and recording generators
+  while (server && !(server instanceof CodeAssistServer) && server.getWrapped) {
     server = server.getWrapped();
   }
 
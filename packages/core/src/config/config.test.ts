@@ -28,6 +28,7 @@ import { GitService } from '../services/gitService.js';
 import { ClearcutLogger } from '../telemetry/clearcut-logger/clearcut-logger.js';
 
 import { ShellTool } from '../tools/shell.js';
+import { DocsLookupTool } from '../tools/docs-lookup.js';
 import { ReadFileTool } from '../tools/read-file.js';
 import { GrepTool } from '../tools/grep.js';
 import { RipGrepTool, canUseRipgrep } from '../tools/ripGrep.js';
@@ -721,6 +722,29 @@ describe('Server Config (config.ts)', () => {
       expect(SubagentToolWrapperMock).not.toHaveBeenCalled();
     });
 
+    it('should register the docs lookup tool only when it is enabled', async () => {
+      const registerToolMock = (
+        (await vi.importMock('../tools/tool-registry')) as {
+          ToolRegistry: { prototype: { registerTool: Mock } };
+        }
+      ).ToolRegistry.prototype.registerTool;
+      const wasDocsLookupRegistered = async (params: ConfigParameters) => {
+        registerToolMock.mockClear();
+        await new Config(params).initialize();
+        return registerToolMock.mock.calls.some(
+          (call) => call[0] instanceof DocsLookupTool,
+        );
+      };
+
+      expect(await wasDocsLookupRegistered(baseParams)).toBe(false);
+      expect(
+        await wasDocsLookupRegistered({
+          ...baseParams,
+          docsLookupSettings: { enabled: true },
+        }),
+      ).toBe(true);
+    });
+
     describe('with minified tool class names', () => {
       beforeEach(() => {
         Object.defineProperty(
@@ -10,6 +10,7 @@ import type {
   ContentGenerator,
   ContentGeneratorConfig,
 } from '../core/contentGenerator.js';
+import type { PlaybackMatchMode } from '../core/playbackContentGenerator.js';
 import {
   AuthType,
   createContentGenerator,
@@ -25,17 +26,25 @@ import { GlobTool } from '../tools/glob.js';
 import { EditTool } from '../tools/edit.js';
 import { SmartEditTool } from '../tools/smart-edit.js';
 import { ShellTool } from '../tools/shell.js';
+import {
+  KillBackgroundJobTool,
+  ReadBackgroundOutputTool,
+  WaitForBackgroundJobTool,
+  WriteBackgroundInputTool,
+} from '../tools/background-shell.js';
 import { WriteFileTool } from '../tools/write-file.js';
 import { WebFetchTool } from '../tools/web-fetch.js';
 import { ReadManyFilesTool } from '../tools/read-many-files.js';
 import { MemoryTool, setGeminiMdFilename } from '../tools/memoryTool.js';
 import { WebSearchTool } from '../tools/web-search.js';
-import { context7Tool } from '../tools/mcp-context7.js';
-import { sequentialThinkingTool } from '../tools/mcp-sequential-thinking.js';
+import { DocsLookupTool } from '../tools/docs-lookup.js';
+import { SequentialThinkingTool } from '../tools/sequential-thinking.js';
+import { TodoStore, todoStoreContext } from '../services/todoStore.js';
 import { GeminiClient } from '../core/client.js';
 import { BaseLlmClient } from '../core/baseLlmClient.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
 import { GitService } from '../services/gitService.js';
+import type { WorktreeService } from '../services/worktreeService.js';
 import type { TelemetryTarget } from '../telemetry/index.js';
 import {
   initializeTelemetry,
@@ -55,6 +64,7 @@ import { shouldAttemptBrowserLaunch } from '../utils/browser.js';
 import type { MCPOAuthConfig } from '../mcp/oauth-provider.js';
 import { ideContextStore } from '../ide/ideContext.js';
 import { WriteTodosTool } from '../tools/write-todos.js';
+import { AGENT_MAP_TOOL_NAME } from '../tools/tool-names.js';
 import type { FileSystemService } from '../services/fileSystemService.js';
 import { StandardFileSystemService } from '../services/fileSystemService.js';
 import {
@@ -64,6 +74,9 @@ import {
 import { RipgrepFallbackEvent } from '../telemetry/types.js';
 import type { FallbackModelHandler } from '../fallback/types.js';
 import { ModelRouterService } from '../routing/modelRouterService.js';
+import type { ModelRoutingConfig } from '../routing/routingConfig.js';
+import type { BudgetConfig } from '../services/budgetService.js';
+import { BudgetService } from '../services/budgetService.js';
 import { OutputFormat } from '../output/types.js';
 
 // Re-export OAuth config type
@@ -76,11 +89,13 @@ import { FileExclusions } from '../utils/ignorePatterns.js';
 import type { EventEmitter } from 'node:events';
 import { MessageBus } from '../confirmation-bus/message-bus.js';
 import { PolicyEngine } from '../policy/policy-engine.js';
+import { PolicyAuditLog } from '../policy/audit-log.js';
 import type { PolicyEngineConfig } from '../policy/types.js';
 import type { UserTierId } from '../code_assist/types.js';
 import { AgentRegistry } from '../agents/registry.js';
 import { setGlobalProxy } from '../utils/fetch.js';
 import { SubagentToolWrapper } from '../agents/subagent-tool-wrapper.js';
+import { AgentMapTool } from '../agents/agent-map-tool.js';
 
 export enum ApprovalMode {
   DEFAULT = 'default',
@@ -127,6 +142,28 @@ export interface CodebaseInvestigatorSettings {
   model?: string;
 }
 
+export type DocsProviderName = 'context7' | 'local' | 'node_modules';
+
+export interface DocsLookupSettings {
+  enabled?: boolean;
+  provider?: DocsProviderName;
+  context7ApiKey?: string;
+  context7BaseUrl?: string;
+  localDirectory?: string;
+}
+
+export interface OpenAICompatibleSettings {
+  /** The API base URL, e.g. `http://localhost:11434/v1`. */
+  baseUrl?: string;
+  model?: string;
+}
+
+export interface PolicyAuditSettings {
+  enabled?: boolean;
+  /** Arguments whose values are not written to the log; `*` for all. */
+  redactArgs?: string[];
+}
+
 /**
  * All information required in CLI to handle an extension. Defined in Core so
  * that the collection of loaded, active, and inactive extensions can be passed
@@ -225,6 +262,8 @@ export interface ConfigParameters {
   coreTools?: string[];
   allowedTools?: string[];
   excludeTools?: string[];
+  /** Tools that stay registered for subagents but are hidden from the main session. */
+  agentOnlyTools?: string[];
   toolDiscoveryCommand?: string;
   toolCallCommand?: string;
   mcpServerCommand?: string;
@@ -276,12 +315,26 @@ export interface ConfigParameters {
   enableToolOutputTruncation?: boolean;
   eventEmitter?: EventEmitter;
   useSmartEdit?: boolean;
+  recordAgentRuns?: boolean;
   useWriteTodos?: boolean;
   policyEngineConfig?: PolicyEngineConfig;
+  policyAudit?: PolicyAuditSettings;
   output?: OutputSettings;
   useModelRouter?: boolean;
+  modelRouting?: ModelRoutingConfig;
+  budget?: BudgetConfig;
+  /**
+   * The isolated tree the session works in. `targetDir` should be its
+   * working directory.
+   */
+  worktree?: WorktreeService;
   enableMessageBusIntegration?: boolean;
   codebaseInvestigatorSettings?: CodebaseInvestigatorSettings;
+  docsLookupSettings?: DocsLookupSettings;
+  openAICompatible?: OpenAICompatibleSettings;
+  recordResponsesFile?: string;
+  replayResponsesFile?: string;
+  replayMatchMode?: PlaybackMatchMode;
   continueOnFailedApiCall?: boolean;
   retryFetchErrors?: boolean;
   enableShellOutputEfficiency?: boolean;
@@ -307,6 +360,7 @@ export class Config {
   private readonly coreTools: string[] | undefined;
   private readonly allowedTools: string[] | undefined;
   private readonly excludeTools: string[] | undefined;
+  private readonly agentOnlyTools: string[];
   private readonly toolDiscoveryCommand: string | undefined;
   private readonly toolCallCommand: string | undefined;
   private readonly mcpServerCommand: string | undefined;
@@ -322,6 +376,7 @@ export class Config {
   private geminiClient!: GeminiClient;
   private baseLlmClient!: BaseLlmClient;
   private modelRouterService: ModelRouterService;
+  private readonly budgetService: BudgetService;
   private readonly fileFiltering: {
     respectGitIgnore: boolean;
     respectGeminiIgnore: boolean;
@@ -373,13 +428,24 @@ export class Config {
   private readonly fileExclusions: FileExclusions;
   private readonly eventEmitter?: EventEmitter;
   private readonly useSmartEdit: boolean;
+  private readonly recordAgentRuns: boolean;
   private readonly useWriteTodos: boolean;
   private readonly messageBus: MessageBus;
   private readonly policyEngine: PolicyEngine;
+  private readonly policyAuditLog: PolicyAuditLog | undefined;
   private readonly outputSettings: OutputSettings;
   private readonly useModelRouter: boolean;
+  private readonly modelRouting: ModelRoutingConfig;
+  private readonly budget: BudgetConfig;
+  private readonly worktree: WorktreeService | undefined;
   private readonly enableMessageBusIntegration: boolean;
   private readonly codebaseInvestigatorSettings: CodebaseInvestigatorSettings;
+  private readonly docsLookupSettings: DocsLookupSettings;
+  private readonly openAICompatible: OpenAICompatibleSettings | undefined;
+  private readonly recordResponsesFile: string | undefined;
+  private readonly replayResponsesFile: string | undefined;
+  private readonly replayMatchMode: PlaybackMatchMode;
+  private readonly todoStore = new TodoStore();
   private readonly continueOnFailedApiCall: boolean;
   private readonly retryFetchErrors: boolean;
   private readonly enableShellOutputEfficiency: boolean;
@@ -402,6 +468,7 @@ export class Config {
     this.coreTools = params.coreTools;
     this.allowedTools = params.allowedTools;
     this.excludeTools = params.excludeTools;
+    this.agentOnlyTools = params.agentOnlyTools ?? [];
     this.toolDiscoveryCommand = params.toolDiscoveryCommand;
     this.toolCallCommand = params.toolCallCommand;
     this.mcpServerCommand = params.mcpServerCommand;
@@ -473,8 +540,12 @@ export class Config {
       params.truncateToolOutputLines ?? DEFAULT_TRUNCATE_TOOL_OUTPUT_LINES;
     this.enableToolOutputTruncation = params.enableToolOutputTruncation ?? true;
     this.useSmartEdit = params.useSmartEdit ?? true;
+    this.recordAgentRuns = params.recordAgentRuns ?? true;
     this.useWriteTodos = params.useWriteTodos ?? false;
     this.useModelRouter = params.useModelRouter ?? false;
+    this.modelRouting = params.modelRouting ?? {};
+    this.budget = params.budget ?? {};
+    this.worktree = params.worktree;
     this.enableMessageBusIntegration =
       params.enableMessageBusIntegration ?? false;
     this.codebaseInvestigatorSettings = {
@@ -486,6 +557,15 @@ export class Config {
         DEFAULT_THINKING_MODE,
       model: params.codebaseInvestigatorSettings?.model ?? DEFAULT_GEMINI_MODEL,
     };
+    this.docsLookupSettings = {
+      ...params.docsLookupSettings,
+      enabled: params.docsLookupSettings?.enabled ?? false,
+      provider: params.docsLookupSettings?.provider ?? 'context7',
+    };
+    this.openAICompatible = params.openAICompatible;
+    this.recordResponsesFile = params.recordResponsesFile;
+    this.replayResponsesFile = params.replayResponsesFile;
+    this.replayMatchMode = params.replayMatchMode ?? 'hash';
     this.continueOnFailedApiCall = params.continueOnFailedApiCall ?? true;
     this.enableShellOutputEfficiency =
       params.enableShellOutputEfficiency ?? true;
@@ -495,6 +575,12 @@ export class Config {
     this.fileExclusions = new FileExclusions(this);
     this.eventEmitter = params.eventEmitter;
     this.policyEngine = new PolicyEngine(params.policyEngineConfig);
+    this.policyAuditLog = params.policyAudit?.enabled
+      ? new PolicyAuditLog(
+          this.storage.getPolicyAuditLogPath(),
+          params.policyAudit.redactArgs,
+        )
+      : undefined;
     this.messageBus = new MessageBus(this.policyEngine, this.debugMode);
     this.outputSettings = {
       format: params.output?.format ?? OutputFormat.TEXT,
@@ -515,6 +601,7 @@ export class Config {
     }
     this.geminiClient = new GeminiClient(this);
     this.modelRouterService = new ModelRouterService(this);
+    this.budgetService = new BudgetService(this);
   }
 
   /**
@@ -713,6 +800,10 @@ export class Config {
     return this.excludeTools;
   }
 
+  getAgentOnlyTools(): string[] {
+    return this.agentOnlyTools;
+  }
+
   getToolDiscoveryCommand(): string | undefined {
     return this.toolDiscoveryCommand;
   }
@@ -814,6 +905,10 @@ export class Config {
     return this.modelRouterService;
   }
 
+  getBudgetService(): BudgetService {
+    return this.budgetService;
+  }
+
   getEnableRecursiveFileSearch(): boolean {
     return this.fileFiltering.enableRecursiveFileSearch;
   }
@@ -1053,6 +1148,10 @@ export class Config {
     return this.useSmartEdit;
   }
 
+  getRecordAgentRuns(): boolean {
+    return this.recordAgentRuns;
+  }
+
   getUseWriteTodos(): boolean {
     return this.useWriteTodos;
   }
@@ -1067,6 +1166,18 @@ export class Config {
     return this.useModelRouter;
   }
 
+  getModelRoutingConfig(): ModelRoutingConfig {
+    return this.modelRouting;
+  }
+
+  getBudgetConfig(): BudgetConfig {
+    return this.budget;
+  }
+
+  getWorktree(): WorktreeService | undefined {
+    return this.worktree;
+  }
+
   async getGitService(): Promise<GitService> {
     if (!this.gitService) {
       this.gitService = new GitService(this.targetDir, this.storage);
@@ -1087,6 +1198,11 @@ export class Config {
     return this.policyEngine;
   }
 
+  /** The log of policy decisions on tool calls, if auditing is enabled. */
+  getPolicyAuditLog(): PolicyAuditLog | undefined {
+    return this.policyAuditLog;
+  }
+
   getEnableMessageBusIntegration(): boolean {
     return this.enableMessageBusIntegration;
   }
@@ -1095,6 +1211,33 @@ export class Config {
     return this.codebaseInvestigatorSettings;
   }
 
+  getDocsLookupSettings(): DocsLookupSettings {
+    return this.docsLookupSettings;
+  }
+
+  getOpenAICompatibleSettings(): OpenAICompatibleSettings | undefined {
+    return this.openAICompatible;
+  }
+
+  /** The file model calls are recorded to, if any. */
+  getRecordResponsesFile(): string | undefined {
+    return this.recordResponsesFile;
+  }
+
+  /** The recording model calls are answered from, if any. */
+  getReplayResponsesFile(): string | undefined {
+    return this.replayResponsesFile;
+  }
+
+  getReplayMatchMode(): PlaybackMatchMode {
+    return this.replayMatchMode;
+  }
+
+  /** Returns the todo store of the current subagent run, or the session's. */
+  getTodoStore(): TodoStore {
+    return todoStoreContext.getStore() ?? this.todoStore;
+  }
+
   async createToolRegistry(): Promise<ToolRegistry> {
     const registry = new ToolRegistry(this, this.eventEmitter);
 
@@ -1180,10 +1323,18 @@ export class Config {
     registerCoreTool(WebFetchTool, this);
     registerCoreTool(ReadManyFilesTool, this);
     registerCoreTool(ShellTool, this);
+    if (registry.getTool(ShellTool.Name)) {
+      registerCoreTool(ReadBackgroundOutputTool);
+      registerCoreTool(WaitForBackgroundJobTool);
+      registerCoreTool(WriteBackgroundInputTool);
+      registerCoreTool(KillBackgroundJobTool);
+    }
     registerCoreTool(MemoryTool);
     registerCoreTool(WebSearchTool, this);
-    registry.registerTool(context7Tool);
-    registry.registerTool(sequentialThinkingTool);
+    if (this.docsLookupSettings.enabled) {
+      registerCoreTool(DocsLookupTool, this);
+    }
+    registerCoreTool(SequentialThinkingTool, this);
     if (this.getUseWriteTodos()) {
       registerCoreTool(WriteTodosTool, this);
     }
@@ -1211,6 +1362,18 @@ export class Config {
         );
         registry.registerTool(wrapper);
       }
+
+      if (
+        !excludeTools.includes(AGENT_MAP_TOOL_NAME) &&
+        (!allowedTools || allowedTools.includes(AGENT_MAP_TOOL_NAME))
+      ) {
+        registry.registerTool(
+          new AgentMapTool(
+            this,
+            messageBusEnabled ? this.getMessageBus() : undefined,
+          ),
+        );
+      }
     }
 
     await registry.discoverAllTools();
@@ -50,6 +50,10 @@ export class Storage {
     return path.join(Storage.getGlobalGeminiDir(), 'commands');
   }
 
+  static getUserPoliciesDir(): string {
+    return path.join(Storage.getGlobalGeminiDir(), 'policies');
+  }
+
   static getGlobalAgentsDir(): string {
     return path.join(Storage.getGlobalGeminiDir(), 'agents');
   }
@@ -106,6 +110,10 @@ export class Storage {
     return path.join(this.getGeminiDir(), 'commands');
   }
 
+  getProjectPoliciesDir(): string {
+    return path.join(this.getGeminiDir(), 'policies');
+  }
+
   getProjectAgentsDir(): string {
     return path.join(this.getGeminiDir(), 'agents');
   }
@@ -114,6 +122,14 @@ export class Storage {
     return path.join(this.getProjectTempDir(), 'checkpoints');
   }
 
+  getProjectTempAgentRunsDir(): string {
+    return path.join(this.getProjectTempDir(), 'agent-runs');
+  }
+
+  getPolicyAuditLogPath(): string {
+    return path.join(this.getProjectTempDir(), 'policy-audit.jsonl');
+  }
+
   getExtensionsDir(): string {
     return path.join(this.getGeminiDir(), 'extensions');
   }
@@ -14,7 +14,12 @@ import {
   type ToolConfirmationResponse,
   type ToolPolicyRejection,
   type ToolExecutionSuccess,
+  type SubagentToolConfirmationRequest,
 } from './types.js';
+import {
+  ToolConfirmationOutcome,
+  type ToolCallConfirmationDetails,
+} from '../tools/tools.js';
 
 describe('MessageBus', () => {
   let messageBus: MessageBus;
@@ -54,7 +59,9 @@ describe('MessageBus', () => {
     });
 
     it('should emit confirmation response when policy allows', () => {
-      vi.spyOn(policyEngine, 'check').mockReturnValue(PolicyDecision.ALLOW);
+      vi.spyOn(policyEngine, 'check').mockReturnValue({
+        decision: PolicyDecision.ALLOW,
+      });
 
       const responseHandler = vi.fn();
       messageBus.subscribe(
@@ -79,7 +86,9 @@ describe('MessageBus', () => {
     });
 
     it('should emit rejection and response when policy denies', () => {
-      vi.spyOn(policyEngine, 'check').mockReturnValue(PolicyDecision.DENY);
+      vi.spyOn(policyEngine, 'check').mockReturnValue({
+        decision: PolicyDecision.DENY,
+      });
 
       const responseHandler = vi.fn();
       const rejectionHandler = vi.fn();
@@ -115,7 +124,9 @@ describe('MessageBus', () => {
     });
 
     it('should pass through to UI when policy says ASK_USER', () => {
-      vi.spyOn(policyEngine, 'check').mockReturnValue(PolicyDecision.ASK_USER);
+      vi.spyOn(policyEngine, 'check').mockReturnValue({
+        decision: PolicyDecision.ASK_USER,
+      });
 
       const requestHandler = vi.fn();
       messageBus.subscribe(
@@ -153,6 +164,109 @@ describe('MessageBus', () => {
     });
   });
 
+  describe('subagent tool confirmations', () => {
+    const request: SubagentToolConfirmationRequest = {
+      type: MessageBusType.SUBAGENT_TOOL_CONFIRMATION_REQUEST,
+      agentName: 'code-fixer',
+      toolCall: { name: 'write_file', args: { file_path: 'a.txt' } },
+      confirmationDetails: {
+        type: 'info',
+        title: 'Confirm: write_file',
+        prompt: 'a.txt',
+        onConfirm: async () => {},
+      } as ToolCallConfirmationDetails,
+      correlationId: 'abc',
+    };
+
+    it('should check the policy for the requesting agent', () => {
+      const checkSpy = vi
+        .spyOn(policyEngine, 'check')
+        .mockReturnValue({ decision: PolicyDecision.ALLOW });
+
+      const responseHandler = vi.fn();
+      messageBus.subscribe(
+        MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+        responseHandler,
+      );
+
+      messageBus.publish(request);
+
+      expect(checkSpy).toHaveBeenCalledWith(request.toolCall, 'code-fixer');
+      expect(responseHandler).toHaveBeenCalledWith({
+        type: MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+        correlationId: 'abc',
+        outcome: ToolConfirmationOutcome.ProceedOnce,
+      });
+    });
+
+    it('should reject and cancel when policy denies', () => {
+      vi.spyOn(policyEngine, 'check').mockReturnValue({
+        decision: PolicyDecision.DENY,
+      });
+
+      const rejectionHandler = vi.fn();
+      const responseHandler = vi.fn();
+      messageBus.subscribe(
+        MessageBusType.TOOL_POLICY_REJECTION,
+        rejectionHandler,
+      );
+      messageBus.subscribe(
+        MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+        responseHandler,
+      );
+
+      messageBus.publish(request);
+
+      expect(rejectionHandler).toHaveBeenCalledWith({
+        type: MessageBusType.TOOL_POLICY_REJECTION,
+        toolCall: request.toolCall,
+      });
+      expect(responseHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: ToolConfirmationOutcome.Cancel }),
+      );
+    });
+
+    it('should pass through to UI when policy says ASK_USER', () => {
+      vi.spyOn(policyEngine, 'check').mockReturnValue({
+        decision: PolicyDecision.ASK_USER,
+      });
+
+      const requestHandler = vi.fn();
+      const responseHandler = vi.fn();
+      messageBus.subscribe(
+        MessageBusType.SUBAGENT_TOOL_CONFIRMATION_REQUEST,
+        requestHandler,
+      );
+      messageBus.subscribe(
+        MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+        responseHandler,
+      );
+
+      messageBus.publish(request);
+
+      expect(requestHandler).toHaveBeenCalledWith(request);
+      expect(responseHandler).not.toHaveBeenCalled();
+    });
+
+    it('should cancel ASK_USER decisions when no UI is listening', () => {
+      vi.spyOn(policyEngine, 'check').mockReturnValue({
+        decision: PolicyDecision.ASK_USER,
+      });
+
+      const responseHandler = vi.fn();
+      messageBus.subscribe(
+        MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+        responseHandler,
+      );
+
+      messageBus.publish(request);
+
+      expect(responseHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: ToolConfirmationOutcome.Cancel }),
+      );
+    });
+  });
+
   describe('subscribe/unsubscribe', () => {
     it('should allow subscribing to specific message types', () => {
       const handler = vi.fn();
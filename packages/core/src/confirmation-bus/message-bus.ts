@@ -7,7 +7,12 @@
 import { EventEmitter } from 'node:events';
 import type { PolicyEngine } from '../policy/policy-engine.js';
 import { PolicyDecision } from '../policy/types.js';
-import { MessageBusType, type Message } from './types.js';
+import {
+  MessageBusType,
+  type Message,
+  type SubagentToolConfirmationRequest,
+} from './types.js';
+import { ToolConfirmationOutcome } from '../tools/tools.js';
 import { safeJsonStringify } from '../utils/safeJsonStringify.js';
 
 export class MessageBus extends EventEmitter {
@@ -25,7 +30,8 @@ export class MessageBus extends EventEmitter {
     }
 
     if (
-      message.type === MessageBusType.TOOL_CONFIRMATION_REQUEST &&
+      (message.type === MessageBusType.TOOL_CONFIRMATION_REQUEST ||
+        message.type === MessageBusType.SUBAGENT_TOOL_CONFIRMATION_REQUEST) &&
       !('correlationId' in message)
     ) {
       return false;
@@ -50,7 +56,7 @@ export class MessageBus extends EventEmitter {
       }
 
       if (message.type === MessageBusType.TOOL_CONFIRMATION_REQUEST) {
-        const decision = this.policyEngine.check(message.toolCall);
+        const { decision } = this.policyEngine.check(message.toolCall);
 
         switch (decision) {
           case PolicyDecision.ALLOW:
@@ -80,6 +86,10 @@ export class MessageBus extends EventEmitter {
           default:
             throw new Error(`Unknown policy decision: ${decision}`);
         }
+      } else if (
+        message.type === MessageBusType.SUBAGENT_TOOL_CONFIRMATION_REQUEST
+      ) {
+        this.handleSubagentToolConfirmationRequest(message);
       } else {
         // For all other message types, just emit them
         this.emitMessage(message);
@@ -89,6 +99,51 @@ export class MessageBus extends EventEmitter {
     }
   }
 
+  private handleSubagentToolConfirmationRequest(
+    message: SubagentToolConfirmationRequest,
+  ): void {
+    const { decision } = this.policyEngine.check(
+      message.toolCall,
+      message.agentName,
+    );
+
+    switch (decision) {
+      case PolicyDecision.ALLOW:
+        this.emitMessage({
+          type: MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+          correlationId: message.correlationId,
+          outcome: ToolConfirmationOutcome.ProceedOnce,
+        });
+        break;
+      case PolicyDecision.DENY:
+        this.emitMessage({
+          type: MessageBusType.TOOL_POLICY_REJECTION,
+          toolCall: message.toolCall,
+        });
+        this.emitMessage({
+          type: MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+          correlationId: message.correlationId,
+          outcome: ToolConfirmationOutcome.Cancel,
+        });
+        break;
+      case PolicyDecision.ASK_USER:
+        // Without a UI to ask (e.g. non-interactive mode), nobody can
+        // approve the call, so it is rejected rather than left hanging.
+        if (this.listenerCount(message.type) === 0) {
+          this.emitMessage({
+            type: MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE,
+            correlationId: message.correlationId,
+            outcome: ToolConfirmationOutcome.Cancel,
+          });
+        } else {
+          this.emitMessage(message);
+        }
+        break;
+      default:
+        throw new Error(`Unknown policy decision: ${decision}`);
+    }
+  }
+
   subscribe<T extends Message>(
     type: T['type'],
     listener: (message: T) => void,
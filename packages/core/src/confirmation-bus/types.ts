@@ -5,6 +5,10 @@
  */
 
 import { type FunctionCall } from '@google/genai';
+import type {
+  ToolCallConfirmationDetails,
+  ToolConfirmationOutcome,
+} from '../tools/tools.js';
 
 export enum MessageBusType {
   TOOL_CONFIRMATION_REQUEST = 'tool-confirmation-request',
@@ -13,6 +17,8 @@ export enum MessageBusType {
   TOOL_EXECUTION_SUCCESS = 'tool-execution-success',
   TOOL_EXECUTION_FAILURE = 'tool-execution-failure',
   UPDATE_POLICY = 'update-policy',
+  SUBAGENT_TOOL_CONFIRMATION_REQUEST = 'subagent-tool-confirmation-request',
+  SUBAGENT_TOOL_CONFIRMATION_RESPONSE = 'subagent-tool-confirmation-response',
 }
 
 export interface ToolConfirmationRequest {
@@ -35,6 +41,15 @@ export interface ToolConfirmationResponse {
 export interface UpdatePolicy {
   type: MessageBusType.UPDATE_POLICY;
   toolName: string;
+  /**
+   * When set, the new policy only applies to calls made by this subagent.
+   */
+  agentName?: string;
+  /**
+   * The subagent run the answer was given in, which `agent-run` grants end
+   * with.
+   */
+  agentRunId?: string;
 }
 
 export interface ToolPolicyRejection {
@@ -54,10 +69,30 @@ export interface ToolExecutionFailure<E = Error> {
   error: E;
 }
 
+/**
+ * Asks the user to approve a tool call made by a subagent. Only emitted to
+ * subscribers when the policy decision for the agent is ASK_USER.
+ */
+export interface SubagentToolConfirmationRequest {
+  type: MessageBusType.SUBAGENT_TOOL_CONFIRMATION_REQUEST;
+  agentName: string;
+  toolCall: FunctionCall;
+  confirmationDetails: ToolCallConfirmationDetails;
+  correlationId: string;
+}
+
+export interface SubagentToolConfirmationResponse {
+  type: MessageBusType.SUBAGENT_TOOL_CONFIRMATION_RESPONSE;
+  correlationId: string;
+  outcome: ToolConfirmationOutcome;
+}
+
 export type Message =
   | ToolConfirmationRequest
   | ToolConfirmationResponse
   | ToolPolicyRejection
   | ToolExecutionSuccess
   | ToolExecutionFailure
-  | UpdatePolicy;
+  | UpdatePolicy
+  | SubagentToolConfirmationRequest
+  | SubagentToolConfirmationResponse;
@@ -43,6 +43,9 @@ import { ideContextStore } from '../ide/ideContext.js';
 import { ClearcutLogger } from '../telemetry/clearcut-logger/clearcut-logger.js';
 import type { ModelRouterService } from '../routing/modelRouterService.js';
 import { uiTelemetryService } from '../telemetry/uiTelemetry.js';
+import { PolicyEngine } from '../policy/policy-engine.js';
+import { PolicyDecision } from '../policy/types.js';
+import type { BudgetStatus } from '../services/budgetService.js';
 
 // Mock fs module to prevent actual file system operations during tests
 const mockFileSystem = new Map<string, string>();
@@ -283,6 +286,7 @@ describe('Gemini Client (client.ts)', () => {
         .fn()
         .mockReturnValue(contentGeneratorConfig),
       getToolRegistry: vi.fn().mockReturnValue(mockToolRegistry),
+      getAgentOnlyTools: vi.fn().mockReturnValue([]),
       getModel: vi.fn().mockReturnValue('test-model'),
       getEmbeddingModel: vi.fn().mockReturnValue('test-embedding-model'),
       getApiKey: vi.fn().mockReturnValue('test-key'),
@@ -321,6 +325,12 @@ describe('Gemini Client (client.ts)', () => {
         getProjectTempDir: vi.fn().mockReturnValue('/test/temp'),
       },
       getContentGenerator: vi.fn().mockReturnValue(mockContentGenerator),
+      getPolicyEngine: vi.fn().mockReturnValue(new PolicyEngine()),
+      getBudgetService: vi.fn().mockReturnValue({
+        startPrompt: vi.fn(),
+        getExceeded: vi.fn(),
+        takeWarnings: vi.fn().mockReturnValue([]),
+      }),
       getBaseLlmClient: vi.fn().mockReturnValue({
         generateJson: vi.fn().mockResolvedValue({
           next_speaker: 'user',
@@ -355,6 +365,25 @@ describe('Gemini Client (client.ts)', () => {
     });
   });
 
+  describe('setTools', () => {
+    it('should not offer tools that only subagents may use', async () => {
+      vi.mocked(
+        mockConfig.getToolRegistry().getFunctionDeclarations,
+      ).mockReturnValue([{ name: 'read_file' }, { name: 'write_file' }]);
+      vi.mocked(mockConfig.getAgentOnlyTools).mockReturnValue(['write_file']);
+      const mockChat = {
+        setTools: vi.fn(),
+      } as unknown as GeminiChat;
+      client['chat'] = mockChat;
+
+      await client.setTools();
+
+      expect(mockChat.setTools).toHaveBeenCalledWith([
+        { functionDeclarations: [{ name: 'read_file' }] },
+      ]);
+    });
+  });
+
   describe('resetChat', () => {
     it('should create a new chat session, clearing the old history', async () => {
       // 1. Get the initial chat instance and add some history.
@@ -383,6 +412,30 @@ describe('Gemini Client (client.ts)', () => {
     });
   });
 
+  describe('resumeChat', () => {
+    it('should start a new chat that continues the given history', async () => {
+      const initialChat = client.getChat();
+      const history: Content[] = [
+        { role: 'user', parts: [{ text: 'an old message' }] },
+        { role: 'model', parts: [{ text: 'an old answer' }] },
+      ];
+
+      await client.resumeChat(history, {
+        conversation: {
+          sessionId: 'resumed-session',
+          projectHash: 'hash',
+          startTime: '2025-01-01T00:00:00.000Z',
+          lastUpdated: '2025-01-01T00:00:00.000Z',
+          messages: [],
+        },
+        filePath: '/test/chats/session.json',
+      });
+
+      expect(client.getChat()).not.toBe(initialChat);
+      expect(client.getHistory().slice(-2)).toEqual(history);
+    });
+  });
+
   describe('tryCompressChat', () => {
     const mockGetHistory = vi.fn();
 
@@ -972,6 +1025,31 @@ describe('Gemini Client (client.ts)', () => {
       });
     });
 
+    it('revokes the grants for the previous prompt when a new prompt starts', async () => {
+      mockTurnRunFn.mockReturnValue((async function* () {})());
+      const policyEngine = mockConfig.getPolicyEngine();
+      policyEngine.addGrant(
+        { toolName: 'web_fetch', decision: PolicyDecision.ALLOW },
+        { scope: 'prompt' },
+      );
+      policyEngine.addGrant({
+        toolName: 'glob',
+        decision: PolicyDecision.ALLOW,
+      });
+
+      await fromAsync(
+        client.sendMessageStream(
+          [{ text: 'Hi' }],
+          new AbortController().signal,
+          'prompt-id-2',
+        ),
+      );
+
+      expect(policyEngine.getGrants().map((rule) => rule.toolName)).toEqual([
+        'glob',
+      ]);
+    });
+
     it.each([
       {
         compressionStatus:
@@ -1443,6 +1521,125 @@ ${JSON.stringify(
       expect(mockTurnRunFn).toHaveBeenCalledTimes(MAX_SESSION_TURNS);
     });
 
+    it('should yield BudgetExceeded and stop when a budget is used up', async () => {
+      const status: BudgetStatus = {
+        scope: 'session',
+        limit: 'maxInputTokens',
+        used: 1000,
+        max: 1000,
+      };
+      vi.mocked(mockConfig.getBudgetService().getExceeded).mockReturnValue(
+        status,
+      );
+
+      const events = await fromAsync(
+        client.sendMessageStream(
+          [{ text: 'Hi' }],
+          new AbortController().signal,
+          'prompt-id-budget',
+        ),
+      );
+
+      expect(events).toEqual([
+        { type: GeminiEventType.BudgetExceeded, value: status },
+      ]);
+      expect(mockTurnRunFn).not.toHaveBeenCalled();
+    });
+
+    it('should record the tool results when a budget is used up during a tool loop', async () => {
+      vi.mocked(mockConfig.getBudgetService().getExceeded).mockReturnValue({
+        scope: 'prompt',
+        limit: 'maxOutputTokens',
+        used: 500,
+        max: 500,
+      });
+      const mockChat = {
+        addHistory: vi.fn(),
+        getHistory: vi.fn().mockReturnValue([
+          { role: 'user', parts: [{ text: 'Please use a tool.' }] },
+          {
+            role: 'model',
+            parts: [{ functionCall: { name: 'some_tool', args: {} } }],
+          },
+        ]),
+      } as unknown as GeminiChat;
+      client['chat'] = mockChat;
+      const toolResults: Part[] = [
+        {
+          functionResponse: {
+            name: 'some_tool',
+            response: { success: true },
+          },
+        },
+      ];
+
+      await fromAsync(
+        client.sendMessageStream(
+          toolResults,
+          new AbortController().signal,
+          'prompt-id-budget',
+        ),
+      );
+
+      expect(mockChat.addHistory).toHaveBeenCalledWith({
+        role: 'user',
+        parts: toolResults,
+      });
+      expect(mockTurnRunFn).not.toHaveBeenCalled();
+    });
+
+    it('should start counting the prompt budget when a new prompt starts', async () => {
+      mockTurnRunFn.mockReturnValue((async function* () {})());
+      const budgetService = mockConfig.getBudgetService();
+
+      await fromAsync(
+        client.sendMessageStream(
+          [{ text: 'Hi' }],
+          new AbortController().signal,
+          'prompt-id-budget',
+        ),
+      );
+      await fromAsync(
+        client.sendMessageStream(
+          [{ text: 'Continue' }],
+          new AbortController().signal,
+          'prompt-id-budget',
+        ),
+      );
+
+      expect(budgetService.startPrompt).toHaveBeenCalledOnce();
+    });
+
+    it('should yield a BudgetWarning after the turn that neared a budget', async () => {
+      mockTurnRunFn.mockReturnValue(
+        (async function* () {
+          yield { type: GeminiEventType.Content, value: 'Hello' };
+        })(),
+      );
+      const warning: BudgetStatus = {
+        scope: 'prompt',
+        limit: 'maxCostUsd',
+        used: 0.85,
+        max: 1,
+      };
+      vi.mocked(mockConfig.getBudgetService().takeWarnings).mockReturnValue([
+        warning,
+      ]);
+
+      const events = await fromAsync(
+        client.sendMessageStream(
+          [{ text: 'Hi' }],
+          new AbortController().signal,
+          'prompt-id-budget',
+        ),
+      );
+
+      expect(events).toEqual([
+        { type: GeminiEventType.Content, value: 'Hello' },
+        { type: GeminiEventType.BudgetWarning, value: warning },
+      ]);
+    });
+
     it('should respect MAX_TURNS limit even when turns parameter is set to a large value', async () => {
       // This test verifies that the infinite loop protection works even when
       // someone tries to bypass it by calling with a very large turns value
@@ -1659,6 +1856,25 @@ ${JSON.stringify(
         );
       });
 
+      it('should tell the router where the prompt came from', async () => {
+        const stream = client.sendMessageStream(
+          [{ text: 'Review the staged changes' }],
+          new AbortController().signal,
+          'prompt-1',
+          undefined,
+          false,
+          'slash-command',
+        );
+        await fromAsync(stream);
+
+        expect(mockRouterService.route).toHaveBeenCalledWith(
+          expect.objectContaining({
+            request: [{ text: 'Review the staged changes' }],
+            source: 'slash-command',
+          }),
+        );
+      });
+
       it('should use the same model for subsequent turns in the same prompt (stickiness)', async () => {
         // First turn
         let stream = client.sendMessageStream(
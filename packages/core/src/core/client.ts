@@ -10,7 +10,9 @@ import type {
   Content,
   Tool,
   GenerateContentResponse,
+  FunctionDeclaration,
 } from '@google/genai';
+import { createUserContent } from '@google/genai';
 import {
   getDirectoryContextString,
   getEnvironmentContext,
@@ -27,7 +29,10 @@ import { GeminiChat } from './geminiChat.js';
 import { retryWithBackoff } from '../utils/retry.js';
 import { getErrorMessage } from '../utils/errors.js';
 import { tokenLimit } from './tokenLimits.js';
-import type { ChatRecordingService } from '../services/chatRecordingService.js';
+import type {
+  ChatRecordingService,
+  ResumedSessionData,
+} from '../services/chatRecordingService.js';
 import type { ContentGenerator } from './contentGenerator.js';
 import {
   DEFAULT_GEMINI_FLASH_MODEL,
@@ -50,7 +55,10 @@ import {
 } from '../telemetry/types.js';
 import type { IdeContext, File } from '../ide/types.js';
 import { handleFallback } from '../fallback/handler.js';
-import type { RoutingContext } from '../routing/routingStrategy.js';
+import type {
+  RoutingContext,
+  RoutingRequestSource,
+} from '../routing/routingStrategy.js';
 import { uiTelemetryService } from '../telemetry/uiTelemetry.js';
 import { debugLogger } from '../utils/debugLogger.js';
 
@@ -191,9 +199,20 @@ export class GeminiClient {
     this.forceFullIdeContext = true;
   }
 
+  /** The declarations of the registered tools, minus those only subagents may use. */
+  private getMainSessionToolDeclarations(): FunctionDeclaration[] {
+    const agentOnlyTools = new Set(this.config.getAgentOnlyTools());
+    return this.config
+      .getToolRegistry()
+      .getFunctionDeclarations()
+      .filter(
+        (declaration) =>
+          !declaration.name || !agentOnlyTools.has(declaration.name),
+      );
+  }
+
   async setTools(): Promise<void> {
-    const toolRegistry = this.config.getToolRegistry();
-    const toolDeclarations = toolRegistry.getFunctionDeclarations();
+    const toolDeclarations = this.getMainSessionToolDeclarations();
     const tools: Tool[] = [{ functionDeclarations: toolDeclarations }];
     this.getChat().setTools(tools);
   }
@@ -202,6 +221,17 @@ export class GeminiClient {
     this.chat = await this.startChat();
   }
 
+  /**
+   * Replaces the chat with one that continues a recorded session from the
+   * given history.
+   */
+  async resumeChat(
+    history: Content[],
+    resumedSessionData: ResumedSessionData,
+  ): Promise<void> {
+    this.chat = await this.startChat(history, resumedSessionData);
+  }
+
   getChatRecordingService(): ChatRecordingService | undefined {
     return this.chat?.getChatRecordingService();
   }
@@ -225,12 +255,18 @@ export class GeminiClient {
     });
   }
 
-  async startChat(extraHistory?: Content[]): Promise<GeminiChat> {
+  /**
+   * Starts a new chat. When `resumedSessionData` is given, the chat keeps
+   * recording into that session's file instead of starting a new one.
+   */
+  async startChat(
+    extraHistory?: Content[],
+    resumedSessionData?: ResumedSessionData,
+  ): Promise<GeminiChat> {
     this.forceFullIdeContext = true;
     this.hasFailedCompressionAttempt = false;
 
-    const toolRegistry = this.config.getToolRegistry();
-    const toolDeclarations = toolRegistry.getFunctionDeclarations();
+    const toolDeclarations = this.getMainSessionToolDeclarations();
     const tools: Tool[] = [{ functionDeclarations: toolDeclarations }];
 
     // 1. Get the environment context parts as an array
@@ -281,6 +317,8 @@ My setup is complete. I will provide my first command in the next turn.
           tools,
         },
         history,
+        undefined,
+        resumedSessionData,
       );
     } catch (error) {
       await reportError(
@@ -474,17 +512,31 @@ My setup is complete. I will provide my first command in the next turn.
     return getEffectiveModel(this.config.isInFallbackMode(), model);
   }
 
+  /** Whether the history ends with function calls awaiting their responses. */
+  private hasPendingToolCall(history: Content[]): boolean {
+    const lastMessage =
+      history.length > 0 ? history[history.length - 1] : undefined;
+    return (
+      !!lastMessage &&
+      lastMessage.role === 'model' &&
+      (lastMessage.parts?.some((p) => 'functionCall' in p) || false)
+    );
+  }
+
   async *sendMessageStream(
     request: PartListUnion,
     signal: AbortSignal,
     prompt_id: string,
     turns: number = MAX_TURNS,
     isInvalidStreamRetry: boolean = false,
+    source: RoutingRequestSource = 'user',
   ): AsyncGenerator<ServerGeminiStreamEvent, Turn> {
     if (this.lastPromptId !== prompt_id) {
       this.loopDetector.reset(prompt_id);
       this.lastPromptId = prompt_id;
       this.currentSequenceModel = null;
+      this.config.getPolicyEngine().revokeGrants('prompt');
+      this.config.getBudgetService().startPrompt();
     }
     this.sessionTurnCount++;
     if (
@@ -494,6 +546,17 @@ My setup is complete. I will provide my first command in the next turn.
       yield { type: GeminiEventType.MaxSessionTurns };
       return new Turn(this.getChat(), prompt_id);
     }
+    const budgetService = this.config.getBudgetService();
+    const exceededBudget = budgetService.getExceeded();
+    if (exceededBudget) {
+      // A request carrying tool results back to the model is still recorded,
+      // as every function call in the history needs its response.
+      if (this.hasPendingToolCall(this.getHistory())) {
+        this.getChat().addHistory(createUserContent(request));
+      }
+      yield { type: GeminiEventType.BudgetExceeded, value: exceededBudget };
+      return new Turn(this.getChat(), prompt_id);
+    }
     // Ensure turns never exceeds MAX_TURNS to prevent infinite loops
     const boundedTurns = Math.min(turns, MAX_TURNS);
     if (!boundedTurns) {
@@ -531,14 +594,8 @@ My setup is complete. I will provide my first command in the next turn.
     // in the conversation history . The IDE context is not discarded; it will
     // be included in the next regular message sent to the model.
     const history = this.getHistory();
-    const lastMessage =
-      history.length > 0 ? history[history.length - 1] : undefined;
-    const hasPendingToolCall =
-      !!lastMessage &&
-      lastMessage.role === 'model' &&
-      (lastMessage.parts?.some((p) => 'functionCall' in p) || false);
 
-    if (this.config.getIdeMode() && !hasPendingToolCall) {
+    if (this.config.getIdeMode() && !this.hasPendingToolCall(history)) {
       const { contextParts, newIdeContext } = this.getIdeContextParts(
         this.forceFullIdeContext || history.length === 0,
       );
@@ -567,6 +624,7 @@ My setup is complete. I will provide my first command in the next turn.
       history: this.getChat().getHistory(/*curated=*/ true),
       request,
       signal,
+      source,
     };
 
     let modelToUse: string;
@@ -619,6 +677,9 @@ My setup is complete. I will provide my first command in the next turn.
         return turn;
       }
     }
+    for (const warning of budgetService.takeWarnings()) {
+      yield { type: GeminiEventType.BudgetWarning, value: warning };
+    }
     if (!turn.pendingToolCalls.length && signal && !signal.aborted) {
       // Check if next speaker check is needed
       if (this.config.getQuotaErrorOccurred()) {
@@ -15,11 +15,20 @@ import { createCodeAssistContentGenerator } from '../code_assist/codeAssist.js';
 import { GoogleGenAI } from '@google/genai';
 import type { Config } from '../config/config.js';
 import { LoggingContentGenerator } from './loggingContentGenerator.js';
+import { OpenAICompatibleContentGenerator } from '../openai/openaiContentGenerator.js';
+import { RecordingContentGenerator } from './recordingContentGenerator.js';
+import { PlaybackContentGenerator } from './playbackContentGenerator.js';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
 
 vi.mock('../code_assist/codeAssist.js');
 vi.mock('@google/genai');
 
-const mockConfig = {} as unknown as Config;
+const mockConfig = {
+  getReplayResponsesFile: () => undefined,
+  getRecordResponsesFile: () => undefined,
+} as unknown as Config;
 
 describe('createContentGenerator', () => {
   it('should create a CodeAssistContentGenerator', async () => {
@@ -42,6 +51,8 @@ describe('createContentGenerator', () => {
   it('should create a GoogleGenAI content generator', async () => {
     const mockConfig = {
       getUsageStatisticsEnabled: () => true,
+      getReplayResponsesFile: () => undefined,
+      getRecordResponsesFile: () => undefined,
     } as unknown as Config;
 
     const mockGenerator = {
@@ -76,6 +87,8 @@ describe('createContentGenerator', () => {
   it('should create a GoogleGenAI content generator with client install id logging disabled', async () => {
     const mockConfig = {
       getUsageStatisticsEnabled: () => false,
+      getReplayResponsesFile: () => undefined,
+      getRecordResponsesFile: () => undefined,
     } as unknown as Config;
     const mockGenerator = {
       models: {},
@@ -104,6 +117,73 @@ describe('createContentGenerator', () => {
       ),
     );
   });
+
+  it('should create an OpenAI-compatible content generator', async () => {
+    const generator = await createContentGenerator(
+      {
+        authType: AuthType.USE_OPENAI_COMPATIBLE,
+        baseUrl: 'http://localhost:8000/v1',
+        model: 'qwen3:8b',
+      },
+      mockConfig,
+    );
+    expect(generator).toBeInstanceOf(LoggingContentGenerator);
+    expect((generator as LoggingContentGenerator).getWrapped()).toBeInstanceOf(
+      OpenAICompatibleContentGenerator,
+    );
+  });
+
+  it('should record calls to a file when configured', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recording-'));
+    const recordFile = path.join(tempDir, 'recordings', 'session.jsonl');
+    const mockGenerator = {} as unknown as ContentGenerator;
+    vi.mocked(createCodeAssistContentGenerator).mockResolvedValue(
+      mockGenerator as never,
+    );
+    const generator = await createContentGenerator(
+      { authType: AuthType.LOGIN_WITH_GOOGLE },
+      {
+        getReplayResponsesFile: () => undefined,
+        getRecordResponsesFile: () => recordFile,
+      } as unknown as Config,
+    );
+    const recorder = (generator as LoggingContentGenerator).getWrapped();
+    expect(recorder).toBeInstanceOf(RecordingContentGenerator);
+    expect((recorder as RecordingContentGenerator).getWrapped()).toBe(
+      mockGenerator,
+    );
+    expect(fs.existsSync(path.dirname(recordFile))).toBe(true);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should play back a recording when configured', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'playback-'));
+    const replayFile = path.join(tempDir, 'session.jsonl');
+    fs.writeFileSync(replayFile, '');
+    try {
+      const generator = await createContentGenerator(
+        { authType: AuthType.USE_GEMINI },
+        {
+          getReplayResponsesFile: () => replayFile,
+          getReplayMatchMode: () => 'sequence',
+        } as unknown as Config,
+      );
+      expect(
+        (generator as LoggingContentGenerator).getWrapped(),
+      ).toBeInstanceOf(PlaybackContentGenerator);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should require a model for an OpenAI-compatible server', async () => {
+    await expect(
+      createContentGenerator(
+        { authType: AuthType.USE_OPENAI_COMPATIBLE },
+        mockConfig,
+      ),
+    ).rejects.toThrow('No model is set for the OpenAI-compatible server.');
+  });
 });
 
 describe('createContentGeneratorConfig', () => {
@@ -112,6 +192,7 @@ describe('createContentGeneratorConfig', () => {
     setModel: vi.fn(),
     flashFallbackHandler: vi.fn(),
     getProxy: vi.fn(),
+    getOpenAICompatibleSettings: vi.fn(),
   } as unknown as Config;
 
   beforeEach(() => {
@@ -177,4 +258,34 @@ describe('createContentGeneratorConfig', () => {
     expect(config.apiKey).toBeUndefined();
     expect(config.vertexai).toBeUndefined();
   });
+
+  it('should configure for an OpenAI-compatible server from the settings', async () => {
+    vi.stubEnv('OPENAI_API_KEY', 'env-openai-key');
+    vi.mocked(mockConfig.getOpenAICompatibleSettings).mockReturnValue({
+      baseUrl: 'http://localhost:8000/v1',
+      model: 'qwen3:8b',
+    });
+    const config = await createContentGeneratorConfig(
+      mockConfig,
+      AuthType.USE_OPENAI_COMPATIBLE,
+    );
+    expect(config).toMatchObject({
+      apiKey: 'env-openai-key',
+      baseUrl: 'http://localhost:8000/v1',
+      model: 'qwen3:8b',
+    });
+  });
+
+  it('should default to the Ollama base URL for an OpenAI-compatible server', async () => {
+    vi.stubEnv('OPENAI_API_KEY', '');
+    vi.mocked(mockConfig.getOpenAICompatibleSettings).mockReturnValue({
+      model: 'llama3.2',
+    });
+    const config = await createContentGeneratorConfig(
+      mockConfig,
+      AuthType.USE_OPENAI_COMPATIBLE,
+    );
+    expect(config.apiKey).toBeUndefined();
+    expect(config.baseUrl).toBe('http://localhost:11434/v1');
+  });
 });
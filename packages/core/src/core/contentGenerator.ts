@@ -19,6 +19,9 @@ import type { Config } from '../config/config.js';
 import type { UserTierId } from '../code_assist/types.js';
 import { LoggingContentGenerator } from './loggingContentGenerator.js';
 import { InstallationManager } from '../utils/installationManager.js';
+import { OpenAICompatibleContentGenerator } from '../openai/openaiContentGenerator.js';
+import { RecordingContentGenerator } from './recordingContentGenerator.js';
+import { PlaybackContentGenerator } from './playbackContentGenerator.js';
 
 /**
  * Interface abstracting the core functionalities for generating content and counting tokens.
@@ -39,6 +42,9 @@ export interface ContentGenerator {
   embedContent(request: EmbedContentParameters): Promise<EmbedContentResponse>;
 
   userTier?: UserTierId;
+
+  /** Returns the generator that this one decorates, for decorators. */
+  getWrapped?(): ContentGenerator;
 }
 
 export enum AuthType {
@@ -46,13 +52,21 @@ export enum AuthType {
   USE_GEMINI = 'gemini-api-key',
   USE_VERTEX_AI = 'vertex-ai',
   CLOUD_SHELL = 'cloud-shell',
+  USE_OPENAI_COMPATIBLE = 'openai-compatible',
 }
 
+/** The OpenAI-compatible endpoint of a local Ollama server. */
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
 export type ContentGeneratorConfig = {
   apiKey?: string;
   vertexai?: boolean;
   authType?: AuthType;
   proxy?: string;
+  /** The API base URL, for OpenAI-compatible servers. */
+  baseUrl?: string;
+  /** The model to use, for OpenAI-compatible servers. */
+  model?: string;
 };
 
 export function createContentGeneratorConfig(
@@ -97,6 +111,16 @@ export function createContentGeneratorConfig(
     return contentGeneratorConfig;
   }
 
+  if (authType === AuthType.USE_OPENAI_COMPATIBLE) {
+    const settings = config.getOpenAICompatibleSettings();
+    contentGeneratorConfig.apiKey = process.env['OPENAI_API_KEY'] || undefined;
+    contentGeneratorConfig.baseUrl =
+      settings?.baseUrl ?? DEFAULT_OPENAI_COMPATIBLE_BASE_URL;
+    contentGeneratorConfig.model = settings?.model;
+
+    return contentGeneratorConfig;
+  }
+
   return contentGeneratorConfig;
 }
 
@@ -111,19 +135,38 @@ export async function createContentGenerator(
     'User-Agent': userAgent,
   };
 
+  // Played back sessions never reach an API, so the auth type does not matter.
+  const replayFile = gcConfig.getReplayResponsesFile();
+  if (replayFile) {
+    return new LoggingContentGenerator(
+      PlaybackContentGenerator.fromFile(
+        replayFile,
+        gcConfig.getReplayMatchMode(),
+      ),
+      gcConfig,
+    );
+  }
+  const recordFile = gcConfig.getRecordResponsesFile();
+  const withLogging = (generator: ContentGenerator) =>
+    new LoggingContentGenerator(
+      recordFile
+        ? new RecordingContentGenerator(generator, recordFile)
+        : generator,
+      gcConfig,
+    );
+
   if (
     config.authType === AuthType.LOGIN_WITH_GOOGLE ||
     config.authType === AuthType.CLOUD_SHELL
   ) {
     const httpOptions = { headers: baseHeaders };
-    return new LoggingContentGenerator(
+    return withLogging(
       await createCodeAssistContentGenerator(
         httpOptions,
         config.authType,
         gcConfig,
         sessionId,
       ),
-      gcConfig,
     );
   }
 
@@ -147,7 +190,23 @@ export async function createContentGenerator(
       vertexai: config.vertexai,
       httpOptions,
     });
-    return new LoggingContentGenerator(googleGenAI.models, gcConfig);
+    return withLogging(googleGenAI.models);
+  }
+
+  if (config.authType === AuthType.USE_OPENAI_COMPATIBLE) {
+    if (!config.model) {
+      throw new Error(
+        'Error creating contentGenerator: No model is set for the OpenAI-compatible server. Set model.openaiCompatible.model in your settings.',
+      );
+    }
+    return withLogging(
+      new OpenAICompatibleContentGenerator({
+        baseUrl: config.baseUrl ?? DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+        model: config.model,
+        apiKey: config.apiKey,
+        headers: baseHeaders,
+      }),
+    );
   }
   throw new Error(
     `Error creating contentGenerator: Unsupported authType: ${config.authType}`,
@@ -39,6 +39,8 @@ import {
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import { isShellInvocationAllowlisted } from '../utils/shell-utils.js';
+import { PolicyEngine } from '../policy/policy-engine.js';
+import { PolicyDecision } from '../policy/types.js';
 
 vi.mock('fs/promises', () => ({
   writeFile: vi.fn(),
@@ -258,6 +260,7 @@ describe('CoreToolScheduler', () => {
       getUseModelRouter: () => false,
       getGeminiClient: () => null, // No client needed for these tests
       getEnableMessageBusIntegration: () => false,
+      getPolicyAuditLog: () => undefined,
       getMessageBus: () => null,
       getPolicyEngine: () => null,
     } as unknown as Config;
@@ -338,6 +341,7 @@ describe('CoreToolScheduler', () => {
       getUseModelRouter: () => false,
       getGeminiClient: () => null,
       getEnableMessageBusIntegration: () => false,
+      getPolicyAuditLog: () => undefined,
       getMessageBus: () => null,
       getPolicyEngine: () => null,
     } as unknown as Config;
@@ -382,6 +386,7 @@ describe('CoreToolScheduler', () => {
         getUseModelRouter: () => false,
         getGeminiClient: () => null, // No client needed for these tests
         getEnableMessageBusIntegration: () => false,
+        getPolicyAuditLog: () => undefined,
         getMessageBus: () => null,
         getPolicyEngine: () => null,
       } as unknown as Config;
@@ -460,6 +465,7 @@ describe('CoreToolScheduler with payload', () => {
       getUseModelRouter: () => false,
       getGeminiClient: () => null, // No client needed for these tests
       getEnableMessageBusIntegration: () => false,
+      getPolicyAuditLog: () => undefined,
       getMessageBus: () => null,
       getPolicyEngine: () => null,
     } as unknown as Config;
@@ -783,6 +789,7 @@ describe('CoreToolScheduler edit cancellation', () => {
       getUseModelRouter: () => false,
       getGeminiClient: () => null, // No client needed for these tests
       getEnableMessageBusIntegration: () => false,
+      getPolicyAuditLog: () => undefined,
       getMessageBus: () => null,
       getPolicyEngine: () => null,
     } as unknown as Config;
@@ -892,6 +899,7 @@ describe('CoreToolScheduler YOLO mode', () => {
       getUseModelRouter: () => false,
       getGeminiClient: () => null, // No client needed for these tests
       getEnableMessageBusIntegration: () => false,
+      getPolicyAuditLog: () => undefined,
       getMessageBus: () => null,
       getPolicyEngine: () => null,
     } as unknown as Config;
@@ -1002,6 +1010,7 @@ describe('CoreToolScheduler request queueing', () => {
       getUseModelRouter: () => false,
       getGeminiClient: () => null, // No client needed for these tests
       getEnableMessageBusIntegration: () => false,
+      getPolicyAuditLog: () => undefined,
       getMessageBus: () => null,
       getPolicyEngine: () => null,
     } as unknown as Config;
@@ -1137,6 +1146,7 @@ describe('CoreToolScheduler request queueing', () => {
       getUseModelRouter: () => false,
       getGeminiClient: () => null, // No client needed for these tests
       getEnableMessageBusIntegration: () => false,
+      getPolicyAuditLog: () => undefined,
       getMessageBus: () => null,
       getPolicyEngine: () => null,
     } as unknown as Config;
@@ -1266,6 +1276,7 @@ describe('CoreToolScheduler request queueing', () => {
       getUseModelRouter: () => false,
       getGeminiClient: () => null,
       getEnableMessageBusIntegration: () => false,
+      getPolicyAuditLog: () => undefined,
       getMessageBus: () => null,
       getPolicyEngine: () => null,
     } as unknown as Config;
@@ -1346,6 +1357,7 @@ describe('CoreToolScheduler request queueing', () => {
       getUseModelRouter: () => false,
       getGeminiClient: () => null, // No client needed for these tests
       getEnableMessageBusIntegration: () => false,
+      getPolicyAuditLog: () => undefined,
       getMessageBus: () => null,
       getPolicyEngine: () => null,
     } as unknown as Config;
@@ -1421,6 +1433,7 @@ describe('CoreToolScheduler request queueing', () => {
       getUseModelRouter: () => false,
       getGeminiClient: () => null, // No client needed for these tests
       getEnableMessageBusIntegration: () => false,
+      getPolicyAuditLog: () => undefined,
       getMessageBus: () => null,
       getPolicyEngine: () => null,
     } as unknown as Config;
@@ -1612,6 +1625,7 @@ describe('CoreToolScheduler Sequential Execution', () => {
       getUseModelRouter: () => false,
       getGeminiClient: () => null,
       getEnableMessageBusIntegration: () => false,
+      getPolicyAuditLog: () => undefined,
       getMessageBus: () => null,
     } as unknown as Config;
 
@@ -1734,6 +1748,7 @@ describe('CoreToolScheduler Sequential Execution', () => {
       getUseModelRouter: () => false,
       getGeminiClient: () => null,
       getEnableMessageBusIntegration: () => false,
+      getPolicyAuditLog: () => undefined,
       getMessageBus: () => null,
     } as unknown as Config;
 
@@ -2028,3 +2043,158 @@ describe('truncateAndSaveToFile', () => {
     );
   });
 });
+
+describe('CoreToolScheduler policy audit', () => {
+  const createAuditedScheduler = ({
+    approvalMode = ApprovalMode.DEFAULT,
+    shouldConfirmExecute = MOCK_TOOL_SHOULD_CONFIRM_EXECUTE,
+  }: {
+    approvalMode?: ApprovalMode;
+    shouldConfirmExecute?: MockTool['shouldConfirmExecute'];
+  } = {}) => {
+    const mockTool = new MockTool({
+      name: 'mockTool',
+      shouldConfirmExecute,
+    });
+    const toolRegistry = {
+      getTool: () => mockTool,
+      getAllToolNames: () => ['mockTool'],
+    };
+    const policyEngine = new PolicyEngine({
+      rules: [
+        {
+          toolName: 'mockTool',
+          decision: PolicyDecision.ASK_USER,
+          priority: 10,
+          source: 'test rule',
+        },
+      ],
+    });
+    const auditLog = { filePath: '/tmp/audit.jsonl', append: vi.fn() };
+    const onAllToolCallsComplete = vi.fn();
+    const onToolCallsUpdate = vi.fn();
+
+    const mockConfig = {
+      getSessionId: () => 'test-session-id',
+      getUsageStatisticsEnabled: () => true,
+      getDebugMode: () => false,
+      getApprovalMode: () => approvalMode,
+      getAllowedTools: () => [],
+      getToolRegistry: () => toolRegistry,
+      getContentGeneratorConfig: () => ({
+        model: 'test-model',
+        authType: 'oauth-personal',
+      }),
+      getShellExecutionConfig: () => ({
+        terminalWidth: 80,
+        terminalHeight: 24,
+      }),
+      storage: {
+        getProjectTempDir: () => '/tmp',
+      },
+      getTruncateToolOutputThreshold: () =>
+        DEFAULT_TRUNCATE_TOOL_OUTPUT_THRESHOLD,
+      getTruncateToolOutputLines: () => DEFAULT_TRUNCATE_TOOL_OUTPUT_LINES,
+      getUseSmartEdit: () => false,
+      getUseModelRouter: () => false,
+      getGeminiClient: () => null,
+      getEnableMessageBusIntegration: () => false,
+      getPolicyAuditLog: () => auditLog,
+      getMessageBus: () => null,
+      getPolicyEngine: () => policyEngine,
+    } as unknown as Config;
+
+    const scheduler = new CoreToolScheduler({
+      config: mockConfig,
+      onAllToolCallsComplete,
+      onToolCallsUpdate,
+      getPreferredEditor: () => 'vscode',
+      onEditorClose: vi.fn(),
+    });
+    const schedule = () =>
+      scheduler.schedule(
+        [
+          {
+            callId: '1',
+            name: 'mockTool',
+            args: { param: 'value' },
+            isClientInitiated: false,
+            prompt_id: 'prompt-audit',
+            agentName: 'helper',
+          },
+        ],
+        new AbortController().signal,
+      );
+    return { auditLog, onAllToolCallsComplete, onToolCallsUpdate, schedule };
+  };
+
+  it('should log the policy decision and the answer of the user', async () => {
+    const { auditLog, onAllToolCallsComplete, onToolCallsUpdate, schedule } =
+      createAuditedScheduler();
+
+    await schedule();
+
+    const awaitingCall = onToolCallsUpdate.mock.calls
+      .map((call) => call[0][0] as ToolCall)
+      .find((call) => call.status === 'awaiting_approval') as WaitingToolCall;
+    await awaitingCall.confirmationDetails.onConfirm(
+      ToolConfirmationOutcome.ProceedOnce,
+    );
+    await vi.waitFor(() => {
+      expect(onAllToolCallsComplete).toHaveBeenCalled();
+    });
+
+    expect(auditLog.append).toHaveBeenCalledExactlyOnceWith({
+      timestamp: expect.any(String),
+      sessionId: 'test-session-id',
+      callId: '1',
+      toolName: 'mockTool',
+      agentName: 'helper',
+      args: { param: 'value' },
+      decision: PolicyDecision.ASK_USER,
+      rule: { source: 'test rule', priority: 10 },
+      approvedBy: 'user',
+      confirmation: ToolConfirmationOutcome.ProceedOnce,
+      status: 'success',
+    });
+  });
+
+  it('should log calls approved by the approval mode', async () => {
+    const { auditLog, onAllToolCallsComplete, schedule } =
+      createAuditedScheduler({ approvalMode: ApprovalMode.YOLO });
+
+    await schedule();
+    await vi.waitFor(() => {
+      expect(onAllToolCallsComplete).toHaveBeenCalled();
+    });
+
+    expect(auditLog.append).toHaveBeenCalledExactlyOnceWith(
+      expect.objectContaining({
+        decision: PolicyDecision.ASK_USER,
+        approvedBy: 'approval_mode',
+        status: 'success',
+      }),
+    );
+    expect(auditLog.append.mock.calls[0][0]).not.toHaveProperty('confirmation');
+  });
+
+  it('should log calls the tool itself did not ask to confirm', async () => {
+    const { auditLog, onAllToolCallsComplete, schedule } =
+      createAuditedScheduler({
+        shouldConfirmExecute: vi.fn().mockResolvedValue(false),
+      });
+
+    await schedule();
+    await vi.waitFor(() => {
+      expect(onAllToolCallsComplete).toHaveBeenCalled();
+    });
+
+    expect(auditLog.append).toHaveBeenCalledExactlyOnceWith(
+      expect.objectContaining({
+        decision: PolicyDecision.ASK_USER,
+        approvedBy: 'tool',
+        status: 'success',
+      }),
+    );
+  });
+});
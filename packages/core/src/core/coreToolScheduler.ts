@@ -46,6 +46,13 @@ import { doesToolInvocationMatch } from '../utils/tool-utils.js';
 import levenshtein from 'fast-levenshtein';
 import { ShellToolInvocation } from '../tools/shell.js';
 import type { ToolConfirmationRequest } from '../confirmation-bus/types.js';
+import { PolicyDecision, type PolicyCheckResult } from '../policy/types.js';
+import {
+  toPolicyAuditRule,
+  type PolicyAuditApproval,
+} from '../policy/audit-log.js';
+import { debugLogger } from '../utils/debugLogger.js';
+import { getErrorMessage } from '../utils/errors.js';
 import { MessageBusType } from '../confirmation-bus/types.js';
 
 export type ValidatingToolCall = {
@@ -324,6 +331,11 @@ ${truncatedContent}`,
 
 interface CoreToolSchedulerOptions {
   config: Config;
+  /**
+   * The registry used to resolve tool calls. Defaults to the config's global
+   * registry; subagents pass their own isolated registry.
+   */
+  toolRegistry?: ToolRegistry;
   outputUpdateHandler?: OutputUpdateHandler;
   onAllToolCallsComplete?: AllToolCallsCompleteHandler;
   onToolCallsUpdate?: ToolCallsUpdateHandler;
@@ -342,6 +354,12 @@ export class CoreToolScheduler {
   private onEditorClose: () => void;
   private isFinalizingToolCalls = false;
   private isScheduling = false;
+  /** Policy decisions on the current calls, kept for the audit log. */
+  private policyChecks = new Map<string, PolicyCheckResult>();
+  /** The current calls the user was asked to confirm. */
+  private confirmationRequestedCallIds = new Set<string>();
+  /** How the current calls approved without asking the user were approved. */
+  private approvals = new Map<string, PolicyAuditApproval>();
   private requestQueue: Array<{
     request: ToolCallRequestInfo | ToolCallRequestInfo[];
     signal: AbortSignal;
@@ -351,7 +369,8 @@ export class CoreToolScheduler {
 
   constructor(options: CoreToolSchedulerOptions) {
     this.config = options.config;
-    this.toolRegistry = options.config.getToolRegistry();
+    this.toolRegistry =
+      options.toolRegistry ?? options.config.getToolRegistry();
     this.outputUpdateHandler = options.outputUpdateHandler;
     this.onAllToolCallsComplete = options.onAllToolCallsComplete;
     this.onToolCallsUpdate = options.onToolCallsUpdate;
@@ -745,10 +764,24 @@ export class CoreToolScheduler {
             continue;
           }
 
+          if (this.config.getPolicyAuditLog()) {
+            this.policyChecks.set(
+              reqInfo.callId,
+              this.checkPolicyForAudit(reqInfo),
+            );
+          }
+
           const confirmationDetails =
             await invocation.shouldConfirmExecute(signal);
 
           if (!confirmationDetails) {
+            this.approvals.set(
+              reqInfo.callId,
+              this.policyChecks.get(reqInfo.callId)?.decision ===
+                PolicyDecision.ALLOW
+                ? 'policy'
+                : 'tool',
+            );
             this.setToolCallOutcome(
               reqInfo.callId,
               ToolConfirmationOutcome.ProceedAlways,
@@ -758,6 +791,7 @@ export class CoreToolScheduler {
           }
 
           if (this.isAutoApproved(validatingCall)) {
+            this.approvals.set(reqInfo.callId, 'approval_mode');
             this.setToolCallOutcome(
               reqInfo.callId,
               ToolConfirmationOutcome.ProceedAlways,
@@ -803,6 +837,7 @@ export class CoreToolScheduler {
                   payload,
                 ),
             };
+            this.confirmationRequestedCallIds.add(reqInfo.callId);
             this.setStatusInternal(
               reqInfo.callId,
               'awaiting_approval',
@@ -1137,7 +1172,11 @@ export class CoreToolScheduler {
 
       for (const call of completedCalls) {
         logToolCall(this.config, new ToolCallEvent(call));
+        this.auditToolCall(call);
       }
+      this.policyChecks.clear();
+      this.confirmationRequestedCallIds.clear();
+      this.approvals.clear();
 
       if (this.onAllToolCallsComplete) {
         this.isFinalizingToolCalls = true;
@@ -1155,6 +1194,58 @@ export class CoreToolScheduler {
     }
   }
 
+  private checkPolicyForAudit(request: ToolCallRequestInfo): PolicyCheckResult {
+    return this.config
+      .getPolicyEngine()
+      .evaluate({ name: request.name, args: request.args }, request.agentName);
+  }
+
+  /**
+   * Writes a completed call to the policy audit log, if auditing is enabled.
+   */
+  private auditToolCall(call: CompletedToolCall): void {
+    const auditLog = this.config.getPolicyAuditLog();
+    if (!auditLog) {
+      return;
+    }
+    const { request } = call;
+    // Calls rejected before validation, e.g. of unknown tools, were never
+    // checked.
+    const policy =
+      this.policyChecks.get(request.callId) ??
+      this.checkPolicyForAudit(request);
+    const rule = toPolicyAuditRule(policy);
+    const confirmationRequested = this.confirmationRequestedCallIds.has(
+      request.callId,
+    );
+    const approvedBy = confirmationRequested
+      ? call.outcome && call.outcome !== ToolConfirmationOutcome.Cancel
+        ? 'user'
+        : undefined
+      : this.approvals.get(request.callId);
+    try {
+      auditLog.append({
+        timestamp: new Date().toISOString(),
+        sessionId: this.config.getSessionId(),
+        callId: request.callId,
+        toolName: request.name,
+        ...(request.agentName && { agentName: request.agentName }),
+        args: request.args,
+        decision: policy.decision,
+        ...(rule && { rule }),
+        ...(approvedBy && { approvedBy }),
+        ...(confirmationRequested && {
+          confirmation: call.outcome ?? ToolConfirmationOutcome.Cancel,
+        }),
+        status: call.status,
+      });
+    } catch (error) {
+      debugLogger.warn(
+        `Could not write to the policy audit log ${auditLog.filePath}: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+
   private notifyToolCallsUpdate(): void {
     if (this.onToolCallsUpdate) {
       this.onToolCallsUpdate([...this.toolCalls]);
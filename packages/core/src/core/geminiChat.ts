@@ -19,6 +19,7 @@ import { toParts } from '../code_assist/converter.js';
 import { createUserContent } from '@google/genai';
 import { retryWithBackoff } from '../utils/retry.js';
 import type { Config } from '../config/config.js';
+import type { ContentGenerator } from './contentGenerator.js';
 import {
   DEFAULT_GEMINI_FLASH_MODEL,
   getEffectiveModel,
@@ -30,7 +31,10 @@ import {
   logContentRetry,
   logContentRetryFailure,
 } from '../telemetry/loggers.js';
-import { ChatRecordingService } from '../services/chatRecordingService.js';
+import {
+  ChatRecordingService,
+  type ResumedSessionData,
+} from '../services/chatRecordingService.js';
 import {
   ContentRetryEvent,
   ContentRetryFailureEvent,
@@ -191,10 +195,12 @@ export class GeminiChat {
     private readonly config: Config,
     private readonly generationConfig: GenerateContentConfig = {},
     private history: Content[] = [],
+    private readonly contentGenerator?: ContentGenerator,
+    resumedSessionData?: ResumedSessionData,
   ) {
     validateHistory(history);
     this.chatRecordingService = new ChatRecordingService(config);
-    this.chatRecordingService.initialize();
+    this.chatRecordingService.initialize(resumedSessionData);
   }
 
   setSystemInstruction(sysInstr: string) {
@@ -364,7 +370,9 @@ export class GeminiChat {
         );
       }
 
-      return this.config.getContentGenerator().generateContentStream(
+      const contentGenerator =
+        this.contentGenerator ?? this.config.getContentGenerator();
+      return contentGenerator.generateContentStream(
         {
           model: modelToUse,
           contents: requestContents,
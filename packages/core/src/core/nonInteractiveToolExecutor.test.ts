@@ -18,6 +18,7 @@ import {
   DEFAULT_TRUNCATE_TOOL_OUTPUT_THRESHOLD,
   ToolErrorType,
   ApprovalMode,
+  ToolConfirmationOutcome,
 } from '../index.js';
 import type { Part } from '@google/genai';
 import { MockTool } from '../test-utils/mock-tool.js';
@@ -63,6 +64,7 @@ describe('executeToolCall', () => {
       getUseModelRouter: () => false,
       getGeminiClient: () => null, // No client needed for these tests
       getEnableMessageBusIntegration: () => false,
+      getPolicyAuditLog: () => undefined,
       getMessageBus: () => null,
       getPolicyEngine: () => null,
     } as unknown as Config;
@@ -372,4 +374,81 @@ describe('executeToolCall', () => {
 
     expect(response.contentLength).toBeUndefined();
   });
+
+  describe('tool calls that require approval', () => {
+    const request: ToolCallRequestInfo = {
+      callId: 'call9',
+      name: 'testTool',
+      args: {},
+      isClientInitiated: false,
+      prompt_id: 'prompt-id-9',
+    };
+
+    beforeEach(() => {
+      mockTool = new MockTool({
+        name: 'testTool',
+        execute: executeFn,
+        shouldConfirmExecute: async () => ({
+          type: 'info',
+          title: 'Confirm: testTool',
+          prompt: 'Run testTool?',
+          onConfirm: async () => {},
+        }),
+      });
+      vi.mocked(mockToolRegistry.getTool).mockReturnValue(mockTool);
+      executeFn.mockResolvedValue({
+        llmContent: 'done',
+        returnDisplay: 'done',
+      });
+    });
+
+    it('should cancel the call when no confirmation handler is given', async () => {
+      const completed = await executeToolCall(
+        mockConfig,
+        request,
+        abortController.signal,
+      );
+
+      expect(completed.status).toBe('cancelled');
+      expect(executeFn).not.toHaveBeenCalled();
+    });
+
+    it('should execute the call when the handler approves it', async () => {
+      const onConfirm = vi
+        .fn()
+        .mockResolvedValue(ToolConfirmationOutcome.ProceedOnce);
+
+      const completed = await executeToolCall(
+        mockConfig,
+        request,
+        abortController.signal,
+        undefined,
+        onConfirm,
+      );
+
+      expect(onConfirm).toHaveBeenCalledTimes(1);
+      expect(onConfirm).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'awaiting_approval' }),
+      );
+      expect(completed.status).toBe('success');
+      expect(executeFn).toHaveBeenCalled();
+    });
+
+    it('should cancel the call when the handler rejects it', async () => {
+      const onConfirm = vi
+        .fn()
+        .mockResolvedValue(ToolConfirmationOutcome.Cancel);
+
+      const completed = await executeToolCall(
+        mockConfig,
+        request,
+        abortController.signal,
+        undefined,
+        onConfirm,
+      );
+
+      expect(completed.status).toBe('cancelled');
+      expect(executeFn).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -4,25 +4,56 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { ToolCallRequestInfo, Config } from '../index.js';
+import type { ToolCallRequestInfo, Config, ToolRegistry } from '../index.js';
+import { ToolConfirmationOutcome } from '../tools/tools.js';
 import {
   CoreToolScheduler,
   type CompletedToolCall,
+  type ConfirmHandler,
+  type ToolCall,
 } from './coreToolScheduler.js';
 
 /**
  * Executes a single tool call non-interactively by leveraging the CoreToolScheduler.
+ *
+ * @param toolRegistry Optional registry to resolve the tool from. Defaults to
+ * the config's global registry.
+ * @param onConfirm Optional handler deciding on calls that require approval.
+ * Without one, such calls are cancelled since nobody can approve them.
  */
 export async function executeToolCall(
   config: Config,
   toolCallRequest: ToolCallRequestInfo,
   abortSignal: AbortSignal,
+  toolRegistry?: ToolRegistry,
+  onConfirm?: ConfirmHandler,
 ): Promise<CompletedToolCall> {
+  const handledCallIds = new Set<string>();
+  const handleToolCallsUpdate = (toolCalls: ToolCall[]) => {
+    for (const toolCall of toolCalls) {
+      if (
+        toolCall.status !== 'awaiting_approval' ||
+        handledCallIds.has(toolCall.request.callId)
+      ) {
+        continue;
+      }
+      handledCallIds.add(toolCall.request.callId);
+      const outcome = onConfirm
+        ? onConfirm(toolCall)
+        : Promise.resolve(ToolConfirmationOutcome.Cancel);
+      void outcome
+        .catch(() => ToolConfirmationOutcome.Cancel)
+        .then((resolved) => toolCall.confirmationDetails.onConfirm(resolved));
+    }
+  };
+
   return new Promise<CompletedToolCall>((resolve, reject) => {
     new CoreToolScheduler({
       config,
+      toolRegistry,
       getPreferredEditor: () => undefined,
       onEditorClose: () => {},
+      onToolCallsUpdate: handleToolCallsUpdate,
       onAllToolCallsComplete: async (completedToolCalls) => {
         resolve(completedToolCalls[0]);
       },
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { GenerateContentParameters } from '@google/genai';
+import {
+  loadRecording,
+  PlaybackContentGenerator,
+  PlaybackDivergenceError,
+  RecordedApiError,
+} from './playbackContentGenerator.js';
+import {
+  hashRequest,
+  type RecordedExchange,
+} from './recordingContentGenerator.js';
+import { getErrorStatus } from '../utils/retry.js';
+
+const first: GenerateContentParameters = {
+  model: 'gemini-2.5-pro',
+  contents: 'First',
+};
+const second: GenerateContentParameters = {
+  model: 'gemini-2.5-pro',
+  contents: 'Second',
+};
+
+function exchange(
+  request: GenerateContentParameters,
+  text: string,
+): RecordedExchange {
+  return {
+    method: 'generateContent',
+    hash: hashRequest('generateContent', request),
+    model: request.model,
+    request,
+    response: {
+      candidates: [{ content: { role: 'model', parts: [{ text }] } }],
+    },
+  };
+}
+
+describe('PlaybackContentGenerator', () => {
+  it('should match requests by hash', async () => {
+    const generator = new PlaybackContentGenerator([
+      exchange(first, 'one'),
+      exchange(second, 'two'),
+    ]);
+
+    expect((await generator.generateContent(second, 'id')).text).toBe('two');
+    expect((await generator.generateContent(first, 'id')).text).toBe('one');
+  });
+
+  it('should report requests that were not recorded', async () => {
+    const generator = new PlaybackContentGenerator(
+      [exchange(first, 'one')],
+      'hash',
+      'session.jsonl',
+    );
+
+    await generator.generateContent(first, 'id');
+    await expect(generator.generateContent(first, 'id')).rejects.toThrow(
+      PlaybackDivergenceError,
+    );
+    await expect(generator.generateContent(second, 'id')).rejects.toThrow(
+      /^Call 3 \(generateContent for gemini-2\.5-pro, request hash [0-9a-f]{16}\) does not match any remaining call in session\.jsonl\./,
+    );
+  });
+
+  it('should play calls back in order in sequence mode', async () => {
+    const generator = new PlaybackContentGenerator(
+      [exchange(first, 'one'), exchange(first, 'two')],
+      'sequence',
+    );
+
+    expect((await generator.generateContent(second, 'id')).text).toBe('one');
+    await expect(generator.generateContentStream(first, 'id')).rejects.toThrow(
+      'Call 2 is a generateContentStream call, but the recording has a generateContent call at this point.',
+    );
+  });
+
+  it('should replay stream chunks and then the recorded error', async () => {
+    const generator = new PlaybackContentGenerator([
+      {
+        method: 'generateContentStream',
+        hash: hashRequest('generateContentStream', first),
+        model: first.model,
+        request: first,
+        chunks: [
+          {
+            candidates: [
+              { content: { role: 'model', parts: [{ text: 'a' }] } },
+            ],
+          },
+        ],
+        error: { message: 'Too many requests', status: 429 },
+      },
+    ]);
+
+    const texts: Array<string | undefined> = [];
+    const error = await (async () => {
+      for await (const chunk of await generator.generateContentStream(
+        first,
+        'id',
+      )) {
+        texts.push(chunk.text);
+      }
+    })().catch((e: unknown) => e);
+
+    expect(texts).toEqual(['a']);
+    expect(error).toBeInstanceOf(RecordedApiError);
+    expect(getErrorStatus(error)).toBe(429);
+  });
+});
+
+describe('loadRecording', () => {
+  it('should report the line of invalid entries', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'playback-test-'));
+    const file = path.join(tempDir, 'session.jsonl');
+    fs.writeFileSync(
+      file,
+      `${JSON.stringify(exchange(first, 'one'))}\n\n{oops\n`,
+    );
+    try {
+      expect(() => loadRecording(file)).toThrow(
+        `Invalid recording ${file} at line 3:`,
+      );
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import {
+  GenerateContentResponse,
+  type CountTokensParameters,
+  type CountTokensResponse,
+  type EmbedContentParameters,
+  type EmbedContentResponse,
+  type GenerateContentParameters,
+} from '@google/genai';
+import type { ContentGenerator } from './contentGenerator.js';
+import {
+  hashRequest,
+  type RecordedExchange,
+  type RecordedMethod,
+} from './recordingContentGenerator.js';
+
+/**
+ * How requests are matched to recorded calls: by the hash of the request, or
+ * simply in the order they were recorded.
+ */
+export type PlaybackMatchMode = 'hash' | 'sequence';
+
+/**
+ * Thrown when a request does not match the recording, i.e. the session took a
+ * different path than the one that was recorded.
+ */
+export class PlaybackDivergenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlaybackDivergenceError';
+  }
+}
+
+/**
+ * An API error played back from a recording. Like the original error it
+ * carries the HTTP status, so retries behave the same way.
+ */
+export class RecordedApiError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'RecordedApiError';
+  }
+}
+
+/**
+ * Reads a recording written by a {@link RecordingContentGenerator}.
+ */
+export function loadRecording(filePath: string): RecordedExchange[] {
+  const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+  const exchanges: RecordedExchange[] = [];
+  lines.forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    try {
+      exchanges.push(JSON.parse(line) as RecordedExchange);
+    } catch (error) {
+      throw new Error(
+        `Invalid recording ${filePath} at line ${index + 1}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  });
+  return exchanges;
+}
+
+function toResponse(json: unknown): GenerateContentResponse {
+  return Object.assign(new GenerateContentResponse(), json);
+}
+
+/**
+ * A content generator that answers every call from a recording made with a
+ * {@link RecordingContentGenerator}, without any network access. Each
+ * recorded call is played back once; recorded errors are thrown again.
+ */
+export class PlaybackContentGenerator implements ContentGenerator {
+  private readonly played = new Set<number>();
+  private calls = 0;
+
+  constructor(
+    private readonly exchanges: RecordedExchange[],
+    private readonly matchMode: PlaybackMatchMode = 'hash',
+    private readonly source = 'the recording',
+  ) {}
+
+  static fromFile(
+    filePath: string,
+    matchMode?: PlaybackMatchMode,
+  ): PlaybackContentGenerator {
+    return new PlaybackContentGenerator(
+      loadRecording(filePath),
+      matchMode,
+      filePath,
+    );
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    const exchange = this.next('generateContent', request);
+    throwRecordedError(exchange);
+    return toResponse(exchange.response);
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const exchange = this.next('generateContentStream', request);
+    if (exchange.error && !exchange.chunks?.length) {
+      throwRecordedError(exchange);
+    }
+    return (async function* () {
+      for (const chunk of exchange.chunks ?? []) {
+        yield toResponse(chunk);
+      }
+      throwRecordedError(exchange);
+    })();
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    const exchange = this.next('countTokens', request);
+    throwRecordedError(exchange);
+    return exchange.response as CountTokensResponse;
+  }
+
+  async embedContent(
+    request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    const exchange = this.next('embedContent', request);
+    throwRecordedError(exchange);
+    return exchange.response as EmbedContentResponse;
+  }
+
+  private next(
+    method: RecordedMethod,
+    request:
+      | GenerateContentParameters
+      | CountTokensParameters
+      | EmbedContentParameters,
+  ): RecordedExchange {
+    const call = ++this.calls;
+    const index =
+      this.matchMode === 'hash'
+        ? this.findByHash(method, request, call)
+        : this.findBySequence(method, call);
+    this.played.add(index);
+    return this.exchanges[index];
+  }
+
+  private findByHash(
+    method: RecordedMethod,
+    request:
+      | GenerateContentParameters
+      | CountTokensParameters
+      | EmbedContentParameters,
+    call: number,
+  ): number {
+    const hash = hashRequest(method, request);
+    const index = this.exchanges.findIndex(
+      (exchange, i) =>
+        !this.played.has(i) &&
+        exchange.method === method &&
+        exchange.hash === hash,
+    );
+    if (index === -1) {
+      throw new PlaybackDivergenceError(
+        `Call ${call} (${method} for ${request.model}, request hash ${hash}) does not match any remaining call in ${this.source}. ` +
+          'The session has diverged from the recording; record it again, or play it back in sequence mode.',
+      );
+    }
+    return index;
+  }
+
+  private findBySequence(method: RecordedMethod, call: number): number {
+    const index = this.exchanges.findIndex((_, i) => !this.played.has(i));
+    if (index === -1) {
+      throw new PlaybackDivergenceError(
+        `Call ${call} (${method}) was made, but ${this.source} only has ${this.exchanges.length} calls.`,
+      );
+    }
+    const recorded = this.exchanges[index].method;
+    if (recorded !== method) {
+      throw new PlaybackDivergenceError(
+        `Call ${call} is a ${method} call, but ${this.source} has a ${recorded} call at this point.`,
+      );
+    }
+    return index;
+  }
+}
+
+function throwRecordedError(exchange: RecordedExchange): void {
+  if (exchange.error) {
+    throw new RecordedApiError(exchange.error.message, exchange.error.status);
+  }
+}
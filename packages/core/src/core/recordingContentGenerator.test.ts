@@ -0,0 +1,175 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { GenerateContentResponse } from '@google/genai';
+import type { ContentGenerator } from './contentGenerator.js';
+import {
+  hashRequest,
+  RecordingContentGenerator,
+  type RecordedExchange,
+} from './recordingContentGenerator.js';
+import { ENVIRONMENT_CONTEXT_PREAMBLE } from '../utils/environmentContext.js';
+
+function textResponse(text: string): GenerateContentResponse {
+  return Object.assign(new GenerateContentResponse(), {
+    candidates: [{ content: { role: 'model', parts: [{ text }] } }],
+  });
+}
+
+describe('RecordingContentGenerator', () => {
+  let tempDir: string;
+  let recordFile: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recording-test-'));
+    recordFile = path.join(tempDir, 'session.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function readRecording(): RecordedExchange[] {
+    return fs
+      .readFileSync(recordFile, 'utf-8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+  }
+
+  it('should record responses and stream chunks', async () => {
+    const wrapped = {
+      generateContent: async () => textResponse('Hello'),
+      generateContentStream: async () =>
+        (async function* () {
+          yield textResponse('Hel');
+          yield textResponse('lo');
+        })(),
+      countTokens: async () => ({ totalTokens: 3 }),
+    } as unknown as ContentGenerator;
+    const recorder = new RecordingContentGenerator(wrapped, recordFile);
+    const request = {
+      model: 'gemini-2.5-pro',
+      contents: 'Hi',
+      config: { abortSignal: new AbortController().signal, temperature: 0 },
+    };
+
+    await recorder.generateContent(request, 'prompt-1');
+    const chunks = [];
+    for await (const chunk of await recorder.generateContentStream(
+      request,
+      'prompt-2',
+    )) {
+      chunks.push(chunk.text);
+    }
+    await recorder.countTokens({ model: 'gemini-2.5-pro', contents: 'Hi' });
+
+    expect(chunks).toEqual(['Hel', 'lo']);
+    const [single, stream, count] = readRecording();
+    expect(single).toEqual({
+      method: 'generateContent',
+      hash: hashRequest('generateContent', request),
+      model: 'gemini-2.5-pro',
+      request: {
+        model: 'gemini-2.5-pro',
+        contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+        config: { temperature: 0 },
+      },
+      response: {
+        candidates: [
+          { content: { role: 'model', parts: [{ text: 'Hello' }] } },
+        ],
+      },
+    });
+    expect(stream.method).toBe('generateContentStream');
+    expect(stream.chunks).toHaveLength(2);
+    expect(count).toMatchObject({
+      method: 'countTokens',
+      response: { totalTokens: 3 },
+    });
+  });
+
+  it('should record errors with their status', async () => {
+    const wrapped = {
+      generateContent: async () => {
+        throw Object.assign(new Error('Quota exceeded'), { status: 429 });
+      },
+      generateContentStream: async () =>
+        (async function* () {
+          yield textResponse('partial');
+          throw new Error('connection reset');
+        })(),
+    } as unknown as ContentGenerator;
+    const recorder = new RecordingContentGenerator(wrapped, recordFile);
+    const request = { model: 'gemini-2.5-pro', contents: 'Hi' };
+
+    await expect(recorder.generateContent(request, 'id')).rejects.toThrow(
+      'Quota exceeded',
+    );
+    const stream = await recorder.generateContentStream(request, 'id');
+    await expect(async () => {
+      for await (const _ of stream) {
+        // drain
+      }
+    }).rejects.toThrow('connection reset');
+
+    const [failed, partial] = readRecording();
+    expect(failed.error).toEqual({ message: 'Quota exceeded', status: 429 });
+    expect(partial.chunks).toHaveLength(1);
+    expect(partial.error).toEqual({ message: 'connection reset' });
+  });
+});
+
+describe('hashRequest', () => {
+  it('should ignore the abort signal and how contents are written', () => {
+    expect(
+      hashRequest('generateContent', {
+        model: 'm',
+        contents: 'Hi',
+        config: { abortSignal: new AbortController().signal },
+      }),
+    ).toBe(
+      hashRequest('generateContent', {
+        model: 'm',
+        contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+      }),
+    );
+  });
+
+  it('should ignore the environment context, which changes between runs', () => {
+    const withContext = (context: string) => ({
+      model: 'm',
+      contents: [
+        {
+          role: 'user',
+          parts: [{ text: `${ENVIRONMENT_CONTEXT_PREAMBLE}\n${context}` }],
+        },
+        { role: 'user', parts: [{ text: 'Hi' }] },
+      ],
+    });
+
+    expect(
+      hashRequest('generateContent', withContext('Today is Monday.')),
+    ).toBe(hashRequest('generateContent', withContext('Today is Tuesday.')));
+    expect(
+      hashRequest('generateContent', withContext('Today is Monday.')),
+    ).toBe(hashRequest('generateContent', { model: 'm', contents: 'Hi' }));
+  });
+
+  it('should differ between methods and models', () => {
+    const request = { model: 'm', contents: 'Hi' };
+    expect(hashRequest('generateContent', request)).not.toBe(
+      hashRequest('generateContentStream', request),
+    );
+    expect(hashRequest('generateContent', request)).not.toBe(
+      hashRequest('generateContent', { ...request, model: 'n' }),
+    );
+  });
+});
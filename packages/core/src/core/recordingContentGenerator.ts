@@ -0,0 +1,228 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import type {
+  Content,
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import type { ContentGenerator } from './contentGenerator.js';
+import { toContents } from '../code_assist/converter.js';
+import { getErrorStatus } from '../utils/retry.js';
+import type { UserTierId } from '../code_assist/types.js';
+import { ENVIRONMENT_CONTEXT_PREAMBLE } from '../utils/environmentContext.js';
+
+export type RecordedMethod =
+  | 'generateContent'
+  | 'generateContentStream'
+  | 'countTokens'
+  | 'embedContent';
+
+export interface RecordedError {
+  message: string;
+  status?: number;
+}
+
+/**
+ * One call to a content generator, as stored on a line of a recording.
+ */
+export interface RecordedExchange {
+  method: RecordedMethod;
+  /** See {@link hashRequest}. */
+  hash: string;
+  model: string;
+  request: unknown;
+  /** The response of a non-streaming call. */
+  response?: unknown;
+  /** The chunks of a streaming call, up to the error if it failed. */
+  chunks?: unknown[];
+  error?: RecordedError;
+}
+
+type RequestParameters =
+  | GenerateContentParameters
+  | CountTokensParameters
+  | EmbedContentParameters;
+
+/**
+ * Returns the serializable part of a request: the abort signal and the HTTP
+ * options are dropped and the contents normalized.
+ */
+function toRecordedRequest(request: RequestParameters): {
+  model: string;
+  contents: Content[];
+  config?: Record<string, unknown>;
+} {
+  const {
+    abortSignal: _signal,
+    httpOptions: _http,
+    ...config
+  } = (request.config ?? {}) as Record<string, unknown>;
+  return {
+    model: request.model,
+    contents: toContents(request.contents),
+    ...(Object.keys(config).length > 0 && { config }),
+  };
+}
+
+const isEnvironmentContext = (content: Content): boolean =>
+  content.role === 'user' &&
+  !!content.parts?.[0]?.text?.startsWith(ENVIRONMENT_CONTEXT_PREAMBLE);
+
+/**
+ * Computes a stable hash of a request, used to find its recorded response.
+ *
+ * The setup turn with the environment context is left out: it holds the date,
+ * the OS and the folder structure, which differ between recording and playback.
+ */
+export function hashRequest(
+  method: RecordedMethod,
+  request: RequestParameters,
+): string {
+  const recorded = toRecordedRequest(request);
+  const hashed = {
+    ...recorded,
+    contents: recorded.contents.filter(
+      (content) => !isEnvironmentContext(content),
+    ),
+  };
+  return createHash('sha256')
+    .update(JSON.stringify({ method, request: hashed }))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+function toRecordedError(error: unknown): RecordedError {
+  return {
+    message: error instanceof Error ? error.message : String(error),
+    ...(getErrorStatus(error) !== undefined && {
+      status: getErrorStatus(error),
+    }),
+  };
+}
+
+/**
+ * A decorator that writes every call to the wrapped content generator to a
+ * JSONL file, one {@link RecordedExchange} per line, so the session can be
+ * played back later with a {@link PlaybackContentGenerator}.
+ *
+ * Calls are appended to the file when they complete.
+ */
+export class RecordingContentGenerator implements ContentGenerator {
+  constructor(
+    private readonly wrapped: ContentGenerator,
+    private readonly filePath: string,
+  ) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  get userTier(): UserTierId | undefined {
+    return this.wrapped.userTier;
+  }
+
+  getWrapped(): ContentGenerator {
+    return this.wrapped;
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+    userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    return this.record('generateContent', request, () =>
+      this.wrapped.generateContent(request, userPromptId),
+    );
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+    userPromptId: string,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    let stream: AsyncGenerator<GenerateContentResponse>;
+    try {
+      stream = await this.wrapped.generateContentStream(request, userPromptId);
+    } catch (error) {
+      this.append('generateContentStream', request, {
+        chunks: [],
+        error: toRecordedError(error),
+      });
+      throw error;
+    }
+    return this.recordStream(request, stream);
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    return this.record('countTokens', request, () =>
+      this.wrapped.countTokens(request),
+    );
+  }
+
+  async embedContent(
+    request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    return this.record('embedContent', request, () =>
+      this.wrapped.embedContent(request),
+    );
+  }
+
+  private async record<T>(
+    method: RecordedMethod,
+    request: RequestParameters,
+    call: () => Promise<T>,
+  ): Promise<T> {
+    try {
+      const response = await call();
+      this.append(method, request, { response });
+      return response;
+    } catch (error) {
+      this.append(method, request, { error: toRecordedError(error) });
+      throw error;
+    }
+  }
+
+  private async *recordStream(
+    request: GenerateContentParameters,
+    stream: AsyncGenerator<GenerateContentResponse>,
+  ): AsyncGenerator<GenerateContentResponse> {
+    const chunks: GenerateContentResponse[] = [];
+    try {
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+        yield chunk;
+      }
+    } catch (error) {
+      this.append('generateContentStream', request, {
+        chunks,
+        error: toRecordedError(error),
+      });
+      throw error;
+    }
+    this.append('generateContentStream', request, { chunks });
+  }
+
+  private append(
+    method: RecordedMethod,
+    request: RequestParameters,
+    result: Pick<RecordedExchange, 'response' | 'chunks' | 'error'>,
+  ): void {
+    const exchange: RecordedExchange = {
+      method,
+      hash: hashRequest(method, request),
+      model: request.model,
+      request: toRecordedRequest(request),
+      ...result,
+    };
+    fs.appendFileSync(this.filePath, JSON.stringify(exchange) + '\n');
+  }
+}
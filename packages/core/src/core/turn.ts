@@ -27,6 +27,7 @@ import {
   toFriendlyError,
 } from '../utils/errors.js';
 import type { GeminiChat } from './geminiChat.js';
+import type { BudgetStatus } from '../services/budgetService.js';
 import { InvalidStreamError } from './geminiChat.js';
 import { parseThought, type ThoughtSummary } from '../utils/thoughtUtils.js';
 import { createUserContent } from '@google/genai';
@@ -62,6 +63,8 @@ export enum GeminiEventType {
   Retry = 'retry',
   ContextWindowWillOverflow = 'context_window_will_overflow',
   InvalidStream = 'invalid_stream',
+  BudgetWarning = 'budget_warning',
+  BudgetExceeded = 'budget_exceeded',
 }
 
 export type ServerGeminiRetryEvent = {
@@ -100,6 +103,8 @@ export interface ToolCallRequestInfo {
   args: Record<string, unknown>;
   isClientInitiated: boolean;
   prompt_id: string;
+  /** The subagent that requested the call, if any. */
+  agentName?: string;
 }
 
 export interface ToolCallResponseInfo {
@@ -191,6 +196,16 @@ export type ServerGeminiLoopDetectedEvent = {
   type: GeminiEventType.LoopDetected;
 };
 
+export type ServerGeminiBudgetWarningEvent = {
+  type: GeminiEventType.BudgetWarning;
+  value: BudgetStatus;
+};
+
+export type ServerGeminiBudgetExceededEvent = {
+  type: GeminiEventType.BudgetExceeded;
+  value: BudgetStatus;
+};
+
 export type ServerGeminiCitationEvent = {
   type: GeminiEventType.Citation;
   value: string;
@@ -212,7 +227,9 @@ export type ServerGeminiStreamEvent =
   | ServerGeminiUserCancelledEvent
   | ServerGeminiRetryEvent
   | ServerGeminiContextWindowWillOverflowEvent
-  | ServerGeminiInvalidStreamEvent;
+  | ServerGeminiInvalidStreamEvent
+  | ServerGeminiBudgetWarningEvent
+  | ServerGeminiBudgetExceededEvent;
 
 // A turn manages the agentic loop turn within the server context.
 export class Turn {
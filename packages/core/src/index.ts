@@ -11,6 +11,7 @@ export * from './output/json-formatter.js';
 export * from './output/stream-json-formatter.js';
 export * from './policy/types.js';
 export * from './policy/policy-engine.js';
+export * from './policy/audit-log.js';
 export * from './confirmation-bus/types.js';
 export * from './confirmation-bus/message-bus.js';
 
@@ -18,6 +19,8 @@ export * from './confirmation-bus/message-bus.js';
 export * from './core/client.js';
 export * from './core/contentGenerator.js';
 export * from './core/loggingContentGenerator.js';
+export * from './core/recordingContentGenerator.js';
+export * from './core/playbackContentGenerator.js';
 export * from './core/geminiChat.js';
 export * from './core/logger.js';
 export * from './core/prompts.js';
@@ -29,11 +32,16 @@ export * from './core/nonInteractiveToolExecutor.js';
 
 export * from './fallback/types.js';
 
+export * from './routing/routingConfig.js';
+export type { RoutingRequestSource } from './routing/routingStrategy.js';
+
 export * from './code_assist/codeAssist.js';
 export * from './code_assist/oauth2.js';
 export * from './code_assist/server.js';
 export * from './code_assist/types.js';
 
+export * from './openai/openaiContentGenerator.js';
+
 // Export utilities
 export * from './utils/paths.js';
 export * from './utils/schemaValidator.js';
@@ -61,12 +69,17 @@ export * from './utils/partUtils.js';
 export * from './utils/promptIdContext.js';
 export * from './utils/thoughtUtils.js';
 export * from './utils/debugLogger.js';
+export * from './utils/commitMessageGenerator.js';
 
 // Export services
 export * from './services/fileDiscoveryService.js';
 export * from './services/gitService.js';
+export * from './services/worktreeService.js';
+export * from './services/repositoryService.js';
 export * from './services/chatRecordingService.js';
 export * from './services/fileSystemService.js';
+export * from './services/todoStore.js';
+export * from './services/budgetService.js';
 
 // Export IDE specific logic
 export * from './ide/ide-client.js';
@@ -87,8 +100,18 @@ export * from './tools/tool-names.js';
 
 // Export prompt logic
 export * from './prompts/mcp-prompts.js';
-export { parseAgentMarkdown } from './agents/markdown-loader.js';
-export * from './agent.js';
+
+// Export agents
+export * from './agents/types.js';
+export * from './agents/registry.js';
+export { AgentExecutor, type ActivityCallback } from './agents/executor.js';
+export {
+  AgentDefinitionError,
+  type AgentDefinitionIssue,
+  isAgentFileName,
+  parseAgentMarkdown,
+} from './agents/markdown-loader.js';
+export * from './agents/run-transcript.js';
 
 // Export specific tool logic
 export * from './tools/read-file.js';
@@ -101,11 +124,15 @@ export * from './tools/write-file.js';
 export * from './tools/web-fetch.js';
 export * from './tools/memoryTool.js';
 export * from './tools/shell.js';
+export * from './tools/background-shell.js';
 export * from './tools/web-search.js';
+export * from './tools/docs-lookup.js';
+export * from './tools/docs-providers.js';
 export * from './tools/read-many-files.js';
 export * from './tools/mcp-client.js';
 export * from './tools/mcp-tool.js';
 export * from './tools/write-todos.js';
+export * from './tools/sequential-thinking.js';
 
 // MCP OAuth
 export { MCPOAuthProvider } from './mcp/oauth-provider.js';
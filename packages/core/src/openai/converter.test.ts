@@ -0,0 +1,298 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FinishReason, Type } from '@google/genai';
+import {
+  fromOpenAIChatResponse,
+  toFinishReason,
+  toOpenAIChatRequest,
+  toParts,
+} from './converter.js';
+
+describe('toOpenAIChatRequest', () => {
+  it('should convert a plain text prompt', () => {
+    expect(
+      toOpenAIChatRequest(
+        { model: 'gemini-2.5-pro', contents: 'Hello' },
+        'llama3.2',
+        false,
+      ),
+    ).toEqual({
+      model: 'llama3.2',
+      messages: [{ role: 'user', content: 'Hello' }],
+    });
+  });
+
+  it('should convert the history, system instruction and generation config', () => {
+    const request = toOpenAIChatRequest(
+      {
+        model: 'gemini-2.5-pro',
+        contents: [
+          { role: 'user', parts: [{ text: 'List the files' }] },
+          {
+            role: 'model',
+            parts: [
+              { text: 'Let me think.', thought: true },
+              { text: 'Listing them.' },
+              { functionCall: { name: 'ls', args: { path: '.' } } },
+            ],
+          },
+          {
+            role: 'user',
+            parts: [
+              {
+                functionResponse: {
+                  name: 'ls',
+                  response: { output: 'a.ts' },
+                },
+              },
+            ],
+          },
+        ],
+        config: {
+          systemInstruction: 'You are a CLI agent.',
+          temperature: 0,
+          topP: 1,
+          maxOutputTokens: 100,
+          stopSequences: ['END'],
+        },
+      },
+      'llama3.2',
+      true,
+    );
+
+    expect(request).toEqual({
+      model: 'llama3.2',
+      messages: [
+        { role: 'system', content: 'You are a CLI agent.' },
+        { role: 'user', content: 'List the files' },
+        {
+          role: 'assistant',
+          content: 'Listing them.',
+          tool_calls: [
+            {
+              id: 'call_0',
+              type: 'function',
+              function: { name: 'ls', arguments: '{"path":"."}' },
+            },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_0', content: '{"output":"a.ts"}' },
+      ],
+      temperature: 0,
+      top_p: 1,
+      max_tokens: 100,
+      stop: ['END'],
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+  });
+
+  it('should keep the IDs of function calls and responses', () => {
+    const { messages } = toOpenAIChatRequest(
+      {
+        model: 'gemini-2.5-pro',
+        contents: [
+          {
+            role: 'model',
+            parts: [
+              { functionCall: { id: 'a', name: 'read', args: {} } },
+              { functionCall: { id: 'b', name: 'read', args: {} } },
+            ],
+          },
+          {
+            role: 'user',
+            parts: [
+              { functionResponse: { id: 'b', name: 'read', response: {} } },
+              { functionResponse: { name: 'read', response: {} } },
+            ],
+          },
+        ],
+      },
+      'm',
+      false,
+    );
+
+    expect(messages.slice(1)).toEqual([
+      { role: 'tool', tool_call_id: 'b', content: '{}' },
+      { role: 'tool', tool_call_id: 'a', content: '{}' },
+    ]);
+  });
+
+  it('should send images as image parts', () => {
+    const { messages } = toOpenAIChatRequest(
+      {
+        model: 'gemini-2.5-pro',
+        contents: [
+          { text: 'What is this?' },
+          { inlineData: { mimeType: 'image/png', data: 'AAAA' } },
+        ],
+      },
+      'm',
+      false,
+    );
+
+    expect(messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is this?' },
+          {
+            type: 'image_url',
+            image_url: { url: 'data:image/png;base64,AAAA' },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should convert function declarations and response schemas', () => {
+    const request = toOpenAIChatRequest(
+      {
+        model: 'gemini-2.5-pro',
+        contents: 'Hi',
+        config: {
+          tools: [
+            {
+              functionDeclarations: [
+                {
+                  name: 'ls',
+                  description: 'Lists a directory.',
+                  parameters: {
+                    type: Type.OBJECT,
+                    properties: {
+                      path: { type: Type.STRING },
+                      depth: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+                    },
+                    required: ['path'],
+                  },
+                },
+                {
+                  name: 'grep',
+                  parametersJsonSchema: { type: 'object', properties: {} },
+                },
+              ],
+            },
+          ],
+          responseMimeType: 'application/json',
+          responseJsonSchema: { type: 'object' },
+        },
+      },
+      'm',
+      false,
+    );
+
+    expect(request.tools).toEqual([
+      {
+        type: 'function',
+        function: {
+          name: 'ls',
+          description: 'Lists a directory.',
+          parameters: {
+            type: 'object',
+            properties: {
+              path: { type: 'string' },
+              depth: { type: 'array', items: { type: 'number' } },
+            },
+            required: ['path'],
+          },
+        },
+      },
+      {
+        type: 'function',
+        function: {
+          name: 'grep',
+          parameters: { type: 'object', properties: {} },
+        },
+      },
+    ]);
+    expect(request.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'response', schema: { type: 'object' } },
+    });
+  });
+});
+
+describe('fromOpenAIChatResponse', () => {
+  it('should convert reasoning, text, tool calls and usage', () => {
+    const response = fromOpenAIChatResponse({
+      id: 'chatcmpl-1',
+      model: 'qwen3:8b',
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            reasoning_content: 'The user wants files.',
+            content: 'Listing.',
+            tool_calls: [
+              {
+                id: 'call_1',
+                type: 'function',
+                function: { name: 'ls', arguments: '{"path":"src"}' },
+              },
+            ],
+          },
+          finish_reason: 'tool_calls',
+        },
+      ],
+      usage: { prompt_tokens: 10, completion_tokens: 5 },
+    });
+
+    expect(response.candidates).toEqual([
+      {
+        index: 0,
+        content: {
+          role: 'model',
+          parts: [
+            { text: 'The user wants files.', thought: true },
+            { text: 'Listing.' },
+            {
+              functionCall: { id: 'call_1', name: 'ls', args: { path: 'src' } },
+            },
+          ],
+        },
+        finishReason: FinishReason.STOP,
+      },
+    ]);
+    expect(response.usageMetadata).toEqual({
+      promptTokenCount: 10,
+      candidatesTokenCount: 5,
+      totalTokenCount: 15,
+    });
+    expect(response.modelVersion).toBe('qwen3:8b');
+    expect(response.functionCalls).toHaveLength(1);
+  });
+});
+
+describe('toParts', () => {
+  it('should use empty arguments when they are not valid JSON', () => {
+    expect(
+      toParts({
+        tool_calls: [
+          {
+            id: 'x',
+            type: 'function',
+            function: { name: 'ls', arguments: '{"path":' },
+          },
+        ],
+      }),
+    ).toEqual([{ functionCall: { id: 'x', name: 'ls', args: {} } }]);
+  });
+});
+
+describe('toFinishReason', () => {
+  it.each([
+    ['stop', FinishReason.STOP],
+    ['tool_calls', FinishReason.STOP],
+    ['length', FinishReason.MAX_TOKENS],
+    ['content_filter', FinishReason.SAFETY],
+    [null, undefined],
+  ] as const)('should map %s to %s', (reason, expected) => {
+    expect(toFinishReason(reason)).toBe(expected);
+  });
+});
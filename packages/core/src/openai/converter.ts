@@ -0,0 +1,354 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  Content,
+  ContentListUnion,
+  ContentUnion,
+  FunctionDeclaration,
+  GenerateContentParameters,
+  GenerateContentResponseUsageMetadata,
+  Part,
+  PartUnion,
+  ToolListUnion,
+} from '@google/genai';
+import { FinishReason, GenerateContentResponse } from '@google/genai';
+import type {
+  OpenAIChatRequest,
+  OpenAIChatResponse,
+  OpenAIContentPart,
+  OpenAIFinishReason,
+  OpenAIMessage,
+  OpenAIResponseFormat,
+  OpenAIResponseMessage,
+  OpenAITool,
+  OpenAIToolCall,
+  OpenAIUsage,
+} from './types.js';
+
+function toPart(part: PartUnion): Part {
+  return typeof part === 'string' ? { text: part } : part;
+}
+
+function toContent(content: ContentUnion): Content {
+  if (Array.isArray(content)) {
+    return { role: 'user', parts: content.map(toPart) };
+  }
+  if (typeof content === 'string') {
+    return { role: 'user', parts: [{ text: content }] };
+  }
+  if ('parts' in content || 'role' in content) {
+    return content as Content;
+  }
+  return { role: 'user', parts: [content as Part] };
+}
+
+/** Normalizes the request contents to a list of `Content`s. */
+function toContents(contents: ContentListUnion): Content[] {
+  if (!Array.isArray(contents)) {
+    return [toContent(contents)];
+  }
+  // Either a list of Contents, or the parts of a single user Content.
+  const isContentList = contents.every(
+    (item) =>
+      typeof item === 'object' &&
+      item !== null &&
+      ('parts' in item || 'role' in item),
+  );
+  return isContentList
+    ? (contents as Content[])
+    : [toContent(contents as PartUnion[])];
+}
+
+function textOf(content: ContentUnion | undefined): string | undefined {
+  if (content === undefined) return undefined;
+  const text = (toContent(content).parts ?? [])
+    .filter((part) => part.text && !part.thought)
+    .map((part) => part.text)
+    .join('\n');
+  return text || undefined;
+}
+
+/**
+ * Converts a Gemini schema, whose types are upper case (`OBJECT`), to a plain
+ * JSON schema.
+ */
+function toJsonSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map(toJsonSchema);
+  }
+  if (typeof schema !== 'object' || schema === null) {
+    return schema;
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'type' && typeof value === 'string') {
+      result[key] = value.toLowerCase();
+    } else if (key === 'properties' && typeof value === 'object' && value) {
+      result[key] = Object.fromEntries(
+        Object.entries(value).map(([name, property]) => [
+          name,
+          toJsonSchema(property),
+        ]),
+      );
+    } else if (['items', 'anyOf', 'oneOf', 'allOf'].includes(key)) {
+      result[key] = toJsonSchema(value);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function toOpenAITool(declaration: FunctionDeclaration): OpenAITool {
+  const parameters =
+    declaration.parametersJsonSchema ?? toJsonSchema(declaration.parameters);
+  return {
+    type: 'function',
+    function: {
+      name: declaration.name ?? '',
+      ...(declaration.description && { description: declaration.description }),
+      ...(parameters !== undefined && {
+        parameters: parameters as Record<string, unknown>,
+      }),
+    },
+  };
+}
+
+function toOpenAITools(tools?: ToolListUnion): OpenAITool[] | undefined {
+  const declarations = (tools ?? []).flatMap((tool) =>
+    'functionDeclarations' in tool ? (tool.functionDeclarations ?? []) : [],
+  );
+  return declarations.length > 0 ? declarations.map(toOpenAITool) : undefined;
+}
+
+/**
+ * Converts the history to OpenAI messages. Function calls without an ID get
+ * one, and function responses are matched to the open calls of the same name.
+ */
+function toOpenAIMessages(contents: Content[]): OpenAIMessage[] {
+  const messages: OpenAIMessage[] = [];
+  const openCalls = new Map<string, string[]>();
+  let generatedIds = 0;
+
+  for (const content of contents) {
+    const parts = content.parts ?? [];
+    if (content.role === 'model') {
+      const text = parts
+        .filter((part) => part.text && !part.thought)
+        .map((part) => part.text)
+        .join('');
+      const toolCalls: OpenAIToolCall[] = parts
+        .filter((part) => part.functionCall)
+        .map(({ functionCall }) => {
+          const name = functionCall!.name ?? '';
+          const id = functionCall!.id ?? `call_${generatedIds++}`;
+          openCalls.set(name, [...(openCalls.get(name) ?? []), id]);
+          return {
+            id,
+            type: 'function',
+            function: {
+              name,
+              arguments: JSON.stringify(functionCall!.args ?? {}),
+            },
+          };
+        });
+      if (text || toolCalls.length > 0) {
+        messages.push({
+          role: 'assistant',
+          content: text || null,
+          ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        });
+      }
+      continue;
+    }
+
+    const userParts: OpenAIContentPart[] = [];
+    for (const part of parts) {
+      if (part.functionResponse) {
+        const name = part.functionResponse.name ?? '';
+        const pending = openCalls.get(name) ?? [];
+        const id =
+          part.functionResponse.id ?? pending[0] ?? `call_${generatedIds++}`;
+        openCalls.set(
+          name,
+          pending.filter((pendingId) => pendingId !== id),
+        );
+        messages.push({
+          role: 'tool',
+          tool_call_id: id,
+          content: JSON.stringify(part.functionResponse.response ?? {}),
+        });
+      } else if (part.text && !part.thought) {
+        userParts.push({ type: 'text', text: part.text });
+      } else if (part.inlineData?.mimeType?.startsWith('image/')) {
+        userParts.push({
+          type: 'image_url',
+          image_url: {
+            url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`,
+          },
+        });
+      }
+    }
+    if (userParts.length > 0) {
+      messages.push({
+        role: 'user',
+        content: userParts.every((part) => part.type === 'text')
+          ? userParts.map((part) => (part as { text: string }).text).join('\n')
+          : userParts,
+      });
+    }
+  }
+  return messages;
+}
+
+function toResponseFormat(
+  request: GenerateContentParameters,
+): OpenAIResponseFormat | undefined {
+  const config = request.config;
+  const schema = config?.responseJsonSchema ?? config?.responseSchema;
+  if (schema) {
+    return {
+      type: 'json_schema',
+      json_schema: { name: 'response', schema: toJsonSchema(schema) },
+    };
+  }
+  if (config?.responseMimeType === 'application/json') {
+    return { type: 'json_object' };
+  }
+  return undefined;
+}
+
+/** Converts a Gemini request to an OpenAI chat completions request. */
+export function toOpenAIChatRequest(
+  request: GenerateContentParameters,
+  model: string,
+  stream: boolean,
+): OpenAIChatRequest {
+  const config = request.config;
+  const systemText = textOf(config?.systemInstruction);
+  const responseFormat = toResponseFormat(request);
+  return {
+    model,
+    messages: [
+      ...(systemText
+        ? [{ role: 'system', content: systemText } as OpenAIMessage]
+        : []),
+      ...toOpenAIMessages(toContents(request.contents)),
+    ],
+    ...(toOpenAITools(config?.tools) && {
+      tools: toOpenAITools(config?.tools),
+    }),
+    ...(config?.temperature !== undefined && {
+      temperature: config.temperature,
+    }),
+    ...(config?.topP !== undefined && { top_p: config.topP }),
+    ...(config?.maxOutputTokens !== undefined && {
+      max_tokens: config.maxOutputTokens,
+    }),
+    ...(config?.stopSequences && { stop: config.stopSequences }),
+    ...(config?.seed !== undefined && { seed: config.seed }),
+    ...(responseFormat && { response_format: responseFormat }),
+    ...(stream && { stream, stream_options: { include_usage: true } }),
+  };
+}
+
+export function toFinishReason(
+  reason: OpenAIFinishReason | undefined,
+): FinishReason | undefined {
+  switch (reason) {
+    case 'stop':
+    case 'tool_calls':
+    case 'function_call':
+      return FinishReason.STOP;
+    case 'length':
+      return FinishReason.MAX_TOKENS;
+    case 'content_filter':
+      return FinishReason.SAFETY;
+    default:
+      return undefined;
+  }
+}
+
+export function toUsageMetadata(
+  usage: OpenAIUsage | null | undefined,
+): GenerateContentResponseUsageMetadata | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokenCount: usage.prompt_tokens,
+    candidatesTokenCount: usage.completion_tokens,
+    totalTokenCount:
+      usage.total_tokens ??
+      (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0),
+  };
+}
+
+function parseArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args || '{}');
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Converts an assistant message, or a streamed delta of one, to parts. */
+export function toParts(message: OpenAIResponseMessage): Part[] {
+  const parts: Part[] = [];
+  const reasoning = message.reasoning_content ?? message.reasoning;
+  if (reasoning) {
+    parts.push({ text: reasoning, thought: true });
+  }
+  if (message.content) {
+    parts.push({ text: message.content });
+  }
+  for (const toolCall of message.tool_calls ?? []) {
+    parts.push({
+      functionCall: {
+        id: toolCall.id,
+        name: toolCall.function.name,
+        args: parseArguments(toolCall.function.arguments),
+      },
+    });
+  }
+  return parts;
+}
+
+/** Builds a Gemini response holding a single candidate. */
+export function toGenerateContentResponse(
+  parts: Part[],
+  finishReason: FinishReason | undefined,
+  usage: OpenAIUsage | null | undefined,
+  model?: string,
+  responseId?: string,
+): GenerateContentResponse {
+  const out = new GenerateContentResponse();
+  out.candidates = [
+    {
+      index: 0,
+      content: { role: 'model', parts },
+      ...(finishReason && { finishReason }),
+    },
+  ];
+  out.usageMetadata = toUsageMetadata(usage);
+  out.modelVersion = model;
+  out.responseId = responseId;
+  return out;
+}
+
+/** Converts an OpenAI chat completion to a Gemini response. */
+export function fromOpenAIChatResponse(
+  response: OpenAIChatResponse,
+): GenerateContentResponse {
+  const choice = response.choices[0];
+  return toGenerateContentResponse(
+    choice ? toParts(choice.message) : [],
+    toFinishReason(choice?.finish_reason),
+    response.usage,
+    response.model,
+    response.id,
+  );
+}
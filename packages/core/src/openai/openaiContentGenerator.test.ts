@@ -0,0 +1,250 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { GenerateContentResponse } from '@google/genai';
+import { FinishReason } from '@google/genai';
+import {
+  OpenAICompatibleApiError,
+  OpenAICompatibleContentGenerator,
+} from './openaiContentGenerator.js';
+import { getErrorStatus } from '../utils/retry.js';
+
+describe('OpenAICompatibleContentGenerator', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: Array<{
+    url: string;
+    authorization?: string;
+    body: Record<string, unknown>;
+  }>;
+  let reply: (res: http.ServerResponse) => void;
+  let generator: OpenAICompatibleContentGenerator;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({
+          url: req.url ?? '',
+          authorization: req.headers.authorization,
+          body: JSON.parse(body),
+        });
+        reply(res);
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    generator = new OpenAICompatibleContentGenerator({
+      baseUrl,
+      model: 'qwen3:8b',
+      apiKey: 'secret',
+    });
+  });
+
+  function sse(res: http.ServerResponse, chunks: unknown[]) {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    for (const chunk of chunks) {
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    }
+    res.end('data: [DONE]\n\n');
+  }
+
+  it('should post chat completions for the configured model', async () => {
+    reply = (res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          id: 'chatcmpl-1',
+          model: 'qwen3:8b',
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: 'Hi there' },
+              finish_reason: 'stop',
+            },
+          ],
+        }),
+      );
+    };
+
+    const response = await generator.generateContent(
+      { model: 'gemini-2.5-pro', contents: 'Hello' },
+      'prompt-id',
+    );
+
+    expect(response.text).toBe('Hi there');
+    expect(requests).toEqual([
+      {
+        url: '/v1/chat/completions',
+        authorization: 'Bearer secret',
+        body: {
+          model: 'qwen3:8b',
+          messages: [{ role: 'user', content: 'Hello' }],
+        },
+      },
+    ]);
+  });
+
+  it('should stream text and thoughts, and end with the tool calls', async () => {
+    reply = (res) =>
+      sse(res, [
+        { choices: [{ index: 0, delta: { reasoning: 'Hmm.' } }] },
+        { choices: [{ index: 0, delta: { content: 'Reading ' } }] },
+        { choices: [{ index: 0, delta: { content: 'it.' } }] },
+        {
+          choices: [
+            {
+              index: 0,
+              delta: {
+                tool_calls: [
+                  {
+                    index: 0,
+                    id: 'call_9',
+                    function: { name: 'read_file', arguments: '{"path":' },
+                  },
+                ],
+              },
+            },
+          ],
+        },
+        {
+          choices: [
+            {
+              index: 0,
+              delta: {
+                tool_calls: [{ index: 0, function: { arguments: '"a.ts"}' } }],
+              },
+              finish_reason: 'tool_calls',
+            },
+          ],
+        },
+        {
+          choices: [],
+          usage: { prompt_tokens: 7, completion_tokens: 3, total_tokens: 10 },
+        },
+      ]);
+
+    const responses: GenerateContentResponse[] = [];
+    for await (const response of await generator.generateContentStream(
+      { model: 'qwen2.5-coder', contents: 'Read a.ts' },
+      'prompt-id',
+    )) {
+      responses.push(response);
+    }
+
+    expect(requests[0].body).toMatchObject({
+      model: 'qwen2.5-coder',
+      stream: true,
+    });
+    expect(responses.map((r) => r.candidates?.[0]?.content?.parts)).toEqual([
+      [{ text: 'Hmm.', thought: true }],
+      [{ text: 'Reading ' }],
+      [{ text: 'it.' }],
+      [
+        {
+          functionCall: {
+            id: 'call_9',
+            name: 'read_file',
+            args: { path: 'a.ts' },
+          },
+        },
+      ],
+    ]);
+    const last = responses[responses.length - 1];
+    expect(last.candidates?.[0]?.finishReason).toBe(FinishReason.STOP);
+    expect(last.usageMetadata?.totalTokenCount).toBe(10);
+  });
+
+  it('should throw errors that carry the HTTP status', async () => {
+    reply = (res) => res.writeHead(404).end('model "qwen3:8b" not found');
+
+    const error = await generator
+      .generateContent({ model: 'gemini-2.5-pro', contents: 'Hi' }, 'id')
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OpenAICompatibleApiError);
+    expect(getErrorStatus(error)).toBe(404);
+    expect((error as Error).message).toContain('model "qwen3:8b" not found');
+  });
+
+  it('should throw the errors that a stream sends as chunks', async () => {
+    reply = (res) =>
+      sse(res, [
+        { choices: [{ index: 0, delta: { content: 'Reading ' } }] },
+        { error: { message: 'model overloaded', code: 503 } },
+      ]);
+
+    const stream = await generator.generateContentStream(
+      { model: 'gemini-2.5-pro', contents: 'Hi' },
+      'id',
+    );
+    const error = await (async () => {
+      for await (const _response of stream) {
+        // Drain the stream until it fails.
+      }
+    })().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OpenAICompatibleApiError);
+    expect(getErrorStatus(error)).toBe(503);
+    expect((error as Error).message).toContain('model overloaded');
+  });
+
+  it('should throw a descriptive error for chunks that are not JSON', async () => {
+    reply = (res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.end('data: <html>Bad Gateway</html>\n\n');
+    };
+
+    const stream = await generator.generateContentStream(
+      { model: 'gemini-2.5-pro', contents: 'Hi' },
+      'id',
+    );
+    const error = await stream.next().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OpenAICompatibleApiError);
+    expect((error as Error).message).toBe(
+      `Request to ${baseUrl.replace(/\/+$/, '')} returned invalid JSON with status 200: <html>Bad Gateway</html>`,
+    );
+  });
+
+  it('should throw errors sent with status 200 by non-streaming requests', async () => {
+    reply = (res) =>
+      res
+        .writeHead(200, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify({ error: 'context length exceeded' }));
+
+    const error = await generator
+      .generateContent({ model: 'gemini-2.5-pro', contents: 'Hi' }, 'id')
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OpenAICompatibleApiError);
+    expect((error as Error).message).toContain('context length exceeded');
+  });
+
+  it('should estimate token counts locally', async () => {
+    const { totalTokens } = await generator.countTokens({
+      model: 'gemini-2.5-pro',
+      contents: 'x'.repeat(400),
+    });
+
+    expect(totalTokens).toBeGreaterThanOrEqual(100);
+    expect(requests).toEqual([]);
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  FinishReason,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  Part,
+} from '@google/genai';
+import * as readline from 'node:readline';
+import { Readable } from 'node:stream';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import type { ContentGenerator } from '../core/contentGenerator.js';
+import {
+  fromOpenAIChatResponse,
+  toFinishReason,
+  toGenerateContentResponse,
+  toOpenAIChatRequest,
+  toParts,
+} from './converter.js';
+import type {
+  OpenAIChatChunk,
+  OpenAIChatResponse,
+  OpenAIErrorBody,
+  OpenAIUsage,
+} from './types.js';
+
+export interface OpenAICompatibleOptions {
+  /** The base URL of the API, e.g. `http://localhost:11434/v1`. */
+  baseUrl: string;
+  /** The model that serves every request made for a Gemini model. */
+  model: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * An error response of an OpenAI-compatible server. `status` is read by the
+ * retry logic like the status of a Gemini API error.
+ */
+export class OpenAICompatibleApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'OpenAICompatibleApiError';
+  }
+}
+
+// Servers differ in how they count tokens, so estimate like the CLI does for
+// text it cannot send to the API.
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * A content generator for servers implementing the OpenAI chat completions
+ * API, such as Ollama, vLLM and llama.cpp.
+ */
+export class OpenAICompatibleContentGenerator implements ContentGenerator {
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: OpenAICompatibleOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    const res = await this.post(request, false);
+    return fromOpenAIChatResponse(
+      parseBody<OpenAIChatResponse>(await res.text(), res, this.baseUrl),
+    );
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const res = await this.post(request, true);
+    return streamResponses(res, this.baseUrl);
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    const { messages } = toOpenAIChatRequest(
+      { model: request.model, contents: request.contents },
+      this.options.model,
+      false,
+    );
+    const chars = JSON.stringify(messages).length;
+    return { totalTokens: Math.ceil(chars / CHARS_PER_TOKEN) };
+  }
+
+  async embedContent(
+    _request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    throw new Error(
+      'Embeddings are not supported with an OpenAI-compatible server.',
+    );
+  }
+
+  private resolveModel(model: string): string {
+    return !model || model.startsWith('gemini-') ? this.options.model : model;
+  }
+
+  private async post(
+    request: GenerateContentParameters,
+    stream: boolean,
+  ): Promise<Response> {
+    const body = toOpenAIChatRequest(
+      request,
+      this.resolveModel(request.model),
+      stream,
+    );
+    const res = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey && {
+          Authorization: `Bearer ${this.options.apiKey}`,
+        }),
+        ...this.options.headers,
+      },
+      body: JSON.stringify(body),
+      signal: request.config?.abortSignal,
+    });
+    if (!res.ok) {
+      const detail = (await res.text()).trim();
+      throw new OpenAICompatibleApiError(
+        `Request to ${this.baseUrl} failed with status ${res.status}${
+          detail ? `: ${detail}` : ''
+        }`,
+        res.status,
+      );
+    }
+    return res;
+  }
+}
+
+/**
+ * Parses a response body or a stream chunk, and throws the error the server
+ * sent in it instead, if any.
+ */
+function parseBody<T>(data: string, res: Response, baseUrl: string): T {
+  let body: T & Partial<OpenAIErrorBody>;
+  try {
+    body = JSON.parse(data);
+  } catch {
+    throw new OpenAICompatibleApiError(
+      `Request to ${baseUrl} returned invalid JSON with status ${res.status}: ${data}`,
+      res.status,
+    );
+  }
+  const error = body?.error;
+  if (error) {
+    const code = typeof error === 'object' ? error.code : undefined;
+    // Errors in a stream come after the status, so prefer the status they carry.
+    const status = typeof code === 'number' && code >= 400 ? code : res.status;
+    throw new OpenAICompatibleApiError(
+      `Request to ${baseUrl} failed with status ${status}: ${data}`,
+      status,
+    );
+  }
+  return body;
+}
+
+interface PartialToolCall {
+  id?: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * Yields a response per text or reasoning delta. Tool call deltas are put
+ * together and returned in the last response, which also carries the finish
+ * reason and the usage, as the chat expects.
+ */
+async function* streamResponses(
+  res: Response,
+  baseUrl: string,
+): AsyncGenerator<GenerateContentResponse> {
+  if (!res.body) {
+    throw new Error('The response has no body.');
+  }
+  const rl = readline.createInterface({
+    input: Readable.fromWeb(res.body as WebReadableStream),
+    crlfDelay: Infinity,
+  });
+
+  const toolCalls = new Map<number, PartialToolCall>();
+  let finishReason: FinishReason | undefined;
+  let usage: OpenAIUsage | undefined;
+  let model: string | undefined;
+  let responseId: string | undefined;
+
+  for await (const line of rl) {
+    if (!line.startsWith('data:')) {
+      continue; // blank separators, comments and keep-alives
+    }
+    const data = line.slice(5).trim();
+    if (data === '[DONE]') {
+      break;
+    }
+    const chunk = parseBody<OpenAIChatChunk>(data, res, baseUrl);
+    model = chunk.model ?? model;
+    responseId = chunk.id ?? responseId;
+    usage = chunk.usage ?? usage;
+
+    const choice = chunk.choices?.[0];
+    if (!choice) {
+      continue; // the usage-only chunk
+    }
+    finishReason = toFinishReason(choice.finish_reason) ?? finishReason;
+    for (const delta of choice.delta.tool_calls ?? []) {
+      const call = toolCalls.get(delta.index) ?? { name: '', arguments: '' };
+      call.id = delta.id ?? call.id;
+      call.name += delta.function?.name ?? '';
+      call.arguments += delta.function?.arguments ?? '';
+      toolCalls.set(delta.index, call);
+    }
+    const parts = toParts({ ...choice.delta, tool_calls: undefined });
+    if (parts.length > 0) {
+      yield toGenerateContentResponse(
+        parts,
+        undefined,
+        undefined,
+        model,
+        responseId,
+      );
+    }
+  }
+
+  const callParts: Part[] = toParts({
+    tool_calls: [...toolCalls.values()].map((call, index) => ({
+      id: call.id ?? `call_${index}`,
+      type: 'function',
+      function: { name: call.name, arguments: call.arguments },
+    })),
+  });
+  yield toGenerateContentResponse(
+    callParts,
+    finishReason,
+    usage,
+    model,
+    responseId,
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// The subset of the OpenAI chat completions API that OpenAI-compatible
+// servers such as Ollama, vLLM and llama.cpp implement.
+
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    /** The arguments, as a JSON string. */
+    arguments: string;
+  };
+}
+
+export type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export type OpenAIMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | OpenAIContentPart[] }
+  | {
+      role: 'assistant';
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export interface OpenAITool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
+}
+
+export type OpenAIResponseFormat =
+  | { type: 'json_object' }
+  | {
+      type: 'json_schema';
+      json_schema: { name: string; schema: unknown; strict?: boolean };
+    };
+
+export interface OpenAIChatRequest {
+  model: string;
+  messages: OpenAIMessage[];
+  tools?: OpenAITool[];
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string[];
+  seed?: number;
+  response_format?: OpenAIResponseFormat;
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
+}
+
+export interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+export type OpenAIFinishReason =
+  | 'stop'
+  | 'length'
+  | 'tool_calls'
+  | 'content_filter'
+  | 'function_call'
+  | null;
+
+export interface OpenAIResponseMessage {
+  role?: 'assistant';
+  content?: string | null;
+  /** Reasoning text, as returned by vLLM and DeepSeek-style servers. */
+  reasoning_content?: string | null;
+  /** Reasoning text, as returned by Ollama. */
+  reasoning?: string | null;
+  tool_calls?: OpenAIToolCall[];
+}
+
+export interface OpenAIChatResponse {
+  id?: string;
+  model?: string;
+  choices: Array<{
+    index: number;
+    message: OpenAIResponseMessage;
+    finish_reason: OpenAIFinishReason;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+export interface OpenAIToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: { name?: string; arguments?: string };
+}
+
+export interface OpenAIChatChunk {
+  id?: string;
+  model?: string;
+  choices: Array<{
+    index: number;
+    delta: Omit<OpenAIResponseMessage, 'tool_calls'> & {
+      tool_calls?: OpenAIToolCallDelta[];
+    };
+    finish_reason: OpenAIFinishReason;
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+/**
+ * The body some servers send instead of a response or a stream chunk when a
+ * request fails, even after answering with status 200.
+ */
+export interface OpenAIErrorBody {
+  error:
+    | string
+    | { message?: string; type?: string; code?: string | number | null };
+}
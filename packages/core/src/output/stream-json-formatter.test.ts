@@ -283,6 +283,12 @@ describe('StreamJsonFormatter', () => {
           totalLinesAdded: 0,
           totalLinesRemoved: 0,
         },
+        routing: {
+          totalDecisions: 0,
+          totalFailures: 0,
+          totalLatencyMs: 0,
+          bySource: {},
+        },
       };
 
       const result = formatter.convertToStreamStats(metrics, 1200);
@@ -347,6 +353,12 @@ describe('StreamJsonFormatter', () => {
           totalLinesAdded: 0,
           totalLinesRemoved: 0,
         },
+        routing: {
+          totalDecisions: 0,
+          totalFailures: 0,
+          totalLatencyMs: 0,
+          bySource: {},
+        },
       };
 
       const result = formatter.convertToStreamStats(metrics, 3000);
@@ -380,6 +392,12 @@ describe('StreamJsonFormatter', () => {
           totalLinesAdded: 0,
           totalLinesRemoved: 0,
         },
+        routing: {
+          totalDecisions: 0,
+          totalFailures: 0,
+          totalLatencyMs: 0,
+          bySource: {},
+        },
       };
 
       const result = formatter.convertToStreamStats(metrics, 100);
@@ -438,6 +456,12 @@ describe('StreamJsonFormatter', () => {
           totalLinesAdded: 0,
           totalLinesRemoved: 0,
         },
+        routing: {
+          totalDecisions: 0,
+          totalFailures: 0,
+          totalLatencyMs: 0,
+          bySource: {},
+        },
       };
 
       const result = formatter.convertToStreamStats(metrics, 1000);
@@ -465,6 +489,12 @@ describe('StreamJsonFormatter', () => {
           totalLinesAdded: 0,
           totalLinesRemoved: 0,
         },
+        routing: {
+          totalDecisions: 0,
+          totalFailures: 0,
+          totalLatencyMs: 0,
+          bySource: {},
+        },
       };
 
       const result = formatter.convertToStreamStats(metrics, 5000);
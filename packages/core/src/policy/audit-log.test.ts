@@ -0,0 +1,132 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  PolicyAuditLog,
+  readPolicyAuditLog,
+  redactArgs,
+  REDACT_ALL_ARGS,
+  type PolicyAuditEntry,
+} from './audit-log.js';
+import { PolicyDecision } from './types.js';
+import { ToolConfirmationOutcome } from '../tools/tools.js';
+
+function entry(overrides: Partial<PolicyAuditEntry> = {}): PolicyAuditEntry {
+  return {
+    timestamp: '2025-06-01T10:00:00.000Z',
+    sessionId: 'session',
+    callId: 'call-1',
+    toolName: 'run_shell_command',
+    args: { command: 'git status', description: 'Check status' },
+    decision: PolicyDecision.ALLOW,
+    rule: { source: 'settings: tools.allowed', priority: 100 },
+    status: 'success',
+    ...overrides,
+  };
+}
+
+describe('redactArgs', () => {
+  it('should redact the named arguments', () => {
+    expect(
+      redactArgs({ command: 'curl -H "token: x"', dir: 'src' }, ['command']),
+    ).toEqual({ command: '[REDACTED]', dir: 'src' });
+  });
+
+  it('should redact every argument with *', () => {
+    expect(redactArgs({ a: 1, b: [2] }, [REDACT_ALL_ARGS])).toEqual({
+      a: '[REDACTED]',
+      b: '[REDACTED]',
+    });
+  });
+});
+
+describe('PolicyAuditLog', () => {
+  let tempDir: string;
+  let logFile: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-audit-test-'));
+    logFile = path.join(tempDir, 'project', 'policy-audit.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should append redacted entries and read them back', () => {
+    const log = new PolicyAuditLog(logFile, ['description']);
+
+    log.append(entry());
+    log.append(
+      entry({
+        callId: 'call-2',
+        decision: PolicyDecision.ASK_USER,
+        confirmation: ToolConfirmationOutcome.Cancel,
+        status: 'cancelled',
+      }),
+    );
+
+    const entries = readPolicyAuditLog(logFile);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toEqual(
+      entry({ args: { command: 'git status', description: '[REDACTED]' } }),
+    );
+    expect(entries[1].confirmation).toBe(ToolConfirmationOutcome.Cancel);
+  });
+
+  it('should filter entries by tool, decision and date', () => {
+    const log = new PolicyAuditLog(logFile);
+    log.append(entry({ callId: 'a' }));
+    log.append(
+      entry({
+        callId: 'b',
+        timestamp: '2025-06-02T10:00:00.000Z',
+        decision: PolicyDecision.DENY,
+      }),
+    );
+    log.append(
+      entry({
+        callId: 'c',
+        timestamp: '2025-06-03T10:00:00.000Z',
+        toolName: 'write_file',
+      }),
+    );
+
+    const callIds = (entries: PolicyAuditEntry[]) =>
+      entries.map(({ callId }) => callId);
+    expect(
+      callIds(readPolicyAuditLog(logFile, { toolName: 'run_shell_command' })),
+    ).toEqual(['a', 'b']);
+    expect(
+      callIds(readPolicyAuditLog(logFile, { decision: PolicyDecision.DENY })),
+    ).toEqual(['b']);
+    expect(
+      callIds(
+        readPolicyAuditLog(logFile, {
+          since: new Date('2025-06-02T00:00:00.000Z'),
+          until: new Date('2025-06-03T00:00:00.000Z'),
+        }),
+      ),
+    ).toEqual(['b']);
+  });
+
+  it('should return no entries when there is no log', () => {
+    expect(readPolicyAuditLog(logFile)).toEqual([]);
+  });
+
+  it('should report the line of invalid entries', () => {
+    fs.mkdirSync(path.dirname(logFile), { recursive: true });
+    fs.writeFileSync(logFile, `${JSON.stringify(entry())}\n{oops\n`);
+
+    expect(() => readPolicyAuditLog(logFile)).toThrow(
+      `Invalid policy audit log ${logFile} at line 2:`,
+    );
+  });
+});
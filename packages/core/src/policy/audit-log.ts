@@ -0,0 +1,179 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import type { ToolConfirmationOutcome } from '../tools/tools.js';
+import type { PolicyCheckResult, PolicyDecision } from './types.js';
+
+/** Replaces the values of redacted arguments in the audit log. */
+export const REDACTED_VALUE = '[REDACTED]';
+
+/** Redacts the values of every argument. */
+export const REDACT_ALL_ARGS = '*';
+
+/**
+ * The rule that decided a call, as stored in the audit log.
+ */
+export interface PolicyAuditRule {
+  /** Where the rule was defined, e.g. a setting or a policy file. */
+  source?: string;
+  priority: number;
+  description?: string;
+}
+
+/**
+ * How a call was approved to run:
+ * - `policy`: a policy rule or the default decision allowed it.
+ * - `tool`: the tool did not ask for confirmation, e.g. for a shell command
+ *   already allowed in this session or an edit in auto-edit mode.
+ * - `approval_mode`: YOLO mode or the allowed tools setting approved it.
+ * - `user`: the user confirmed it.
+ */
+export type PolicyAuditApproval = 'policy' | 'tool' | 'approval_mode' | 'user';
+
+/**
+ * One tool call, as stored on a line of the audit log.
+ */
+export interface PolicyAuditEntry {
+  /** When the call completed, as an ISO 8601 string. */
+  timestamp: string;
+  sessionId: string;
+  callId: string;
+  toolName: string;
+  agentName?: string;
+  /** The arguments of the call, with the configured arguments redacted. */
+  args: Record<string, unknown>;
+  decision: PolicyDecision;
+  /** The rule that decided the call, or undefined for the default decision. */
+  rule?: PolicyAuditRule;
+  /** How the call was approved, or undefined if it never was. */
+  approvedBy?: PolicyAuditApproval;
+  /** The answer of the user, if they were asked to confirm the call. */
+  confirmation?: ToolConfirmationOutcome;
+  status: 'success' | 'error' | 'cancelled';
+}
+
+export interface PolicyAuditFilter {
+  toolName?: string;
+  decision?: PolicyDecision;
+  /** Only entries at or after this time. */
+  since?: Date;
+  /** Only entries before this time. */
+  until?: Date;
+}
+
+/**
+ * Returns a copy of the arguments with the values of the named arguments
+ * replaced, or of all arguments if the names include {@link REDACT_ALL_ARGS}.
+ */
+export function redactArgs(
+  args: Record<string, unknown>,
+  redactedNames: readonly string[],
+): Record<string, unknown> {
+  const redactAll = redactedNames.includes(REDACT_ALL_ARGS);
+  return Object.fromEntries(
+    Object.entries(args).map(([name, value]) => [
+      name,
+      redactAll || redactedNames.includes(name) ? REDACTED_VALUE : value,
+    ]),
+  );
+}
+
+export function toPolicyAuditRule(
+  result: PolicyCheckResult,
+): PolicyAuditRule | undefined {
+  if (!result.rule) {
+    return undefined;
+  }
+  const { source, priority, description } = result.rule;
+  return {
+    ...(source && { source }),
+    priority: priority ?? 0,
+    ...(description && { description }),
+  };
+}
+
+/**
+ * An append-only JSONL log of the policy decisions on tool calls, one
+ * {@link PolicyAuditEntry} per line.
+ */
+export class PolicyAuditLog {
+  constructor(
+    readonly filePath: string,
+    private readonly redactedArgs: readonly string[] = [],
+  ) {}
+
+  append(entry: PolicyAuditEntry): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(
+      this.filePath,
+      JSON.stringify({
+        ...entry,
+        args: redactArgs(entry.args, this.redactedArgs),
+      }) + '\n',
+    );
+  }
+}
+
+function matchesFilter(
+  entry: PolicyAuditEntry,
+  filter: PolicyAuditFilter,
+): boolean {
+  if (filter.toolName && entry.toolName !== filter.toolName) {
+    return false;
+  }
+  if (filter.decision && entry.decision !== filter.decision) {
+    return false;
+  }
+  const time = new Date(entry.timestamp).getTime();
+  if (filter.since && time < filter.since.getTime()) {
+    return false;
+  }
+  if (filter.until && time >= filter.until.getTime()) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Reads the entries of an audit log that match the filter, oldest first.
+ * Returns an empty list if there is no log yet.
+ */
+export function readPolicyAuditLog(
+  filePath: string,
+  filter: PolicyAuditFilter = {},
+): PolicyAuditEntry[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  const entries: PolicyAuditEntry[] = [];
+  content.split('\n').forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    let entry: PolicyAuditEntry;
+    try {
+      entry = JSON.parse(line) as PolicyAuditEntry;
+    } catch (error) {
+      throw new Error(
+        `Invalid policy audit log ${filePath} at line ${index + 1}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+    if (matchesFilter(entry, filter)) {
+      entries.push(entry);
+    }
+  });
+  return entries;
+}
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { conditionsMatch } from './conditions.js';
+import { PolicyDecision } from './types.js';
+import { initializeShellParsers } from '../utils/shell-utils.js';
+
+const ROOT = '/work/project';
+
+beforeAll(async () => {
+  await initializeShellParsers();
+});
+
+describe('conditionsMatch', () => {
+  describe('pathGlobs', () => {
+    const conditions = { pathGlobs: ['src/**'] };
+
+    it('should resolve relative paths and globs against the root', () => {
+      expect(
+        conditionsMatch(
+          conditions,
+          { name: 'write_file', args: { file_path: 'src/a/b.ts' } },
+          PolicyDecision.ALLOW,
+          ROOT,
+        ),
+      ).toBe(true);
+      expect(
+        conditionsMatch(
+          conditions,
+          { name: 'write_file', args: { file_path: '/work/project/.env' } },
+          PolicyDecision.ALLOW,
+          ROOT,
+        ),
+      ).toBe(false);
+    });
+
+    it('should require every path to match for allow rules only', () => {
+      const call = {
+        name: 'read_many_files',
+        args: { paths: ['src/a.ts', '../secrets.txt'] },
+      };
+      expect(
+        conditionsMatch(conditions, call, PolicyDecision.ALLOW, ROOT),
+      ).toBe(false);
+      expect(conditionsMatch(conditions, call, PolicyDecision.DENY, ROOT)).toBe(
+        true,
+      );
+    });
+
+    it('should not match calls without paths', () => {
+      expect(
+        conditionsMatch(
+          conditions,
+          { name: 'run_shell_command', args: { command: 'ls' } },
+          PolicyDecision.DENY,
+          ROOT,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('commandPrefixes', () => {
+    const conditions = { commandPrefixes: ['git status', 'npm test'] };
+
+    it('should check each command of a chain', () => {
+      expect(
+        conditionsMatch(
+          conditions,
+          {
+            name: 'run_shell_command',
+            args: { command: 'git status && npm test -- --run' },
+          },
+          PolicyDecision.ALLOW,
+          ROOT,
+        ),
+      ).toBe(true);
+      expect(
+        conditionsMatch(
+          conditions,
+          {
+            name: 'run_shell_command',
+            args: { command: 'git status; rm -rf /' },
+          },
+          PolicyDecision.ALLOW,
+          ROOT,
+        ),
+      ).toBe(false);
+    });
+
+    it('should match whole words only', () => {
+      expect(
+        conditionsMatch(
+          conditions,
+          { name: 'run_shell_command', args: { command: 'git statusx' } },
+          PolicyDecision.ALLOW,
+          ROOT,
+        ),
+      ).toBe(false);
+    });
+
+    it('should match any command of a chain for deny rules', () => {
+      expect(
+        conditionsMatch(
+          { commandPrefixes: ['rm'] },
+          {
+            name: 'run_shell_command',
+            args: { command: 'bash -c "ls && rm -rf build"' },
+          },
+          PolicyDecision.DENY,
+          ROOT,
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe('commandRoots', () => {
+    it('should match the programs run by the command', () => {
+      const call = {
+        name: 'run_shell_command',
+        args: { command: 'cd src && /usr/bin/git log | head' },
+      };
+      expect(
+        conditionsMatch(
+          { commandRoots: ['cd', 'git', 'head'] },
+          call,
+          PolicyDecision.ALLOW,
+          ROOT,
+        ),
+      ).toBe(true);
+      expect(
+        conditionsMatch(
+          { commandRoots: ['git'] },
+          call,
+          PolicyDecision.ALLOW,
+          ROOT,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('urlHosts', () => {
+    it('should match the hosts of the URLs in the arguments', () => {
+      const call = {
+        name: 'web_fetch',
+        args: { prompt: 'Summarize https://docs.example.com/guide please' },
+      };
+      expect(
+        conditionsMatch(
+          { urlHosts: ['*.example.com'] },
+          call,
+          PolicyDecision.ALLOW,
+          ROOT,
+        ),
+      ).toBe(true);
+      expect(
+        conditionsMatch(
+          { urlHosts: ['example.com'] },
+          call,
+          PolicyDecision.ALLOW,
+          ROOT,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('mcpServers', () => {
+    it('should match the server of an MCP tool', () => {
+      expect(
+        conditionsMatch(
+          { mcpServers: ['github'] },
+          { name: 'github__create_issue' },
+          PolicyDecision.ALLOW,
+          ROOT,
+        ),
+      ).toBe(true);
+      expect(
+        conditionsMatch(
+          { mcpServers: ['github'] },
+          { name: 'read_file' },
+          PolicyDecision.ALLOW,
+          ROOT,
+        ),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import picomatch from 'picomatch';
+import { type FunctionCall } from '@google/genai';
+import {
+  getCommandRoots,
+  splitCommands,
+  stripShellWrapper,
+} from '../utils/shell-utils.js';
+import { PolicyDecision, type PolicyConditions } from './types.js';
+
+const PATH_ARG_NAMES = ['file_path', 'absolute_path', 'path', 'dir_path'];
+
+function getPaths(args: Record<string, unknown>, root: string): string[] {
+  const paths = PATH_ARG_NAMES.map((name) => args[name]).filter(
+    (value): value is string => typeof value === 'string',
+  );
+  if (Array.isArray(args['paths'])) {
+    paths.push(
+      ...args['paths'].filter(
+        (value): value is string => typeof value === 'string',
+      ),
+    );
+  }
+  return paths.map((p) => path.resolve(root, p));
+}
+
+/**
+ * Splits the command of a shell call into the commands it runs. If the
+ * command cannot be parsed, deny and ask rules still see it as a whole, but
+ * allow rules see nothing and therefore cannot match.
+ */
+function getCommands(
+  args: Record<string, unknown>,
+  decision: PolicyDecision,
+): string[] {
+  const command = args['command'];
+  if (typeof command !== 'string' || !command.trim()) {
+    return [];
+  }
+  const stripped = stripShellWrapper(command);
+  let commands: string[] = [];
+  try {
+    commands = splitCommands(stripped);
+  } catch {
+    // The shell parser failed to load.
+  }
+  if (commands.length === 0 && decision !== PolicyDecision.ALLOW) {
+    return [stripped];
+  }
+  return commands.map((c) => c.trim());
+}
+
+function getCommandNames(
+  args: Record<string, unknown>,
+  decision: PolicyDecision,
+): string[] {
+  const command = args['command'];
+  if (typeof command !== 'string' || !command.trim()) {
+    return [];
+  }
+  const stripped = stripShellWrapper(command);
+  let roots: string[] = [];
+  try {
+    roots = getCommandRoots(stripped);
+  } catch {
+    // The shell parser failed to load.
+  }
+  if (roots.length === 0 && decision !== PolicyDecision.ALLOW) {
+    roots = [stripped.split(/\s+/)[0]];
+  }
+  return roots.map((root) => path.basename(root));
+}
+
+function getUrlHosts(args: Record<string, unknown>): string[] {
+  const hosts: string[] = [];
+  for (const value of Object.values(args)) {
+    if (typeof value !== 'string') continue;
+    for (const token of value.split(/\s+/)) {
+      if (!token.includes('://')) continue;
+      try {
+        hosts.push(new URL(token).hostname.toLowerCase());
+      } catch {
+        // Not a URL.
+      }
+    }
+  }
+  return hosts;
+}
+
+function hostMatches(host: string, pattern: string): boolean {
+  const normalized = pattern.toLowerCase();
+  if (normalized.startsWith('*.')) {
+    const domain = normalized.slice(2);
+    return host === domain || host.endsWith(`.${domain}`);
+  }
+  return host === normalized;
+}
+
+function commandHasPrefix(command: string, prefix: string): boolean {
+  return command === prefix || command.startsWith(`${prefix} `);
+}
+
+/**
+ * Checks the values found in a call against a condition: all of them must
+ * match for allow rules, any of them for deny and ask rules.
+ */
+function valuesMatch(
+  values: string[],
+  matches: (value: string) => boolean,
+  decision: PolicyDecision,
+): boolean {
+  if (values.length === 0) {
+    return false;
+  }
+  return decision === PolicyDecision.ALLOW
+    ? values.every(matches)
+    : values.some(matches);
+}
+
+/**
+ * Whether a call satisfies every condition of a rule.
+ */
+export function conditionsMatch(
+  conditions: PolicyConditions,
+  toolCall: FunctionCall,
+  decision: PolicyDecision,
+  rootDirectory: string,
+): boolean {
+  const args = toolCall.args ?? {};
+
+  if (conditions.mcpServers) {
+    const [serverName, toolName] = (toolCall.name ?? '').split('__');
+    if (!toolName || !conditions.mcpServers.includes(serverName)) {
+      return false;
+    }
+  }
+
+  if (conditions.pathGlobs) {
+    const matchers = conditions.pathGlobs.map((glob) =>
+      picomatch(path.resolve(rootDirectory, glob), { dot: true }),
+    );
+    if (
+      !valuesMatch(
+        getPaths(args, rootDirectory),
+        (p) => matchers.some((isMatch) => isMatch(p)),
+        decision,
+      )
+    ) {
+      return false;
+    }
+  }
+
+  if (conditions.commandPrefixes) {
+    const prefixes = conditions.commandPrefixes;
+    if (
+      !valuesMatch(
+        getCommands(args, decision),
+        (command) =>
+          prefixes.some((prefix) => commandHasPrefix(command, prefix)),
+        decision,
+      )
+    ) {
+      return false;
+    }
+  }
+
+  if (conditions.commandRoots) {
+    const roots = conditions.commandRoots;
+    if (
+      !valuesMatch(
+        getCommandNames(args, decision),
+        (name) => roots.includes(name),
+        decision,
+      )
+    ) {
+      return false;
+    }
+  }
+
+  if (conditions.urlHosts) {
+    const patterns = conditions.urlHosts;
+    if (
+      !valuesMatch(
+        getUrlHosts(args),
+        (host) => patterns.some((pattern) => hostMatches(host, pattern)),
+        decision,
+      )
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
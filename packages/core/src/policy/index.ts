@@ -4,5 +4,6 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+export * from './audit-log.js';
 export * from './policy-engine.js';
 export * from './types.js';
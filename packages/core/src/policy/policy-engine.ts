@@ -4,19 +4,46 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { randomUUID } from 'node:crypto';
 import { type FunctionCall } from '@google/genai';
 import {
   PolicyDecision,
+  type PolicyCheckRecord,
+  type PolicyCheckResult,
   type PolicyEngineConfig,
+  type PolicyGrant,
+  type PolicyGrantLimits,
+  type PolicyGrantScope,
   type PolicyRule,
 } from './types.js';
 import { stableStringify } from './stable-stringify.js';
+import { conditionsMatch } from './conditions.js';
+
+/** How many checks {@link PolicyEngine.getRecentChecks} remembers. */
+const MAX_RECENT_CHECKS = 50;
+
+function isGrantActive(grant: PolicyGrant | undefined, now: number): boolean {
+  if (!grant) {
+    return true;
+  }
+  if (grant.expiresAt !== undefined && grant.expiresAt <= now) {
+    return false;
+  }
+  return grant.usesLeft === undefined || grant.usesLeft > 0;
+}
 
 function ruleMatches(
   rule: PolicyRule,
   toolCall: FunctionCall,
   stringifiedArgs: string | undefined,
+  agentName: string | undefined,
+  rootDirectory: string,
 ): boolean {
+  // Agent-scoped rules only apply to calls made by that agent
+  if (rule.agentName && rule.agentName !== agentName) {
+    return false;
+  }
+
   // Check tool name if specified
   if (rule.toolName) {
     // Support wildcard patterns: "serverName__*" matches "serverName__anyTool"
@@ -45,6 +72,13 @@ function ruleMatches(
     }
   }
 
+  if (
+    rule.conditions &&
+    !conditionsMatch(rule.conditions, toolCall, rule.decision, rootDirectory)
+  ) {
+    return false;
+  }
+
   return true;
 }
 
@@ -52,6 +86,9 @@ export class PolicyEngine {
   private rules: PolicyRule[];
   private readonly defaultDecision: PolicyDecision;
   private readonly nonInteractive: boolean;
+  private readonly rootDirectory: string;
+  private recentChecks: PolicyCheckRecord[] = [];
+  private readonly grantListeners = new Set<() => void>();
 
   constructor(config: PolicyEngineConfig = {}) {
     this.rules = (config.rules ?? []).sort(
@@ -59,12 +96,46 @@ export class PolicyEngine {
     );
     this.defaultDecision = config.defaultDecision ?? PolicyDecision.ASK_USER;
     this.nonInteractive = config.nonInteractive ?? false;
+    this.rootDirectory = config.rootDirectory ?? process.cwd();
+  }
+
+  /**
+   * Check if a tool call is allowed based on the configured policies, and
+   * which rule decided it. The check is kept in {@link getRecentChecks}.
+   *
+   * A call allowed by a grant with limited uses uses one of them up.
+   *
+   * @param agentName The subagent making the call, if any. Enables rules
+   * scoped to that agent.
+   */
+  check(toolCall: FunctionCall, agentName?: string): PolicyCheckResult {
+    const result = this.evaluate(toolCall, agentName);
+    const { decision, rule } = result;
+    if (
+      decision === PolicyDecision.ALLOW &&
+      rule?.grant?.usesLeft !== undefined
+    ) {
+      rule.grant.usesLeft--;
+      this.removeGrants((grant) => !isGrantActive(grant, Date.now()));
+      this.notifyGrantListeners();
+    }
+    this.recentChecks.push({
+      toolName: toolCall.name ?? '',
+      ...(agentName && { agentName }),
+      decision,
+      rule,
+      timestamp: Date.now(),
+    });
+    if (this.recentChecks.length > MAX_RECENT_CHECKS) {
+      this.recentChecks = this.recentChecks.slice(-MAX_RECENT_CHECKS);
+    }
+    return result;
   }
 
   /**
-   * Check if a tool call is allowed based on the configured policies.
+   * Like {@link check}, but does not record the check.
    */
-  check(toolCall: FunctionCall): PolicyDecision {
+  evaluate(toolCall: FunctionCall, agentName?: string): PolicyCheckResult {
     let stringifiedArgs: string | undefined;
     // Compute stringified args once before the loop
     if (toolCall.args && this.rules.some((rule) => rule.argsPattern)) {
@@ -72,14 +143,24 @@ export class PolicyEngine {
     }
 
     // Find the first matching rule (already sorted by priority)
+    const now = Date.now();
     for (const rule of this.rules) {
-      if (ruleMatches(rule, toolCall, stringifiedArgs)) {
-        return this.applyNonInteractiveMode(rule.decision);
+      if (
+        isGrantActive(rule.grant, now) &&
+        ruleMatches(
+          rule,
+          toolCall,
+          stringifiedArgs,
+          agentName,
+          this.rootDirectory,
+        )
+      ) {
+        return { decision: this.applyNonInteractiveMode(rule.decision), rule };
       }
     }
 
     // No matching rule found, use default decision
-    return this.applyNonInteractiveMode(this.defaultDecision);
+    return { decision: this.applyNonInteractiveMode(this.defaultDecision) };
   }
 
   /**
@@ -89,6 +170,91 @@ export class PolicyEngine {
     this.rules.push(rule);
     // Re-sort rules by priority
     this.rules.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+    if (rule.grant) {
+      this.notifyGrantListeners();
+    }
+  }
+
+  /**
+   * Add a rule granted by the user, which stops applying once any of the
+   * limits is reached.
+   *
+   * @param agentRunId The subagent run the grant was made in, which ends
+   *     `agent-run` grants.
+   */
+  addGrant(
+    rule: Omit<PolicyRule, 'grant'>,
+    limits: PolicyGrantLimits = {},
+    agentRunId?: string,
+  ): PolicyGrant {
+    const createdAt = Date.now();
+    const grant: PolicyGrant = {
+      id: randomUUID(),
+      createdAt,
+      scope: limits.scope ?? 'session',
+      ...(limits.expiresAfterMinutes !== undefined && {
+        expiresAt: createdAt + limits.expiresAfterMinutes * 60 * 1000,
+      }),
+      ...(limits.maxUses !== undefined && { usesLeft: limits.maxUses }),
+      ...(agentRunId !== undefined && { agentRunId }),
+    };
+    this.addRule({ ...rule, grant });
+    return grant;
+  }
+
+  /**
+   * Get the rules granted by the user that still apply, oldest first.
+   */
+  getGrants(): readonly PolicyRule[] {
+    const now = Date.now();
+    return this.rules
+      .filter((rule) => rule.grant && isGrantActive(rule.grant, now))
+      .sort((a, b) => a.grant!.createdAt - b.grant!.createdAt);
+  }
+
+  /**
+   * Revoke a grant by its id.
+   *
+   * @returns Whether there was such a grant.
+   */
+  revokeGrant(id: string): boolean {
+    const removed = this.removeGrants((grant) => grant.id === id);
+    if (removed > 0) {
+      this.notifyGrantListeners();
+    }
+    return removed > 0;
+  }
+
+  /**
+   * Revoke the grants of a scope that has ended, e.g. all `prompt` grants
+   * when the next prompt is sent.
+   *
+   * @param agentRunId Only revoke the grants made in this subagent run.
+   * @returns How many grants were revoked.
+   */
+  revokeGrants(scope: PolicyGrantScope, agentRunId?: string): number {
+    const removed = this.removeGrants(
+      (grant) =>
+        grant.scope === scope &&
+        (agentRunId === undefined || grant.agentRunId === agentRunId),
+    );
+    if (removed > 0) {
+      this.notifyGrantListeners();
+    }
+    return removed;
+  }
+
+  /**
+   * Register a listener that is called whenever a grant is added, used or
+   * revoked. Expiry does not call it.
+   *
+   * @returns A function that unregisters the listener.
+   */
+  onGrantsChanged(listener: () => void): () => void {
+    this.grantListeners.add(listener);
+    return () => {
+      this.grantListeners.delete(listener);
+    };
   }
 
   /**
@@ -105,6 +271,29 @@ export class PolicyEngine {
     return this.rules;
   }
 
+  /**
+   * Get the most recent checks, oldest first.
+   */
+  getRecentChecks(): readonly PolicyCheckRecord[] {
+    return this.recentChecks;
+  }
+
+  private removeGrants(
+    predicate: (grant: PolicyGrant, rule: PolicyRule) => boolean,
+  ): number {
+    const count = this.rules.length;
+    this.rules = this.rules.filter(
+      (rule) => !rule.grant || !predicate(rule.grant, rule),
+    );
+    return count - this.rules.length;
+  }
+
+  private notifyGrantListeners(): void {
+    for (const listener of this.grantListeners) {
+      listener();
+    }
+  }
+
   private applyNonInteractiveMode(decision: PolicyDecision): PolicyDecision {
     // In non-interactive mode, ASK_USER becomes DENY
     if (this.nonInteractive && decision === PolicyDecision.ASK_USER) {
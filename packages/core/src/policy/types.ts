@@ -10,6 +10,86 @@ export enum PolicyDecision {
   ASK_USER = 'ask_user',
 }
 
+/**
+ * Where a rule from a policy file was defined. Rules from system policies take
+ * precedence over user policies, which take precedence over workspace ones.
+ */
+export type PolicyScope = 'system' | 'user' | 'workspace';
+
+/**
+ * Conditions on the structured arguments of a call.
+ *
+ * A rule that allows a call must cover everything the call touches: every
+ * path, command or URL in it has to match. A rule that denies or asks about a
+ * call matches as soon as any of them does. A condition never matches a call
+ * that has nothing it could check, e.g. `pathGlobs` and a shell command.
+ */
+export interface PolicyConditions {
+  /**
+   * Globs for the file paths in the arguments (`file_path`, `absolute_path`,
+   * `path`, `dir_path` and `paths`). Relative globs are resolved against the
+   * engine's root directory.
+   */
+  pathGlobs?: string[];
+
+  /**
+   * Prefixes for the commands run by `run_shell_command`. Chained commands
+   * such as `a && b` are split using the shell syntax tree and checked one by
+   * one.
+   */
+  commandPrefixes?: string[];
+
+  /**
+   * Names of the programs run by `run_shell_command`, as found in the shell
+   * syntax tree, e.g. `git` for `cd src && git status`.
+   */
+  commandRoots?: string[];
+
+  /**
+   * Hosts of the URLs in the arguments, e.g. of `web_fetch`. `*.example.com`
+   * matches `example.com` and its subdomains.
+   */
+  urlHosts?: string[];
+
+  /** MCP servers whose tools the rule applies to. */
+  mcpServers?: string[];
+}
+
+/**
+ * How long an "always allow" grant lasts at most. `prompt` grants end when the
+ * next prompt is sent, `agent-run` grants when the subagent run they were made
+ * in finishes.
+ */
+export type PolicyGrantScope = 'session' | 'prompt' | 'agent-run';
+
+/**
+ * Limits for the grants made by "always allow" answers. A grant ends as soon
+ * as any of them is reached.
+ */
+export interface PolicyGrantLimits {
+  /** Minutes after which the grant expires. */
+  expiresAfterMinutes?: number;
+  /** How many calls the grant allows. */
+  maxUses?: number;
+  /** Defaults to `session`. */
+  scope?: PolicyGrantScope;
+}
+
+/**
+ * The state of a rule created by an "always allow" answer.
+ */
+export interface PolicyGrant {
+  id: string;
+  createdAt: number;
+  /** When the grant expires, in milliseconds since the epoch. */
+  expiresAt?: number;
+  /** How many more calls the grant allows. */
+  usesLeft?: number;
+  scope: PolicyGrantScope;
+  /** The subagent run an `agent-run` grant was made in. */
+  agentRunId?: string;
+}
+
 export interface PolicyRule {
   /**
    * The name of the tool this rule applies to.
@@ -17,12 +97,24 @@ export interface PolicyRule {
    */
   toolName?: string;
 
+  /**
+   * The name of the subagent this rule applies to.
+   * If undefined, the rule applies to calls from the main session and from
+   * every subagent alike.
+   */
+  agentName?: string;
+
   /**
    * Pattern to match against tool arguments.
    * Can be used for more fine-grained control.
    */
   argsPattern?: RegExp;
 
+  /**
+   * Conditions on the structured arguments of the call.
+   */
+  conditions?: PolicyConditions;
+
   /**
    * The decision to make when this rule matches.
    */
@@ -33,6 +125,45 @@ export interface PolicyRule {
    * Default is 0.
    */
   priority?: number;
+
+  /** The scope of the policy file that defined this rule, if any. */
+  scope?: PolicyScope;
+
+  /**
+   * Where the rule was defined, for display, e.g. a policy file and line or
+   * the setting it was created from.
+   */
+  source?: string;
+
+  /** A short explanation of the rule. */
+  description?: string;
+
+  /**
+   * Set for rules granted by the user during the session. The rule stops
+   * applying once the grant has expired or been used up.
+   */
+  grant?: PolicyGrant;
+}
+
+/**
+ * The decision on a tool call and the rule it came from.
+ */
+export interface PolicyCheckResult {
+  decision: PolicyDecision;
+  /** The matching rule, or undefined when the default decision applied. */
+  rule?: PolicyRule;
+}
+
+/**
+ * The outcome of checking a tool call, with the rule that decided it.
+ */
+export interface PolicyCheckRecord {
+  toolName: string;
+  agentName?: string;
+  decision: PolicyDecision;
+  /** The matching rule, or undefined when the default decision applied. */
+  rule?: PolicyRule;
+  timestamp: number;
 }
 
 export interface PolicyEngineConfig {
@@ -52,4 +183,10 @@ export interface PolicyEngineConfig {
    * When true, ASK_USER decisions become DENY.
    */
   nonInteractive?: boolean;
+
+  /**
+   * The directory relative paths in tool arguments and relative path globs
+   * are resolved against. Defaults to the current working directory.
+   */
+  rootDirectory?: string;
 }
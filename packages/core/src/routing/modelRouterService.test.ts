@@ -14,6 +14,7 @@ import { CompositeStrategy } from './strategies/compositeStrategy.js';
 import { FallbackStrategy } from './strategies/fallbackStrategy.js';
 import { OverrideStrategy } from './strategies/overrideStrategy.js';
 import { ClassifierStrategy } from './strategies/classifierStrategy.js';
+import { HeuristicStrategy } from './strategies/heuristicStrategy.js';
 import { logModelRouting } from '../telemetry/loggers.js';
 import { ModelRoutingEvent } from '../telemetry/types.js';
 
@@ -24,6 +25,7 @@ vi.mock('./strategies/compositeStrategy.js');
 vi.mock('./strategies/fallbackStrategy.js');
 vi.mock('./strategies/overrideStrategy.js');
 vi.mock('./strategies/classifierStrategy.js');
+vi.mock('./strategies/heuristicStrategy.js');
 vi.mock('../telemetry/loggers.js');
 vi.mock('../telemetry/types.js');
 
@@ -40,6 +42,7 @@ describe('ModelRouterService', () => {
     mockConfig = new Config({} as never);
     mockBaseLlmClient = {} as BaseLlmClient;
     vi.spyOn(mockConfig, 'getBaseLlmClient').mockReturnValue(mockBaseLlmClient);
+    vi.spyOn(mockConfig, 'getModelRoutingConfig').mockReturnValue({});
 
     mockCompositeStrategy = new CompositeStrategy(
       [
@@ -81,6 +84,22 @@ describe('ModelRouterService', () => {
     expect(compositeStrategyArgs[1]).toBe('agent-router');
   });
 
+  it('should build the chain declared in the routing config', () => {
+    vi.mocked(CompositeStrategy).mockClear();
+    vi.spyOn(mockConfig, 'getModelRoutingConfig').mockReturnValue({
+      strategies: ['override', 'heuristic', 'classifier'],
+    });
+
+    new ModelRouterService(mockConfig);
+
+    const childStrategies = vi.mocked(CompositeStrategy).mock.calls[0][0];
+    expect(childStrategies.length).toBe(4);
+    expect(childStrategies[0]).toBeInstanceOf(OverrideStrategy);
+    expect(childStrategies[1]).toBeInstanceOf(HeuristicStrategy);
+    expect(childStrategies[2]).toBeInstanceOf(ClassifierStrategy);
+    expect(childStrategies[3]).toBeInstanceOf(DefaultStrategy);
+  });
+
   describe('route()', () => {
     const strategyDecision: RoutingDecision = {
       model: 'strategy-chosen-model',
@@ -106,6 +125,27 @@ describe('ModelRouterService', () => {
       expect(decision).toEqual(strategyDecision);
     });
 
+    it('should resolve model aliases in the decision', async () => {
+      vi.spyOn(mockConfig, 'getModelRoutingConfig').mockReturnValue({
+        aliases: { fast: 'gemini-2.5-flash-lite', pro: 'local-model' },
+      });
+      const strategySpy = vi.spyOn(mockCompositeStrategy, 'route');
+
+      strategySpy.mockResolvedValueOnce({ ...strategyDecision, model: 'fast' });
+      expect((await service.route(mockContext)).model).toBe(
+        'gemini-2.5-flash-lite',
+      );
+
+      strategySpy.mockResolvedValueOnce({ ...strategyDecision, model: 'pro' });
+      expect((await service.route(mockContext)).model).toBe('local-model');
+
+      strategySpy.mockResolvedValueOnce({
+        ...strategyDecision,
+        model: 'flash',
+      });
+      expect((await service.route(mockContext)).model).toBe('gemini-2.5-flash');
+    });
+
     it('should log a telemetry event on a successful decision', async () => {
       vi.spyOn(mockCompositeStrategy, 'route').mockResolvedValue(
         strategyDecision,
@@ -8,17 +8,43 @@ import type { Config } from '../config/config.js';
 import type {
   RoutingContext,
   RoutingDecision,
+  RoutingStrategy,
   TerminalStrategy,
 } from './routingStrategy.js';
+import {
+  DEFAULT_ROUTING_STRATEGIES,
+  resolveModelAlias,
+  type RoutingStrategyName,
+} from './routingConfig.js';
 import { DefaultStrategy } from './strategies/defaultStrategy.js';
 import { ClassifierStrategy } from './strategies/classifierStrategy.js';
 import { CompositeStrategy } from './strategies/compositeStrategy.js';
 import { FallbackStrategy } from './strategies/fallbackStrategy.js';
 import { OverrideStrategy } from './strategies/overrideStrategy.js';
+import { HeuristicStrategy } from './strategies/heuristicStrategy.js';
 
 import { logModelRouting } from '../telemetry/loggers.js';
 import { ModelRoutingEvent } from '../telemetry/types.js';
 
+function createStrategy(
+  name: Exclude<RoutingStrategyName, 'default'>,
+): RoutingStrategy {
+  switch (name) {
+    case 'fallback':
+      return new FallbackStrategy();
+    case 'override':
+      return new OverrideStrategy();
+    case 'heuristic':
+      return new HeuristicStrategy();
+    case 'classifier':
+      return new ClassifierStrategy();
+    default: {
+      const unknownName: never = name;
+      throw new Error(`Unknown routing strategy: ${unknownName}`);
+    }
+  }
+}
+
 /**
  * A centralized service for making model routing decisions.
  */
@@ -32,15 +58,14 @@ export class ModelRouterService {
   }
 
   private initializeDefaultStrategy(): TerminalStrategy {
-    // Initialize the composite strategy with the desired priority order.
-    // The strategies are ordered in order of highest priority.
+    // The strategies are ordered in order of highest priority. The chain
+    // always ends with the default strategy, so that it terminates.
+    const names = (
+      this.config.getModelRoutingConfig().strategies ??
+      DEFAULT_ROUTING_STRATEGIES
+    ).filter((name) => name !== 'default');
     return new CompositeStrategy(
-      [
-        new FallbackStrategy(),
-        new OverrideStrategy(),
-        new ClassifierStrategy(),
-        new DefaultStrategy(),
-      ],
+      [...names.map(createStrategy), new DefaultStrategy()],
       'agent-router',
     );
   }
@@ -61,6 +86,13 @@ export class ModelRouterService {
         this.config,
         this.config.getBaseLlmClient(),
       );
+      decision = {
+        ...decision,
+        model: resolveModelAlias(
+          decision.model,
+          this.config.getModelRoutingConfig().aliases,
+        ),
+      };
 
       const event = new ModelRoutingEvent(
         decision.model,
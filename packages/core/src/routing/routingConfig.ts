@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  DEFAULT_GEMINI_FLASH_LITE_MODEL,
+  DEFAULT_GEMINI_FLASH_MODEL,
+  DEFAULT_GEMINI_MODEL,
+} from '../config/models.js';
+
+/** The strategies a routing chain can be built from. */
+export type RoutingStrategyName =
+  | 'fallback'
+  | 'override'
+  | 'heuristic'
+  | 'classifier'
+  | 'default';
+
+export const ROUTING_STRATEGY_NAMES: readonly RoutingStrategyName[] = [
+  'fallback',
+  'override',
+  'heuristic',
+  'classifier',
+  'default',
+];
+
+/** The chain used when the settings do not declare one. */
+export const DEFAULT_ROUTING_STRATEGIES: readonly RoutingStrategyName[] = [
+  'fallback',
+  'override',
+  'classifier',
+  'default',
+];
+
+/**
+ * Model aliases that are always available. Settings can add aliases or
+ * point these to other models.
+ */
+export const DEFAULT_MODEL_ALIASES: Readonly<Record<string, string>> = {
+  pro: DEFAULT_GEMINI_MODEL,
+  flash: DEFAULT_GEMINI_FLASH_MODEL,
+  'flash-lite': DEFAULT_GEMINI_FLASH_LITE_MODEL,
+};
+
+/**
+ * Thresholds for the heuristic strategy. Models may be aliases.
+ */
+export interface HeuristicRoutingConfig {
+  /** Prompts at least this many characters long use the complex model. */
+  complexPromptLength?: number;
+  /** Prompts that reference at least this many files with `@` use the complex model. */
+  complexFileReferences?: number;
+  /**
+   * Prompts sent after at least this many tool calls in the recent history
+   * use the complex model.
+   */
+  complexToolCallDepth?: number;
+  /**
+   * Prompts shorter than this that match no other rule use the simple model.
+   * Longer ones are left to the next strategy.
+   */
+  simplePromptLength?: number;
+  /** The model for prompts submitted by slash commands. */
+  slashCommandModel?: string;
+  complexModel?: string;
+  simpleModel?: string;
+}
+
+export const DEFAULT_HEURISTIC_ROUTING_CONFIG: Required<HeuristicRoutingConfig> =
+  {
+    complexPromptLength: 2000,
+    complexFileReferences: 3,
+    complexToolCallDepth: 5,
+    simplePromptLength: 200,
+    slashCommandModel: 'flash',
+    complexModel: 'pro',
+    simpleModel: 'flash',
+  };
+
+export interface ModelRoutingConfig {
+  /**
+   * The strategies to try, in order. The first one that decides wins, and
+   * `default` is appended if the chain does not end with it.
+   */
+  strategies?: RoutingStrategyName[];
+  heuristic?: HeuristicRoutingConfig;
+  /** Extra model aliases, e.g. `{ "fast": "gemini-2.5-flash-lite" }`. */
+  aliases?: Record<string, string>;
+}
+
+/**
+ * Resolves a model alias to the model it stands for. Aliases from the
+ * settings may point to the built-in ones. Names that are not aliases are
+ * returned as they are.
+ */
+export function resolveModelAlias(
+  model: string,
+  aliases: Record<string, string> = {},
+): string {
+  const target = aliases[model] ?? model;
+  return DEFAULT_MODEL_ALIASES[target] ?? target;
+}
@@ -35,8 +35,16 @@ export interface RoutingContext {
   request: PartListUnion;
   /** An abort signal to cancel an LLM call during routing. */
   signal: AbortSignal;
+  /** Where the request came from. Defaults to `user`. */
+  source?: RoutingRequestSource;
 }
 
+/**
+ * Whether the user typed the request, or a slash command submitted it on
+ * their behalf.
+ */
+export type RoutingRequestSource = 'user' | 'slash-command';
+
 /**
  * The core interface that all routing strategies must implement.
  * Strategies implementing this interface may decline a request by returning null.
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Content } from '@google/genai';
+import { HeuristicStrategy } from './heuristicStrategy.js';
+import type { RoutingContext } from '../routingStrategy.js';
+import type { HeuristicRoutingConfig } from '../routingConfig.js';
+import type { BaseLlmClient } from '../../core/baseLlmClient.js';
+import type { Config } from '../../config/config.js';
+
+describe('HeuristicStrategy', () => {
+  const strategy = new HeuristicStrategy();
+  const mockClient = {} as BaseLlmClient;
+
+  const createConfig = (heuristic?: HeuristicRoutingConfig) =>
+    ({
+      getModelRoutingConfig: () => ({ heuristic }),
+    }) as Config;
+
+  const createContext = (
+    overrides: Partial<RoutingContext> = {},
+  ): RoutingContext => ({
+    history: [],
+    request: [{ text: 'Fix the typo in the README' }],
+    signal: new AbortController().signal,
+    ...overrides,
+  });
+
+  const toolCallTurns = (count: number): Content[] =>
+    Array.from({ length: count }, (_, i) => [
+      {
+        role: 'model',
+        parts: [{ functionCall: { name: 'read_file', args: { i } } }],
+      },
+      {
+        role: 'user',
+        parts: [{ functionResponse: { name: 'read_file', response: {} } }],
+      },
+    ]).flat();
+
+  it('should route short prompts to the simple model', async () => {
+    const decision = await strategy.route(
+      createContext(),
+      createConfig(),
+      mockClient,
+    );
+
+    expect(decision).toEqual({
+      model: 'flash',
+      metadata: {
+        source: 'heuristic',
+        latencyMs: 0,
+        reasoning: 'The prompt is 26 characters long and references 0 files.',
+      },
+    });
+  });
+
+  it('should route long prompts to the complex model', async () => {
+    const decision = await strategy.route(
+      createContext({ request: 'x'.repeat(2000) }),
+      createConfig(),
+      mockClient,
+    );
+
+    expect(decision?.model).toBe('pro');
+    expect(decision?.metadata.reasoning).toBe(
+      'The prompt is 2000 characters long.',
+    );
+  });
+
+  it('should not count the content of referenced files as prompt', async () => {
+    const decision = await strategy.route(
+      createContext({
+        request: [
+          { text: 'Explain @src/index.ts' },
+          { text: '\n--- Content from referenced files ---' },
+          { text: '\nContent from @src/index.ts:\n' },
+          { text: 'x'.repeat(5000) },
+        ],
+      }),
+      createConfig(),
+      mockClient,
+    );
+
+    expect(decision?.model).toBe('flash');
+  });
+
+  it('should route prompts that reference many files to the complex model', async () => {
+    const decision = await strategy.route(
+      createContext({
+        request: [{ text: 'Compare @a.ts, @b.ts and @c.ts' }],
+      }),
+      createConfig(),
+      mockClient,
+    );
+
+    expect(decision?.model).toBe('pro');
+    expect(decision?.metadata.reasoning).toBe('The prompt references 3 files.');
+  });
+
+  it('should route prompts after many tool calls to the complex model', async () => {
+    const decision = await strategy.route(
+      createContext({ history: toolCallTurns(5) }),
+      createConfig(),
+      mockClient,
+    );
+
+    expect(decision?.model).toBe('pro');
+    expect(decision?.metadata.reasoning).toBe(
+      '5 tools were called in the recent history.',
+    );
+  });
+
+  it('should route prompts from slash commands to the slash command model', async () => {
+    const decision = await strategy.route(
+      createContext({ request: 'x'.repeat(5000), source: 'slash-command' }),
+      createConfig({ slashCommandModel: 'fast' }),
+      mockClient,
+    );
+
+    expect(decision?.model).toBe('fast');
+  });
+
+  it('should leave prompts without a clear signal to the next strategy', async () => {
+    const decision = await strategy.route(
+      createContext({ request: 'x'.repeat(500) }),
+      createConfig(),
+      mockClient,
+    );
+
+    expect(decision).toBeNull();
+  });
+
+  it('should use the configured thresholds and models', async () => {
+    const config = createConfig({
+      complexPromptLength: 100,
+      complexToolCallDepth: 2,
+      complexModel: 'smart',
+      simpleModel: 'fast',
+    });
+
+    expect(
+      (
+        await strategy.route(
+          createContext({ request: 'x'.repeat(100) }),
+          config,
+          mockClient,
+        )
+      )?.model,
+    ).toBe('smart');
+    expect(
+      (
+        await strategy.route(
+          createContext({ history: toolCallTurns(2) }),
+          config,
+          mockClient,
+        )
+      )?.model,
+    ).toBe('smart');
+    expect(
+      (await strategy.route(createContext(), config, mockClient))?.model,
+    ).toBe('fast');
+  });
+});
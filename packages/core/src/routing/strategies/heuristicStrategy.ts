@@ -0,0 +1,118 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Content, PartListUnion, PartUnion } from '@google/genai';
+import type { Config } from '../../config/config.js';
+import type { BaseLlmClient } from '../../core/baseLlmClient.js';
+import {
+  DEFAULT_HEURISTIC_ROUTING_CONFIG,
+  type HeuristicRoutingConfig,
+} from '../routingConfig.js';
+import type {
+  RoutingContext,
+  RoutingDecision,
+  RoutingStrategy,
+} from '../routingStrategy.js';
+
+// The number of recent history turns searched for tool calls.
+const HISTORY_SEARCH_WINDOW = 20;
+
+// Added by @-command processing before the content of the referenced files.
+const REFERENCED_FILES_MARKER = '--- Content from referenced files ---';
+
+const FILE_REFERENCE_REGEX = /(?:^|\s)@[^\s]+/g;
+
+/**
+ * Returns the text the user wrote, without the content of the files it
+ * references.
+ */
+function getPromptText(request: PartListUnion): string {
+  const parts: PartUnion[] = Array.isArray(request) ? request : [request];
+  const texts: string[] = [];
+  for (const part of parts) {
+    const text = typeof part === 'string' ? part : part.text;
+    if (text === undefined) {
+      continue;
+    }
+    if (text.trim() === REFERENCED_FILES_MARKER) {
+      break;
+    }
+    texts.push(text);
+  }
+  return texts.join('');
+}
+
+function countToolCalls(history: Content[]): number {
+  return history
+    .slice(-HISTORY_SEARCH_WINDOW)
+    .flatMap((content) => content.parts ?? [])
+    .filter((part) => part.functionCall).length;
+}
+
+/**
+ * Routes on signals that are cheap to compute: the length of the prompt, the
+ * files it references, how many tools were called recently, and whether a
+ * slash command submitted it. Prompts that are neither clearly simple nor
+ * clearly complex are left to the next strategy.
+ */
+export class HeuristicStrategy implements RoutingStrategy {
+  readonly name = 'heuristic';
+
+  async route(
+    context: RoutingContext,
+    config: Config,
+    _baseLlmClient: BaseLlmClient,
+  ): Promise<RoutingDecision | null> {
+    const settings: Required<HeuristicRoutingConfig> = {
+      ...DEFAULT_HEURISTIC_ROUTING_CONFIG,
+      ...config.getModelRoutingConfig().heuristic,
+    };
+    const decide = (model: string, reasoning: string): RoutingDecision => ({
+      model,
+      metadata: { source: this.name, latencyMs: 0, reasoning },
+    });
+
+    if (context.source === 'slash-command') {
+      return decide(
+        settings.slashCommandModel,
+        'The prompt was submitted by a slash command.',
+      );
+    }
+
+    const promptText = getPromptText(context.request);
+    if (promptText.length >= settings.complexPromptLength) {
+      return decide(
+        settings.complexModel,
+        `The prompt is ${promptText.length} characters long.`,
+      );
+    }
+
+    const fileReferences = promptText.match(FILE_REFERENCE_REGEX)?.length ?? 0;
+    if (fileReferences >= settings.complexFileReferences) {
+      return decide(
+        settings.complexModel,
+        `The prompt references ${fileReferences} files.`,
+      );
+    }
+
+    const toolCalls = countToolCalls(context.history);
+    if (toolCalls >= settings.complexToolCallDepth) {
+      return decide(
+        settings.complexModel,
+        `${toolCalls} tools were called in the recent history.`,
+      );
+    }
+
+    if (promptText.length < settings.simplePromptLength) {
+      return decide(
+        settings.simpleModel,
+        `The prompt is ${promptText.length} characters long and references ${fileReferences} files.`,
+      );
+    }
+
+    return null;
+  }
+}
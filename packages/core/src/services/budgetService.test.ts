@@ -0,0 +1,209 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  BudgetService,
+  formatBudgetStatus,
+  formatBudgetWarning,
+  getBudgetUsage,
+  type BudgetConfig,
+} from './budgetService.js';
+import type { ModelMetrics, SessionMetrics } from '../telemetry/uiTelemetry.js';
+import { uiTelemetryService } from '../telemetry/uiTelemetry.js';
+import { makeFakeConfig } from '../test-utils/config.js';
+
+function modelMetrics(
+  tokens: Partial<ModelMetrics['tokens']> = {},
+): ModelMetrics {
+  return {
+    api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 100 },
+    tokens: {
+      prompt: 0,
+      candidates: 0,
+      total: 0,
+      cached: 0,
+      thoughts: 0,
+      tool: 0,
+      ...tokens,
+    },
+  };
+}
+
+const initialMetrics = uiTelemetryService.getMetrics();
+
+function sessionMetrics(
+  models: Record<string, ModelMetrics> = {},
+): SessionMetrics {
+  return { ...initialMetrics, models };
+}
+
+describe('getBudgetUsage', () => {
+  it('should sum the tokens of every model and price them', () => {
+    const usage = getBudgetUsage(
+      sessionMetrics({
+        'gemini-2.5-pro': modelMetrics({
+          prompt: 1_000_000,
+          cached: 500_000,
+          candidates: 100_000,
+          thoughts: 100_000,
+        }),
+        'gemini-2.5-flash': modelMetrics({ prompt: 200_000, candidates: 10 }),
+      }),
+      {
+        'gemini-2.5-pro': {
+          inputPerMillionTokens: 1,
+          cachedInputPerMillionTokens: 0.25,
+          outputPerMillionTokens: 10,
+        },
+      },
+    );
+
+    expect(usage).toEqual({
+      inputTokens: 1_200_000,
+      outputTokens: 200_010,
+      costUsd: 0.5 + 0.125 + 2,
+    });
+  });
+});
+
+describe('formatBudgetStatus', () => {
+  it('should format token and cost limits', () => {
+    expect(
+      formatBudgetStatus({
+        scope: 'session',
+        limit: 'maxInputTokens',
+        used: 812000,
+        max: 1000000,
+      }),
+    ).toBe('session input token budget (812,000 / 1,000,000)');
+    expect(
+      formatBudgetStatus({
+        scope: 'prompt',
+        limit: 'maxCostUsd',
+        used: 0.5,
+        max: 2,
+      }),
+    ).toBe('prompt cost budget ($0.50 / $2.00)');
+  });
+
+  it('should format warnings with the used share', () => {
+    expect(
+      formatBudgetWarning({
+        scope: 'session',
+        limit: 'maxOutputTokens',
+        used: 8500,
+        max: 10000,
+      }),
+    ).toBe('Used 85% of the session output token budget (8,500 / 10,000).');
+  });
+});
+
+describe('BudgetService', () => {
+  let outputTokens: number;
+
+  const createService = (budget: BudgetConfig) =>
+    new BudgetService(makeFakeConfig({ budget }));
+
+  beforeEach(() => {
+    outputTokens = 0;
+    vi.spyOn(uiTelemetryService, 'getMetrics').mockImplementation(() =>
+      sessionMetrics({
+        'gemini-2.5-pro': modelMetrics({ candidates: outputTokens }),
+      }),
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should report no status without budgets', () => {
+    outputTokens = 1_000_000;
+    const service = createService({});
+
+    expect(service.getStatuses()).toEqual([]);
+    expect(service.getExceeded()).toBeUndefined();
+  });
+
+  it('should report a reached session limit', () => {
+    const service = createService({ session: { maxOutputTokens: 1000 } });
+
+    outputTokens = 999;
+    expect(service.getExceeded()).toBeUndefined();
+
+    outputTokens = 1000;
+    expect(service.getExceeded()).toEqual({
+      scope: 'session',
+      limit: 'maxOutputTokens',
+      used: 1000,
+      max: 1000,
+    });
+  });
+
+  it('should count the prompt usage from the start of the prompt', () => {
+    const service = createService({ prompt: { maxOutputTokens: 100 } });
+    outputTokens = 500;
+
+    service.startPrompt();
+    outputTokens = 550;
+
+    expect(service.getUsage('prompt').outputTokens).toBe(50);
+    expect(service.getExceeded()).toBeUndefined();
+
+    outputTokens = 600;
+    expect(service.getExceeded()?.scope).toBe('prompt');
+  });
+
+  it('should warn once per limit when 80% is reached', () => {
+    const service = createService({
+      session: { maxOutputTokens: 1000 },
+      prompt: { maxOutputTokens: 1000 },
+    });
+
+    outputTokens = 700;
+    expect(service.takeWarnings()).toEqual([]);
+
+    outputTokens = 800;
+    expect(service.takeWarnings().map(({ scope }) => scope)).toEqual([
+      'session',
+      'prompt',
+    ]);
+    expect(service.takeWarnings()).toEqual([]);
+
+    service.startPrompt();
+    outputTokens = 1600;
+    expect(service.takeWarnings().map(({ scope }) => scope)).toEqual([
+      'prompt',
+    ]);
+  });
+
+  it('should let the user override the reached limits', () => {
+    const service = createService({
+      session: { maxOutputTokens: 1000 },
+      prompt: { maxOutputTokens: 100 },
+    });
+    outputTokens = 1000;
+
+    expect(
+      service.overrideExceeded().map(({ scope, limit }) => [scope, limit]),
+    ).toEqual([
+      ['session', 'maxOutputTokens'],
+      ['prompt', 'maxOutputTokens'],
+    ]);
+    expect(service.getExceeded()).toBeUndefined();
+
+    // Prompt overrides end with the prompt.
+    service.startPrompt();
+    outputTokens = 1100;
+    expect(service.getExceeded()).toEqual({
+      scope: 'prompt',
+      limit: 'maxOutputTokens',
+      used: 100,
+      max: 100,
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Config } from '../config/config.js';
+import type { SessionMetrics } from '../telemetry/uiTelemetry.js';
+import { uiTelemetryService } from '../telemetry/uiTelemetry.js';
+
+/** The share of a limit at which the user is warned once. */
+export const BUDGET_WARNING_RATIO = 0.8;
+
+/** Token and cost limits for a session or a single prompt. */
+export interface BudgetLimits {
+  maxInputTokens?: number;
+  maxOutputTokens?: number;
+  /** The estimated cost in US dollars, based on the configured prices. */
+  maxCostUsd?: number;
+}
+
+/** The price of a model in US dollars per million tokens. */
+export interface ModelPrice {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+  /** The price of cached input tokens. Defaults to the input price. */
+  cachedInputPerMillionTokens?: number;
+}
+
+export interface BudgetConfig {
+  session?: BudgetLimits;
+  prompt?: BudgetLimits;
+  /**
+   * Prices by model name. Models without a price add nothing to the
+   * estimated cost.
+   */
+  prices?: Record<string, ModelPrice>;
+}
+
+export type BudgetScope = 'session' | 'prompt';
+
+export type BudgetLimitName = keyof BudgetLimits;
+
+export interface BudgetUsage {
+  inputTokens: number;
+  /** Output tokens, including thoughts. */
+  outputTokens: number;
+  costUsd: number;
+}
+
+/** How much of one limit has been used. */
+export interface BudgetStatus {
+  scope: BudgetScope;
+  limit: BudgetLimitName;
+  used: number;
+  max: number;
+}
+
+const BUDGET_SCOPES: readonly BudgetScope[] = ['session', 'prompt'];
+
+const LIMIT_USAGE: Record<BudgetLimitName, keyof BudgetUsage> = {
+  maxInputTokens: 'inputTokens',
+  maxOutputTokens: 'outputTokens',
+  maxCostUsd: 'costUsd',
+};
+
+const LIMIT_LABELS: Record<BudgetLimitName, string> = {
+  maxInputTokens: 'input token',
+  maxOutputTokens: 'output token',
+  maxCostUsd: 'cost',
+};
+
+/**
+ * Sums the token usage of every model in the session metrics and estimates
+ * its cost from the prices.
+ */
+export function getBudgetUsage(
+  metrics: SessionMetrics,
+  prices: Record<string, ModelPrice> = {},
+): BudgetUsage {
+  const usage: BudgetUsage = { inputTokens: 0, outputTokens: 0, costUsd: 0 };
+  for (const [model, { tokens }] of Object.entries(metrics.models)) {
+    const outputTokens = tokens.candidates + tokens.thoughts;
+    usage.inputTokens += tokens.prompt;
+    usage.outputTokens += outputTokens;
+
+    const price = prices[model];
+    if (price) {
+      const cachedPrice =
+        price.cachedInputPerMillionTokens ?? price.inputPerMillionTokens;
+      usage.costUsd +=
+        ((tokens.prompt - tokens.cached) * price.inputPerMillionTokens +
+          tokens.cached * cachedPrice +
+          outputTokens * price.outputPerMillionTokens) /
+        1_000_000;
+    }
+  }
+  return usage;
+}
+
+/** Formats a status, e.g. "session input token budget (812,000 / 1,000,000)". */
+export function formatBudgetStatus({
+  scope,
+  limit,
+  used,
+  max,
+}: BudgetStatus): string {
+  const format = (value: number) =>
+    limit === 'maxCostUsd' ? `$${value.toFixed(2)}` : value.toLocaleString();
+  return `${scope} ${LIMIT_LABELS[limit]} budget (${format(used)} / ${format(max)})`;
+}
+
+/** Formats the warning for a limit that is nearly reached. */
+export function formatBudgetWarning(status: BudgetStatus): string {
+  const percent = Math.floor((status.used / status.max) * 100);
+  return `Used ${percent}% of the ${formatBudgetStatus(status)}.`;
+}
+
+/**
+ * Enforces the token and cost budgets of the session and of the current
+ * prompt, using the usage recorded by the {@link uiTelemetryService}. This
+ * includes the model calls of subagents.
+ */
+export class BudgetService {
+  private promptStartUsage: BudgetUsage = {
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+  };
+  private readonly warned = new Set<string>();
+  private readonly overridden = new Set<string>();
+
+  constructor(private readonly config: Config) {}
+
+  /** Starts counting the usage of a new prompt. */
+  startPrompt(): void {
+    this.promptStartUsage = this.getSessionUsage();
+    this.clearScope(this.warned, 'prompt');
+    this.clearScope(this.overridden, 'prompt');
+  }
+
+  getUsage(scope: BudgetScope): BudgetUsage {
+    const usage = this.getSessionUsage();
+    if (scope === 'session') {
+      return usage;
+    }
+    return {
+      inputTokens: usage.inputTokens - this.promptStartUsage.inputTokens,
+      outputTokens: usage.outputTokens - this.promptStartUsage.outputTokens,
+      costUsd: usage.costUsd - this.promptStartUsage.costUsd,
+    };
+  }
+
+  /** Returns the status of every configured limit. */
+  getStatuses(): BudgetStatus[] {
+    const budget = this.config.getBudgetConfig();
+    const statuses: BudgetStatus[] = [];
+    for (const scope of BUDGET_SCOPES) {
+      const limits = budget[scope];
+      if (!limits) {
+        continue;
+      }
+      const usage = this.getUsage(scope);
+      for (const [limit, usageKey] of Object.entries(LIMIT_USAGE) as Array<
+        [BudgetLimitName, keyof BudgetUsage]
+      >) {
+        const max = limits[limit];
+        if (max !== undefined) {
+          statuses.push({ scope, limit, used: usage[usageKey], max });
+        }
+      }
+    }
+    return statuses;
+  }
+
+  /** Returns the first limit that is reached and was not overridden. */
+  getExceeded(): BudgetStatus | undefined {
+    return this.getStatuses().find(
+      (status) =>
+        status.used >= status.max && !this.overridden.has(statusKey(status)),
+    );
+  }
+
+  /**
+   * Returns the limits that passed {@link BUDGET_WARNING_RATIO} since the
+   * last call, so that each limit is only warned about once per scope.
+   */
+  takeWarnings(): BudgetStatus[] {
+    const warnings = this.getStatuses().filter(
+      (status) =>
+        status.used >= status.max * BUDGET_WARNING_RATIO &&
+        status.used < status.max &&
+        !this.warned.has(statusKey(status)),
+    );
+    for (const warning of warnings) {
+      this.warned.add(statusKey(warning));
+    }
+    return warnings;
+  }
+
+  /**
+   * Lets the session go past the limits that are reached now. Overrides of
+   * prompt limits end with the prompt.
+   *
+   * @returns The overridden limits.
+   */
+  overrideExceeded(): BudgetStatus[] {
+    const exceeded = this.getStatuses().filter(
+      (status) => status.used >= status.max,
+    );
+    for (const status of exceeded) {
+      this.overridden.add(statusKey(status));
+    }
+    return exceeded;
+  }
+
+  private getSessionUsage(): BudgetUsage {
+    return getBudgetUsage(
+      uiTelemetryService.getMetrics(),
+      this.config.getBudgetConfig().prices,
+    );
+  }
+
+  private clearScope(keys: Set<string>, scope: BudgetScope): void {
+    for (const key of keys) {
+      if (key.startsWith(`${scope}:`)) {
+        keys.delete(key);
+      }
+    }
+  }
+}
+
+function statusKey({ scope, limit }: BudgetStatus): string {
+  return `${scope}:${limit}`;
+}
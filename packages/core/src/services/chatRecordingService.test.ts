@@ -13,7 +13,10 @@ import type {
   ConversationRecord,
   ToolCallRecord,
 } from './chatRecordingService.js';
-import { ChatRecordingService } from './chatRecordingService.js';
+import {
+  ChatRecordingService,
+  conversationToHistory,
+} from './chatRecordingService.js';
 import type { Config } from '../config/config.js';
 import { getProjectHash } from '../utils/paths.js';
 
@@ -402,3 +405,125 @@ describe('ChatRecordingService', () => {
     });
   });
 });
+
+describe('conversationToHistory', () => {
+  const conversation = (
+    messages: ConversationRecord['messages'],
+  ): ConversationRecord => ({
+    sessionId: 'test-session-id',
+    projectHash: 'test-project-hash',
+    startTime: '2025-01-01T00:00:00.000Z',
+    lastUpdated: '2025-01-01T00:00:00.000Z',
+    messages,
+  });
+
+  it('should turn user and model messages into turns', () => {
+    const history = conversationToHistory(
+      conversation([
+        { id: '1', timestamp: '', type: 'user', content: 'Hello' },
+        {
+          id: '2',
+          timestamp: '',
+          type: 'gemini',
+          content: 'Hi there',
+          thoughts: [{ subject: 'Greeting', description: '', timestamp: '' }],
+        },
+      ]),
+    );
+
+    expect(history).toEqual([
+      { role: 'user', parts: [{ text: 'Hello' }] },
+      { role: 'model', parts: [{ text: 'Hi there' }] },
+    ]);
+  });
+
+  it('should add tool calls and their results as function calls and responses', () => {
+    const functionResponse = {
+      functionResponse: {
+        id: 'call-1',
+        name: 'read_file',
+        response: { output: 'contents' },
+      },
+    };
+    const history = conversationToHistory(
+      conversation([
+        { id: '1', timestamp: '', type: 'user', content: 'Read a.txt' },
+        {
+          id: '2',
+          timestamp: '',
+          type: 'gemini',
+          content: '',
+          toolCalls: [
+            {
+              id: 'call-1',
+              name: 'read_file',
+              args: { file_path: 'a.txt' },
+              result: [functionResponse],
+              status: 'success',
+              timestamp: '',
+            },
+            {
+              id: 'call-2',
+              name: 'run_shell_command',
+              args: { command: 'ls' },
+              result: null,
+              status: 'cancelled',
+              timestamp: '',
+            },
+          ],
+        },
+        { id: '3', timestamp: '', type: 'gemini', content: 'Done.' },
+      ]),
+    );
+
+    expect(history).toEqual([
+      { role: 'user', parts: [{ text: 'Read a.txt' }] },
+      {
+        role: 'model',
+        parts: [
+          {
+            functionCall: {
+              id: 'call-1',
+              name: 'read_file',
+              args: { file_path: 'a.txt' },
+            },
+          },
+          {
+            functionCall: {
+              id: 'call-2',
+              name: 'run_shell_command',
+              args: { command: 'ls' },
+            },
+          },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [
+          functionResponse,
+          {
+            functionResponse: {
+              id: 'call-2',
+              name: 'run_shell_command',
+              response: {
+                error: 'Tool call ended with status "cancelled" and no result.',
+              },
+            },
+          },
+        ],
+      },
+      { role: 'model', parts: [{ text: 'Done.' }] },
+    ]);
+  });
+
+  it('should skip messages without content', () => {
+    const history = conversationToHistory(
+      conversation([
+        { id: '1', timestamp: '', type: 'user', content: [] },
+        { id: '2', timestamp: '', type: 'gemini', content: '' },
+      ]),
+    );
+
+    expect(history).toEqual([]);
+  });
+});
@@ -12,9 +12,12 @@ import path from 'node:path';
 import fs from 'node:fs';
 import { randomUUID } from 'node:crypto';
 import type {
+  Content,
+  Part,
   PartListUnion,
   GenerateContentResponseUsageMetadata,
 } from '@google/genai';
+import { createUserContent } from '@google/genai';
 
 export const SESSION_FILE_PREFIX = 'session-';
 
@@ -447,3 +450,73 @@ export class ChatRecordingService {
     }
   }
 }
+
+/**
+ * Rebuilds the chat history of a recorded conversation, so that a resumed
+ * session can continue where it left off.
+ *
+ * Thoughts are left out because they are not sent back to the model. The
+ * recorded results of tool calls become the function responses of the turn
+ * after the model turn that made the calls.
+ */
+export function conversationToHistory(
+  conversation: ConversationRecord,
+): Content[] {
+  const history: Content[] = [];
+  for (const message of conversation.messages) {
+    const parts = contentToParts(message.content);
+    if (message.type === 'user') {
+      if (parts.length > 0) {
+        history.push({ role: 'user', parts });
+      }
+      continue;
+    }
+
+    const toolCalls = message.toolCalls ?? [];
+    const modelParts: Part[] = [
+      ...parts,
+      ...toolCalls.map((toolCall) => ({
+        functionCall: {
+          id: toolCall.id,
+          name: toolCall.name,
+          args: toolCall.args,
+        },
+      })),
+    ];
+    if (modelParts.length === 0) {
+      continue;
+    }
+    history.push({ role: 'model', parts: modelParts });
+
+    if (toolCalls.length > 0) {
+      history.push({
+        role: 'user',
+        parts: toolCalls.flatMap((toolCall) =>
+          toolCall.result
+            ? contentToParts(toolCall.result)
+            : [
+                {
+                  functionResponse: {
+                    id: toolCall.id,
+                    name: toolCall.name,
+                    response: {
+                      error: `Tool call ended with status "${toolCall.status}" and no result.`,
+                    },
+                  },
+                },
+              ],
+        ),
+      });
+    }
+  }
+  return history;
+}
+
+function contentToParts(content: PartListUnion): Part[] {
+  if (Array.isArray(content) && content.length === 0) {
+    return [];
+  }
+  return (createUserContent(content).parts ?? []).filter(
+    (part) => !part.thought && part.text !== '',
+  );
+}
@@ -13,7 +13,7 @@ import {
   afterEach,
   type Mock,
 } from 'vitest';
-import { GitService } from './gitService.js';
+import { GitService, parseUnifiedDiff } from './gitService.js';
 import { Storage } from '../config/storage.js';
 import * as path from 'node:path';
 import * as fs from 'node:fs/promises';
@@ -245,4 +245,226 @@ describe('GitService', () => {
       expect(hoistedMockCommit).not.toHaveBeenCalled();
     });
   });
+
+  describe('createFileSnapshot', () => {
+    it('should allow empty commits when asked to', async () => {
+      hoistedMockCommit.mockResolvedValue({ commit: 'abc123' });
+      const service = new GitService(projectRoot, storage);
+
+      await expect(
+        service.createFileSnapshot('Checkpoint: before refactor', {
+          allowEmpty: true,
+        }),
+      ).resolves.toBe('abc123');
+      expect(hoistedMockAdd).toHaveBeenCalledWith('.');
+      expect(hoistedMockCommit).toHaveBeenCalledWith(
+        'Checkpoint: before refactor',
+        { '--allow-empty': null },
+      );
+    });
+  });
+
+  describe('listSnapshots', () => {
+    it('should list the snapshots without the initial commit', async () => {
+      hoistedMockRaw.mockResolvedValue(
+        [
+          'bbb\x1f2025-01-02T10:00:00+00:00\x1fSnapshot for write_file',
+          'aaa\x1f2025-01-01T10:00:00+00:00\x1fCheckpoint: start',
+          'init\x1f2025-01-01T09:00:00+00:00\x1fInitial commit',
+          '',
+        ].join('\n'),
+      );
+      const service = new GitService(projectRoot, storage);
+
+      expect(await service.listSnapshots()).toEqual([
+        {
+          commitHash: 'bbb',
+          date: new Date('2025-01-02T10:00:00Z'),
+          message: 'Snapshot for write_file',
+        },
+        {
+          commitHash: 'aaa',
+          date: new Date('2025-01-01T10:00:00Z'),
+          message: 'Checkpoint: start',
+        },
+      ]);
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'log',
+        '--format=%H%x1f%aI%x1f%s',
+      ]);
+    });
+  });
+
+  describe('parseUnifiedDiff', () => {
+    it('should split a diff into files and hunks', () => {
+      const diff = [
+        'diff --git a/a.txt b/a.txt',
+        'deleted file mode 100644',
+        'index 7898192..0000000',
+        '--- a/a.txt',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-a',
+        'diff --git a/b.txt b/b.txt',
+        'index 08fe19c..f924a56 100644',
+        '--- a/b.txt',
+        '+++ b/b.txt',
+        '@@ -1,2 +1,2 @@',
+        '-1',
+        '+one',
+        ' 2',
+        '@@ -9,2 +9,2 @@',
+        ' 11',
+        '-12',
+        '+twelve',
+        '',
+      ].join('\n');
+
+      expect(parseUnifiedDiff(diff)).toEqual([
+        {
+          filePath: 'a.txt',
+          header: [
+            'diff --git a/a.txt b/a.txt',
+            'deleted file mode 100644',
+            'index 7898192..0000000',
+            '--- a/a.txt',
+            '+++ /dev/null',
+          ],
+          hunks: [['@@ -1 +0,0 @@', '-a']],
+        },
+        {
+          filePath: 'b.txt',
+          header: [
+            'diff --git a/b.txt b/b.txt',
+            'index 08fe19c..f924a56 100644',
+            '--- a/b.txt',
+            '+++ b/b.txt',
+          ],
+          hunks: [
+            ['@@ -1,2 +1,2 @@', '-1', '+one', ' 2'],
+            ['@@ -9,2 +9,2 @@', ' 11', '-12', '+twelve'],
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('restoreFilesFromSnapshot', () => {
+    it('should restore only the given files', async () => {
+      const service = new GitService(projectRoot, storage);
+
+      await service.restoreFilesFromSnapshot('abc123', ['src/a.ts', 'b.ts']);
+
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'restore',
+        '--source',
+        'abc123',
+        '--',
+        'src/a.ts',
+        'b.ts',
+      ]);
+    });
+  });
+
+  describe('restoreHunksFromSnapshot', () => {
+    const diff = [
+      'diff --git a/b.txt b/b.txt',
+      '--- a/b.txt',
+      '+++ b/b.txt',
+      '@@ -1,2 +1,2 @@',
+      '-1',
+      '+one',
+      '@@ -9,2 +9,2 @@',
+      '-12',
+      '+twelve',
+      '',
+    ].join('\n');
+
+    it('should reverse-apply the selected hunks', async () => {
+      let patch = '';
+      hoistedMockRaw.mockImplementation(async (args: string[]) => {
+        if (args[0] === 'diff') {
+          return diff;
+        }
+        patch = await fs.readFile(args[2], 'utf-8');
+        return '';
+      });
+      const service = new GitService(projectRoot, storage);
+      await service.setupShadowGitRepository();
+
+      await service.restoreHunksFromSnapshot('abc123', 'b.txt', [1]);
+
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'diff',
+        'abc123',
+        '--',
+        'b.txt',
+      ]);
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'apply',
+        '-R',
+        expect.any(String),
+      ]);
+      expect(patch).toBe(
+        [
+          'diff --git a/b.txt b/b.txt',
+          '--- a/b.txt',
+          '+++ b/b.txt',
+          '@@ -9,2 +9,2 @@',
+          '-12',
+          '+twelve',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should reject hunks that do not exist', async () => {
+      hoistedMockRaw.mockResolvedValue(diff);
+      const service = new GitService(projectRoot, storage);
+
+      await expect(
+        service.restoreHunksFromSnapshot('abc123', 'b.txt', [2]),
+      ).rejects.toThrow('b.txt has 2 hunks, there is no hunk 3.');
+    });
+  });
+
+  describe('getUnsnapshottedFiles', () => {
+    it('should list the untracked files', async () => {
+      hoistedMockRaw.mockResolvedValue('notes.txt\nscratch/todo.md\n');
+      const service = new GitService(projectRoot, storage);
+
+      expect(await service.getUnsnapshottedFiles()).toEqual([
+        'notes.txt',
+        'scratch/todo.md',
+      ]);
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'ls-files',
+        '--others',
+        '--exclude-standard',
+      ]);
+    });
+  });
+
+  describe('getSnapshotRestoreChanges', () => {
+    it('should list the files created or changed since the snapshot', async () => {
+      hoistedMockRaw.mockImplementation(async (args: string[]) =>
+        args[0] === 'diff'
+          ? 'A\tlater.txt\nM\tREADME.md\nD\told.txt\n'
+          : 'notes.txt\n',
+      );
+      const service = new GitService(projectRoot, storage);
+
+      expect(await service.getSnapshotRestoreChanges('abc123')).toEqual([
+        { filePath: 'later.txt', action: 'delete' },
+        { filePath: 'README.md', action: 'overwrite' },
+        { filePath: 'notes.txt', action: 'delete' },
+      ]);
+      expect(hoistedMockRaw).toHaveBeenCalledWith([
+        'diff',
+        '--name-status',
+        '--no-renames',
+        'abc123',
+      ]);
+    });
+  });
 });
@@ -12,6 +12,62 @@ import type { SimpleGit } from 'simple-git';
 import { simpleGit, CheckRepoActions } from 'simple-git';
 import type { Storage } from '../config/storage.js';
 
+/** The message prefix of the snapshots created by `/checkpoint save`. */
+export const NAMED_CHECKPOINT_PREFIX = 'Checkpoint: ';
+
+/** A commit of the shadow repository. */
+export interface Snapshot {
+  commitHash: string;
+  date: Date;
+  message: string;
+}
+
+/** The changes of one file between a snapshot and the working tree. */
+export interface SnapshotFileDiff {
+  filePath: string;
+  /** The `diff --git` header lines, up to the first hunk. */
+  header: string[];
+  /** The hunks, each starting with its `@@` line. */
+  hunks: string[][];
+}
+
+/** A file that restoring the project to a snapshot deletes or overwrites. */
+export interface SnapshotRestoreChange {
+  filePath: string;
+  /**
+   * `delete` for files created since the snapshot, `overwrite` for files
+   * changed since.
+   */
+  action: 'delete' | 'overwrite';
+}
+
+/**
+ * Splits the output of `git diff` into files and hunks. Paths are taken from
+ * the `b/` side, or the `a/` side for deleted files.
+ */
+export function parseUnifiedDiff(diff: string): SnapshotFileDiff[] {
+  const files: SnapshotFileDiff[] = [];
+  let current: SnapshotFileDiff | undefined;
+  for (const line of diff.split('\n')) {
+    const fileMatch = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+    if (fileMatch) {
+      current = { filePath: fileMatch[2], header: [line], hunks: [] };
+      files.push(current);
+    } else if (!current) {
+      continue;
+    } else if (line.startsWith('@@')) {
+      current.hunks.push([line]);
+    } else if (current.hunks.length > 0) {
+      if (line !== '') {
+        current.hunks[current.hunks.length - 1].push(line);
+      }
+    } else {
+      current.header.push(line);
+    }
+  }
+  return files;
+}
+
 export class GitService {
   private projectRoot: string;
   private storage: Storage;
@@ -108,11 +164,22 @@ export class GitService {
     return hash.trim();
   }
 
-  async createFileSnapshot(message: string): Promise<string> {
+  /**
+   * Commits the current state of the project to the shadow repository.
+   *
+   * @param options.allowEmpty Commits even if nothing changed since the last
+   *     snapshot, as done for named checkpoints.
+   */
+  async createFileSnapshot(
+    message: string,
+    options: { allowEmpty?: boolean } = {},
+  ): Promise<string> {
     try {
       const repo = this.shadowGitRepository;
       await repo.add('.');
-      const commitResult = await repo.commit(message);
+      const commitResult = options.allowEmpty
+        ? await repo.commit(message, { '--allow-empty': null })
+        : await repo.commit(message);
       return commitResult.commit;
     } catch (error) {
       throw new Error(
@@ -127,4 +194,134 @@ export class GitService {
     // Removes any untracked files that were introduced post snapshot.
     await repo.clean('f', ['-d']);
   }
+
+  /** Lists the snapshots, newest first, without the initial commit. */
+  async listSnapshots(): Promise<Snapshot[]> {
+    const log = await this.shadowGitRepository.raw([
+      'log',
+      '--format=%H%x1f%aI%x1f%s',
+    ]);
+    const commits = log
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map((line) => {
+        const [commitHash, date, message] = line.split('\x1f');
+        return { commitHash, date: new Date(date), message };
+      });
+    // The oldest commit is the empty one made when the repository was set up.
+    return commits.slice(0, -1);
+  }
+
+  /**
+   * Returns the changes between a snapshot and the working tree, optionally
+   * for a single file. Files that were never snapshotted are not included.
+   */
+  async getSnapshotDiff(
+    commitHash: string,
+    filePath?: string,
+  ): Promise<SnapshotFileDiff[]> {
+    const args = ['diff', commitHash];
+    if (filePath) {
+      args.push('--', filePath);
+    }
+    return parseUnifiedDiff(await this.shadowGitRepository.raw(args));
+  }
+
+  /**
+   * Restores files to their state in a snapshot. Files that did not exist in
+   * the snapshot are deleted.
+   */
+  async restoreFilesFromSnapshot(
+    commitHash: string,
+    filePaths: string[],
+  ): Promise<void> {
+    await this.shadowGitRepository.raw([
+      'restore',
+      '--source',
+      commitHash,
+      '--',
+      ...filePaths,
+    ]);
+  }
+
+  /**
+   * Reverts some of the hunks of `git diff <commitHash> -- <filePath>`.
+   *
+   * @param hunkIndexes Zero-based indexes of the hunks to revert.
+   */
+  async restoreHunksFromSnapshot(
+    commitHash: string,
+    filePath: string,
+    hunkIndexes: number[],
+  ): Promise<void> {
+    const [fileDiff] = await this.getSnapshotDiff(commitHash, filePath);
+    if (!fileDiff) {
+      throw new Error(`${filePath} has not changed since the checkpoint.`);
+    }
+    const invalid = hunkIndexes.filter(
+      (index) => index < 0 || index >= fileDiff.hunks.length,
+    );
+    if (invalid.length > 0) {
+      throw new Error(
+        `${filePath} has ${fileDiff.hunks.length} hunks, there is no hunk ${invalid.map((index) => index + 1).join(', ')}.`,
+      );
+    }
+    const patch = [
+      ...fileDiff.header,
+      ...[...hunkIndexes]
+        .sort((a, b) => a - b)
+        .flatMap((index) => fileDiff.hunks[index]),
+      '',
+    ].join('\n');
+    const patchPath = path.join(this.getHistoryDir(), 'restore.patch');
+    await fs.writeFile(patchPath, patch);
+    try {
+      await this.shadowGitRepository.raw(['apply', '-R', patchPath]);
+    } finally {
+      await fs.rm(patchPath, { force: true });
+    }
+  }
+
+  /**
+   * Returns the files created since the latest snapshot, which no snapshot
+   * contains yet.
+   */
+  async getUnsnapshottedFiles(): Promise<string[]> {
+    const output = await this.shadowGitRepository.raw([
+      'ls-files',
+      '--others',
+      '--exclude-standard',
+    ]);
+    return output.split('\n').filter((line) => line !== '');
+  }
+
+  /**
+   * Returns the files that {@link restoreProjectFromSnapshot} deletes or
+   * overwrites when restoring a snapshot: the files created or changed since,
+   * whether or not a later snapshot contains them. Files deleted since are
+   * brought back and not included.
+   */
+  async getSnapshotRestoreChanges(
+    commitHash: string,
+  ): Promise<SnapshotRestoreChange[]> {
+    const output = await this.shadowGitRepository.raw([
+      'diff',
+      '--name-status',
+      '--no-renames',
+      commitHash,
+    ]);
+    const changes: SnapshotRestoreChange[] = [];
+    for (const line of output.split('\n')) {
+      const [status, filePath] = line.split('\t');
+      if (status === 'A') {
+        changes.push({ filePath, action: 'delete' });
+      } else if (status === 'M' || status === 'T') {
+        changes.push({ filePath, action: 'overwrite' });
+      }
+    }
+    for (const filePath of await this.getUnsnapshottedFiles()) {
+      changes.push({ filePath, action: 'delete' });
+    }
+    return changes;
+  }
 }
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { simpleGit } from 'simple-git';
+import { RepositoryService } from './repositoryService.js';
+
+const GIT_CONFIG = [
+  '-c',
+  'user.name=Test',
+  '-c',
+  'user.email=test@example.com',
+  '-c',
+  'commit.gpgsign=false',
+];
+
+describe('RepositoryService', () => {
+  let repoDir: string;
+
+  const git = (...args: string[]) =>
+    simpleGit(repoDir).raw([...GIT_CONFIG, ...args]);
+
+  beforeEach(async () => {
+    repoDir = await fs.realpath(
+      await fs.mkdtemp(path.join(os.tmpdir(), 'repository-service-test-')),
+    );
+    await git('init', '--quiet', '--initial-branch=main');
+    await git('config', 'user.name', 'Test');
+    await git('config', 'user.email', 'test@example.com');
+    await git('config', 'commit.gpgsign', 'false');
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoDir, { recursive: true, force: true });
+  });
+
+  it('should return no messages for a repository without commits', async () => {
+    const service = new RepositoryService(repoDir);
+    expect(await service.isRepository()).toBe(true);
+    expect(await service.getRecentCommitMessages()).toEqual([]);
+  });
+
+  it('should commit the staged changes', async () => {
+    const service = new RepositoryService(repoDir);
+    await fs.writeFile(path.join(repoDir, 'a.txt'), 'a\n');
+    await git('add', 'a.txt');
+    expect(await service.getStagedDiff()).toContain('+a');
+
+    const hash = await service.commit('Add a\n\nWith a body.\n# A comment');
+
+    expect(hash).toMatch(/^[0-9a-f]{40}$/);
+    expect(await service.getStagedDiff()).toBe('');
+    expect(await service.getRecentCommitMessages()).toEqual([
+      'Add a\n\nWith a body.',
+    ]);
+  });
+
+  it('should read the changes and commits of a branch', async () => {
+    const service = new RepositoryService(repoDir);
+    await fs.writeFile(path.join(repoDir, 'a.txt'), 'a\n');
+    await git('add', 'a.txt');
+    await git('commit', '--quiet', '-m', 'Add a');
+    await git('checkout', '--quiet', '-b', 'feature');
+    await fs.writeFile(path.join(repoDir, 'b.txt'), 'b\n');
+    await git('add', 'b.txt');
+    await git('commit', '--quiet', '-m', 'Add b');
+
+    const base = await service.getDefaultBranch();
+
+    expect(base).toBe('main');
+    expect(await service.getBranchCommitMessages(base)).toEqual(['Add b']);
+    const diff = await service.getBranchDiff(base);
+    expect(diff).toContain('b.txt');
+    expect(diff).not.toContain('a.txt');
+  });
+
+  it('should find the pull request template from a subdirectory', async () => {
+    await fs.mkdir(path.join(repoDir, '.github'));
+    await fs.mkdir(path.join(repoDir, 'src'));
+    await fs.writeFile(
+      path.join(repoDir, '.github', 'pull_request_template.md'),
+      '## Summary\n',
+    );
+
+    const service = new RepositoryService(path.join(repoDir, 'src'));
+
+    expect(await service.findPullRequestTemplate()).toEqual({
+      path: '.github/pull_request_template.md',
+      content: '## Summary\n',
+    });
+  });
+
+  it('should return undefined without a pull request template', async () => {
+    const service = new RepositoryService(repoDir);
+    expect(await service.findPullRequestTemplate()).toBeUndefined();
+  });
+});
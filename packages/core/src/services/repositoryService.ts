@@ -0,0 +1,150 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { simpleGit, type SimpleGit } from 'simple-git';
+
+// The places GitHub looks for a pull request template, in its order.
+const PULL_REQUEST_TEMPLATE_PATHS = [
+  '.github/pull_request_template.md',
+  '.github/PULL_REQUEST_TEMPLATE.md',
+  'PULL_REQUEST_TEMPLATE.md',
+  'pull_request_template.md',
+  'docs/pull_request_template.md',
+  'docs/PULL_REQUEST_TEMPLATE.md',
+];
+
+// Separates commit messages in `git log` output, since they span lines.
+const RECORD_SEPARATOR = '\x1e';
+
+export interface PullRequestTemplate {
+  /** The path of the template, relative to the repository root. */
+  path: string;
+  content: string;
+}
+
+/**
+ * Reads and commits to the user's own repository, unlike `GitService`, which
+ * keeps checkpoints in a shadow repository.
+ */
+export class RepositoryService {
+  private readonly git: SimpleGit;
+
+  constructor(readonly cwd: string) {
+    this.git = simpleGit(cwd);
+  }
+
+  async isRepository(): Promise<boolean> {
+    return this.git.checkIsRepo();
+  }
+
+  async getRoot(): Promise<string> {
+    return (await this.git.raw(['rev-parse', '--show-toplevel'])).trim();
+  }
+
+  /** Returns the staged changes as a unified diff. */
+  async getStagedDiff(): Promise<string> {
+    return this.git.raw(['diff', '--cached']);
+  }
+
+  /** Returns the full messages of the latest commits, newest first. */
+  async getRecentCommitMessages(count = 20): Promise<string[]> {
+    try {
+      const log = await this.git.raw([
+        'log',
+        `-n${count}`,
+        `--format=%B${RECORD_SEPARATOR}`,
+      ]);
+      return log
+        .split(RECORD_SEPARATOR)
+        .map((message) => message.trim())
+        .filter(Boolean);
+    } catch {
+      // A repository without commits has no log.
+      return [];
+    }
+  }
+
+  /**
+   * Commits the staged changes with the given message, running the
+   * repository's hooks.
+   *
+   * @returns The hash of the new commit.
+   */
+  async commit(message: string): Promise<string> {
+    await this.git.raw(['commit', '--quiet', '--cleanup=strip', '-m', message]);
+    return (await this.git.raw(['rev-parse', 'HEAD'])).trim();
+  }
+
+  /**
+   * Returns the branch pull requests are made against: the remote's default
+   * branch if known, otherwise `main` or `master`.
+   */
+  async getDefaultBranch(): Promise<string> {
+    try {
+      const remoteHead = (
+        await this.git.raw([
+          'symbolic-ref',
+          '--quiet',
+          '--short',
+          'refs/remotes/origin/HEAD',
+        ])
+      ).trim();
+      if (remoteHead) {
+        return remoteHead;
+      }
+    } catch {
+      // The remote's default branch is not known.
+    }
+    for (const branch of ['main', 'master']) {
+      try {
+        await this.git.raw(['rev-parse', '--verify', '--quiet', branch]);
+        return branch;
+      } catch {
+        // The branch does not exist.
+      }
+    }
+    throw new Error(
+      'Could not find the default branch. Neither origin/HEAD, main nor master exists.',
+    );
+  }
+
+  /** Returns the changes of `HEAD` since it branched off `base`. */
+  async getBranchDiff(base: string): Promise<string> {
+    return this.git.raw(['diff', `${base}...HEAD`]);
+  }
+
+  /** Returns the messages of the commits on `HEAD` that are not on `base`. */
+  async getBranchCommitMessages(base: string): Promise<string[]> {
+    const log = await this.git.raw([
+      'log',
+      `--format=%B${RECORD_SEPARATOR}`,
+      `${base}..HEAD`,
+    ]);
+    return log
+      .split(RECORD_SEPARATOR)
+      .map((message) => message.trim())
+      .filter(Boolean);
+  }
+
+  /** Returns the repository's pull request template, if it has one. */
+  async findPullRequestTemplate(): Promise<PullRequestTemplate | undefined> {
+    const root = await this.getRoot();
+    for (const templatePath of PULL_REQUEST_TEMPLATE_PATHS) {
+      try {
+        const content = await fs.readFile(
+          path.join(root, templatePath),
+          'utf-8',
+        );
+        return { path: templatePath, content };
+      } catch {
+        // Try the next location.
+      }
+    }
+    return undefined;
+  }
+}
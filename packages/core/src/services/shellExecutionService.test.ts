@@ -1107,3 +1107,154 @@ describe('ShellExecutionService execution method selection', () => {
     expect(result.executionMethod).toBe('child_process');
   });
 });
+
+describe('ShellExecutionService background jobs', () => {
+  let mockChildProcess: EventEmitter & Partial<ChildProcess>;
+  let mockStdinWrite: Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPlatform.mockReturnValue('linux');
+    mockGetPty.mockResolvedValue(null);
+    mockProcessKill.mockImplementation(() => true);
+
+    mockChildProcess = new EventEmitter() as EventEmitter &
+      Partial<ChildProcess>;
+    mockChildProcess.stdout = new EventEmitter() as Readable;
+    mockChildProcess.stderr = new EventEmitter() as Readable;
+    mockStdinWrite = vi.fn();
+    mockChildProcess.stdin = {
+      write: mockStdinWrite,
+    } as unknown as ChildProcess['stdin'];
+    mockChildProcess.kill = vi.fn();
+    Object.defineProperty(mockChildProcess, 'pid', {
+      value: 4242,
+      configurable: true,
+    });
+    mockCpSpawn.mockReturnValue(mockChildProcess);
+  });
+
+  const startJob = () =>
+    ShellExecutionService.executeInBackground(
+      'npm run dev',
+      '/test/dir',
+      true,
+      shellExecutionConfig,
+    );
+
+  it('should keep the job and return its output incrementally', async () => {
+    const job = await startJob();
+
+    expect(mockCpSpawn).toHaveBeenCalledWith(
+      'bash',
+      ['-c', 'npm run dev'],
+      expect.objectContaining({
+        stdio: ['pipe', 'pipe', 'pipe'],
+        detached: true,
+      }),
+    );
+    expect(ShellExecutionService.getBackgroundJob(job.id)).toBe(job);
+    expect(job.pid).toBe(4242);
+    expect(job.status).toBe('running');
+
+    mockChildProcess.stdout?.emit(
+      'data',
+      Buffer.from('\x1b[32mstarting\x1b[0m\n'),
+    );
+    expect(job.readOutput()).toEqual({ output: 'starting\n', droppedChars: 0 });
+
+    mockChildProcess.stderr?.emit('data', Buffer.from('ready\r\n'));
+    mockChildProcess.emit('exit', 1, null);
+    expect(job.readOutput()).toEqual({ output: 'ready\n', droppedChars: 0 });
+    expect(job.readOutput()).toEqual({ output: '', droppedChars: 0 });
+    expect(job.status).toBe('exited');
+    expect(job.getExitCode()).toBe(1);
+  });
+
+  it('should wait for the output to match a pattern', async () => {
+    const job = await startJob();
+
+    const waiting = job.waitFor({
+      pattern: /listening on (\d+)/,
+      timeoutMs: 5000,
+    });
+    mockChildProcess.stdout?.emit('data', Buffer.from('listening on 3000\n'));
+
+    expect(await waiting).toEqual({
+      outcome: 'matched',
+      match: 'listening on 3000',
+    });
+  });
+
+  it('should stop waiting when the job exits or the timeout passes', async () => {
+    const job = await startJob();
+
+    expect(await job.waitFor({ pattern: /ready/, timeoutMs: 0 })).toEqual({
+      outcome: 'timeout',
+    });
+
+    mockChildProcess.emit('exit', 0, null);
+    expect(await job.waitFor({ pattern: /ready/, timeoutMs: 5000 })).toEqual({
+      outcome: 'exited',
+    });
+  });
+
+  it('should write input to a running job only', async () => {
+    const job = await startJob();
+
+    job.writeInput('y\n');
+    expect(mockStdinWrite).toHaveBeenCalledWith('y\n');
+
+    mockChildProcess.emit('exit', 0, null);
+    expect(() => job.writeInput('y\n')).toThrow(
+      `Background job ${job.id} is not running.`,
+    );
+  });
+
+  it('should kill the process group of the job', async () => {
+    const job = await startJob();
+    mockProcessKill.mockImplementation((pid, signal) => {
+      if (pid === -4242 && signal === 'SIGTERM') {
+        mockChildProcess.emit('exit', null, 'SIGTERM');
+      }
+      return true;
+    });
+
+    await job.kill();
+
+    expect(mockProcessKill).toHaveBeenCalledWith(-4242, 'SIGTERM');
+    expect(mockProcessKill).not.toHaveBeenCalledWith(-4242, 'SIGKILL');
+    expect(job.status).toBe('exited');
+    expect(job.getExitSignal()).toBe(15);
+  });
+
+  it('should escalate to SIGKILL if the job ignores SIGTERM', async () => {
+    const job = await startJob();
+    mockProcessKill.mockImplementation((pid, signal) => {
+      if (signal === 'SIGKILL') {
+        mockChildProcess.emit('exit', null, 'SIGKILL');
+      }
+      return true;
+    });
+
+    await job.kill();
+
+    expect(mockProcessKill).toHaveBeenCalledWith(-4242, 'SIGTERM');
+    expect(mockProcessKill).toHaveBeenCalledWith(-4242, 'SIGKILL');
+    expect(job.status).toBe('exited');
+  });
+
+  it('should kill every job on exit', async () => {
+    await startJob();
+    const kills = ShellExecutionService.getBackgroundJobs().map((job) =>
+      vi.spyOn(job, 'kill').mockResolvedValue(undefined),
+    );
+
+    await ShellExecutionService.killAllBackgroundJobs();
+
+    expect(kills.length).toBeGreaterThan(0);
+    for (const kill of kills) {
+      expect(kill).toHaveBeenCalledOnce();
+    }
+  });
+});
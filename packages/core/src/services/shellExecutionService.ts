@@ -9,6 +9,7 @@ import type { PtyImplementation } from '../utils/getPty.js';
 import { getPty } from '../utils/getPty.js';
 import { spawn as cpSpawn } from 'node:child_process';
 import { TextDecoder } from 'node:util';
+import net from 'node:net';
 import os from 'node:os';
 import type { IPty } from '@lydell/node-pty';
 import { getCachedEncodingForBuffer } from '../utils/systemEncoding.js';
@@ -23,6 +24,9 @@ const { Terminal } = pkg;
 
 const SIGKILL_TIMEOUT_MS = 200;
 const MAX_CHILD_PROCESS_BUFFER_SIZE = 16 * 1024 * 1024; // 16MB
+const MAX_BACKGROUND_OUTPUT_SIZE = 1024 * 1024; // 1MB per background job
+const BACKGROUND_SCROLLBACK_LINES = 5000;
+const BACKGROUND_WAIT_INTERVAL_MS = 250;
 
 /** A structured result from a shell command execution. */
 export interface ShellExecutionResult {
@@ -108,6 +112,8 @@ const getFullBufferText = (terminal: pkg.Terminal): string => {
 
 export class ShellExecutionService {
   private static activePtys = new Map<number, ActivePty>();
+  private static backgroundJobs = new Map<number, BackgroundShellJob>();
+  private static nextBackgroundJobId = 1;
   /**
    * Executes a shell command using `node-pty`, capturing all output and lifecycle events.
    *
@@ -792,4 +798,361 @@ export class ShellExecutionService {
       }
     }
   }
+  /**
+   * Starts a command that keeps running after the tool call returns, such as
+   * a dev server or a file watcher. The job keeps the process and its output
+   * until it is killed or the CLI exits.
+   *
+   * @param commandToExecute The exact command string to run.
+   * @param cwd The working directory to execute the command in.
+   * @returns The job, which is also listed by `getBackgroundJobs`.
+   */
+  static async executeInBackground(
+    commandToExecute: string,
+    cwd: string,
+    shouldUseNodePty: boolean,
+    shellExecutionConfig: ShellExecutionConfig,
+  ): Promise<BackgroundShellJob> {
+    const cols = shellExecutionConfig.terminalWidth ?? 80;
+    const rows = shellExecutionConfig.terminalHeight ?? 30;
+    const { executable, argsPrefix } = getShellConfiguration();
+    const args = [...argsPrefix, commandToExecute];
+    const env = {
+      ...process.env,
+      GEMINI_CLI: '1',
+      TERM: 'xterm-256color',
+      PAGER: shellExecutionConfig.pager ?? 'cat',
+    };
+    const terminal = new Terminal({
+      allowProposedApi: true,
+      cols,
+      rows,
+      scrollback: BACKGROUND_SCROLLBACK_LINES,
+      // Output of a plain child process has bare line feeds.
+      convertEol: true,
+    });
+    const job = new BackgroundShellJob(
+      this.nextBackgroundJobId++,
+      commandToExecute,
+      cwd,
+      terminal,
+    );
+
+    const ptyInfo = shouldUseNodePty ? await getPty() : null;
+    let started = false;
+    if (ptyInfo) {
+      try {
+        const ptyProcess = ptyInfo.module.spawn(executable, args, {
+          cwd,
+          name: 'xterm',
+          cols,
+          rows,
+          env,
+          handleFlowControl: true,
+        });
+        job.attach({
+          pid: ptyProcess.pid,
+          write: (input) => ptyProcess.write(input),
+          kill: (signal) => ptyProcess.kill(signal),
+        });
+        ptyProcess.onData((data: string) => job.appendOutput(data));
+        ptyProcess.onExit(
+          ({ exitCode, signal }: { exitCode: number; signal?: number }) =>
+            job.markExited(exitCode, signal ?? null),
+        );
+        started = true;
+      } catch (_e) {
+        // Fallback to child_process
+      }
+    }
+
+    if (!started) {
+      const isWindows = os.platform() === 'win32';
+      const child = cpSpawn(executable, args, {
+        cwd,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        windowsVerbatimArguments: isWindows ? false : undefined,
+        shell: false,
+        detached: !isWindows,
+        env,
+      });
+      job.attach({
+        pid: child.pid,
+        write: (input) => child.stdin?.write(input),
+        kill: (signal) => child.kill(signal as NodeJS.Signals | undefined),
+      });
+      const decoders: Record<'stdout' | 'stderr', TextDecoder | null> = {
+        stdout: null,
+        stderr: null,
+      };
+      const handleOutput = (data: Buffer, stream: 'stdout' | 'stderr') => {
+        let decoder = decoders[stream];
+        if (!decoder) {
+          try {
+            decoder = new TextDecoder(getCachedEncodingForBuffer(data));
+          } catch {
+            decoder = new TextDecoder('utf-8');
+          }
+          decoders[stream] = decoder;
+        }
+        job.appendOutput(decoder.decode(data, { stream: true }));
+      };
+      child.stdout?.on('data', (data) => handleOutput(data, 'stdout'));
+      child.stderr?.on('data', (data) => handleOutput(data, 'stderr'));
+      child.on('error', (err) => {
+        job.appendOutput(`${err.message}\n`);
+        job.markExited(1, null);
+      });
+      child.on('exit', (code, signal) =>
+        job.markExited(code, signal ? os.constants.signals[signal] : null),
+      );
+    }
+
+    this.backgroundJobs.set(job.id, job);
+    return job;
+  }
+
+  static getBackgroundJob(id: number): BackgroundShellJob | undefined {
+    return this.backgroundJobs.get(id);
+  }
+
+  /** Returns the background jobs of this session, oldest first. */
+  static getBackgroundJobs(): BackgroundShellJob[] {
+    return [...this.backgroundJobs.values()];
+  }
+
+  /** Kills the background jobs that are still running, e.g. on exit. */
+  static async killAllBackgroundJobs(): Promise<void> {
+    await Promise.all(this.getBackgroundJobs().map((job) => job.kill()));
+  }
+}
+
+/** The process behind a background job, either a PTY or a child process. */
+interface BackgroundProcess {
+  pid: number | undefined;
+  write(input: string): void;
+  kill(signal?: string): void;
+}
+
+export type BackgroundJobStatus = 'running' | 'exited';
+
+export interface BackgroundOutput {
+  /** The output since the previous read, without ANSI escape codes. */
+  output: string;
+  /**
+   * How many characters of output were dropped before they could be read,
+   * because the job keeps only its latest output.
+   */
+  droppedChars: number;
+}
+
+export interface BackgroundWaitOptions {
+  /** Resolves once the output of the job matches this pattern. */
+  pattern?: RegExp;
+  /** Resolves once a TCP connection to this port succeeds. */
+  port?: number;
+  /** The host of `port`. Defaults to `127.0.0.1`. */
+  host?: string;
+  timeoutMs: number;
+  signal?: AbortSignal;
+}
+
+export type BackgroundWaitResult =
+  | { outcome: 'matched'; match: string }
+  | { outcome: 'port_open' }
+  | { outcome: 'exited' }
+  | { outcome: 'timeout' }
+  | { outcome: 'aborted' };
+
+function isPortOpen(port: number, host: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ port, host });
+    const finish = (open: boolean) => {
+      socket.destroy();
+      resolve(open);
+    };
+    socket.setTimeout(BACKGROUND_WAIT_INTERVAL_MS, () => finish(false));
+    socket.once('connect', () => finish(true));
+    socket.once('error', () => finish(false));
+  });
+}
+
+/**
+ * A command started by `ShellExecutionService.executeInBackground`.
+ *
+ * The output is kept twice: rendered in a headless terminal, which shows
+ * the screen of interactive programs, and as plain text, which is read
+ * incrementally.
+ */
+export class BackgroundShellJob {
+  readonly startTime = new Date();
+  private process: BackgroundProcess | undefined;
+  private output = '';
+  // Offsets count every character of output since the job started.
+  private droppedChars = 0;
+  private readOffset = 0;
+  private exitCode: number | null = null;
+  private exitSignal: number | null = null;
+  private exited = false;
+  private exitListeners: Array<() => void> = [];
+
+  constructor(
+    readonly id: number,
+    readonly command: string,
+    readonly cwd: string,
+    private readonly terminal: pkg.Terminal,
+  ) {}
+
+  get pid(): number | undefined {
+    return this.process?.pid;
+  }
+
+  get status(): BackgroundJobStatus {
+    return this.exited ? 'exited' : 'running';
+  }
+
+  /** The exit code, or null while running or if terminated by a signal. */
+  getExitCode(): number | null {
+    return this.exitCode;
+  }
+
+  getExitSignal(): number | null {
+    return this.exitSignal;
+  }
+
+  /** Connects the job to its process. Used by `ShellExecutionService`. */
+  attach(process: BackgroundProcess): void {
+    this.process = process;
+  }
+
+  /** Records output of the process. Used by `ShellExecutionService`. */
+  appendOutput(chunk: string): void {
+    if (!chunk) {
+      return;
+    }
+    this.terminal.write(chunk);
+    this.output += stripAnsi(chunk).replace(/\r\n?/g, '\n');
+    const excess = this.output.length - MAX_BACKGROUND_OUTPUT_SIZE;
+    if (excess > 0) {
+      this.output = this.output.substring(excess);
+      this.droppedChars += excess;
+    }
+  }
+
+  /** Records the exit of the process. Used by `ShellExecutionService`. */
+  markExited(exitCode: number | null, signal: number | null): void {
+    if (this.exited) {
+      return;
+    }
+    this.exited = true;
+    this.exitCode = exitCode;
+    this.exitSignal = signal;
+    for (const listener of this.exitListeners.splice(0)) {
+      listener();
+    }
+  }
+
+  /** Returns the output since the previous call. */
+  readOutput(): BackgroundOutput {
+    const start = Math.max(this.readOffset, this.droppedChars);
+    const result = {
+      output: this.output.substring(start - this.droppedChars),
+      droppedChars: start - this.readOffset,
+    };
+    this.readOffset = this.droppedChars + this.output.length;
+    return result;
+  }
+
+  /** Returns the latest output without changing what `readOutput` returns. */
+  peekOutput(maxLines: number): string {
+    return this.output.trimEnd().split('\n').slice(-maxLines).join('\n');
+  }
+
+  /** Returns the text of the job's terminal, including its scrollback. */
+  getScreenText(): string {
+    return getFullBufferText(this.terminal);
+  }
+
+  /**
+   * Writes to the job's standard input, e.g. to answer a prompt.
+   */
+  writeInput(input: string): void {
+    if (this.exited || !this.process) {
+      throw new Error(`Background job ${this.id} is not running.`);
+    }
+    this.process.write(input);
+  }
+
+  /**
+   * Waits until the output matches a pattern, a port accepts connections,
+   * the job exits or the timeout passes, whichever comes first. The pattern
+   * is matched against all the output the job kept, read or not.
+   */
+  async waitFor(options: BackgroundWaitOptions): Promise<BackgroundWaitResult> {
+    const deadline = Date.now() + options.timeoutMs;
+    while (true) {
+      const match = options.pattern && this.output.match(options.pattern);
+      if (match) {
+        return { outcome: 'matched', match: match[0] };
+      }
+      if (
+        options.port !== undefined &&
+        (await isPortOpen(options.port, options.host ?? '127.0.0.1'))
+      ) {
+        return { outcome: 'port_open' };
+      }
+      if (this.exited) {
+        return { outcome: 'exited' };
+      }
+      if (options.signal?.aborted) {
+        return { outcome: 'aborted' };
+      }
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        return { outcome: 'timeout' };
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(BACKGROUND_WAIT_INTERVAL_MS, remaining)),
+      );
+    }
+  }
+
+  /**
+   * Terminates the job and the processes it started, and resolves once it
+   * exited.
+   */
+  async kill(): Promise<void> {
+    const pid = this.process?.pid;
+    if (this.exited || !this.process) {
+      return;
+    }
+    const exited = new Promise<void>((resolve) =>
+      this.exitListeners.push(resolve),
+    );
+    const waitForExit = () =>
+      Promise.race([
+        exited.then(() => true),
+        new Promise<boolean>((resolve) =>
+          setTimeout(() => resolve(false), SIGKILL_TIMEOUT_MS),
+        ),
+      ]);
+
+    if (os.platform() === 'win32' || !pid) {
+      this.process.kill();
+    } else {
+      try {
+        // Kill the entire process group
+        process.kill(-pid, 'SIGTERM');
+        if (!(await waitForExit())) {
+          process.kill(-pid, 'SIGKILL');
+        }
+      } catch (_e) {
+        this.process.kill('SIGKILL');
+      }
+    }
+    if (!(await waitForExit())) {
+      // The process did not report its exit; do not keep it listed as running.
+      this.markExited(null, os.constants.signals.SIGKILL);
+    }
+  }
 }
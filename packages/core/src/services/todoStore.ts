@@ -0,0 +1,67 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Todo } from '../tools/tools.js';
+
+/**
+ * A plan produced by the `sequential_thinking` tool.
+ */
+export interface SessionPlan {
+  /** The request the plan was made for. */
+  goal: string;
+  /** The steps of the plan, in order. */
+  steps: string[];
+  createdAt: string;
+}
+
+/**
+ * Holds the todo list and the current plan of a session, so the planning and
+ * todo tools share the same state.
+ */
+export class TodoStore {
+  private todos: Todo[] = [];
+  private plan?: SessionPlan;
+
+  getTodos(): Todo[] {
+    return this.todos.map((todo) => ({ ...todo }));
+  }
+
+  setTodos(todos: Todo[]): void {
+    this.todos = todos.map((todo) => ({ ...todo }));
+  }
+
+  getPlan(): SessionPlan | undefined {
+    return this.plan;
+  }
+
+  /**
+   * Stores a new plan and replaces the todo list with its steps, all pending.
+   */
+  setPlan(goal: string, steps: string[]): SessionPlan {
+    this.plan = {
+      goal,
+      steps: [...steps],
+      createdAt: new Date().toISOString(),
+    };
+    this.todos = steps.map((description) => ({
+      description,
+      status: 'pending',
+    }));
+    return this.plan;
+  }
+
+  clear(): void {
+    this.todos = [];
+    this.plan = undefined;
+  }
+}
+
+/**
+ * The todo store of the subagent run being executed, if any. Subagents plan
+ * in their own store so that they don't replace the session's todo list.
+ */
+export const todoStoreContext = new AsyncLocalStorage<TodoStore>();
@@ -0,0 +1,154 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { simpleGit } from 'simple-git';
+import { WorktreeService } from './worktreeService.js';
+import type { Storage } from '../config/storage.js';
+
+describe('WorktreeService', () => {
+  let testRootDir: string;
+  let projectRoot: string;
+  let storage: Storage;
+
+  const readProjectFile = (file: string) =>
+    fs.readFile(path.join(projectRoot, file), 'utf-8');
+
+  beforeEach(async () => {
+    testRootDir = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'worktree-service-test-'),
+    );
+    projectRoot = path.join(testRootDir, 'project');
+    await fs.mkdir(projectRoot);
+    await fs.writeFile(path.join(projectRoot, 'a.txt'), '1\n2\n3\n');
+    storage = {
+      getProjectTempDir: () => path.join(testRootDir, 'tmp'),
+    } as unknown as Storage;
+  });
+
+  afterEach(async () => {
+    await fs.rm(testRootDir, { recursive: true, force: true });
+  });
+
+  describe('in a git repository', () => {
+    beforeEach(async () => {
+      const repo = simpleGit(projectRoot);
+      await repo.raw(['init', '--quiet']);
+      await repo.raw(['add', '-A']);
+      await repo.raw([
+        '-c',
+        'user.name=Test',
+        '-c',
+        'user.email=test@example.com',
+        '-c',
+        'commit.gpgsign=false',
+        'commit',
+        '--quiet',
+        '-m',
+        'base',
+      ]);
+    });
+
+    it('should work in a git worktree and apply its changes', async () => {
+      const worktree = await WorktreeService.create(
+        projectRoot,
+        storage,
+        'session-1',
+      );
+      expect(worktree.kind).toBe('git-worktree');
+      expect(worktree.workingDir).toBe(
+        path.join(testRootDir, 'tmp', 'worktrees', 'session-1'),
+      );
+
+      await fs.writeFile(
+        path.join(worktree.workingDir, 'a.txt'),
+        '1\ntwo\n3\n',
+      );
+      await fs.writeFile(path.join(worktree.workingDir, 'b.txt'), 'new\n');
+      expect(await readProjectFile('a.txt')).toBe('1\n2\n3\n');
+      expect(
+        (await worktree.getChangedFiles()).map((file) => file.filePath),
+      ).toEqual(['a.txt', 'b.txt']);
+      expect(await worktree.hasUnappliedChanges()).toBe(true);
+
+      expect(await worktree.apply()).toEqual({
+        appliedFiles: ['a.txt', 'b.txt'],
+        conflictedFiles: [],
+      });
+      expect(await readProjectFile('a.txt')).toBe('1\ntwo\n3\n');
+      expect(await readProjectFile('b.txt')).toBe('new\n');
+      expect(await worktree.hasUnappliedChanges()).toBe(false);
+    });
+
+    it('should report the files that conflict', async () => {
+      const worktree = await WorktreeService.create(
+        projectRoot,
+        storage,
+        'session-1',
+      );
+      await fs.writeFile(
+        path.join(worktree.workingDir, 'a.txt'),
+        '1\ntwo\n3\n',
+      );
+      await fs.writeFile(path.join(worktree.workingDir, 'b.txt'), 'new\n');
+      await fs.writeFile(path.join(projectRoot, 'a.txt'), '1\nTWO\n3\n');
+
+      expect(await worktree.apply()).toEqual({
+        appliedFiles: ['b.txt'],
+        conflictedFiles: ['a.txt'],
+      });
+      expect(await readProjectFile('a.txt')).toBe('1\nTWO\n3\n');
+      await expect(
+        fs.stat(path.join(projectRoot, 'a.txt.rej')),
+      ).resolves.toBeDefined();
+    });
+
+    it('should remove the worktree when discarded', async () => {
+      const worktree = await WorktreeService.create(
+        projectRoot,
+        storage,
+        'session-1',
+      );
+
+      await worktree.discard();
+
+      expect(worktree.isDiscarded()).toBe(true);
+      await expect(fs.stat(worktree.workingDir)).rejects.toThrow();
+      expect(
+        await simpleGit(projectRoot).raw(['worktree', 'list']),
+      ).not.toContain('session-1');
+      await expect(worktree.getDiff()).rejects.toThrow(
+        'The worktree of this session was discarded.',
+      );
+    });
+  });
+
+  describe('outside a git repository', () => {
+    it('should work in a copy and apply its changes', async () => {
+      const worktree = await WorktreeService.create(
+        projectRoot,
+        storage,
+        'session-1',
+      );
+      expect(worktree.kind).toBe('copy');
+
+      await fs.writeFile(path.join(worktree.workingDir, 'a.txt'), '1\n2\n');
+      expect(await worktree.getDiff()).toContain('-3');
+
+      expect(await worktree.apply()).toEqual({
+        appliedFiles: ['a.txt'],
+        conflictedFiles: [],
+      });
+      expect(await readProjectFile('a.txt')).toBe('1\n2\n');
+
+      await worktree.discard();
+      await expect(fs.stat(worktree.workingDir)).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { simpleGit } from 'simple-git';
+import type { Storage } from '../config/storage.js';
+import { findGitRoot } from '../utils/gitUtils.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { parseUnifiedDiff, type SnapshotFileDiff } from './gitService.js';
+
+/**
+ * How the isolated tree was made: a `git worktree` of the project's
+ * repository, or a copy of a directory that is not in a repository.
+ */
+export type WorktreeKind = 'git-worktree' | 'copy';
+
+export interface WorktreeApplyResult {
+  /** The files that were patched cleanly. */
+  appliedFiles: string[];
+  /**
+   * The files with hunks that did not apply. The rejected hunks are left
+   * next to them in `<file>.rej`.
+   */
+  conflictedFiles: string[];
+}
+
+// The copy's repository must not pick up the user's signing or hooks setup.
+const COPY_GIT_CONFIG = [
+  '-c',
+  'user.name=Gemini CLI',
+  '-c',
+  'user.email=gemini-cli@google.com',
+  '-c',
+  'commit.gpgsign=false',
+];
+
+/**
+ * An isolated copy of the project that a session works in, so that changes
+ * can be reviewed before they reach the user's checkout.
+ *
+ * Git repositories get a detached `git worktree` of `HEAD`, so uncommitted
+ * changes and ignored files of the checkout are not in it. Other directories
+ * are copied, and a repository is created in the copy to track the changes.
+ */
+export class WorktreeService {
+  private discarded = false;
+  private lastAppliedDiff: string | undefined;
+
+  private constructor(
+    /** The directory the session was started in. */
+    readonly projectRoot: string,
+    /** The directory patches are applied to. */
+    private readonly applyRoot: string,
+    /** The root of the isolated tree. */
+    readonly worktreeRoot: string,
+    readonly kind: WorktreeKind,
+    private readonly baseCommit: string,
+  ) {}
+
+  /**
+   * The directory in the isolated tree that matches the project root, which
+   * the session uses as its target directory.
+   */
+  get workingDir(): string {
+    return path.join(
+      this.worktreeRoot,
+      path.relative(this.applyRoot, this.projectRoot),
+    );
+  }
+
+  /**
+   * Creates the isolated tree in the project's temporary directory.
+   */
+  static async create(
+    projectRoot: string,
+    storage: Storage,
+    sessionId: string,
+  ): Promise<WorktreeService> {
+    const root = path.resolve(projectRoot);
+    const worktreeRoot = path.join(
+      storage.getProjectTempDir(),
+      'worktrees',
+      sessionId,
+    );
+    await fs.mkdir(path.dirname(worktreeRoot), { recursive: true });
+
+    try {
+      const gitRoot = findGitRoot(root);
+      if (gitRoot) {
+        const repo = simpleGit(gitRoot);
+        const baseCommit = (await repo.raw(['rev-parse', 'HEAD'])).trim();
+        await repo.raw(['worktree', 'add', '--detach', worktreeRoot, 'HEAD']);
+        return new WorktreeService(
+          root,
+          gitRoot,
+          worktreeRoot,
+          'git-worktree',
+          baseCommit,
+        );
+      }
+
+      await fs.cp(root, worktreeRoot, { recursive: true });
+      const repo = simpleGit(worktreeRoot);
+      await repo.raw(['init', '--quiet']);
+      await repo.raw(['add', '-A']);
+      await repo.raw([
+        ...COPY_GIT_CONFIG,
+        'commit',
+        '--quiet',
+        '--allow-empty',
+        '-m',
+        'Worktree base',
+      ]);
+      const baseCommit = (await repo.raw(['rev-parse', 'HEAD'])).trim();
+      return new WorktreeService(root, root, worktreeRoot, 'copy', baseCommit);
+    } catch (error) {
+      throw new Error(
+        `Failed to create the worktree for the session: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+
+  isDiscarded(): boolean {
+    return this.discarded;
+  }
+
+  /**
+   * Returns the changes made in the isolated tree as a unified diff,
+   * including new files and anything the session committed there.
+   *
+   * @param options.binary Includes binary changes, as needed to apply them.
+   */
+  async getDiff(
+    options: { filePath?: string; binary?: boolean } = {},
+  ): Promise<string> {
+    this.assertNotDiscarded();
+    const repo = simpleGit(this.worktreeRoot);
+    await repo.raw(['add', '-A']);
+    const args = ['diff', '--cached', this.baseCommit];
+    if (options.binary) {
+      args.push('--binary');
+    }
+    if (options.filePath) {
+      args.push('--', options.filePath);
+    }
+    return repo.raw(args);
+  }
+
+  /** Returns the changed files of the isolated tree with their hunks. */
+  async getChangedFiles(filePath?: string): Promise<SnapshotFileDiff[]> {
+    return parseUnifiedDiff(await this.getDiff({ filePath }));
+  }
+
+  /**
+   * Whether the isolated tree has changes that were not applied to the
+   * project yet.
+   */
+  async hasUnappliedChanges(): Promise<boolean> {
+    if (this.discarded) {
+      return false;
+    }
+    const diff = await this.getDiff({ binary: true });
+    return diff !== '' && diff !== this.lastAppliedDiff;
+  }
+
+  /**
+   * Patches the changes of the isolated tree into the project. Hunks that
+   * do not apply are reported instead of failing the whole patch.
+   */
+  async apply(): Promise<WorktreeApplyResult> {
+    const diff = await this.getDiff({ binary: true });
+    const files = parseUnifiedDiff(diff).map((file) => file.filePath);
+    if (files.length === 0) {
+      return { appliedFiles: [], conflictedFiles: [] };
+    }
+
+    const patchPath = `${this.worktreeRoot}.patch`;
+    await fs.writeFile(patchPath, diff);
+    try {
+      await simpleGit(this.applyRoot).raw(['apply', '--reject', patchPath]);
+      this.lastAppliedDiff = diff;
+      return { appliedFiles: files, conflictedFiles: [] };
+    } catch (error) {
+      const conflictedFiles = [
+        ...getErrorMessage(error).matchAll(
+          /^Applying patch (.+) with \d+ rejects?\.\.\.$/gm,
+        ),
+      ].map((match) => match[1]);
+      if (conflictedFiles.length === 0) {
+        throw new Error(
+          `Failed to apply the worktree changes: ${getErrorMessage(error)}`,
+        );
+      }
+      this.lastAppliedDiff = diff;
+      return {
+        appliedFiles: files.filter((file) => !conflictedFiles.includes(file)),
+        conflictedFiles,
+      };
+    } finally {
+      await fs.rm(patchPath, { force: true });
+    }
+  }
+
+  /** Deletes the isolated tree and its changes. */
+  async discard(): Promise<void> {
+    this.assertNotDiscarded();
+    if (this.kind === 'git-worktree') {
+      await simpleGit(this.applyRoot).raw([
+        'worktree',
+        'remove',
+        '--force',
+        this.worktreeRoot,
+      ]);
+    } else {
+      await fs.rm(this.worktreeRoot, { recursive: true, force: true });
+    }
+    this.discarded = true;
+  }
+
+  private assertNotDiscarded(): void {
+    if (this.discarded) {
+      throw new Error('The worktree of this session was discarded.');
+    }
+  }
+}
@@ -1277,6 +1277,11 @@ describe('loggers', () => {
         mockConfig,
         event,
       );
+
+      expect(mockUiEvent.addEvent).toHaveBeenCalledWith({
+        ...event,
+        'event.name': EVENT_MODEL_ROUTING,
+      });
     });
 
     it('should only log to Clearcut if OTEL SDK is not initialized', () => {
@@ -12,6 +12,7 @@ import {
   EVENT_API_ERROR,
   EVENT_API_RESPONSE,
   EVENT_TOOL_CALL,
+  EVENT_MODEL_ROUTING,
 } from './types.js';
 import type {
   ApiErrorEvent,
@@ -474,6 +475,11 @@ export function logModelRouting(
   config: Config,
   event: ModelRoutingEvent,
 ): void {
+  const uiEvent = {
+    ...event,
+    'event.name': EVENT_MODEL_ROUTING,
+  } as UiEvent;
+  uiTelemetryService.addEvent(uiEvent);
   ClearcutLogger.getInstance(config)?.logModelRoutingEvent(event);
   if (!isTelemetrySdkInitialized()) return;
 
@@ -12,7 +12,9 @@ import { ToolCallEvent } from './types.js';
 import {
   EVENT_API_ERROR,
   EVENT_API_RESPONSE,
+  EVENT_MODEL_ROUTING,
   EVENT_TOOL_CALL,
+  ModelRoutingEvent,
 } from './types.js';
 import type {
   CompletedToolCall,
@@ -117,6 +119,12 @@ describe('UiTelemetryService', () => {
         totalLinesAdded: 0,
         totalLinesRemoved: 0,
       },
+      routing: {
+        totalDecisions: 0,
+        totalFailures: 0,
+        totalLatencyMs: 0,
+        bySource: {},
+      },
     });
     expect(service.getLastPromptTokenCount()).toBe(0);
   });
@@ -676,4 +684,62 @@ describe('UiTelemetryService', () => {
       expect(metrics.files.totalLinesRemoved).toBe(0);
     });
   });
+
+  describe('Model Routing Event Processing', () => {
+    const routingEvent = (
+      model: string,
+      source: string,
+      latencyMs: number,
+      failed = false,
+    ) =>
+      ({
+        ...new ModelRoutingEvent(
+          model,
+          source,
+          latencyMs,
+          undefined,
+          failed,
+          undefined,
+        ),
+        'event.name': EVENT_MODEL_ROUTING,
+      }) as ModelRoutingEvent & { 'event.name': typeof EVENT_MODEL_ROUTING };
+
+    it('should aggregate routing decisions by source and model', () => {
+      service.addEvent(
+        routingEvent('gemini-2.5-flash', 'agent-router/heuristic', 0),
+      );
+      service.addEvent(
+        routingEvent('gemini-2.5-pro', 'agent-router/heuristic', 2),
+      );
+      service.addEvent(
+        routingEvent('gemini-2.5-pro', 'agent-router/classifier', 400),
+      );
+      service.addEvent(
+        routingEvent('gemini-2.5-pro', 'router-exception', 5, true),
+      );
+
+      expect(service.getMetrics().routing).toEqual({
+        totalDecisions: 4,
+        totalFailures: 1,
+        totalLatencyMs: 407,
+        bySource: {
+          'agent-router/heuristic': {
+            count: 2,
+            totalLatencyMs: 2,
+            models: { 'gemini-2.5-flash': 1, 'gemini-2.5-pro': 1 },
+          },
+          'agent-router/classifier': {
+            count: 1,
+            totalLatencyMs: 400,
+            models: { 'gemini-2.5-pro': 1 },
+          },
+          'router-exception': {
+            count: 1,
+            totalLatencyMs: 5,
+            models: { 'gemini-2.5-pro': 1 },
+          },
+        },
+      });
+    });
+  });
 });
@@ -8,6 +8,7 @@ import { EventEmitter } from 'node:events';
 import {
   EVENT_API_ERROR,
   EVENT_API_RESPONSE,
+  EVENT_MODEL_ROUTING,
   EVENT_TOOL_CALL,
 } from './types.js';
 
@@ -15,13 +16,15 @@ import { ToolCallDecision } from './tool-call-decision.js';
 import type {
   ApiErrorEvent,
   ApiResponseEvent,
+  ModelRoutingEvent,
   ToolCallEvent,
 } from './types.js';
 
 export type UiEvent =
   | (ApiResponseEvent & { 'event.name': typeof EVENT_API_RESPONSE })
   | (ApiErrorEvent & { 'event.name': typeof EVENT_API_ERROR })
-  | (ToolCallEvent & { 'event.name': typeof EVENT_TOOL_CALL });
+  | (ToolCallEvent & { 'event.name': typeof EVENT_TOOL_CALL })
+  | (ModelRoutingEvent & { 'event.name': typeof EVENT_MODEL_ROUTING });
 
 export interface ToolCallStats {
   count: number;
@@ -52,6 +55,13 @@ export interface ModelMetrics {
   };
 }
 
+export interface RoutingSourceStats {
+  count: number;
+  totalLatencyMs: number;
+  /** How many decisions chose each model. */
+  models: Record<string, number>;
+}
+
 export interface SessionMetrics {
   models: Record<string, ModelMetrics>;
   tools: {
@@ -71,6 +81,12 @@ export interface SessionMetrics {
     totalLinesAdded: number;
     totalLinesRemoved: number;
   };
+  routing: {
+    totalDecisions: number;
+    totalFailures: number;
+    totalLatencyMs: number;
+    bySource: Record<string, RoutingSourceStats>;
+  };
 }
 
 const createInitialModelMetrics = (): ModelMetrics => ({
@@ -108,6 +124,12 @@ const createInitialMetrics = (): SessionMetrics => ({
     totalLinesAdded: 0,
     totalLinesRemoved: 0,
   },
+  routing: {
+    totalDecisions: 0,
+    totalFailures: 0,
+    totalLatencyMs: 0,
+    bySource: {},
+  },
 });
 
 export class UiTelemetryService extends EventEmitter {
@@ -125,6 +147,9 @@ export class UiTelemetryService extends EventEmitter {
       case EVENT_TOOL_CALL:
         this.processToolCall(event);
         break;
+      case EVENT_MODEL_ROUTING:
+        this.processModelRouting(event);
+        break;
       default:
         // We should not emit update for any other event metric.
         return;
@@ -230,6 +255,28 @@ export class UiTelemetryService extends EventEmitter {
       }
     }
   }
+
+  private processModelRouting(event: ModelRoutingEvent) {
+    const { routing } = this.#metrics;
+    routing.totalDecisions++;
+    routing.totalLatencyMs += event.routing_latency_ms;
+    if (event.failed) {
+      routing.totalFailures++;
+    }
+
+    if (!routing.bySource[event.decision_source]) {
+      routing.bySource[event.decision_source] = {
+        count: 0,
+        totalLatencyMs: 0,
+        models: {},
+      };
+    }
+    const sourceStats = routing.bySource[event.decision_source];
+    sourceStats.count++;
+    sourceStats.totalLatencyMs += event.routing_latency_ms;
+    sourceStats.models[event.decision_model] =
+      (sourceStats.models[event.decision_model] ?? 0) + 1;
+  }
 }
 
 export const uiTelemetryService = new UiTelemetryService();
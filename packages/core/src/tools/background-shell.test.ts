@@ -0,0 +1,222 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import {
+  KillBackgroundJobTool,
+  ReadBackgroundOutputTool,
+  WaitForBackgroundJobTool,
+  WriteBackgroundInputTool,
+} from './background-shell.js';
+import {
+  ShellExecutionService,
+  type BackgroundShellJob,
+} from '../services/shellExecutionService.js';
+import { MessageBus } from '../confirmation-bus/message-bus.js';
+import { PolicyEngine } from '../policy/policy-engine.js';
+import { PolicyDecision } from '../policy/types.js';
+import {
+  MessageBusType,
+  type ToolConfirmationRequest,
+} from '../confirmation-bus/types.js';
+
+vi.mock('../services/shellExecutionService.js', () => ({
+  ShellExecutionService: { getBackgroundJob: vi.fn() },
+}));
+
+describe('background shell tools', () => {
+  const signal = new AbortController().signal;
+  let job: {
+    id: number;
+    command: string;
+    status: 'running' | 'exited';
+    getExitCode: ReturnType<typeof vi.fn>;
+    getExitSignal: ReturnType<typeof vi.fn>;
+    readOutput: ReturnType<typeof vi.fn>;
+    waitFor: ReturnType<typeof vi.fn>;
+    writeInput: ReturnType<typeof vi.fn>;
+    kill: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    job = {
+      id: 1,
+      command: 'npm run dev',
+      status: 'running',
+      getExitCode: vi.fn().mockReturnValue(null),
+      getExitSignal: vi.fn().mockReturnValue(null),
+      readOutput: vi
+        .fn()
+        .mockReturnValue({ output: 'ready\n', droppedChars: 0 }),
+      waitFor: vi.fn(),
+      writeInput: vi.fn(),
+      kill: vi.fn().mockImplementation(async () => {
+        job.status = 'exited';
+        job.getExitSignal.mockReturnValue(15);
+      }),
+    };
+    vi.mocked(ShellExecutionService.getBackgroundJob).mockImplementation(
+      (id) => (id === 1 ? (job as unknown as BackgroundShellJob) : undefined),
+    );
+  });
+
+  it('should reject unknown jobs', () => {
+    expect(() => new ReadBackgroundOutputTool().build({ job_id: 2 })).toThrow(
+      'There is no background job 2.',
+    );
+  });
+
+  it('should read the new output of a job', async () => {
+    job.readOutput.mockReturnValue({ output: 'ready\n', droppedChars: 12 });
+
+    const result = await new ReadBackgroundOutputTool()
+      .build({ job_id: 1 })
+      .execute(signal);
+
+    expect(result.llmContent).toBe(
+      [
+        'Job 1: npm run dev',
+        'Status: running',
+        '[12 characters of older output were dropped before they were read.]',
+        'New output: ready\n',
+      ].join('\n'),
+    );
+  });
+
+  it('should wait for a pattern', async () => {
+    job.waitFor.mockResolvedValue({ outcome: 'matched', match: 'ready' });
+
+    const result = await new WaitForBackgroundJobTool()
+      .build({ job_id: 1, pattern: 'rea+dy', timeout_ms: 1000 })
+      .execute(signal);
+
+    expect(job.waitFor).toHaveBeenCalledWith({
+      pattern: /rea+dy/m,
+      port: undefined,
+      timeoutMs: 1000,
+      signal,
+    });
+    expect(result.returnDisplay).toBe('The output matched: ready');
+    expect(result.llmContent).toContain('New output: ready');
+  });
+
+  it('should validate the wait condition', () => {
+    const tool = new WaitForBackgroundJobTool();
+    expect(() => tool.build({ job_id: 1 })).toThrow(
+      'Either pattern or port must be given.',
+    );
+    expect(() => tool.build({ job_id: 1, pattern: '(' })).toThrow(
+      'Invalid regular expression',
+    );
+    expect(() => tool.build({ job_id: 1, port: 70000 })).toThrow(
+      'port must be an integer between 1 and 65535.',
+    );
+  });
+
+  it('should report a port that does not open in time', async () => {
+    job.waitFor.mockResolvedValue({ outcome: 'timeout' });
+
+    const result = await new WaitForBackgroundJobTool()
+      .build({ job_id: 1, port: 3000 })
+      .execute(signal);
+
+    expect(job.waitFor).toHaveBeenCalledWith(
+      expect.objectContaining({ port: 3000, timeoutMs: 30000 }),
+    );
+    expect(result.returnDisplay).toBe(
+      'The condition was not met within 30000 ms.',
+    );
+  });
+
+  it('should send input to a running job', async () => {
+    await new WriteBackgroundInputTool()
+      .build({ job_id: 1, input: 'q' })
+      .execute(signal);
+
+    expect(job.writeInput).toHaveBeenCalledWith('q');
+
+    job.status = 'exited';
+    expect(() =>
+      new WriteBackgroundInputTool().build({ job_id: 1, input: 'q' }),
+    ).toThrow('Background job 1 is not running.');
+  });
+
+  it('should ask before sending input, showing the job', async () => {
+    const messageBus = new MessageBus(new PolicyEngine());
+    // Answers ASK_USER decisions the way the tool scheduler does.
+    messageBus.subscribe(
+      MessageBusType.TOOL_CONFIRMATION_REQUEST,
+      (request: ToolConfirmationRequest) =>
+        messageBus.publish({
+          type: MessageBusType.TOOL_CONFIRMATION_RESPONSE,
+          correlationId: request.correlationId,
+          confirmed: false,
+          requiresUserConfirmation: true,
+        }),
+    );
+
+    const details = await new WriteBackgroundInputTool(messageBus)
+      .build({ job_id: 1, input: 'q\n' })
+      .shouldConfirmExecute(signal);
+
+    expect(details).toMatchObject({
+      type: 'exec',
+      title: 'Confirm Write Background Input',
+      command: 'Send "q\\n" to job 1: npm run dev',
+      rootCommand: 'write_background_input',
+    });
+  });
+
+  it('should ask before killing a job even without a message bus', async () => {
+    const details = await new KillBackgroundJobTool()
+      .build({ job_id: 1 })
+      .shouldConfirmExecute(signal);
+
+    expect(details).toMatchObject({
+      type: 'exec',
+      command: 'Kill job 1: npm run dev',
+    });
+  });
+
+  it('should apply policies to job actions', async () => {
+    const messageBus = new MessageBus(
+      new PolicyEngine({
+        rules: [
+          {
+            toolName: 'kill_background_job',
+            decision: PolicyDecision.ALLOW,
+          },
+          {
+            toolName: 'write_background_input',
+            decision: PolicyDecision.DENY,
+          },
+        ],
+      }),
+    );
+
+    expect(
+      await new KillBackgroundJobTool(messageBus)
+        .build({ job_id: 1 })
+        .shouldConfirmExecute(signal),
+    ).toBe(false);
+    await expect(
+      new WriteBackgroundInputTool(messageBus)
+        .build({ job_id: 1, input: 'q' })
+        .shouldConfirmExecute(signal),
+    ).rejects.toThrow('denied by policy');
+  });
+
+  it('should kill a job', async () => {
+    const result = await new KillBackgroundJobTool()
+      .build({ job_id: 1 })
+      .execute(signal);
+
+    expect(job.kill).toHaveBeenCalledOnce();
+    expect(result.returnDisplay).toBe('Killed job 1.');
+    expect(result.llmContent).toContain('Status: exited (signal 15)');
+  });
+});
@@ -0,0 +1,484 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  ToolCallConfirmationDetails,
+  ToolExecuteConfirmationDetails,
+  ToolInvocation,
+  ToolResult,
+} from './tools.js';
+import {
+  BaseDeclarativeTool,
+  BaseToolInvocation,
+  Kind,
+  ToolConfirmationOutcome,
+} from './tools.js';
+import {
+  KILL_BACKGROUND_JOB_TOOL_NAME,
+  READ_BACKGROUND_OUTPUT_TOOL_NAME,
+  WAIT_FOR_BACKGROUND_JOB_TOOL_NAME,
+  WRITE_BACKGROUND_INPUT_TOOL_NAME,
+} from './tool-names.js';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import { MessageBusType } from '../confirmation-bus/types.js';
+import {
+  ShellExecutionService,
+  type BackgroundShellJob,
+} from '../services/shellExecutionService.js';
+
+const DEFAULT_WAIT_TIMEOUT_MS = 30_000;
+const MAX_WAIT_TIMEOUT_MS = 10 * 60_000;
+
+interface BackgroundJobParams {
+  /** The ID `run_shell_command` returned when it started the job. */
+  job_id: number;
+}
+
+const JOB_ID_SCHEMA = {
+  type: 'integer',
+  description:
+    'The ID of the background job, as returned by run_shell_command with background: true.',
+};
+
+function describeStatus(job: BackgroundShellJob): string {
+  if (job.status === 'running') {
+    return 'running';
+  }
+  const signal = job.getExitSignal();
+  return signal !== null
+    ? `exited (signal ${signal})`
+    : `exited (code ${job.getExitCode() ?? '(none)'})`;
+}
+
+function validateJobId(params: BackgroundJobParams): string | null {
+  if (!Number.isInteger(params.job_id)) {
+    return 'job_id must be an integer.';
+  }
+  if (!ShellExecutionService.getBackgroundJob(params.job_id)) {
+    return `There is no background job ${params.job_id}.`;
+  }
+  return null;
+}
+
+function getJob(params: BackgroundJobParams): BackgroundShellJob {
+  return ShellExecutionService.getBackgroundJob(params.job_id)!;
+}
+
+/** Formats the new output of a job for the model. */
+function formatNewOutput(job: BackgroundShellJob): string {
+  const { output, droppedChars } = job.readOutput();
+  const lines = [
+    `Job ${job.id}: ${job.command}`,
+    `Status: ${describeStatus(job)}`,
+  ];
+  if (droppedChars > 0) {
+    lines.push(
+      `[${droppedChars} characters of older output were dropped before they were read.]`,
+    );
+  }
+  lines.push(`New output: ${output.trim() ? output : '(none)'}`);
+  return lines.join('\n');
+}
+
+/**
+ * An invocation that acts on a running job. Unless a policy allows or denies
+ * it, the user confirms it like a shell command, seeing what it does to which
+ * job.
+ */
+abstract class BackgroundJobActionInvocation<
+  TParams extends BackgroundJobParams,
+> extends BaseToolInvocation<TParams, ToolResult> {
+  /** What the call does to the job, e.g. `Send "q" to`. */
+  protected abstract describeAction(): string;
+
+  override async shouldConfirmExecute(
+    abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    if (this.messageBus) {
+      const decision = await this.getMessageBusDecision(abortSignal);
+      if (decision === 'ALLOW') {
+        return false;
+      }
+      if (decision === 'DENY') {
+        throw new Error(
+          `Tool execution for "${
+            this._toolDisplayName || this._toolName
+          }" denied by policy.`,
+        );
+      }
+    }
+
+    const job = getJob(this.params);
+    const confirmationDetails: ToolExecuteConfirmationDetails = {
+      type: 'exec',
+      title: `Confirm ${this._toolDisplayName || this._toolName}`,
+      command: `${this.describeAction()} job ${job.id}: ${job.command}`,
+      rootCommand: this._toolName ?? '',
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (
+          outcome === ToolConfirmationOutcome.ProceedAlways &&
+          this.messageBus &&
+          this._toolName
+        ) {
+          this.messageBus.publish({
+            type: MessageBusType.UPDATE_POLICY,
+            toolName: this._toolName,
+          });
+        }
+      },
+    };
+    return confirmationDetails;
+  }
+}
+
+class ReadBackgroundOutputInvocation extends BaseToolInvocation<
+  BackgroundJobParams,
+  ToolResult
+> {
+  getDescription(): string {
+    return `job ${this.params.job_id}`;
+  }
+
+  async execute(): Promise<ToolResult> {
+    const llmContent = formatNewOutput(getJob(this.params));
+    return { llmContent, returnDisplay: llmContent };
+  }
+}
+
+export class ReadBackgroundOutputTool extends BaseDeclarativeTool<
+  BackgroundJobParams,
+  ToolResult
+> {
+  static readonly Name = READ_BACKGROUND_OUTPUT_TOOL_NAME;
+
+  constructor(messageBus?: MessageBus) {
+    super(
+      ReadBackgroundOutputTool.Name,
+      'Read Background Output',
+      'Returns the output a background job printed since the previous read, and whether it is still running.',
+      Kind.Read,
+      {
+        type: 'object',
+        properties: { job_id: JOB_ID_SCHEMA },
+        required: ['job_id'],
+      },
+      false, // output is not markdown
+      false, // output cannot be updated
+      messageBus,
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: BackgroundJobParams,
+  ): string | null {
+    return validateJobId(params);
+  }
+
+  protected createInvocation(
+    params: BackgroundJobParams,
+    messageBus?: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<BackgroundJobParams, ToolResult> {
+    return new ReadBackgroundOutputInvocation(
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
+
+interface WaitForBackgroundJobParams extends BackgroundJobParams {
+  /** A regular expression to wait for in the output. */
+  pattern?: string;
+  /** A TCP port to wait for. */
+  port?: number;
+  timeout_ms?: number;
+}
+
+class WaitForBackgroundJobInvocation extends BaseToolInvocation<
+  WaitForBackgroundJobParams,
+  ToolResult
+> {
+  getDescription(): string {
+    const conditions = [];
+    if (this.params.pattern) {
+      conditions.push(`output matching /${this.params.pattern}/`);
+    }
+    if (this.params.port !== undefined) {
+      conditions.push(`port ${this.params.port}`);
+    }
+    return `job ${this.params.job_id}: ${conditions.join(' or ')}`;
+  }
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    const job = getJob(this.params);
+    const timeoutMs = this.params.timeout_ms ?? DEFAULT_WAIT_TIMEOUT_MS;
+    const result = await job.waitFor({
+      pattern: this.params.pattern
+        ? new RegExp(this.params.pattern, 'm')
+        : undefined,
+      port: this.params.port,
+      timeoutMs,
+      signal,
+    });
+
+    let summary: string;
+    switch (result.outcome) {
+      case 'matched':
+        summary = `The output matched: ${result.match}`;
+        break;
+      case 'port_open':
+        summary = `Port ${this.params.port} accepts connections.`;
+        break;
+      case 'exited':
+        summary = 'The job exited before the condition was met.';
+        break;
+      case 'timeout':
+        summary = `The condition was not met within ${timeoutMs} ms.`;
+        break;
+      case 'aborted':
+        summary = 'Waiting was cancelled by the user.';
+        break;
+      default:
+        throw new Error('An unhandled wait outcome was found.');
+    }
+    return {
+      llmContent: `${summary}\n${formatNewOutput(job)}`,
+      returnDisplay: summary,
+    };
+  }
+}
+
+export class WaitForBackgroundJobTool extends BaseDeclarativeTool<
+  WaitForBackgroundJobParams,
+  ToolResult
+> {
+  static readonly Name = WAIT_FOR_BACKGROUND_JOB_TOOL_NAME;
+
+  constructor(messageBus?: MessageBus) {
+    super(
+      WaitForBackgroundJobTool.Name,
+      'Wait For Background Job',
+      'Waits until the output of a background job matches a regular expression or a TCP port on localhost accepts connections, e.g. until a dev server is ready. Also returns when the job exits or the timeout passes. Returns the output since the previous read.',
+      Kind.Read,
+      {
+        type: 'object',
+        properties: {
+          job_id: JOB_ID_SCHEMA,
+          pattern: {
+            type: 'string',
+            description:
+              '(OPTIONAL) A JavaScript regular expression to wait for. It is matched against all the output of the job, in multiline mode.',
+          },
+          port: {
+            type: 'integer',
+            description:
+              '(OPTIONAL) A TCP port on localhost to wait for, e.g. the port of a dev server.',
+          },
+          timeout_ms: {
+            type: 'integer',
+            description: `(OPTIONAL) How long to wait, in milliseconds. Defaults to ${DEFAULT_WAIT_TIMEOUT_MS}.`,
+          },
+        },
+        required: ['job_id'],
+      },
+      false, // output is not markdown
+      false, // output cannot be updated
+      messageBus,
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: WaitForBackgroundJobParams,
+  ): string | null {
+    if (!params.pattern && params.port === undefined) {
+      return 'Either pattern or port must be given.';
+    }
+    if (params.pattern) {
+      try {
+        new RegExp(params.pattern);
+      } catch (e) {
+        return `Invalid regular expression: ${(e as Error).message}`;
+      }
+    }
+    if (
+      params.port !== undefined &&
+      (!Number.isInteger(params.port) || params.port < 1 || params.port > 65535)
+    ) {
+      return 'port must be an integer between 1 and 65535.';
+    }
+    if (
+      params.timeout_ms !== undefined &&
+      (params.timeout_ms < 0 || params.timeout_ms > MAX_WAIT_TIMEOUT_MS)
+    ) {
+      return `timeout_ms must be between 0 and ${MAX_WAIT_TIMEOUT_MS}.`;
+    }
+    return validateJobId(params);
+  }
+
+  protected createInvocation(
+    params: WaitForBackgroundJobParams,
+    messageBus?: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<WaitForBackgroundJobParams, ToolResult> {
+    return new WaitForBackgroundJobInvocation(
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
+
+interface WriteBackgroundInputParams extends BackgroundJobParams {
+  input: string;
+}
+
+class WriteBackgroundInputInvocation extends BackgroundJobActionInvocation<WriteBackgroundInputParams> {
+  getDescription(): string {
+    return `job ${this.params.job_id}: ${JSON.stringify(this.params.input)}`;
+  }
+
+  protected describeAction(): string {
+    return `Send ${JSON.stringify(this.params.input)} to`;
+  }
+
+  async execute(): Promise<ToolResult> {
+    const job = getJob(this.params);
+    job.writeInput(this.params.input);
+    return {
+      llmContent: `Wrote the input to job ${job.id}. Read its response with ${READ_BACKGROUND_OUTPUT_TOOL_NAME} or ${WAIT_FOR_BACKGROUND_JOB_TOOL_NAME}.`,
+      returnDisplay: `Sent input to job ${job.id}.`,
+    };
+  }
+}
+
+export class WriteBackgroundInputTool extends BaseDeclarativeTool<
+  WriteBackgroundInputParams,
+  ToolResult
+> {
+  static readonly Name = WRITE_BACKGROUND_INPUT_TOOL_NAME;
+
+  constructor(messageBus?: MessageBus) {
+    super(
+      WriteBackgroundInputTool.Name,
+      'Write Background Input',
+      'Sends text to the standard input of a running background job, e.g. to answer a prompt or to press a key of a watcher. Include "\\n" to press Enter.',
+      Kind.Execute,
+      {
+        type: 'object',
+        properties: {
+          job_id: JOB_ID_SCHEMA,
+          input: {
+            type: 'string',
+            description: 'The text to send.',
+          },
+        },
+        required: ['job_id', 'input'],
+      },
+      false, // output is not markdown
+      false, // output cannot be updated
+      messageBus,
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: WriteBackgroundInputParams,
+  ): string | null {
+    const error = validateJobId(params);
+    if (error) {
+      return error;
+    }
+    if (getJob(params).status !== 'running') {
+      return `Background job ${params.job_id} is not running.`;
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: WriteBackgroundInputParams,
+    messageBus?: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<WriteBackgroundInputParams, ToolResult> {
+    return new WriteBackgroundInputInvocation(
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
+
+class KillBackgroundJobInvocation extends BackgroundJobActionInvocation<BackgroundJobParams> {
+  getDescription(): string {
+    return `job ${this.params.job_id}`;
+  }
+
+  protected describeAction(): string {
+    return 'Kill';
+  }
+
+  async execute(): Promise<ToolResult> {
+    const job = getJob(this.params);
+    const wasRunning = job.status === 'running';
+    await job.kill();
+    const summary = wasRunning
+      ? `Killed job ${job.id}.`
+      : `Job ${job.id} had already exited.`;
+    return {
+      llmContent: `${summary}\n${formatNewOutput(job)}`,
+      returnDisplay: summary,
+    };
+  }
+}
+
+export class KillBackgroundJobTool extends BaseDeclarativeTool<
+  BackgroundJobParams,
+  ToolResult
+> {
+  static readonly Name = KILL_BACKGROUND_JOB_TOOL_NAME;
+
+  constructor(messageBus?: MessageBus) {
+    super(
+      KillBackgroundJobTool.Name,
+      'Kill Background Job',
+      'Terminates a background job and the processes it started. Returns the output since the previous read.',
+      Kind.Execute,
+      {
+        type: 'object',
+        properties: { job_id: JOB_ID_SCHEMA },
+        required: ['job_id'],
+      },
+      false, // output is not markdown
+      false, // output cannot be updated
+      messageBus,
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: BackgroundJobParams,
+  ): string | null {
+    return validateJobId(params);
+  }
+
+  protected createInvocation(
+    params: BackgroundJobParams,
+    messageBus?: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<BackgroundJobParams, ToolResult> {
+    return new KillBackgroundJobInvocation(
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
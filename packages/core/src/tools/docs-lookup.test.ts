@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Config } from '../config/config.js';
+import { DocsLookupTool } from './docs-lookup.js';
+import * as docsProviders from './docs-providers.js';
+import { DocsProviderError, type DocsProvider } from './docs-providers.js';
+import { ToolErrorType } from './tool-error.js';
+
+describe('DocsLookupTool', () => {
+  const abortSignal = new AbortController().signal;
+  const provider = {
+    name: 'fake',
+    search: vi.fn(),
+  } satisfies DocsProvider;
+  let tool: DocsLookupTool;
+
+  beforeEach(() => {
+    vi.spyOn(docsProviders, 'createDocsProvider').mockReturnValue(provider);
+    tool = new DocsLookupTool({} as Config);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('build', () => {
+    it('should reject an empty query or library', () => {
+      expect(() => tool.build({ query: ' ' })).toThrow(
+        "The 'query' parameter cannot be empty.",
+      );
+      expect(() => tool.build({ query: 'hooks', library: '' })).toThrow(
+        "The 'library' parameter cannot be empty.",
+      );
+    });
+
+    it('should describe the lookup', () => {
+      expect(
+        tool.build({ query: 'hooks', library: 'react' }).getDescription(),
+      ).toBe('Looking up "hooks" in the react docs');
+    });
+  });
+
+  describe('execute', () => {
+    it('should return the snippets found by the provider', async () => {
+      provider.search.mockResolvedValue([
+        {
+          title: 'React',
+          source: 'context7:/facebook/react',
+          content: 'useEffect',
+        },
+      ]);
+
+      const result = await tool
+        .build({ query: 'hooks', library: 'react' })
+        .execute(abortSignal);
+
+      expect(provider.search).toHaveBeenCalledWith(
+        'hooks',
+        abortSignal,
+        'react',
+      );
+      expect(result.llmContent).toBe(
+        'Documentation for "hooks" (provider: fake):\n\n--- React (context7:/facebook/react) ---\nuseEffect',
+      );
+      expect(result.returnDisplay).toBe('Found 1 documentation result(s).');
+      expect(result.error).toBeUndefined();
+    });
+
+    it('should say when nothing was found', async () => {
+      provider.search.mockResolvedValue([]);
+
+      const result = await tool.build({ query: 'hooks' }).execute(abortSignal);
+
+      expect(result.llmContent).toBe(
+        'No documentation found for "hooks" (provider: fake).',
+      );
+    });
+
+    it('should report provider failures with their error type', async () => {
+      provider.search.mockRejectedValue(
+        new DocsProviderError(
+          'Rejected.',
+          ToolErrorType.DOCS_PROVIDER_AUTH_FAILED,
+        ),
+      );
+
+      const result = await tool.build({ query: 'hooks' }).execute(abortSignal);
+
+      expect(result.error).toEqual({
+        message:
+          'Error looking up documentation for "hooks" (provider: fake): Rejected.',
+        type: ToolErrorType.DOCS_PROVIDER_AUTH_FAILED,
+      });
+    });
+
+    it('should report missing provider configuration', async () => {
+      vi.mocked(docsProviders.createDocsProvider).mockImplementation(() => {
+        throw new DocsProviderError(
+          'Needs a key.',
+          ToolErrorType.DOCS_PROVIDER_NOT_CONFIGURED,
+        );
+      });
+
+      const result = await tool.build({ query: 'hooks' }).execute(abortSignal);
+
+      expect(result.error?.type).toBe(
+        ToolErrorType.DOCS_PROVIDER_NOT_CONFIGURED,
+      );
+      expect(result.llmContent).toBe(
+        'Error: Error looking up documentation for "hooks" (provider: documentation): Needs a key.',
+      );
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import type { Config } from '../config/config.js';
+import { getErrorMessage } from '../utils/errors.js';
+import type { DocsProvider } from './docs-providers.js';
+import { createDocsProvider, DocsProviderError } from './docs-providers.js';
+import { ToolErrorType } from './tool-error.js';
+import { DOCS_LOOKUP_TOOL_NAME } from './tool-names.js';
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+
+/**
+ * Parameters for the DocsLookupTool.
+ */
+export interface DocsLookupToolParams {
+  /**
+   * What to look up, e.g. an API or a question about a library.
+   */
+  query: string;
+
+  /**
+   * The library or package to restrict the lookup to.
+   */
+  library?: string;
+}
+
+class DocsLookupToolInvocation extends BaseToolInvocation<
+  DocsLookupToolParams,
+  ToolResult
+> {
+  constructor(
+    private readonly getProvider: () => DocsProvider,
+    params: DocsLookupToolParams,
+    messageBus?: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+  }
+
+  override getDescription(): string {
+    return this.params.library
+      ? `Looking up "${this.params.query}" in the ${this.params.library} docs`
+      : `Looking up docs for "${this.params.query}"`;
+  }
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    let providerName = 'documentation';
+    try {
+      const provider = this.getProvider();
+      providerName = provider.name;
+      const snippets = await provider.search(
+        this.params.query,
+        signal,
+        this.params.library,
+      );
+
+      if (snippets.length === 0) {
+        return {
+          llmContent: `No documentation found for "${this.params.query}" (provider: ${provider.name}).`,
+          returnDisplay: 'No documentation found.',
+        };
+      }
+
+      const sections = snippets.map(
+        (snippet) =>
+          `--- ${snippet.title} (${snippet.source}) ---\n${snippet.content}`,
+      );
+      return {
+        llmContent: `Documentation for "${this.params.query}" (provider: ${provider.name}):\n\n${sections.join('\n\n')}`,
+        returnDisplay: `Found ${snippets.length} documentation result(s).`,
+      };
+    } catch (error) {
+      const errorMessage = `Error looking up documentation for "${this.params.query}" (provider: ${providerName}): ${getErrorMessage(error)}`;
+      return {
+        llmContent: `Error: ${errorMessage}`,
+        returnDisplay: 'Error looking up documentation.',
+        error: {
+          message: errorMessage,
+          type:
+            error instanceof DocsProviderError
+              ? error.type
+              : ToolErrorType.DOCS_LOOKUP_FAILED,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * A tool that looks up library documentation through the provider configured
+ * in the `tools.docs` settings.
+ */
+export class DocsLookupTool extends BaseDeclarativeTool<
+  DocsLookupToolParams,
+  ToolResult
+> {
+  static readonly Name = DOCS_LOOKUP_TOOL_NAME;
+  private provider?: DocsProvider;
+
+  constructor(
+    private readonly config: Config,
+    messageBus?: MessageBus,
+  ) {
+    super(
+      DocsLookupTool.Name,
+      'DocsLookup',
+      'Looks up documentation for libraries and APIs. Use it to check how a library is meant to be used before writing code against it. Optionally restrict the lookup to a single library or package.',
+      Kind.Search,
+      {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description:
+              'What to look up, e.g. "configure retries" or "useEffect cleanup".',
+          },
+          library: {
+            type: 'string',
+            description:
+              'Optional library or package name to restrict the lookup to, e.g. "react".',
+          },
+        },
+        required: ['query'],
+      },
+      true, // isOutputMarkdown
+      false, // canUpdateOutput
+      messageBus,
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: DocsLookupToolParams,
+  ): string | null {
+    if (!params.query || params.query.trim() === '') {
+      return "The 'query' parameter cannot be empty.";
+    }
+    if (params.library !== undefined && params.library.trim() === '') {
+      return "The 'library' parameter cannot be empty.";
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: DocsLookupToolParams,
+    messageBus?: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<DocsLookupToolParams, ToolResult> {
+    return new DocsLookupToolInvocation(
+      () => (this.provider ??= createDocsProvider(this.config)),
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
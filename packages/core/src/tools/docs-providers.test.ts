@@ -0,0 +1,239 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  afterEach,
+  vi,
+} from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Config, DocsLookupSettings } from '../config/config.js';
+import {
+  CONTEXT7_API_KEY_ENV,
+  Context7DocsProvider,
+  createDocsProvider,
+  DocsProviderError,
+  LocalDocsProvider,
+  NodeModulesDocsProvider,
+} from './docs-providers.js';
+import { ToolErrorType } from './tool-error.js';
+
+const signal = new AbortController().signal;
+
+describe('Context7DocsProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: Array<{ url: string; authorization?: string }> = [];
+  let status = 200;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push({
+        url: req.url ?? '',
+        authorization: req.headers.authorization,
+      });
+      if (status !== 200) {
+        res.writeHead(status).end();
+        return;
+      }
+      if (req.url?.startsWith('/api/v1/search')) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            results: [{ id: '/facebook/react', title: 'React' }],
+          }),
+        );
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('useEffect(setup, dependencies?)');
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    requests.length = 0;
+    status = 200;
+  });
+
+  it('should resolve the library and fetch its docs for the topic', async () => {
+    const provider = new Context7DocsProvider('secret', baseUrl);
+
+    const snippets = await provider.search(
+      'effect cleanup & deps',
+      signal,
+      'react',
+    );
+
+    expect(snippets).toEqual([
+      {
+        title: 'React',
+        source: 'context7:/facebook/react',
+        content: 'useEffect(setup, dependencies?)',
+      },
+    ]);
+    expect(requests[0]).toEqual({
+      url: '/api/v1/search?query=react',
+      authorization: 'Bearer secret',
+    });
+    expect(requests[1].url).toBe(
+      '/api/v1/facebook/react?type=txt&tokens=5000&topic=effect+cleanup+%26+deps',
+    );
+  });
+
+  it('should encode the query when searching without a library', async () => {
+    const provider = new Context7DocsProvider('secret', baseUrl);
+
+    await provider.search('a&b=c', signal);
+
+    expect(requests[0].url).toBe('/api/v1/search?query=a%26b%3Dc');
+  });
+
+  it('should report rejected API keys', async () => {
+    status = 401;
+    const provider = new Context7DocsProvider('wrong', baseUrl);
+
+    await expect(provider.search('react', signal)).rejects.toMatchObject({
+      type: ToolErrorType.DOCS_PROVIDER_AUTH_FAILED,
+      message: 'Context7 rejected the API key (HTTP 401).',
+    });
+  });
+
+  it('should report failed requests', async () => {
+    status = 500;
+    const provider = new Context7DocsProvider('secret', baseUrl);
+
+    await expect(provider.search('react', signal)).rejects.toMatchObject({
+      type: ToolErrorType.DOCS_LOOKUP_FAILED,
+      message: 'Context7 request failed with HTTP 500.',
+    });
+  });
+});
+
+describe('offline providers', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'docs-providers-'));
+    await fs.mkdir(path.join(root, 'docs', 'guides'), { recursive: true });
+    await fs.writeFile(
+      path.join(root, 'docs', 'guides', 'retries.md'),
+      '# Networking\n\nIntro.\n\n## Retries\n\nConfigure retries with `maxRetries`.\n',
+    );
+    await fs.writeFile(path.join(root, 'docs', 'image.png'), 'retries');
+
+    const pkg = path.join(root, 'node_modules', '@acme', 'http');
+    await fs.mkdir(pkg, { recursive: true });
+    await fs.writeFile(
+      path.join(pkg, 'package.json'),
+      JSON.stringify({ name: '@acme/http', types: 'lib/index.d.ts' }),
+    );
+    await fs.writeFile(
+      path.join(pkg, 'README.md'),
+      '# acme http\n\nFetch things.\n',
+    );
+    await fs.mkdir(path.join(pkg, 'lib'));
+    await fs.writeFile(
+      path.join(pkg, 'lib', 'index.d.ts'),
+      'export declare function get(url: string): Promise<string>;\n\nexport interface RetryOptions {\n  maxRetries: number;\n}\n',
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should return the best matching sections of local docs', async () => {
+    const provider = new LocalDocsProvider(path.join(root, 'docs'));
+
+    const snippets = await provider.search('retries', signal);
+
+    expect(snippets[0]).toEqual({
+      title: `${path.join('guides', 'retries.md')} › Retries`,
+      source: path.join(root, 'docs', 'guides', 'retries.md'),
+      content: '## Retries\n\nConfigure retries with `maxRetries`.',
+    });
+    expect(snippets.map((snippet) => snippet.source)).not.toContain(
+      path.join(root, 'docs', 'image.png'),
+    );
+  });
+
+  it('should report a missing docs directory', async () => {
+    const provider = new LocalDocsProvider(path.join(root, 'missing'));
+
+    await expect(provider.search('retries', signal)).rejects.toMatchObject({
+      type: ToolErrorType.DOCS_PROVIDER_NOT_CONFIGURED,
+    });
+  });
+
+  it('should search the READMEs and type declarations in node_modules', async () => {
+    const provider = new NodeModulesDocsProvider(root);
+
+    const snippets = await provider.search(
+      'RetryOptions',
+      signal,
+      '@acme/http',
+    );
+
+    expect(snippets[0]).toMatchObject({
+      title: '@acme/http types',
+      content: expect.stringContaining('export interface RetryOptions'),
+    });
+    await expect(
+      provider.search('retries', signal, 'left-pad'),
+    ).rejects.toThrow('Package "left-pad" is not installed');
+  });
+});
+
+describe('createDocsProvider', () => {
+  const configWith = (settings: DocsLookupSettings) =>
+    ({
+      getDocsLookupSettings: () => settings,
+      getTargetDir: () => '/project',
+    }) as unknown as Config;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should take the Context7 key from the settings or the environment', () => {
+    vi.stubEnv(CONTEXT7_API_KEY_ENV, '');
+    expect(() =>
+      createDocsProvider(configWith({ provider: 'context7' })),
+    ).toThrow(DocsProviderError);
+
+    vi.stubEnv(CONTEXT7_API_KEY_ENV, 'from-env');
+    expect(
+      createDocsProvider(configWith({ provider: 'context7' })),
+    ).toBeInstanceOf(Context7DocsProvider);
+  });
+
+  it('should resolve the local docs directory against the project', () => {
+    expect(() => createDocsProvider(configWith({ provider: 'local' }))).toThrow(
+      'needs tools.docs.localDirectory',
+    );
+    expect(
+      createDocsProvider(
+        configWith({ provider: 'local', localDirectory: 'docs' }),
+      ),
+    ).toEqual(new LocalDocsProvider(path.resolve('/project', 'docs')));
+  });
+});
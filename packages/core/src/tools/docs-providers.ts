@@ -0,0 +1,438 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { Config, DocsLookupSettings } from '../config/config.js';
+import { getErrorMessage, isNodeError } from '../utils/errors.js';
+import { ToolErrorType } from './tool-error.js';
+
+export const DEFAULT_CONTEXT7_BASE_URL = 'https://context7.com/api/v1';
+export const CONTEXT7_API_KEY_ENV = 'CONTEXT7_API_KEY';
+
+const REQUEST_TIMEOUT_MS = 15000;
+const CONTEXT7_MAX_TOKENS = 5000;
+const MAX_RESULTS = 5;
+const MAX_SECTION_LENGTH = 4000;
+const MAX_INDEXED_FILES = 2000;
+const MAX_INDEXED_FILE_SIZE = 512 * 1024;
+const LOCAL_DOC_EXTENSIONS = new Set([
+  '.md',
+  '.mdx',
+  '.markdown',
+  '.txt',
+  '.rst',
+]);
+
+/** A piece of documentation returned by a provider. */
+export interface DocsSnippet {
+  title: string;
+  /** Where the snippet came from, e.g. a file path or library ID. */
+  source: string;
+  content: string;
+}
+
+/** A source of documentation the `lookup_docs` tool can search. */
+export interface DocsProvider {
+  readonly name: string;
+  search(
+    query: string,
+    signal: AbortSignal,
+    library?: string,
+  ): Promise<DocsSnippet[]>;
+}
+
+/** A provider failure, carrying the tool error type to report. */
+export class DocsProviderError extends Error {
+  constructor(
+    message: string,
+    readonly type: ToolErrorType,
+  ) {
+    super(message);
+    this.name = 'DocsProviderError';
+  }
+}
+
+interface IndexedDocument {
+  title: string;
+  source: string;
+  text: string;
+}
+
+function queryTerms(query: string): string[] {
+  return [
+    ...new Set(
+      query
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}_$]+/u)
+        .filter((term) => term.length > 1),
+    ),
+  ];
+}
+
+/**
+ * Splits a document into sections: at headings for Markdown, at blank lines
+ * for everything else.
+ */
+function splitSections(document: IndexedDocument): IndexedDocument[] {
+  const isMarkdown = /\.(md|mdx|markdown)$/i.test(document.source);
+  const blocks = isMarkdown
+    ? document.text.split(/\n(?=#{1,6}\s)/)
+    : document.text.split(/\n\s*\n/);
+
+  const sections: IndexedDocument[] = [];
+  for (const block of blocks) {
+    const text = block.trim();
+    if (!text) continue;
+    const heading = isMarkdown ? /^#{1,6}\s+(.*)/.exec(text)?.[1] : undefined;
+    sections.push({
+      title: heading ? `${document.title} › ${heading}` : document.title,
+      source: document.source,
+      text,
+    });
+  }
+  return sections;
+}
+
+/**
+ * Ranks the sections of the given documents by how often they mention the
+ * terms of the query and returns the best ones.
+ */
+function rankDocuments(
+  documents: IndexedDocument[],
+  query: string,
+  limit = MAX_RESULTS,
+): DocsSnippet[] {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+
+  const scored: Array<{ section: IndexedDocument; score: number }> = [];
+  for (const section of documents.flatMap(splitSections)) {
+    const haystack = section.text.toLowerCase();
+    const title = section.title.toLowerCase();
+    let score = 0;
+    let matchedTerms = 0;
+    for (const term of terms) {
+      const occurrences = haystack.split(term).length - 1;
+      if (occurrences > 0 || title.includes(term)) matchedTerms++;
+      score += occurrences + (title.includes(term) ? 5 : 0);
+    }
+    if (score > 0) {
+      scored.push({ section, score: score * matchedTerms });
+    }
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ section }) => ({
+      title: section.title,
+      source: section.source,
+      content:
+        section.text.length > MAX_SECTION_LENGTH
+          ? `${section.text.slice(0, MAX_SECTION_LENGTH)}\n...`
+          : section.text,
+    }));
+}
+
+async function readIfSmall(filePath: string): Promise<string | undefined> {
+  try {
+    const stats = await fs.stat(filePath);
+    if (!stats.isFile() || stats.size > MAX_INDEXED_FILE_SIZE) {
+      return undefined;
+    }
+    return await fs.readFile(filePath, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+/** Searches the Context7 documentation service. */
+export class Context7DocsProvider implements DocsProvider {
+  readonly name = 'context7';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly baseUrl = DEFAULT_CONTEXT7_BASE_URL,
+  ) {}
+
+  async search(
+    query: string,
+    signal: AbortSignal,
+    library?: string,
+  ): Promise<DocsSnippet[]> {
+    const matches = (await this.request(
+      `/search?query=${encodeURIComponent(library ?? query)}`,
+      signal,
+      'json',
+    )) as { results?: Array<{ id?: string; title?: string }> };
+    const match = matches.results?.find((result) => result.id);
+    if (!match?.id) {
+      return [];
+    }
+
+    const params = new URLSearchParams({
+      type: 'txt',
+      tokens: String(CONTEXT7_MAX_TOKENS),
+    });
+    if (library) {
+      params.set('topic', query);
+    }
+    const libraryPath = match.id.startsWith('/') ? match.id : `/${match.id}`;
+    const content = (await this.request(
+      `${libraryPath}?${params.toString()}`,
+      signal,
+      'text',
+    )) as string;
+    return [
+      {
+        title: match.title ?? match.id,
+        source: `context7:${match.id}`,
+        content,
+      },
+    ];
+  }
+
+  private async request(
+    pathAndQuery: string,
+    signal: AbortSignal,
+    as: 'json' | 'text',
+  ): Promise<unknown> {
+    const url = `${this.baseUrl.replace(/\/+$/, '')}${pathAndQuery}`;
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+        signal: AbortSignal.any([
+          signal,
+          AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        ]),
+      });
+    } catch (error) {
+      throw new DocsProviderError(
+        `Could not reach Context7: ${getErrorMessage(error)}`,
+        ToolErrorType.DOCS_LOOKUP_FAILED,
+      );
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new DocsProviderError(
+        `Context7 rejected the API key (HTTP ${response.status}).`,
+        ToolErrorType.DOCS_PROVIDER_AUTH_FAILED,
+      );
+    }
+    if (!response.ok) {
+      throw new DocsProviderError(
+        `Context7 request failed with HTTP ${response.status}.`,
+        ToolErrorType.DOCS_LOOKUP_FAILED,
+      );
+    }
+
+    try {
+      return as === 'json' ? await response.json() : await response.text();
+    } catch (error) {
+      throw new DocsProviderError(
+        `Could not read the Context7 response: ${getErrorMessage(error)}`,
+        ToolErrorType.DOCS_LOOKUP_FAILED,
+      );
+    }
+  }
+}
+
+/** Searches a local directory of Markdown and text documentation. */
+export class LocalDocsProvider implements DocsProvider {
+  readonly name = 'local';
+
+  constructor(private readonly directory: string) {}
+
+  async search(query: string, _signal: AbortSignal, library?: string) {
+    const documents: IndexedDocument[] = [];
+    await this.collect(this.directory, documents);
+    const filtered = library
+      ? documents.filter((document) =>
+          document.source.toLowerCase().includes(library.toLowerCase()),
+        )
+      : documents;
+    return rankDocuments(filtered, query);
+  }
+
+  private async collect(
+    directory: string,
+    documents: IndexedDocument[],
+  ): Promise<void> {
+    let entries;
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      if (directory === this.directory) {
+        throw new DocsProviderError(
+          isNodeError(error) && error.code === 'ENOENT'
+            ? `Documentation directory not found: ${directory}`
+            : `Could not read documentation directory ${directory}: ${getErrorMessage(error)}`,
+          ToolErrorType.DOCS_PROVIDER_NOT_CONFIGURED,
+        );
+      }
+      return;
+    }
+
+    for (const entry of entries) {
+      if (documents.length >= MAX_INDEXED_FILES) return;
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && entry.name !== 'node_modules') {
+          await this.collect(entryPath, documents);
+        }
+      } else if (
+        LOCAL_DOC_EXTENSIONS.has(path.extname(entry.name).toLowerCase())
+      ) {
+        const text = await readIfSmall(entryPath);
+        if (text !== undefined) {
+          documents.push({
+            title: path.relative(this.directory, entryPath),
+            source: entryPath,
+            text,
+          });
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Searches the READMEs and type declarations of the packages installed in
+ * `node_modules`, without any network access. The index is built on first use.
+ */
+export class NodeModulesDocsProvider implements DocsProvider {
+  readonly name = 'node_modules';
+  private index?: Promise<Map<string, IndexedDocument[]>>;
+
+  constructor(private readonly projectRoot: string) {}
+
+  async search(query: string, _signal: AbortSignal, library?: string) {
+    this.index ??= this.buildIndex();
+    const index = await this.index;
+    if (library) {
+      const documents = index.get(library);
+      if (!documents) {
+        throw new DocsProviderError(
+          `Package "${library}" is not installed in ${path.join(this.projectRoot, 'node_modules')}.`,
+          ToolErrorType.DOCS_LOOKUP_FAILED,
+        );
+      }
+      return rankDocuments(documents, query);
+    }
+    return rankDocuments([...index.values()].flat(), query);
+  }
+
+  private async buildIndex(): Promise<Map<string, IndexedDocument[]>> {
+    const nodeModules = path.join(this.projectRoot, 'node_modules');
+    let entries: string[];
+    try {
+      entries = await fs.readdir(nodeModules);
+    } catch {
+      throw new DocsProviderError(
+        `No node_modules directory found in ${this.projectRoot}.`,
+        ToolErrorType.DOCS_PROVIDER_NOT_CONFIGURED,
+      );
+    }
+
+    const packageDirs: string[] = [];
+    for (const entry of entries) {
+      if (entry.startsWith('.')) continue;
+      if (entry.startsWith('@')) {
+        const scoped = await fs
+          .readdir(path.join(nodeModules, entry))
+          .catch(() => [] as string[]);
+        packageDirs.push(...scoped.map((name) => path.join(entry, name)));
+      } else {
+        packageDirs.push(entry);
+      }
+    }
+
+    const index = new Map<string, IndexedDocument[]>();
+    for (const packageDir of packageDirs) {
+      const documents = await this.indexPackage(
+        path.join(nodeModules, packageDir),
+      );
+      if (documents.length > 0) {
+        index.set(packageDir.split(path.sep).join('/'), documents);
+      }
+    }
+    return index;
+  }
+
+  private async indexPackage(packageDir: string): Promise<IndexedDocument[]> {
+    const manifestText = await readIfSmall(
+      path.join(packageDir, 'package.json'),
+    );
+    if (manifestText === undefined) return [];
+    let manifest: { name?: string; types?: string; typings?: string };
+    try {
+      manifest = JSON.parse(manifestText);
+    } catch {
+      return [];
+    }
+    const name = manifest.name ?? path.basename(packageDir);
+
+    const documents: IndexedDocument[] = [];
+    const files = await fs.readdir(packageDir).catch(() => [] as string[]);
+    const readme = files.find((file) =>
+      /^readme(\.(md|markdown|txt))?$/i.test(file),
+    );
+    const typesFile = manifest.types ?? manifest.typings ?? 'index.d.ts';
+    for (const [file, kind] of [
+      [readme, 'README'],
+      [typesFile, 'types'],
+    ] as const) {
+      if (!file) continue;
+      const filePath = path.join(packageDir, file);
+      const text = await readIfSmall(filePath);
+      if (text !== undefined) {
+        documents.push({ title: `${name} ${kind}`, source: filePath, text });
+      }
+    }
+    return documents;
+  }
+}
+
+/**
+ * Creates the documentation provider selected in the settings.
+ *
+ * @throws A {@link DocsProviderError} if the provider is missing configuration.
+ */
+export function createDocsProvider(config: Config): DocsProvider {
+  const settings: DocsLookupSettings = config.getDocsLookupSettings();
+  switch (settings.provider ?? 'context7') {
+    case 'context7': {
+      const apiKey =
+        settings.context7ApiKey || process.env[CONTEXT7_API_KEY_ENV];
+      if (!apiKey) {
+        throw new DocsProviderError(
+          `The Context7 documentation provider needs an API key. Set tools.docs.context7ApiKey in settings or the ${CONTEXT7_API_KEY_ENV} environment variable.`,
+          ToolErrorType.DOCS_PROVIDER_NOT_CONFIGURED,
+        );
+      }
+      return new Context7DocsProvider(apiKey, settings.context7BaseUrl);
+    }
+    case 'local':
+      if (!settings.localDirectory) {
+        throw new DocsProviderError(
+          'The local documentation provider needs tools.docs.localDirectory to be set.',
+          ToolErrorType.DOCS_PROVIDER_NOT_CONFIGURED,
+        );
+      }
+      return new LocalDocsProvider(
+        path.resolve(config.getTargetDir(), settings.localDirectory),
+      );
+    case 'node_modules':
+      return new NodeModulesDocsProvider(config.getTargetDir());
+    default:
+      throw new DocsProviderError(
+        `Unknown documentation provider "${settings.provider}". Expected one of: context7, local, node_modules.`,
+        ToolErrorType.DOCS_PROVIDER_NOT_CONFIGURED,
+      );
+  }
+}
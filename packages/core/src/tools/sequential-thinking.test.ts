@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Config } from '../config/config.js';
+import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
+import { TodoStore } from '../services/todoStore.js';
+import { SequentialThinkingTool } from './sequential-thinking.js';
+import { ToolErrorType } from './tool-error.js';
+
+describe('SequentialThinkingTool', () => {
+  const signal = new AbortController().signal;
+  const generateJson = vi.fn();
+  let todoStore: TodoStore;
+  let useWriteTodos: boolean;
+  let inFallbackMode: boolean;
+  let tool: SequentialThinkingTool;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    todoStore = new TodoStore();
+    useWriteTodos = true;
+    inFallbackMode = false;
+    const config = {
+      getBaseLlmClient: () => ({ generateJson }),
+      getTodoStore: () => todoStore,
+      getUseWriteTodos: () => useWriteTodos,
+      isInFallbackMode: () => inFallbackMode,
+    } as unknown as Config;
+    tool = new SequentialThinkingTool(config);
+  });
+
+  it('should reject an empty query', () => {
+    expect(() => tool.build({ query: '  ' })).toThrow(
+      "The 'query' parameter cannot be empty.",
+    );
+  });
+
+  it('should store the plan and turn its steps into todos', async () => {
+    generateJson.mockResolvedValue({
+      steps: ['Find the parser', ' Add the option ', '', 'Run the tests'],
+    });
+
+    const result = await tool.buildAndExecute(
+      { query: 'Add a --strict flag', context: 'The CLI uses yargs.' },
+      signal,
+    );
+
+    expect(generateJson).toHaveBeenCalledWith(
+      expect.objectContaining({
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              {
+                text: 'Add a --strict flag\n\nWhat is already known:\nThe CLI uses yargs.',
+              },
+            ],
+          },
+        ],
+        schema: expect.objectContaining({ required: ['steps'] }),
+        model: 'gemini-2.5-pro',
+        abortSignal: signal,
+      }),
+    );
+    expect(todoStore.getPlan()).toMatchObject({
+      goal: 'Add a --strict flag',
+      steps: ['Find the parser', 'Add the option', 'Run the tests'],
+    });
+    const todos = [
+      { description: 'Find the parser', status: 'pending' },
+      { description: 'Add the option', status: 'pending' },
+      { description: 'Run the tests', status: 'pending' },
+    ];
+    expect(todoStore.getTodos()).toEqual(todos);
+    expect(result.returnDisplay).toEqual({ todos });
+    expect(result.llmContent).toContain(
+      'Plan for "Add a --strict flag":\n1. Find the parser\n2. Add the option\n3. Run the tests',
+    );
+    expect(result.llmContent).toContain("with the 'write_todos' tool");
+  });
+
+  it('should not mention write_todos when it is disabled', async () => {
+    useWriteTodos = false;
+    inFallbackMode = true;
+    generateJson.mockResolvedValue({ steps: ['Do it'] });
+
+    const result = await tool.buildAndExecute({ query: 'Task' }, signal);
+
+    expect(generateJson).toHaveBeenCalledWith(
+      expect.objectContaining({ model: DEFAULT_GEMINI_FLASH_MODEL }),
+    );
+    expect(result.llmContent).not.toContain('write_todos');
+  });
+
+  it('should report failed planning calls without touching the todos', async () => {
+    todoStore.setTodos([{ description: 'Keep me', status: 'in_progress' }]);
+    generateJson.mockRejectedValue(new Error('quota exceeded'));
+
+    const result = await tool.buildAndExecute({ query: 'Task' }, signal);
+
+    expect(result.error).toEqual({
+      message: 'Error creating a plan: quota exceeded',
+      type: ToolErrorType.SEQUENTIAL_THINKING_FAILED,
+    });
+    expect(todoStore.getTodos()).toEqual([
+      { description: 'Keep me', status: 'in_progress' },
+    ]);
+  });
+
+  it('should report plans without steps', async () => {
+    generateJson.mockResolvedValue({ steps: 'not a list' });
+
+    const result = await tool.buildAndExecute({ query: 'Task' }, signal);
+
+    expect(result.error?.message).toBe('The planning model returned no steps.');
+    expect(todoStore.getPlan()).toBeUndefined();
+  });
+});
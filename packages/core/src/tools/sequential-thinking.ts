@@ -0,0 +1,206 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
+import type { Config } from '../config/config.js';
+import { DEFAULT_GEMINI_MODEL, getEffectiveModel } from '../config/models.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { promptIdContext } from '../utils/promptIdContext.js';
+import { ToolErrorType } from './tool-error.js';
+import {
+  SEQUENTIAL_THINKING_TOOL_NAME,
+  WRITE_TODOS_TOOL_NAME,
+} from './tool-names.js';
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+
+const MAX_PLAN_STEPS = 12;
+
+const PLANNING_SYSTEM_PROMPT = `You are a planning expert. Break the user's request down into a short, ordered plan of concrete steps that an engineer with access to the codebase and its tools can carry out one after the other.
+
+- Each step must be a single, verifiable action, phrased as an imperative sentence.
+- Start with the steps that gather the information the later steps depend on.
+- Do not include steps that merely restate the request or say "done".
+- Use at most ${MAX_PLAN_STEPS} steps; fewer is better for simple requests.`;
+
+const PLAN_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    steps: {
+      type: 'array',
+      description: 'The steps of the plan, in the order they should be done.',
+      items: { type: 'string' },
+    },
+  },
+  required: ['steps'],
+};
+
+/**
+ * Parameters for the SequentialThinkingTool.
+ */
+export interface SequentialThinkingToolParams {
+  /**
+   * The request or problem to plan for.
+   */
+  query: string;
+
+  /**
+   * Anything already known that the plan should take into account.
+   */
+  context?: string;
+}
+
+class SequentialThinkingToolInvocation extends BaseToolInvocation<
+  SequentialThinkingToolParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: SequentialThinkingToolParams,
+    messageBus?: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+  }
+
+  getDescription(): string {
+    return `Planning: ${this.params.query}`;
+  }
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    const request = this.params.context
+      ? `${this.params.query}\n\nWhat is already known:\n${this.params.context}`
+      : this.params.query;
+
+    let steps: string[];
+    try {
+      const response = await this.config.getBaseLlmClient().generateJson({
+        contents: [{ role: 'user', parts: [{ text: request }] }],
+        schema: PLAN_SCHEMA,
+        model: getEffectiveModel(
+          this.config.isInFallbackMode(),
+          DEFAULT_GEMINI_MODEL,
+        ),
+        systemInstruction: PLANNING_SYSTEM_PROMPT,
+        abortSignal: signal,
+        promptId: `${promptIdContext.getStore() ?? 'sequential-thinking'}-plan`,
+      });
+      steps = Array.isArray(response['steps'])
+        ? response['steps']
+            .filter(
+              (step): step is string =>
+                typeof step === 'string' && step.trim() !== '',
+            )
+            .map((step) => step.trim())
+            .slice(0, MAX_PLAN_STEPS)
+        : [];
+    } catch (error) {
+      const errorMessage = `Error creating a plan: ${getErrorMessage(error)}`;
+      return {
+        llmContent: `Error: ${errorMessage}`,
+        returnDisplay: 'Error creating a plan.',
+        error: {
+          message: errorMessage,
+          type: ToolErrorType.SEQUENTIAL_THINKING_FAILED,
+        },
+      };
+    }
+
+    if (steps.length === 0) {
+      const errorMessage = 'The planning model returned no steps.';
+      return {
+        llmContent: `Error: ${errorMessage}`,
+        returnDisplay: 'Error creating a plan.',
+        error: {
+          message: errorMessage,
+          type: ToolErrorType.SEQUENTIAL_THINKING_FAILED,
+        },
+      };
+    }
+
+    const todoStore = this.config.getTodoStore();
+    todoStore.setPlan(this.params.query, steps);
+    const todos = todoStore.getTodos();
+
+    const planList = steps
+      .map((step, index) => `${index + 1}. ${step}`)
+      .join('\n');
+    const followUp = this.config.getUseWriteTodos()
+      ? `The plan has been saved as your todo list. Work through it in order and keep it current with the '${WRITE_TODOS_TOOL_NAME}' tool: mark a step in_progress before you start it and completed when it is done, and add or cancel steps as you learn more.`
+      : 'Work through the plan in order, adjusting it as you learn more.';
+
+    return {
+      llmContent: `Plan for "${this.params.query}":\n${planList}\n\n${followUp}`,
+      returnDisplay: { todos },
+    };
+  }
+}
+
+/**
+ * A tool that turns a request into a step-by-step plan, stores it as the
+ * session's plan and seeds the todo list with its steps.
+ */
+export class SequentialThinkingTool extends BaseDeclarativeTool<
+  SequentialThinkingToolParams,
+  ToolResult
+> {
+  static readonly Name = SEQUENTIAL_THINKING_TOOL_NAME;
+
+  constructor(
+    private readonly config: Config,
+    messageBus?: MessageBus,
+  ) {
+    super(
+      SequentialThinkingTool.Name,
+      'SequentialThinking',
+      "Creates a step-by-step plan for a complex request before you start working on it. The plan replaces the current todo list, so call this tool once at the start of a multi-step task, or again when the current plan no longer fits. Don't use it for simple requests that take one or two steps.",
+      Kind.Think,
+      {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'The request or problem to plan for.',
+          },
+          context: {
+            type: 'string',
+            description:
+              'Optional findings the plan should take into account, such as relevant files or constraints.',
+          },
+        },
+        required: ['query'],
+      },
+      true, // isOutputMarkdown
+      false, // canUpdateOutput
+      messageBus,
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: SequentialThinkingToolParams,
+  ): string | null {
+    if (!params.query || params.query.trim() === '') {
+      return "The 'query' parameter cannot be empty.";
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: SequentialThinkingToolParams,
+    messageBus?: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ): ToolInvocation<SequentialThinkingToolParams, ToolResult> {
+    return new SequentialThinkingToolInvocation(
+      this.config,
+      params,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
+  }
+}
@@ -16,8 +16,12 @@ import {
 } from 'vitest';
 
 const mockShellExecutionService = vi.hoisted(() => vi.fn());
+const mockExecuteInBackground = vi.hoisted(() => vi.fn());
 vi.mock('../services/shellExecutionService.js', () => ({
-  ShellExecutionService: { execute: mockShellExecutionService },
+  ShellExecutionService: {
+    execute: mockShellExecutionService,
+    executeInBackground: mockExecuteInBackground,
+  },
 }));
 vi.mock('fs');
 vi.mock('os');
@@ -352,6 +356,28 @@ describe('ShellTool', () => {
       expect(vi.mocked(fs.unlinkSync)).toHaveBeenCalledWith(tmpFile);
     });
 
+    it('should start a background job and return its ID right away', async () => {
+      mockExecuteInBackground.mockResolvedValue({ id: 3, pid: 4242 });
+
+      const invocation = shellTool.build({
+        command: 'npm run dev',
+        background: true,
+      });
+      const result = await invocation.execute(mockAbortSignal);
+
+      expect(invocation.getDescription()).toBe('npm run dev [background]');
+      expect(mockExecuteInBackground).toHaveBeenCalledWith(
+        'npm run dev',
+        '/test/dir',
+        false,
+        {},
+      );
+      expect(mockShellExecutionService).not.toHaveBeenCalled();
+      expect(result.llmContent).toContain('Background Job ID: 3');
+      expect(result.llmContent).toContain('Process Group PGID: 4242');
+      expect(result.returnDisplay).toBe('Started background job 3 (PID 4242).');
+    });
+
     describe('Streaming to `updateOutput`', () => {
       let updateOutputMock: Mock;
       beforeEach(() => {
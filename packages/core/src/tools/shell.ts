@@ -40,7 +40,13 @@ import {
   stripShellWrapper,
 } from '../utils/shell-utils.js';
 import { doesToolInvocationMatch } from '../utils/tool-utils.js';
-import { SHELL_TOOL_NAME } from './tool-names.js';
+import {
+  KILL_BACKGROUND_JOB_TOOL_NAME,
+  READ_BACKGROUND_OUTPUT_TOOL_NAME,
+  SHELL_TOOL_NAME,
+  WAIT_FOR_BACKGROUND_JOB_TOOL_NAME,
+  WRITE_BACKGROUND_INPUT_TOOL_NAME,
+} from './tool-names.js';
 
 export const OUTPUT_UPDATE_INTERVAL_MS = 1000;
 
@@ -48,6 +54,7 @@ export interface ShellToolParams {
   command: string;
   description?: string;
   directory?: string;
+  background?: boolean;
 }
 
 export class ShellToolInvocation extends BaseToolInvocation<
@@ -69,6 +76,9 @@ export class ShellToolInvocation extends BaseToolInvocation<
     if (this.params.directory) {
       description += ` [in ${this.params.directory}]`;
     }
+    if (this.params.background) {
+      description += ' [background]';
+    }
     // append optional (description), replacing any line breaks with spaces
     if (this.params.description) {
       description += ` (${this.params.description.replace(/\n/g, ' ')})`;
@@ -139,6 +149,10 @@ export class ShellToolInvocation extends BaseToolInvocation<
       };
     }
 
+    if (this.params.background) {
+      return this.executeInBackground(strippedCommand, shellExecutionConfig);
+    }
+
     const isWindows = os.platform() === 'win32';
     const tempFileName = `shell_pgrep_${crypto
       .randomBytes(6)
@@ -324,9 +338,35 @@ export class ShellToolInvocation extends BaseToolInvocation<
       }
     }
   }
+
+  private async executeInBackground(
+    command: string,
+    shellExecutionConfig?: ShellExecutionConfig,
+  ): Promise<ToolResult> {
+    const job = await ShellExecutionService.executeInBackground(
+      command,
+      this.params.directory || this.config.getTargetDir(),
+      this.config.getEnableInteractiveShell(),
+      shellExecutionConfig ?? {},
+    );
+    const llmContent = [
+      `Command: ${this.params.command}`,
+      `Directory: ${this.params.directory || '(root)'}`,
+      `Background Job ID: ${job.id}`,
+      `Process Group PGID: ${job.pid ?? '(none)'}`,
+      `The command keeps running in the background. Use ${READ_BACKGROUND_OUTPUT_TOOL_NAME} to read its output, ${WAIT_FOR_BACKGROUND_JOB_TOOL_NAME} to wait until it is ready, ${WRITE_BACKGROUND_INPUT_TOOL_NAME} to send it input and ${KILL_BACKGROUND_JOB_TOOL_NAME} to stop it.`,
+    ].join('\n');
+    return {
+      llmContent,
+      returnDisplay: `Started background job ${job.id}${
+        job.pid ? ` (PID ${job.pid})` : ''
+      }.`,
+    };
+  }
 }
 
 function getShellToolDescription(): string {
+  const backgroundInfo = `For commands that keep running, such as dev servers and file watchers, set \`background\` to true instead: the command then runs as a background job that can be read, waited for, sent input and killed by its job ID.`;
   const returnedInfo = `
 
       The following information is returned:
@@ -342,9 +382,9 @@ function getShellToolDescription(): string {
       Process Group PGID: Process group started or \`(none)\``;
 
   if (os.platform() === 'win32') {
-    return `This tool executes a given shell command as \`powershell.exe -NoProfile -Command <command>\`. Command can start background processes using PowerShell constructs such as \`Start-Process -NoNewWindow\` or \`Start-Job\`.${returnedInfo}`;
+    return `This tool executes a given shell command as \`powershell.exe -NoProfile -Command <command>\`. Command can start background processes using PowerShell constructs such as \`Start-Process -NoNewWindow\` or \`Start-Job\`. ${backgroundInfo}${returnedInfo}`;
   } else {
-    return `This tool executes a given shell command as \`bash -c <command>\`. Command can start background processes using \`&\`. Command is executed as a subprocess that leads its own process group. Command process group can be terminated as \`kill -- -PGID\` or signaled as \`kill -s SIGNAL -- -PGID\`.${returnedInfo}`;
+    return `This tool executes a given shell command as \`bash -c <command>\`. Command can start background processes using \`&\`. Command is executed as a subprocess that leads its own process group. Command process group can be terminated as \`kill -- -PGID\` or signaled as \`kill -s SIGNAL -- -PGID\`. ${backgroundInfo}${returnedInfo}`;
   }
 }
 
@@ -390,6 +430,10 @@ export class ShellTool extends BaseDeclarativeTool<
             description:
               '(OPTIONAL) The absolute path of the directory to run the command in. If not provided, the project root directory is used. Must be a directory within the workspace and must already exist.',
           },
+          background: {
+            type: 'boolean',
+            description: `(OPTIONAL) Run the command as a background job and return right away with its job ID, for commands that keep running such as dev servers and file watchers. Do not append \`&\` to the command. Use ${READ_BACKGROUND_OUTPUT_TOOL_NAME}, ${WAIT_FOR_BACKGROUND_JOB_TOOL_NAME}, ${WRITE_BACKGROUND_INPUT_TOOL_NAME} and ${KILL_BACKGROUND_JOB_TOOL_NAME} with the job ID.`,
+          },
         },
         required: ['command'],
       },
@@ -71,6 +71,14 @@ export enum ToolErrorType {
 
   // WebSearch-specific Errors
   WEB_SEARCH_FAILED = 'web_search_failed',
+
+  // DocsLookup-specific Errors
+  DOCS_PROVIDER_NOT_CONFIGURED = 'docs_provider_not_configured',
+  DOCS_PROVIDER_AUTH_FAILED = 'docs_provider_auth_failed',
+  DOCS_LOOKUP_FAILED = 'docs_lookup_failed',
+
+  // SequentialThinking-specific Errors
+  SEQUENTIAL_THINKING_FAILED = 'sequential_thinking_failed',
 }
 
 /**
@@ -10,13 +10,20 @@
 
 export const GLOB_TOOL_NAME = 'glob';
 export const WRITE_TODOS_TOOL_NAME = 'write_todos';
+export const SEQUENTIAL_THINKING_TOOL_NAME = 'sequential_thinking';
 export const WRITE_FILE_TOOL_NAME = 'write_file';
 export const WEB_SEARCH_TOOL_NAME = 'google_web_search';
 export const WEB_FETCH_TOOL_NAME = 'web_fetch';
+export const DOCS_LOOKUP_TOOL_NAME = 'lookup_docs';
 export const EDIT_TOOL_NAME = 'replace';
 export const SHELL_TOOL_NAME = 'run_shell_command';
+export const READ_BACKGROUND_OUTPUT_TOOL_NAME = 'read_background_output';
+export const WAIT_FOR_BACKGROUND_JOB_TOOL_NAME = 'wait_for_background_job';
+export const WRITE_BACKGROUND_INPUT_TOOL_NAME = 'write_background_input';
+export const KILL_BACKGROUND_JOB_TOOL_NAME = 'kill_background_job';
 export const GREP_TOOL_NAME = 'search_file_content';
 export const READ_MANY_FILES_TOOL_NAME = 'read_many_files';
 export const READ_FILE_TOOL_NAME = 'read_file';
 export const LS_TOOL_NAME = 'list_directory';
 export const MEMORY_TOOL_NAME = 'save_memory';
+export const AGENT_MAP_TOOL_NAME = 'map_agent';
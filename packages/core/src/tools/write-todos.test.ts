@@ -6,6 +6,8 @@
 
 import { describe, expect, it } from 'vitest';
 import { WriteTodosTool, type WriteTodosToolParams } from './write-todos.js';
+import type { Config } from '../config/config.js';
+import { TodoStore } from '../services/todoStore.js';
 
 describe('WriteTodosTool', () => {
   const tool = new WriteTodosTool();
@@ -105,5 +107,20 @@ describe('WriteTodosTool', () => {
       expect(result.llmContent).toBe(expectedOutput);
       expect(result.returnDisplay).toEqual(params);
     });
+
+    it('should keep the list in the session todo store', async () => {
+      const todoStore = new TodoStore();
+      todoStore.setPlan('Ship it', ['Build', 'Test']);
+      const config = { getTodoStore: () => todoStore } as unknown as Config;
+      const todos: WriteTodosToolParams['todos'] = [
+        { description: 'Build', status: 'completed' },
+        { description: 'Test', status: 'in_progress' },
+      ];
+
+      await new WriteTodosTool(config).buildAndExecute({ todos }, signal);
+
+      expect(todoStore.getTodos()).toEqual(todos);
+      expect(todoStore.getPlan()?.steps).toEqual(['Build', 'Test']);
+    });
   });
 });
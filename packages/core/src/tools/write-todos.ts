@@ -13,6 +13,8 @@ import {
   type ToolResult,
 } from './tools.js';
 import { WRITE_TODOS_TOOL_NAME } from './tool-names.js';
+import type { Config } from '../config/config.js';
+import type { MessageBus } from '../confirmation-bus/message-bus.js';
 
 const TODO_STATUSES = [
   'pending',
@@ -98,6 +100,16 @@ class WriteTodosToolInvocation extends BaseToolInvocation<
   WriteTodosToolParams,
   ToolResult
 > {
+  constructor(
+    params: WriteTodosToolParams,
+    private readonly config?: Config,
+    messageBus?: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
+  ) {
+    super(params, messageBus, _toolName, _toolDisplayName);
+  }
+
   getDescription(): string {
     const count = this.params.todos?.length ?? 0;
     if (count === 0) {
@@ -111,6 +123,7 @@ class WriteTodosToolInvocation extends BaseToolInvocation<
     _updateOutput?: (output: string) => void,
   ): Promise<ToolResult> {
     const todos = this.params.todos ?? [];
+    this.config?.getTodoStore().setTodos(todos);
     const todoListString = todos
       .map(
         (todo, index) => `${index + 1}. [${todo.status}] ${todo.description}`,
@@ -135,7 +148,14 @@ export class WriteTodosTool extends BaseDeclarativeTool<
 > {
   static readonly Name = WRITE_TODOS_TOOL_NAME;
 
-  constructor() {
+  /**
+   * @param config When given, the todo list is also kept in the session's
+   * todo store, where the `sequential_thinking` tool puts its plans.
+   */
+  constructor(
+    private readonly config?: Config,
+    messageBus?: MessageBus,
+  ) {
     super(
       WriteTodosTool.Name,
       'Write Todos',
@@ -168,6 +188,9 @@ export class WriteTodosTool extends BaseDeclarativeTool<
         },
         required: ['todos'],
       },
+      true, // isOutputMarkdown
+      false, // canUpdateOutput
+      messageBus,
     );
   }
 
@@ -204,7 +227,16 @@ export class WriteTodosTool extends BaseDeclarativeTool<
 
   protected createInvocation(
     params: WriteTodosToolParams,
+    messageBus?: MessageBus,
+    _toolName?: string,
+    _toolDisplayName?: string,
   ): ToolInvocation<WriteTodosToolParams, ToolResult> {
-    return new WriteTodosToolInvocation(params);
+    return new WriteTodosToolInvocation(
+      params,
+      this.config,
+      messageBus,
+      _toolName,
+      _toolDisplayName,
+    );
   }
 }
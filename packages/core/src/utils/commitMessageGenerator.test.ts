@@ -0,0 +1,126 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { GeminiClient } from '../core/client.js';
+import {
+  detectCommitConvention,
+  generateCommitMessage,
+  generatePullRequestDescription,
+} from './commitMessageGenerator.js';
+
+function mockClient(text: string) {
+  const generateContent = vi.fn().mockResolvedValue({
+    candidates: [{ content: { parts: [{ text }] } }],
+  });
+  return {
+    client: { generateContent } as unknown as GeminiClient,
+    generateContent,
+  };
+}
+
+function promptOf(generateContent: ReturnType<typeof vi.fn>): string {
+  return generateContent.mock.calls[0][0][0].parts[0].text;
+}
+
+describe('commitMessageGenerator', () => {
+  const abortSignal = new AbortController().signal;
+
+  describe('detectCommitConvention', () => {
+    it('should detect conventional commits', () => {
+      expect(
+        detectCommitConvention([
+          'feat(cli): add a flag',
+          'fix: handle empty input\n\nDetails.',
+          'Merge branch main',
+        ]),
+      ).toBe('conventional');
+    });
+
+    it('should detect bracketed subjects', () => {
+      expect(
+        detectCommitConvention(['[core] Add a service', '[docs] Fix typo']),
+      ).toBe('bracketed');
+    });
+
+    it('should fall back to plain subjects', () => {
+      expect(
+        detectCommitConvention(['Add a service', 'fix: typo', 'Update docs']),
+      ).toBe('plain');
+      expect(detectCommitConvention([])).toBe('plain');
+    });
+  });
+
+  describe('generateCommitMessage', () => {
+    it('should ask for the detected convention and return the message', async () => {
+      const { client, generateContent } = mockClient(
+        '```\nfix(parser): handle empty input\n```',
+      );
+
+      const message = await generateCommitMessage(
+        {
+          diff: 'diff --git a/parser.ts b/parser.ts',
+          recentMessages: ['feat(cli): add a flag'],
+        },
+        client,
+        abortSignal,
+      );
+
+      expect(message).toBe('fix(parser): handle empty input');
+      const prompt = promptOf(generateContent);
+      expect(prompt).toContain('Conventional Commits');
+      expect(prompt).toContain('- feat(cli): add a flag');
+      expect(prompt).toContain('diff --git a/parser.ts b/parser.ts');
+    });
+
+    it('should throw when the model returns nothing', async () => {
+      const { client } = mockClient('  ');
+
+      await expect(
+        generateCommitMessage(
+          { diff: 'diff', recentMessages: [] },
+          client,
+          abortSignal,
+        ),
+      ).rejects.toThrow('The model returned an empty response.');
+    });
+  });
+
+  describe('generatePullRequestDescription', () => {
+    it('should fill in the template when there is one', async () => {
+      const { client, generateContent } = mockClient('## Summary\nAdds X.');
+
+      const description = await generatePullRequestDescription(
+        {
+          diff: 'diff',
+          commitMessages: ['Add X\n\nBody'],
+          template: '## Summary\n<!-- What does it do? -->',
+        },
+        client,
+        abortSignal,
+      );
+
+      expect(description).toBe('## Summary\nAdds X.');
+      const prompt = promptOf(generateContent);
+      expect(prompt).toContain('Fill in this pull request template');
+      expect(prompt).toContain('<!-- What does it do? -->');
+      expect(prompt).toContain('- Add X');
+      expect(prompt).not.toContain('Body');
+    });
+
+    it('should use a default layout without a template', async () => {
+      const { client, generateContent } = mockClient('Adds X.');
+
+      await generatePullRequestDescription(
+        { diff: 'diff', commitMessages: ['Add X'] },
+        client,
+        abortSignal,
+      );
+
+      expect(promptOf(generateContent)).toContain('"## Changes" section');
+    });
+  });
+});
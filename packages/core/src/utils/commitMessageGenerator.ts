@@ -0,0 +1,171 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Content, GenerateContentConfig } from '@google/genai';
+import type { GeminiClient } from '../core/client.js';
+import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
+import { getResponseText } from './partUtils.js';
+
+/**
+ * The style of commit subjects in a repository:
+ * - `conventional`: `feat(scope): summary`, see https://www.conventionalcommits.org
+ * - `bracketed`: `[tag] summary`
+ * - `plain`: a sentence in the imperative mood
+ */
+export type CommitConvention = 'conventional' | 'bracketed' | 'plain';
+
+const CONVENTIONAL_SUBJECT = /^[a-z]+(\([^)]+\))?!?: \S/;
+const BRACKETED_SUBJECT = /^\[[^\]]+\] \S/;
+
+// Large diffs are cut so that the request stays well within the context
+// window; the summary only needs the shape of the change.
+const MAX_DIFF_LENGTH = 100_000;
+
+// How many of the latest commits are shown to the model as examples.
+const MAX_EXAMPLES = 10;
+
+/**
+ * Detects the convention of a repository from its latest commit messages.
+ * A convention is used when at least half of the subjects follow it.
+ */
+export function detectCommitConvention(messages: string[]): CommitConvention {
+  const subjects = messages.map((message) => message.split('\n')[0].trim());
+  if (subjects.length === 0) {
+    return 'plain';
+  }
+  const share = (pattern: RegExp) =>
+    subjects.filter((subject) => pattern.test(subject)).length /
+    subjects.length;
+  if (share(CONVENTIONAL_SUBJECT) >= 0.5) {
+    return 'conventional';
+  }
+  if (share(BRACKETED_SUBJECT) >= 0.5) {
+    return 'bracketed';
+  }
+  return 'plain';
+}
+
+const CONVENTION_INSTRUCTIONS: Record<CommitConvention, string> = {
+  conventional:
+    'The repository uses Conventional Commits. Start the subject with a type such as feat, fix, docs, refactor, test or chore, an optional scope in parentheses, and a colon, e.g. "fix(parser): handle empty input".',
+  bracketed:
+    'The repository starts subjects with a tag in square brackets, e.g. "[parser] Handle empty input". Pick the tag the way the examples do.',
+  plain:
+    'Write the subject as a sentence in the imperative mood without a trailing period, e.g. "Handle empty input in the parser".',
+};
+
+function truncateDiff(diff: string): string {
+  if (diff.length <= MAX_DIFF_LENGTH) {
+    return diff;
+  }
+  return `${diff.slice(0, MAX_DIFF_LENGTH)}\n[The diff was truncated after ${MAX_DIFF_LENGTH} characters.]`;
+}
+
+/** Removes a code fence the model may have wrapped its answer in. */
+function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```[\w-]*\n([\s\S]*?)\n```$/);
+  return (match ? match[1] : text).trim();
+}
+
+async function generateText(
+  prompt: string,
+  geminiClient: GeminiClient,
+  abortSignal: AbortSignal,
+  model: string,
+): Promise<string> {
+  const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
+  const generationConfig: GenerateContentConfig = { temperature: 0.2 };
+  const response = await geminiClient.generateContent(
+    contents,
+    generationConfig,
+    abortSignal,
+    model,
+  );
+  const text = stripCodeFence(getResponseText(response) ?? '');
+  if (!text) {
+    throw new Error('The model returned an empty response.');
+  }
+  return text;
+}
+
+export interface CommitMessageRequest {
+  /** The staged changes. */
+  diff: string;
+  /** The latest commit messages of the repository, newest first. */
+  recentMessages: string[];
+}
+
+/**
+ * Writes a commit message for the staged changes that follows the
+ * convention of the repository.
+ */
+export async function generateCommitMessage(
+  request: CommitMessageRequest,
+  geminiClient: GeminiClient,
+  abortSignal: AbortSignal,
+  model: string = DEFAULT_GEMINI_FLASH_MODEL,
+): Promise<string> {
+  const convention = detectCommitConvention(request.recentMessages);
+  const examples = request.recentMessages
+    .slice(0, MAX_EXAMPLES)
+    .map((message) => message.split('\n')[0]);
+  const prompt = `Write a git commit message for the staged changes below.
+
+Rules:
+- ${CONVENTION_INSTRUCTIONS[convention]}
+- Keep the subject under 72 characters.
+- If the change needs explaining, add a blank line and a body wrapped at 72 characters that says what changed and why.
+- Only describe what is in the diff.
+- Reply with the commit message only, without quotes or Markdown.
+${
+  examples.length > 0
+    ? `
+Recent commit subjects of the repository:
+${examples.map((subject) => `- ${subject}`).join('\n')}
+`
+    : ''
+}
+Staged changes:
+${truncateDiff(request.diff)}`;
+  return generateText(prompt, geminiClient, abortSignal, model);
+}
+
+export interface PullRequestDescriptionRequest {
+  /** The changes of the branch since it branched off the base branch. */
+  diff: string;
+  /** The messages of the commits on the branch. */
+  commitMessages: string[];
+  /** The repository's pull request template, if it has one. */
+  template?: string;
+}
+
+/**
+ * Writes a Markdown pull request description for the changes of a branch,
+ * filling in the repository's template when it has one.
+ */
+export async function generatePullRequestDescription(
+  request: PullRequestDescriptionRequest,
+  geminiClient: GeminiClient,
+  abortSignal: AbortSignal,
+  model: string = DEFAULT_GEMINI_FLASH_MODEL,
+): Promise<string> {
+  const format = request.template
+    ? `Fill in this pull request template of the repository. Keep its headings and order, replace its placeholders and comments with content, and leave checkboxes unchecked unless the diff shows they are done:
+${request.template}`
+    : `Start with one or two sentences that say what the change does and why, then a "## Changes" section with a bullet per notable change.`;
+  const prompt = `Write the description of a pull request in Markdown for the branch below.
+
+${format}
+
+Be concise and only describe what is in the commits and the diff. Reply with the description only.
+
+Commits on the branch:
+${request.commitMessages.map((message) => `- ${message.split('\n')[0]}`).join('\n')}
+
+Changes:
+${truncateDiff(request.diff)}`;
+  return generateText(prompt, geminiClient, abortSignal, model);
+}
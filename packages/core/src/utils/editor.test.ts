@@ -16,7 +16,9 @@ import {
 import {
   checkHasEditorType,
   getDiffCommand,
+  getEditCommand,
   openDiff,
+  openFileInEditor,
   allowEditorTypeInSandbox,
   isEditorAvailable,
   type EditorType,
@@ -447,6 +449,79 @@ describe('editor utils', () => {
     });
   });
 
+  describe('getEditCommand', () => {
+    it('should wait for GUI editors to close the file', () => {
+      (execSync as Mock).mockReturnValue(Buffer.from('/usr/bin/code'));
+      expect(getEditCommand('msg.txt', 'vscode')).toEqual({
+        command: 'code',
+        args: ['--wait', 'msg.txt'],
+      });
+    });
+
+    it('should skip the viminfo file for vim', () => {
+      (execSync as Mock).mockReturnValue(Buffer.from('/usr/bin/vim'));
+      expect(getEditCommand('msg.txt', 'vim')).toEqual({
+        command: 'vim',
+        args: ['-i', 'NONE', 'msg.txt'],
+      });
+    });
+
+    it('should return null for an unsupported editor', () => {
+      // @ts-expect-error Testing unsupported editor
+      expect(getEditCommand('msg.txt', 'foobar')).toBeNull();
+    });
+  });
+
+  describe('openFileInEditor', () => {
+    it('should open the file in a terminal editor and call onEditorClose', async () => {
+      (execSync as Mock).mockReturnValue(Buffer.from('/usr/bin/vim'));
+      const onEditorClose = vi.fn();
+
+      await openFileInEditor('msg.txt', 'vim', onEditorClose);
+
+      expect(spawnSync).toHaveBeenCalledWith('vim', ['-i', 'NONE', 'msg.txt'], {
+        stdio: 'inherit',
+      });
+      expect(onEditorClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for a GUI editor to close', async () => {
+      const mockSpawnOn = vi.fn((event, cb) => {
+        if (event === 'close') {
+          cb(0);
+        }
+      });
+      (spawn as Mock).mockReturnValue({ on: mockSpawnOn });
+
+      await openFileInEditor('msg.txt', 'zed', () => {});
+
+      const editCommand = getEditCommand('msg.txt', 'zed')!;
+      expect(spawn).toHaveBeenCalledWith(
+        editCommand.command,
+        editCommand.args,
+        {
+          stdio: 'inherit',
+          shell: process.platform === 'win32',
+        },
+      );
+    });
+
+    it('should reject if the editor exits with an error', async () => {
+      (spawnSync as Mock).mockReturnValue({ error: null, status: 1 });
+
+      await expect(
+        openFileInEditor('msg.txt', 'emacs', () => {}),
+      ).rejects.toThrow('emacs exited with code 1');
+    });
+
+    it('should throw for an unsupported editor', async () => {
+      await expect(
+        // @ts-expect-error Testing unsupported editor
+        openFileInEditor('msg.txt', 'foobar', () => {}),
+      ).rejects.toThrow('Unsupported editor: foobar');
+    });
+  });
+
   describe('allowEditorTypeInSandbox', () => {
     it('should allow vim in sandbox mode', () => {
       vi.stubEnv('SANDBOX', 'sandbox');
@@ -156,6 +156,41 @@ export function getDiffCommand(
   }
 }
 
+/**
+ * Get the command that opens a single file for editing in a specific editor.
+ */
+export function getEditCommand(
+  filePath: string,
+  editor: EditorType,
+): DiffCommand | null {
+  if (!isValidEditorType(editor)) {
+    return null;
+  }
+  const commandConfig = editorCommands[editor];
+  const commands =
+    process.platform === 'win32' ? commandConfig.win32 : commandConfig.default;
+  const command =
+    commands.slice(0, -1).find((cmd) => commandExists(cmd)) ||
+    commands[commands.length - 1];
+
+  switch (editor) {
+    case 'vscode':
+    case 'vscodium':
+    case 'windsurf':
+    case 'cursor':
+    case 'zed':
+      return { command, args: ['--wait', filePath] };
+    case 'vim':
+    case 'neovim':
+      // skip viminfo file to avoid E138 errors
+      return { command, args: ['-i', 'NONE', filePath] };
+    case 'emacs':
+      return { command: 'emacs', args: [filePath] };
+    default:
+      return null;
+  }
+}
+
 /**
  * Opens a diff tool to compare two files.
  * Terminal-based editors by default blocks parent process until the editor exits.
@@ -172,12 +207,35 @@ export async function openDiff(
     debugLogger.error('No diff tool available. Install a supported editor.');
     return;
   }
+  return runEditorCommand(diffCommand, editor, onEditorClose);
+}
+
+/**
+ * Opens a file in an editor and resolves once the editor is closed, so that
+ * the caller can read the edited file.
+ */
+export async function openFileInEditor(
+  filePath: string,
+  editor: EditorType,
+  onEditorClose: () => void,
+): Promise<void> {
+  const editCommand = getEditCommand(filePath, editor);
+  if (!editCommand) {
+    throw new Error(`Unsupported editor: ${editor}`);
+  }
+  return runEditorCommand(editCommand, editor, onEditorClose);
+}
 
+async function runEditorCommand(
+  editorCommand: DiffCommand,
+  editor: EditorType,
+  onEditorClose: () => void,
+): Promise<void> {
   const isTerminalEditor = ['vim', 'emacs', 'neovim'].includes(editor);
 
   if (isTerminalEditor) {
     try {
-      const result = spawnSync(diffCommand.command, diffCommand.args, {
+      const result = spawnSync(editorCommand.command, editorCommand.args, {
         stdio: 'inherit',
       });
       if (result.error) {
@@ -193,7 +251,7 @@ export async function openDiff(
   }
 
   return new Promise<void>((resolve, reject) => {
-    const childProcess = spawn(diffCommand.command, diffCommand.args, {
+    const childProcess = spawn(editorCommand.command, editorCommand.args, {
       stdio: 'inherit',
       shell: process.platform === 'win32',
     });
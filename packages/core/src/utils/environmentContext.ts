@@ -43,6 +43,10 @@ Here is the folder structure of the current working directories:
 ${folderStructure}`;
 }
 
+/** The first line of the environment context sent at the start of a chat. */
+export const ENVIRONMENT_CONTEXT_PREAMBLE =
+  'This is the Gemini CLI. We are setting up the context for our chat.';
+
 /**
  * Retrieves environment-related information to be included in the chat context.
  * This includes the current working directory, date, operating system, and folder structure.
@@ -61,7 +65,7 @@ export async function getEnvironmentContext(config: Config): Promise<Part[]> {
   const directoryContext = await getDirectoryContextString(config);
 
   const context = `
-This is the Gemini CLI. We are setting up the context for our chat.
+${ENVIRONMENT_CONTEXT_PREAMBLE}
 Today's date is ${today} (formatted according to the user's locale).
 My operating system is: ${platform}
 ${directoryContext}
@@ -59,6 +59,11 @@ export class FatalTurnLimitedError extends FatalError {
     super(message, 53);
   }
 }
+export class FatalBudgetExceededError extends FatalError {
+  constructor(message: string) {
+    super(message, 55);
+  }
+}
 export class FatalToolExecutionError extends FatalError {
   constructor(message: string) {
     super(message, 54);